@@ -1,5 +1,6 @@
 const asyncHandler = require('express-async-handler');
 const backtestService = require('../services/backtestService');
+const signalJournalService = require('../services/signalJournalService');
 
 // @desc    Get all backtests for user
 // @route   GET /api/v1/backtests
@@ -89,6 +90,74 @@ const getBacktest = asyncHandler(async (req, res) => {
   });
 });
 
+// @desc    Get simulated trades of a backtest
+// @route   GET /api/v1/backtests/:id/trades
+// @access  Private
+const getBacktestTrades = asyncHandler(async (req, res) => {
+  const userId = req.user.id;
+  const backtestId = req.params.id;
+
+  const trades = await backtestService.getBacktestTrades(backtestId, userId);
+
+  if (!trades) {
+    res.status(404);
+    throw new Error('Backtest not found');
+  }
+
+  res.status(200).json({
+    success: true,
+    data: trades
+  });
+});
+
+// @desc    Get the signal journal of a backtest
+// @route   GET /api/v1/backtests/:id/signals
+// @access  Private
+const getBacktestSignals = asyncHandler(async (req, res) => {
+  const { status, action, symbol, limit, offset } = req.query;
+
+  try {
+    const result = await signalJournalService.getBacktestSignals(req.user.id, req.params.id, {
+      status,
+      action,
+      symbol,
+      limit,
+      offset
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.signals,
+      counts: result.counts,
+      pagination: result.pagination
+    });
+  } catch (error) {
+    if (/not found$/.test(error.message)) {
+      res.status(404);
+    }
+    throw error;
+  }
+});
+
+// @desc    Get the signal that produced a backtest trade
+// @route   GET /api/v1/backtests/:id/trades/:tradeId/signal
+// @access  Private
+const getTradeSignal = asyncHandler(async (req, res) => {
+  try {
+    const signal = await signalJournalService.getTradeSignal(req.user.id, req.params.id, req.params.tradeId);
+
+    res.status(200).json({
+      success: true,
+      data: signal
+    });
+  } catch (error) {
+    if (/not found$/.test(error.message)) {
+      res.status(404);
+    }
+    throw error;
+  }
+});
+
 // @desc    Update backtest
 // @route   PUT /api/v1/backtests/:id
 // @access  Private
@@ -197,6 +266,9 @@ module.exports = {
   getRunningBacktests,
   createBacktest,
   getBacktest,
+  getBacktestTrades,
+  getBacktestSignals,
+  getTradeSignal,
   updateBacktest,
   deleteBacktest,
   cancelBacktest,
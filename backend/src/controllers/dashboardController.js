@@ -2,6 +2,10 @@ const dashboardService = require('../services/dashboardService');
 const Activity = require('../models/Activity');
 const Alert = require('../models/Alert');
 const { validationResult } = require('express-validator');
+const { calculateBenchmarkMetrics } = require('../utils/performanceMetrics');
+
+// Portfolio the dashboard shows: ?portfolioId= or the X-Portfolio-Id header, else the default one
+const portfolioIdOf = (req) => req.query.portfolioId || req.get('X-Portfolio-Id');
 
 // @desc    Get complete dashboard data
 // @route   GET /api/v1/dashboard
@@ -35,7 +39,8 @@ exports.getDashboard = async (req, res) => {
       includeAlerts: includeAlerts === 'true',
       performanceDays: parseInt(performanceDays) || 30,
       activitiesLimit: parseInt(activitiesLimit) || 10,
-      alertsLimit: parseInt(alertsLimit) || 10
+      alertsLimit: parseInt(alertsLimit) || 10,
+      portfolioId: portfolioIdOf(req)
     };
 
     const dashboardData = await dashboardService.getDashboardData(userId, options);
@@ -72,7 +77,7 @@ exports.getKPIData = async (req, res) => {
       });
     }
     
-    const portfolio = await dashboardService.getUserMainPortfolio(userId);
+    const portfolio = await dashboardService.getUserMainPortfolio(userId, portfolioIdOf(req));
     if (!portfolio) {
       return res.status(404).json({
         success: false,
@@ -115,7 +120,7 @@ exports.getPerformanceData = async (req, res) => {
       });
     }
     
-    const portfolio = await dashboardService.getUserMainPortfolio(userId);
+    const portfolio = await dashboardService.getUserMainPortfolio(userId, portfolioIdOf(req));
     if (!portfolio) {
       return res.status(404).json({
         success: false,
@@ -144,6 +149,106 @@ exports.getPerformanceData = async (req, res) => {
   }
 };
 
+// @desc    Get benchmark-relative analytics of the portfolio
+// @route   GET /api/v1/dashboard/benchmark
+// @access  Private
+exports.getBenchmark = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { days = '30' } = req.query;
+
+    // Handle demo user
+    if (userId === 'demo-user-1') {
+      const demoData = getDemoDashboardData();
+      return res.status(200).json({
+        success: true,
+        data: demoData.benchmark,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const portfolio = await dashboardService.getUserMainPortfolio(userId, portfolioIdOf(req));
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
+      });
+    }
+
+    const benchmark = await dashboardService.getBenchmarkAnalytics(
+      userId,
+      portfolio._id,
+      parseInt(days) || 30
+    );
+
+    res.status(200).json({
+      success: true,
+      data: benchmark,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Benchmark fetch error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch benchmark analytics',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+// @desc    Change the portfolio benchmark
+// @route   PUT /api/v1/dashboard/benchmark
+// @access  Private
+exports.updateBenchmark = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user.id;
+
+    if (userId === 'demo-user-1') {
+      return res.status(403).json({
+        success: false,
+        message: 'The demo portfolio benchmark cannot be changed'
+      });
+    }
+
+    const portfolio = await dashboardService.getUserMainPortfolio(userId, portfolioIdOf(req));
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
+      });
+    }
+
+    await dashboardService.updateBenchmark(userId, portfolio._id, req.body);
+    const benchmark = await dashboardService.getBenchmarkAnalytics(
+      userId,
+      portfolio._id,
+      parseInt(req.query.days) || 30
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Benchmark updated',
+      data: benchmark
+    });
+  } catch (error) {
+    console.error('Benchmark update error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update benchmark',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
 // @desc    Get recent activities
 // @route   GET /api/v1/dashboard/activities
 // @access  Private
@@ -370,7 +475,7 @@ exports.getStats = async (req, res) => {
     ] = await Promise.all([
       Activity.countDocuments({ userId }),
       Alert.countDocuments({ userId, isRead: false, isDismissed: false }),
-      dashboardService.getUserMainPortfolio(userId)
+      dashboardService.getUserMainPortfolio(userId, portfolioIdOf(req))
     ]);
 
     const stats = {
@@ -413,6 +518,11 @@ function getDemoDashboardData() {
       benchmark: Math.round(baseValue + randomVariation * 0.8 + (i * 80))
     });
   }
+
+  const { benchmarkReturnPercent, ...benchmarkMetrics } = calculateBenchmarkMetrics(
+    performanceData.map(point => ({ date: new Date(point.date), equity: point.value })),
+    performanceData.map(point => point.benchmark)
+  );
   
   return {
     portfolio: {
@@ -451,6 +561,12 @@ function getDemoDashboardData() {
       }
     },
     performance: performanceData,
+    benchmark: {
+      type: 'INDEX',
+      label: 'Equal-weight index',
+      totalReturnPercent: benchmarkReturnPercent,
+      metrics: benchmarkMetrics
+    },
     activities: [
       {
         _id: 'activity-1',
@@ -0,0 +1,125 @@
+const asyncHandler = require('express-async-handler');
+const marketDataImportService = require('../services/marketDataImportService');
+const corporateActionService = require('../services/corporateActionService');
+
+// @desc    Import historical OHLCV bars from a CSV or Parquet file
+// @route   POST /api/v1/market-data/import
+// @access  Private/Admin
+const importMarketData = asyncHandler(async (req, res) => {
+  if (!req.file) {
+    res.status(400);
+    throw new Error('Attach a CSV or Parquet file as "file"');
+  }
+
+  let mapping;
+  if (req.body.mapping) {
+    try {
+      mapping = typeof req.body.mapping === 'string' ? JSON.parse(req.body.mapping) : req.body.mapping;
+    } catch (error) {
+      res.status(400);
+      throw new Error('Column mapping must be a JSON object');
+    }
+  }
+
+  const reports = await marketDataImportService.importFile(req.file.buffer, {
+    filename: req.file.originalname,
+    format: req.body.format,
+    symbol: req.body.symbol,
+    interval: req.body.interval,
+    delimiter: req.body.delimiter,
+    dateFormat: req.body.dateFormat,
+    adjust: req.body.adjust !== 'false' && req.body.adjust !== false,
+    mapping
+  });
+
+  res.status(200).json({
+    success: true,
+    data: reports
+  });
+});
+
+// @desc    Get imported history coverage per symbol
+// @route   GET /api/v1/market-data/coverage
+// @access  Private
+const getCoverage = asyncHandler(async (req, res) => {
+  const coverage = await marketDataImportService.getCoverage({
+    symbol: req.query.symbol,
+    interval: req.query.interval
+  });
+
+  res.status(200).json({
+    success: true,
+    data: coverage
+  });
+});
+
+// @desc    Get corporate actions
+// @route   GET /api/v1/market-data/corporate-actions
+// @access  Private
+const getCorporateActions = asyncHandler(async (req, res) => {
+  const actions = await corporateActionService.getActions({
+    symbol: req.query.symbol,
+    type: req.query.type,
+    from: req.query.from,
+    to: req.query.to
+  });
+
+  res.status(200).json({
+    success: true,
+    count: actions.length,
+    data: actions
+  });
+});
+
+// @desc    Add or update corporate actions
+// @route   POST /api/v1/market-data/corporate-actions
+// @access  Private/Admin
+const importCorporateActions = asyncHandler(async (req, res) => {
+  const records = Array.isArray(req.body) ? req.body : req.body.actions || [req.body];
+
+  const result = await corporateActionService.importActions(records);
+
+  res.status(result.imported > 0 || result.errors.length === 0 ? 200 : 400).json({
+    success: result.imported > 0 || result.errors.length === 0,
+    data: result
+  });
+});
+
+// @desc    Remove a corporate action that has not been applied
+// @route   DELETE /api/v1/market-data/corporate-actions/:id
+// @access  Private/Admin
+const deleteCorporateAction = asyncHandler(async (req, res) => {
+  const result = await corporateActionService.deleteAction(req.params.id);
+
+  if (!result.success) {
+    res.status(result.error === 'Corporate action not found' ? 404 : 400);
+    throw new Error(result.error);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Corporate action removed'
+  });
+});
+
+// @desc    Apply corporate actions whose ex-date has arrived
+// @route   POST /api/v1/market-data/corporate-actions/apply
+// @access  Private/Admin
+const applyCorporateActions = asyncHandler(async (req, res) => {
+  const applied = await corporateActionService.applyDueActions();
+
+  res.status(200).json({
+    success: true,
+    count: applied.length,
+    data: applied
+  });
+});
+
+module.exports = {
+  importMarketData,
+  getCoverage,
+  getCorporateActions,
+  importCorporateActions,
+  deleteCorporateAction,
+  applyCorporateActions
+};
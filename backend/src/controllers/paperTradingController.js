@@ -0,0 +1,213 @@
+const paperTradingService = require('../services/paperTradingService');
+const portfolioService = require('../services/portfolioService');
+const signalJournalService = require('../services/signalJournalService');
+
+// Failed session requests: unknown sessions are 404s, the rest are invalid requests
+const sendFailure = (res, error) => res.status(/not found/i.test(error) ? 404 : 400).json({
+  success: false,
+  message: error
+});
+
+// @desc    Get paper trading sessions
+// @route   GET /api/v1/paper-trading/sessions
+// @access  Private
+const getSessions = async (req, res) => {
+  try {
+    const sessions = await paperTradingService.getSessions(req.user.id, {
+      status: req.query.status
+    });
+
+    res.status(200).json({
+      success: true,
+      data: sessions
+    });
+  } catch (error) {
+    console.error('Error fetching paper trading sessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching paper trading sessions',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get a paper trading session
+// @route   GET /api/v1/paper-trading/sessions/:id
+// @access  Private
+const getSession = async (req, res) => {
+  try {
+    const session = await paperTradingService.getSession(req.user.id, req.params.id);
+    if (!session) {
+      return sendFailure(res, 'Session not found');
+    }
+
+    res.status(200).json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Error fetching paper trading session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching paper trading session',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get the signal journal of a paper trading session
+// @route   GET /api/v1/paper-trading/sessions/:id/signals
+// @access  Private
+const getSessionSignals = async (req, res) => {
+  try {
+    const { status, action, symbol, limit, offset } = req.query;
+    const result = await signalJournalService.getSessionSignals(req.user.id, req.params.id, {
+      status,
+      action,
+      symbol,
+      limit,
+      offset
+    });
+
+    // Paging details travel inside data, which is all the trading client keeps
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    if (/not found/i.test(error.message)) {
+      return sendFailure(res, error.message);
+    }
+    console.error('Error fetching paper trading signals:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching paper trading signals',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Deploy a strategy to paper trading
+// @route   POST /api/v1/paper-trading/sessions
+// @access  Private
+const deploySession = async (req, res) => {
+  try {
+    const { strategyId, config, symbol, timeframe, portfolioId } = req.body;
+
+    if (!strategyId || !config) {
+      return res.status(400).json({
+        success: false,
+        message: 'Strategy and deployment config are required'
+      });
+    }
+
+    // Sessions trade in the requested portfolio, else the default one
+    const portfolio = await portfolioService.resolve(req.user.id, portfolioId || req.get('X-Portfolio-Id'));
+    if (!portfolio) {
+      return sendFailure(res, 'Portfolio not found');
+    }
+
+    const result = await paperTradingService.deploy(req.user.id, portfolio, { strategyId, config, symbol, timeframe });
+    if (!result.success) {
+      return sendFailure(res, result.error);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Strategy deployed to paper trading',
+      data: result.session
+    });
+  } catch (error) {
+    console.error('Error deploying strategy to paper trading:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deploying strategy to paper trading',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Pause a paper trading session
+// @route   POST /api/v1/paper-trading/sessions/:id/pause
+// @access  Private
+const pauseSession = async (req, res) => {
+  try {
+    const result = await paperTradingService.pause(req.user.id, req.params.id, req.body && req.body.reason);
+    if (!result.success) {
+      return sendFailure(res, result.error);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session paused',
+      data: result.session
+    });
+  } catch (error) {
+    console.error('Error pausing paper trading session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error pausing paper trading session',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Resume a paper trading session
+// @route   POST /api/v1/paper-trading/sessions/:id/resume
+// @access  Private
+const resumeSession = async (req, res) => {
+  try {
+    const result = await paperTradingService.resume(req.user.id, req.params.id);
+    if (!result.success) {
+      return sendFailure(res, result.error);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session resumed',
+      data: result.session
+    });
+  } catch (error) {
+    console.error('Error resuming paper trading session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error resuming paper trading session',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Stop a paper trading session
+// @route   POST /api/v1/paper-trading/sessions/:id/stop
+// @access  Private
+const stopSession = async (req, res) => {
+  try {
+    const result = await paperTradingService.stop(req.user.id, req.params.id);
+    if (!result.success) {
+      return sendFailure(res, result.error);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session stopped',
+      data: result.session
+    });
+  } catch (error) {
+    console.error('Error stopping paper trading session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error stopping paper trading session',
+      error: error.message
+    });
+  }
+};
+
+module.exports = {
+  getSessions,
+  getSession,
+  getSessionSignals,
+  deploySession,
+  pauseSession,
+  resumeSession,
+  stopSession
+};
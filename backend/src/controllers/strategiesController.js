@@ -1,4 +1,17 @@
 const strategiesService = require('../services/strategiesService');
+const strategyVersionService = require('../services/strategyVersionService');
+const strategyPackageService = require('../services/strategyPackageService');
+const templateService = require('../services/templateService');
+const signalJournalService = require('../services/signalJournalService');
+const { normalizeRules } = require('../utils/strategyRules');
+const { BUMPS } = require('../utils/strategyVersions');
+
+// Visual rules are checked before saving so the builder can say which block is wrong
+const normalizeBodyRules = (body) => {
+  if (body.rules !== undefined && body.rules !== null) {
+    body.rules = normalizeRules(body.rules);
+  }
+};
 
 /**
  * @desc    Get user's strategies with filtering and pagination
@@ -87,6 +100,15 @@ const createStrategy = async (req, res) => {
       });
     }
 
+    try {
+      normalizeBodyRules(strategyData);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     const strategy = await strategiesService.createStrategy(userId, strategyData);
 
     res.status(201).json({
@@ -140,6 +162,22 @@ const updateStrategy = async (req, res) => {
     const strategyId = req.params.id;
     const updateData = req.body;
 
+    try {
+      normalizeBodyRules(updateData);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    if (updateData.versionBump !== undefined && !BUMPS.includes(updateData.versionBump)) {
+      return res.status(400).json({
+        success: false,
+        message: `Version bump must be one of ${BUMPS.join(', ')}`
+      });
+    }
+
     const strategy = await strategiesService.updateStrategy(userId, strategyId, updateData);
 
     res.status(200).json({
@@ -221,7 +259,7 @@ const deployStrategy = async (req, res) => {
     const userId = req.user.id;
     const strategyId = req.params.id;
 
-    const strategy = await strategiesService.deployStrategy(userId, strategyId);
+    const strategy = await strategiesService.deployStrategy(userId, strategyId, req.body.riskLimits);
 
     res.status(200).json({
       success: true,
@@ -302,6 +340,7 @@ const getTemplates = async (req, res) => {
     const {
       category,
       search,
+      source,
       sortBy = 'usageCount',
       sortOrder = 'desc',
       limit = 20,
@@ -311,6 +350,8 @@ const getTemplates = async (req, res) => {
     const options = {
       category,
       search,
+      source,
+      userId: req.user.id,
       sortBy,
       sortOrder,
       limit: parseInt(limit),
@@ -437,6 +478,585 @@ const getPerformanceSummary = async (req, res) => {
   }
 };
 
+/**
+ * @desc    Validate strategy code in the sandboxed runtime
+ * @route   POST /api/v1/strategies/validate-code
+ * @access  Private
+ */
+const validateStrategyCode = async (req, res) => {
+  try {
+    const { code, parameters } = req.body;
+
+    if (typeof code !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Code is required'
+      });
+    }
+
+    const result = await strategiesService.validateStrategyCode(code, parameters || {});
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Validate strategy code error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to validate strategy code'
+    });
+  }
+};
+
+/**
+ * @desc    Compile visual rules into equivalent strategy code
+ * @route   POST /api/v1/strategies/compile-rules
+ * @access  Private
+ */
+const compileStrategyRules = async (req, res) => {
+  try {
+    const { rules } = req.body;
+
+    if (!rules) {
+      return res.status(400).json({
+        success: false,
+        message: 'Rules are required'
+      });
+    }
+
+    let code;
+    try {
+      code = strategiesService.compileStrategyRules(rules);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { code }
+    });
+  } catch (error) {
+    console.error('Compile strategy rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to compile strategy rules'
+    });
+  }
+};
+
+/**
+ * @desc    Convert a visual strategy into a code strategy
+ * @route   POST /api/v1/strategies/:id/convert-to-code
+ * @access  Private
+ */
+const convertToCode = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const strategyId = req.params.id;
+
+    const strategy = await strategiesService.convertToCode(userId, strategyId);
+
+    res.status(200).json({
+      success: true,
+      data: strategy,
+      message: 'Strategy converted to code'
+    });
+  } catch (error) {
+    console.error('Convert strategy to code error:', error);
+    const statusCode = error.message === 'Strategy not found' ? 404 : 400;
+    res.status(statusCode).json({
+      success: false,
+      message: error.message || 'Failed to convert strategy to code'
+    });
+  }
+};
+
+// Version lookups fail with "Strategy not found" or "Version x not found"
+const versionErrorStatus = (error) => (/not found$/.test(error.message) ? 404 : 400);
+
+/**
+ * @desc    Get the version history of a strategy
+ * @route   GET /api/v1/strategies/:id/versions
+ * @access  Private
+ */
+const getStrategyVersions = async (req, res) => {
+  try {
+    const history = await strategyVersionService.getVersions(req.user.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: history
+    });
+  } catch (error) {
+    console.error('Get strategy versions error:', error);
+    res.status(versionErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to fetch strategy versions'
+    });
+  }
+};
+
+/**
+ * @desc    Compare two versions of a strategy
+ * @route   GET /api/v1/strategies/:id/versions/diff?from=1.0.0&to=1.1.0
+ * @access  Private
+ */
+const diffStrategyVersions = async (req, res) => {
+  try {
+    const { from, to } = req.query;
+
+    if (!from || !to) {
+      return res.status(400).json({
+        success: false,
+        message: 'Both from and to versions are required'
+      });
+    }
+
+    const comparison = await strategyVersionService.diffVersions(req.user.id, req.params.id, from, to);
+
+    res.status(200).json({
+      success: true,
+      data: comparison
+    });
+  } catch (error) {
+    console.error('Diff strategy versions error:', error);
+    res.status(versionErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to compare strategy versions'
+    });
+  }
+};
+
+/**
+ * @desc    Get one version of a strategy with its code, parameters and rules
+ * @route   GET /api/v1/strategies/:id/versions/:version
+ * @access  Private
+ */
+const getStrategyVersion = async (req, res) => {
+  try {
+    const version = await strategyVersionService.getVersion(req.user.id, req.params.id, req.params.version);
+
+    res.status(200).json({
+      success: true,
+      data: version
+    });
+  } catch (error) {
+    console.error('Get strategy version error:', error);
+    res.status(versionErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to fetch strategy version'
+    });
+  }
+};
+
+/**
+ * @desc    Roll a strategy back to an earlier version
+ * @route   POST /api/v1/strategies/:id/versions/:version/rollback
+ * @access  Private
+ */
+const rollbackStrategy = async (req, res) => {
+  try {
+    const { strategy, version } = await strategyVersionService.rollback(
+      req.user.id,
+      req.params.id,
+      req.params.version,
+      req.body.message
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { strategy, version },
+      message: `Strategy rolled back to v${req.params.version}`
+    });
+  } catch (error) {
+    console.error('Rollback strategy error:', error);
+    res.status(versionErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to roll back strategy'
+    });
+  }
+};
+
+/**
+ * @desc    Export a strategy as a package
+ * @route   POST /api/v1/strategies/:id/export
+ * @access  Private
+ */
+const exportStrategyPackage = async (req, res) => {
+  try {
+    const { presets, includeBacktest } = req.body;
+
+    const pkg = await strategyPackageService.exportStrategy(req.user.id, req.params.id, {
+      presets,
+      includeBacktest: includeBacktest === true
+    });
+
+    res.status(200).json({
+      success: true,
+      data: pkg
+    });
+  } catch (error) {
+    console.error('Export strategy package error:', error);
+    const statusCode = error.message === 'Strategy not found' ? 404 : 500;
+    res.status(statusCode).json({
+      success: false,
+      message: error.message || 'Failed to export strategy'
+    });
+  }
+};
+
+/**
+ * @desc    Validate a strategy package and preview its import
+ * @route   POST /api/v1/strategies/import/preview
+ * @access  Private
+ */
+const previewStrategyImport = async (req, res) => {
+  try {
+    const { package: pkg } = req.body;
+
+    if (!pkg) {
+      return res.status(400).json({
+        success: false,
+        message: 'Package is required'
+      });
+    }
+
+    const preview = await strategyPackageService.previewImport(req.user.id, pkg);
+
+    res.status(200).json({
+      success: true,
+      data: preview
+    });
+  } catch (error) {
+    console.error('Preview strategy import error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to preview strategy import'
+    });
+  }
+};
+
+/**
+ * @desc    Import a strategy package as a new strategy
+ * @route   POST /api/v1/strategies/import
+ * @access  Private
+ */
+const importStrategyPackage = async (req, res) => {
+  try {
+    const { package: pkg, name } = req.body;
+
+    if (!pkg) {
+      return res.status(400).json({
+        success: false,
+        message: 'Package is required'
+      });
+    }
+
+    const result = await strategyPackageService.importPackage(req.user.id, pkg, { name });
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Strategy imported successfully'
+    });
+  } catch (error) {
+    console.error('Import strategy package error:', error);
+    const statusCode = /already exists$/.test(error.message) ? 409 : 400;
+    res.status(statusCode).json({
+      success: false,
+      message: error.message || 'Failed to import strategy'
+    });
+  }
+};
+
+// Marketplace lookups fail with "Template not found" or "Strategy not found"
+const templateErrorStatus = (error) => (/not found$/.test(error.message) ? 404 : 400);
+
+/**
+ * @desc    Get the templates published by the current user
+ * @route   GET /api/v1/strategies/templates/mine
+ * @access  Private
+ */
+const getMyTemplates = async (req, res) => {
+  try {
+    const templates = await templateService.getMyTemplates(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: templates
+    });
+  } catch (error) {
+    console.error('Get my templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to fetch your templates'
+    });
+  }
+};
+
+/**
+ * @desc    Get one template with its author and the user's review
+ * @route   GET /api/v1/strategies/templates/:templateId
+ * @access  Private
+ */
+const getTemplate = async (req, res) => {
+  try {
+    const template = await templateService.getTemplate(req.user.id, req.params.templateId, {
+      isAdmin: req.user.role === 'admin'
+    });
+
+    res.status(200).json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Get template error:', error);
+    res.status(templateErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to fetch template'
+    });
+  }
+};
+
+/**
+ * @desc    Publish a strategy as a template
+ * @route   POST /api/v1/strategies/:id/publish
+ * @access  Private
+ */
+const publishStrategy = async (req, res) => {
+  try {
+    const template = await templateService.publishStrategy(req.user.id, req.params.id, req.body);
+
+    res.status(200).json({
+      success: true,
+      data: template,
+      message: template.isPublic ? 'Template published to the marketplace' : 'Private template saved'
+    });
+  } catch (error) {
+    console.error('Publish strategy error:', error);
+    res.status(templateErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to publish strategy'
+    });
+  }
+};
+
+/**
+ * @desc    Update the listing of an own template
+ * @route   PUT /api/v1/strategies/templates/:templateId
+ * @access  Private
+ */
+const updateTemplate = async (req, res) => {
+  try {
+    const template = await templateService.updateTemplate(req.user.id, req.params.templateId, req.body);
+
+    res.status(200).json({
+      success: true,
+      data: template,
+      message: 'Template updated successfully'
+    });
+  } catch (error) {
+    console.error('Update template error:', error);
+    res.status(templateErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to update template'
+    });
+  }
+};
+
+/**
+ * @desc    Unpublish an own template
+ * @route   DELETE /api/v1/strategies/templates/:templateId
+ * @access  Private
+ */
+const unpublishTemplate = async (req, res) => {
+  try {
+    await templateService.unpublishTemplate(req.user.id, req.params.templateId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Template unpublished'
+    });
+  } catch (error) {
+    console.error('Unpublish template error:', error);
+    res.status(templateErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to unpublish template'
+    });
+  }
+};
+
+/**
+ * @desc    Get the reviews of a template
+ * @route   GET /api/v1/strategies/templates/:templateId/reviews
+ * @access  Private
+ */
+const getTemplateReviews = async (req, res) => {
+  try {
+    const { limit = 20, offset = 0 } = req.query;
+    const result = await templateService.getReviews(req.user.id, req.params.templateId, {
+      limit: parseInt(limit),
+      offset: parseInt(offset)
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.reviews,
+      pagination: result.pagination
+    });
+  } catch (error) {
+    console.error('Get template reviews error:', error);
+    res.status(templateErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to fetch template reviews'
+    });
+  }
+};
+
+/**
+ * @desc    Rate and review a template
+ * @route   POST /api/v1/strategies/templates/:templateId/reviews
+ * @access  Private
+ */
+const reviewTemplate = async (req, res) => {
+  try {
+    const rating = Number(req.body.rating);
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return res.status(400).json({
+        success: false,
+        message: 'Rating must be a whole number from 1 to 5'
+      });
+    }
+
+    const result = await templateService.reviewTemplate(req.user.id, req.params.templateId, {
+      rating,
+      comment: req.body.comment
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Review saved'
+    });
+  } catch (error) {
+    console.error('Review template error:', error);
+    res.status(templateErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to review template'
+    });
+  }
+};
+
+/**
+ * @desc    Fork a template into a new strategy
+ * @route   POST /api/v1/strategies/templates/:templateId/fork
+ * @access  Private
+ */
+const forkTemplate = async (req, res) => {
+  try {
+    const { name, description } = req.body;
+    const strategy = await templateService.forkTemplate(req.user.id, req.params.templateId, { name, description });
+
+    res.status(201).json({
+      success: true,
+      data: strategy,
+      message: 'Template forked successfully'
+    });
+  } catch (error) {
+    console.error('Fork template error:', error);
+    res.status(templateErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to fork template'
+    });
+  }
+};
+
+/**
+ * @desc    Hide a template from the marketplace or show it again
+ * @route   PUT /api/v1/strategies/templates/:templateId/moderation
+ * @access  Private/Admin
+ */
+const moderateTemplate = async (req, res) => {
+  try {
+    const { status, reason } = req.body;
+    const template = await templateService.moderateTemplate(req.user.id, req.params.templateId, { status, reason });
+
+    res.status(200).json({
+      success: true,
+      data: template,
+      message: status === 'HIDDEN' ? 'Template hidden' : 'Template visible again'
+    });
+  } catch (error) {
+    console.error('Moderate template error:', error);
+    res.status(templateErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to moderate template'
+    });
+  }
+};
+
+// Unknown strategies and signals are 404s, the rest are invalid requests
+const signalErrorStatus = (error) => (/not found$/.test(error.message) ? 404 : 400);
+
+/**
+ * @desc    Get the signal journal of a strategy across its backtests and paper sessions
+ * @route   GET /api/v1/strategies/:id/signals
+ * @access  Private
+ */
+const getStrategySignals = async (req, res) => {
+  try {
+    const { source, status, action, symbol, limit, offset } = req.query;
+    const result = await signalJournalService.getStrategySignals(req.user.id, req.params.id, {
+      source,
+      status,
+      action,
+      symbol,
+      limit,
+      offset
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.signals,
+      counts: result.counts,
+      pagination: result.pagination
+    });
+  } catch (error) {
+    console.error('Get strategy signals error:', error);
+    res.status(signalErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to fetch strategy signals'
+    });
+  }
+};
+
+/**
+ * @desc    Get one journaled signal with the orders and trades it led to
+ * @route   GET /api/v1/strategies/signals/:signalId
+ * @access  Private
+ */
+const getSignal = async (req, res) => {
+  try {
+    const signal = await signalJournalService.getSignal(req.user.id, req.params.signalId);
+
+    res.status(200).json({
+      success: true,
+      data: signal
+    });
+  } catch (error) {
+    console.error('Get signal error:', error);
+    res.status(signalErrorStatus(error)).json({
+      success: false,
+      message: error.message || 'Failed to fetch signal'
+    });
+  }
+};
+
 module.exports = {
   getStrategies,
   getStatusCounts,
@@ -452,5 +1072,26 @@ module.exports = {
   getTemplateCategories,
   getPopularTemplates,
   createFromTemplate,
-  getPerformanceSummary
+  getPerformanceSummary,
+  validateStrategyCode,
+  compileStrategyRules,
+  convertToCode,
+  getStrategyVersions,
+  diffStrategyVersions,
+  getStrategyVersion,
+  rollbackStrategy,
+  exportStrategyPackage,
+  previewStrategyImport,
+  importStrategyPackage,
+  getMyTemplates,
+  getTemplate,
+  publishStrategy,
+  updateTemplate,
+  unpublishTemplate,
+  getTemplateReviews,
+  reviewTemplate,
+  forkTemplate,
+  moderateTemplate,
+  getStrategySignals,
+  getSignal
 };
\ No newline at end of file
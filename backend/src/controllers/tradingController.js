@@ -1,29 +1,36 @@
 const orderService = require('../services/orderService');
 const positionService = require('../services/positionService');
 const marketDataService = require('../services/marketDataService');
-const Portfolio = require('../models/Portfolio');
+const barService = require('../services/barService');
+const matchingEngine = require('../services/matchingEngine');
+const tradingCalendarService = require('../services/tradingCalendarService');
+const riskEngine = require('../services/riskEngine');
+const marginService = require('../services/marginService');
+const { TIMEFRAMES } = require('../utils/barAggregation');
+const { EXCHANGES } = require('../utils/tradingCalendar');
+const { DEFAULT_RISK_LIMITS } = require('../utils/riskRules');
+const portfolioService = require('../services/portfolioService');
+
+// Portfolio a request is scoped to: ?portfolioId=, a portfolioId in the
+// body or the X-Portfolio-Id header, else the user's default portfolio
+const resolvePortfolio = (req) => portfolioService.resolve(
+  req.user.id,
+  req.query.portfolioId || (req.body && req.body.portfolioId) || req.get('X-Portfolio-Id')
+);
 
 // @desc    Get user portfolio
 // @route   GET /api/v1/trading/portfolio
 // @access  Private
 const getPortfolio = async (req, res) => {
   try {
-    // Get or create user's portfolio
-    let portfolio = await Portfolio.findOne({ 
-      userId: req.user.id, 
-      isActive: true 
-    });
+    // The default portfolio is created on first use
+    const portfolio = await resolvePortfolio(req);
 
     if (!portfolio) {
-      // Create default portfolio
-      portfolio = new Portfolio({
-        userId: req.user.id,
-        name: 'Main Portfolio',
-        cashBalance: 1000000, // 10 lakh starting balance
-        totalValue: 1000000,
-        isPaperTrading: true
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
       });
-      await portfolio.save();
     }
 
     // Get portfolio summary with positions
@@ -46,15 +53,215 @@ const getPortfolio = async (req, res) => {
   }
 };
 
+// @desc    Get user portfolios
+// @route   GET /api/v1/trading/portfolios
+// @access  Private
+const getPortfolios = async (req, res) => {
+  try {
+    // Make sure a new user has their default portfolio
+    await portfolioService.resolve(req.user.id);
+
+    const portfolios = await portfolioService.getPortfolios(req.user.id, req.query.includeArchived === 'true');
+
+    res.status(200).json({
+      success: true,
+      data: portfolios
+    });
+  } catch (error) {
+    console.error('Error getting portfolios:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error retrieving portfolios',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Create portfolio
+// @route   POST /api/v1/trading/portfolios
+// @access  Private
+const createPortfolio = async (req, res) => {
+  try {
+    const { name, description, kind, strategyId, accountType, initialCapital, isDefault } = req.body;
+
+    const result = await portfolioService.create(req.user.id, {
+      name, description, kind, strategyId, accountType, initialCapital, isDefault
+    });
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Portfolio created successfully',
+      data: result.portfolio
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Error creating portfolio:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating portfolio',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Rename a portfolio or make it the default
+// @route   PUT /api/v1/trading/portfolios/:id
+// @access  Private
+const updatePortfolio = async (req, res) => {
+  try {
+    const { name, description, kind, strategyId, isDefault } = req.body;
+
+    const result = await portfolioService.update(req.user.id, req.params.id, {
+      name, description, kind, strategyId, isDefault
+    });
+
+    if (!result.success) {
+      return res.status(result.error === 'Portfolio not found' ? 404 : 400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Portfolio updated successfully',
+      data: result.portfolio
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Error updating portfolio:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating portfolio',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Reset a portfolio to its initial capital
+// @route   POST /api/v1/trading/portfolios/:id/reset
+// @access  Private
+const resetPortfolio = async (req, res) => {
+  try {
+    const result = await portfolioService.reset(req.user.id, req.params.id);
+
+    if (!result.success) {
+      return res.status(404).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Portfolio reset successfully',
+      data: result.portfolio
+    });
+  } catch (error) {
+    console.error('Error resetting portfolio:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error resetting portfolio',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Archive a portfolio
+// @route   POST /api/v1/trading/portfolios/:id/archive
+// @access  Private
+const archivePortfolio = async (req, res) => {
+  try {
+    const result = await portfolioService.archive(req.user.id, req.params.id);
+
+    if (!result.success) {
+      return res.status(result.error === 'Portfolio not found' ? 404 : 400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Portfolio archived successfully',
+      data: result.portfolio
+    });
+  } catch (error) {
+    console.error('Error archiving portfolio:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error archiving portfolio',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Transfer cash between portfolios
+// @route   POST /api/v1/trading/portfolios/transfers
+// @access  Private
+const transferCash = async (req, res) => {
+  try {
+    const { fromPortfolioId, toPortfolioId, amount } = req.body;
+
+    if (!fromPortfolioId || !toPortfolioId || amount === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Source portfolio, target portfolio and amount are required'
+      });
+    }
+
+    const result = await portfolioService.transfer(req.user.id, fromPortfolioId, toPortfolioId, amount);
+
+    if (!result.success) {
+      return res.status(result.error === 'Portfolio not found' ? 404 : 400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Transfer completed successfully',
+      data: {
+        from: result.from,
+        to: result.to
+      }
+    });
+  } catch (error) {
+    console.error('Error transferring cash:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error transferring cash',
+      error: error.message
+    });
+  }
+};
+
 // @desc    Get user positions
 // @route   GET /api/v1/trading/positions
 // @access  Private
 const getPositions = async (req, res) => {
   try {
-    const portfolio = await Portfolio.findOne({ 
-      userId: req.user.id, 
-      isActive: true 
-    });
+    const portfolio = await resolvePortfolio(req);
 
     if (!portfolio) {
       return res.status(404).json({
@@ -92,17 +299,18 @@ const closePosition = async (req, res) => {
     if (!result.success) {
       return res.status(400).json({
         success: false,
-        message: result.error
+        message: result.error,
+        violations: result.violations,
+        data: result.order
       });
     }
 
     res.status(200).json({
       success: true,
-      message: 'Position closed successfully',
+      message: result.order.status === 'FILLED' ? 'Position closed successfully' : 'Close order placed',
       data: {
-        position: result.position,
-        trade: result.trade,
-        pnl: result.pnl
+        order: result.order,
+        position: result.position
       }
     });
   } catch (error) {
@@ -198,7 +406,10 @@ const setTakeProfit = async (req, res) => {
 // @access  Private
 const placeOrder = async (req, res) => {
   try {
-    const { symbol, side, type, quantity, price, stopPrice, strategyId } = req.body;
+    const {
+      symbol, side, type, quantity, price, stopPrice, strategyId, timeInForce, expiresAt,
+      trailAmount, trailPercent, displayQuantity, bracket
+    } = req.body;
 
     // Validate required fields
     if (!symbol || !side || !type || !quantity) {
@@ -208,10 +419,7 @@ const placeOrder = async (req, res) => {
       });
     }
 
-    const portfolio = await Portfolio.findOne({ 
-      userId: req.user.id, 
-      isActive: true 
-    });
+    const portfolio = await resolvePortfolio(req);
 
     if (!portfolio) {
       return res.status(404).json({
@@ -227,7 +435,13 @@ const placeOrder = async (req, res) => {
       quantity,
       price,
       stopPrice,
-      strategyId
+      strategyId,
+      timeInForce,
+      expiresAt,
+      trailAmount,
+      trailPercent,
+      displayQuantity,
+      bracket
     };
 
     const result = await orderService.placeOrder(req.user.id, portfolio._id, orderData);
@@ -237,6 +451,7 @@ const placeOrder = async (req, res) => {
         success: false,
         message: 'Order rejected',
         errors: result.errors,
+        violations: result.violations,
         data: result.order
       });
     }
@@ -244,7 +459,8 @@ const placeOrder = async (req, res) => {
     res.status(201).json({
       success: true,
       message: 'Order placed successfully',
-      data: result.order
+      data: result.order,
+      linkedOrders: result.linkedOrders
     });
   } catch (error) {
     console.error('Error placing order:', error);
@@ -256,6 +472,125 @@ const placeOrder = async (req, res) => {
   }
 };
 
+// @desc    Run the pre-trade risk checks on an order without placing it
+// @route   POST /api/v1/trading/orders/check
+// @access  Private
+const checkOrder = async (req, res) => {
+  try {
+    const { symbol, side, type, quantity, price, stopPrice, strategyId } = req.body;
+
+    if (!symbol || !side || !type || !quantity) {
+      return res.status(400).json({
+        success: false,
+        message: 'Symbol, side, type, and quantity are required'
+      });
+    }
+
+    const portfolio = await resolvePortfolio(req);
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
+      });
+    }
+
+    const result = await orderService.checkOrder(req.user.id, portfolio._id, {
+      symbol: symbol.toUpperCase(),
+      side,
+      type,
+      quantity,
+      price,
+      stopPrice,
+      strategyId
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error checking order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error checking order',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Place a one-cancels-other order group
+// @route   POST /api/v1/trading/orders/oco
+// @access  Private
+const placeOcoOrder = async (req, res) => {
+  try {
+    const { orders } = req.body;
+
+    if (!Array.isArray(orders) || orders.length < 2) {
+      return res.status(400).json({
+        success: false,
+        message: 'An OCO group needs at least two orders'
+      });
+    }
+
+    if (orders.some(leg => !leg.symbol || !leg.side || !leg.type || !leg.quantity)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Symbol, side, type, and quantity are required for every order'
+      });
+    }
+
+    const portfolio = await resolvePortfolio(req);
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
+      });
+    }
+
+    const legs = orders.map(leg => ({
+      symbol: leg.symbol.toUpperCase(),
+      side: leg.side,
+      type: leg.type,
+      quantity: leg.quantity,
+      price: leg.price,
+      stopPrice: leg.stopPrice,
+      strategyId: leg.strategyId,
+      timeInForce: leg.timeInForce,
+      expiresAt: leg.expiresAt,
+      trailAmount: leg.trailAmount,
+      trailPercent: leg.trailPercent,
+      displayQuantity: leg.displayQuantity
+    }));
+
+    const result = await orderService.placeOcoOrder(req.user.id, portfolio._id, legs);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        message: 'OCO order rejected',
+        errors: result.errors,
+        violations: result.violations,
+        data: result.order
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'OCO order placed successfully',
+      data: result.orders
+    });
+  } catch (error) {
+    console.error('Error placing OCO order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error placing OCO order',
+      error: error.message
+    });
+  }
+};
+
 // @desc    Get orders
 // @route   GET /api/v1/trading/orders
 // @access  Private
@@ -263,10 +598,7 @@ const getOrders = async (req, res) => {
   try {
     const { status, page, limit } = req.query;
 
-    const portfolio = await Portfolio.findOne({ 
-      userId: req.user.id, 
-      isActive: true 
-    });
+    const portfolio = await resolvePortfolio(req);
 
     if (!portfolio) {
       return res.status(404).json({
@@ -301,10 +633,7 @@ const getOrders = async (req, res) => {
 // @access  Private
 const getActiveOrders = async (req, res) => {
   try {
-    const portfolio = await Portfolio.findOne({ 
-      userId: req.user.id, 
-      isActive: true 
-    });
+    const portfolio = await resolvePortfolio(req);
 
     if (!portfolio) {
       return res.status(404).json({
@@ -366,19 +695,22 @@ const cancelOrder = async (req, res) => {
 const modifyOrder = async (req, res) => {
   try {
     const { id } = req.params;
-    const { price, quantity, stopPrice } = req.body;
+    const { price, quantity, stopPrice, trailAmount, trailPercent } = req.body;
 
     const result = await orderService.modifyOrder(req.user.id, id, {
       price,
       quantity,
-      stopPrice
+      stopPrice,
+      trailAmount,
+      trailPercent
     });
 
     if (!result.success) {
       return res.status(400).json({
         success: false,
         message: result.error || 'Failed to modify order',
-        errors: result.errors
+        errors: result.errors,
+        violations: result.violations
       });
     }
 
@@ -490,17 +822,21 @@ const getHistoricalData = async (req, res) => {
 const getOHLCData = async (req, res) => {
   try {
     const { symbol } = req.params;
-    const { period, count } = req.query;
+    const timeframe = req.query.timeframe || req.query.period || '1d';
+    const count = Math.min(parseInt(req.query.count) || 100, 1000);
 
-    const ohlcData = await marketDataService.generateOHLCData(
-      symbol, 
-      period || '1d', 
-      parseInt(count) || 100
-    );
+    if (!TIMEFRAMES.includes(timeframe)) {
+      return res.status(400).json({
+        success: false,
+        message: `Timeframe must be one of ${TIMEFRAMES.join(', ')}`
+      });
+    }
+
+    const bars = await barService.getRecentBars(symbol, timeframe, count);
 
     res.status(200).json({
       success: true,
-      data: ohlcData
+      data: bars
     });
   } catch (error) {
     console.error('Error getting OHLC data:', error);
@@ -512,15 +848,108 @@ const getOHLCData = async (req, res) => {
   }
 };
 
+// @desc    Get order book depth
+// @route   GET /api/v1/trading/market-data/:symbol/book
+// @access  Private
+const getOrderBook = async (req, res) => {
+  try {
+    const { symbol } = req.params;
+    const levels = Math.min(parseInt(req.query.levels) || 10, 50);
+
+    let depth = matchingEngine.getDepth(symbol, levels);
+
+    // Quote the book from the latest price before its first tick
+    if (!depth) {
+      const marketData = await marketDataService.getSymbolData(symbol);
+      if (!marketData) {
+        return res.status(404).json({
+          success: false,
+          message: 'Symbol not found'
+        });
+      }
+      matchingEngine.book(symbol).seed(marketData.price);
+      depth = matchingEngine.getDepth(symbol, levels);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: depth
+    });
+  } catch (error) {
+    console.error('Error getting order book:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error retrieving order book',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get market session status
+// @route   GET /api/v1/trading/market-status
+// @access  Private
+const getMarketStatus = async (req, res) => {
+  try {
+    const exchange = (req.query.exchange || 'NSE').toUpperCase();
+
+    if (!EXCHANGES.includes(exchange)) {
+      return res.status(400).json({
+        success: false,
+        message: `Exchange must be one of ${EXCHANGES.join(', ')}`
+      });
+    }
+
+    const status = await marketDataService.getMarketStatus(exchange);
+
+    res.status(200).json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    console.error('Error getting market status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error retrieving market status',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get exchange holidays
+// @route   GET /api/v1/trading/calendar/holidays
+// @access  Private
+const getHolidays = async (req, res) => {
+  try {
+    const exchange = (req.query.exchange || 'NSE').toUpperCase();
+    const year = req.query.year ? parseInt(req.query.year) : undefined;
+
+    if (!EXCHANGES.includes(exchange)) {
+      return res.status(400).json({
+        success: false,
+        message: `Exchange must be one of ${EXCHANGES.join(', ')}`
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: tradingCalendarService.getHolidays(exchange, year)
+    });
+  } catch (error) {
+    console.error('Error getting holidays:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error retrieving holidays',
+      error: error.message
+    });
+  }
+};
+
 // @desc    Export orders to CSV
 // @route   GET /api/v1/trading/orders/export
 // @access  Private
 const exportOrders = async (req, res) => {
   try {
-    const portfolio = await Portfolio.findOne({ 
-      userId: req.user.id, 
-      isActive: true 
-    });
+    const portfolio = await resolvePortfolio(req);
 
     if (!portfolio) {
       return res.status(404).json({
@@ -549,10 +978,7 @@ const exportOrders = async (req, res) => {
 // @access  Private
 const exportPositions = async (req, res) => {
   try {
-    const portfolio = await Portfolio.findOne({ 
-      userId: req.user.id, 
-      isActive: true 
-    });
+    const portfolio = await resolvePortfolio(req);
 
     if (!portfolio) {
       return res.status(404).json({
@@ -576,13 +1002,214 @@ const exportPositions = async (req, res) => {
   }
 };
 
+// @desc    Get account risk limits
+// @route   GET /api/v1/trading/risk-limits
+// @access  Private
+const getRiskLimits = async (req, res) => {
+  try {
+    const portfolio = await resolvePortfolio(req);
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await riskEngine.getLimits(req.user.id, portfolio._id)
+    });
+  } catch (error) {
+    console.error('Error getting risk limits:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error retrieving risk limits',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Update account risk limits
+// @route   PUT /api/v1/trading/risk-limits
+// @access  Private
+const updateRiskLimits = async (req, res) => {
+  try {
+    const invalid = Object.entries(req.body)
+      .filter(([key, limit]) => key in DEFAULT_RISK_LIMITS && limit !== null && !(typeof limit === 'number' && limit >= 0))
+      .map(([key]) => key);
+
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Risk limits must be non-negative numbers or null: ${invalid.join(', ')}`
+      });
+    }
+
+    const portfolio = await resolvePortfolio(req);
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
+      });
+    }
+
+    const limits = await riskEngine.updateLimits(req.user.id, portfolio._id, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Risk limits updated',
+      data: limits
+    });
+  } catch (error) {
+    console.error('Error updating risk limits:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating risk limits',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get margin account summary
+// @route   GET /api/v1/trading/margin
+// @access  Private
+const getMargin = async (req, res) => {
+  try {
+    const portfolio = await resolvePortfolio(req);
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await marginService.getSummary(req.user.id, portfolio._id)
+    });
+  } catch (error) {
+    console.error('Error getting margin:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error retrieving margin',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Switch between a cash and a margin account
+// @route   PUT /api/v1/trading/margin/account-type
+// @access  Private
+const setAccountType = async (req, res) => {
+  try {
+    const { accountType } = req.body;
+
+    if (!['CASH', 'MARGIN'].includes(accountType)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Account type must be CASH or MARGIN'
+      });
+    }
+
+    const portfolio = await resolvePortfolio(req);
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found'
+      });
+    }
+
+    const result = await marginService.setAccountType(req.user.id, portfolio._id, accountType);
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Switched to a ${accountType.toLowerCase()} account`,
+      data: await marginService.getSummary(req.user.id, portfolio._id)
+    });
+  } catch (error) {
+    console.error('Error setting account type:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error setting account type',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get margin requirements
+// @route   GET /api/v1/trading/margin/requirements
+// @access  Private
+const getMarginRequirements = async (req, res) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await marginService.getRequirements()
+    });
+  } catch (error) {
+    console.error('Error getting margin requirements:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error retrieving margin requirements',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Set the margin requirement of a symbol
+// @route   PUT /api/v1/trading/margin/requirements/:symbol
+// @access  Private (admin)
+const setMarginRequirement = async (req, res) => {
+  try {
+    const requirement = await marginService.setRequirement(req.params.symbol, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Margin requirement updated',
+      data: requirement
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Error setting margin requirement:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating margin requirement',
+      error: error.message
+    });
+  }
+};
+
 module.exports = {
   getPortfolio,
+  getPortfolios,
+  createPortfolio,
+  updatePortfolio,
+  resetPortfolio,
+  archivePortfolio,
+  transferCash,
   getPositions,
   closePosition,
   setStopLoss,
   setTakeProfit,
   placeOrder,
+  checkOrder,
+  placeOcoOrder,
   getOrders,
   getActiveOrders,
   cancelOrder,
@@ -591,6 +1218,15 @@ module.exports = {
   getSymbolData,
   getHistoricalData,
   getOHLCData,
+  getOrderBook,
+  getMarketStatus,
+  getHolidays,
+  getRiskLimits,
+  updateRiskLimits,
+  getMargin,
+  setAccountType,
+  getMarginRequirements,
+  setMarginRequirement,
   exportOrders,
   exportPositions
 };
\ No newline at end of file
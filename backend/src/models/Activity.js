@@ -16,7 +16,7 @@ const activitySchema = new mongoose.Schema({
   // Activity Details
   type: {
     type: String,
-    enum: ['trade', 'strategy', 'alert', 'system', 'deposit', 'withdrawal'],
+    enum: ['trade', 'strategy', 'alert', 'system', 'deposit', 'withdrawal', 'corporate_action'],
     required: true,
     index: true
   },
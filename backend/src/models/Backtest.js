@@ -16,7 +16,9 @@ const equityPointSchema = new mongoose.Schema({
   returns: {
     type: Number,
     default: 0
-  }
+  },
+  // Benchmark rescaled to the starting equity (only when a benchmark is set)
+  benchmark: Number
 }, { _id: false });
 
 const drawdownPointSchema = new mongoose.Schema({
@@ -88,6 +90,18 @@ const riskMetricsSchema = new mongoose.Schema({
     type: Number,
     default: 0
   },
+  trackingError: {
+    type: Number,
+    default: 0
+  },
+  upCapture: {
+    type: Number,
+    default: 0
+  },
+  downCapture: {
+    type: Number,
+    default: 0
+  },
   calmarRatio: {
     type: Number,
     default: 0
@@ -191,6 +205,84 @@ const backtestSummarySchema = new mongoose.Schema({
   }
 }, { _id: false });
 
+const symbolAttributionSchema = new mongoose.Schema({
+  symbol: {
+    type: String,
+    required: true
+  },
+  pnl: {
+    type: Number,
+    default: 0
+  },
+  returnContribution: {
+    type: Number,
+    default: 0
+  },
+  pnlShare: {
+    type: Number,
+    default: 0
+  },
+  trades: {
+    type: Number,
+    default: 0
+  },
+  winRate: {
+    type: Number,
+    default: 0
+  },
+  avgExposurePercent: {
+    type: Number,
+    default: 0
+  }
+}, { _id: false });
+
+const exposurePointSchema = new mongoose.Schema({
+  date: {
+    type: Date,
+    required: true
+  },
+  exposurePercent: {
+    type: Number,
+    default: 0
+  },
+  // Percent of equity held in each symbol
+  bySymbol: mongoose.Schema.Types.Mixed
+}, { _id: false });
+
+const correlationsSchema = new mongoose.Schema({
+  symbols: [String],
+  // Daily price returns of the symbols themselves
+  returns: [[Number]],
+  // Daily mark-to-market P&L of the strategy in each symbol
+  pnl: [[Number]]
+}, { _id: false });
+
+const benchmarkSchema = new mongoose.Schema({
+  // INDEX is an equal-weight proxy over every symbol with local history
+  type: {
+    type: String,
+    enum: ['INDEX', 'SYMBOL'],
+    required: true
+  },
+  symbol: {
+    type: String,
+    uppercase: true,
+    trim: true
+  }
+}, { _id: false });
+
+const benchmarkResultSchema = new mongoose.Schema({
+  type: {
+    type: String
+  },
+  symbol: String,
+  label: String,
+  totalReturnPercent: {
+    type: Number,
+    default: 0
+  }
+}, { _id: false });
+
 const backtestResultSchema = new mongoose.Schema({
   summary: backtestSummarySchema,
   equityCurve: [equityPointSchema],
@@ -200,7 +292,228 @@ const backtestResultSchema = new mongoose.Schema({
     ref: 'Trade'
   }],
   monthlyReturns: [monthlyReturnSchema],
-  riskMetrics: riskMetricsSchema
+  riskMetrics: riskMetricsSchema,
+  // Portfolio backtests only
+  attribution: {
+    type: [symbolAttributionSchema],
+    default: undefined
+  },
+  exposureCurve: {
+    type: [exposurePointSchema],
+    default: undefined
+  },
+  correlations: correlationsSchema,
+  benchmark: benchmarkResultSchema
+}, { _id: false });
+
+const optimizationRangeSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true
+  },
+  label: String,
+  min: {
+    type: Number,
+    required: true
+  },
+  max: {
+    type: Number,
+    required: true
+  },
+  step: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const optimizationTrialSchema = new mongoose.Schema({
+  parameters: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  objectiveValue: {
+    type: Number,
+    default: 0
+  },
+  totalReturnPercent: {
+    type: Number,
+    default: 0
+  },
+  annualizedReturn: {
+    type: Number,
+    default: 0
+  },
+  sharpeRatio: {
+    type: Number,
+    default: 0
+  },
+  calmarRatio: {
+    type: Number,
+    default: 0
+  },
+  maxDrawdownPercent: {
+    type: Number,
+    default: 0
+  },
+  winRate: {
+    type: Number,
+    default: 0
+  },
+  totalTrades: {
+    type: Number,
+    default: 0
+  }
+}, { _id: false });
+
+const optimizationSchema = new mongoose.Schema({
+  method: {
+    type: String,
+    enum: ['GRID', 'RANDOM', 'BAYESIAN'],
+    default: 'GRID'
+  },
+  objective: {
+    type: String,
+    enum: ['sharpeRatio', 'totalReturnPercent', 'calmarRatio'],
+    default: 'sharpeRatio'
+  },
+  ranges: [optimizationRangeSchema],
+  maxTrials: {
+    type: Number,
+    default: 50,
+    min: 1,
+    max: 500
+  },
+  seed: {
+    type: Number,
+    default: 1
+  },
+  trials: [optimizationTrialSchema],
+  bestParameters: mongoose.Schema.Types.Mixed
+}, { _id: false });
+
+const walkForwardMetricsSchema = new mongoose.Schema({
+  totalReturnPercent: {
+    type: Number,
+    default: 0
+  },
+  annualizedReturn: {
+    type: Number,
+    default: 0
+  },
+  sharpeRatio: {
+    type: Number,
+    default: 0
+  },
+  calmarRatio: {
+    type: Number,
+    default: 0
+  },
+  maxDrawdownPercent: {
+    type: Number,
+    default: 0
+  },
+  winRate: {
+    type: Number,
+    default: 0
+  },
+  totalTrades: {
+    type: Number,
+    default: 0
+  }
+}, { _id: false });
+
+const walkForwardWindowSchema = new mongoose.Schema({
+  trainStart: Date,
+  trainEnd: Date,
+  testStart: Date,
+  testEnd: Date,
+  parameters: mongoose.Schema.Types.Mixed,
+  inSample: walkForwardMetricsSchema,
+  outOfSample: walkForwardMetricsSchema
+}, { _id: false });
+
+const parameterStabilitySchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true
+  },
+  values: [Number],
+  mean: Number,
+  stdDev: Number,
+  min: Number,
+  max: Number,
+  coefficientOfVariation: Number
+}, { _id: false });
+
+const walkForwardSchema = new mongoose.Schema({
+  trainDays: {
+    type: Number,
+    default: 180,
+    min: 5
+  },
+  testDays: {
+    type: Number,
+    default: 60,
+    min: 1
+  },
+  anchored: {
+    type: Boolean,
+    default: false
+  },
+  windows: [walkForwardWindowSchema],
+  inSample: walkForwardMetricsSchema,
+  outOfSample: walkForwardMetricsSchema,
+  efficiency: {
+    type: Number,
+    default: 0
+  },
+  stabilityScore: {
+    type: Number,
+    default: 0
+  },
+  parameterStability: [parameterStabilitySchema]
+}, { _id: false });
+
+const portfolioSchema = new mongoose.Schema({
+  symbols: {
+    type: [{
+      type: String,
+      uppercase: true,
+      trim: true
+    }],
+    validate: [symbols => symbols.length >= 2, 'A portfolio backtest needs at least two symbols']
+  },
+  sizingModel: {
+    type: String,
+    enum: ['EQUAL_WEIGHT', 'FIXED_FRACTIONAL', 'VOLATILITY_TARGET', 'KELLY'],
+    default: 'EQUAL_WEIGHT'
+  },
+  // Percent of equity per position (FIXED_FRACTIONAL)
+  fractionPercent: {
+    type: Number,
+    default: 10,
+    min: 0,
+    max: 100
+  },
+  // Annualized portfolio volatility target in percent (VOLATILITY_TARGET)
+  targetVolatility: {
+    type: Number,
+    default: 15,
+    min: 0,
+    max: 200
+  },
+  volatilityLookback: {
+    type: Number,
+    default: 20,
+    min: 2
+  },
+  // Share of the full Kelly fraction to bet (KELLY)
+  kellyFraction: {
+    type: Number,
+    default: 0.5,
+    min: 0,
+    max: 1
+  }
 }, { _id: false });
 
 const backtestSchema = new mongoose.Schema({
@@ -216,6 +529,12 @@ const backtestSchema = new mongoose.Schema({
     required: true,
     index: true
   },
+  // Strategy version the backtest runs, fixed when it is created
+  strategyVersionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'StrategyVersion'
+  },
+  strategyVersion: String,
   
   // Basic Information
   name: {
@@ -230,6 +549,20 @@ const backtestSchema = new mongoose.Schema({
     maxlength: 1000
   },
   
+  // Job type: a single run, a parameter search whose best set is re-run, a
+  // walk-forward analysis that re-optimizes on rolling train windows, or a
+  // portfolio run of the strategy over a basket of symbols
+  type: {
+    type: String,
+    enum: ['SINGLE', 'OPTIMIZATION', 'WALK_FORWARD', 'PORTFOLIO'],
+    default: 'SINGLE',
+    index: true
+  },
+  optimization: optimizationSchema,
+  walkForward: walkForwardSchema,
+  portfolio: portfolioSchema,
+  benchmark: benchmarkSchema,
+  
   // Status and Progress
   status: {
     type: String,
@@ -270,6 +603,11 @@ const backtestSchema = new mongoose.Schema({
     min: 0,
     max: 1
   },
+  // Back-adjust prices for splits, bonuses and dividends
+  adjustForCorporateActions: {
+    type: Boolean,
+    default: true
+  },
   
   // Execution Information
   startedAt: Date,
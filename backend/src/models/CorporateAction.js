@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+const corporateActionSchema = new mongoose.Schema({
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: ['SPLIT', 'BONUS', 'DIVIDEND'],
+    required: true
+  },
+  // Local date the shares start trading without the entitlement, stored as UTC midnight
+  exDate: {
+    type: Date,
+    required: true
+  },
+  // SPLIT: existingShares become newShares (1:5 turns 1 share into 5).
+  // BONUS: newShares are issued free for every existingShares held (1:1 doubles a holding).
+  existingShares: {
+    type: Number,
+    min: 1
+  },
+  newShares: {
+    type: Number,
+    min: 1
+  },
+  // DIVIDEND: cash paid per share
+  dividendPerShare: {
+    type: Number,
+    min: 0
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  // Set once open positions were adjusted; the action no longer changes them
+  appliedAt: Date
+}, {
+  timestamps: true
+});
+
+corporateActionSchema.index({ symbol: 1, exDate: 1, type: 1 }, { unique: true });
+corporateActionSchema.index({ appliedAt: 1, exDate: 1 });
+
+corporateActionSchema.pre('validate', function(next) {
+  if (this.type === 'DIVIDEND') {
+    if (!(this.dividendPerShare > 0)) {
+      this.invalidate('dividendPerShare', 'A dividend needs a positive amount per share');
+    }
+  } else if (this.type && (!this.existingShares || !this.newShares)) {
+    this.invalidate('newShares', `A ${this.type.toLowerCase()} needs existing and new shares`);
+  }
+  next();
+});
+
+module.exports = mongoose.model('CorporateAction', corporateActionSchema);
@@ -0,0 +1,98 @@
+const mongoose = require('mongoose');
+
+// Requirements of symbols without their own entry, tunable through the environment
+const envPercent = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && process.env[name] !== '' && !isNaN(value) ? value : fallback;
+};
+
+const DEFAULT_REQUIREMENT = {
+  initialMarginPercent: envPercent('MARGIN_INITIAL_PERCENT', 50),
+  maintenanceMarginPercent: envPercent('MARGIN_MAINTENANCE_PERCENT', 25),
+  borrowRatePercent: envPercent('SHORT_BORROW_RATE_PERCENT', 10),
+  shortable: true
+};
+
+// Cash accounts pay in full and cannot sell short
+const CASH_REQUIREMENT = {
+  initialMarginPercent: 100,
+  maintenanceMarginPercent: 100,
+  borrowRatePercent: 0,
+  shortable: false
+};
+
+const marginRequirementSchema = new mongoose.Schema({
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+    unique: true
+  },
+  // Share of a position's market value that equity has to cover to open it
+  initialMarginPercent: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 100
+  },
+  // Share equity has to keep covering; below it the account is in a margin call
+  maintenanceMarginPercent: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100,
+    validate: {
+      validator: function(value) {
+        return value <= this.initialMarginPercent;
+      },
+      message: 'Maintenance margin cannot exceed the initial margin'
+    }
+  },
+  // Yearly fee for borrowing the shares of a short position
+  borrowRatePercent: {
+    type: Number,
+    default: DEFAULT_REQUIREMENT.borrowRatePercent,
+    min: 0
+  },
+  shortable: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+/**
+ * Margin requirements of symbols for an account type
+ * @param {string[]} symbols - Symbols
+ * @param {string} accountType - CASH or MARGIN
+ * @returns {Promise<Map>} Symbol -> { initialMarginPercent, maintenanceMarginPercent, borrowRatePercent, shortable }
+ */
+marginRequirementSchema.statics.forSymbols = async function(symbols, accountType = 'MARGIN') {
+  const unique = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase())));
+
+  if (accountType === 'CASH') {
+    return new Map(unique.map(symbol => [symbol, { ...CASH_REQUIREMENT }]));
+  }
+
+  const stored = await this.find({ symbol: { $in: unique } }).lean();
+  const bySymbol = new Map(stored.map(requirement => [requirement.symbol, requirement]));
+
+  return new Map(unique.map(symbol => {
+    const requirement = bySymbol.get(symbol);
+    return [symbol, requirement ? {
+      initialMarginPercent: requirement.initialMarginPercent,
+      maintenanceMarginPercent: requirement.maintenanceMarginPercent,
+      borrowRatePercent: requirement.borrowRatePercent,
+      shortable: requirement.shortable
+    } : { ...DEFAULT_REQUIREMENT }];
+  }));
+};
+
+// Requirement of symbols without their own entry
+marginRequirementSchema.statics.defaults = function() {
+  return { ...DEFAULT_REQUIREMENT };
+};
+
+module.exports = mongoose.model('MarginRequirement', marginRequirementSchema);
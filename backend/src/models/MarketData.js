@@ -1,5 +1,10 @@
 const mongoose = require('mongoose');
 
+// Bar intervals imported history can be stored at
+const INTERVALS = ['1m', '5m', '15m', '30m', '1h', '1d', '1w'];
+
+const BAR_SOURCES = ['IMPORT', 'BAR'];
+
 const marketDataSchema = new mongoose.Schema({
   symbol: {
     type: String,
@@ -107,6 +112,23 @@ const marketDataSchema = new mongoose.Schema({
     type: Date,
     default: Date.now,
     index: true
+  },
+
+  // Bar history: one document per bar, keyed by symbol, interval and bar time.
+  // IMPORT bars come from files, BAR bars are built from live ticks.
+  source: {
+    type: String,
+    enum: ['LIVE', ...BAR_SOURCES],
+    default: 'LIVE'
+  },
+  interval: {
+    type: String,
+    enum: INTERVALS
+  },
+  // Corporate-action factor already applied to the stored prices
+  adjustmentFactor: {
+    type: Number,
+    default: 1
   }
 }, {
   timestamps: true,
@@ -117,6 +139,15 @@ const marketDataSchema = new mongoose.Schema({
 // Indexes for performance
 marketDataSchema.index({ symbol: 1, timestamp: -1 });
 marketDataSchema.index({ timestamp: -1 });
+marketDataSchema.index(
+  { symbol: 1, interval: 1, source: 1, timestamp: 1 },
+  { unique: true, partialFilterExpression: { interval: { $exists: true } } }
+);
+
+// Query helper for the live quote documents, excluding stored bars
+marketDataSchema.query.live = function() {
+  return this.where({ source: { $nin: BAR_SOURCES } });
+};
 
 // Virtual for spread
 marketDataSchema.virtual('spread').get(function() {
@@ -157,7 +188,8 @@ marketDataSchema.statics.getLatestData = function(symbols) {
   return this.aggregate([
     {
       $match: {
-        symbol: { $in: symbols.map(s => s.toUpperCase()) }
+        symbol: { $in: symbols.map(s => s.toUpperCase()) },
+        source: { $nin: BAR_SOURCES }
       }
     },
     {
@@ -176,7 +208,7 @@ marketDataSchema.statics.getLatestData = function(symbols) {
 };
 
 // Static method to get historical data
-marketDataSchema.statics.getHistoricalData = function(symbol, startDate, endDate, interval = '1d') {
+marketDataSchema.statics.getHistoricalData = async function(symbol, startDate, endDate, interval = '1d') {
   const query = {
     symbol: symbol.toUpperCase(),
     timestamp: {
@@ -185,19 +217,20 @@ marketDataSchema.statics.getHistoricalData = function(symbol, startDate, endDate
     }
   };
   
-  // For intraday intervals, we might need to aggregate data
-  if (interval === '1d') {
-    return this.find(query).sort({ timestamp: 1 });
+  // Imported bars of the requested interval take precedence
+  const imported = await this.find({ ...query, source: 'IMPORT', interval }).sort({ timestamp: 1 });
+  if (imported.length > 0) {
+    return imported;
   }
   
-  // For other intervals, implement aggregation logic
-  return this.find(query).sort({ timestamp: 1 });
+  // Otherwise fall back to the live snapshots in the range
+  return this.find(query).live().sort({ timestamp: 1 });
 };
 
 // Static method to update market data
 marketDataSchema.statics.updateMarketData = function(symbol, data) {
   return this.findOneAndUpdate(
-    { symbol: symbol.toUpperCase() },
+    { symbol: symbol.toUpperCase(), source: { $nin: BAR_SOURCES } },
     {
       ...data,
       symbol: symbol.toUpperCase(),
@@ -240,4 +273,8 @@ marketDataSchema.methods.simulatePriceMovement = function() {
   return this.save();
 };
 
-module.exports = mongoose.model('MarketData', marketDataSchema);
\ No newline at end of file
+const MarketData = mongoose.model('MarketData', marketDataSchema);
+MarketData.INTERVALS = INTERVALS;
+MarketData.BAR_SOURCES = BAR_SOURCES;
+
+module.exports = MarketData;
\ No newline at end of file
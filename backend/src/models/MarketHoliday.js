@@ -0,0 +1,36 @@
+const mongoose = require('mongoose');
+
+const marketHolidaySchema = new mongoose.Schema({
+  exchange: {
+    type: String,
+    enum: ['NSE', 'BSE'],
+    required: true
+  },
+  // Local date of the holiday, stored as UTC midnight
+  date: {
+    type: Date,
+    required: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: 'Trading holiday'
+  },
+  // Short session held on an otherwise closed day, e.g. Muhurat trading
+  specialSession: {
+    open: {
+      type: String,
+      match: /^\d{2}:\d{2}$/
+    },
+    close: {
+      type: String,
+      match: /^\d{2}:\d{2}$/
+    }
+  }
+}, {
+  timestamps: true
+});
+
+marketHolidaySchema.index({ exchange: 1, date: 1 }, { unique: true });
+
+module.exports = mongoose.model('MarketHoliday', marketHolidaySchema);
@@ -33,7 +33,7 @@ const orderSchema = new mongoose.Schema({
   },
   type: {
     type: String,
-    enum: ['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'],
+    enum: ['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TRAILING_STOP'],
     required: true
   },
   quantity: {
@@ -49,11 +49,51 @@ const orderSchema = new mongoose.Schema({
     type: Number,
     min: 0
   },
+  // Trailing stops follow the best price by an absolute or a percent offset
+  trailAmount: {
+    type: Number,
+    min: 0
+  },
+  trailPercent: {
+    type: Number,
+    min: 0,
+    max: 100
+  },
+  // DAY orders expire at the session close, GTD orders at expiresAt;
+  // IOC and FOK orders never rest in the book
+  timeInForce: {
+    type: String,
+    enum: ['DAY', 'GTC', 'IOC', 'FOK', 'GTD'],
+    default: 'DAY'
+  },
+  expiresAt: Date,
+  // Iceberg orders show only this much of the quantity in the book
+  displayQuantity: {
+    type: Number,
+    min: 1
+  },
+  
+  // Linked Orders
+  parentOrderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order',
+    index: true
+  },
+  role: {
+    type: String,
+    enum: ['ENTRY', 'STOP_LOSS', 'TAKE_PROFIT', 'LIQUIDATION']
+  },
+  // Filling any order of a group cancels the others
+  ocoGroupId: {
+    type: String,
+    index: true
+  },
   
   // Order Status
   status: {
     type: String,
-    enum: ['PENDING', 'FILLED', 'PARTIALLY_FILLED', 'CANCELLED', 'REJECTED'],
+    // WAITING: bracket exit held until its entry fills
+    enum: ['PENDING', 'WAITING', 'FILLED', 'PARTIALLY_FILLED', 'CANCELLED', 'REJECTED', 'EXPIRED'],
     default: 'PENDING',
     index: true
   },
@@ -76,11 +116,28 @@ const orderSchema = new mongoose.Schema({
     default: 0,
     min: 0
   },
+  // Shares queued ahead of a resting limit order at its price
+  queuePosition: {
+    type: Number,
+    min: 0
+  },
   
   // Order Lifecycle
   rejectionReason: String,
+  riskViolations: [{
+    _id: false,
+    rule: String,
+    scope: {
+      type: String,
+      enum: ['ACCOUNT', 'STRATEGY']
+    },
+    message: String,
+    limit: Number,
+    value: Number
+  }],
   filledAt: Date,
   cancelledAt: Date,
+  expiredAt: Date,
   
   // Metadata
   tags: [String],
@@ -108,6 +165,7 @@ orderSchema.index({ userId: 1, createdAt: -1 });
 orderSchema.index({ portfolioId: 1, status: 1 });
 orderSchema.index({ symbol: 1, status: 1 });
 orderSchema.index({ strategyId: 1, status: 1 });
+orderSchema.index({ status: 1, expiresAt: 1 });
 
 // Virtual for order value
 orderSchema.virtual('orderValue').get(function() {
@@ -140,6 +198,11 @@ orderSchema.pre('save', function(next) {
     this.cancelledAt = new Date();
   }
   
+  // Set expired timestamp when order expires
+  if (this.status === 'EXPIRED' && !this.expiredAt) {
+    this.expiredAt = new Date();
+  }
+  
   next();
 });
 
@@ -162,6 +225,39 @@ orderSchema.methods.validateOrder = function() {
     errors.push('Stop price is required for stop orders and must be greater than 0');
   }
   
+  // Check trailing stop offset
+  if (this.type === 'TRAILING_STOP') {
+    if (Boolean(this.trailAmount) === Boolean(this.trailPercent)) {
+      errors.push('Trailing stop orders need either a trail amount or a trail percent');
+    } else if (this.trailPercent >= 100) {
+      errors.push('Trail percent must be less than 100');
+    }
+  } else if (this.trailAmount || this.trailPercent) {
+    errors.push('Trail offsets are only allowed on trailing stop orders');
+  }
+  
+  // Check time in force
+  if ((this.timeInForce === 'IOC' || this.timeInForce === 'FOK') && this.type !== 'MARKET' && this.type !== 'LIMIT') {
+    errors.push(`${this.timeInForce} is only allowed on market and limit orders`);
+  }
+  if (this.timeInForce === 'GTD' && (!this.expiresAt || this.expiresAt <= new Date())) {
+    errors.push('Good-till-date orders need an expiry date in the future');
+  }
+  if (this.timeInForce !== 'GTD' && this.timeInForce !== 'DAY' && this.expiresAt) {
+    errors.push('Only good-till-date orders take an expiry date');
+  }
+  
+  // Check iceberg display quantity
+  if (this.displayQuantity !== undefined && this.displayQuantity !== null) {
+    if (this.type !== 'LIMIT') {
+      errors.push('Display quantity is only allowed on limit orders');
+    } else if (this.timeInForce === 'IOC' || this.timeInForce === 'FOK') {
+      errors.push('Display quantity is not allowed on IOC or FOK orders');
+    } else if (this.displayQuantity < 1 || this.displayQuantity >= this.quantity) {
+      errors.push('Display quantity must be at least 1 and less than the order quantity');
+    }
+  }
+  
   // Check stop limit order logic
   if (this.type === 'STOP_LIMIT') {
     if (this.side === 'BUY' && this.stopPrice > this.price) {
@@ -203,6 +299,7 @@ orderSchema.methods.fillOrder = function(fillQuantity, fillPrice) {
   if (this.remainingQuantity === 0) {
     this.status = 'FILLED';
     this.filledAt = new Date();
+    this.queuePosition = undefined;
   } else {
     this.status = 'PARTIALLY_FILLED';
   }
@@ -213,12 +310,27 @@ orderSchema.methods.fillOrder = function(fillQuantity, fillPrice) {
 
 // Method to cancel order
 orderSchema.methods.cancelOrder = function() {
-  if (this.status !== 'PENDING' && this.status !== 'PARTIALLY_FILLED') {
+  if (!['PENDING', 'WAITING', 'PARTIALLY_FILLED'].includes(this.status)) {
     throw new Error('Cannot cancel order with status: ' + this.status);
   }
   
   this.status = 'CANCELLED';
   this.cancelledAt = new Date();
+  this.queuePosition = undefined;
+  this.updatedAt = new Date();
+  
+  return this.save();
+};
+
+// Method to expire an order whose time in force ran out
+orderSchema.methods.expireOrder = function() {
+  if (!['PENDING', 'WAITING', 'PARTIALLY_FILLED'].includes(this.status)) {
+    throw new Error('Cannot expire order with status: ' + this.status);
+  }
+  
+  this.status = 'EXPIRED';
+  this.expiredAt = new Date();
+  this.queuePosition = undefined;
   this.updatedAt = new Date();
   
   return this.save();
@@ -229,7 +341,7 @@ orderSchema.statics.getActiveOrders = function(userId, portfolioId) {
   return this.find({
     userId,
     portfolioId,
-    status: { $in: ['PENDING', 'PARTIALLY_FILLED'] }
+    status: { $in: ['PENDING', 'WAITING', 'PARTIALLY_FILLED'] }
   }).sort({ createdAt: -1 });
 };
 
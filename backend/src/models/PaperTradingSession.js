@@ -0,0 +1,184 @@
+const mongoose = require('mongoose');
+
+// Limits and exits a strategy was deployed with; see utils/paperTrading.js
+const deploymentConfigSchema = new mongoose.Schema({
+  capital: { type: Number, required: true, min: 0 },
+  maxPositionSize: { type: Number, min: 0 },
+  maxPositionSizePercent: { type: Number, min: 0, max: 100 },
+  riskPerTrade: { type: Number, min: 0 },
+  riskPerTradePercent: { type: Number, min: 0, max: 100 },
+  maxDailyLoss: { type: Number, min: 0 },
+  maxDailyLossPercent: { type: Number, min: 0, max: 100 },
+  maxDrawdown: { type: Number, min: 0 },
+  maxDrawdownPercent: { type: Number, min: 0, max: 100 },
+  enableStopLoss: Boolean,
+  stopLossPercent: Number,
+  enableTakeProfit: Boolean,
+  takeProfitPercent: Number,
+  enableTrailingStop: Boolean,
+  trailingStopPercent: Number,
+  maxConcurrentTrades: { type: Number, min: 1 },
+  tradingHours: {
+    exchange: { type: String, enum: ['NSE', 'BSE'], default: 'NSE' },
+    start: String,
+    end: String,
+    timezone: String
+  },
+  notifications: {
+    onTrade: Boolean,
+    onProfit: Boolean,
+    onLoss: Boolean,
+    onRiskAlert: Boolean
+  }
+}, { _id: false });
+
+const sessionStatisticsSchema = new mongoose.Schema({
+  totalTrades: { type: Number, default: 0 },
+  winningTrades: { type: Number, default: 0 },
+  losingTrades: { type: Number, default: 0 },
+  totalPnL: { type: Number, default: 0 },
+  totalPnLPercent: { type: Number, default: 0 },
+  dayPnL: { type: Number, default: 0 },
+  dayPnLPercent: { type: Number, default: 0 },
+  maxDrawdown: { type: Number, default: 0 },
+  maxDrawdownPercent: { type: Number, default: 0 },
+  winRate: { type: Number, default: 0 },
+  profitFactor: { type: Number, default: 0 },
+  avgWin: { type: Number, default: 0 },
+  avgLoss: { type: Number, default: 0 },
+  largestWin: { type: Number, default: 0 },
+  largestLoss: { type: Number, default: 0 },
+  currentCapital: { type: Number, default: 0 },
+  capitalUtilization: { type: Number, default: 0 },
+  activePositions: { type: Number, default: 0 },
+  pendingOrders: { type: Number, default: 0 }
+}, { _id: false });
+
+// Usage of each deployment limit; the percents are of the limit
+const sessionRiskMetricsSchema = new mongoose.Schema({
+  dailyLossUsed: { type: Number, default: 0 },
+  dailyLossPercent: { type: Number, default: 0 },
+  drawdownUsed: { type: Number, default: 0 },
+  drawdownPercent: { type: Number, default: 0 },
+  positionSizeUsed: { type: Number, default: 0 },
+  positionSizePercent: { type: Number, default: 0 },
+  riskPerTradeUsed: { type: Number, default: 0 },
+  riskPerTradePercent: { type: Number, default: 0 },
+  isRiskLimitBreached: { type: Boolean, default: false },
+  riskAlerts: [String]
+}, { _id: false });
+
+const sessionAlertSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['INFO', 'WARNING', 'ERROR', 'SUCCESS'],
+    default: 'INFO'
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  message: String,
+  symbol: String,
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  toJSON: { virtuals: true }
+});
+
+/**
+ * A strategy deployed to paper trading. The session runs on the server,
+ * trading one symbol from live bars through the order service with a slice
+ * of a portfolio's cash; its status is kept here so running sessions are
+ * picked up again after a restart.
+ */
+const paperTradingSessionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  strategyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Strategy',
+    required: true
+  },
+  portfolioId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Portfolio',
+    required: true
+  },
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true
+  },
+  timeframe: {
+    type: String,
+    required: true
+  },
+  config: {
+    type: deploymentConfigSchema,
+    required: true
+  },
+
+  status: {
+    type: String,
+    enum: ['RUNNING', 'PAUSED', 'STOPPED'],
+    default: 'RUNNING'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  pausedAt: Date,
+  pauseReason: String,
+  stoppedAt: Date,
+
+  statistics: {
+    type: sessionStatisticsSchema,
+    default: () => ({})
+  },
+  riskMetrics: {
+    type: sessionRiskMetricsSchema,
+    default: () => ({})
+  },
+  // Newest first
+  alerts: [sessionAlertSchema],
+
+  // Equity high-water mark and the exchange day the day P&L is measured from
+  peakEquity: Number,
+  dayKey: String,
+  dayStartEquity: Number,
+
+  lastBarAt: Date,
+  lastSignalAt: Date
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+paperTradingSessionSchema.index({ status: 1 });
+paperTradingSessionSchema.index({ userId: 1, strategyId: 1, status: 1 });
+
+paperTradingSessionSchema.virtual('strategy', {
+  ref: 'Strategy',
+  localField: 'strategyId',
+  foreignField: '_id',
+  justOne: true
+});
+
+module.exports = mongoose.model('PaperTradingSession', paperTradingSessionSchema);
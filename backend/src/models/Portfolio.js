@@ -1,4 +1,8 @@
 const mongoose = require('mongoose');
+const { accountMargin, buyingPower } = require('../utils/margin');
+
+// Starting cash of a paper portfolio that does not ask for another amount
+const DEFAULT_CAPITAL = 1000000;
 
 const portfolioSchema = new mongoose.Schema({
   userId: {
@@ -15,6 +19,16 @@ const portfolioSchema = new mongoose.Schema({
     default: 'Main Portfolio'
   },
   description: String,
+  // What the account is for; STRATEGY accounts may name the strategy they trade
+  kind: {
+    type: String,
+    enum: ['GENERAL', 'STRATEGY', 'SANDBOX', 'COMPETITION'],
+    default: 'GENERAL'
+  },
+  strategyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Strategy'
+  },
   currency: {
     type: String,
     default: 'USD',
@@ -24,19 +38,31 @@ const portfolioSchema = new mongoose.Schema({
   // Portfolio Values
   totalValue: {
     type: Number,
-    default: 100000, // Starting value
+    default: DEFAULT_CAPITAL, // Starting value
     min: 0
   },
+  // Negative when a margin account borrows to carry its positions
   cashBalance: {
     type: Number,
-    default: 100000,
-    min: 0
+    default: DEFAULT_CAPITAL
   },
   investedAmount: {
     type: Number,
     default: 0,
     min: 0
   },
+  // Cash the account was opened (and is reset) with. Portfolios opened before
+  // it was stored get it from services/portfolioService backfillInitialCapital.
+  initialCapital: {
+    type: Number,
+    default: DEFAULT_CAPITAL,
+    min: 0
+  },
+  // Cash transferred in from the user's other portfolios less cash transferred out
+  netTransfers: {
+    type: Number,
+    default: 0
+  },
   
   // Performance Metrics
   totalReturn: {
@@ -70,15 +96,78 @@ const portfolioSchema = new mongoose.Schema({
     default: 0
   },
   
+  // Margin (see utils/margin.js); kept up to date with every recalculation
+  accountType: {
+    type: String,
+    enum: ['CASH', 'MARGIN'],
+    default: 'MARGIN'
+  },
+  marginUsed: {
+    type: Number,
+    default: 0
+  },
+  maintenanceMargin: {
+    type: Number,
+    default: 0
+  },
+  availableMargin: {
+    type: Number,
+    default: 0
+  },
+  buyingPower: {
+    type: Number,
+    default: 0
+  },
+  leverage: {
+    type: Number,
+    default: 0
+  },
+  marginCallAt: Date,
+  
   // Portfolio Settings
+  // Archived portfolios are no longer active and keep their history read-only
   isActive: {
     type: Boolean,
     default: true
   },
+  archivedAt: Date,
+  // Portfolio used when a request does not name one
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
   isPaperTrading: {
     type: Boolean,
     default: true
   },
+
+  // Series the dashboard compares performance against; INDEX is an
+  // equal-weight proxy over every symbol with local history
+  benchmark: {
+    type: {
+      type: String,
+      enum: ['INDEX', 'SYMBOL'],
+      default: 'INDEX'
+    },
+    symbol: {
+      type: String,
+      uppercase: true,
+      trim: true
+    }
+  },
+  
+  // Pre-trade risk limits; unset limits fall back to DEFAULT_RISK_LIMITS
+  // in utils/riskRules.js and a null limit switches its rule off
+  riskLimits: {
+    maxOrderValue: { type: Number, min: 0 },
+    priceBandPercent: { type: Number, min: 0 },
+    maxExposurePercent: { type: Number, min: 0 },
+    maxPositionSizePercent: { type: Number, min: 0, max: 100 },
+    maxDailyLoss: { type: Number, min: 0 },
+    maxDailyLossPercent: { type: Number, min: 0, max: 100 },
+    maxOrdersPerMinute: { type: Number, min: 1 },
+    maxConcurrentTrades: { type: Number, min: 1 }
+  },
   
   // Metadata
   lastUpdated: {
@@ -112,18 +201,52 @@ portfolioSchema.virtual('activePositionsCount', {
   count: true
 });
 
+// Starting cash of portfolios opened without an amount
+portfolioSchema.statics.defaultCapital = function() {
+  return DEFAULT_CAPITAL;
+};
+
+// Move cash for a trade: sales are credited, purchases debited, commission always paid
+portfolioSchema.statics.settleTrade = function(portfolioId, side, quantity, price, commission = 0) {
+  const amount = (side === 'SELL' ? quantity * price : -quantity * price) - commission;
+  return this.updateOne({ _id: portfolioId }, { $inc: { cashBalance: amount } });
+};
+
 // Method to calculate portfolio metrics
 portfolioSchema.methods.calculateMetrics = async function() {
   const Position = mongoose.model('Position');
   const PortfolioHistory = mongoose.model('PortfolioHistory');
+  const MarginRequirement = mongoose.model('MarginRequirement');
   
-  // Get all positions for this portfolio
-  const positions = await Position.find({ portfolioId: this._id });
+  // Get open positions for this portfolio
+  const positions = await Position.find({ portfolioId: this._id, status: 'open' });
   
-  // Calculate total invested amount
+  // Calculate total invested amount (cost of long positions)
   this.investedAmount = positions
-    .filter(pos => pos.status === 'open')
+    .filter(pos => pos.side === 'long')
     .reduce((sum, pos) => sum + (pos.quantity * pos.averagePrice), 0);
+
+  // Equity and margin, with shorts owing their market value back
+  const requirements = await MarginRequirement.forSymbols(positions.map(pos => pos.symbol), this.accountType);
+  const account = accountMargin(this.cashBalance, positions.map(pos => ({
+    symbol: pos.symbol,
+    side: pos.side,
+    quantity: pos.quantity,
+    price: pos.currentPrice || pos.averagePrice
+  })), requirements);
+
+  this.totalValue = Math.max(account.equity, 0);
+  this.marginUsed = account.marginUsed;
+  this.maintenanceMargin = account.maintenanceMargin;
+  this.availableMargin = account.availableMargin;
+  this.buyingPower = buyingPower(account.availableMargin,
+    this.accountType === 'CASH' ? { initialMarginPercent: 100 } : MarginRequirement.defaults());
+  this.leverage = account.leverage;
+  if (!account.marginCall) {
+    this.marginCallAt = undefined;
+  } else if (!this.marginCallAt) {
+    this.marginCallAt = new Date();
+  }
   
   // Get recent portfolio history for performance calculation
   const history = await PortfolioHistory.find({ 
@@ -139,9 +262,10 @@ portfolioSchema.methods.calculateMetrics = async function() {
     this.dayChange = latest.totalValue - previous.totalValue;
     this.dayChangePercent = (this.dayChange / previous.totalValue) * 100;
     
-    // Calculate total return
-    this.totalReturn = latest.totalValue - 100000; // Assuming 100k starting value
-    this.totalReturnPercent = (this.totalReturn / 100000) * 100;
+    // Calculate total return on the capital put in, transfers included
+    const capital = this.initialCapital + this.netTransfers;
+    this.totalReturn = latest.totalValue - capital;
+    this.totalReturnPercent = capital > 0 ? (this.totalReturn / capital) * 100 : 0;
   }
   
   this.lastUpdated = new Date();
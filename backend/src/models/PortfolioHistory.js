@@ -29,8 +29,7 @@ const portfolioHistorySchema = new mongoose.Schema({
   },
   cashBalance: {
     type: Number,
-    required: true,
-    min: 0
+    required: true
   },
   investedAmount: {
     type: Number,
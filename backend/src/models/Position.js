@@ -57,6 +57,13 @@ const positionSchema = new mongoose.Schema({
     type: Number,
     default: 0
   },
+
+  // Short positions pay a fee for the borrowed shares every calendar day
+  borrowFees: {
+    type: Number,
+    default: 0
+  },
+  borrowFeeDate: String, // local date (YYYY-MM-DD) the fee was last charged for
   
   // Position Status
   status: {
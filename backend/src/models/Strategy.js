@@ -90,6 +90,43 @@ const strategyPerformanceSchema = new mongoose.Schema({
     }
 }, { _id: false });
 
+const strategyRiskLimitsSchema = new mongoose.Schema({
+    capital: {
+        type: Number,
+        min: 0
+    },
+    maxOrderValue: {
+        type: Number,
+        min: 0
+    },
+    maxExposurePercent: {
+        type: Number,
+        min: 0
+    },
+    maxPositionSizePercent: {
+        type: Number,
+        min: 0,
+        max: 100
+    },
+    maxDailyLoss: {
+        type: Number,
+        min: 0
+    },
+    maxDailyLossPercent: {
+        type: Number,
+        min: 0,
+        max: 100
+    },
+    maxConcurrentTrades: {
+        type: Number,
+        min: 1
+    },
+    maxOrdersPerMinute: {
+        type: Number,
+        min: 1
+    }
+}, { _id: false });
+
 const strategySchema = new mongoose.Schema({
     userId: {
         type: mongoose.Schema.Types.ObjectId,
@@ -134,6 +171,8 @@ const strategySchema = new mongoose.Schema({
         type: String,
         default: ''
     },
+    // Entry and exit rules of a VISUAL strategy; see utils/strategyRules.js
+    rules: mongoose.Schema.Types.Mixed,
 
     // Template Information
     templateId: {
@@ -163,7 +202,11 @@ const strategySchema = new mongoose.Schema({
     // Performance Metrics
     performance: strategyPerformanceSchema,
 
-    // Version Control
+    // Pre-trade risk limits of the deployed strategy, checked on every
+    // order it places on top of the account limits
+    riskLimits: strategyRiskLimitsSchema,
+
+    // Version Control: semver of the latest entry in the version history
     version: {
         type: String,
         default: '1.0.0'
@@ -172,6 +215,20 @@ const strategySchema = new mongoose.Schema({
         type: mongoose.Schema.Types.ObjectId,
         ref: 'Strategy'
     },
+    // Template this strategy was forked from, as it was at the time of the fork
+    forkedFrom: {
+        templateId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'StrategyTemplate'
+        },
+        templateName: String,
+        templateVersion: String,
+        authorId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        forkedAt: Date
+    },
 
     // Metadata
     isPublic: {
@@ -264,6 +321,7 @@ strategySchema.methods.clone = function (newName, userId) {
         deployedAt: undefined,
         performance: undefined,
         lastBacktestId: undefined,
+        version: '1.0.0',
         parentStrategyId: this._id,
         views: 0,
         clones: 0,
@@ -0,0 +1,130 @@
+const mongoose = require('mongoose');
+const { SIGNAL_ACTIONS, SIGNAL_STATUSES, REJECTION_SOURCES } = require('../utils/signalJournal');
+
+// One order a strategy asked for and what became of it; see utils/signalJournal.js
+const strategySignalSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  strategyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Strategy',
+    required: true
+  },
+  source: {
+    type: String,
+    enum: ['BACKTEST', 'PAPER'],
+    required: true
+  },
+  backtestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Backtest'
+  },
+  sessionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PaperTradingSession'
+  },
+  portfolioId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Portfolio'
+  },
+
+  // What the strategy asked for
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  action: {
+    type: String,
+    enum: SIGNAL_ACTIONS,
+    required: true
+  },
+  side: {
+    type: String,
+    enum: ['BUY', 'SELL'],
+    required: true
+  },
+  // Unset when the engine sizes the order
+  requestedQuantity: Number,
+  reason: String,
+  signalDate: {
+    type: Date,
+    required: true
+  },
+  bar: {
+    open: Number,
+    high: Number,
+    low: Number,
+    close: Number,
+    volume: Number
+  },
+
+  // Why: indicator values by name and the conditions behind the signal
+  indicators: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  conditions: [{
+    _id: false,
+    description: String,
+    passed: Boolean,
+    left: mongoose.Schema.Types.Mixed,
+    right: mongoose.Schema.Types.Mixed
+  }],
+
+  // What became of it
+  status: {
+    type: String,
+    enum: SIGNAL_STATUSES,
+    required: true
+  },
+  filledQuantity: {
+    type: Number,
+    default: 0
+  },
+  fills: [{
+    _id: false,
+    quantity: Number,
+    price: Number,
+    executedAt: Date,
+    tradeId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Trade'
+    }
+  }],
+  orderIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  }],
+  rejection: {
+    source: {
+      type: String,
+      enum: REJECTION_SOURCES
+    },
+    message: String,
+    violations: [{
+      _id: false,
+      rule: String,
+      scope: {
+        type: String,
+        enum: ['ACCOUNT', 'STRATEGY']
+      },
+      message: String,
+      limit: Number,
+      value: Number
+    }]
+  }
+}, {
+  timestamps: true
+});
+
+strategySignalSchema.index({ strategyId: 1, signalDate: -1 });
+strategySignalSchema.index({ backtestId: 1, signalDate: 1 });
+strategySignalSchema.index({ sessionId: 1, signalDate: -1 });
+strategySignalSchema.index({ 'fills.tradeId': 1 });
+
+module.exports = mongoose.model('StrategySignal', strategySignalSchema);
@@ -69,6 +69,9 @@ const strategyTemplateSchema = new mongoose.Schema({
     type: String,
     default: ''
   },
+  // Visual rules of a template published from a VISUAL strategy; forks of it
+  // are visual strategies again, while `code` holds the compiled rules
+  rules: mongoose.Schema.Types.Mixed,
   
   // Template Metadata
   isBuiltIn: {
@@ -84,11 +87,33 @@ const strategyTemplateSchema = new mongoose.Schema({
     default: true
   },
   
+  // Moderation: admins hide abusive templates from the marketplace
+  moderationStatus: {
+    type: String,
+    enum: ['VISIBLE', 'HIDDEN'],
+    default: 'VISIBLE'
+  },
+  moderationReason: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  moderatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  moderatedAt: Date,
+
   // Creator Information
   createdBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   },
+  // Strategy a user template was published from; republishing updates it
+  sourceStrategyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Strategy'
+  },
   
   // Usage Statistics
   usageCount: {
@@ -105,6 +130,10 @@ const strategyTemplateSchema = new mongoose.Schema({
     type: Number,
     default: 0
   },
+  forkCount: {
+    type: Number,
+    default: 0
+  },
   
   // Version Information
   version: {
@@ -135,10 +164,11 @@ strategyTemplateSchema.index({ isPublic: 1, isActive: 1 });
 strategyTemplateSchema.index({ name: 'text', description: 'text', category: 'text' });
 strategyTemplateSchema.index({ usageCount: -1 });
 strategyTemplateSchema.index({ rating: -1 });
+strategyTemplateSchema.index({ createdBy: 1, sourceStrategyId: 1 });
 
-// Virtual for average rating
+// Virtual for average rating; `rating` already holds the running average
 strategyTemplateSchema.virtual('averageRating').get(function() {
-  return this.ratingCount > 0 ? this.rating / this.ratingCount : 0;
+  return this.ratingCount > 0 ? this.rating : 0;
 });
 
 // Instance methods
@@ -154,30 +184,54 @@ strategyTemplateSchema.methods.addRating = function(rating) {
 };
 
 // Static methods
+
+// Templates a user may see and use: active, not hidden by a moderator, and
+// either public or their own
+strategyTemplateSchema.statics.visibleTo = function(userId) {
+  return {
+    isActive: true,
+    moderationStatus: { $ne: 'HIDDEN' },
+    $or: userId ? [{ isPublic: true }, { createdBy: userId }] : [{ isPublic: true }]
+  };
+};
+
+// Listing filter of the marketplace; `source` is 'builtin' or 'community'
+strategyTemplateSchema.statics.listingQuery = function(options = {}) {
+  const { category, search, source, userId } = options;
+  const query = this.visibleTo(userId);
+
+  if (category && category !== 'all') {
+    query.category = category;
+  }
+
+  if (source === 'builtin') {
+    query.isBuiltIn = true;
+  } else if (source === 'community') {
+    query.isBuiltIn = false;
+  }
+
+  if (search) {
+    query.$text = { $search: search };
+  }
+
+  return query;
+};
+
 strategyTemplateSchema.statics.getPublicTemplates = function(options = {}) {
   const {
-    category,
-    search,
     sortBy = 'usageCount',
     sortOrder = 'desc',
     limit = 20,
     offset = 0
   } = options;
 
-  const query = { isActive: true, isPublic: true };
-  
-  if (category && category !== 'all') {
-    query.category = category;
-  }
-  
-  if (search) {
-    query.$text = { $search: search };
-  }
+  const query = this.listingQuery(options);
 
   const sortOptions = {};
   sortOptions[sortBy] = sortOrder === 'desc' ? -1 : 1;
 
   return this.find(query)
+    .select('-rules')
     .populate('createdBy', 'name username')
     .sort(sortOptions)
     .limit(limit)
@@ -186,11 +240,11 @@ strategyTemplateSchema.statics.getPublicTemplates = function(options = {}) {
 };
 
 strategyTemplateSchema.statics.getCategories = function() {
-  return this.distinct('category', { isActive: true, isPublic: true });
+  return this.distinct('category', this.visibleTo());
 };
 
 strategyTemplateSchema.statics.getPopular = function(limit = 10) {
-  return this.find({ isActive: true, isPublic: true })
+  return this.find(this.visibleTo())
     .sort({ usageCount: -1, rating: -1 })
     .limit(limit)
     .populate('createdBy', 'name username')
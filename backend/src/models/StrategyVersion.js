@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+
+// An immutable snapshot of a strategy's logic; see utils/strategyVersions.js
+const strategyVersionSchema = new mongoose.Schema({
+  strategyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Strategy',
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  authorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+
+  // Semver of the strategy after this save
+  version: {
+    type: String,
+    required: true,
+    match: /^\d+\.\d+\.\d+$/
+  },
+  message: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  },
+  // Versioned fields that differ from the previous version
+  changes: [{
+    type: String,
+    enum: ['type', 'code', 'parameters', 'rules']
+  }],
+  // Version whose content a rollback restored
+  restoredFrom: String,
+
+  // Snapshot
+  type: {
+    type: String,
+    enum: ['VISUAL', 'CODE', 'TEMPLATE'],
+    required: true
+  },
+  code: {
+    type: String,
+    default: ''
+  },
+  parameters: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  rules: mongoose.Schema.Types.Mixed
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+strategyVersionSchema.index({ strategyId: 1, version: 1 }, { unique: true });
+strategyVersionSchema.index({ strategyId: 1, createdAt: -1 });
+
+strategyVersionSchema.virtual('author', {
+  ref: 'User',
+  localField: 'authorId',
+  foreignField: '_id',
+  justOne: true
+});
+
+// Versions are never edited; a rollback records a new version instead
+strategyVersionSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Strategy versions cannot be modified'));
+  }
+  next();
+});
+
+strategyVersionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function (next) {
+  next(new Error('Strategy versions cannot be modified'));
+});
+
+module.exports = mongoose.model('StrategyVersion', strategyVersionSchema);
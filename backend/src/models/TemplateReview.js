@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+// A user's rating and review of a strategy template; one per user and template
+const templateReviewSchema = new mongoose.Schema({
+  templateId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'StrategyTemplate',
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 5,
+    validate: {
+      validator: Number.isInteger,
+      message: 'Rating must be a whole number of stars'
+    }
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+    default: ''
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+templateReviewSchema.index({ templateId: 1, userId: 1 }, { unique: true });
+templateReviewSchema.index({ templateId: 1, createdAt: -1 });
+
+templateReviewSchema.virtual('user', {
+  ref: 'User',
+  localField: 'userId',
+  foreignField: '_id',
+  justOne: true
+});
+
+// Average rating and number of ratings of a template
+templateReviewSchema.statics.summarize = async function(templateId) {
+  const [summary] = await this.aggregate([
+    { $match: { templateId: new mongoose.Types.ObjectId(String(templateId)) } },
+    { $group: { _id: null, rating: { $avg: '$rating' }, ratingCount: { $sum: 1 } } }
+  ]);
+
+  return summary
+    ? { rating: Math.round(summary.rating * 100) / 100, ratingCount: summary.ratingCount }
+    : { rating: 0, ratingCount: 0 };
+};
+
+module.exports = mongoose.model('TemplateReview', templateReviewSchema);
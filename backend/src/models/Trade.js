@@ -10,7 +10,15 @@ const tradeSchema = new mongoose.Schema({
   portfolioId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Portfolio',
-    required: true,
+    // Simulated backtest fills are not booked against a portfolio
+    required: function() {
+      return !this.backtestId;
+    },
+    index: true
+  },
+  backtestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Backtest',
     index: true
   },
   orderId: {
@@ -69,6 +77,11 @@ const tradeSchema = new mongoose.Schema({
     default: Date.now,
     index: true
   },
+  // MAKER when a resting order was filled, TAKER when the order took liquidity
+  liquidity: {
+    type: String,
+    enum: ['MAKER', 'TAKER']
+  },
   
   // Metadata
   tags: [String],
@@ -93,6 +106,7 @@ tradeSchema.index({ portfolioId: 1, executedAt: -1 });
 tradeSchema.index({ orderId: 1 });
 tradeSchema.index({ symbol: 1, executedAt: -1 });
 tradeSchema.index({ strategyId: 1, executedAt: -1 });
+tradeSchema.index({ backtestId: 1, executedAt: 1 });
 
 // Virtual for trade value
 tradeSchema.virtual('tradeValue').get(function() {
@@ -107,7 +121,7 @@ tradeSchema.virtual('netValue').get(function() {
 
 // Pre-save middleware to calculate commission
 tradeSchema.pre('save', function(next) {
-  if (this.isNew && this.commission === 0) {
+  if (this.isNew && this.commission === 0 && !this.backtestId) {
     // Calculate commission as 0.01% of trade value
     this.commission = this.quantity * this.price * 0.0001;
   }
@@ -128,6 +142,11 @@ tradeSchema.statics.getTradesForOrder = function(orderId) {
   return this.find({ orderId }).sort({ executedAt: 1 });
 };
 
+// Static method to get the simulated fills of a backtest
+tradeSchema.statics.getTradesForBacktest = function(backtestId) {
+  return this.find({ backtestId }).sort({ executedAt: 1 });
+};
+
 // Static method to get trade history
 tradeSchema.statics.getTradeHistory = function(userId, portfolioId, options = {}) {
   const { page = 1, limit = 50, symbol, startDate, endDate, strategyId } = options;
@@ -6,6 +6,9 @@ const {
   getRunningBacktests,
   createBacktest,
   getBacktest,
+  getBacktestTrades,
+  getBacktestSignals,
+  getTradeSignal,
   updateBacktest,
   deleteBacktest,
   cancelBacktest,
@@ -47,6 +50,10 @@ router.route('/:id')
   .put(authMiddleware, updateBacktest)
   .delete(authMiddleware, deleteBacktest);
 
+router.get('/:id/trades', authMiddleware, getBacktestTrades);
+router.get('/:id/trades/:tradeId/signal', authMiddleware, getTradeSignal);
+router.get('/:id/signals', authMiddleware, getBacktestSignals);
+
 // Action routes
 router.post('/:id/cancel', authMiddleware, cancelBacktest);
 router.post('/:id/retry', authMiddleware, retryBacktest);
@@ -3,6 +3,8 @@ const {
   getDashboard,
   getKPIData,
   getPerformanceData,
+  getBenchmark,
+  updateBenchmark,
   getActivities,
   getAlerts,
   markAlertAsRead,
@@ -11,7 +13,7 @@ const {
 } = require('../controllers/dashboardController');
 
 const { protect } = require('../middleware/auth');
-const { query, param } = require('express-validator');
+const { query, param, body } = require('express-validator');
 
 const router = express.Router();
 
@@ -32,6 +34,11 @@ const validatePerformanceQuery = [
   query('days').optional().isInt({ min: 1, max: 365 }).withMessage('days must be between 1 and 365')
 ];
 
+const validateBenchmark = [
+  body('type').isIn(['INDEX', 'SYMBOL']).withMessage('type must be INDEX or SYMBOL'),
+  body('symbol').if(body('type').equals('SYMBOL')).trim().notEmpty().withMessage('symbol is required for a symbol benchmark')
+];
+
 const validateActivitiesQuery = [
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100'),
   query('offset').optional().isInt({ min: 0 }).withMessage('offset must be non-negative'),
@@ -57,6 +64,8 @@ router.get('/', validateDashboardQuery, getDashboard);
 // Individual component endpoints for better performance and caching
 router.get('/kpi', getKPIData);
 router.get('/performance', validatePerformanceQuery, getPerformanceData);
+router.get('/benchmark', validatePerformanceQuery, getBenchmark);
+router.put('/benchmark', validatePerformanceQuery, validateBenchmark, updateBenchmark);
 router.get('/activities', validateActivitiesQuery, getActivities);
 router.get('/alerts', validateAlertsQuery, getAlerts);
 router.get('/stats', getStats);
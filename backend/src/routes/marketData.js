@@ -0,0 +1,29 @@
+const express = require('express');
+const multer = require('multer');
+const { protect, authorize } = require('../middleware/auth');
+const {
+  importMarketData,
+  getCoverage,
+  getCorporateActions,
+  importCorporateActions,
+  deleteCorporateAction,
+  applyCorporateActions
+} = require('../controllers/marketDataController');
+
+const router = express.Router();
+
+// Files are parsed in memory; history files larger than this should go through the CLI
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 }
+});
+
+router.get('/coverage', protect, getCoverage);
+router.post('/import', protect, authorize('admin'), upload.single('file'), importMarketData);
+
+router.get('/corporate-actions', protect, getCorporateActions);
+router.post('/corporate-actions', protect, authorize('admin'), importCorporateActions);
+router.post('/corporate-actions/apply', protect, authorize('admin'), applyCorporateActions);
+router.delete('/corporate-actions/:id', protect, authorize('admin'), deleteCorporateAction);
+
+module.exports = router;
@@ -0,0 +1,23 @@
+const express = require('express');
+const { protect } = require('../middleware/auth');
+const {
+  getSessions,
+  getSession,
+  getSessionSignals,
+  deploySession,
+  pauseSession,
+  resumeSession,
+  stopSession
+} = require('../controllers/paperTradingController');
+
+const router = express.Router();
+
+router.get('/sessions', protect, getSessions);
+router.post('/sessions', protect, deploySession);
+router.get('/sessions/:id', protect, getSession);
+router.get('/sessions/:id/signals', protect, getSessionSignals);
+router.post('/sessions/:id/pause', protect, pauseSession);
+router.post('/sessions/:id/resume', protect, resumeSession);
+router.post('/sessions/:id/stop', protect, stopSession);
+
+module.exports = router;
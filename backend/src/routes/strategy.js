@@ -1,5 +1,5 @@
 const express = require('express');
-const { protect } = require('../middleware/auth');
+const { protect, authorize } = require('../middleware/auth');
 const {
   getStrategies,
   getStatusCounts,
@@ -15,7 +15,28 @@ const {
   getTemplateCategories,
   getPopularTemplates,
   createFromTemplate,
-  getPerformanceSummary
+  getPerformanceSummary,
+  validateStrategyCode,
+  compileStrategyRules,
+  convertToCode,
+  getStrategyVersions,
+  diffStrategyVersions,
+  getStrategyVersion,
+  rollbackStrategy,
+  exportStrategyPackage,
+  previewStrategyImport,
+  importStrategyPackage,
+  getMyTemplates,
+  getTemplate,
+  publishStrategy,
+  updateTemplate,
+  unpublishTemplate,
+  getTemplateReviews,
+  reviewTemplate,
+  forkTemplate,
+  moderateTemplate,
+  getStrategySignals,
+  getSignal
 } = require('../controllers/strategiesController');
 
 const router = express.Router();
@@ -42,7 +63,17 @@ if (process.env.NODE_ENV === 'development') {
 router.get('/templates/categories', authMiddleware, getTemplateCategories);
 router.get('/templates/popular', authMiddleware, getPopularTemplates);
 router.get('/templates', authMiddleware, getTemplates);
+router.get('/templates/mine', authMiddleware, getMyTemplates);
+router.route('/templates/:templateId')
+  .get(authMiddleware, getTemplate)
+  .put(authMiddleware, updateTemplate)
+  .delete(authMiddleware, unpublishTemplate);
 router.post('/templates/:templateId/create', authMiddleware, createFromTemplate);
+router.post('/templates/:templateId/fork', authMiddleware, forkTemplate);
+router.route('/templates/:templateId/reviews')
+  .get(authMiddleware, getTemplateReviews)
+  .post(authMiddleware, reviewTemplate);
+router.put('/templates/:templateId/moderation', authMiddleware, authorize('admin'), moderateTemplate);
 
 // Performance routes
 router.get('/performance/summary', authMiddleware, getPerformanceSummary);
@@ -50,6 +81,19 @@ router.get('/performance/summary', authMiddleware, getPerformanceSummary);
 // Status routes
 router.get('/status-counts', authMiddleware, getStatusCounts);
 
+// Code validation (sandboxed dry run)
+router.post('/validate-code', authMiddleware, validateStrategyCode);
+
+// Visual rules compiled to code
+router.post('/compile-rules', authMiddleware, compileStrategyRules);
+
+// Strategy package import (validated and previewed before it is applied)
+router.post('/import/preview', authMiddleware, previewStrategyImport);
+router.post('/import', authMiddleware, importStrategyPackage);
+
+// Signal journal entry (before :id routes)
+router.get('/signals/:signalId', authMiddleware, getSignal);
+
 // Strategy CRUD routes
 router.route('/')
   .get(authMiddleware, getStrategies)
@@ -65,5 +109,17 @@ router.post('/:id/clone', authMiddleware, cloneStrategy);
 router.post('/:id/deploy', authMiddleware, deployStrategy);
 router.post('/:id/pause', authMiddleware, pauseStrategy);
 router.post('/:id/stop', authMiddleware, stopStrategy);
+router.post('/:id/convert-to-code', authMiddleware, convertToCode);
+router.post('/:id/export', authMiddleware, exportStrategyPackage);
+router.post('/:id/publish', authMiddleware, publishStrategy);
+
+// Version history routes (diff must come before :version)
+router.get('/:id/versions', authMiddleware, getStrategyVersions);
+router.get('/:id/versions/diff', authMiddleware, diffStrategyVersions);
+router.get('/:id/versions/:version', authMiddleware, getStrategyVersion);
+router.post('/:id/versions/:version/rollback', authMiddleware, rollbackStrategy);
+
+// Signal journal across backtests and paper sessions
+router.get('/:id/signals', authMiddleware, getStrategySignals);
 
 module.exports = router;
\ No newline at end of file
@@ -1,12 +1,20 @@
 const express = require('express');
-const { protect } = require('../middleware/auth');
+const { protect, authorize } = require('../middleware/auth');
 const {
   getPortfolio,
+  getPortfolios,
+  createPortfolio,
+  updatePortfolio,
+  resetPortfolio,
+  archivePortfolio,
+  transferCash,
   getPositions,
   closePosition,
   setStopLoss,
   setTakeProfit,
   placeOrder,
+  checkOrder,
+  placeOcoOrder,
   getOrders,
   getActiveOrders,
   cancelOrder,
@@ -15,6 +23,15 @@ const {
   getSymbolData,
   getHistoricalData,
   getOHLCData,
+  getOrderBook,
+  getMarketStatus,
+  getHolidays,
+  getRiskLimits,
+  updateRiskLimits,
+  getMargin,
+  setAccountType,
+  getMarginRequirements,
+  setMarginRequirement,
   exportOrders,
   exportPositions
 } = require('../controllers/tradingController');
@@ -23,6 +40,12 @@ const router = express.Router();
 
 // Portfolio routes
 router.get('/portfolio', protect, getPortfolio);
+router.get('/portfolios', protect, getPortfolios);
+router.post('/portfolios', protect, createPortfolio);
+router.post('/portfolios/transfers', protect, transferCash);
+router.put('/portfolios/:id', protect, updatePortfolio);
+router.post('/portfolios/:id/reset', protect, resetPortfolio);
+router.post('/portfolios/:id/archive', protect, archivePortfolio);
 
 // Position routes
 router.get('/positions', protect, getPositions);
@@ -33,16 +56,33 @@ router.get('/positions/export', protect, exportPositions);
 
 // Order routes
 router.post('/orders', protect, placeOrder);
+router.post('/orders/check', protect, checkOrder);
+router.post('/orders/oco', protect, placeOcoOrder);
 router.get('/orders', protect, getOrders);
 router.get('/orders/active', protect, getActiveOrders);
 router.delete('/orders/:id', protect, cancelOrder);
 router.put('/orders/:id', protect, modifyOrder);
 router.get('/orders/export', protect, exportOrders);
 
+// Risk routes
+router.get('/risk-limits', protect, getRiskLimits);
+router.put('/risk-limits', protect, updateRiskLimits);
+
+// Margin routes
+router.get('/margin', protect, getMargin);
+router.put('/margin/account-type', protect, setAccountType);
+router.get('/margin/requirements', protect, getMarginRequirements);
+router.put('/margin/requirements/:symbol', protect, authorize('admin'), setMarginRequirement);
+
 // Market data routes
 router.get('/market-data', protect, getMarketData);
 router.get('/market-data/:symbol', protect, getSymbolData);
 router.get('/market-data/:symbol/history', protect, getHistoricalData);
 router.get('/market-data/:symbol/ohlc', protect, getOHLCData);
+router.get('/market-data/:symbol/book', protect, getOrderBook);
+
+// Trading calendar routes
+router.get('/market-status', protect, getMarketStatus);
+router.get('/calendar/holidays', protect, getHolidays);
 
 module.exports = router;
\ No newline at end of file
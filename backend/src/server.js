@@ -18,11 +18,16 @@ const backtestRoutes = require('./routes/backtest');
 const settingsRoutes = require('./routes/settings');
 const supportRoutes = require('./routes/support');
 const contactRoutes = require('./routes/contact');
+const marketDataRoutes = require('./routes/marketData');
+const paperTradingRoutes = require('./routes/paperTrading');
 
 // Import middleware
 const errorHandler = require('./middleware/errorHandler');
 const notFound = require('./middleware/notFound');
 
+const tradingCalendarService = require('./services/tradingCalendarService');
+const portfolioService = require('./services/portfolioService');
+
 const app = express();
 
 // Security middleware
@@ -98,6 +103,8 @@ app.use(`${apiPrefix}/${apiVersion}/backtests`, backtestRoutes);
 app.use(`${apiPrefix}/${apiVersion}/settings`, settingsRoutes);
 app.use(`${apiPrefix}/${apiVersion}/support`, supportRoutes);
 app.use(`${apiPrefix}/${apiVersion}/contact`, contactRoutes);
+app.use(`${apiPrefix}/${apiVersion}/market-data`, marketDataRoutes);
+app.use(`${apiPrefix}/${apiVersion}/paper-trading`, paperTradingRoutes);
 
 // Welcome route
 app.get('/', (req, res) => {
@@ -120,6 +127,13 @@ const connectDB = async () => {
 
     console.log(`✅ MongoDB Connected: ${conn.connection.host}`);
     console.log(`📊 Database: ${conn.connection.name}`);
+
+    await tradingCalendarService.load();
+
+    const backfilled = await portfolioService.backfillInitialCapital();
+    if (backfilled > 0) {
+      console.log(`💼 Stored the starting capital of ${backfilled} portfolio(s)`);
+    }
   } catch (error) {
     console.error('❌ Database connection error:', error.message);
     console.error('💡 Check your MONGODB_URI environment variable');
@@ -0,0 +1,107 @@
+const BacktestEngine = require('../backtestEngine');
+const { builtInStrategies } = require('../../utils/builtInStrategies');
+
+// Corporate action checks start on an interval when the service loads
+jest.spyOn(global, 'setInterval').mockReturnValue(0);
+const backtestService = require('../backtestService');
+
+// Two years of daily bars swinging around a drifting trend, with a volume spike every fifth bar
+const bars = Array.from({ length: 500 }, (_, index) => {
+  const close = 200 + index * 0.05 + 25 * Math.sin(index / 15) + 8 * Math.sin(index / 4.3);
+  const open = close + 2 * Math.sin(index / 1.7);
+  return {
+    date: new Date(Date.UTC(2022, 0, 3) + index * 86400000),
+    open,
+    high: Math.max(open, close) + 1.5,
+    low: Math.min(open, close) - 1.5,
+    close,
+    volume: index % 5 === 0 ? 150000 : 50000 + (index % 11) * 2500
+  };
+});
+
+const config = { symbol: 'TEST', initialCapital: 100000, commission: 20, slippage: 0.05 };
+
+const bar = (day, open, close) => ({
+  date: new Date(Date.UTC(2024, 0, day)),
+  open,
+  high: Math.max(open, close),
+  low: Math.min(open, close),
+  close,
+  volume: 1000
+});
+
+describe('backtest engine', () => {
+  it.each(Object.keys(builtInStrategies))('gives identical results for the same %s run twice', async (key) => {
+    const run = () => new BacktestEngine(config).run(bars, builtInStrategies[key].create({}));
+
+    const first = await run();
+    const second = await run();
+
+    expect(first.fills.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('gives identical results for the same backtest evaluated twice', async () => {
+    const backtest = { initialCapital: 250000, commission: 10, slippage: 0.1 };
+    const strategy = { name: 'Moving Average Crossover', type: 'TEMPLATE', parameters: { fastPeriod: 5, slowPeriod: 30 } };
+    const evaluate = () => backtestService.evaluateParameters(backtest, strategy, 'TEST', bars, strategy.parameters);
+
+    const first = await evaluate();
+    const second = await evaluate();
+
+    expect(first.result.summary.totalTrades).toBeGreaterThan(0);
+    expect(second.result).toEqual(first.result);
+    expect(second.fills).toEqual(first.fills);
+  });
+
+  it('fills orders at the next open with slippage and commission', async () => {
+    const handler = {
+      onBar(current, ctx) {
+        if (ctx.barIndex === 0) ctx.buy(10, 'entry');
+        if (ctx.barIndex === 2) ctx.close('exit');
+      }
+    };
+    const engine = new BacktestEngine({ symbol: 'TEST', initialCapital: 10000, commission: 5, slippage: 1 });
+
+    const { fills, roundTrips, result } = await engine.run([
+      bar(1, 100, 100),
+      bar(2, 110, 112),
+      bar(3, 115, 120),
+      bar(4, 130, 125)
+    ], handler);
+
+    expect(fills.map(({ side, quantity, price, commission, reason }) => ({ side, quantity, price, commission, reason })))
+      .toEqual([
+        { side: 'BUY', quantity: 10, price: 111.1, commission: 5, reason: 'entry' },
+        { side: 'SELL', quantity: 10, price: 128.7, commission: 5, reason: 'exit' }
+      ]);
+    // 176 gained on the shares, less both commissions
+    expect(roundTrips).toHaveLength(1);
+    expect(roundTrips[0].pnl).toBeCloseTo(166, 6);
+    expect(result.summary.finalCapital).toBe(10166);
+    expect(result.summary.totalCommission).toBe(10);
+    expect(result.summary.totalSlippage).toBe(24);
+  });
+
+  it('closes what is still open at the last close and expires orders left queued', async () => {
+    const handler = {
+      onBar(current, ctx) {
+        if (ctx.barIndex === 0) ctx.buy(5, 'entry');
+        if (ctx.barIndex === 2) ctx.buy(5, 'too late');
+      }
+    };
+
+    const { fills, signals } = await new BacktestEngine({ symbol: 'TEST', initialCapital: 10000 })
+      .run([bar(1, 100, 100), bar(2, 100, 104), bar(3, 106, 108)], handler);
+
+    expect(fills.map(({ side, quantity, price, reason }) => ({ side, quantity, price, reason }))).toEqual([
+      { side: 'BUY', quantity: 5, price: 100, reason: 'entry' },
+      { side: 'SELL', quantity: 5, price: 108, reason: 'End of backtest' }
+    ]);
+    expect(signals.map(signal => [signal.reason, signal.status])).toEqual([
+      ['entry', 'FILLED'],
+      ['too late', 'EXPIRED'],
+      ['End of backtest', 'FILLED']
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+const barService = require('../barService');
+const tradingCalendarService = require('../tradingCalendarService');
+
+// Corporate action checks start on an interval when the service loads
+jest.spyOn(global, 'setInterval').mockReturnValue(0);
+const corporateActionService = require('../corporateActionService');
+const backtestService = require('../backtestService');
+
+// Ten weeks of daily snapshots from Monday 1 January 2024, weekends included
+const bars = Array.from({ length: 70 }, (_, index) => {
+  const close = 100 + 10 * Math.sin(index / 4) + index * 0.1;
+  return {
+    date: new Date(Date.UTC(2024, 0, 1 + index)),
+    open: close - 0.5,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 10000
+  };
+});
+
+const day = bar => bar.date.toISOString().slice(0, 10);
+
+describe('backtest service', () => {
+  let getBars;
+
+  beforeEach(() => {
+    getBars = jest.spyOn(barService, 'getBars').mockResolvedValue(bars);
+    tradingCalendarService.cache({ exchange: 'NSE', date: '2024-01-26', description: 'Republic Day' });
+  });
+
+  afterEach(() => {
+    tradingCalendarService.holidays.get('NSE').clear();
+    jest.restoreAllMocks();
+  });
+
+  it('loads the daily bars of trading sessions only', async () => {
+    const adjustBars = jest.spyOn(corporateActionService, 'adjustBars').mockImplementation(async (symbol, sessions) => sessions);
+    const start = new Date('2024-01-01');
+    const end = new Date('2024-03-10');
+
+    const sessions = await backtestService.loadBars('TEST', start, end);
+
+    expect(getBars).toHaveBeenCalledWith('TEST', '1d', start, end);
+    // 50 weekdays less the holiday
+    expect(sessions).toHaveLength(49);
+    expect(sessions.map(day)).not.toContain('2024-01-26');
+    expect(sessions.every(bar => ![0, 6].includes(bar.date.getUTCDay()))).toBe(true);
+    expect(adjustBars).toHaveBeenCalledWith('TEST', sessions);
+  });
+
+  it('leaves the bars unadjusted when the backtest opts out', async () => {
+    const adjustBars = jest.spyOn(corporateActionService, 'adjustBars');
+
+    const sessions = await backtestService.loadBars('TEST', bars[0].date, bars[69].date, false);
+
+    expect(sessions).toHaveLength(49);
+    expect(adjustBars).not.toHaveBeenCalled();
+  });
+
+  it('runs a single symbol backtest over the loaded sessions', async () => {
+    const backtest = {
+      type: 'SINGLE',
+      startDate: bars[0].date,
+      endDate: bars[69].date,
+      initialCapital: 100000,
+      commission: 20,
+      slippage: 0.05,
+      adjustForCorporateActions: false,
+      updateProgress: jest.fn()
+    };
+    const strategy = {
+      name: 'Moving Average Crossover',
+      type: 'TEMPLATE',
+      parameters: { symbol: 'TEST', fastPeriod: 3, slowPeriod: 10 }
+    };
+
+    const run = await backtestService.runSingleSymbol(backtest, strategy, () => false);
+
+    expect(getBars).toHaveBeenCalledWith('TEST', '1d', backtest.startDate, backtest.endDate);
+    expect(run.fills.length).toBeGreaterThan(0);
+    expect(run.fills.every(fill => ![0, 6].includes(new Date(fill.executedAt).getUTCDay()))).toBe(true);
+    expect(run.result.summary.totalTrades).toBeGreaterThan(0);
+  });
+
+  it('optimizes on each train window and trades only the test window after it', async () => {
+    const backtest = {
+      type: 'WALK_FORWARD',
+      startDate: bars[0].date,
+      endDate: bars[69].date,
+      initialCapital: 100000,
+      commission: 20,
+      slippage: 0.05,
+      adjustForCorporateActions: false,
+      progress: 0,
+      walkForward: { trainDays: 21, testDays: 14, anchored: false },
+      optimization: {
+        method: 'GRID',
+        objective: 'totalReturnPercent',
+        ranges: [{ key: 'fastPeriod', min: 2, max: 4, step: 1 }],
+        maxTrials: 10,
+        seed: 1
+      },
+      updateProgress: jest.fn(),
+      save: jest.fn().mockResolvedValue(undefined)
+    };
+    const strategy = {
+      name: 'Moving Average Crossover',
+      type: 'TEMPLATE',
+      parameters: { symbol: 'TEST', fastPeriod: 3, slowPeriod: 8 }
+    };
+
+    const run = await backtestService.runSingleSymbol(backtest, strategy, () => false);
+    const windows = backtest.walkForward.windows;
+
+    // Test windows start 21, 35, 49 and 63 days into the range
+    expect(windows.map(window => day({ date: window.testStart }))).toEqual(['2024-01-22', '2024-02-05', '2024-02-19', '2024-03-04']);
+    expect(windows.every(window => [2, 3, 4].includes(window.parameters.fastPeriod))).toBe(true);
+    expect(run.fills.length).toBeGreaterThan(0);
+    expect(run.fills.every(fill => new Date(fill.executedAt) >= windows[0].testStart)).toBe(true);
+    expect(backtest.walkForward.outOfSample.totalTrades).toBe(run.result.summary.totalTrades);
+    expect(backtest.save).toHaveBeenCalled();
+  });
+});
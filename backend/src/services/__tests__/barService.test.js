@@ -0,0 +1,77 @@
+const MarketData = require('../../models/MarketData');
+const tradingCalendarService = require('../tradingCalendarService');
+const barService = require('../barService');
+
+// A UTC time from an NSE local time (IST, UTC+05:30)
+const ist = (local) => new Date(`${local}:00+05:30`);
+
+// Stored minute bars as MarketData documents
+const minuteDocs = (start, count) => Array.from({ length: count }, (_, i) => ({
+  timestamp: new Date(ist(start).getTime() + i * 60 * 1000),
+  open: 100 + i,
+  high: 101 + i,
+  low: 99 + i,
+  price: 100.5 + i,
+  volume: 10
+}));
+
+// MarketData.find(...).sort(...).lean() resolving to the documents stored for an interval
+const mockStored = (byInterval) => jest.spyOn(MarketData, 'find').mockImplementation(query => ({
+  sort: () => ({
+    lean: () => Promise.resolve(query.source === 'IMPORT' ? [] : byInterval[query.interval] || [])
+  })
+}));
+
+describe('bar service', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    barService.liveBars.clear();
+    barService.lastVolume.clear();
+  });
+
+  it('builds a timeframe that is not stored from the coarsest finer interval', async () => {
+    const find = mockStored({ '1m': minuteDocs('2024-03-11T09:15', 60) });
+
+    const bars = await barService.getBars('tcs', '30m', ist('2024-03-11T09:15'), ist('2024-03-11T15:30'));
+
+    expect(bars).toEqual([
+      { date: ist('2024-03-11T09:15'), open: 100, high: 130, low: 99, close: 129.5, volume: 300 },
+      { date: ist('2024-03-11T09:45'), open: 130, high: 160, low: 129, close: 159.5, volume: 300 }
+    ]);
+    // Each interval is looked up as imported history, then as bars built from ticks
+    expect(find.mock.calls.map(([query]) => query.interval)).toEqual(['30m', '30m', '15m', '15m', '5m', '5m', '1m', '1m']);
+    expect(find.mock.calls[0][0].symbol).toBe('TCS');
+  });
+
+  it('rejects an unknown timeframe', async () => {
+    await expect(barService.getBars('TCS', '2h', new Date(), new Date()))
+      .rejects.toThrow('Unsupported timeframe "2h"; use one of 1m, 5m, 15m, 30m, 1h, 1d, 1w');
+  });
+
+  it('rolls ticks into live bars and emits a bar when it closes', async () => {
+    jest.spyOn(tradingCalendarService, 'isMarketOpen').mockReturnValue(true);
+    const saveBar = jest.spyOn(barService, 'saveBar').mockResolvedValue();
+    const closed = jest.fn();
+    const unsubscribe = barService.subscribe('tcs', '1m', closed);
+
+    await barService.onTick({ symbol: 'TCS', price: 100, volume: 1000, timestamp: ist('2024-03-11T09:15') });
+    await barService.onTick({ symbol: 'TCS', price: 103, volume: 1040, timestamp: ist('2024-03-11T09:15').getTime() + 20000 });
+    await barService.onTick({ symbol: 'TCS', price: 99, volume: 1100, timestamp: ist('2024-03-11T09:15').getTime() + 40000 });
+    await barService.onTick({ symbol: 'TCS', price: 101, volume: 1150, timestamp: ist('2024-03-11T09:16') });
+    unsubscribe();
+
+    // The first tick only sets the volume baseline
+    const minute = { date: ist('2024-03-11T09:15'), open: 100, high: 103, low: 99, close: 99, volume: 100 };
+    expect(closed).toHaveBeenCalledWith(minute);
+    expect(saveBar).toHaveBeenCalledWith('TCS', '1m', minute);
+    expect(barService.liveBars.get('TCS')['15m']).toEqual({ ...minute, close: 101, volume: 150 });
+  });
+
+  it('ignores ticks while the market is closed', async () => {
+    jest.spyOn(tradingCalendarService, 'isMarketOpen').mockReturnValue(false);
+
+    await barService.onTick({ symbol: 'TCS', price: 100, volume: 1000, timestamp: ist('2024-03-11T09:20') });
+
+    expect(barService.liveBars.has('TCS')).toBe(false);
+  });
+});
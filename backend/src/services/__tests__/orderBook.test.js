@@ -0,0 +1,249 @@
+jest.mock('../websocketService', () => ({
+  broadcastOrderBook: jest.fn()
+}));
+
+const OrderBook = require('../orderBook');
+const matchingEngine = require('../matchingEngine');
+
+// Quotes without random size: 500 shares at the touch, 650 at the next level
+const createBook = () => {
+  const book = new OrderBook('TEST', { depthJitter: 0 });
+  book.seed(100);
+  return book;
+};
+
+const limit = (id, owner, side, price, quantity) => ({ id, owner, side, type: 'LIMIT', price, quantity });
+const market = (id, owner, side, quantity) => ({ id, owner, side, type: 'MARKET', quantity });
+
+describe('order book', () => {
+  it('quotes both sides of the last price', () => {
+    const { bids, asks, spread } = createBook().depth(2);
+
+    expect(bids).toEqual([
+      { price: 99.95, quantity: 500, orders: 0 },
+      { price: 99.9, quantity: 650, orders: 0 }
+    ]);
+    expect(asks[0]).toEqual({ price: 100, quantity: 500, orders: 0 });
+    expect(spread).toBe(0.05);
+  });
+
+  it('fills a market order at the best prices first', () => {
+    const book = createBook();
+
+    expect(book.submit(market('buy', 'a', 'BUY', 800))).toEqual([
+      { orderId: 'buy', price: 100, quantity: 500, liquidity: 'TAKER' },
+      { orderId: 'buy', price: 100.05, quantity: 300, liquidity: 'TAKER' }
+    ]);
+    expect(book.contains('buy')).toBe(false);
+  });
+
+  it('rests a limit order that does not cross behind what is quoted at its price', () => {
+    const book = createBook();
+
+    expect(book.submit(limit('bid', 'a', 'BUY', 99.95, 100))).toEqual([]);
+    expect(book.queuePosition('bid')).toBe(500);
+    expect(book.depth(1).bids[0]).toEqual({ price: 99.95, quantity: 600, orders: 1 });
+  });
+
+  it('trades quotes before paper orders and paper orders in arrival order', () => {
+    const book = createBook();
+    book.submit(limit('first', 'a', 'SELL', 100, 100));
+    book.submit(limit('second', 'b', 'SELL', 100, 100));
+
+    expect(book.queuePosition('first')).toBe(500);
+    expect(book.queuePosition('second')).toBe(600);
+
+    expect(book.submit(market('buy', 'c', 'BUY', 550))).toEqual([
+      { orderId: 'buy', price: 100, quantity: 500, liquidity: 'TAKER' },
+      { orderId: 'first', price: 100, quantity: 50, liquidity: 'MAKER' },
+      { orderId: 'buy', price: 100, quantity: 50, liquidity: 'TAKER' }
+    ]);
+    expect(book.queuePosition('first')).toBe(0);
+    expect(book.queuePosition('second')).toBe(50);
+  });
+
+  it('works a resting order through the volume printed at its price', () => {
+    // A wider spread keeps the asks away from the bid when the price comes down to it
+    const book = new OrderBook('TEST', { depthJitter: 0, spreadTicks: 3 });
+    book.seed(100);
+    book.submit(limit('bid', 'a', 'BUY', 99.9, 100));
+    expect(book.queuePosition('bid')).toBe(500);
+
+    expect(book.update({ price: 99.9, traded: 450 })).toEqual([]);
+    expect(book.queuePosition('bid')).toBe(50);
+    expect(book.update({ price: 99.9, traded: 100 })).toEqual([
+      { orderId: 'bid', price: 99.9, quantity: 50, liquidity: 'MAKER' }
+    ]);
+  });
+
+  it('drops what an immediate-or-cancel order cannot fill on arrival', () => {
+    const book = createBook();
+    const order = { ...limit('ioc', 'a', 'BUY', 100, 700), timeInForce: 'IOC' };
+
+    expect(book.submit(order)).toEqual([
+      { orderId: 'ioc', price: 100, quantity: 500, liquidity: 'TAKER' }
+    ]);
+    expect(book.contains('ioc')).toBe(false);
+    expect(book.depth(1).bids[0]).toEqual({ price: 99.95, quantity: 500, orders: 0 });
+  });
+
+  it('fills a fill-or-kill order the book can fill completely', () => {
+    const book = createBook();
+    const order = { ...limit('fok', 'a', 'BUY', 100.05, 1150), timeInForce: 'FOK' };
+
+    expect(book.submit(order)).toEqual([
+      { orderId: 'fok', price: 100, quantity: 500, liquidity: 'TAKER' },
+      { orderId: 'fok', price: 100.05, quantity: 650, liquidity: 'TAKER' }
+    ]);
+    expect(book.contains('fok')).toBe(false);
+  });
+
+  it('does not fill a fill-or-kill order the book cannot fill completely', () => {
+    const book = createBook();
+    const order = { ...limit('fok', 'a', 'BUY', 100, 501), timeInForce: 'FOK' };
+
+    expect(book.submit(order)).toEqual([]);
+    expect(book.contains('fok')).toBe(false);
+  });
+
+  describe('iceberg orders', () => {
+    it('show only their display quantity', () => {
+      const book = createBook();
+      book.submit({ ...limit('iceberg', 'a', 'SELL', 100.1, 1000), displayQuantity: 100 });
+
+      expect(book.depth(3).asks[2]).toEqual({ price: 100.1, quantity: 900, orders: 1 });
+    });
+
+    it('join the back of the queue with each new slice', () => {
+      const book = createBook();
+      book.submit({ ...limit('iceberg', 'a', 'SELL', 100, 300), displayQuantity: 100 });
+      book.submit(limit('later', 'b', 'SELL', 100, 100));
+
+      expect(book.submit(market('buy', 'c', 'BUY', 700))).toEqual([
+        { orderId: 'buy', price: 100, quantity: 500, liquidity: 'TAKER' },
+        { orderId: 'iceberg', price: 100, quantity: 100, liquidity: 'MAKER' },
+        { orderId: 'buy', price: 100, quantity: 100, liquidity: 'TAKER' },
+        { orderId: 'later', price: 100, quantity: 100, liquidity: 'MAKER' },
+        { orderId: 'buy', price: 100, quantity: 100, liquidity: 'TAKER' }
+      ]);
+      expect(book.contains('later')).toBe(false);
+      expect(book.depth(1).asks[0]).toEqual({ price: 100, quantity: 100, orders: 1 });
+    });
+  });
+
+  describe('trailing stops', () => {
+    it('ratchet behind the best price and trigger as market orders', () => {
+      const book = createBook();
+      book.submit({ id: 'trail', owner: 'a', side: 'SELL', type: 'TRAILING_STOP', trailAmount: 2, quantity: 50 });
+
+      expect(book.drainOrderUpdates()).toEqual([{ orderId: 'trail', stopPrice: 98 }]);
+
+      book.update({ price: 105 });
+      expect(book.drainOrderUpdates()).toEqual([{ orderId: 'trail', stopPrice: 103 }]);
+
+      // Never loosened on the way down
+      expect(book.update({ price: 104 })).toEqual([]);
+      expect(book.drainOrderUpdates()).toEqual([]);
+
+      const fills = book.update({ price: 103 });
+      expect(fills).toHaveLength(1);
+      expect(fills[0]).toMatchObject({ orderId: 'trail', quantity: 50, liquidity: 'TAKER' });
+      expect(book.contains('trail')).toBe(false);
+    });
+
+    it('trail by a percentage', () => {
+      const book = createBook();
+      book.submit({ id: 'trail', owner: 'a', side: 'BUY', type: 'TRAILING_STOP', trailPercent: 5, quantity: 10 });
+      expect(book.drainOrderUpdates()).toEqual([{ orderId: 'trail', stopPrice: 105 }]);
+
+      book.update({ price: 90 });
+      expect(book.drainOrderUpdates()).toEqual([{ orderId: 'trail', stopPrice: 94.5 }]);
+    });
+  });
+
+  describe('self-trade prevention', () => {
+    it('cancels the resting order an order of its owner reaches', () => {
+      const book = createBook();
+      book.submit(limit('own', 'a', 'SELL', 100, 100));
+      book.submit(limit('other', 'b', 'SELL', 100, 100));
+
+      expect(book.submit(limit('buy', 'a', 'BUY', 100, 550))).toEqual([
+        { orderId: 'buy', price: 100, quantity: 500, liquidity: 'TAKER' },
+        { orderId: 'other', price: 100, quantity: 50, liquidity: 'MAKER' },
+        { orderId: 'buy', price: 100, quantity: 50, liquidity: 'TAKER' }
+      ]);
+      expect(book.contains('own')).toBe(false);
+      expect(book.drainSelfTradeCancels()).toEqual(['own']);
+      expect(book.drainSelfTradeCancels()).toEqual([]);
+    });
+
+    it('rests the rest of the order once its owner has cleared the way', () => {
+      const book = createBook();
+      book.submit(limit('own', 'a', 'SELL', 100.05, 100));
+      book.submit(market('sweep', 'b', 'BUY', 1150));
+
+      expect(book.submit(limit('buy', 'a', 'BUY', 100.05, 200))).toEqual([]);
+      expect(book.drainSelfTradeCancels()).toEqual(['own']);
+      expect(book.depth(1).bids[0]).toEqual({ price: 100.05, quantity: 200, orders: 1 });
+    });
+
+    it('leaves out the owner\'s own orders when checking a fill-or-kill order', () => {
+      const book = createBook();
+      book.submit(limit('own', 'a', 'SELL', 100, 100));
+      const order = { ...limit('fok', 'a', 'BUY', 100, 550), timeInForce: 'FOK' };
+
+      expect(book.submit(order)).toEqual([]);
+      expect(book.contains('own')).toBe(true);
+      expect(book.drainSelfTradeCancels()).toEqual([]);
+    });
+
+    it('does not cancel an order the quotes filled earlier in the same update', () => {
+      const book = createBook();
+      book.submit(limit('own', 'a', 'SELL', 100.5, 100));
+      book.submit({ id: 'stop', owner: 'a', side: 'BUY', type: 'STOP', stopPrice: 101, quantity: 1000 });
+
+      const fills = book.update({ price: 101, traded: 0 });
+
+      expect(fills).toContainEqual({ orderId: 'own', price: 100.5, quantity: 100, liquidity: 'MAKER' });
+      expect(fills.every(fill => fill.quantity > 0)).toBe(true);
+      expect(book.drainSelfTradeCancels()).toEqual([]);
+    });
+
+    it('matches orders without an owner as before', () => {
+      const book = createBook();
+      book.submit(limit('ask', undefined, 'SELL', 100, 100));
+
+      expect(book.submit(limit('buy', undefined, 'BUY', 100, 550))).toContainEqual(
+        { orderId: 'ask', price: 100, quantity: 50, liquidity: 'MAKER' }
+      );
+      expect(book.drainSelfTradeCancels()).toEqual([]);
+    });
+
+    it('reports cancelled orders from the engine after the fills of a tick', () => {
+      const events = [];
+      const onFills = fills => events.push(['fills', fills.map(fill => fill.orderId)]);
+      const onCancels = orderIds => events.push(['selfTradeCancels', orderIds]);
+      matchingEngine.on('fills', onFills);
+      matchingEngine.on('selfTradeCancels', onCancels);
+
+      try {
+        // The ask sits at the touch once the price reaches the stop
+        matchingEngine.submit({ _id: 'engine-ask', userId: 'a', symbol: 'STP', side: 'SELL', type: 'LIMIT', price: 101, remainingQuantity: 100 }, 100);
+        matchingEngine.submit({ _id: 'engine-stop', userId: 'a', symbol: 'STP', side: 'BUY', type: 'STOP', stopPrice: 101, remainingQuantity: 1000 }, 100);
+        expect(matchingEngine.has('engine-ask')).toBe(true);
+
+        matchingEngine.onTick({ symbol: 'STP', price: 101, volume: 0 });
+
+        expect(events).toEqual([
+          ['fills', expect.not.arrayContaining(['engine-ask'])],
+          ['selfTradeCancels', ['engine-ask']]
+        ]);
+        expect(events[0][1]).toContain('engine-stop');
+        expect(matchingEngine.has('engine-ask')).toBe(false);
+      } finally {
+        matchingEngine.off('fills', onFills);
+        matchingEngine.off('selfTradeCancels', onCancels);
+      }
+    });
+  });
+});
@@ -0,0 +1,84 @@
+const Order = require('../../models/Order');
+const Trade = require('../../models/Trade');
+const Position = require('../../models/Position');
+const Portfolio = require('../../models/Portfolio');
+const MarketData = require('../../models/MarketData');
+const { RULES } = require('../../utils/riskRules');
+
+// Order and margin monitoring start on an interval when their services load
+jest.spyOn(global, 'setInterval').mockReturnValue(0);
+const orderService = require('../orderService');
+const matchingEngine = require('../matchingEngine');
+const riskEngine = require('../riskEngine');
+
+const userId = '64b000000000000000000001';
+const portfolioId = '64b000000000000000000002';
+
+describe('order modification', () => {
+  let order;
+  let save;
+  let processOrder;
+
+  beforeEach(() => {
+    // A cash account with ₹1,00,000 and a resting bid for 10 shares at the market
+    const portfolio = new Portfolio({ _id: portfolioId, userId, accountType: 'CASH', cashBalance: 100000, totalValue: 100000 });
+    order = new Order({ userId, portfolioId, symbol: 'TEST', side: 'BUY', type: 'LIMIT', quantity: 10, remainingQuantity: 10, price: 100 });
+
+    jest.spyOn(Order, 'findOne').mockResolvedValue(order);
+    jest.spyOn(Order, 'findById').mockResolvedValue(order);
+    jest.spyOn(Order, 'find').mockResolvedValue([]);
+    jest.spyOn(Order, 'countDocuments').mockResolvedValue(0);
+    jest.spyOn(Portfolio, 'findById').mockResolvedValue(portfolio);
+    jest.spyOn(Position, 'find').mockResolvedValue([]);
+    jest.spyOn(Trade, 'find').mockResolvedValue([]);
+    jest.spyOn(MarketData, 'findOne').mockReturnValue({ live: () => ({ sort: () => Promise.resolve({ price: 100 }) }) });
+    jest.spyOn(matchingEngine, 'cancel').mockReturnValue(undefined);
+    jest.spyOn(orderService, 'broadcastOrderUpdate').mockReturnValue(undefined);
+    save = jest.spyOn(order, 'save').mockResolvedValue(order);
+    processOrder = jest.spyOn(orderService, 'processOrder').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects a modification past the buying power and leaves the order as it was', async () => {
+    const result = await orderService.modifyOrder(userId, order._id, { quantity: 5000 });
+
+    expect(result.success).toBe(false);
+    expect(result.violations.map(violation => violation.rule)).toContain(RULES.BUYING_POWER);
+    expect(result.errors).toEqual(result.violations.map(violation => violation.message));
+    expect(save).not.toHaveBeenCalled();
+    expect(matchingEngine.cancel).not.toHaveBeenCalled();
+    expect(processOrder).not.toHaveBeenCalled();
+  });
+
+  it('rejects a price moved outside the price band', async () => {
+    const result = await orderService.modifyOrder(userId, order._id, { price: 150 });
+
+    expect(result.success).toBe(false);
+    expect(result.violations.map(violation => violation.rule)).toEqual([RULES.PRICE_BAND]);
+    expect(processOrder).not.toHaveBeenCalled();
+  });
+
+  it('matches a modification within the limits again', async () => {
+    const result = await orderService.modifyOrder(userId, order._id, { quantity: 20 });
+
+    expect(result.success).toBe(true);
+    expect(order.remainingQuantity).toBe(20);
+    expect(save).toHaveBeenCalled();
+    expect(processOrder).toHaveBeenCalledWith(order._id);
+  });
+
+  it('checks only what a partly filled order has left to fill', async () => {
+    order.status = 'PARTIALLY_FILLED';
+    order.filledQuantity = 900;
+    order.remainingQuantity = 100;
+    const checkOrder = jest.spyOn(riskEngine, 'checkOrder');
+
+    const result = await orderService.modifyOrder(userId, order._id, { quantity: 1100 });
+
+    expect(checkOrder.mock.calls[0][0]).toMatchObject({ symbol: 'TEST', quantity: 200 });
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+jest.mock('../barService', () => ({
+  liveTimeframes: ['1m', '5m'],
+  lookback: () => 0,
+  getBars: jest.fn(),
+  subscribe: jest.fn()
+}));
+jest.mock('../backtestService', () => ({
+  createStrategyHandler: jest.fn()
+}));
+
+const PaperTradingSession = require('../../models/PaperTradingSession');
+const Strategy = require('../../models/Strategy');
+const Trade = require('../../models/Trade');
+const barService = require('../barService');
+const backtestService = require('../backtestService');
+
+// The service monitors sessions on an interval from the moment it is loaded
+jest.spyOn(global, 'setInterval').mockReturnValue(0);
+const paperTradingService = require('../paperTradingService');
+
+const deferred = () => {
+  let resolve;
+  const promise = new Promise(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+const session = {
+  _id: '64b000000000000000000001',
+  strategyId: '64b000000000000000000002',
+  portfolioId: '64b000000000000000000003',
+  symbol: 'TCS',
+  timeframe: '5m',
+  status: 'RUNNING',
+  startedAt: new Date('2024-01-01'),
+  config: { capital: 100000 }
+};
+
+describe('paper trading session workers', () => {
+  let warmup;
+  let handler;
+
+  beforeEach(() => {
+    paperTradingService.workers.clear();
+    paperTradingService.starting.clear();
+
+    warmup = deferred();
+    handler = { onBar: jest.fn(), stop: jest.fn() };
+    barService.getBars.mockReset().mockReturnValue(warmup.promise);
+    barService.subscribe.mockReset().mockReturnValue(jest.fn());
+    backtestService.createStrategyHandler.mockReset().mockResolvedValue(handler);
+
+    jest.spyOn(Strategy, 'findById').mockReturnValue({
+      populate: () => Promise.resolve({ parameters: {} })
+    });
+    jest.spyOn(Trade, 'find').mockReturnValue({
+      sort: () => ({ lean: () => Promise.resolve([]) })
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shares one startup between concurrent starts', async () => {
+    const first = paperTradingService.startWorker(session);
+    const second = paperTradingService.startWorker(session);
+
+    warmup.resolve([]);
+    await Promise.all([first, second]);
+
+    expect(backtestService.createStrategyHandler).toHaveBeenCalledTimes(1);
+    expect(barService.subscribe).toHaveBeenCalledTimes(1);
+    expect(paperTradingService.workers.size).toBe(1);
+    expect(paperTradingService.starting.size).toBe(0);
+  });
+
+  it('leaves a session that is warming up to the monitor sweep', async () => {
+    jest.spyOn(PaperTradingSession, 'find').mockReturnValue({
+      populate: () => Promise.resolve([session])
+    });
+    const refresh = jest.spyOn(paperTradingService, 'refresh').mockResolvedValue();
+
+    const deploying = paperTradingService.startWorker(session);
+    await paperTradingService.monitorSessions();
+
+    warmup.resolve([]);
+    await deploying;
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(backtestService.createStrategyHandler).toHaveBeenCalledTimes(1);
+    expect(barService.subscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops a worker stopped while warming up', async () => {
+    const starting = paperTradingService.startWorker(session);
+    await paperTradingService.stopWorker(session._id);
+
+    warmup.resolve([]);
+    await starting;
+
+    expect(barService.subscribe).not.toHaveBeenCalled();
+    expect(handler.stop).toHaveBeenCalledTimes(1);
+    expect(paperTradingService.workers.size).toBe(0);
+  });
+
+  it('keeps a worker resumed while its cancelled startup warms up', async () => {
+    const starting = paperTradingService.startWorker(session);
+    await paperTradingService.stopWorker(session._id);
+    const resumed = paperTradingService.startWorker(session);
+
+    warmup.resolve([]);
+    await Promise.all([starting, resumed]);
+
+    expect(backtestService.createStrategyHandler).toHaveBeenCalledTimes(1);
+    expect(barService.subscribe).toHaveBeenCalledTimes(1);
+    expect(paperTradingService.workers.size).toBe(1);
+  });
+});
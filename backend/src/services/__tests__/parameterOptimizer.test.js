@@ -0,0 +1,90 @@
+const ParameterOptimizer = require('../parameterOptimizer');
+const { rangeValues, validateRanges } = ParameterOptimizer;
+
+const ranges = [
+  { key: 'fastPeriod', min: 5, max: 20, step: 5 },
+  { key: 'multiplier', min: 1, max: 2, step: 0.25 }
+];
+
+// A smooth hill with its top at fastPeriod 15, multiplier 1.5
+const hill = async ({ fastPeriod, multiplier }) => -(((fastPeriod - 15) / 5) ** 2) - ((multiplier - 1.5) / 0.25) ** 2;
+
+const key = parameters => `${parameters.fastPeriod}/${parameters.multiplier}`;
+
+describe('parameter optimizer', () => {
+  it('spans a range from min to max without floating point drift', () => {
+    expect(rangeValues({ min: 0.1, max: 0.5, step: 0.1 })).toEqual([0.1, 0.2, 0.3, 0.4, 0.5]);
+    expect(rangeValues({ min: 5, max: 22, step: 5 })).toEqual([5, 10, 15, 20]);
+    expect(rangeValues({ min: 3, max: 3, step: 1 })).toEqual([3]);
+  });
+
+  it('counts the combinations of valid ranges', () => {
+    expect(validateRanges(ranges)).toBe(20);
+  });
+
+  it.each([
+    [[], 'Choose at least one parameter range to optimize'],
+    [[{ min: 1, max: 2, step: 1 }], 'Every optimization range needs a parameter key'],
+    [[ranges[0], ranges[0]], 'Parameter "fastPeriod" is listed more than once'],
+    [[{ key: 'x', min: 1, max: 'ten', step: 1 }], 'Range for "x" needs numeric min, max and step'],
+    [[{ key: 'x', min: 1, max: 2, step: 0 }], 'Step for "x" must be greater than 0'],
+    [[{ key: 'x', min: 3, max: 2, step: 1 }], 'Minimum for "x" must not exceed its maximum']
+  ])('rejects malformed ranges (%#)', (invalid, message) => {
+    expect(() => validateRanges(invalid)).toThrow(message);
+  });
+
+  it('tries every combination once in a grid search', async () => {
+    const optimizer = new ParameterOptimizer({ method: 'GRID', ranges, maxTrials: 3 });
+    const onTrial = jest.fn();
+
+    const { trials, best, cancelled } = await optimizer.run(hill, { onTrial });
+
+    expect(optimizer.trialCount).toBe(20);
+    expect(new Set(trials.map(trial => key(trial.parameters))).size).toBe(20);
+    expect(best.parameters).toEqual({ fastPeriod: 15, multiplier: 1.5 });
+    expect(cancelled).toBe(false);
+    expect(onTrial).toHaveBeenCalledTimes(20);
+    expect(onTrial).toHaveBeenLastCalledWith(trials[19], 19, 20);
+  });
+
+  it.each(['RANDOM', 'BAYESIAN'])('samples distinct combinations within the budget in a %s search', async (method) => {
+    const run = () => new ParameterOptimizer({ method, ranges, maxTrials: 12, seed: 7 }).run(hill);
+
+    const first = await run();
+
+    expect(first.trials).toHaveLength(12);
+    expect(new Set(first.trials.map(trial => key(trial.parameters))).size).toBe(12);
+    // The same seed gives the same trials
+    expect(await run()).toEqual(first);
+  });
+
+  it('never runs more trials than there are combinations', async () => {
+    const optimizer = new ParameterOptimizer({ method: 'RANDOM', ranges: [ranges[0]], maxTrials: 50 });
+
+    const { trials } = await optimizer.run(hill);
+
+    expect(trials.map(trial => trial.parameters.fastPeriod).sort((a, b) => a - b)).toEqual([5, 10, 15, 20]);
+  });
+
+  it('closes in on the top of a smooth objective with the surrogate', async () => {
+    const wide = [
+      { key: 'fastPeriod', min: 5, max: 25, step: 1 },
+      { key: 'multiplier', min: 0.5, max: 2.5, step: 0.05 }
+    ];
+
+    const { best } = await new ParameterOptimizer({ method: 'BAYESIAN', ranges: wide, maxTrials: 30, seed: 3 }).run(hill);
+
+    expect(Math.abs(best.parameters.fastPeriod - 15)).toBeLessThanOrEqual(3);
+    expect(Math.abs(best.parameters.multiplier - 1.5)).toBeLessThanOrEqual(0.5);
+  });
+
+  it('scores failed trials as 0 and stops when cancelled', async () => {
+    let calls = 0;
+    const optimizer = new ParameterOptimizer({ method: 'GRID', ranges });
+
+    const { trials, cancelled } = await optimizer.run(async () => NaN, { shouldCancel: () => ++calls > 3 });
+
+    expect(cancelled).toBe(true);
+    expect(trials.map(trial => trial.value)).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,62 @@
+const PortfolioBacktestEngine = require('../portfolioBacktestEngine');
+const { normalizeSizing } = require('../../utils/positionSizing');
+
+const flatBars = (price, days) => Array.from({ length: days }, (_, index) => ({
+  date: new Date(Date.UTC(2024, 0, 1 + index)),
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume: 1000
+}));
+
+// Buys on the first bar without naming a quantity, so the sizing model decides
+const buyOnce = () => ({
+  onBar(bar, ctx) {
+    if (ctx.barIndex === 0) ctx.buy(undefined, 'entry');
+  }
+});
+
+const run = (sizing, barsBySymbol) => new PortfolioBacktestEngine({
+  symbols: Object.keys(barsBySymbol),
+  initialCapital: 10000,
+  sizing: normalizeSizing(sizing)
+}).run(barsBySymbol, Object.fromEntries(Object.keys(barsBySymbol).map(symbol => [symbol, buyOnce()])));
+
+describe('portfolio backtest engine', () => {
+  it('sizes every symbol from one cash pool', async () => {
+    const { fills, exposures, result } = await run({}, { A: flatBars(100, 3), B: flatBars(50, 3) });
+
+    expect(fills.map(({ symbol, side, quantity, reason }) => ({ symbol, side, quantity, reason }))).toEqual([
+      { symbol: 'A', side: 'BUY', quantity: 50, reason: 'entry' },
+      { symbol: 'B', side: 'BUY', quantity: 100, reason: 'entry' },
+      { symbol: 'A', side: 'SELL', quantity: 50, reason: 'End of backtest' },
+      { symbol: 'B', side: 'SELL', quantity: 100, reason: 'End of backtest' }
+    ]);
+    expect(exposures[1]).toMatchObject({ exposurePercent: 100, bySymbol: { A: 50, B: 50 } });
+    expect(result.summary.finalCapital).toBe(10000);
+  });
+
+  it('caps what a symbol buys at the cash left', async () => {
+    const { fills, signals } = await run(
+      { model: 'FIXED_FRACTIONAL', fractionPercent: 80 },
+      { A: flatBars(100, 3), B: flatBars(50, 3), C: flatBars(10, 3) }
+    );
+
+    expect(fills.filter(fill => fill.side === 'BUY').map(({ symbol, quantity }) => [symbol, quantity])).toEqual([
+      ['A', 80],
+      ['B', 40]
+    ]);
+    expect(signals.find(signal => signal.symbol === 'C' && signal.side === 'BUY').status).toBe('SKIPPED');
+  });
+
+  it('lets a symbol with no bar on a date sit it out', async () => {
+    const { points, fills } = await run({}, { A: flatBars(100, 4), B: flatBars(50, 4).slice(2) });
+
+    expect(points).toHaveLength(4);
+    expect(fills.filter(fill => fill.side === 'BUY').map(fill => [fill.symbol, fill.executedAt.getUTCDate()])).toEqual([
+      ['A', 2],
+      ['B', 4]
+    ]);
+  });
+});
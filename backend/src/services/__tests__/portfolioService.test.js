@@ -0,0 +1,63 @@
+const Portfolio = require('../../models/Portfolio');
+const PortfolioHistory = require('../../models/PortfolioHistory');
+
+// Order and margin monitoring start on an interval when their services load
+jest.spyOn(global, 'setInterval').mockReturnValue(0);
+const portfolioService = require('../portfolioService');
+
+const lean = value => ({ lean: () => Promise.resolve(value) });
+
+describe('portfolio starting capital', () => {
+  let bulkWrite;
+
+  beforeEach(() => {
+    bulkWrite = jest.spyOn(Portfolio, 'bulkWrite').mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('defaults to the capital portfolios have always opened with', () => {
+    const portfolio = new Portfolio({ userId: '64b000000000000000000001' });
+
+    expect(Portfolio.defaultCapital()).toBe(1000000);
+    expect(portfolio.initialCapital).toBe(Portfolio.defaultCapital());
+    expect(portfolio.cashBalance).toBe(Portfolio.defaultCapital());
+  });
+
+  it('backfills portfolios from their opening history entry', async () => {
+    const openedAt = new Date('2024-01-01T10:00:00Z');
+    const portfolios = [
+      { _id: 'opened-with-history', createdAt: openedAt },
+      { _id: 'history-from-later', createdAt: openedAt },
+      { _id: 'no-history', createdAt: openedAt }
+    ];
+    const history = {
+      'opened-with-history': { date: new Date('2024-01-01T10:00:01Z'), totalValue: 100000 },
+      'history-from-later': { date: new Date('2024-03-01T10:00:00Z'), totalValue: 1250000 }
+    };
+
+    const find = jest.spyOn(Portfolio, 'find').mockReturnValue({ select: () => lean(portfolios) });
+    jest.spyOn(PortfolioHistory, 'findOne').mockImplementation(({ portfolioId }) => ({
+      sort: () => ({ select: () => lean(history[portfolioId] || null) })
+    }));
+
+    await expect(portfolioService.backfillInitialCapital()).resolves.toBe(3);
+
+    expect(find).toHaveBeenCalledWith({ initialCapital: { $exists: false } });
+    expect(bulkWrite.mock.calls[0][0].map(({ updateOne }) => [updateOne.filter._id, updateOne.update.$set.initialCapital]))
+      .toEqual([
+        ['opened-with-history', 100000],
+        ['history-from-later', 1000000],
+        ['no-history', 1000000]
+      ]);
+  });
+
+  it('writes nothing when every portfolio has its capital', async () => {
+    jest.spyOn(Portfolio, 'find').mockReturnValue({ select: () => lean([]) });
+
+    await expect(portfolioService.backfillInitialCapital()).resolves.toBe(0);
+    expect(bulkWrite).not.toHaveBeenCalled();
+  });
+});
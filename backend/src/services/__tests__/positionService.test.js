@@ -0,0 +1,94 @@
+const Order = require('../../models/Order');
+const Trade = require('../../models/Trade');
+const Position = require('../../models/Position');
+const tradingCalendarService = require('../tradingCalendarService');
+
+// Order, margin and position monitoring start on an interval when their services load
+jest.spyOn(global, 'setInterval').mockReturnValue(0);
+const positionService = require('../positionService');
+const orderService = require('../orderService');
+
+const userId = '64b000000000000000000001';
+const portfolioId = '64b000000000000000000002';
+
+const openPosition = (fields = {}) => new Position({
+  userId,
+  portfolioId,
+  symbol: 'TEST',
+  side: 'long',
+  quantity: 100,
+  averagePrice: 90,
+  currentPrice: 100,
+  ...fields
+});
+
+describe('closing positions', () => {
+  let position;
+
+  beforeEach(() => {
+    position = openPosition();
+    jest.spyOn(Position, 'findOne').mockResolvedValue(position);
+    jest.spyOn(Position, 'findById').mockResolvedValue(position);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('closes through a market order on the other side', async () => {
+    const order = new Order({ userId, portfolioId, symbol: 'TEST', side: 'SELL', type: 'MARKET', quantity: 40, status: 'FILLED' });
+    const placeOrder = jest.spyOn(orderService, 'placeOrder').mockResolvedValue({ success: true, order });
+
+    const result = await positionService.closePosition(userId, position._id, 40);
+
+    expect(placeOrder).toHaveBeenCalledWith(userId, position.portfolioId, {
+      symbol: 'TEST',
+      side: 'SELL',
+      type: 'MARKET',
+      quantity: 40
+    });
+    expect(result).toEqual({ success: true, order, position });
+  });
+
+  it('buys back the whole of a short position by default', async () => {
+    position.side = 'short';
+    const placeOrder = jest.spyOn(orderService, 'placeOrder').mockResolvedValue({ success: true, order: {} });
+
+    await positionService.closePosition(userId, position._id);
+
+    expect(placeOrder.mock.calls[0][2]).toMatchObject({ side: 'BUY', quantity: 100 });
+  });
+
+  it('is rejected while the market is closed instead of filling at the last price', async () => {
+    jest.spyOn(tradingCalendarService, 'getPhase').mockReturnValue({ phase: 'CLOSED', acceptsOrders: false, matches: false });
+    jest.spyOn(Order.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+    jest.spyOn(orderService, 'broadcastOrderUpdate').mockReturnValue(undefined);
+    const tradeSave = jest.spyOn(Trade.prototype, 'save');
+
+    const result = await positionService.closePosition(userId, position._id);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Market closed');
+    expect(result.order.status).toBe('REJECTED');
+    expect(tradeSave).not.toHaveBeenCalled();
+  });
+
+  it('does not close more than the position holds', async () => {
+    const placeOrder = jest.spyOn(orderService, 'placeOrder');
+
+    expect(await positionService.closePosition(userId, position._id, 101))
+      .toEqual({ success: false, error: 'Close quantity exceeds position size' });
+    expect(placeOrder).not.toHaveBeenCalled();
+  });
+
+  it('leaves a triggered stop loss for the open when the market is closed', async () => {
+    jest.spyOn(tradingCalendarService, 'isMarketOpen').mockReturnValue(false);
+    const closePosition = jest.spyOn(positionService, 'closePosition');
+
+    await positionService.checkRiskManagement(openPosition({ stopLoss: 105 }));
+
+    expect(closePosition).not.toHaveBeenCalled();
+  });
+});
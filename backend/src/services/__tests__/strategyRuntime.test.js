@@ -0,0 +1,102 @@
+const StrategyRuntime = require('../strategyRuntime');
+
+// A strategy that tries one way out of the sandbox on its first bar and logs
+// whether it reached the host's process object
+const attempt = expression => `
+function onBar(bar, ctx) {
+  if (ctx.barIndex > 0) return;
+  let outcome = 'contained';
+  try {
+    const leaked = (${expression});
+    if (leaked && typeof leaked.getBuiltinModule === 'function') outcome = 'escaped';
+  } catch (error) {
+    outcome = 'contained';
+  }
+  ctx.log(outcome);
+}`;
+
+const run = async (expression) => {
+  const { valid, diagnostics, logs } = await StrategyRuntime.validate(attempt(expression));
+  expect(diagnostics).toEqual([]);
+  expect(valid).toBe(true);
+  return logs;
+};
+
+describe('strategy sandbox', () => {
+  it('hides Node globals', async () => {
+    const { logs } = await StrategyRuntime.validate(`
+      function onBar(bar, ctx) {
+        if (ctx.barIndex === 0) ctx.log(typeof process, typeof require, typeof module, typeof globalThis.Buffer);
+      }
+    `);
+
+    expect(logs).toEqual(['undefined undefined undefined undefined']);
+  });
+
+  it.each([
+    ['the global object constructor', "this.constructor.constructor('return process')()"],
+    ['globalThis.constructor', "globalThis.constructor.constructor('return process')()"],
+    ['the global object __proto__', "this.__proto__.constructor.constructor('return process')()"],
+    ['the global object prototype', "Object.getPrototypeOf(globalThis).constructor.constructor('return process')()"],
+    ['the bar', "bar.constructor.constructor('return process')()"],
+    ['ctx', "ctx.constructor.constructor('return process')()"],
+    ['ctx functions', "ctx.buy.constructor('return process')()"],
+    ['indicator functions', "ctx.indicators.sma.constructor('return process')()"]
+  ])('does not reach the host Function through %s', async (name, expression) => {
+    expect(await run(expression)).toEqual(['contained']);
+  });
+
+  it.each([
+    ['ctx order validation', 'ctx.buy(-1)'],
+    ['signal context serialization', '(() => { const context = {}; context.self = context; ctx.buy(1, "loop", context); })()'],
+    ['indicator sources', 'ctx.indicators.sma(5, "nope")'],
+    ['stack overflow', '(function recurse() { return recurse(); })()']
+  ])('does not reach the host Function through errors thrown by %s', async (name, statement) => {
+    const expression = `(() => {
+      try {
+        ${statement};
+      } catch (error) {
+        return error.constructor.constructor('return process')();
+      }
+    })()`;
+
+    expect(await run(expression)).toEqual(['contained']);
+  });
+
+  it('still runs ordinary strategies and their orders', async () => {
+    const runtime = new StrategyRuntime({
+      code: `
+        function onBar(bar, ctx) {
+          if (ctx.barIndex === 1) ctx.buy(10, 'entry', { conditions: [{ description: 'second bar', passed: true }] });
+        }
+      `,
+      symbol: 'TEST'
+    });
+    const orders = [];
+    const ctx = {
+      barIndex: 0,
+      position: { quantity: 0, avgPrice: 0 },
+      cash: 1000,
+      equity: 1000,
+      buy: (quantity, reason, context) => orders.push({ quantity, reason, context }),
+      sell() {},
+      close() {}
+    };
+
+    try {
+      await runtime.start();
+      for (let index = 0; index < 3; index++) {
+        ctx.barIndex = index;
+        await runtime.onBar({ date: new Date(Date.UTC(2024, 0, index + 1)), open: 1, high: 1, low: 1, close: 1, volume: 1 }, ctx);
+      }
+    } finally {
+      await runtime.stop();
+    }
+
+    expect(orders).toEqual([{
+      quantity: 10,
+      reason: 'entry',
+      context: { conditions: [{ description: 'second bar', passed: true }], indicators: {} }
+    }]);
+  });
+});
@@ -0,0 +1,82 @@
+const Strategy = require('../../models/Strategy');
+const StrategyVersion = require('../../models/StrategyVersion');
+const Activity = require('../../models/Activity');
+const strategyVersionService = require('../strategyVersionService');
+
+const userId = '64b000000000000000000001';
+
+describe('strategy version service', () => {
+  let strategy;
+
+  beforeEach(() => {
+    strategy = new Strategy({
+      userId,
+      name: 'Breakout',
+      description: 'Buys new highs',
+      type: 'CODE',
+      code: 'return buy();',
+      parameters: { period: 30 },
+      version: '1.3.0'
+    });
+    jest.spyOn(Strategy, 'findOne').mockResolvedValue(strategy);
+    jest.spyOn(strategy, 'save').mockResolvedValue(strategy);
+    jest.spyOn(StrategyVersion, 'create').mockImplementation(fields => Promise.resolve(fields));
+    jest.spyOn(strategyVersionService, 'getCurrentVersion').mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records a version only when something it trades changed', async () => {
+    const before = { type: 'CODE', code: 'return buy();', parameters: { period: 30 } };
+
+    expect(await strategyVersionService.recordChanges(strategy, before, { authorId: userId })).toBeNull();
+
+    strategy.parameters = { period: 20 };
+    const version = await strategyVersionService.recordChanges(strategy, before, { authorId: userId, bump: 'minor' });
+
+    expect(version).toMatchObject({ version: '1.4.0', message: 'Updated parameters', changes: ['parameters'] });
+    expect(strategy.version).toBe('1.4.0');
+  });
+
+  it('rolls back by restoring an old version as a new one', async () => {
+    jest.spyOn(strategyVersionService, 'findVersion').mockResolvedValue({
+      version: '1.1.0',
+      type: 'CODE',
+      code: 'return sell();',
+      parameters: { period: 20 }
+    });
+    const activity = jest.spyOn(Activity, 'create').mockResolvedValue({});
+
+    const { version } = await strategyVersionService.rollback(userId, strategy._id.toString(), '1.1.0');
+
+    expect(version).toMatchObject({
+      version: '1.3.1',
+      message: 'Rolled back to v1.1.0',
+      restoredFrom: '1.1.0',
+      changes: ['code', 'parameters']
+    });
+    expect(strategy).toMatchObject({ code: 'return sell();', parameters: { period: 20 }, version: '1.3.1' });
+    expect(strategy.save).toHaveBeenCalled();
+    expect(activity.mock.calls[0][0].description).toBe('Rolled Breakout back to v1.1.0 as v1.3.1');
+  });
+
+  it('refuses to roll back to a version the strategy already matches', async () => {
+    jest.spyOn(strategyVersionService, 'findVersion').mockResolvedValue({
+      version: '1.3.0',
+      type: 'CODE',
+      code: 'return buy();',
+      parameters: { period: 30 }
+    });
+
+    await expect(strategyVersionService.rollback(userId, strategy._id.toString(), '1.3.0'))
+      .rejects.toThrow('Strategy already matches version 1.3.0');
+    expect(strategy.save).not.toHaveBeenCalled();
+  });
+
+  it('does not look up a strategy with a malformed id', async () => {
+    await expect(strategyVersionService.getVersions(userId, 'not-an-id')).rejects.toThrow('Strategy not found');
+    expect(Strategy.findOne).not.toHaveBeenCalled();
+  });
+});
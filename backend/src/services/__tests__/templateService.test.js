@@ -0,0 +1,103 @@
+const Strategy = require('../../models/Strategy');
+const StrategyTemplate = require('../../models/StrategyTemplate');
+const Activity = require('../../models/Activity');
+const strategyVersionService = require('../strategyVersionService');
+const templateService = require('../templateService');
+
+const userId = '64b000000000000000000001';
+const authorId = '64b000000000000000000002';
+
+const codeStrategy = (fields = {}) => new Strategy({
+  userId,
+  name: 'Breakout',
+  description: 'Buys new highs',
+  type: 'CODE',
+  code: 'return buy();',
+  parameters: { period: 20, trail: true },
+  version: '1.2.0',
+  ...fields
+});
+
+describe('template service', () => {
+  beforeEach(() => {
+    jest.spyOn(strategyVersionService, 'getCurrentVersion').mockResolvedValue({});
+    jest.spyOn(Activity, 'create').mockResolvedValue({});
+    jest.spyOn(StrategyTemplate, 'updateOne').mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('publishes a strategy with a schema inferred from its parameters', async () => {
+    const strategy = codeStrategy();
+    jest.spyOn(Strategy, 'findOne').mockResolvedValue(strategy);
+    jest.spyOn(StrategyTemplate, 'findOne').mockResolvedValue(null);
+    jest.spyOn(StrategyTemplate.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+
+    const template = await templateService.publishStrategy(userId, strategy._id.toString(), { isPublic: false });
+
+    expect(template).toMatchObject({
+      name: 'Breakout',
+      code: 'return buy();',
+      version: '1.2.0',
+      isPublic: false,
+      defaultParameters: { period: 20, trail: true }
+    });
+    expect(template.parameterSchema.map(param => [param.key, param.type])).toEqual([['period', 'number'], ['trail', 'boolean']]);
+    expect(Activity.create.mock.calls[0][0].description).toBe('Published "Breakout" v1.2.0 as private template "Breakout"');
+  });
+
+  it('does not publish an invalid parameter schema', async () => {
+    jest.spyOn(Strategy, 'findOne').mockResolvedValue(codeStrategy());
+
+    await expect(templateService.publishStrategy(userId, codeStrategy()._id.toString(), {
+      parameterSchema: [{ key: 'period', label: 'Period', type: 'integer' }]
+    })).rejects.toThrow('Invalid parameter schema: parameterSchema[0].type must be one of number, string, boolean, select, range');
+  });
+
+  it('only publishes code and visual strategies', async () => {
+    jest.spyOn(Strategy, 'findOne').mockResolvedValue(codeStrategy({ type: 'TEMPLATE' }));
+
+    await expect(templateService.publishStrategy(userId, codeStrategy()._id.toString(), {}))
+      .rejects.toThrow('Only code and visual strategies can be published as templates');
+  });
+
+  it('does not let authors review their own template', async () => {
+    jest.spyOn(templateService, 'findVisibleTemplate').mockResolvedValue({ _id: 'template', createdBy: userId });
+
+    await expect(templateService.reviewTemplate(userId, 'template', { rating: 5 }))
+      .rejects.toThrow('You cannot review your own template');
+  });
+
+  it('forks a template into an editable strategy that remembers its origin', async () => {
+    const template = new StrategyTemplate({
+      name: 'Mean Reversion',
+      description: 'Fades extremes',
+      code: 'return sell();',
+      defaultParameters: { period: 14 },
+      version: '2.0.1',
+      createdBy: authorId
+    });
+    jest.spyOn(templateService, 'findVisibleTemplate').mockResolvedValue(template);
+    jest.spyOn(Strategy.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+    const recordInitialVersion = jest.spyOn(strategyVersionService, 'recordInitialVersion').mockResolvedValue({});
+
+    const strategy = await templateService.forkTemplate(userId, template._id.toString());
+
+    expect(strategy).toMatchObject({
+      name: 'Mean Reversion (Fork)',
+      type: 'CODE',
+      code: 'return sell();',
+      parameters: { period: 14 },
+      forkedFrom: { templateName: 'Mean Reversion', templateVersion: '2.0.1' }
+    });
+    expect(String(strategy.userId)).toBe(userId);
+    expect(recordInitialVersion).toHaveBeenCalledWith(strategy, userId, 'Forked from template Mean Reversion v2.0.1');
+    expect(StrategyTemplate.updateOne).toHaveBeenCalledWith({ _id: template._id }, { $inc: { forkCount: 1 } });
+  });
+});
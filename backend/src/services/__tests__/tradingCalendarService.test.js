@@ -0,0 +1,93 @@
+const MarketHoliday = require('../../models/MarketHoliday');
+const tradingCalendarService = require('../tradingCalendarService');
+
+// Daily bars stamped at UTC midnight, the convention of imported history
+const dailyBars = (first, count) => Array.from({ length: count }, (_, i) => ({
+  date: new Date(Date.parse(`${first}T00:00:00Z`) + i * 24 * 60 * 60 * 1000)
+}));
+
+const day = (bar) => bar.date.toISOString().slice(0, 10);
+
+describe('trading calendar service', () => {
+  beforeEach(() => {
+    tradingCalendarService.cache({ exchange: 'NSE', date: '2024-03-25', description: 'Holi' });
+    tradingCalendarService.cache({
+      exchange: 'NSE',
+      date: '2024-11-01',
+      description: 'Diwali Laxmi Pujan',
+      specialSession: { open: '18:00', close: '19:00' }
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    tradingCalendarService.holidays.forEach(holidays => holidays.clear());
+  });
+
+  it('drops weekend and holiday bars', () => {
+    const bars = tradingCalendarService.filterTradingDays(dailyBars('2024-03-21', 8));
+
+    expect(bars.map(day)).toEqual(['2024-03-21', '2024-03-22', '2024-03-26', '2024-03-27', '2024-03-28']);
+  });
+
+  it('keeps the bars of a special session and of exchanges without the holiday', () => {
+    expect(tradingCalendarService.filterTradingDays(dailyBars('2024-11-01', 1)).map(day)).toEqual(['2024-11-01']);
+    expect(tradingCalendarService.filterTradingDays(dailyBars('2024-03-25', 1), 'BSE').map(day)).toEqual(['2024-03-25']);
+  });
+
+  it('finds the close of the session on a date or the next one', () => {
+    expect(tradingCalendarService.sessionCloseOn('2024-03-22')).toEqual(new Date('2024-03-22T10:00:00.000Z'));
+    expect(tradingCalendarService.sessionCloseOn('2024-03-23')).toEqual(new Date('2024-03-26T10:00:00.000Z'));
+  });
+
+  it('starts the day at local midnight', () => {
+    // 02:00 IST on the 12th
+    expect(tradingCalendarService.startOfDay(new Date('2024-03-11T20:30:00.000Z')))
+      .toEqual(new Date('2024-03-11T18:30:00.000Z'));
+  });
+
+  it('lists the holidays of a year in date order', () => {
+    tradingCalendarService.cache({ exchange: 'NSE', date: '2024-01-26', description: 'Republic Day' });
+
+    expect(tradingCalendarService.getHolidays('NSE', 2024).map(holiday => holiday.date))
+      .toEqual(['2024-01-26', '2024-03-25', '2024-11-01']);
+    expect(tradingCalendarService.getHolidays('NSE', 2025)).toEqual([]);
+    expect(() => tradingCalendarService.getHolidays('LSE')).toThrow('Unknown exchange "LSE"; use one of NSE, BSE');
+  });
+
+  it('imports valid holiday rows and reports the rest', async () => {
+    const bulkWrite = jest.spyOn(MarketHoliday, 'bulkWrite').mockResolvedValue({});
+    jest.spyOn(tradingCalendarService, 'load').mockResolvedValue();
+
+    const { imported, errors } = await tradingCalendarService.importHolidays([
+      { date: '26-Feb-2025', description: 'Mahashivratri' },
+      { date: '2025-10-21', exchange: 'bse', open: '13:45', close: '14:45' },
+      { date: '2025-13-01' },
+      { date: '2025-05-01', exchange: 'MCX' },
+      { date: '2025-08-15', open: '10:00' }
+    ]);
+
+    expect(imported).toBe(2);
+    expect(errors).toEqual([
+      'Row 3: unparseable date "2025-13-01"',
+      'Row 4: unknown exchange "MCX"',
+      'Row 5: a special session needs both open and close times'
+    ]);
+    expect(bulkWrite.mock.calls[0][0]).toEqual([
+      {
+        updateOne: {
+          filter: { exchange: 'NSE', date: new Date('2025-02-26T00:00:00.000Z') },
+          update: { $set: { description: 'Mahashivratri' }, $unset: { specialSession: '' } },
+          upsert: true
+        }
+      },
+      {
+        updateOne: {
+          filter: { exchange: 'BSE', date: new Date('2025-10-21T00:00:00.000Z') },
+          update: { $set: { description: 'Trading holiday', specialSession: { open: '13:45', close: '14:45' } } },
+          upsert: true
+        }
+      }
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+const { calculatePerformance, round } = require('../utils/performanceMetrics');
+const { createSignal, recordSignalFill, rejectSignal } = require('../utils/signalJournal');
+
+/**
+ * Event-driven backtest engine.
+ *
+ * Bars are replayed in order. Orders a strategy places while handling a bar
+ * are queued and filled at the next bar's open, so signals never trade on the
+ * close they were computed from. Fills pay the configured slippage (percent of
+ * price, against the trader) and a fixed commission per execution. Nothing in
+ * the engine is random: identical bars and configuration give identical results.
+ * Every order is journaled as a signal (see utils/signalJournal) that ends up
+ * filled, skipped or expired.
+ */
+class BacktestEngine {
+  /**
+   * @param {Object} config - Engine configuration
+   * @param {string} config.symbol - Symbol being traded
+   * @param {number} config.initialCapital - Starting cash
+   * @param {number} config.commission - Fixed commission per execution
+   * @param {number} config.slippage - Slippage as a percentage of price
+   * @param {Object} config.parameters - Strategy parameters exposed as ctx.params
+   */
+  constructor({ symbol, initialCapital, commission = 0, slippage = 0, parameters = {} }) {
+    this.symbol = symbol;
+    this.initialCapital = initialCapital;
+    this.commission = commission;
+    this.slippage = slippage;
+    this.parameters = parameters;
+  }
+
+  /**
+   * Replay bars through a strategy handler
+   * @param {Array} bars - Bars sorted by date ({ date, open, high, low, close, volume })
+   * @param {Object} handler - Object with an onBar(bar, ctx) method (may be async)
+   * @param {Object} hooks - Optional { onProgress(percent), shouldCancel(), startIndex }.
+   *   Bars before startIndex only warm up the strategy: they reach onBar but
+   *   orders are discarded and no equity is recorded.
+   * @returns {Promise<Object>} { result, fills, points, roundTrips, signals, cancelled }
+   */
+  async run(bars, handler, hooks = {}) {
+    const { onProgress, shouldCancel, startIndex = 0 } = hooks;
+
+    this.cash = this.initialCapital;
+    this.position = { quantity: 0, avgPrice: 0, entryDate: null, entryCommission: 0 };
+    this.pendingOrders = [];
+    this.fills = [];
+    this.signals = [];
+    this.roundTrips = [];
+    this.points = [];
+    this.totalCommission = 0;
+    this.totalSlippage = 0;
+    this.history = [];
+
+    const progressStep = Math.max(1, Math.floor(bars.length / 10));
+
+    for (let index = 0; index < bars.length; index++) {
+      const bar = bars[index];
+
+      if (index < startIndex) {
+        this.history.push(bar);
+        await handler.onBar(bar, this.createContext(bar, index));
+        this.pendingOrders = [];
+        this.signals = [];
+        continue;
+      }
+
+      this.executePendingOrders(bar);
+      this.history.push(bar);
+      this.points.push({ date: bar.date, equity: this.getEquity(bar.close) });
+
+      await handler.onBar(bar, this.createContext(bar, index));
+
+      if (index % progressStep === 0 && index > 0) {
+        if (shouldCancel && await shouldCancel()) {
+          return { cancelled: true };
+        }
+        if (onProgress) {
+          await onProgress(Math.min(99, Math.round((index / bars.length) * 100)));
+        }
+      }
+    }
+
+    // Liquidate whatever is still open at the final close so P&L is realized
+    const lastBar = bars[bars.length - 1];
+    this.expirePendingOrders();
+    if (lastBar && this.position.quantity > 0) {
+      const signal = this.recordSignal(lastBar, 'SELL', 'ALL', 'End of backtest');
+      this.fill({ side: 'SELL', quantity: this.position.quantity, reason: 'End of backtest', signal }, lastBar.close, lastBar.date);
+      this.points[this.points.length - 1].equity = this.getEquity(lastBar.close);
+    }
+
+    const result = calculatePerformance({
+      points: this.points,
+      roundTrips: this.roundTrips,
+      initialCapital: this.initialCapital,
+      totalCommission: this.totalCommission,
+      totalSlippage: this.totalSlippage
+    });
+
+    return {
+      result,
+      fills: this.fills,
+      points: this.points,
+      roundTrips: this.roundTrips,
+      signals: this.signals,
+      cancelled: false
+    };
+  }
+
+  /**
+   * Build the context object handed to the strategy for one bar
+   */
+  createContext(bar, index) {
+    const engine = this;
+
+    return {
+      symbol: this.symbol,
+      params: this.parameters,
+      barIndex: index,
+      get position() {
+        return {
+          quantity: engine.position.quantity,
+          avgPrice: engine.position.avgPrice,
+          side: engine.position.quantity > 0 ? 'LONG' : 'FLAT'
+        };
+      },
+      get cash() {
+        return engine.cash;
+      },
+      get equity() {
+        return engine.getEquity(bar.close);
+      },
+      history(count) {
+        return count ? engine.history.slice(-count) : engine.history.slice();
+      },
+      buy(quantity, reason, context) {
+        engine.queueOrder(bar, 'BUY', quantity, reason, context);
+      },
+      sell(quantity, reason, context) {
+        engine.queueOrder(bar, 'SELL', quantity, reason, context);
+      },
+      close(reason, context) {
+        engine.queueOrder(bar, 'SELL', 'ALL', reason, context);
+      }
+    };
+  }
+
+  /**
+   * Journal a signal of the strategy and queue its order for the next open
+   */
+  queueOrder(bar, side, quantity, reason, context) {
+    const signal = this.recordSignal(bar, side, quantity, reason, context);
+    this.pendingOrders.push({ side, quantity, reason, signalDate: bar.date, signal });
+  }
+
+  recordSignal(bar, side, quantity, reason, context) {
+    const signal = createSignal({ symbol: this.symbol, side, quantity, reason, context, bar });
+    this.signals.push(signal);
+    return signal;
+  }
+
+  // Orders still queued when the bars run out never reach an open
+  expirePendingOrders() {
+    this.pendingOrders.forEach(order => rejectSignal(order.signal, 'EXPIRED', {
+      source: 'ENGINE',
+      message: 'The backtest ended before the next open'
+    }));
+    this.pendingOrders = [];
+  }
+
+  /**
+   * Fill queued orders at the open of the current bar
+   */
+  executePendingOrders(bar) {
+    const orders = this.pendingOrders;
+    this.pendingOrders = [];
+
+    orders.forEach(order => {
+      if (!this.fill(order, bar.open, bar.date)) {
+        rejectSignal(order.signal, 'SKIPPED', {
+          source: 'ENGINE',
+          message: order.side === 'BUY' ? 'Position size or cash does not cover one share' : 'No position to sell'
+        });
+      }
+    });
+  }
+
+  /**
+   * Execute one order against a reference price
+   */
+  fill(order, referencePrice, date) {
+    const direction = order.side === 'BUY' ? 1 : -1;
+    const price = referencePrice * (1 + direction * this.slippage / 100);
+    let quantity;
+
+    if (order.side === 'BUY') {
+      const affordable = Math.floor((this.cash - this.commission) / price);
+      const sizePercent = Number(this.parameters.positionSizePercent || 100);
+      const target = Math.floor((this.getEquity(referencePrice) * sizePercent / 100) / price);
+      quantity = order.quantity === undefined ? target : Math.floor(order.quantity);
+      quantity = Math.min(quantity, affordable);
+    } else {
+      quantity = order.quantity === 'ALL' || order.quantity === undefined
+        ? this.position.quantity
+        : Math.min(Math.floor(order.quantity), this.position.quantity);
+    }
+
+    if (!quantity || quantity <= 0) {
+      return null;
+    }
+
+    const commission = this.commission;
+    const slippageCost = Math.abs(price - referencePrice) * quantity;
+    let pnl = 0;
+    let pnlPercent = 0;
+
+    if (order.side === 'BUY') {
+      const previousQuantity = this.position.quantity;
+      this.position.avgPrice = (previousQuantity * this.position.avgPrice + quantity * price) / (previousQuantity + quantity);
+      this.position.quantity += quantity;
+      this.position.entryCommission += commission;
+      if (previousQuantity === 0) {
+        this.position.entryDate = date;
+      }
+      this.cash -= quantity * price + commission;
+    } else {
+      const closedShare = quantity / this.position.quantity;
+      const allocatedEntryCommission = this.position.entryCommission * closedShare;
+      const costBasis = this.position.avgPrice * quantity;
+      pnl = (price - this.position.avgPrice) * quantity - commission - allocatedEntryCommission;
+      pnlPercent = costBasis > 0 ? (pnl / costBasis) * 100 : 0;
+
+      this.roundTrips.push({
+        pnl,
+        entryDate: this.position.entryDate,
+        exitDate: date
+      });
+
+      this.cash += quantity * price - commission;
+      this.position.quantity -= quantity;
+      this.position.entryCommission -= allocatedEntryCommission;
+
+      if (this.position.quantity === 0) {
+        this.position = { quantity: 0, avgPrice: 0, entryDate: null, entryCommission: 0 };
+      }
+    }
+
+    this.totalCommission += commission;
+    this.totalSlippage += slippageCost;
+
+    const fill = {
+      symbol: this.symbol,
+      side: order.side,
+      quantity,
+      price: round(price, 4),
+      commission: round(commission, 4),
+      slippage: round(slippageCost, 4),
+      pnl: round(pnl),
+      pnlPercent: round(pnlPercent, 4),
+      reason: order.reason,
+      signalDate: order.signalDate,
+      executedAt: date
+    };
+
+    this.fills.push(fill);
+    if (order.signal) {
+      recordSignalFill(order.signal, fill);
+    }
+    return fill;
+  }
+
+  getEquity(markPrice) {
+    return this.cash + this.position.quantity * markPrice;
+  }
+}
+
+module.exports = BacktestEngine;
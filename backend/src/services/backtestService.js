@@ -1,7 +1,30 @@
 const Backtest = require('../models/Backtest');
 const Strategy = require('../models/Strategy');
+const StrategyVersion = require('../models/StrategyVersion');
+const Trade = require('../models/Trade');
+const StrategySignal = require('../models/StrategySignal');
+const barService = require('./barService');
+const tradingCalendarService = require('./tradingCalendarService');
+const BacktestEngine = require('./backtestEngine');
+const PortfolioBacktestEngine = require('./portfolioBacktestEngine');
+const ParameterOptimizer = require('./parameterOptimizer');
+const StrategyRuntime = require('./strategyRuntime');
+const benchmarkService = require('./benchmarkService');
+const corporateActionService = require('./corporateActionService');
+const strategyVersionService = require('./strategyVersionService');
+const signalJournalService = require('./signalJournalService');
+const { resolveBuiltInStrategy } = require('../utils/builtInStrategies');
+const { createRulesHandler } = require('../utils/strategyRules');
+const { calculatePerformance, mean, round } = require('../utils/performanceMetrics');
+const { buildWalkForwardWindows, walkForwardEfficiency, parameterStability } = require('../utils/walkForward');
+const { normalizeSizing } = require('../utils/positionSizing');
+const { correlationMatrix, returnSeries, buildAttribution } = require('../utils/portfolioAnalytics');
+const { normalizeBenchmark, attachBenchmark } = require('../utils/benchmark');
+const { snapshotStrategy } = require('../utils/strategyVersions');
 const mongoose = require('mongoose');
 
+const MAX_PORTFOLIO_SYMBOLS = 30;
+
 class BacktestService {
   // Get backtests for user with filtering and pagination
   async getBacktests(userId, options = {}) {
@@ -111,6 +134,30 @@ class BacktestService {
       throw new Error('End date cannot be in the future');
     }
 
+    if (backtestData.type === 'OPTIMIZATION' || backtestData.type === 'WALK_FORWARD') {
+      backtestData.optimization = this.prepareOptimization(backtestData.optimization);
+    } else {
+      delete backtestData.optimization;
+    }
+
+    if (backtestData.type === 'WALK_FORWARD') {
+      backtestData.walkForward = this.prepareWalkForward(backtestData.walkForward, startDate, endDate);
+    } else {
+      delete backtestData.walkForward;
+    }
+
+    if (backtestData.type === 'PORTFOLIO') {
+      backtestData.portfolio = this.preparePortfolio(backtestData.portfolio);
+    } else {
+      delete backtestData.portfolio;
+    }
+
+    backtestData.benchmark = normalizeBenchmark(backtestData.benchmark) || undefined;
+
+    const version = await strategyVersionService.getCurrentVersion(strategy, backtestData.userId);
+    backtestData.strategyVersionId = version._id;
+    backtestData.strategyVersion = version.version;
+
     // Create backtest
     const backtest = new Backtest(backtestData);
     await backtest.save();
@@ -163,6 +210,11 @@ class BacktestService {
       userId: new mongoose.Types.ObjectId(userId)
     });
 
+    if (backtest) {
+      await Trade.deleteMany({ backtestId: backtest._id });
+      await StrategySignal.deleteMany({ backtestId: backtest._id });
+    }
+
     return !!backtest;
   }
 
@@ -204,6 +256,16 @@ class BacktestService {
     backtest.completedAt = undefined;
     backtest.result = undefined;
 
+    if (backtest.optimization) {
+      backtest.optimization.trials = [];
+      backtest.optimization.bestParameters = undefined;
+    }
+
+    if (backtest.walkForward) {
+      const { trainDays, testDays, anchored } = backtest.walkForward;
+      backtest.walkForward = { trainDays, testDays, anchored };
+    }
+
     await backtest.save();
     await backtest.populate('strategy', 'name type status');
 
@@ -237,9 +299,48 @@ class BacktestService {
       initialCapital: cloneData.initialCapital || originalBacktest.initialCapital,
       commission: cloneData.commission || originalBacktest.commission,
       slippage: cloneData.slippage || originalBacktest.slippage,
-      tags: cloneData.tags || originalBacktest.tags
+      adjustForCorporateActions: cloneData.adjustForCorporateActions !== undefined
+        ? cloneData.adjustForCorporateActions
+        : originalBacktest.adjustForCorporateActions,
+      tags: cloneData.tags || originalBacktest.tags,
+      type: originalBacktest.type
     };
 
+    if (originalBacktest.optimization) {
+      const { method, objective, ranges, maxTrials, seed } = originalBacktest.optimization.toObject();
+      newBacktestData.optimization = this.prepareOptimization(
+        cloneData.optimization || { method, objective, ranges, maxTrials, seed }
+      );
+    }
+
+    if (originalBacktest.walkForward) {
+      const { trainDays, testDays, anchored } = originalBacktest.walkForward;
+      newBacktestData.walkForward = this.prepareWalkForward(
+        cloneData.walkForward || { trainDays, testDays, anchored },
+        new Date(newBacktestData.startDate),
+        new Date(newBacktestData.endDate)
+      );
+    }
+
+    if (originalBacktest.portfolio) {
+      newBacktestData.portfolio = this.preparePortfolio(
+        cloneData.portfolio || originalBacktest.portfolio.toObject()
+      );
+    }
+
+    const benchmark = cloneData.benchmark !== undefined
+      ? cloneData.benchmark
+      : originalBacktest.benchmark && originalBacktest.benchmark.toObject();
+    newBacktestData.benchmark = normalizeBenchmark(benchmark) || undefined;
+
+    // A copy runs the strategy as it is now, not the version of the original
+    const strategy = await Strategy.findById(originalBacktest.strategyId);
+    if (strategy) {
+      const version = await strategyVersionService.getCurrentVersion(strategy, userId);
+      newBacktestData.strategyVersionId = version._id;
+      newBacktestData.strategyVersion = version.version;
+    }
+
     const clonedBacktest = new Backtest(newBacktestData);
     await clonedBacktest.save();
     await clonedBacktest.populate('strategy', 'name type status');
@@ -252,7 +353,451 @@ class BacktestService {
     return clonedBacktest;
   }
 
-  // Execute backtest (simulation for now)
+  // Get the simulated trades of a backtest
+  async getBacktestTrades(backtestId, userId) {
+    const backtest = await Backtest.findOne({
+      _id: backtestId,
+      userId: new mongoose.Types.ObjectId(userId)
+    }).select('_id');
+
+    if (!backtest) {
+      return null;
+    }
+
+    return await Trade.getTradesForBacktest(backtest._id).lean();
+  }
+
+  // Load daily bars for a symbol as plain OHLCV objects, back-adjusted for
+  // corporate actions unless the backtest opted out
+  async loadBars(symbol, startDate, endDate, adjust = true) {
+    const bars = await barService.getBars(symbol, '1d', startDate, endDate);
+
+    // Snapshots taken on weekends and holidays are not tradable sessions
+    const sessions = tradingCalendarService.filterTradingDays(bars);
+    return adjust ? await corporateActionService.adjustBars(symbol, sessions) : sessions;
+  }
+
+  // Validate an optimization request and keep only its configuration fields
+  prepareOptimization(optimization = {}) {
+    const method = optimization.method || 'GRID';
+    const objective = optimization.objective || 'sharpeRatio';
+    const maxTrials = Number(optimization.maxTrials) || 50;
+
+    if (!ParameterOptimizer.METHODS.includes(method)) {
+      throw new Error(`Unknown optimization method "${method}"`);
+    }
+
+    if (!ParameterOptimizer.OBJECTIVES.includes(objective)) {
+      throw new Error(`Unknown optimization objective "${objective}"`);
+    }
+
+    const ranges = (optimization.ranges || []).map(range => ({
+      key: range.key,
+      label: range.label,
+      min: Number(range.min),
+      max: Number(range.max),
+      step: Number(range.step)
+    }));
+    const combinations = ParameterOptimizer.validateRanges(ranges);
+
+    if (method === 'GRID' && combinations > ParameterOptimizer.MAX_TRIALS) {
+      throw new Error(`Grid search would run ${combinations} backtests; narrow the ranges to at most ${ParameterOptimizer.MAX_TRIALS} combinations or use random or Bayesian search`);
+    }
+
+    if (maxTrials < 1 || maxTrials > ParameterOptimizer.MAX_TRIALS) {
+      throw new Error(`Trial budget must be between 1 and ${ParameterOptimizer.MAX_TRIALS}`);
+    }
+
+    return {
+      method,
+      objective,
+      ranges,
+      maxTrials,
+      seed: Number.isFinite(Number(optimization.seed)) ? Number(optimization.seed) : 1
+    };
+  }
+
+  // Validate walk-forward window settings against the backtest range
+  prepareWalkForward(walkForward = {}, startDate, endDate) {
+    const trainDays = Number(walkForward.trainDays) || 180;
+    const testDays = Number(walkForward.testDays) || 60;
+
+    if (trainDays < 5) {
+      throw new Error('Train windows must be at least 5 days long');
+    }
+
+    if (testDays < 1) {
+      throw new Error('Test windows must be at least 1 day long');
+    }
+
+    const rangeDays = (endDate - startDate) / (1000 * 60 * 60 * 24);
+    if (rangeDays < trainDays + testDays) {
+      throw new Error(`Walk-forward needs at least ${trainDays + testDays} days for one train and one test window`);
+    }
+
+    return {
+      trainDays,
+      testDays,
+      anchored: !!walkForward.anchored
+    };
+  }
+
+  // Validate a portfolio basket and its sizing settings
+  preparePortfolio(portfolio = {}) {
+    const symbols = [...new Set((portfolio.symbols || []).map(symbol => String(symbol).trim().toUpperCase()).filter(Boolean))];
+
+    if (symbols.length < 2) {
+      throw new Error('A portfolio backtest needs at least two symbols');
+    }
+
+    if (symbols.length > MAX_PORTFOLIO_SYMBOLS) {
+      throw new Error(`A portfolio backtest can hold at most ${MAX_PORTFOLIO_SYMBOLS} symbols`);
+    }
+
+    const { model, ...settings } = normalizeSizing({ ...portfolio, model: portfolio.sizingModel });
+
+    return {
+      symbols,
+      sizingModel: model,
+      ...settings
+    };
+  }
+
+  // Build the signal handler for a strategy; CODE strategies and strategies
+  // using a user-published template run their code sandboxed
+  async createStrategyHandler(strategy, symbol, parameters = strategy.parameters || {}) {
+    const userTemplate = strategy.type === 'TEMPLATE' && strategy.template && strategy.template.isBuiltIn === false;
+
+    if (strategy.type === 'CODE' || userTemplate) {
+      if (!strategy.code || !strategy.code.trim()) {
+        throw new Error(`Strategy "${strategy.name}" has no code to run`);
+      }
+
+      const runtime = new StrategyRuntime({
+        code: strategy.code,
+        symbol,
+        parameters
+      });
+      await runtime.start();
+      return runtime;
+    }
+
+    if (strategy.type === 'VISUAL') {
+      if (!strategy.rules || !strategy.rules.entry || strategy.rules.entry.length === 0) {
+        throw new Error(`Strategy "${strategy.name}" has no entry rules to run`);
+      }
+
+      return createRulesHandler(strategy.rules);
+    }
+
+    const builtIn = resolveBuiltInStrategy(strategy);
+
+    if (!builtIn) {
+      throw new Error(`Strategy "${strategy.name}" has no executable signal logic`);
+    }
+
+    return builtIn.create(parameters);
+  }
+
+  // Run one backtest over preloaded bars without persisting anything.
+  // `options` may override the starting capital and set a warm-up startIndex.
+  async evaluateParameters(backtest, strategy, symbol, bars, parameters, options = {}) {
+    const engine = new BacktestEngine({
+      symbol,
+      initialCapital: options.initialCapital || backtest.initialCapital,
+      commission: backtest.commission,
+      slippage: backtest.slippage,
+      parameters
+    });
+    const handler = await this.createStrategyHandler(strategy, symbol, parameters);
+
+    try {
+      return await engine.run(bars, handler, { startIndex: options.startIndex });
+    } finally {
+      if (handler.stop) {
+        await handler.stop();
+      }
+    }
+  }
+
+  // Headline metrics of one run, as stored on optimization trials and walk-forward windows
+  summarizeRun({ summary, riskMetrics }) {
+    return {
+      totalReturnPercent: summary.totalReturnPercent,
+      annualizedReturn: summary.annualizedReturn,
+      sharpeRatio: summary.sharpeRatio,
+      calmarRatio: riskMetrics.calmarRatio,
+      maxDrawdownPercent: summary.maxDrawdownPercent,
+      winRate: summary.winRate,
+      totalTrades: summary.totalTrades
+    };
+  }
+
+  // Search the optimization ranges over the given bars.
+  // Resolves with { trials, best, cancelled }; trials carry their metrics.
+  async searchParameters(backtest, strategy, symbol, bars, hooks = {}) {
+    const { method, objective, ranges, maxTrials, seed } = backtest.optimization;
+    const optimizer = new ParameterOptimizer({ method, ranges, maxTrials, seed });
+    const baseParameters = strategy.parameters || {};
+    const trials = [];
+
+    const { cancelled } = await optimizer.run(async (values) => {
+      const parameters = { ...baseParameters, ...values };
+      const { result } = await this.evaluateParameters(backtest, strategy, symbol, bars, parameters);
+      const trial = { parameters: values, ...this.summarizeRun(result) };
+      trial.objectiveValue = trial[objective];
+      trials.push(trial);
+      return trial.objectiveValue;
+    }, {
+      shouldCancel: hooks.isCancelled,
+      onTrial: hooks.onTrial && ((trial, index, total) => hooks.onTrial(trials, index, total))
+    });
+
+    const best = trials.reduce((top, trial) => (!top || trial.objectiveValue > top.objectiveValue ? trial : top), null);
+
+    return { trials, best, cancelled };
+  }
+
+  // Search the optimization ranges and record every trial on the backtest.
+  // Resolves with the best parameter set, or null when cancelled.
+  async optimizeParameters(backtest, strategy, symbol, bars, isCancelled) {
+    const { trials, best, cancelled } = await this.searchParameters(backtest, strategy, symbol, bars, {
+      isCancelled,
+      onTrial: async (trialsSoFar, index, total) => {
+        // Leave the last slice of progress for re-running the winner
+        const progress = Math.min(95, Math.round(((index + 1) / total) * 95));
+        if (progress > backtest.progress || index === total - 1) {
+          backtest.progress = progress;
+          backtest.optimization.trials = trialsSoFar;
+          await backtest.save();
+        }
+      }
+    });
+
+    if (cancelled || !best) {
+      return null;
+    }
+
+    backtest.optimization.trials = trials;
+    backtest.optimization.bestParameters = best.parameters;
+    await backtest.save();
+
+    return { ...(strategy.parameters || {}), ...best.parameters };
+  }
+
+  // Re-optimize on every train window, trade the winner on the following test
+  // window and stitch the test windows into one out-of-sample run.
+  // Resolves with { result, fills, signals }, or null when cancelled.
+  async runWalkForward(backtest, strategy, symbol, bars, isCancelled) {
+    const { trainDays, testDays, anchored } = backtest.walkForward;
+    const windows = buildWalkForwardWindows(bars, { trainDays, testDays, anchored });
+
+    if (windows.length === 0) {
+      throw new Error('Not enough historical data for one train and one test window');
+    }
+
+    const baseParameters = strategy.parameters || {};
+    const fills = [];
+    const signals = [];
+    const points = [];
+    const roundTrips = [];
+    const records = [];
+    let capital = backtest.initialCapital;
+    let totalCommission = 0;
+    let totalSlippage = 0;
+
+    for (const [index, window] of windows.entries()) {
+      const trainBars = bars.slice(window.trainStart, window.testStart);
+      if (trainBars.length < 2) {
+        throw new Error(`Train window ${index + 1} has fewer than 2 bars of data`);
+      }
+
+      const { best, cancelled } = await this.searchParameters(backtest, strategy, symbol, trainBars, {
+        isCancelled,
+        onTrial: async (trials, trialIndex, total) => {
+          const progress = Math.min(95, Math.round(((index + (trialIndex + 1) / total) / windows.length) * 95));
+          if (progress > backtest.progress) {
+            await backtest.updateProgress(progress);
+          }
+        }
+      });
+
+      if (cancelled || !best) {
+        return null;
+      }
+
+      // Train bars warm up the indicators; only the test window trades
+      const run = await this.evaluateParameters(
+        backtest,
+        strategy,
+        symbol,
+        bars.slice(window.trainStart, window.testEnd),
+        { ...baseParameters, ...best.parameters },
+        { initialCapital: capital, startIndex: window.testStart - window.trainStart }
+      );
+
+      capital = run.points.length > 0 ? run.points[run.points.length - 1].equity : capital;
+      fills.push(...run.fills);
+      signals.push(...run.signals);
+      points.push(...run.points);
+      roundTrips.push(...run.roundTrips);
+      totalCommission += run.result.summary.totalCommission;
+      totalSlippage += run.result.summary.totalSlippage;
+
+      records.push({
+        trainStart: bars[window.trainStart].date,
+        trainEnd: bars[window.testStart - 1].date,
+        testStart: bars[window.testStart].date,
+        testEnd: bars[window.testEnd - 1].date,
+        parameters: best.parameters,
+        inSample: this.summarizeRun({ summary: best, riskMetrics: best }),
+        outOfSample: this.summarizeRun(run.result)
+      });
+    }
+
+    const result = calculatePerformance({
+      points,
+      roundTrips,
+      initialCapital: backtest.initialCapital,
+      totalCommission,
+      totalSlippage
+    });
+
+    const inSampleAverage = (field) => round(mean(records.map(record => record.inSample[field])));
+    const outOfSample = this.summarizeRun(result);
+    const stability = parameterStability(records.map(record => record.parameters), backtest.optimization.ranges);
+
+    backtest.walkForward.windows = records;
+    backtest.walkForward.inSample = {
+      totalReturnPercent: inSampleAverage('totalReturnPercent'),
+      annualizedReturn: inSampleAverage('annualizedReturn'),
+      sharpeRatio: inSampleAverage('sharpeRatio'),
+      calmarRatio: inSampleAverage('calmarRatio'),
+      maxDrawdownPercent: inSampleAverage('maxDrawdownPercent'),
+      winRate: round(mean(records.map(record => record.inSample.winRate)), 4),
+      totalTrades: records.reduce((sum, record) => sum + record.inSample.totalTrades, 0)
+    };
+    backtest.walkForward.outOfSample = outOfSample;
+    backtest.walkForward.efficiency = walkForwardEfficiency(
+      outOfSample.annualizedReturn,
+      records.map(record => record.inSample.annualizedReturn)
+    );
+    backtest.walkForward.stabilityScore = stability.score;
+    backtest.walkForward.parameterStability = stability.parameters;
+    await backtest.save();
+
+    return { result, fills, signals };
+  }
+
+  // Run the strategy over every symbol in the basket from one cash pool and
+  // attach attribution, exposure and correlation analytics to the result.
+  // Resolves with the engine run ({ result, fills, signals, cancelled }).
+  async runPortfolio(backtest, strategy, isCancelled) {
+    const { symbols, sizingModel, ...settings } = backtest.portfolio.toObject();
+    const barsBySymbol = {};
+
+    for (const symbol of symbols) {
+      const bars = await this.loadBars(symbol, backtest.startDate, backtest.endDate, backtest.adjustForCorporateActions);
+      if (bars.length < 2) {
+        throw new Error(`Not enough historical data for ${symbol} in the selected date range`);
+      }
+      barsBySymbol[symbol] = bars;
+    }
+
+    const parameters = strategy.parameters || {};
+    const handlers = {};
+
+    try {
+      for (const symbol of symbols) {
+        handlers[symbol] = await this.createStrategyHandler(strategy, symbol, { ...parameters, symbol });
+      }
+
+      const engine = new PortfolioBacktestEngine({
+        symbols,
+        initialCapital: backtest.initialCapital,
+        commission: backtest.commission,
+        slippage: backtest.slippage,
+        parameters,
+        sizing: normalizeSizing({ ...settings, model: sizingModel })
+      });
+
+      const run = await engine.run(barsBySymbol, handlers, {
+        onProgress: progress => backtest.updateProgress(progress),
+        shouldCancel: isCancelled
+      });
+
+      if (run.cancelled) {
+        return run;
+      }
+
+      run.result.attribution = buildAttribution(symbols, run.roundTrips, run.exposures, backtest.initialCapital);
+      run.result.exposureCurve = run.exposures;
+      run.result.correlations = {
+        symbols,
+        returns: correlationMatrix(symbols, returnSeries(barsBySymbol)).values,
+        pnl: correlationMatrix(symbols, run.pnlSeries).values
+      };
+
+      return run;
+    } finally {
+      for (const handler of Object.values(handlers)) {
+        if (handler.stop) {
+          await handler.stop();
+        }
+      }
+    }
+  }
+
+  // Run a single, optimization or walk-forward job on the strategy's own symbol.
+  // Resolves with the engine run, or null when an optimization was cancelled.
+  async runSingleSymbol(backtest, strategy, isCancelled) {
+    const symbol = strategy.parameters && strategy.parameters.symbol;
+    if (!symbol) {
+      throw new Error('Strategy has no symbol parameter to backtest');
+    }
+
+    const bars = await this.loadBars(symbol, backtest.startDate, backtest.endDate, backtest.adjustForCorporateActions);
+    if (bars.length < 2) {
+      throw new Error(`Not enough historical data for ${symbol.toUpperCase()} in the selected date range`);
+    }
+
+    if (backtest.type === 'WALK_FORWARD') {
+      return await this.runWalkForward(backtest, strategy, symbol.toUpperCase(), bars, isCancelled);
+    }
+
+    let parameters = strategy.parameters || {};
+
+    // Optimization jobs search first, then run the winning set like a normal backtest
+    if (backtest.type === 'OPTIMIZATION') {
+      parameters = await this.optimizeParameters(backtest, strategy, symbol.toUpperCase(), bars, isCancelled);
+      if (!parameters) {
+        return null;
+      }
+    }
+
+    const engine = new BacktestEngine({
+      symbol: symbol.toUpperCase(),
+      initialCapital: backtest.initialCapital,
+      commission: backtest.commission,
+      slippage: backtest.slippage,
+      parameters
+    });
+
+    const handler = await this.createStrategyHandler(strategy, symbol.toUpperCase(), parameters);
+
+    try {
+      return await engine.run(bars, handler, {
+        onProgress: backtest.type === 'OPTIMIZATION' ? undefined : progress => backtest.updateProgress(progress),
+        shouldCancel: isCancelled
+      });
+    } finally {
+      if (handler.stop) {
+        await handler.stop();
+      }
+    }
+  }
+
+  // Execute backtest by replaying historical bars through the strategy
   async executeBacktest(backtestId) {
     try {
       const backtest = await Backtest.findById(backtestId);
@@ -263,28 +808,66 @@ class BacktestService {
       // Start the backtest
       await backtest.start();
 
-      // Simulate backtest execution with progress updates
-      const totalSteps = 10;
-      for (let step = 1; step <= totalSteps; step++) {
-        // Check if backtest was cancelled
-        const currentBacktest = await Backtest.findById(backtestId);
-        if (currentBacktest.status === 'CANCELLED') {
-          return;
+      const current = await Strategy.findById(backtest.strategyId).populate('template', 'name isBuiltIn');
+      if (!current) {
+        throw new Error('Strategy not found');
+      }
+
+      // Run the version recorded on the backtest, even if the strategy was edited since
+      let strategy = current;
+      if (backtest.strategyVersionId) {
+        const version = await StrategyVersion.findById(backtest.strategyVersionId);
+        if (!version) {
+          throw new Error(`Strategy version ${backtest.strategyVersion} not found`);
         }
+        strategy = { ...current.toObject(), ...snapshotStrategy(version) };
+      }
+
+      const isCancelled = async () => {
+        const current = await Backtest.findById(backtestId).select('status').lean();
+        return !current || current.status === 'CANCELLED';
+      };
 
-        // Simulate processing time
-        await new Promise(resolve => setTimeout(resolve, 2000 + Math.random() * 3000));
+      const run = backtest.type === 'PORTFOLIO'
+        ? await this.runPortfolio(backtest, strategy, isCancelled)
+        : await this.runSingleSymbol(backtest, strategy, isCancelled);
 
-        // Update progress
-        const progress = Math.round((step / totalSteps) * 100);
-        await backtest.updateProgress(progress);
+      if (!run || run.cancelled) {
+        return;
+      }
+
+      const { result, fills, signals } = run;
+
+      if (backtest.benchmark) {
+        const benchmark = normalizeBenchmark(backtest.benchmark.toObject());
+        const series = await benchmarkService.getSeries(benchmark, backtest.startDate, backtest.endDate);
+        attachBenchmark(result, series, benchmark);
       }
 
-      // Generate mock results
-      const mockResult = this.generateMockResults(backtest);
-      
+      // Replace trades from any previous run of this backtest
+      await Trade.deleteMany({ backtestId: backtest._id });
+      const trades = await Trade.insertMany(fills.map(fill => ({
+        userId: backtest.userId,
+        backtestId: backtest._id,
+        strategyId: backtest.strategyId,
+        symbol: fill.symbol,
+        side: fill.side,
+        quantity: fill.quantity,
+        price: fill.price,
+        commission: fill.commission,
+        pnl: fill.pnl,
+        pnlPercent: fill.pnlPercent,
+        executedAt: fill.executedAt,
+        notes: fill.reason,
+        tags: ['backtest']
+      })));
+      await signalJournalService.recordBacktestSignals(backtest, signals, fills, trades);
+
       // Complete the backtest
-      await backtest.complete(mockResult);
+      await backtest.complete({
+        ...result,
+        trades: trades.map(trade => trade._id)
+      });
 
     } catch (error) {
       console.error('Backtest execution error:', error);
@@ -294,81 +877,6 @@ class BacktestService {
       }
     }
   }
-
-  // Generate mock backtest results
-  generateMockResults(backtest) {
-    const daysBetween = Math.ceil((backtest.endDate - backtest.startDate) / (1000 * 60 * 60 * 24));
-    const totalReturn = (Math.random() - 0.3) * 0.5; // -30% to +20% range
-    const finalCapital = backtest.initialCapital * (1 + totalReturn);
-    
-    // Generate equity curve
-    const equityCurve = [];
-    let currentEquity = backtest.initialCapital;
-    const dailyReturn = totalReturn / daysBetween;
-    
-    for (let i = 0; i <= daysBetween; i += Math.max(1, Math.floor(daysBetween / 100))) {
-      const date = new Date(backtest.startDate);
-      date.setDate(date.getDate() + i);
-      
-      const randomFactor = 1 + (Math.random() - 0.5) * 0.02; // ±1% daily variation
-      currentEquity *= (1 + dailyReturn * randomFactor);
-      
-      equityCurve.push({
-        date: date.toISOString(),
-        equity: Math.round(currentEquity * 100) / 100,
-        drawdown: 0, // Simplified
-        returns: dailyReturn * randomFactor
-      });
-    }
-
-    // Generate summary metrics
-    const totalTrades = Math.floor(Math.random() * 100) + 20;
-    const winRate = 0.4 + Math.random() * 0.3; // 40-70%
-    const winningTrades = Math.floor(totalTrades * winRate);
-    const losingTrades = totalTrades - winningTrades;
-
-    return {
-      summary: {
-        totalReturn: Math.round((finalCapital - backtest.initialCapital) * 100) / 100,
-        totalReturnPercent: Math.round(totalReturn * 10000) / 100,
-        annualizedReturn: Math.round(totalReturn * (365 / daysBetween) * 10000) / 100,
-        sharpeRatio: Math.round((0.5 + Math.random() * 2) * 100) / 100,
-        sortinoRatio: Math.round((0.6 + Math.random() * 2.5) * 100) / 100,
-        maxDrawdown: Math.round(Math.random() * backtest.initialCapital * 0.3 * 100) / 100,
-        maxDrawdownPercent: Math.round(Math.random() * 30 * 100) / 100,
-        maxDrawdownDuration: Math.floor(Math.random() * 30) + 1,
-        volatility: Math.round((0.1 + Math.random() * 0.4) * 10000) / 100,
-        winRate: Math.round(winRate * 10000) / 100,
-        profitFactor: Math.round((1 + Math.random() * 2) * 100) / 100,
-        totalTrades,
-        winningTrades,
-        losingTrades,
-        avgWin: Math.round((100 + Math.random() * 500) * 100) / 100,
-        avgLoss: Math.round((50 + Math.random() * 200) * 100) / 100,
-        largestWin: Math.round((500 + Math.random() * 2000) * 100) / 100,
-        largestLoss: Math.round((200 + Math.random() * 1000) * 100) / 100,
-        avgTradeDuration: Math.round((1 + Math.random() * 10) * 100) / 100,
-        finalCapital: Math.round(finalCapital * 100) / 100,
-        totalCommission: Math.round(totalTrades * backtest.commission * 100) / 100,
-        totalSlippage: Math.round(totalTrades * backtest.slippage * 100) / 100
-      },
-      equityCurve,
-      drawdownCurve: [], // Simplified for now
-      trades: [], // Would contain trade IDs
-      monthlyReturns: [], // Simplified for now
-      riskMetrics: {
-        var95: Math.round(Math.random() * 1000 * 100) / 100,
-        var99: Math.round(Math.random() * 1500 * 100) / 100,
-        cvar95: Math.round(Math.random() * 1200 * 100) / 100,
-        cvar99: Math.round(Math.random() * 1800 * 100) / 100,
-        beta: Math.round((0.5 + Math.random()) * 100) / 100,
-        alpha: Math.round((Math.random() - 0.5) * 0.1 * 10000) / 100,
-        informationRatio: Math.round((Math.random() - 0.5) * 2 * 100) / 100,
-        calmarRatio: Math.round((0.5 + Math.random() * 2) * 100) / 100,
-        sterlingRatio: Math.round((0.4 + Math.random() * 1.8) * 100) / 100
-      }
-    };
-  }
 }
 
 module.exports = new BacktestService();
\ No newline at end of file
@@ -0,0 +1,235 @@
+const EventEmitter = require('events');
+const MarketData = require('../models/MarketData');
+const { broadcastMarketBars } = require('./websocketService');
+const tradingCalendarService = require('./tradingCalendarService');
+const {
+  TIMEFRAMES,
+  NSE_SESSION,
+  isIntraday,
+  bucketStart,
+  mergeBar,
+  aggregateBars,
+  sourceIntervals
+} = require('../utils/barAggregation');
+const { INTERVAL_MS } = require('../utils/ohlcvValidation');
+const { round } = require('../utils/performanceMetrics');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Minutes in one trading session, used to size lookback windows
+const SESSION_MINUTES = NSE_SESSION.closeMinute - NSE_SESSION.openMinute;
+
+// Timeframes maintained live from ticks; 1m bars are persisted as they close
+const LIVE_TIMEFRAMES = ['1m', '5m', '15m', '1h', '1d', '1w'];
+
+/**
+ * The single source of OHLC bars. Historical requests read stored bars
+ * (imported files first, then bars built from live ticks) and aggregate
+ * finer intervals when the requested timeframe is not stored. Live ticks
+ * are rolled into in-progress bars that are streamed over the websocket
+ * and emitted to in-process subscribers such as strategy sessions.
+ */
+class BarService extends EventEmitter {
+  constructor() {
+    super();
+    this.setMaxListeners(0);
+    this.session = NSE_SESSION;
+    this.liveTimeframes = LIVE_TIMEFRAMES;
+    this.liveBars = new Map(); // symbol -> { timeframe -> in-progress bar }
+    this.lastVolume = new Map(); // symbol -> cumulative volume at the last tick
+  }
+
+  /**
+   * Bars of a symbol between two dates
+   * @param {string} symbol - Symbol
+   * @param {string} timeframe - One of TIMEFRAMES
+   * @param {Date} startDate - First bar time (inclusive)
+   * @param {Date} endDate - Last bar time (inclusive)
+   * @param {Object} options - { includePartial } to append the in-progress live bar
+   * @returns {Promise<Object[]>} Bars { date, open, high, low, close, volume } in date order
+   */
+  async getBars(symbol, timeframe, startDate, endDate, { includePartial = false } = {}) {
+    if (!TIMEFRAMES.includes(timeframe)) {
+      throw new Error(`Unsupported timeframe "${timeframe}"; use one of ${TIMEFRAMES.join(', ')}`);
+    }
+
+    symbol = symbol.toUpperCase();
+    const range = { $gte: new Date(startDate), $lte: new Date(endDate) };
+
+    let bars = await this.loadStored(symbol, timeframe, range);
+
+    if (bars.length === 0) {
+      for (const interval of sourceIntervals(timeframe)) {
+        const finer = await this.loadStored(symbol, interval, range);
+        if (finer.length > 0) {
+          bars = aggregateBars(finer, timeframe, { sourceInterval: interval, session: this.session });
+          break;
+        }
+      }
+    }
+
+    // Before any bars were stored, daily history falls back to the live snapshots
+    if (bars.length === 0 && timeframe === '1d') {
+      const snapshots = await MarketData.find({ symbol, timestamp: range })
+        .live()
+        .sort({ timestamp: 1 })
+        .lean();
+      bars = snapshots.map(toBar);
+    }
+
+    if (includePartial) {
+      const partial = this.liveBars.get(symbol)?.[timeframe];
+      if (partial && partial.date >= range.$gte && partial.date <= range.$lte) {
+        const last = bars[bars.length - 1];
+        if (last && last.date.getTime() === partial.date.getTime()) {
+          bars[bars.length - 1] = { ...partial };
+        } else if (!last || last.date < partial.date) {
+          bars.push({ ...partial });
+        }
+      }
+    }
+
+    return bars;
+  }
+
+  /**
+   * The most recent bars of a symbol, for charts
+   * @param {string} symbol - Symbol
+   * @param {string} timeframe - One of TIMEFRAMES
+   * @param {number} count - Number of bars
+   * @returns {Promise<Object[]>} Up to count bars, including the in-progress one
+   */
+  async getRecentBars(symbol, timeframe, count = 100) {
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - this.lookback(timeframe, count));
+    const bars = await this.getBars(symbol, timeframe, startDate, endDate, { includePartial: true });
+    return bars.slice(-count);
+  }
+
+  // Calendar time that holds roughly `count` bars, allowing for nights, weekends and holidays
+  lookback(timeframe, count) {
+    if (isIntraday(timeframe)) {
+      const barsPerSession = Math.max(1, Math.floor(SESSION_MINUTES * 60 * 1000 / INTERVAL_MS[timeframe]));
+      return (Math.ceil(count / barsPerSession) * 1.5 + 4) * DAY;
+    }
+    return (count * INTERVAL_MS[timeframe] / DAY * 1.5 + 7) * DAY;
+  }
+
+  // Stored bars of one interval; imported history wins over bars built from ticks
+  async loadStored(symbol, interval, range) {
+    for (const source of MarketData.BAR_SOURCES) {
+      const docs = await MarketData.find({ symbol, interval, source, timestamp: range })
+        .sort({ timestamp: 1 })
+        .lean();
+      if (docs.length > 0) {
+        return docs.map(toBar);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Roll a live price update into the in-progress bars of every live
+   * timeframe, persist 1m bars as they close and stream the changes
+   * @param {Object} tick - { symbol, price, volume (cumulative), timestamp }
+   */
+  async onTick({ symbol, price, volume, timestamp = new Date() }) {
+    const time = new Date(timestamp);
+
+    // Ticks outside continuous trading, including holidays, do not belong to any bar
+    if (!tradingCalendarService.isMarketOpen(time) || !bucketStart(time, '1m', this.session)) {
+      return;
+    }
+
+    // Quotes carry the cumulative session volume; bars need the traded amount
+    const previousVolume = this.lastVolume.get(symbol);
+    const traded = previousVolume !== undefined && volume >= previousVolume ? volume - previousVolume : 0;
+    this.lastVolume.set(symbol, volume);
+
+    if (!this.liveBars.has(symbol)) {
+      this.liveBars.set(symbol, {});
+    }
+    const bars = this.liveBars.get(symbol);
+    const update = { open: price, high: price, low: price, close: price, volume: traded };
+    const closed = {};
+
+    LIVE_TIMEFRAMES.forEach(timeframe => {
+      const start = bucketStart(time, timeframe, this.session);
+      const current = bars[timeframe];
+
+      if (current && current.date.getTime() !== start.getTime()) {
+        closed[timeframe] = current;
+        bars[timeframe] = null;
+      }
+      bars[timeframe] = mergeBar(bars[timeframe], start, update);
+    });
+
+    if (closed['1m']) {
+      await this.saveBar(symbol, '1m', closed['1m']);
+    }
+
+    Object.entries(closed).forEach(([timeframe, bar]) => {
+      this.emit('bar', { symbol, timeframe, bar });
+    });
+
+    broadcastMarketBars(symbol, {
+      symbol,
+      bars: Object.fromEntries(LIVE_TIMEFRAMES.map(timeframe => [timeframe, bars[timeframe]])),
+      closed: Object.keys(closed)
+    });
+  }
+
+  /**
+   * Listen for completed bars of a symbol
+   * @param {string} symbol - Symbol
+   * @param {string} timeframe - One of the live timeframes
+   * @param {Function} listener - Called with each completed bar
+   * @returns {Function} Unsubscribe function
+   */
+  subscribe(symbol, timeframe, listener) {
+    const handler = (event) => {
+      if (event.symbol === symbol.toUpperCase() && event.timeframe === timeframe) {
+        listener(event.bar);
+      }
+    };
+
+    this.on('bar', handler);
+    return () => this.off('bar', handler);
+  }
+
+  // Upsert a completed bar built from ticks
+  async saveBar(symbol, interval, bar) {
+    try {
+      await MarketData.updateOne(
+        { symbol, interval, source: 'BAR', timestamp: bar.date },
+        {
+          $set: {
+            price: round(bar.close),
+            open: round(bar.open),
+            high: round(bar.high),
+            low: round(bar.low),
+            previousClose: round(bar.open),
+            volume: bar.volume,
+            lastTradeTime: bar.date,
+            isMarketOpen: false
+          }
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.error(`Error saving ${interval} bar for ${symbol}:`, error);
+    }
+  }
+}
+
+// Stored MarketData document as a plain bar
+const toBar = (doc) => ({
+  date: doc.timestamp,
+  open: doc.open,
+  high: doc.high,
+  low: doc.low,
+  close: doc.price,
+  volume: doc.volume || 0
+});
+
+module.exports = new BarService();
@@ -0,0 +1,38 @@
+const MarketData = require('../models/MarketData');
+const barService = require('./barService');
+const corporateActionService = require('./corporateActionService');
+const { buildIndexSeries, symbolSeries } = require('../utils/benchmark');
+
+class BenchmarkService {
+  /**
+   * Load a benchmark series for a date range
+   * @param {Object} benchmark - Normalized benchmark ({ type, symbol })
+   * @param {Date} startDate - First date
+   * @param {Date} endDate - Last date
+   * @returns {Promise<Array<{date: Date, value: number}>>} Benchmark levels in date order
+   */
+  async getSeries(benchmark, startDate, endDate) {
+    if (benchmark.type === 'SYMBOL') {
+      return symbolSeries(await this.loadCloses(benchmark.symbol, startDate, endDate));
+    }
+
+    // The index proxy covers every symbol with local history in the range
+    const symbols = await MarketData.distinct('symbol', {
+      timestamp: { $gte: new Date(startDate), $lte: new Date(endDate) }
+    });
+
+    const barsBySymbol = {};
+    for (const symbol of symbols) {
+      barsBySymbol[symbol] = await this.loadCloses(symbol, startDate, endDate);
+    }
+
+    return buildIndexSeries(barsBySymbol);
+  }
+
+  // Daily closes of one symbol, adjusted for corporate actions
+  async loadCloses(symbol, startDate, endDate) {
+    return await corporateActionService.adjustBars(symbol, await barService.getBars(symbol, '1d', startDate, endDate));
+  }
+}
+
+module.exports = new BenchmarkService();
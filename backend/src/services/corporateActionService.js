@@ -0,0 +1,298 @@
+const EventEmitter = require('events');
+const moment = require('moment');
+const CorporateAction = require('../models/CorporateAction');
+const Position = require('../models/Position');
+const Portfolio = require('../models/Portfolio');
+const Activity = require('../models/Activity');
+const MarketData = require('../models/MarketData');
+const tradingCalendarService = require('./tradingCalendarService');
+const { shareFactor, adjustPosition, dividendAmount, adjustBars } = require('../utils/corporateActions');
+
+const ACTION_DATE_FORMATS = ['YYYY-MM-DD', 'DD-MMM-YYYY', 'DD-MM-YYYY', 'DD/MM/YYYY', 'MMMM D, YYYY'];
+
+// How often due actions are looked for
+const PROCESS_INTERVAL_MS = 10 * 60 * 1000;
+
+// Imported history shows a vendor adjustment on the sessions just before an ex-date
+const VENDOR_ADJUSTMENT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const formatAmount = (value) => `₹${Number(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const ratio = (action) => `${action.existingShares}:${action.newShares}`;
+
+/**
+ * Corporate actions: splits, bonus issues and dividends. On the ex-date
+ * open positions in the symbol are adjusted (quantity and average price for
+ * splits and bonuses, cash for dividends) and every adjustment is recorded
+ * as an Activity. 'applied' is emitted for each action so open orders can
+ * be dealt with. Backtests read price history back-adjusted for the actions
+ * through adjustBars. The arithmetic lives in utils/corporateActions.js.
+ */
+class CorporateActionService extends EventEmitter {
+  constructor() {
+    super();
+
+    // Start corporate action processing
+    this.startProcessing();
+  }
+
+  /**
+   * Stored corporate actions
+   * @param {Object} filter - { symbol, type, from, to }
+   * @returns {Promise<Object[]>} Actions by ex-date
+   */
+  async getActions({ symbol, type, from, to } = {}) {
+    const query = {};
+    if (symbol) query.symbol = symbol.toUpperCase();
+    if (type) query.type = type;
+    if (from || to) {
+      query.exDate = {};
+      if (from) query.exDate.$gte = new Date(from);
+      if (to) query.exDate.$lte = new Date(to);
+    }
+
+    return CorporateAction.find(query).sort({ exDate: -1, symbol: 1 });
+  }
+
+  /**
+   * Store corporate actions; an action already applied to positions cannot change
+   * @param {Object[]} records - { symbol, type, exDate, existingShares, newShares, dividendPerShare, description }
+   * @returns {Promise<Object>} { imported, errors }
+   */
+  async importActions(records) {
+    const errors = [];
+    let imported = 0;
+
+    for (const [i, record] of records.entries()) {
+      const exDate = moment.utc(String(record.exDate || '').trim(), ACTION_DATE_FORMATS, true);
+      if (!exDate.isValid()) {
+        errors.push(`Row ${i + 1}: unparseable ex-date "${record.exDate}"`);
+        continue;
+      }
+
+      const type = String(record.type || '').trim().toUpperCase();
+      const symbol = String(record.symbol || '').trim().toUpperCase();
+      const action = await CorporateAction.findOne({ symbol, type, exDate: exDate.toDate() })
+        || new CorporateAction({ symbol, type, exDate: exDate.toDate() });
+
+      if (action.appliedAt) {
+        errors.push(`Row ${i + 1}: ${symbol} ${type.toLowerCase()} of ${exDate.format('YYYY-MM-DD')} was already applied`);
+        continue;
+      }
+
+      ['existingShares', 'newShares', 'dividendPerShare', 'description']
+        .filter(key => record[key] !== undefined && record[key] !== '')
+        .forEach(key => action.set(key, record[key]));
+
+      try {
+        await action.save();
+        imported++;
+      } catch (error) {
+        errors.push(`Row ${i + 1}: ${error.message}`);
+      }
+    }
+
+    return { imported, errors };
+  }
+
+  /**
+   * Remove an action that has not been applied yet
+   * @returns {Promise<Object>} { success, error }
+   */
+  async deleteAction(id) {
+    const action = await CorporateAction.findById(id);
+    if (!action) {
+      return { success: false, error: 'Corporate action not found' };
+    }
+    if (action.appliedAt) {
+      return { success: false, error: 'An applied corporate action cannot be removed' };
+    }
+
+    await action.deleteOne();
+    return { success: true };
+  }
+
+  /**
+   * Apply every action whose ex-date has arrived
+   * @param {Date} now - Current time
+   * @returns {Promise<Object[]>} Actions applied
+   */
+  async applyDueActions(now = new Date()) {
+    const due = await CorporateAction.find({
+      appliedAt: null,
+      exDate: { $lte: new Date(`${tradingCalendarService.dateKey(now)}T00:00:00Z`) }
+    }).sort({ exDate: 1 });
+
+    for (const action of due) {
+      await this.applyAction(action);
+    }
+
+    return due;
+  }
+
+  /**
+   * Adjust the positions held into the ex-date of an action
+   */
+  async applyAction(action) {
+    // Positions opened before the ex-date session hold the entitlement
+    const exDate = tradingCalendarService.startOfDay(new Date(action.exDate.getTime() + 12 * 60 * 60 * 1000));
+    const positions = await Position.find({
+      symbol: action.symbol,
+      status: 'open',
+      openedAt: { $lt: exDate }
+    });
+    const portfolios = new Set();
+
+    for (const position of positions) {
+      // Positions already adjusted before an interruption are not adjusted twice
+      const done = await Activity.exists({ positionId: position._id, 'metadata.corporateActionId': action._id });
+      if (done) continue;
+
+      if (action.type === 'DIVIDEND') {
+        await this.applyDividend(action, position);
+      } else {
+        await this.applyShareChange(action, position);
+      }
+      portfolios.add(String(position.portfolioId));
+    }
+
+    action.appliedAt = new Date();
+    await action.save();
+
+    for (const portfolioId of portfolios) {
+      const portfolio = await Portfolio.findById(portfolioId);
+      if (portfolio) {
+        await portfolio.calculateMetrics();
+      }
+    }
+
+    this.emit('applied', action);
+    return action;
+  }
+
+  // Split or bonus: more shares at a proportionally lower cost
+  async applyShareChange(action, position) {
+    const before = { quantity: position.quantity, averagePrice: position.averagePrice };
+    const adjusted = adjustPosition(position, action);
+    const factor = shareFactor(action);
+    const direction = position.side === 'short' ? -1 : 1;
+
+    // Fractional entitlements are settled in cash
+    const fraction = position.quantity * factor - adjusted.quantity;
+    const cash = adjusted.cashInLieu * direction;
+
+    position.quantity = adjusted.quantity;
+    position.averagePrice = adjusted.averagePrice;
+    position.currentPrice = adjusted.currentPrice;
+    position.realizedPnL += fraction * ((adjusted.currentPrice || adjusted.averagePrice) - adjusted.averagePrice) * direction;
+    if (position.stopLoss) position.stopLoss /= factor;
+    if (position.takeProfit) position.takeProfit /= factor;
+    if (position.quantity === 0) {
+      position.status = 'closed';
+      position.closedAt = new Date();
+    }
+    await position.save();
+
+    if (cash !== 0) {
+      await Portfolio.updateOne({ _id: position.portfolioId }, { $inc: { cashBalance: cash } });
+    }
+
+    const label = action.type === 'SPLIT' ? 'split' : 'bonus';
+    await Activity.create({
+      userId: position.userId,
+      portfolioId: position.portfolioId,
+      type: 'corporate_action',
+      action: label,
+      title: action.type === 'SPLIT' ? 'Stock Split' : 'Bonus Issue',
+      description: `${action.symbol} ${ratio(action)} ${label}: ${before.quantity} shares @ ${formatAmount(before.averagePrice)} became ${position.quantity} shares @ ${formatAmount(position.averagePrice)}`
+        + (cash !== 0 ? `, ${formatAmount(Math.abs(cash))} ${cash > 0 ? 'received' : 'paid'} for ${fraction.toFixed(4)} fractional share(s)` : ''),
+      status: 'info',
+      symbol: action.symbol,
+      positionId: position._id,
+      amount: cash,
+      quantity: position.quantity,
+      price: position.averagePrice,
+      metadata: {
+        corporateActionId: action._id,
+        exDate: action.exDate,
+        before,
+        after: { quantity: position.quantity, averagePrice: position.averagePrice },
+        cashInLieu: cash
+      }
+    });
+  }
+
+  // Dividend: credited to longs, debited from shorts that borrowed the shares
+  async applyDividend(action, position) {
+    const amount = dividendAmount(position, action);
+
+    position.realizedPnL += amount;
+    await position.save();
+
+    await Portfolio.updateOne({ _id: position.portfolioId }, { $inc: { cashBalance: amount } });
+
+    await Activity.create({
+      userId: position.userId,
+      portfolioId: position.portfolioId,
+      type: 'corporate_action',
+      action: 'dividend',
+      title: amount >= 0 ? 'Dividend Received' : 'Dividend Paid',
+      description: `${action.symbol} dividend of ${formatAmount(action.dividendPerShare)} per share on ${position.quantity} ${position.side === 'short' ? 'shorted ' : ''}shares: ${formatAmount(Math.abs(amount))} ${amount >= 0 ? 'credited' : 'debited'}`,
+      status: 'success',
+      symbol: action.symbol,
+      positionId: position._id,
+      amount,
+      quantity: position.quantity,
+      price: action.dividendPerShare,
+      metadata: {
+        corporateActionId: action._id,
+        exDate: action.exDate
+      }
+    });
+  }
+
+  /**
+   * Back-adjust bars of a symbol for its corporate actions. Actions that
+   * imported history was already adjusted for (see applyAdjustments) are
+   * left out so they are not applied twice.
+   * @param {string} symbol - Symbol
+   * @param {Object[]} bars - Bars in date order
+   * @returns {Promise<Object[]>} Adjusted bars
+   */
+  async adjustBars(symbol, bars) {
+    if (bars.length === 0) return bars;
+
+    const actions = await CorporateAction.find({
+      symbol: symbol.toUpperCase(),
+      exDate: { $gt: bars[0].date, $lte: bars[bars.length - 1].date }
+    }).lean();
+
+    const pending = [];
+    for (const action of actions) {
+      const vendorAdjusted = await MarketData.exists({
+        symbol: action.symbol,
+        source: 'IMPORT',
+        timestamp: { $lt: action.exDate, $gte: new Date(action.exDate.getTime() - VENDOR_ADJUSTMENT_WINDOW_MS) },
+        adjustmentFactor: { $ne: 1 }
+      });
+      if (!vendorAdjusted) pending.push(action);
+    }
+
+    return adjustBars(bars, pending);
+  }
+
+  /**
+   * Start background corporate action processing
+   */
+  startProcessing() {
+    setInterval(async () => {
+      try {
+        await this.applyDueActions();
+      } catch (error) {
+        console.error('Error applying corporate actions:', error);
+      }
+    }, PROCESS_INTERVAL_MS);
+  }
+}
+
+module.exports = new CorporateActionService();
@@ -1,8 +1,12 @@
+const mongoose = require('mongoose');
 const Portfolio = require('../models/Portfolio');
 const PortfolioHistory = require('../models/PortfolioHistory');
 const Position = require('../models/Position');
 const Activity = require('../models/Activity');
 const Alert = require('../models/Alert');
+const benchmarkService = require('./benchmarkService');
+const { calculateBenchmarkMetrics } = require('../utils/performanceMetrics');
+const { normalizeBenchmark, benchmarkLabel, alignSeries } = require('../utils/benchmark');
 
 class DashboardService {
 
@@ -20,12 +24,14 @@ class DashboardService {
         } = options;
 
         try {
-            // Get user's main portfolio
-            const portfolio = await this.getUserMainPortfolio(userId);
+            // Get the requested or the user's default portfolio
+            const portfolio = await this.getUserMainPortfolio(userId, options.portfolioId);
 
             if (!portfolio) {
                 // Create default portfolio for new users
-                await this.createDefaultPortfolio(userId);
+                if (!options.portfolioId) {
+                    await this.createDefaultPortfolio(userId);
+                }
                 return this.getEmptyDashboardData();
             }
 
@@ -33,11 +39,13 @@ class DashboardService {
             const [
                 kpiData,
                 performanceData,
+                benchmark,
                 activities,
                 alerts
             ] = await Promise.all([
                 this.getKPIData(userId, portfolio._id),
                 includePerformance ? this.getPerformanceData(userId, portfolio._id, performanceDays) : null,
+                includePerformance ? this.getBenchmarkAnalytics(userId, portfolio._id, performanceDays) : null,
                 includeActivities ? Activity.getRecentActivities(userId, activitiesLimit) : null,
                 includeAlerts ? Alert.getActiveAlerts(userId, alertsLimit) : null
             ]);
@@ -52,6 +60,7 @@ class DashboardService {
                 },
                 kpi: kpiData,
                 performance: performanceData,
+                benchmark,
                 activities: activities || [],
                 alerts: alerts || []
             };
@@ -149,12 +158,18 @@ class DashboardService {
      */
     async getPerformanceData(userId, portfolioId, days = 30) {
         try {
-            const performanceData = await PortfolioHistory.getPerformanceData(userId, portfolioId, days);
+            const { history, benchmarkValues } = await this.loadBenchmarkComparison(userId, portfolioId, days);
+
+            // Rescale the benchmark so it starts at the portfolio's first value
+            const baseIndex = benchmarkValues.findIndex(value => value > 0);
+            const scale = baseIndex >= 0 ? history[baseIndex].totalValue / benchmarkValues[baseIndex] : 0;
 
-            return performanceData.map(item => ({
+            return history.map((item, i) => ({
                 date: item.date.toISOString().split('T')[0],
                 value: Math.round(item.totalValue),
-                benchmark: Math.round(item.benchmarkValue || item.totalValue * 0.95) // Mock benchmark
+                benchmark: benchmarkValues[i] > 0
+                    ? Math.round(benchmarkValues[i] * scale)
+                    : (item.benchmarkValue ? Math.round(item.benchmarkValue) : null)
             }));
         } catch (error) {
             console.error('Performance data fetch error:', error);
@@ -163,10 +178,77 @@ class DashboardService {
     }
 
     /**
-     * Get user's main portfolio
+     * Get benchmark-relative metrics of the portfolio's daily history
+     */
+    async getBenchmarkAnalytics(userId, portfolioId, days = 30) {
+        try {
+            const { benchmark, history, benchmarkValues } = await this.loadBenchmarkComparison(userId, portfolioId, days);
+            const points = history.map(item => ({ date: item.date, equity: item.totalValue }));
+            const { benchmarkReturnPercent, ...metrics } = calculateBenchmarkMetrics(points, benchmarkValues);
+
+            return {
+                type: benchmark.type,
+                symbol: benchmark.symbol,
+                label: benchmarkLabel(benchmark),
+                totalReturnPercent: benchmarkReturnPercent,
+                metrics
+            };
+        } catch (error) {
+            console.error('Benchmark analytics fetch error:', error);
+            throw new Error('Failed to fetch benchmark analytics');
+        }
+    }
+
+    /**
+     * Change the benchmark a portfolio is compared against
+     */
+    async updateBenchmark(userId, portfolioId, benchmark) {
+        const normalized = normalizeBenchmark(benchmark);
+        if (!normalized) {
+            throw new Error('A benchmark type is required');
+        }
+
+        await Portfolio.updateOne(
+            { _id: portfolioId, userId },
+            { $set: { benchmark: normalized } }
+        );
+    }
+
+    /**
+     * Portfolio history with the benchmark level on each snapshot date
+     */
+    async loadBenchmarkComparison(userId, portfolioId, days) {
+        const [portfolio, history] = await Promise.all([
+            Portfolio.findById(portfolioId).select('benchmark'),
+            PortfolioHistory.getPerformanceData(userId, portfolioId, days)
+        ]);
+
+        const benchmark = normalizeBenchmark(portfolio && portfolio.benchmark) || { type: 'INDEX' };
+        if (history.length === 0) {
+            return { benchmark, history, benchmarkValues: [] };
+        }
+
+        // Start a few days early so the first snapshot has a prior close to carry forward
+        const startDate = new Date(history[0].date);
+        startDate.setDate(startDate.getDate() - 7);
+        const series = await benchmarkService.getSeries(benchmark, startDate, history[history.length - 1].date);
+
+        return {
+            benchmark,
+            history,
+            benchmarkValues: alignSeries(series, history.map(item => item.date))
+        };
+    }
+
+    /**
+     * Get the portfolio a dashboard shows: the requested one, archived
+     * portfolios included, else the user's default portfolio
      */
-    async getUserMainPortfolio(userId) {
-        return Portfolio.findOne({ userId, isActive: true }).sort({ createdAt: 1 });
+    async getUserMainPortfolio(userId, portfolioId) {
+        if (portfolioId) {
+            return mongoose.isValidObjectId(portfolioId) ? Portfolio.findOne({ _id: portfolioId, userId }) : null;
+        }
+        return Portfolio.findOne({ userId, isActive: true }).sort({ isDefault: -1, createdAt: 1 });
     }
 
     /**
@@ -176,6 +258,7 @@ class DashboardService {
         const portfolio = new Portfolio({
             userId,
             name: 'Main Portfolio',
+            isDefault: true,
             totalValue: 100000,
             cashBalance: 100000,
             currency: 'USD',
@@ -275,6 +358,7 @@ class DashboardService {
                 value: 100000,
                 benchmark: 100000
             }],
+            benchmark: null,
             activities: [],
             alerts: []
         };
@@ -312,7 +396,6 @@ class DashboardService {
                     dayChangePercent: portfolio.dayChangePercent,
                     totalReturn: portfolio.totalReturn,
                     totalReturnPercent: portfolio.totalReturnPercent,
-                    benchmarkValue: portfolio.totalValue * 0.95, // Mock benchmark
                     snapshotType: 'daily'
                 });
 
@@ -0,0 +1,198 @@
+const EventEmitter = require('events');
+const Position = require('../models/Position');
+const Portfolio = require('../models/Portfolio');
+const MarginRequirement = require('../models/MarginRequirement');
+const { broadcastToUser } = require('./websocketService');
+const tradingCalendarService = require('./tradingCalendarService');
+const { accountMargin, buyingPower, borrowFee, liquidationPlan } = require('../utils/margin');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often borrow fees and margin calls are checked
+const MONITOR_INTERVAL_MS = 30 * 1000;
+
+const markPrice = (position) => position.currentPrice || position.averagePrice;
+
+/**
+ * Margin accounts. Charges the borrow fee of short positions once per
+ * calendar day and watches equity against the maintenance margin: an
+ * account that falls below it is sent a MARGIN_CALL over the websocket
+ * and 'marginCall' is emitted with the orders that would bring it back,
+ * which the order service places as liquidations. The arithmetic lives in
+ * utils/margin.js.
+ */
+class MarginService extends EventEmitter {
+  constructor() {
+    super();
+
+    // Start margin monitoring
+    this.startMarginMonitoring();
+  }
+
+  /**
+   * Margin position of a portfolio at the latest prices
+   * @param {Object} portfolio - Portfolio document
+   * @returns {Promise<Object>} { account, positions, requirements }
+   */
+  async getAccount(portfolio) {
+    const open = await Position.find({ portfolioId: portfolio._id, status: 'open' });
+    const positions = open.map(position => ({
+      symbol: position.symbol,
+      side: position.side,
+      quantity: position.quantity,
+      price: markPrice(position)
+    }));
+    const requirements = await MarginRequirement.forSymbols(positions.map(position => position.symbol), portfolio.accountType);
+
+    return { account: accountMargin(portfolio.cashBalance, positions, requirements), positions, requirements };
+  }
+
+  /**
+   * Margin summary of a user's portfolio for clients
+   */
+  async getSummary(userId, portfolioId) {
+    const portfolio = await Portfolio.findOne({ _id: portfolioId, userId });
+    if (!portfolio) return null;
+
+    const { account, positions, requirements } = await this.getAccount(portfolio);
+    const defaults = portfolio.accountType === 'CASH' ? { initialMarginPercent: 100 } : MarginRequirement.defaults();
+
+    return {
+      accountType: portfolio.accountType,
+      cashBalance: portfolio.cashBalance,
+      ...account,
+      buyingPower: buyingPower(account.availableMargin, defaults),
+      marginCallAt: portfolio.marginCallAt || null,
+      positions: positions.map(position => ({
+        ...position,
+        ...requirements.get(position.symbol),
+        marketValue: position.quantity * position.price
+      }))
+    };
+  }
+
+  /**
+   * Switch a portfolio between a cash and a margin account. A cash account
+   * cannot hold short positions or borrowed cash.
+   * @returns {Promise<Object>} { success, portfolio, error }
+   */
+  async setAccountType(userId, portfolioId, accountType) {
+    const portfolio = await Portfolio.findOne({ _id: portfolioId, userId });
+    if (!portfolio) {
+      return { success: false, error: 'Portfolio not found' };
+    }
+
+    if (accountType === 'CASH') {
+      const shorts = await Position.countDocuments({ portfolioId, side: 'short', status: 'open' });
+      if (shorts > 0 || portfolio.cashBalance < 0) {
+        return { success: false, error: 'Close short positions and repay borrowed cash before switching to a cash account' };
+      }
+    }
+
+    portfolio.accountType = accountType;
+    await portfolio.calculateMetrics();
+
+    return { success: true, portfolio };
+  }
+
+  /**
+   * Stored margin requirements and the default for other symbols
+   */
+  async getRequirements() {
+    const requirements = await MarginRequirement.find().sort({ symbol: 1 });
+    return { defaults: MarginRequirement.defaults(), requirements };
+  }
+
+  /**
+   * Create or change the margin requirement of a symbol
+   * @param {string} symbol - Symbol
+   * @param {Object} fields - { initialMarginPercent, maintenanceMarginPercent, borrowRatePercent, shortable }
+   * @returns {Promise<Object>} Saved requirement
+   */
+  async setRequirement(symbol, fields) {
+    const requirement = await MarginRequirement.findOne({ symbol: symbol.toUpperCase() })
+      || new MarginRequirement({ symbol, ...MarginRequirement.defaults() });
+
+    ['initialMarginPercent', 'maintenanceMarginPercent', 'borrowRatePercent', 'shortable']
+      .filter(key => fields[key] !== undefined)
+      .forEach(key => requirement.set(key, fields[key]));
+
+    return requirement.save();
+  }
+
+  /**
+   * Charge short positions the borrow fee for the calendar days since they
+   * were last charged. Fees are paid from cash and booked as realised P&L.
+   */
+  async chargeBorrowFees(now = new Date()) {
+    try {
+      const today = tradingCalendarService.dateKey(now);
+      const shorts = await Position.find({ side: 'short', status: 'open' });
+      const requirements = await MarginRequirement.forSymbols(shorts.map(position => position.symbol));
+
+      for (const position of shorts) {
+        const since = position.borrowFeeDate || tradingCalendarService.dateKey(position.openedAt);
+        const days = Math.round((Date.parse(today) - Date.parse(since)) / DAY_MS);
+        if (days <= 0) continue;
+
+        const fee = borrowFee(position.quantity * markPrice(position), requirements.get(position.symbol).borrowRatePercent, days);
+
+        position.borrowFees += fee;
+        position.realizedPnL -= fee;
+        position.borrowFeeDate = today;
+        await position.save();
+
+        await Portfolio.updateOne({ _id: position.portfolioId }, { $inc: { cashBalance: -fee } });
+      }
+    } catch (error) {
+      console.error('Error charging borrow fees:', error);
+    }
+  }
+
+  /**
+   * Recalculate the accounts holding positions and raise margin calls
+   */
+  async checkMarginCalls() {
+    try {
+      const portfolioIds = await Position.distinct('portfolioId', { status: 'open' });
+
+      for (const portfolioId of portfolioIds) {
+        const portfolio = await Portfolio.findById(portfolioId);
+        if (!portfolio) continue;
+
+        await portfolio.calculateMetrics();
+        if (!portfolio.marginCallAt) continue;
+
+        const { account, positions, requirements } = await this.getAccount(portfolio);
+        if (!account.marginCall) continue;
+
+        broadcastToUser(portfolio.userId, 'marginCall', {
+          type: 'MARGIN_CALL',
+          data: {
+            portfolioId: portfolio._id,
+            equity: account.equity,
+            maintenanceMargin: account.maintenanceMargin,
+            deficit: account.maintenanceMargin - account.equity,
+            since: portfolio.marginCallAt
+          }
+        });
+
+        this.emit('marginCall', { portfolio, orders: liquidationPlan(account, positions, requirements) });
+      }
+    } catch (error) {
+      console.error('Error checking margin calls:', error);
+    }
+  }
+
+  /**
+   * Start background margin monitoring
+   */
+  startMarginMonitoring() {
+    setInterval(async () => {
+      await this.chargeBorrowFees();
+      await this.checkMarginCalls();
+    }, MONITOR_INTERVAL_MS);
+  }
+}
+
+module.exports = new MarginService();
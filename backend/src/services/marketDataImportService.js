@@ -0,0 +1,167 @@
+const MarketData = require('../models/MarketData');
+const { parseCsv, parseParquet, detectFormat } = require('../utils/ohlcvParser');
+const { validateBars, applyAdjustments, coverageRanges } = require('../utils/ohlcvValidation');
+const { round } = require('../utils/performanceMetrics');
+
+// Upserts sent to MongoDB per bulkWrite call
+const WRITE_BATCH_SIZE = 1000;
+
+// Issues returned per symbol; the counts always cover all of them
+const MAX_REPORTED_ISSUES = 100;
+
+// Errors caused by the uploaded file or options rather than the server
+const importError = (message) => {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+class MarketDataImportService {
+  /**
+   * Import an OHLCV file
+   * @param {Buffer} buffer - File contents
+   * @param {Object} options - { filename, format, symbol, interval, mapping, delimiter, dateFormat, adjust }
+   * @returns {Promise<Object[]>} One import report per symbol in the file
+   */
+  async importFile(buffer, options = {}) {
+    const interval = options.interval || '1d';
+    if (!MarketData.INTERVALS.includes(interval)) {
+      throw importError(`Unsupported interval "${interval}"; use one of ${MarketData.INTERVALS.join(', ')}`);
+    }
+
+    const format = options.format || detectFormat(options.filename);
+    if (!['csv', 'parquet'].includes(format)) {
+      throw importError('Unknown file format; use a .csv or .parquet file or pass a format');
+    }
+
+    let rows;
+    try {
+      rows = format === 'parquet'
+        ? await parseParquet(buffer, options)
+        : parseCsv(buffer, options);
+    } catch (error) {
+      throw importError(`Could not read ${format} file: ${error.message}`);
+    }
+
+    // Files either carry a symbol column or hold one symbol given by the caller
+    const defaultSymbol = options.symbol ? options.symbol.trim().toUpperCase() : undefined;
+    const rowsBySymbol = new Map();
+    for (const row of rows) {
+      const symbol = row.symbol || defaultSymbol;
+      if (!symbol) {
+        throw importError('The file has no symbol column; pass the symbol to import');
+      }
+      if (!rowsBySymbol.has(symbol)) rowsBySymbol.set(symbol, []);
+      rowsBySymbol.get(symbol).push(row);
+    }
+
+    const reports = [];
+    for (const [symbol, symbolRows] of rowsBySymbol) {
+      reports.push(await this.importBars(symbol, interval, symbolRows, { adjust: options.adjust !== false }));
+    }
+
+    return reports;
+  }
+
+  /**
+   * Validate and upsert the bars of one symbol
+   * @param {string} symbol - Symbol
+   * @param {string} interval - Bar interval
+   * @param {Object[]} rows - Parsed rows
+   * @param {Object} options - { adjust }
+   * @returns {Promise<Object>} Import report
+   */
+  async importBars(symbol, interval, rows, { adjust = true } = {}) {
+    const { bars: validBars, issues, rejected } = validateBars(rows, interval);
+    const bars = adjust ? applyAdjustments(validBars) : validBars;
+
+    let inserted = 0;
+    let updated = 0;
+
+    for (let start = 0; start < bars.length; start += WRITE_BATCH_SIZE) {
+      const operations = bars.slice(start, start + WRITE_BATCH_SIZE).map((bar, i) => {
+        const index = start + i;
+        const previousClose = index > 0 ? bars[index - 1].close : bar.open;
+
+        return {
+          updateOne: {
+            filter: { symbol, interval, timestamp: bar.date, source: 'IMPORT' },
+            update: {
+              $set: {
+                price: round(bar.close),
+                open: round(bar.open),
+                high: round(bar.high),
+                low: round(bar.low),
+                previousClose: round(previousClose),
+                change: round(bar.close - previousClose),
+                changePercent: round(((bar.close - previousClose) / previousClose) * 100),
+                volume: bar.volume || 0,
+                adjustmentFactor: bar.adjustmentFactor || 1,
+                lastTradeTime: bar.date,
+                isMarketOpen: false
+              }
+            },
+            upsert: true
+          }
+        };
+      });
+
+      const result = await MarketData.bulkWrite(operations, { ordered: false });
+      inserted += result.upsertedCount;
+      updated += result.modifiedCount;
+    }
+
+    const coverage = await this.getCoverage({ symbol, interval });
+
+    return {
+      symbol,
+      interval,
+      received: rows.length,
+      imported: bars.length,
+      inserted,
+      updated,
+      rejected,
+      adjusted: bars.filter(bar => bar.adjustmentFactor && bar.adjustmentFactor !== 1).length,
+      warnings: issues.filter(issue => issue.severity === 'WARNING').length,
+      issues: issues.slice(0, MAX_REPORTED_ISSUES),
+      coverage: coverage[0] || null
+    };
+  }
+
+  /**
+   * Imported history per symbol and interval, with the contiguous date
+   * ranges that can be backtested
+   * @param {Object} filters - Optional { symbol, interval }
+   * @returns {Promise<Object[]>} { symbol, interval, firstDate, lastDate, bars, ranges }
+   */
+  async getCoverage({ symbol, interval } = {}) {
+    const match = { source: 'IMPORT' };
+    if (symbol) match.symbol = symbol.toUpperCase();
+    if (interval) match.interval = interval;
+
+    const groups = await MarketData.aggregate([
+      { $match: match },
+      { $sort: { timestamp: 1 } },
+      {
+        $group: {
+          _id: { symbol: '$symbol', interval: '$interval' },
+          firstDate: { $first: '$timestamp' },
+          lastDate: { $last: '$timestamp' },
+          dates: { $push: '$timestamp' }
+        }
+      },
+      { $sort: { '_id.symbol': 1, '_id.interval': 1 } }
+    ]).allowDiskUse(true);
+
+    return groups.map(group => ({
+      symbol: group._id.symbol,
+      interval: group._id.interval,
+      firstDate: group.firstDate,
+      lastDate: group.lastDate,
+      bars: group.dates.length,
+      ranges: coverageRanges(group.dates, group._id.interval)
+    }));
+  }
+}
+
+module.exports = new MarketDataImportService();
@@ -1,5 +1,8 @@
 const MarketData = require('../models/MarketData');
 const { broadcastMarketData } = require('./websocketService');
+const barService = require('./barService');
+const matchingEngine = require('./matchingEngine');
+const tradingCalendarService = require('./tradingCalendarService');
 
 class MarketDataService {
   constructor() {
@@ -22,7 +25,7 @@ class MarketDataService {
   async initializeMarketData() {
     try {
       for (const symbol of this.symbols) {
-        const existing = await MarketData.findOne({ symbol });
+        const existing = await MarketData.findOne({ symbol }).live();
         
         if (!existing) {
           // Create initial market data
@@ -47,7 +50,7 @@ class MarketDataService {
             eps: Math.random() * 100 + 10, // EPS 10-110
             week52High: basePrice * (1.1 + Math.random() * 0.4), // 10-50% higher
             week52Low: basePrice * (0.6 + Math.random() * 0.3), // 30-40% lower
-            isMarketOpen: true
+            isMarketOpen: tradingCalendarService.isMarketOpen()
           });
           
           await marketData.save();
@@ -81,6 +84,7 @@ class MarketDataService {
   async getSymbolData(symbol) {
     try {
       return await MarketData.findOne({ symbol: symbol.toUpperCase() })
+        .live()
         .sort({ timestamp: -1 });
     } catch (error) {
       console.error('Error getting symbol data:', error);
@@ -123,12 +127,23 @@ class MarketDataService {
   startPriceSimulation() {
     setInterval(async () => {
       try {
+        const isMarketOpen = tradingCalendarService.isMarketOpen();
+
         // Update prices for all symbols
         for (const symbol of this.symbols) {
           const marketData = await MarketData.findOne({ symbol })
+            .live()
             .sort({ timestamp: -1 });
-          
-          if (marketData && marketData.isMarketOpen) {
+
+          if (!marketData) continue;
+
+          // Prices only move during continuous trading
+          if (marketData.isMarketOpen !== isMarketOpen) {
+            marketData.isMarketOpen = isMarketOpen;
+            await marketData.save();
+          }
+
+          if (isMarketOpen) {
             await marketData.simulatePriceMovement();
             
             // Broadcast update
@@ -144,6 +159,19 @@ class MarketDataService {
               ask: marketData.ask,
               timestamp: marketData.timestamp
             });
+
+            await barService.onTick({
+              symbol,
+              price: marketData.price,
+              volume: marketData.volume,
+              timestamp: marketData.timestamp
+            });
+
+            matchingEngine.onTick({
+              symbol,
+              price: marketData.price,
+              volume: marketData.volume
+            });
           }
         }
       } catch (error) {
@@ -155,21 +183,9 @@ class MarketDataService {
   /**
    * Get market status
    */
-  async getMarketStatus() {
+  async getMarketStatus(exchange = 'NSE') {
     try {
-      const now = new Date();
-      const hour = now.getHours();
-      const day = now.getDay();
-      
-      // Simple market hours: Monday-Friday, 9 AM - 3:30 PM IST
-      const isMarketOpen = day >= 1 && day <= 5 && hour >= 9 && hour < 15.5;
-      
-      return {
-        isOpen: isMarketOpen,
-        nextOpen: this.getNextMarketOpen(),
-        nextClose: this.getNextMarketClose(),
-        timezone: 'IST'
-      };
+      return tradingCalendarService.getStatus(exchange);
     } catch (error) {
       console.error('Error getting market status:', error);
       throw error;
@@ -179,47 +195,15 @@ class MarketDataService {
   /**
    * Get next market open time
    */
-  getNextMarketOpen() {
-    const now = new Date();
-    const nextOpen = new Date(now);
-    
-    // Set to 9 AM
-    nextOpen.setHours(9, 0, 0, 0);
-    
-    // If it's past 9 AM today, move to next weekday
-    if (now.getHours() >= 9 || now.getDay() === 0 || now.getDay() === 6) {
-      nextOpen.setDate(nextOpen.getDate() + 1);
-      
-      // Skip weekends
-      while (nextOpen.getDay() === 0 || nextOpen.getDay() === 6) {
-        nextOpen.setDate(nextOpen.getDate() + 1);
-      }
-    }
-    
-    return nextOpen;
+  getNextMarketOpen(exchange = 'NSE') {
+    return tradingCalendarService.nextOpen(new Date(), exchange);
   }
 
   /**
    * Get next market close time
    */
-  getNextMarketClose() {
-    const now = new Date();
-    const nextClose = new Date(now);
-    
-    // Set to 3:30 PM
-    nextClose.setHours(15, 30, 0, 0);
-    
-    // If it's past 3:30 PM today or weekend, move to next weekday
-    if (now.getHours() >= 15.5 || now.getDay() === 0 || now.getDay() === 6) {
-      nextClose.setDate(nextClose.getDate() + 1);
-      
-      // Skip weekends
-      while (nextClose.getDay() === 0 || nextClose.getDay() === 6) {
-        nextClose.setDate(nextClose.getDate() + 1);
-      }
-    }
-    
-    return nextClose;
+  getNextMarketClose(exchange = 'NSE') {
+    return tradingCalendarService.nextClose(new Date(), exchange);
   }
 
   /**
@@ -234,6 +218,7 @@ class MarketDataService {
           { symbol: regex }
         ]
       })
+      .live()
       .sort({ symbol: 1 })
       .limit(20)
       .select('symbol price change changePercent volume');
@@ -249,6 +234,7 @@ class MarketDataService {
   async getTopGainers(limit = 10) {
     try {
       return await MarketData.find({ changePercent: { $gt: 0 } })
+        .live()
         .sort({ changePercent: -1 })
         .limit(limit)
         .select('symbol price change changePercent volume');
@@ -264,6 +250,7 @@ class MarketDataService {
   async getTopLosers(limit = 10) {
     try {
       return await MarketData.find({ changePercent: { $lt: 0 } })
+        .live()
         .sort({ changePercent: 1 })
         .limit(limit)
         .select('symbol price change changePercent volume');
@@ -279,6 +266,7 @@ class MarketDataService {
   async getMostActive(limit = 10) {
     try {
       return await MarketData.find({})
+        .live()
         .sort({ volume: -1 })
         .limit(limit)
         .select('symbol price change changePercent volume');
@@ -287,46 +275,6 @@ class MarketDataService {
       throw error;
     }
   }
-
-  /**
-   * Generate OHLC data for charting
-   */
-  async generateOHLCData(symbol, period = '1d', count = 100) {
-    try {
-      const marketData = await this.getSymbolData(symbol);
-      if (!marketData) return [];
-
-      const ohlcData = [];
-      const basePrice = marketData.price;
-      const volatility = marketData.volatility || 0.02;
-
-      for (let i = count - 1; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-
-        // Generate realistic OHLC data
-        const open = basePrice * (0.95 + Math.random() * 0.1);
-        const close = open * (0.98 + Math.random() * 0.04);
-        const high = Math.max(open, close) * (1 + Math.random() * volatility);
-        const low = Math.min(open, close) * (1 - Math.random() * volatility);
-        const volume = Math.floor(Math.random() * 1000000) + 100000;
-
-        ohlcData.push({
-          date: date.toISOString(),
-          open: Math.round(open * 100) / 100,
-          high: Math.round(high * 100) / 100,
-          low: Math.round(low * 100) / 100,
-          close: Math.round(close * 100) / 100,
-          volume
-        });
-      }
-
-      return ohlcData;
-    } catch (error) {
-      console.error('Error generating OHLC data:', error);
-      throw error;
-    }
-  }
 }
 
 module.exports = new MarketDataService();
\ No newline at end of file
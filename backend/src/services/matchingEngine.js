@@ -0,0 +1,194 @@
+const EventEmitter = require('events');
+const OrderBook = require('./orderBook');
+const { broadcastOrderBook } = require('./websocketService');
+
+// Book settings that can be tuned through the environment
+const ENV_CONFIG = {
+  levels: 'ORDER_BOOK_LEVELS',
+  tickSize: 'ORDER_BOOK_TICK_SIZE',
+  touchDepth: 'ORDER_BOOK_TOUCH_DEPTH',
+  replenishRate: 'ORDER_BOOK_REPLENISH_RATE',
+  impactBps: 'MARKET_IMPACT_BPS',
+  impactDecay: 'MARKET_IMPACT_DECAY'
+};
+
+const configFromEnv = () => Object.fromEntries(
+  Object.entries(ENV_CONFIG)
+    .filter(([, name]) => process.env[name] !== undefined && process.env[name] !== '')
+    .map(([key, name]) => [key, Number(process.env[name])])
+);
+
+/**
+ * Paper trading matching engine: one simulated L2 book per symbol.
+ *
+ * Orders are submitted as they are accepted; fills against the book are
+ * returned to the caller. Fills that later ticks produce for resting,
+ * working and stop orders are emitted as 'fills', and changed queue
+ * positions of resting limit orders and ratcheted trailing stop prices as
+ * 'updates'. Resting orders cancelled because an order of the same user
+ * reached them are emitted as 'selfTradeCancels', after the fills of the
+ * same tick. Book depth is streamed to
+ * websocket clients subscribed to the symbol. The books live in memory:
+ * after a restart open orders are resubmitted and rejoin the back of the queue.
+ */
+class MatchingEngine extends EventEmitter {
+  constructor() {
+    super();
+    this.config = configFromEnv();
+    this.books = new Map(); // symbol -> OrderBook
+    this.orders = new Map(); // orderId -> symbol
+    this.lastVolume = new Map(); // symbol -> cumulative volume at the last tick
+  }
+
+  /**
+   * The book of a symbol, created on first use
+   * @param {string} symbol - Symbol
+   * @returns {OrderBook} Book
+   */
+  book(symbol) {
+    symbol = symbol.toUpperCase();
+    if (!this.books.has(symbol)) {
+      this.books.set(symbol, new OrderBook(symbol, this.config));
+    }
+    return this.books.get(symbol);
+  }
+
+  /**
+   * Submit an accepted order
+   * @param {Object} order - Order document or { _id, userId, symbol, side, type, timeInForce, price, stopPrice,
+   *   remainingQuantity, trailAmount, trailPercent, displayQuantity }
+   * @param {number} lastPrice - Last traded price, quotes the book if it has none yet
+   * @returns {Object[]} Fills { orderId, price, quantity, liquidity }, including makers the order traded with;
+   *   IOC and FOK orders are not held afterwards, whatever they filled
+   */
+  submit(order, lastPrice) {
+    const book = this.book(order.symbol);
+    book.seed(lastPrice);
+
+    const orderId = order._id.toString();
+    this.orders.set(orderId, book.symbol);
+
+    const fills = book.submit({
+      id: orderId,
+      owner: order.userId,
+      side: order.side,
+      type: order.type,
+      timeInForce: order.timeInForce,
+      price: order.price,
+      stopPrice: order.stopPrice,
+      trailAmount: order.trailAmount,
+      trailPercent: order.trailPercent,
+      displayQuantity: order.displayQuantity,
+      quantity: order.remainingQuantity
+    });
+
+    // Killed or unfilled immediate orders never reach the book
+    if (!book.contains(orderId)) {
+      this.orders.delete(orderId);
+    }
+
+    const cancelled = this.settle(book, fills);
+    if (cancelled.length > 0) {
+      this.emit('selfTradeCancels', cancelled);
+    }
+    return fills;
+  }
+
+  /**
+   * Take an order out of its book
+   * @param {string} orderId - Order id
+   * @returns {boolean} True when the order was in a book
+   */
+  cancel(orderId) {
+    const id = orderId.toString();
+    const symbol = this.orders.get(id);
+    if (!symbol) return false;
+
+    this.orders.delete(id);
+    const book = this.books.get(symbol);
+    const cancelled = book.cancel(id);
+    this.publish(book);
+    return cancelled;
+  }
+
+  /**
+   * Whether an order is held by a book
+   * @param {string} orderId - Order id
+   * @returns {boolean} True when the engine is working the order
+   */
+  has(orderId) {
+    return this.orders.has(orderId.toString());
+  }
+
+  /**
+   * Shares queued ahead of a resting limit order
+   * @param {string} orderId - Order id
+   * @returns {number|null} Shares ahead, or null when the order is not resting
+   */
+  queuePosition(orderId) {
+    const symbol = this.orders.get(orderId.toString());
+    return symbol ? this.books.get(symbol).queuePosition(orderId.toString()) : null;
+  }
+
+  /**
+   * Roll a live price update into the symbol's book
+   * @param {Object} tick - { symbol, price, volume (cumulative) }
+   */
+  onTick({ symbol, price, volume }) {
+    const book = this.book(symbol);
+
+    // Quotes carry the cumulative session volume; queues work through the traded amount
+    const previousVolume = this.lastVolume.get(book.symbol);
+    const traded = previousVolume !== undefined && volume >= previousVolume ? volume - previousVolume : 0;
+    this.lastVolume.set(book.symbol, volume);
+
+    const fills = book.update({ price, traded });
+    const cancelled = this.settle(book, fills);
+
+    if (fills.length > 0) {
+      this.emit('fills', fills);
+    }
+    // A maker may have traded with another user's order before its owner's reached it
+    if (cancelled.length > 0) {
+      this.emit('selfTradeCancels', cancelled);
+    }
+  }
+
+  /**
+   * Current depth of a symbol
+   * @param {string} symbol - Symbol
+   * @param {number} levels - Levels per side
+   * @returns {Object|null} Depth, or null before the book has a price
+   */
+  getDepth(symbol, levels) {
+    const book = this.books.get(symbol.toUpperCase());
+    return book && book.lastPrice !== null ? book.depth(levels) : null;
+  }
+
+  // Forget completed and self-trade cancelled orders, report queue and stop moves
+  // and stream the new depth. Returns the ids of the self-trade cancelled orders.
+  settle(book, fills) {
+    fills.forEach(fill => {
+      if (!book.contains(fill.orderId)) {
+        this.orders.delete(fill.orderId);
+      }
+    });
+
+    const cancelled = book.drainSelfTradeCancels();
+    cancelled.forEach(orderId => this.orders.delete(orderId));
+
+    const updates = book.drainOrderUpdates();
+    if (updates.length > 0) {
+      this.emit('updates', updates);
+    }
+
+    this.publish(book);
+    return cancelled;
+  }
+
+  publish(book) {
+    broadcastOrderBook(book.symbol, book.depth());
+  }
+}
+
+module.exports = new MatchingEngine();
@@ -0,0 +1,574 @@
+const { round } = require('../utils/performanceMetrics');
+
+const DEFAULT_BOOK_CONFIG = {
+  levels: 10, // price levels quoted per side
+  tickSize: 0.05, // NSE equity tick
+  spreadTicks: 1, // ticks between the best bid and the best ask
+  touchDepth: 500, // shares quoted at the best level
+  depthGrowth: 0.3, // each level further from the touch quotes 30% more
+  depthJitter: 0.2, // random variation of quoted size per refresh
+  replenishRate: 0.25, // share of taken liquidity that is re-quoted per tick
+  impactBps: 5, // mid shift in basis points per touchDepth shares taken
+  impactDecay: 0.2 // share of the accumulated impact that fades per tick
+};
+
+const SIDES = ['BUY', 'SELL'];
+
+const STOP_TYPES = ['STOP', 'STOP_LIMIT', 'TRAILING_STOP'];
+
+// Time in force of orders that trade on arrival or not at all
+const IMMEDIATE = ['IOC', 'FOK'];
+
+const opposite = (side) => (side === 'BUY' ? 'SELL' : 'BUY');
+
+// Whether a price is at least as good as another for a side
+const better = (side, price, than) => (side === 'BUY' ? price >= than : price <= than);
+
+/**
+ * Simulated level-2 order book of one symbol.
+ *
+ * Market makers quote `levels` price levels on each side of the last price;
+ * their size grows away from the touch. Paper orders trade against those
+ * quotes and against each other with price-time priority: at a price level,
+ * quoted liquidity is ahead of paper orders, and paper orders queue in
+ * arrival order. Taking liquidity depletes the levels it walks through
+ * (they are re-quoted gradually) and moves the quoted mid against the
+ * taker, which fades over the following ticks.
+ *
+ * Resting limit orders fill when quotes cross them, or when volume printed
+ * at their price works through the shares queued ahead of them. Iceberg
+ * orders show only their display quantity; each time it fills, the next
+ * slice joins the back of the queue. Market orders take what depth there
+ * is and retry with the remainder on every tick; stop orders wait for the
+ * last price to reach their trigger, which trailing stops ratchet behind
+ * the best price seen. IOC orders drop what they cannot fill on arrival,
+ * and FOK orders only trade when the book can fill them completely.
+ *
+ * Paper orders of one owner never trade with each other: an order that
+ * reaches a resting order of its owner cancels the resting order and keeps
+ * walking the book. Such cancellations are collected for
+ * drainSelfTradeCancels().
+ *
+ * Orders are plain { id, owner, side, type, timeInForce, price, stopPrice,
+ * quantity, trailAmount, trailPercent, displayQuantity } objects; every
+ * method that trades returns fills { orderId, price, quantity, liquidity }.
+ */
+class OrderBook {
+  /**
+   * @param {string} symbol - Symbol of the book
+   * @param {Object} config - Overrides of DEFAULT_BOOK_CONFIG
+   */
+  constructor(symbol, config = {}) {
+    this.symbol = symbol;
+    this.config = { ...DEFAULT_BOOK_CONFIG, ...config };
+    this.lastPrice = null;
+    this.impact = 0; // fractional shift of the quoted mid
+    this.quotes = { BUY: new Map(), SELL: new Map() }; // price -> quoted shares
+    this.taken = { BUY: new Map(), SELL: new Map() }; // price -> shares taken, not yet re-quoted
+    this.resting = { BUY: [], SELL: [] }; // paper limit orders in priority order
+    this.working = []; // market orders waiting for depth
+    this.stops = []; // untriggered stop orders
+    this.sequence = 0;
+    this.updates = new Map(); // orderId -> changed { queuePosition, stopPrice }
+    this.selfTradeCancels = []; // ids of resting orders cancelled to prevent a self-trade
+  }
+
+  /**
+   * Quote the book around a first price; later prices arrive through update()
+   * @param {number} price - Last traded price
+   */
+  seed(price) {
+    if (this.lastPrice === null) {
+      this.lastPrice = price;
+      this.requote();
+    }
+  }
+
+  /**
+   * Move the book to a new last price and trade what the move reaches
+   * @param {Object} tick - { price, traded (shares printed since the last tick) }
+   * @returns {Object[]} Fills
+   */
+  update({ price, traded = 0 }) {
+    const { impactDecay, replenishRate } = this.config;
+
+    this.lastPrice = price;
+    this.impact *= 1 - impactDecay;
+    SIDES.forEach(side => {
+      this.taken[side].forEach((shares, level) => {
+        const remaining = shares * (1 - replenishRate);
+        if (remaining < 1) {
+          this.taken[side].delete(level);
+        } else {
+          this.taken[side].set(level, remaining);
+        }
+      });
+    });
+    this.requote();
+
+    const fills = [
+      ...this.matchCrossedOrders(),
+      ...this.workQueues(price, traded),
+      ...this.triggerStops()
+    ];
+
+    // Market orders take whatever the new quotes offer
+    const working = this.working;
+    this.working = [];
+    working.forEach(entry => {
+      fills.push(...this.take(entry));
+      if (entry.remaining > 0) this.working.push(entry);
+    });
+
+    this.prune();
+    return fills;
+  }
+
+  /**
+   * Accept an order
+   * @param {Object} order - { id, owner, side, type, timeInForce, price, stopPrice, quantity (unfilled),
+   *   trailAmount, trailPercent, displayQuantity }
+   * @returns {Object[]} Fills of the order and of resting orders it traded with; an IOC or
+   *   FOK order is not in the book afterwards
+   */
+  submit(order) {
+    const entry = {
+      id: String(order.id),
+      owner: order.owner !== undefined && order.owner !== null ? String(order.owner) : undefined,
+      side: order.side,
+      type: order.type,
+      timeInForce: order.timeInForce,
+      price: order.price,
+      stopPrice: order.stopPrice,
+      trailAmount: order.trailAmount,
+      trailPercent: order.trailPercent,
+      displayQuantity: order.displayQuantity,
+      remaining: order.quantity,
+      sequence: ++this.sequence
+    };
+
+    if (STOP_TYPES.includes(entry.type)) {
+      if (entry.type === 'TRAILING_STOP') {
+        // A stored stop (after a restart) is never loosened
+        entry.anchor = entry.stopPrice ? this.trailAnchor(entry) : this.lastPrice;
+      }
+      this.stops.push(entry);
+      const fills = this.triggerStops();
+      this.prune();
+      return fills;
+    }
+
+    // Fill or kill: nothing trades unless everything can
+    if (entry.timeInForce === 'FOK' && this.available(entry) < entry.remaining) {
+      return [];
+    }
+
+    const fills = this.execute(entry);
+    this.prune();
+    return fills;
+  }
+
+  /**
+   * Remove an order from the book
+   * @param {string} orderId - Order id
+   * @returns {boolean} True when the order was in the book
+   */
+  cancel(orderId) {
+    const id = String(orderId);
+
+    for (const side of SIDES) {
+      const entry = this.resting[side].find(e => e.id === id);
+      if (entry) {
+        this.resting[side] = this.resting[side].filter(e => e !== entry);
+        // Orders queued behind it move up
+        this.advanceQueue(side, entry.price, entry.shown, entry.sequence);
+        return true;
+      }
+    }
+
+    const before = this.working.length + this.stops.length;
+    this.working = this.working.filter(e => e.id !== id);
+    this.stops = this.stops.filter(e => e.id !== id);
+    return this.working.length + this.stops.length < before;
+  }
+
+  /**
+   * Whether an order is resting, working or waiting for its stop
+   * @param {string} orderId - Order id
+   * @returns {boolean} True when the book holds the order
+   */
+  contains(orderId) {
+    const id = String(orderId);
+    return SIDES.some(side => this.resting[side].some(e => e.id === id)) ||
+      this.working.some(e => e.id === id) ||
+      this.stops.some(e => e.id === id);
+  }
+
+  /**
+   * Shares queued ahead of a resting limit order at its price
+   * @param {string} orderId - Order id
+   * @returns {number|null} Shares ahead, or null when the order is not resting
+   */
+  queuePosition(orderId) {
+    const id = String(orderId);
+    for (const side of SIDES) {
+      const entry = this.resting[side].find(e => e.id === id);
+      if (entry) return Math.round(entry.queueAhead);
+    }
+    return null;
+  }
+
+  /**
+   * Orders still in the book whose queue position or trailing stop moved
+   * since the last call
+   * @returns {Object[]} { orderId, queuePosition?, stopPrice? }
+   */
+  drainOrderUpdates() {
+    const updates = Array.from(this.updates.entries())
+      .filter(([orderId]) => this.contains(orderId))
+      .map(([orderId, fields]) => ({ orderId, ...fields }));
+    this.updates.clear();
+    return updates;
+  }
+
+  /**
+   * Resting orders cancelled since the last call because an order of their
+   * owner reached them
+   * @returns {string[]} Order ids
+   */
+  drainSelfTradeCancels() {
+    const cancelled = this.selfTradeCancels;
+    this.selfTradeCancels = [];
+    return cancelled;
+  }
+
+  /**
+   * Aggregated depth, quoted and displayed paper liquidity combined
+   * @param {number} levels - Levels per side
+   * @returns {Object} { symbol, lastPrice, bids, asks, spread, timestamp };
+   *   levels are { price, quantity, orders } where orders counts paper orders
+   */
+  depth(levels = this.config.levels) {
+    const side = (name) => {
+      const byPrice = new Map();
+      this.quotes[name].forEach((quantity, price) => {
+        if (quantity > 0) byPrice.set(price, { price, quantity, orders: 0 });
+      });
+      this.resting[name].forEach(entry => {
+        const level = byPrice.get(entry.price) || { price: entry.price, quantity: 0, orders: 0 };
+        level.quantity += entry.shown;
+        level.orders += 1;
+        byPrice.set(entry.price, level);
+      });
+      return Array.from(byPrice.values())
+        .sort((a, b) => (name === 'BUY' ? b.price - a.price : a.price - b.price))
+        .slice(0, levels);
+    };
+
+    const bids = side('BUY');
+    const asks = side('SELL');
+
+    return {
+      symbol: this.symbol,
+      lastPrice: this.lastPrice,
+      bids,
+      asks,
+      spread: bids.length > 0 && asks.length > 0 ? round(asks[0].price - bids[0].price) : null,
+      timestamp: new Date()
+    };
+  }
+
+  // Snap a price to the tick grid
+  toTick(price, mode = 'round') {
+    const { tickSize } = this.config;
+    return round(Math[mode](round(price / tickSize, 6)) * tickSize);
+  }
+
+  // Re-quote market maker levels around the last price shifted by impact
+  requote() {
+    const { levels, tickSize, spreadTicks, touchDepth, depthGrowth, depthJitter } = this.config;
+    const mid = this.lastPrice * (1 + this.impact);
+    const bestBid = this.toTick(mid - spreadTicks * tickSize / 2, 'floor');
+    const bestAsk = round(bestBid + spreadTicks * tickSize);
+
+    SIDES.forEach(side => {
+      const quotes = new Map();
+      for (let i = 0; i < levels; i++) {
+        const price = round(side === 'BUY' ? bestBid - i * tickSize : bestAsk + i * tickSize);
+        const size = touchDepth * (1 + depthGrowth * i) * (1 + (Math.random() * 2 - 1) * depthJitter);
+        quotes.set(price, Math.max(0, Math.round(size - (this.taken[side].get(price) || 0))));
+      }
+      this.quotes[side] = quotes;
+    });
+  }
+
+  // Trade a market or limit order, then rest or park what is left
+  execute(entry) {
+    const fills = this.take(entry);
+
+    if (entry.remaining > 0 && !IMMEDIATE.includes(entry.timeInForce)) {
+      if (entry.type === 'LIMIT') {
+        this.rest(entry);
+      } else {
+        this.working.push(entry);
+      }
+    }
+
+    return fills;
+  }
+
+  // Opposite side prices an order can trade at, best first
+  reachablePrices(entry) {
+    const contra = opposite(entry.side);
+
+    return Array.from(new Set([
+      ...this.quotes[contra].keys(),
+      ...this.resting[contra].map(e => e.price)
+    ]))
+      .filter(price => entry.type !== 'LIMIT' || better(entry.side, entry.price, price))
+      .sort((a, b) => (entry.side === 'BUY' ? a - b : b - a));
+  }
+
+  // Shares an order could take right now, hidden iceberg quantity included
+  available(entry) {
+    const contra = opposite(entry.side);
+
+    return this.reachablePrices(entry).reduce((sum, price) =>
+      sum + (this.quotes[contra].get(price) || 0) +
+      this.resting[contra]
+        .filter(e => e.price === price && !this.selfTrade(entry, e))
+        .reduce((shares, e) => shares + e.remaining, 0),
+    0);
+  }
+
+  // Whether two orders belong to the same owner and must not trade with each other
+  selfTrade(entry, maker) {
+    return entry.owner !== undefined && entry.owner === maker.owner;
+  }
+
+  // Walk the opposite side best price first; at each level quotes trade before paper orders
+  take(entry) {
+    const contra = opposite(entry.side);
+    const fills = [];
+    let takenShares = 0;
+
+    for (const price of this.reachablePrices(entry)) {
+      if (entry.remaining <= 0) break;
+
+      const quoted = this.quotes[contra].get(price) || 0;
+      const fromQuotes = Math.min(quoted, entry.remaining);
+      if (fromQuotes > 0) {
+        this.quotes[contra].set(price, quoted - fromQuotes);
+        this.taken[contra].set(price, (this.taken[contra].get(price) || 0) + fromQuotes);
+        fills.push(this.fill(entry, price, fromQuotes, 'TAKER'));
+        this.advanceQueue(contra, price, fromQuotes);
+        takenShares += fromQuotes;
+      }
+
+      // Displayed paper liquidity in time priority; refilled iceberg slices rejoin at the back.
+      // Orders the quotes filled earlier in this update are not pruned yet.
+      const queue = this.resting[contra].filter(e => e.price === price && e.remaining > 0);
+      while (entry.remaining > 0 && queue.length > 0) {
+        const maker = queue.shift();
+
+        // The resting order gives way to its owner's newer order
+        if (this.selfTrade(entry, maker)) {
+          this.resting[contra] = this.resting[contra].filter(e => e !== maker);
+          this.advanceQueue(contra, price, maker.shown, maker.sequence);
+          this.selfTradeCancels.push(maker.id);
+          continue;
+        }
+
+        const quantity = Math.min(maker.shown, entry.remaining);
+        const sequence = maker.sequence;
+
+        fills.push(this.fill(maker, price, quantity, 'MAKER'));
+        fills.push(this.fill(entry, price, quantity, 'TAKER'));
+        this.advanceQueue(contra, price, quantity, sequence);
+        takenShares += quantity;
+
+        if (maker.remaining > 0 && maker.shown === 0) {
+          this.reload(maker);
+          queue.push(maker);
+        }
+      }
+    }
+
+    if (takenShares > 0) {
+      const { impactBps, touchDepth } = this.config;
+      const direction = entry.side === 'BUY' ? 1 : -1;
+      this.impact += direction * (impactBps / 10000) * (takenShares / touchDepth);
+    }
+
+    return fills;
+  }
+
+  // Queue a limit order behind everything displayed at its price
+  rest(entry) {
+    entry.queueAhead = 0;
+    entry.shown = 0;
+    this.resting[entry.side].push(entry);
+    this.reload(entry);
+  }
+
+  // Show the next slice of an order at the back of its level's queue
+  reload(entry) {
+    const level = this.resting[entry.side].filter(e => e.price === entry.price && e !== entry);
+
+    entry.sequence = ++this.sequence;
+    entry.shown = entry.displayQuantity ? Math.min(entry.displayQuantity, entry.remaining) : entry.remaining;
+    this.moveQueue(entry,
+      (this.quotes[entry.side].get(entry.price) || 0) + level.reduce((sum, e) => sum + e.shown, 0)
+    );
+
+    this.resting[entry.side].sort((a, b) =>
+      a.price === b.price ? a.sequence - b.sequence : (entry.side === 'BUY' ? b.price - a.price : a.price - b.price)
+    );
+  }
+
+  // Trades at a level move the orders queued behind them forward
+  advanceQueue(side, price, shares, afterSequence = 0) {
+    this.resting[side]
+      .filter(e => e.price === price && e.sequence > afterSequence && e.remaining > 0)
+      .forEach(e => this.moveQueue(e, e.queueAhead - shares));
+  }
+
+  // Resting orders that the new quotes cross trade at their own price, hidden quantity included
+  matchCrossedOrders() {
+    const fills = [];
+
+    SIDES.forEach(side => {
+      const contra = opposite(side);
+      this.resting[side].slice().forEach(entry => {
+        const crossing = Array.from(this.quotes[contra].keys())
+          .filter(price => better(side, entry.price, price))
+          .sort((a, b) => (side === 'BUY' ? a - b : b - a));
+
+        for (const price of crossing) {
+          if (entry.remaining <= 0) break;
+          const quoted = this.quotes[contra].get(price);
+          const quantity = Math.min(quoted, entry.remaining);
+          if (quantity <= 0) continue;
+
+          this.quotes[contra].set(price, quoted - quantity);
+          this.taken[contra].set(price, (this.taken[contra].get(price) || 0) + quantity);
+          fills.push(this.fill(entry, entry.price, quantity, 'MAKER'));
+        }
+
+        if (entry.remaining > 0 && entry.shown === 0) {
+          this.reload(entry);
+        }
+      });
+    });
+
+    return fills;
+  }
+
+  // Volume printed at or through resting prices works through their queues, best level first
+  workQueues(lastPrice, traded) {
+    const fills = [];
+
+    SIDES.forEach(side => {
+      let volume = traded;
+      const reached = this.resting[side].filter(e => e.remaining > 0 && better(side, e.price, lastPrice));
+      const levels = Array.from(new Set(reached.map(e => e.price)));
+
+      for (const price of levels) {
+        if (volume <= 0) break;
+        let used = 0;
+
+        reached.filter(e => e.price === price).forEach(entry => {
+          used = Math.max(used, Math.min(volume, entry.queueAhead + entry.shown));
+          const quantity = Math.min(entry.shown, Math.max(0, Math.floor(volume - entry.queueAhead)));
+          this.moveQueue(entry, entry.queueAhead - volume);
+          if (quantity > 0) fills.push(this.fill(entry, price, quantity, 'MAKER'));
+        });
+
+        // Iceberg slices that filled show their next slice for the next print
+        reached
+          .filter(e => e.price === price && e.remaining > 0 && e.shown === 0)
+          .forEach(entry => this.reload(entry));
+
+        volume -= used;
+      }
+    });
+
+    return fills;
+  }
+
+  // Distance of a trailing stop from the best price seen
+  trailOffset(entry, anchor) {
+    return entry.trailAmount ? entry.trailAmount : anchor * entry.trailPercent / 100;
+  }
+
+  // Best price a trailing stop's current stop price was set from
+  trailAnchor(entry) {
+    const direction = entry.side === 'SELL' ? 1 : -1;
+    return entry.trailAmount
+      ? entry.stopPrice + direction * entry.trailAmount
+      : entry.stopPrice / (1 - direction * entry.trailPercent / 100);
+  }
+
+  // Ratchet trailing stops, then turn stops whose trigger was reached into market or limit orders
+  triggerStops() {
+    const fills = [];
+
+    this.stops
+      .filter(entry => entry.type === 'TRAILING_STOP')
+      .forEach(entry => {
+        entry.anchor = entry.side === 'SELL'
+          ? Math.max(entry.anchor, this.lastPrice)
+          : Math.min(entry.anchor, this.lastPrice);
+        const stopPrice = round(entry.anchor + (entry.side === 'SELL' ? -1 : 1) * this.trailOffset(entry, entry.anchor));
+
+        if (stopPrice !== entry.stopPrice) {
+          entry.stopPrice = stopPrice;
+          this.recordUpdate(entry.id, { stopPrice });
+        }
+      });
+
+    const triggered = this.stops.filter(entry =>
+      entry.side === 'BUY' ? this.lastPrice >= entry.stopPrice : this.lastPrice <= entry.stopPrice
+    );
+
+    this.stops = this.stops.filter(entry => !triggered.includes(entry));
+    triggered.forEach(entry => {
+      entry.type = entry.type === 'STOP_LIMIT' ? 'LIMIT' : 'MARKET';
+      fills.push(...this.execute(entry));
+    });
+
+    return fills;
+  }
+
+  fill(entry, price, quantity, liquidity) {
+    entry.remaining -= quantity;
+    if (entry.shown !== undefined) {
+      entry.shown = Math.max(0, Math.min(entry.shown - quantity, entry.remaining));
+    }
+    return { orderId: entry.id, price, quantity, liquidity };
+  }
+
+  moveQueue(entry, queueAhead) {
+    const next = Math.max(0, queueAhead);
+    if (Math.round(next) !== Math.round(entry.queueAhead)) {
+      this.recordUpdate(entry.id, { queuePosition: Math.round(next) });
+    }
+    entry.queueAhead = next;
+  }
+
+  recordUpdate(orderId, fields) {
+    this.updates.set(orderId, { ...this.updates.get(orderId), ...fields });
+  }
+
+  // Drop orders with nothing left to fill
+  prune() {
+    SIDES.forEach(side => {
+      this.resting[side] = this.resting[side].filter(entry => entry.remaining > 0);
+    });
+    this.working = this.working.filter(entry => entry.remaining > 0);
+  }
+}
+
+OrderBook.DEFAULT_CONFIG = DEFAULT_BOOK_CONFIG;
+
+module.exports = OrderBook;
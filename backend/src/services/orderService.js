@@ -1,57 +1,104 @@
+const crypto = require('crypto');
 const Order = require('../models/Order');
 const Trade = require('../models/Trade');
 const Position = require('../models/Position');
 const Portfolio = require('../models/Portfolio');
 const MarketData = require('../models/MarketData');
 const { broadcastToUser } = require('./websocketService');
+const tradingCalendarService = require('./tradingCalendarService');
+const matchingEngine = require('./matchingEngine');
+const riskEngine = require('./riskEngine');
+const marginService = require('./marginService');
+const corporateActionService = require('./corporateActionService');
+
+const OPEN_STATUSES = ['PENDING', 'WAITING', 'PARTIALLY_FILLED'];
+
+// Orders that fill on arrival or expire
+const IMMEDIATE = ['IOC', 'FOK'];
 
 class OrderService {
   constructor() {
+    // Fills are applied one batch at a time so partial fills of an order never interleave
+    this.fillQueue = Promise.resolve();
+
+    matchingEngine.on('fills', (fills) => this.queueFills(fills));
+    matchingEngine.on('updates', (updates) => this.updateWorkingOrders(updates));
+    matchingEngine.on('selfTradeCancels', (orderIds) => this.queueSelfTradeCancels(orderIds));
+    marginService.on('marginCall', ({ portfolio, orders }) => this.liquidate(portfolio, orders));
+    corporateActionService.on('applied', (action) => this.cancelForCorporateAction(action));
+
     // Start order processing engine
     this.startOrderProcessing();
   }
 
   /**
    * Place a new order
+   *
+   * With `orderData.bracket` ({ stopLoss, takeProfit, trailAmount, trailPercent })
+   * the order is the entry of a bracket: its exits are placed on the other
+   * side as WAITING orders and released once the entry fills.
    */
   async placeOrder(userId, portfolioId, orderData) {
     try {
+      const { bracket, ...fields } = orderData;
+
       // Create order
       const order = new Order({
         userId,
         portfolioId,
-        ...orderData,
-        remainingQuantity: orderData.quantity,
+        ...fields,
+        expiresAt: this.resolveExpiry(fields.timeInForce || 'DAY', fields.expiresAt),
+        role: bracket ? 'ENTRY' : fields.role,
+        remainingQuantity: fields.quantity,
         status: 'PENDING'
       });
 
       // Validate order
-      const validation = order.validateOrder();
-      if (!validation.isValid) {
+      const { errors } = order.validateOrder();
+      if (bracket) {
+        errors.push(...this.validateBracket(order, bracket, await this.getMarketPrice(order.symbol)));
+      }
+      if (errors.length > 0) {
         order.status = 'REJECTED';
-        order.rejectionReason = validation.errors.join(', ');
+        order.rejectionReason = errors.join(', ');
         await order.save();
         
         // Broadcast order update
         this.broadcastOrderUpdate(userId, order);
         
-        return { success: false, order, errors: validation.errors };
+        return { success: false, order, errors };
       }
 
-      // Check portfolio balance for buy orders
-      if (order.side === 'BUY') {
-        const portfolio = await Portfolio.findById(portfolioId);
-        const orderValue = (order.price || await this.getMarketPrice(order.symbol)) * order.quantity;
-        const commission = orderValue * 0.0001; // 0.01% commission
-        
-        if (portfolio.cashBalance < orderValue + commission) {
-          order.status = 'REJECTED';
-          order.rejectionReason = 'Insufficient funds';
-          await order.save();
-          
-          this.broadcastOrderUpdate(userId, order);
-          return { success: false, order, errors: ['Insufficient funds'] };
-        }
+      // Orders are only accepted in the order entry phases of the session
+      const session = tradingCalendarService.getPhase();
+      if (!session.acceptsOrders) {
+        const reason = session.phase === 'CLOSED'
+          ? `Market closed${session.holiday ? ` (${session.holiday})` : ''}`
+          : `Order entry is not allowed during ${session.phase.replace(/_/g, ' ').toLowerCase()}`;
+
+        order.status = 'REJECTED';
+        order.rejectionReason = reason;
+        await order.save();
+
+        this.broadcastOrderUpdate(userId, order);
+        return { success: false, order, errors: [reason] };
+      }
+
+      // Pre-trade risk checks against the account and the strategy placing the order;
+      // liquidations of a margin call have to go through
+      const { approved, violations } = order.role === 'LIQUIDATION'
+        ? { approved: true, violations: [] }
+        : await riskEngine.checkOrder(order, await this.getMarketPrice(order.symbol));
+      if (!approved) {
+        const reasons = violations.map(violation => violation.message);
+
+        order.status = 'REJECTED';
+        order.rejectionReason = reasons.join(', ');
+        order.riskViolations = violations;
+        await order.save();
+
+        this.broadcastOrderUpdate(userId, order);
+        return { success: false, order, errors: reasons, violations };
       }
 
       // Save order
@@ -60,16 +107,310 @@ class OrderService {
       // Broadcast order update
       this.broadcastOrderUpdate(userId, order);
 
-      // Schedule order processing
-      this.scheduleOrderProcessing(order._id);
+      // Exits exist before the entry can fill
+      if (bracket) {
+        await this.placeBracketExits(order, bracket);
+      }
+
+      // Match against the book; what is not filled rests or keeps working
+      await this.processOrder(order._id);
 
-      return { success: true, order };
+      return {
+        success: true,
+        order: await Order.findById(order._id),
+        linkedOrders: bracket ? await Order.find({ parentOrderId: order._id }) : undefined
+      };
     } catch (error) {
       console.error('Error placing order:', error);
       throw error;
     }
   }
 
+  /**
+   * Run the pre-trade risk checks on an order without placing it
+   */
+  async checkOrder(userId, portfolioId, orderData) {
+    const order = new Order({ userId, portfolioId, ...orderData, remainingQuantity: orderData.quantity });
+
+    return riskEngine.checkOrder(order, await this.getMarketPrice(order.symbol));
+  }
+
+  /**
+   * Place orders as a one-cancels-other group: the first fill of any of
+   * them cancels the rest
+   */
+  async placeOcoOrder(userId, portfolioId, legs) {
+    try {
+      const ocoGroupId = crypto.randomUUID();
+
+      for (const leg of legs) {
+        const result = await this.placeOrder(userId, portfolioId, { ...leg, ocoGroupId });
+
+        if (!result.success) {
+          // A rejected leg takes the legs already placed with it
+          await this.cancelOcoGroup(result.order);
+          return { success: false, order: result.order, errors: result.errors, violations: result.violations };
+        }
+
+        // A leg that traded on placement has already cancelled the group
+        if (result.order.filledQuantity > 0) break;
+      }
+
+      return { success: true, orders: await Order.find({ ocoGroupId }).sort({ createdAt: 1 }) };
+    } catch (error) {
+      console.error('Error placing OCO order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * When an order stops being good: the close of the session it was placed
+   * for (DAY), the session close of a GTD date or an exact GTD time
+   */
+  resolveExpiry(timeInForce, expiresAt) {
+    if (timeInForce === 'DAY') {
+      return tradingCalendarService.nextClose();
+    }
+    if (timeInForce !== 'GTD' || !expiresAt) {
+      return expiresAt;
+    }
+
+    const expiry = /^\d{4}-\d{2}-\d{2}$/.test(expiresAt)
+      ? tradingCalendarService.sessionCloseOn(expiresAt)
+      : new Date(expiresAt);
+    return expiry && !isNaN(expiry.getTime()) ? expiry : null;
+  }
+
+  /**
+   * Check the exits of a bracket against its entry price
+   */
+  validateBracket(entry, bracket, marketPrice) {
+    const errors = [];
+    const { stopLoss, takeProfit, trailAmount, trailPercent } = bracket;
+    const trailing = Boolean(trailAmount || trailPercent);
+
+    if (!stopLoss && !takeProfit && !trailing) {
+      errors.push('A bracket needs a stop loss, a trailing stop or a take profit');
+    }
+    if (stopLoss && trailing) {
+      errors.push('A bracket stop loss is either fixed or trailing');
+    }
+    if (trailAmount && trailPercent) {
+      errors.push('A trailing stop has either a trail amount or a trail percent');
+    }
+
+    const entryPrice = entry.price || entry.stopPrice || marketPrice;
+    const long = entry.side === 'BUY';
+    if (stopLoss && (long ? stopLoss >= entryPrice : stopLoss <= entryPrice)) {
+      errors.push(`Stop loss must be ${long ? 'below' : 'above'} the entry price`);
+    }
+    if (takeProfit && (long ? takeProfit <= entryPrice : takeProfit >= entryPrice)) {
+      errors.push(`Take profit must be ${long ? 'above' : 'below'} the entry price`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Create the waiting stop loss and take profit of a bracket entry
+   */
+  async placeBracketExits(entry, bracket) {
+    const { stopLoss, takeProfit, trailAmount, trailPercent } = bracket;
+    const common = {
+      userId: entry.userId,
+      portfolioId: entry.portfolioId,
+      strategyId: entry.strategyId,
+      symbol: entry.symbol,
+      side: entry.side === 'BUY' ? 'SELL' : 'BUY',
+      quantity: entry.quantity,
+      remainingQuantity: entry.quantity,
+      parentOrderId: entry._id,
+      status: 'WAITING',
+      // Exits rest until they trade, even behind an IOC or FOK entry
+      timeInForce: IMMEDIATE.includes(entry.timeInForce) ? 'DAY' : entry.timeInForce,
+      expiresAt: IMMEDIATE.includes(entry.timeInForce) ? this.resolveExpiry('DAY') : entry.expiresAt,
+      tags: entry.tags
+    };
+
+    const exits = [];
+    if (stopLoss || trailAmount || trailPercent) {
+      exits.push(new Order({
+        ...common,
+        role: 'STOP_LOSS',
+        ...(stopLoss ? { type: 'STOP', stopPrice: stopLoss } : { type: 'TRAILING_STOP', trailAmount, trailPercent })
+      }));
+    }
+    if (takeProfit) {
+      exits.push(new Order({ ...common, role: 'TAKE_PROFIT', type: 'LIMIT', price: takeProfit }));
+    }
+
+    // Whichever exit trades first cancels the other
+    if (exits.length > 1) {
+      exits.forEach(exit => { exit.ocoGroupId = entry._id.toString(); });
+    }
+
+    for (const exit of exits) {
+      await exit.save();
+      this.broadcastOrderUpdate(entry.userId, exit);
+    }
+  }
+
+  /**
+   * Release the exits of a bracket entry that has stopped trading: sized to
+   * what the entry filled, or cancelled when it filled nothing
+   */
+  async releaseBracket(entry) {
+    const exits = await Order.find({ parentOrderId: entry._id, status: 'WAITING' });
+
+    for (const exit of exits) {
+      if (entry.filledQuantity > 0) {
+        exit.quantity = entry.filledQuantity;
+        exit.remainingQuantity = entry.filledQuantity;
+        exit.status = 'PENDING';
+        await exit.save();
+      } else {
+        await exit.cancelOrder();
+      }
+      this.broadcastOrderUpdate(exit.userId, exit);
+
+      // Not awaited: releases run inside the fill queue the submission waits on
+      if (exit.status === 'PENDING') {
+        this.processOrder(exit._id);
+      }
+    }
+  }
+
+  /**
+   * Close positions of an account in a margin call: open orders are
+   * cancelled and the positions are sold or bought back at market
+   * @param {Object} portfolio - Portfolio document
+   * @param {Object[]} orders - Liquidation plan { symbol, side, quantity }
+   */
+  async liquidate(portfolio, orders) {
+    try {
+      if (!tradingCalendarService.isMarketOpen() || orders.length === 0) return;
+
+      // Wait for the liquidations already working
+      const working = await Order.exists({
+        portfolioId: portfolio._id,
+        role: 'LIQUIDATION',
+        status: { $in: OPEN_STATUSES }
+      });
+      if (working) return;
+
+      // Waiting bracket exits go first so cancelled entries release nothing
+      const open = await Order.find({ portfolioId: portfolio._id, status: { $in: OPEN_STATUSES } })
+        .sort({ status: -1 });
+      for (const order of open) {
+        await this.cancelOrder(order.userId, order._id);
+      }
+
+      for (const { symbol, side, quantity } of orders) {
+        await this.placeOrder(portfolio.userId, portfolio._id, {
+          symbol,
+          side,
+          type: 'MARKET',
+          quantity,
+          role: 'LIQUIDATION'
+        });
+      }
+    } catch (error) {
+      console.error('Error liquidating portfolio:', error);
+    }
+  }
+
+  /**
+   * Cancel open orders in a symbol whose shares were split or issued as a
+   * bonus: their prices and quantities refer to the shares before the change
+   * @param {Object} action - Corporate action
+   */
+  async cancelForCorporateAction(action) {
+    try {
+      if (action.type === 'DIVIDEND') return;
+
+      // Waiting bracket exits go first so cancelled entries release nothing
+      const open = await Order.find({ symbol: action.symbol, status: { $in: OPEN_STATUSES } })
+        .sort({ status: -1 });
+      for (const order of open) {
+        await this.cancelOrder(order.userId, order._id);
+      }
+    } catch (error) {
+      console.error('Error cancelling orders for corporate action:', error);
+    }
+  }
+
+  /**
+   * Cancel every open order of a portfolio that is reset or archived, or
+   * only those of one strategy when a paper trading session stops
+   * @param {string} portfolioId - Portfolio id
+   * @param {Object} filter - Optional { strategyId }
+   * @returns {Promise<number>} Orders cancelled
+   */
+  async cancelPortfolioOrders(portfolioId, { strategyId } = {}) {
+    // Waiting bracket exits go first so cancelled entries release nothing
+    const open = await Order.find({
+      portfolioId,
+      ...(strategyId ? { strategyId } : {}),
+      status: { $in: OPEN_STATUSES }
+    })
+      .sort({ status: -1 });
+    for (const order of open) {
+      await this.cancelOrder(order.userId, order._id);
+    }
+    return open.length;
+  }
+
+  /**
+   * Expire open orders whose time in force ran out
+   */
+  async expireOrders(now = new Date()) {
+    try {
+      const due = await Order.find({
+        status: { $in: OPEN_STATUSES },
+        expiresAt: { $lte: now }
+      });
+
+      for (const order of due) {
+        await this.expireOrder(order);
+      }
+    } catch (error) {
+      console.error('Error expiring orders:', error);
+    }
+  }
+
+  /**
+   * Take an order out of the book as EXPIRED; linked orders follow as on cancel
+   */
+  async expireOrder(order) {
+    matchingEngine.cancel(order._id);
+    await order.expireOrder();
+    this.broadcastOrderUpdate(order.userId, order);
+
+    if (order.role === 'ENTRY') {
+      await this.releaseBracket(order);
+    }
+    if (order.ocoGroupId) {
+      await this.cancelOcoGroup(order);
+    }
+  }
+
+  /**
+   * Cancel the open orders of an order's OCO group
+   */
+  async cancelOcoGroup(order) {
+    const others = await Order.find({
+      ocoGroupId: order.ocoGroupId,
+      _id: { $ne: order._id },
+      status: { $in: OPEN_STATUSES }
+    });
+
+    for (const other of others) {
+      matchingEngine.cancel(other._id);
+      await other.cancelOrder();
+      this.broadcastOrderUpdate(other.userId, other);
+    }
+  }
+
   /**
    * Cancel an order
    */
@@ -81,15 +422,24 @@ class OrderService {
         return { success: false, error: 'Order not found' };
       }
 
-      if (order.status !== 'PENDING' && order.status !== 'PARTIALLY_FILLED') {
+      if (!OPEN_STATUSES.includes(order.status)) {
         return { success: false, error: 'Cannot cancel order with status: ' + order.status };
       }
 
+      matchingEngine.cancel(order._id);
       await order.cancelOrder();
       
       // Broadcast order update
       this.broadcastOrderUpdate(userId, order);
 
+      // Cancellation propagates to linked orders
+      if (order.role === 'ENTRY') {
+        await this.releaseBracket(order);
+      }
+      if (order.ocoGroupId) {
+        await this.cancelOcoGroup(order);
+      }
+
       return { success: true, order };
     } catch (error) {
       console.error('Error cancelling order:', error);
@@ -108,13 +458,15 @@ class OrderService {
         return { success: false, error: 'Order not found' };
       }
 
-      if (order.status !== 'PENDING' && order.status !== 'PARTIALLY_FILLED') {
+      if (!OPEN_STATUSES.includes(order.status)) {
         return { success: false, error: 'Cannot modify order with status: ' + order.status };
       }
 
       // Update allowed fields
       if (updates.price !== undefined) order.price = updates.price;
       if (updates.stopPrice !== undefined) order.stopPrice = updates.stopPrice;
+      if (updates.trailAmount !== undefined) order.trailAmount = updates.trailAmount;
+      if (updates.trailPercent !== undefined) order.trailPercent = updates.trailPercent;
       if (updates.quantity !== undefined && updates.quantity > order.filledQuantity) {
         order.quantity = updates.quantity;
         order.remainingQuantity = updates.quantity - order.filledQuantity;
@@ -126,12 +478,37 @@ class OrderService {
         return { success: false, errors: validation.errors };
       }
 
+      // The modified order has to pass the same pre-trade risk checks as a new one;
+      // what already filled is in the position, so only the unfilled rest is checked.
+      // A rejected modification leaves the order as it was.
+      if (order.role !== 'LIQUIDATION') {
+        const { approved, violations } = await riskEngine.checkOrder(
+          { ...order.toObject(), quantity: order.remainingQuantity },
+          await this.getMarketPrice(order.symbol)
+        );
+        if (!approved) {
+          return { success: false, error: 'Order modification rejected', errors: violations.map(violation => violation.message), violations };
+        }
+      }
+
+      // Waiting bracket exits are not in the book yet
+      if (order.status === 'WAITING') {
+        await order.save();
+        this.broadcastOrderUpdate(userId, order);
+        return { success: true, order };
+      }
+
+      // A modified order loses its place in the queue and is matched again
+      matchingEngine.cancel(order._id);
+      order.queuePosition = undefined;
       await order.save();
       
       // Broadcast order update
       this.broadcastOrderUpdate(userId, order);
 
-      return { success: true, order };
+      await this.processOrder(order._id);
+
+      return { success: true, order: await Order.findById(order._id) };
     } catch (error) {
       console.error('Error modifying order:', error);
       throw error;
@@ -200,6 +577,7 @@ class OrderService {
   async getMarketPrice(symbol) {
     try {
       const marketData = await MarketData.findOne({ symbol: symbol.toUpperCase() })
+        .live()
         .sort({ timestamp: -1 });
       
       return marketData ? marketData.price : 1000; // Default price if not found
@@ -210,107 +588,133 @@ class OrderService {
   }
 
   /**
-   * Schedule order processing
-   */
-  scheduleOrderProcessing(orderId) {
-    // Process market orders immediately, limit orders with delay
-    setTimeout(async () => {
-      await this.processOrder(orderId);
-    }, Math.random() * 5000 + 1000); // 1-6 seconds delay
-  }
-
-  /**
-   * Process an order (simulate fills)
+   * Submit an open order to the matching engine and apply its fills
    */
   async processOrder(orderId) {
     try {
       const order = await Order.findById(orderId);
-      if (!order || order.status !== 'PENDING') return;
+      if (!order || (order.status !== 'PENDING' && order.status !== 'PARTIALLY_FILLED')) return;
 
-      // Get current market price
-      const marketPrice = await this.getMarketPrice(order.symbol);
-      
-      // Determine if order should fill
-      let shouldFill = false;
-      let fillPrice = marketPrice;
-
-      switch (order.type) {
-        case 'MARKET':
-          shouldFill = true;
-          // Add slippage for market orders
-          const slippage = (Math.random() * 0.004 + 0.001) * (order.side === 'BUY' ? 1 : -1);
-          fillPrice = marketPrice * (1 + slippage);
-          break;
-          
-        case 'LIMIT':
-          if (order.side === 'BUY' && marketPrice <= order.price) {
-            shouldFill = true;
-            fillPrice = order.price;
-          } else if (order.side === 'SELL' && marketPrice >= order.price) {
-            shouldFill = true;
-            fillPrice = order.price;
-          }
-          break;
-          
-        case 'STOP':
-          if (order.side === 'BUY' && marketPrice >= order.stopPrice) {
-            shouldFill = true;
-            fillPrice = marketPrice;
-          } else if (order.side === 'SELL' && marketPrice <= order.stopPrice) {
-            shouldFill = true;
-            fillPrice = marketPrice;
-          }
-          break;
-          
-        case 'STOP_LIMIT':
-          // Convert to limit order when stop price is hit
-          if (order.side === 'BUY' && marketPrice >= order.stopPrice && marketPrice <= order.price) {
-            shouldFill = true;
-            fillPrice = order.price;
-          } else if (order.side === 'SELL' && marketPrice <= order.stopPrice && marketPrice >= order.price) {
-            shouldFill = true;
-            fillPrice = order.price;
-          }
-          break;
-      }
+      // Already resting or working in its book
+      if (matchingEngine.has(order._id)) return;
 
-      if (shouldFill) {
-        // Determine fill quantity (full or partial)
-        const fillScenario = Math.random();
-        let fillQuantity;
-        
-        if (fillScenario < 0.8) {
-          // 80% chance of full fill
-          fillQuantity = order.remainingQuantity;
-        } else {
-          // 20% chance of partial fill
-          fillQuantity = Math.floor(order.remainingQuantity * (0.3 + Math.random() * 0.4));
-        }
+      // Orders accepted outside continuous trading wait for the market to open;
+      // the background processor submits them then
+      if (!tradingCalendarService.isMarketOpen()) return;
 
-        if (fillQuantity > 0) {
-          await this.fillOrder(order, fillQuantity, fillPrice);
+      const marketPrice = await this.getMarketPrice(order.symbol);
+      const fills = matchingEngine.submit(order, marketPrice);
+      await this.queueFills(fills);
+
+      // IOC and FOK orders never rest: what the book did not fill expires
+      if (IMMEDIATE.includes(order.timeInForce) && !matchingEngine.has(order._id)) {
+        const unfilled = await Order.findById(order._id);
+        if (unfilled && OPEN_STATUSES.includes(unfilled.status)) {
+          await this.expireOrder(unfilled);
         }
+        return;
       }
 
-      // Schedule next processing attempt if order is still pending
-      if (order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED') {
-        setTimeout(() => {
-          this.processOrder(orderId);
-        }, Math.random() * 10000 + 5000); // 5-15 seconds
+      const queuePosition = matchingEngine.queuePosition(order._id);
+      if (queuePosition !== null) {
+        await this.updateWorkingOrders([{ orderId: order._id.toString(), queuePosition }]);
       }
     } catch (error) {
       console.error('Error processing order:', error);
     }
   }
 
+  /**
+   * Apply matching engine fills after any batch already being applied
+   */
+  queueFills(fills) {
+    this.fillQueue = this.fillQueue
+      .then(() => this.applyFills(fills))
+      .catch(error => console.error('Error applying fills:', error));
+    return this.fillQueue;
+  }
+
+  /**
+   * Apply fills to their orders in execution order
+   */
+  async applyFills(fills) {
+    for (const fill of fills) {
+      const order = await Order.findById(fill.orderId);
+      if (!order || !OPEN_STATUSES.includes(order.status) || fill.quantity > order.remainingQuantity) continue;
+
+      await this.fillOrder(order, fill.quantity, fill.price, fill.liquidity);
+
+      if (order.ocoGroupId) {
+        await this.cancelOcoGroup(order);
+      }
+      if (order.role === 'ENTRY' && order.status === 'FILLED') {
+        await this.releaseBracket(order);
+      }
+    }
+  }
+
+  /**
+   * Cancel resting orders the engine took out of the book to prevent a
+   * self-trade, once the fills queued before them are applied
+   */
+  queueSelfTradeCancels(orderIds) {
+    this.fillQueue = this.fillQueue
+      .then(() => this.cancelSelfTrades(orderIds))
+      .catch(error => console.error('Error cancelling self-trading orders:', error));
+    return this.fillQueue;
+  }
+
+  /**
+   * Cancel orders a newer order of their user reached in the book; linked
+   * orders follow as on cancel
+   */
+  async cancelSelfTrades(orderIds) {
+    for (const orderId of orderIds) {
+      const order = await Order.findOne({ _id: orderId, status: { $in: OPEN_STATUSES } });
+      if (!order) continue;
+
+      order.rejectionReason = 'Cancelled to prevent a self-trade with another order of the same user';
+      await order.cancelOrder();
+      this.broadcastOrderUpdate(order.userId, order);
+
+      if (order.role === 'ENTRY') {
+        await this.releaseBracket(order);
+      }
+      if (order.ocoGroupId) {
+        await this.cancelOcoGroup(order);
+      }
+    }
+  }
+
+  /**
+   * Store and broadcast queue positions and trailing stop prices the engine moved
+   */
+  async updateWorkingOrders(updates) {
+    try {
+      for (const { orderId, ...fields } of updates) {
+        const order = await Order.findOneAndUpdate(
+          { _id: orderId, status: { $in: ['PENDING', 'PARTIALLY_FILLED'] } },
+          { $set: fields },
+          { new: true }
+        );
+        if (order) this.broadcastOrderUpdate(order.userId, order);
+      }
+    } catch (error) {
+      console.error('Error updating working orders:', error);
+    }
+  }
+
   /**
    * Fill an order
    */
-  async fillOrder(order, fillQuantity, fillPrice) {
+  async fillOrder(order, fillQuantity, fillPrice, liquidity) {
     try {
       // Fill the order
       await order.fillOrder(fillQuantity, fillPrice);
 
+      // Update or create position; what the fill closes is realised
+      const realizedPnL = await this.updatePosition(order, fillQuantity, fillPrice);
+
       // Create trade record
       const trade = new Trade({
         userId: order.userId,
@@ -321,12 +725,14 @@ class OrderService {
         side: order.side,
         quantity: fillQuantity,
         price: fillPrice,
+        pnl: realizedPnL,
+        liquidity,
         executedAt: new Date()
       });
       await trade.save();
 
-      // Update or create position
-      await this.updatePosition(order, fillQuantity, fillPrice);
+      // Settle cash: short sales are credited like any other sale
+      await Portfolio.settleTrade(order.portfolioId, order.side, fillQuantity, fillPrice, trade.commission);
 
       // Update portfolio
       await this.updatePortfolio(order.portfolioId);
@@ -342,52 +748,72 @@ class OrderService {
   }
 
   /**
-   * Update position after order fill
+   * Update position after order fill. Quantities are kept positive with the
+   * side telling longs from shorts; a fill larger than the position closes
+   * it and opens one on the other side with the rest.
+   * @returns {Promise<number>} P&L realised by the fill
    */
   async updatePosition(order, fillQuantity, fillPrice) {
     try {
-      let position = await Position.findOne({
+      const side = order.side === 'BUY' ? 'long' : 'short';
+      const position = await Position.findOne({
         userId: order.userId,
         portfolioId: order.portfolioId,
         symbol: order.symbol,
         status: 'open'
       });
 
-      if (!position) {
+      if (position && position.side === side) {
+        // Add to the position
+        const quantity = position.quantity + fillQuantity;
+        position.averagePrice = (position.quantity * position.averagePrice + fillQuantity * fillPrice) / quantity;
+        position.quantity = quantity;
+        await position.save();
+        this.broadcastPositionUpdate(order.userId, position);
+        return 0;
+      }
+
+      let realizedPnL = 0;
+      let opening = fillQuantity;
+
+      if (position) {
+        // Reduce the position
+        const closing = Math.min(fillQuantity, position.quantity);
+        const priceDiff = position.side === 'long'
+          ? fillPrice - position.averagePrice
+          : position.averagePrice - fillPrice;
+
+        realizedPnL = closing * priceDiff;
+        position.realizedPnL += realizedPnL;
+        position.quantity -= closing;
+        opening -= closing;
+
+        if (position.quantity === 0) {
+          // Position closed
+          position.status = 'closed';
+          position.closedAt = new Date();
+        }
+
+        await position.save();
+        this.broadcastPositionUpdate(order.userId, position);
+      }
+
+      if (opening > 0) {
         // Create new position
-        position = new Position({
+        const opened = new Position({
           userId: order.userId,
           portfolioId: order.portfolioId,
           symbol: order.symbol,
-          side: order.side === 'BUY' ? 'long' : 'short',
-          quantity: order.side === 'BUY' ? fillQuantity : -fillQuantity,
+          side,
+          quantity: opening,
           averagePrice: fillPrice,
           currentPrice: fillPrice
         });
-      } else {
-        // Update existing position
-        const currentQuantity = position.quantity;
-        const currentValue = currentQuantity * position.averagePrice;
-        const fillValue = (order.side === 'BUY' ? fillQuantity : -fillQuantity) * fillPrice;
-        
-        const newQuantity = currentQuantity + (order.side === 'BUY' ? fillQuantity : -fillQuantity);
-        
-        if (newQuantity === 0) {
-          // Position closed
-          position.status = 'closed';
-          position.closedAt = new Date();
-        } else {
-          // Update average price
-          position.averagePrice = (currentValue + fillValue) / newQuantity;
-          position.quantity = newQuantity;
-          position.side = newQuantity > 0 ? 'long' : 'short';
-        }
+        await opened.save();
+        this.broadcastPositionUpdate(order.userId, opened);
       }
 
-      await position.save();
-      
-      // Broadcast position update
-      this.broadcastPositionUpdate(order.userId, position);
+      return realizedPnL;
 
     } catch (error) {
       console.error('Error updating position:', error);
@@ -421,15 +847,19 @@ class OrderService {
   startOrderProcessing() {
     setInterval(async () => {
       try {
-        // Get all pending orders
-        const pendingOrders = await Order.find({
+        // DAY orders expire at the close, GTD orders at their expiry
+        await this.expireOrders();
+
+        if (!tradingCalendarService.isMarketOpen()) return;
+
+        // Submit open orders the engine is not working: orders accepted before
+        // the open and orders that were open when the server restarted
+        const openOrders = await Order.find({
           status: { $in: ['PENDING', 'PARTIALLY_FILLED'] }
         });
 
-        // Process each order
-        for (const order of pendingOrders) {
-          // Random chance to process (to simulate realistic order processing)
-          if (Math.random() < 0.1) { // 10% chance per interval
+        for (const order of openOrders) {
+          if (!matchingEngine.has(order._id)) {
             await this.processOrder(order._id);
           }
         }
@@ -0,0 +1,754 @@
+const mongoose = require('mongoose');
+const PaperTradingSession = require('../models/PaperTradingSession');
+const Strategy = require('../models/Strategy');
+const Order = require('../models/Order');
+const Trade = require('../models/Trade');
+const Activity = require('../models/Activity');
+const barService = require('./barService');
+const orderService = require('./orderService');
+const backtestService = require('./backtestService');
+const signalJournalService = require('./signalJournalService');
+const tradingCalendarService = require('./tradingCalendarService');
+const { broadcastToUser } = require('./websocketService');
+const {
+  normalizeDeploymentConfig,
+  withinTradingHours,
+  replaySessionTrades,
+  sessionStatistics,
+  sessionRiskMetrics,
+  entryQuantity,
+  entryBracket
+} = require('../utils/paperTrading');
+const { createSignal, recordSignalOrder, rejectSignal } = require('../utils/signalJournal');
+
+// How often running sessions are restored and their statistics refreshed
+const MONITOR_INTERVAL_MS = 30 * 1000;
+
+// Bars replayed through a strategy before it trades, so its indicators are ready
+const WARMUP_BARS = 200;
+
+// Bars a strategy can look back on through ctx.history
+const HISTORY_LIMIT = 500;
+
+// Alerts kept on a session
+const MAX_ALERTS = 50;
+
+const DEFAULT_TIMEFRAME = '5m';
+
+const OPEN_STATUSES = ['PENDING', 'WAITING', 'PARTIALLY_FILLED'];
+
+const formatAmount = (value) => `₹${Number(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Paper trading sessions: strategies deployed to trade live bars on the
+ * server. Each running session has a worker that feeds completed bars of
+ * its symbol to the strategy's signal handler and routes the orders it asks
+ * for through the order service, sized and bracketed by the deployment
+ * config and checked by the pre-trade risk engine like any other order.
+ * Each signal is journaled with the order it became or the reason it did
+ * not become one. Statistics and risk usage are recomputed from the
+ * session's fills after every bar; a session that breaches its loss limits
+ * is paused.
+ *
+ * Workers live in memory only. Session status is stored, and running
+ * sessions without a worker, for example after a restart, are picked up
+ * again by the monitor.
+ */
+class PaperTradingService {
+  constructor() {
+    this.workers = new Map(); // sessionId -> { handler, parameters, history, unsubscribe, queue, lastClose }
+    this.starting = new Map(); // sessionId -> { promise, cancelled } while a worker warms up
+
+    // Start session monitoring
+    this.startMonitoring();
+  }
+
+  /**
+   * Sessions of a user, newest first
+   * @param {Object} filter - { status }
+   */
+  async getSessions(userId, { status } = {}) {
+    const query = { userId };
+    if (status) query.status = status;
+
+    return PaperTradingSession.find(query)
+      .sort({ startedAt: -1 })
+      .populate('strategy', 'name description type status parameters performance');
+  }
+
+  async getSession(userId, sessionId) {
+    if (!mongoose.isValidObjectId(sessionId)) return null;
+
+    return PaperTradingSession.findOne({ _id: sessionId, userId })
+      .populate('strategy', 'name description type status parameters performance');
+  }
+
+  /**
+   * Deploy a strategy to paper trading
+   * @param {Object} portfolio - Portfolio the session trades in
+   * @param {Object} request - { strategyId, config, symbol, timeframe }; the symbol
+   *   and timeframe default to the strategy's parameters
+   * @returns {Promise<Object>} { success, session, error }
+   */
+  async deploy(userId, portfolio, { strategyId, config, symbol, timeframe }) {
+    const strategy = mongoose.isValidObjectId(strategyId)
+      && await Strategy.findOne({ _id: strategyId, userId, isArchived: false });
+    if (!strategy) {
+      return { success: false, error: 'Strategy not found' };
+    }
+
+    const running = await PaperTradingSession.exists({ userId, strategyId, status: { $ne: 'STOPPED' } });
+    if (running) {
+      return { success: false, error: `${strategy.name} is already deployed to paper trading` };
+    }
+
+    symbol = String(symbol || strategy.parameters?.symbol || '').trim().toUpperCase();
+    if (!symbol) {
+      return { success: false, error: 'Choose the symbol the strategy trades' };
+    }
+
+    timeframe = timeframe || strategy.parameters?.timeframe || DEFAULT_TIMEFRAME;
+    if (!barService.liveTimeframes.includes(timeframe)) {
+      return { success: false, error: `Paper trading runs on ${barService.liveTimeframes.join(', ')} bars` };
+    }
+
+    let normalized;
+    try {
+      normalized = normalizeDeploymentConfig(config);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+
+    const session = await PaperTradingSession.create({
+      userId,
+      strategyId: strategy._id,
+      portfolioId: portfolio._id,
+      symbol,
+      timeframe,
+      config: normalized,
+      statistics: { currentCapital: normalized.capital },
+      peakEquity: normalized.capital,
+      dayKey: tradingCalendarService.dateKey(new Date(), normalized.tradingHours.exchange),
+      dayStartEquity: normalized.capital
+    });
+
+    try {
+      await this.startWorker(session);
+    } catch (error) {
+      await session.deleteOne();
+      return { success: false, error: error.message };
+    }
+
+    // Orders of the session are checked against its limits by the risk engine
+    strategy.riskLimits = {
+      ...(strategy.riskLimits ? strategy.riskLimits.toObject() : {}),
+      capital: normalized.capital,
+      maxPositionSizePercent: normalized.maxPositionSizePercent,
+      maxDailyLoss: normalized.maxDailyLoss,
+      maxDailyLossPercent: normalized.maxDailyLossPercent,
+      maxConcurrentTrades: normalized.maxConcurrentTrades
+    };
+    await strategy.deploy();
+
+    await Activity.create({
+      userId,
+      portfolioId: portfolio._id,
+      type: 'strategy',
+      action: 'deploy',
+      title: 'Strategy Deployed',
+      description: `Deployed ${strategy.name} to paper trading on ${symbol} ${timeframe} bars with ${formatAmount(normalized.capital)}`,
+      status: 'success',
+      strategyId: strategy._id,
+      symbol
+    });
+
+    return { success: true, session: await this.getSession(userId, session._id) };
+  }
+
+  /**
+   * Pause a running session; its open orders keep working
+   * @param {string} reason - Why the session was paused, shown with it
+   * @returns {Promise<Object>} { success, session, error }
+   */
+  async pause(userId, sessionId, reason) {
+    const session = await this.getSession(userId, sessionId);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    if (session.status !== 'RUNNING') {
+      return { success: false, error: 'Only running sessions can be paused' };
+    }
+
+    await this.pauseSession(session, reason || 'Paused by user');
+    return { success: true, session };
+  }
+
+  /**
+   * Resume a paused session. Sessions paused by their loss limits resume
+   * once the limits allow trading again, for example on the next day.
+   * @returns {Promise<Object>} { success, session, error }
+   */
+  async resume(userId, sessionId) {
+    const session = await this.getSession(userId, sessionId);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    if (session.status !== 'PAUSED') {
+      return { success: false, error: 'Only paused sessions can be resumed' };
+    }
+
+    await this.refresh(session);
+    if (session.riskMetrics.isRiskLimitBreached) {
+      return { success: false, error: 'The session is still over its loss limits' };
+    }
+
+    try {
+      await this.startWorker(session);
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+
+    session.status = 'RUNNING';
+    session.pausedAt = undefined;
+    session.pauseReason = undefined;
+    this.addAlert(session, { type: 'INFO', title: 'Session Resumed', message: `${session.strategy.name} is trading again` });
+    await session.save();
+    await Strategy.updateOne({ _id: session.strategyId }, { status: 'ACTIVE', lastModifiedAt: new Date() });
+
+    this.broadcast(session);
+    return { success: true, session };
+  }
+
+  /**
+   * Stop a session for good: its open orders are cancelled and its
+   * position is closed at market while the market is open
+   * @returns {Promise<Object>} { success, session, error }
+   */
+  async stop(userId, sessionId) {
+    const session = await this.getSession(userId, sessionId);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    if (session.status === 'STOPPED') {
+      return { success: false, error: 'Session is already stopped' };
+    }
+
+    await this.stopWorker(session._id);
+    await orderService.cancelPortfolioOrders(session.portfolioId, { strategyId: session.strategyId });
+
+    const book = await this.getBook(session);
+    if (book.quantity !== 0) {
+      if (tradingCalendarService.isMarketOpen(new Date(), session.config.tradingHours.exchange)) {
+        await this.submit(session, {
+          side: book.quantity > 0 ? 'SELL' : 'BUY',
+          quantity: Math.abs(book.quantity),
+          reason: 'Session stopped'
+        });
+      } else {
+        this.addAlert(session, {
+          type: 'WARNING',
+          title: 'Position Left Open',
+          message: `The market is closed; close the ${Math.abs(book.quantity)} ${session.symbol} shares of the session manually`,
+          symbol: session.symbol
+        });
+      }
+    }
+
+    session.status = 'STOPPED';
+    session.stoppedAt = new Date();
+    await this.refresh(session);
+
+    const others = await PaperTradingSession.exists({
+      strategyId: session.strategyId,
+      status: { $ne: 'STOPPED' },
+      _id: { $ne: session._id }
+    });
+    if (!others) {
+      await Strategy.updateOne({ _id: session.strategyId }, { status: 'STOPPED', lastModifiedAt: new Date() });
+    }
+
+    await Activity.create({
+      userId,
+      portfolioId: session.portfolioId,
+      type: 'strategy',
+      action: 'stop',
+      title: 'Strategy Stopped',
+      description: `Stopped paper trading ${session.strategy ? session.strategy.name : 'strategy'} with ${formatAmount(session.statistics.totalPnL)} P&L`,
+      status: 'info',
+      strategyId: session.strategyId,
+      symbol: session.symbol
+    });
+
+    return { success: true, session };
+  }
+
+  // Stop trading and record why; used for user pauses, risk breaches and strategy errors
+  async pauseSession(session, reason, alert) {
+    await this.stopWorker(session._id);
+
+    session.status = 'PAUSED';
+    session.pausedAt = new Date();
+    session.pauseReason = reason;
+    this.addAlert(session, alert || { type: 'INFO', title: 'Session Paused', message: reason });
+    await session.save();
+    await Strategy.updateOne({ _id: session.strategyId, status: 'ACTIVE' }, { status: 'PAUSED', lastModifiedAt: new Date() });
+
+    this.broadcast(session);
+  }
+
+  /**
+   * Load the strategy of a session, warm it up on recent bars and
+   * subscribe it to completed bars of its symbol. The startup is registered
+   * before its first await, so concurrent callers (a deploy and the monitor)
+   * share it instead of giving the session a second worker.
+   */
+  startWorker(session) {
+    const id = String(session._id);
+    if (this.workers.has(id)) return Promise.resolve();
+    if (this.starting.has(id)) {
+      // Resumed while a cancelled startup is still warming up
+      const startup = this.starting.get(id);
+      startup.cancelled = false;
+      return startup.promise;
+    }
+
+    const startup = { cancelled: false };
+    startup.promise = this.createWorker(session, startup).finally(() => this.starting.delete(id));
+    this.starting.set(id, startup);
+    return startup.promise;
+  }
+
+  async createWorker(session, startup) {
+    const id = String(session._id);
+    const strategy = await Strategy.findById(session.strategyId).populate('template', 'name isBuiltIn');
+    if (!strategy) {
+      throw new Error('Strategy not found');
+    }
+
+    const parameters = { ...strategy.parameters, symbol: session.symbol };
+    const handler = await backtestService.createStrategyHandler(strategy, session.symbol, parameters);
+    const worker = { handler, parameters, history: [], unsubscribe: null, queue: Promise.resolve(), lastClose: null };
+
+    try {
+      const now = new Date();
+      const bars = await barService.getBars(
+        session.symbol,
+        session.timeframe,
+        new Date(now.getTime() - barService.lookback(session.timeframe, WARMUP_BARS)),
+        now
+      );
+
+      // Signals on past bars are not traded
+      const book = await this.getBook(session);
+      for (const bar of bars.slice(-WARMUP_BARS)) {
+        worker.history.push(bar);
+        await handler.onBar(bar, this.createContext(session, worker, book, bar, []));
+        worker.lastClose = bar.close;
+      }
+    } catch (error) {
+      if (handler.stop) await handler.stop();
+      throw error;
+    }
+
+    // Paused or stopped while warming up
+    if (startup.cancelled) {
+      if (handler.stop) await handler.stop();
+      return;
+    }
+
+    worker.unsubscribe = barService.subscribe(session.symbol, session.timeframe, (bar) => {
+      // Bars are handled one at a time, in order
+      worker.queue = worker.queue
+        .then(() => this.onBar(id, bar))
+        .catch(error => console.error(`Error in paper trading session ${id}:`, error));
+    });
+    this.workers.set(id, worker);
+  }
+
+  async stopWorker(sessionId) {
+    const id = String(sessionId);
+    const startup = this.starting.get(id);
+    if (startup) {
+      startup.cancelled = true;
+    }
+
+    const worker = this.workers.get(id);
+    if (!worker) return;
+
+    this.workers.delete(id);
+    worker.unsubscribe();
+    if (worker.handler.stop) {
+      await worker.handler.stop();
+    }
+  }
+
+  /**
+   * Run one completed bar through the strategy of a session and place the
+   * orders it asked for
+   */
+  async onBar(sessionId, bar) {
+    const worker = this.workers.get(sessionId);
+    if (!worker) return;
+
+    worker.history.push(bar);
+    if (worker.history.length > HISTORY_LIMIT) worker.history.shift();
+    worker.lastClose = bar.close;
+
+    // Pauses and stops from other requests are seen here
+    const session = await PaperTradingSession.findById(sessionId).populate('strategy', 'name');
+    if (!session || session.status !== 'RUNNING') {
+      await this.stopWorker(sessionId);
+      return;
+    }
+
+    const book = await this.getBook(session);
+    const orders = [];
+    try {
+      await worker.handler.onBar(bar, this.createContext(session, worker, book, bar, orders));
+    } catch (error) {
+      await this.pauseSession(session, `Strategy error: ${error.message}`, {
+        type: 'ERROR',
+        title: 'Strategy Error',
+        message: error.message
+      });
+      return;
+    }
+
+    session.lastBarAt = bar.date;
+    const now = new Date();
+    const { tradingHours } = session.config;
+    const tradable = tradingCalendarService.isMarketOpen(now, tradingHours.exchange)
+      && withinTradingHours(now, tradingHours);
+
+    if (orders.length > 0) {
+      if (!tradable || session.riskMetrics.isRiskLimitBreached) {
+        orders.forEach(order => rejectSignal(order.entry, 'SKIPPED', {
+          source: 'SESSION',
+          message: tradable ? 'The session is over its risk limits' : 'Outside the session\'s trading hours'
+        }));
+      } else {
+        session.lastSignalAt = now;
+        for (const order of orders) {
+          await this.execute(session, book, order, bar.close);
+        }
+      }
+      await signalJournalService.recordSessionSignals(session, orders.map(order => order.entry));
+    }
+
+    await this.refresh(session, bar.close);
+  }
+
+  /**
+   * The ctx a strategy sees for one bar, as in a backtest. Orders are
+   * collected, each with its journal entry, and placed after the strategy
+   * returns.
+   */
+  createContext(session, worker, book, bar, orders) {
+    const equity = book.cash + book.quantity * bar.close;
+    const queue = (side, quantity, reason, context) => orders.push({
+      side,
+      quantity,
+      reason,
+      entry: createSignal({ symbol: session.symbol, side, quantity, reason, context, bar })
+    });
+
+    return {
+      symbol: session.symbol,
+      params: worker.parameters,
+      barIndex: worker.history.length - 1,
+      position: {
+        quantity: book.quantity,
+        avgPrice: book.avgPrice,
+        side: book.quantity > 0 ? 'LONG' : book.quantity < 0 ? 'SHORT' : 'FLAT'
+      },
+      cash: book.cash,
+      equity,
+      history(count) {
+        return count ? worker.history.slice(-count) : worker.history.slice();
+      },
+      buy(quantity, reason, context) {
+        queue('BUY', quantity, reason, context);
+      },
+      sell(quantity, reason, context) {
+        queue('SELL', quantity, reason, context);
+      },
+      close(reason, context) {
+        queue('SELL', 'ALL', reason, context);
+      }
+    };
+  }
+
+  /**
+   * Size a signal by the deployment config and place it. Entries respect
+   * the concurrent trade limit and carry the configured exits; sells only
+   * reduce the session's long position. The outcome is recorded on the
+   * signal's journal entry.
+   */
+  async execute(session, book, signal, price) {
+    const { config } = session;
+    const { entry } = signal;
+
+    if (signal.side === 'SELL') {
+      const quantity = signal.quantity === 'ALL' || signal.quantity === undefined
+        ? book.quantity
+        : Math.min(Math.floor(signal.quantity), book.quantity);
+      if (!(quantity > 0)) {
+        rejectSignal(entry, 'SKIPPED', { source: 'SESSION', message: 'No position to sell' });
+        return;
+      }
+
+      // The exits of earlier entries would sell the same shares again
+      await orderService.cancelPortfolioOrders(session.portfolioId, { strategyId: session.strategyId });
+      await this.submit(session, { side: 'SELL', quantity, reason: signal.reason }, entry);
+      return;
+    }
+
+    const pendingEntries = await Order.countDocuments({
+      portfolioId: session.portfolioId,
+      strategyId: session.strategyId,
+      side: 'BUY',
+      status: { $in: ['PENDING', 'PARTIALLY_FILLED'] }
+    });
+    const openTrades = pendingEntries + (book.quantity > 0 ? 1 : 0);
+    if (openTrades >= config.maxConcurrentTrades) {
+      const message = `${openTrades} of ${config.maxConcurrentTrades} concurrent trades are open`;
+      rejectSignal(entry, 'SKIPPED', { source: 'SESSION', message });
+      this.addAlert(session, {
+        type: 'WARNING',
+        title: 'Signal Skipped',
+        message: `Buy signal skipped: ${message}`,
+        symbol: session.symbol
+      });
+      return;
+    }
+
+    const quantity = entryQuantity(config, book, {
+      price,
+      equity: book.cash + book.quantity * price,
+      requested: signal.quantity
+    });
+    if (quantity === 0) {
+      const message = 'The position size, risk per trade or cash of the session is used up';
+      rejectSignal(entry, 'SKIPPED', { source: 'SESSION', message });
+      this.addAlert(session, {
+        type: 'WARNING',
+        title: 'Signal Skipped',
+        message: `Buy signal skipped: ${message.charAt(0).toLowerCase()}${message.slice(1)}`,
+        symbol: session.symbol
+      });
+      return;
+    }
+
+    await this.submit(session, {
+      side: 'BUY',
+      quantity,
+      reason: signal.reason,
+      bracket: entryBracket(config, price)
+    }, entry);
+  }
+
+  // Place a market order of the session and record the outcome as an alert
+  // and, for strategy signals, on the signal's journal entry
+  async submit(session, { side, quantity, reason, bracket }, entry) {
+    const result = await orderService.placeOrder(session.userId, session.portfolioId, {
+      symbol: session.symbol,
+      side,
+      type: 'MARKET',
+      quantity,
+      strategyId: session.strategyId,
+      tags: ['paper-trading'],
+      notes: reason,
+      bracket
+    });
+
+    if (entry && result.order) {
+      recordSignalOrder(entry, result.order);
+    }
+
+    if (!result.success) {
+      const errors = result.errors || (result.error ? [result.error] : []);
+      if (entry) {
+        rejectSignal(entry, 'REJECTED', {
+          source: result.violations ? 'RISK' : 'ORDER',
+          message: errors.join(', ') || 'Unknown reason',
+          violations: result.violations
+        });
+      }
+      this.addAlert(session, {
+        type: 'WARNING',
+        title: 'Order Rejected',
+        message: `${side} ${quantity} ${session.symbol} was rejected: ${errors.join(', ') || 'unknown reason'}`,
+        symbol: session.symbol,
+        orderId: result.order && result.order._id
+      });
+    } else if (session.config.notifications.onTrade) {
+      this.addAlert(session, {
+        type: 'INFO',
+        title: 'Order Placed',
+        message: `${side} ${quantity} ${session.symbol}${reason ? ` (${reason})` : ''}`,
+        symbol: session.symbol,
+        orderId: result.order._id
+      });
+    }
+
+    return result;
+  }
+
+  // Position and cash of a session from its own fills
+  async getBook(session) {
+    const trades = await Trade.find({
+      portfolioId: session.portfolioId,
+      strategyId: session.strategyId,
+      symbol: session.symbol,
+      executedAt: { $gte: session.startedAt, ...(session.stoppedAt ? { $lte: session.stoppedAt } : {}) }
+    })
+      .sort({ executedAt: 1 })
+      .lean();
+
+    return replaySessionTrades(trades, session.config.capital);
+  }
+
+  /**
+   * Recompute the statistics and risk usage of a session and save it.
+   * A running session over its loss limits is paused.
+   * @param {number} price - Latest price of the symbol; looked up when not given
+   */
+  async refresh(session, price) {
+    const { config } = session;
+    const worker = this.workers.get(String(session._id));
+    price = price || (worker && worker.lastClose) || await orderService.getMarketPrice(session.symbol);
+
+    const book = await this.getBook(session);
+    const pendingOrders = await Order.countDocuments({
+      portfolioId: session.portfolioId,
+      strategyId: session.strategyId,
+      status: { $in: OPEN_STATUSES }
+    });
+
+    // The day P&L starts over on each exchange day
+    const dayKey = tradingCalendarService.dateKey(new Date(), config.tradingHours.exchange);
+    if (session.dayKey !== dayKey) {
+      session.dayKey = dayKey;
+      session.dayStartEquity = session.statistics.currentCapital || config.capital;
+    }
+
+    const previousStatistics = session.statistics.toObject();
+    const { equity, peakEquity, statistics } = sessionStatistics(book, {
+      capital: config.capital,
+      price,
+      peakEquity: session.peakEquity,
+      dayStartEquity: session.dayStartEquity,
+      maxDrawdown: session.statistics.maxDrawdown,
+      maxDrawdownPercent: session.statistics.maxDrawdownPercent,
+      pendingOrders
+    });
+    session.peakEquity = peakEquity;
+    session.statistics = statistics;
+    session.riskMetrics = sessionRiskMetrics(config, book, {
+      price,
+      equity,
+      peakEquity,
+      dayStartEquity: session.dayStartEquity
+    });
+
+    this.alertClosedTrades(session, previousStatistics, statistics);
+
+    if (session.status === 'RUNNING' && session.riskMetrics.isRiskLimitBreached) {
+      await this.pauseSession(session, 'Risk limit breached', config.notifications.onRiskAlert ? {
+        type: 'ERROR',
+        title: 'Risk Limit Breached',
+        message: `Paused: ${session.riskMetrics.riskAlerts.join('; ')}`
+      } : undefined);
+      return session;
+    }
+
+    await session.save();
+    this.broadcast(session);
+    return session;
+  }
+
+  // Profit and loss alerts for round trips closed since the last refresh
+  alertClosedTrades(session, before, after) {
+    const { notifications } = session.config;
+    if (after.totalTrades <= before.totalTrades) return;
+
+    if (after.winningTrades > before.winningTrades && notifications.onProfit) {
+      this.addAlert(session, {
+        type: 'SUCCESS',
+        title: 'Winning Trade',
+        message: `${session.symbol} trade closed in profit; session P&L ${formatAmount(after.totalPnL)}`,
+        symbol: session.symbol
+      });
+    }
+    if (after.losingTrades > before.losingTrades && notifications.onLoss) {
+      this.addAlert(session, {
+        type: 'WARNING',
+        title: 'Losing Trade',
+        message: `${session.symbol} trade closed at a loss; session P&L ${formatAmount(after.totalPnL)}`,
+        symbol: session.symbol
+      });
+    }
+  }
+
+  addAlert(session, alert) {
+    session.alerts.unshift(alert);
+    if (session.alerts.length > MAX_ALERTS) {
+      session.alerts.splice(MAX_ALERTS);
+    }
+  }
+
+  broadcast(session) {
+    broadcastToUser(session.userId, 'paperSessionUpdate', {
+      type: 'PAPER_SESSION_UPDATE',
+      data: session
+    });
+  }
+
+  /**
+   * Give every running session a worker, drop workers of sessions paused
+   * or stopped elsewhere and refresh statistics between bars
+   */
+  async monitorSessions() {
+    const running = await PaperTradingSession.find({ status: 'RUNNING' }).populate('strategy', 'name');
+    const runningIds = new Set(running.map(session => String(session._id)));
+
+    for (const id of this.workers.keys()) {
+      if (!runningIds.has(id)) {
+        await this.stopWorker(id);
+      }
+    }
+
+    for (const session of running) {
+      // Sessions still warming up are left to whoever is starting them
+      const id = String(session._id);
+      if (!this.workers.has(id) && !this.starting.has(id)) {
+        try {
+          await this.startWorker(session);
+        } catch (error) {
+          await this.pauseSession(session, `Strategy error: ${error.message}`, {
+            type: 'ERROR',
+            title: 'Session Could Not Start',
+            message: error.message
+          });
+          continue;
+        }
+      }
+      await this.refresh(session);
+    }
+  }
+
+  /**
+   * Start background session monitoring
+   */
+  startMonitoring() {
+    setInterval(async () => {
+      try {
+        await this.monitorSessions();
+      } catch (error) {
+        console.error('Error monitoring paper trading sessions:', error);
+      }
+    }, MONITOR_INTERVAL_MS);
+  }
+}
+
+module.exports = new PaperTradingService();
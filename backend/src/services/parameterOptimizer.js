@@ -0,0 +1,305 @@
+/**
+ * Parameter search over numeric strategy parameters.
+ *
+ * Each range is a { key, min, max, step } lattice. GRID walks every
+ * combination, RANDOM samples distinct combinations, and BAYESIAN fits a
+ * Gaussian-process surrogate to the trials so far and picks the candidate
+ * with the highest expected improvement. Sampling uses a seeded generator,
+ * so the same ranges, seed and objective give the same trials.
+ */
+
+const METHODS = ['GRID', 'RANDOM', 'BAYESIAN'];
+const OBJECTIVES = ['sharpeRatio', 'totalReturnPercent', 'calmarRatio'];
+const MAX_TRIALS = 500;
+
+// Gaussian-process settings (inputs are normalized to [0, 1])
+const INITIAL_RANDOM_TRIALS = 5;
+const CANDIDATE_POOL = 200;
+const LENGTH_SCALE = 0.2;
+const NOISE = 1e-6;
+
+const createRandom = (seed) => {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const decimals = (value) => {
+  const text = String(value);
+  return text.includes('.') ? text.split('.')[1].length : 0;
+};
+
+/**
+ * Values a range can take, from min to max in steps
+ */
+const rangeValues = ({ min, max, step }) => {
+  const places = Math.max(decimals(min), decimals(step));
+  const count = Math.floor((max - min) / step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, index) => Number((min + index * step).toFixed(places)));
+};
+
+/**
+ * Check optimization ranges and return the number of combinations they span
+ * @throws {Error} When a range is malformed
+ */
+const validateRanges = (ranges) => {
+  if (!Array.isArray(ranges) || ranges.length === 0) {
+    throw new Error('Choose at least one parameter range to optimize');
+  }
+
+  const keys = new Set();
+
+  return ranges.reduce((combinations, range) => {
+    const { key, min, max, step } = range;
+
+    if (!key) {
+      throw new Error('Every optimization range needs a parameter key');
+    }
+    if (keys.has(key)) {
+      throw new Error(`Parameter "${key}" is listed more than once`);
+    }
+    if (![min, max, step].every(Number.isFinite)) {
+      throw new Error(`Range for "${key}" needs numeric min, max and step`);
+    }
+    if (step <= 0) {
+      throw new Error(`Step for "${key}" must be greater than 0`);
+    }
+    if (min > max) {
+      throw new Error(`Minimum for "${key}" must not exceed its maximum`);
+    }
+
+    keys.add(key);
+    return combinations * rangeValues(range).length;
+  }, 1);
+};
+
+const normalPdf = x => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+// Abramowitz-Stegun approximation, accurate to ~1e-7
+const normalCdf = (x) => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const upper = normalPdf(x) * poly;
+  return x >= 0 ? 1 - upper : upper;
+};
+
+const kernel = (a, b) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += (a[i] - b[i]) ** 2;
+  }
+  return Math.exp(-distance / (2 * LENGTH_SCALE * LENGTH_SCALE));
+};
+
+const cholesky = (matrix) => {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      lower[i][j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / lower[j][j];
+    }
+  }
+
+  return lower;
+};
+
+// Solve L y = b, then L^T x = y
+const choleskySolve = (lower, vector) => {
+  const n = lower.length;
+  const y = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let sum = vector[i];
+    for (let k = 0; k < i; k++) sum -= lower[i][k] * y[k];
+    y[i] = sum / lower[i][i];
+  }
+
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= lower[k][i] * x[k];
+    x[i] = sum / lower[i][i];
+  }
+  return x;
+};
+
+const forwardSolve = (lower, vector) => {
+  const y = new Array(lower.length).fill(0);
+  for (let i = 0; i < lower.length; i++) {
+    let sum = vector[i];
+    for (let k = 0; k < i; k++) sum -= lower[i][k] * y[k];
+    y[i] = sum / lower[i][i];
+  }
+  return y;
+};
+
+class ParameterOptimizer {
+  /**
+   * @param {Object} config - Search configuration
+   * @param {string} config.method - GRID, RANDOM or BAYESIAN
+   * @param {Array} config.ranges - [{ key, min, max, step }]
+   * @param {number} config.maxTrials - Trial budget for RANDOM and BAYESIAN
+   * @param {number} config.seed - Seed for sampling
+   */
+  constructor({ method = 'GRID', ranges, maxTrials = 50, seed = 1 }) {
+    this.method = method;
+    this.ranges = ranges;
+    this.maxTrials = maxTrials;
+    this.seed = seed;
+    this.lattice = ranges.map(rangeValues);
+    this.combinations = this.lattice.reduce((total, values) => total * values.length, 1);
+  }
+
+  /**
+   * Number of trials the search will run
+   */
+  get trialCount() {
+    return this.method === 'GRID'
+      ? this.combinations
+      : Math.min(this.maxTrials, this.combinations);
+  }
+
+  /**
+   * Run the search
+   * @param {Function} evaluate - async (parameters) => objective value (higher is better)
+   * @param {Object} hooks - Optional { onTrial(trial, index, total), shouldCancel() }
+   * @returns {Promise<Object>} { trials, best, cancelled } where trials are { parameters, value }
+   */
+  async run(evaluate, hooks = {}) {
+    const { onTrial, shouldCancel } = hooks;
+    const total = this.trialCount;
+    const random = createRandom(this.seed);
+    const visited = new Set();
+    const trials = [];
+    const points = [];
+
+    for (let index = 0; index < total; index++) {
+      if (shouldCancel && await shouldCancel()) {
+        return { trials, best: this.best(trials), cancelled: true };
+      }
+
+      let indices;
+      if (this.method === 'GRID') {
+        indices = this.gridIndices(index);
+      } else if (this.method === 'BAYESIAN' && points.length >= INITIAL_RANDOM_TRIALS) {
+        indices = this.suggest(points, random, visited);
+      } else {
+        indices = this.sampleUnvisited(random, visited);
+      }
+
+      visited.add(indices.join(','));
+      const parameters = this.toParameters(indices);
+      const value = await evaluate(parameters);
+      const trial = { parameters, value: Number.isFinite(value) ? value : 0 };
+
+      trials.push(trial);
+      points.push({ x: this.normalize(indices), y: trial.value });
+
+      if (onTrial) {
+        await onTrial(trial, index, total);
+      }
+    }
+
+    return { trials, best: this.best(trials), cancelled: false };
+  }
+
+  best(trials) {
+    return trials.reduce((best, trial) => (!best || trial.value > best.value ? trial : best), null);
+  }
+
+  gridIndices(index) {
+    let remainder = index;
+    return this.lattice.map(values => {
+      const position = remainder % values.length;
+      remainder = Math.floor(remainder / values.length);
+      return position;
+    });
+  }
+
+  sampleIndices(random) {
+    return this.lattice.map(values => Math.floor(random() * values.length));
+  }
+
+  sampleUnvisited(random, visited) {
+    // Rejection sampling is fine while the lattice is mostly unexplored;
+    // fall back to a scan once it gets crowded
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const indices = this.sampleIndices(random);
+      if (!visited.has(indices.join(','))) {
+        return indices;
+      }
+    }
+
+    for (let index = 0; index < this.combinations; index++) {
+      const indices = this.gridIndices(index);
+      if (!visited.has(indices.join(','))) {
+        return indices;
+      }
+    }
+
+    return this.sampleIndices(random);
+  }
+
+  normalize(indices) {
+    return indices.map((position, i) => (this.lattice[i].length > 1 ? position / (this.lattice[i].length - 1) : 0));
+  }
+
+  toParameters(indices) {
+    return this.ranges.reduce((parameters, range, i) => {
+      parameters[range.key] = this.lattice[i][indices[i]];
+      return parameters;
+    }, {});
+  }
+
+  /**
+   * Pick the unvisited candidate with the highest expected improvement under
+   * a Gaussian-process fit of the trials so far
+   */
+  suggest(points, random, visited) {
+    const values = points.map(point => point.y);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const spread = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length) || 1;
+    const targets = values.map(value => (value - mean) / spread);
+    const bestTarget = Math.max(...targets);
+
+    const covariance = points.map((a, i) => points.map((b, j) => kernel(a.x, b.x) + (i === j ? NOISE : 0)));
+    const lower = cholesky(covariance);
+    const alpha = choleskySolve(lower, targets);
+
+    let best = null;
+    for (let attempt = 0; attempt < CANDIDATE_POOL; attempt++) {
+      const indices = this.sampleIndices(random);
+      if (visited.has(indices.join(','))) continue;
+
+      const x = this.normalize(indices);
+      const weights = points.map(point => kernel(x, point.x));
+      const predicted = weights.reduce((sum, weight, i) => sum + weight * alpha[i], 0);
+      const v = forwardSolve(lower, weights);
+      const variance = Math.max(1 - v.reduce((sum, value) => sum + value * value, 0), 1e-12);
+      const sigma = Math.sqrt(variance);
+      const z = (predicted - bestTarget) / sigma;
+      const improvement = (predicted - bestTarget) * normalCdf(z) + sigma * normalPdf(z);
+
+      if (!best || improvement > best.improvement) {
+        best = { indices, improvement };
+      }
+    }
+
+    return best ? best.indices : this.sampleUnvisited(random, visited);
+  }
+}
+
+module.exports = ParameterOptimizer;
+module.exports.METHODS = METHODS;
+module.exports.OBJECTIVES = OBJECTIVES;
+module.exports.MAX_TRIALS = MAX_TRIALS;
+module.exports.rangeValues = rangeValues;
+module.exports.validateRanges = validateRanges;
@@ -0,0 +1,356 @@
+const { calculatePerformance, round } = require('../utils/performanceMetrics');
+const { targetWeight } = require('../utils/positionSizing');
+const { createSignal, recordSignalFill, rejectSignal } = require('../utils/signalJournal');
+
+/**
+ * Event-driven backtest engine for a basket of symbols sharing one cash pool.
+ *
+ * Works like BacktestEngine — orders fill at the next bar's open with the
+ * same slippage and commission rules — but every symbol runs its own strategy
+ * handler against its own position. Bars are merged into one timeline by
+ * date; a symbol with no bar on a date simply sits that date out. Buys that
+ * do not name a quantity are sized by the portfolio's sizing model.
+ */
+class PortfolioBacktestEngine {
+  /**
+   * @param {Object} config - Engine configuration
+   * @param {string[]} config.symbols - Symbols in the basket
+   * @param {number} config.initialCapital - Starting cash
+   * @param {number} config.commission - Fixed commission per execution
+   * @param {number} config.slippage - Slippage as a percentage of price
+   * @param {Object} config.parameters - Strategy parameters exposed as ctx.params,
+   *   with `symbol` set to the symbol each handler trades
+   * @param {Object} config.sizing - Normalized sizing settings (see utils/positionSizing)
+   */
+  constructor({ symbols, initialCapital, commission = 0, slippage = 0, parameters = {}, sizing }) {
+    this.symbols = symbols;
+    this.initialCapital = initialCapital;
+    this.commission = commission;
+    this.slippage = slippage;
+    this.parameters = parameters;
+    this.sizing = sizing;
+  }
+
+  /**
+   * Replay every symbol's bars through its handler
+   * @param {Object} barsBySymbol - symbol -> bars sorted by date
+   * @param {Object} handlers - symbol -> object with an onBar(bar, ctx) method
+   * @param {Object} hooks - Optional { onProgress(percent), shouldCancel() }
+   * @returns {Promise<Object>} { result, fills, points, roundTrips, signals, exposures, pnlSeries, cancelled }
+   *   where exposures holds invested percentages per date and pnlSeries maps
+   *   each symbol to its daily mark-to-market P&L keyed by timestamp
+   */
+  async run(barsBySymbol, handlers, hooks = {}) {
+    const { onProgress, shouldCancel } = hooks;
+
+    this.cash = this.initialCapital;
+    this.fills = [];
+    this.signals = [];
+    this.roundTrips = [];
+    this.points = [];
+    this.exposures = [];
+    this.totalCommission = 0;
+    this.totalSlippage = 0;
+    this.books = {};
+    this.pnlSeries = {};
+
+    const barsByTime = new Map();
+    this.symbols.forEach(symbol => {
+      this.books[symbol] = {
+        symbol,
+        parameters: { ...this.parameters, symbol },
+        position: { quantity: 0, avgPrice: 0, entryDate: null, entryCommission: 0 },
+        pendingOrders: [],
+        history: [],
+        lastClose: null,
+        realizedPnl: 0,
+        markedPnl: 0
+      };
+      this.pnlSeries[symbol] = new Map();
+
+      (barsBySymbol[symbol] || []).forEach(bar => {
+        const time = new Date(bar.date).getTime();
+        if (!barsByTime.has(time)) barsByTime.set(time, []);
+        barsByTime.get(time).push({ symbol, bar });
+      });
+    });
+
+    const timeline = [...barsByTime.keys()].sort((a, b) => a - b);
+    const progressStep = Math.max(1, Math.floor(timeline.length / 10));
+
+    for (let index = 0; index < timeline.length; index++) {
+      const time = timeline[index];
+      const entries = barsByTime.get(time);
+      const date = entries[0].bar.date;
+
+      // Sells first so the cash they free is available to buys at the same open
+      entries.forEach(({ symbol, bar }) => this.executePendingOrders(this.books[symbol], bar, 'SELL'));
+      entries.forEach(({ symbol, bar }) => this.executePendingOrders(this.books[symbol], bar, 'BUY'));
+
+      entries.forEach(({ symbol, bar }) => {
+        const book = this.books[symbol];
+        book.history.push(bar);
+        book.lastClose = bar.close;
+      });
+
+      this.recordPoint(date, time, entries);
+
+      for (const { symbol, bar } of entries) {
+        await handlers[symbol].onBar(bar, this.createContext(this.books[symbol], bar));
+      }
+
+      if (index % progressStep === 0 && index > 0) {
+        if (shouldCancel && await shouldCancel()) {
+          return { cancelled: true };
+        }
+        if (onProgress) {
+          await onProgress(Math.min(99, Math.round((index / timeline.length) * 100)));
+        }
+      }
+    }
+
+    // Liquidate whatever is still open at each symbol's final close
+    Object.values(this.books).forEach(book => {
+      book.pendingOrders.forEach(order => rejectSignal(order.signal, 'EXPIRED', {
+        source: 'ENGINE',
+        message: 'The backtest ended before the next open'
+      }));
+      book.pendingOrders = [];
+      if (book.position.quantity > 0) {
+        const lastBar = book.history[book.history.length - 1];
+        const signal = this.recordSignal(book, lastBar, 'SELL', 'ALL', 'End of backtest');
+        this.fill(book, { side: 'SELL', quantity: book.position.quantity, reason: 'End of backtest', signal }, lastBar.close, lastBar.date);
+      }
+    });
+    if (this.points.length > 0) {
+      this.points[this.points.length - 1].equity = this.getEquity();
+    }
+
+    const result = calculatePerformance({
+      points: this.points,
+      roundTrips: this.roundTrips,
+      initialCapital: this.initialCapital,
+      totalCommission: this.totalCommission,
+      totalSlippage: this.totalSlippage
+    });
+
+    return {
+      result,
+      fills: this.fills,
+      points: this.points,
+      roundTrips: this.roundTrips,
+      signals: this.signals,
+      exposures: this.exposures,
+      pnlSeries: this.pnlSeries,
+      cancelled: false
+    };
+  }
+
+  /**
+   * Record portfolio equity, exposure and per-symbol P&L after a date's opens
+   */
+  recordPoint(date, time, entries) {
+    const equity = this.getEquity();
+    const bySymbol = {};
+    let invested = 0;
+
+    Object.values(this.books).forEach(book => {
+      const value = book.position.quantity * (book.lastClose || 0);
+      invested += value;
+      if (value > 0) {
+        bySymbol[book.symbol] = equity > 0 ? round((value / equity) * 100, 4) : 0;
+      }
+    });
+
+    entries.forEach(({ symbol }) => {
+      const book = this.books[symbol];
+      const { quantity, avgPrice, entryCommission } = book.position;
+      const marked = book.realizedPnl + quantity * (book.lastClose - avgPrice) - entryCommission;
+      this.pnlSeries[symbol].set(time, marked - book.markedPnl);
+      book.markedPnl = marked;
+    });
+
+    this.points.push({ date, equity });
+    this.exposures.push({
+      date,
+      exposurePercent: equity > 0 ? round((invested / equity) * 100, 4) : 0,
+      bySymbol
+    });
+  }
+
+  /**
+   * Build the context object handed to one symbol's strategy for one bar.
+   * Same shape as BacktestEngine's context; barIndex counts the symbol's own
+   * bars while cash and equity are portfolio-wide.
+   */
+  createContext(book, bar) {
+    const engine = this;
+
+    return {
+      symbol: book.symbol,
+      params: book.parameters,
+      barIndex: book.history.length - 1,
+      get position() {
+        return {
+          quantity: book.position.quantity,
+          avgPrice: book.position.avgPrice,
+          side: book.position.quantity > 0 ? 'LONG' : 'FLAT'
+        };
+      },
+      get cash() {
+        return engine.cash;
+      },
+      get equity() {
+        return engine.getEquity();
+      },
+      history(count) {
+        return count ? book.history.slice(-count) : book.history.slice();
+      },
+      buy(quantity, reason, context) {
+        engine.queueOrder(book, bar, 'BUY', quantity, reason, context);
+      },
+      sell(quantity, reason, context) {
+        engine.queueOrder(book, bar, 'SELL', quantity, reason, context);
+      },
+      close(reason, context) {
+        engine.queueOrder(book, bar, 'SELL', 'ALL', reason, context);
+      }
+    };
+  }
+
+  /**
+   * Journal a signal of a symbol's strategy and queue its order for the next open
+   */
+  queueOrder(book, bar, side, quantity, reason, context) {
+    const signal = this.recordSignal(book, bar, side, quantity, reason, context);
+    book.pendingOrders.push({ side, quantity, reason, signalDate: bar.date, signal });
+  }
+
+  recordSignal(book, bar, side, quantity, reason, context) {
+    const signal = createSignal({ symbol: book.symbol, side, quantity, reason, context, bar });
+    this.signals.push(signal);
+    return signal;
+  }
+
+  /**
+   * Fill one side of a symbol's queued orders at the open of its current bar
+   */
+  executePendingOrders(book, bar, side) {
+    const orders = book.pendingOrders.filter(order => order.side === side);
+    book.pendingOrders = book.pendingOrders.filter(order => order.side !== side);
+
+    orders.forEach(order => {
+      if (!this.fill(book, order, bar.open, bar.date)) {
+        rejectSignal(order.signal, 'SKIPPED', {
+          source: 'ENGINE',
+          message: order.side === 'BUY' ? 'Position size or cash does not cover one share' : 'No position to sell'
+        });
+      }
+    });
+  }
+
+  /**
+   * Execute one order for a symbol against a reference price
+   */
+  fill(book, order, referencePrice, date) {
+    const direction = order.side === 'BUY' ? 1 : -1;
+    const price = referencePrice * (1 + direction * this.slippage / 100);
+    const position = book.position;
+    let quantity;
+
+    if (order.side === 'BUY') {
+      const affordable = Math.floor((this.cash - this.commission) / price);
+      if (order.quantity === undefined) {
+        const weight = targetWeight(this.sizing, {
+          symbolCount: this.symbols.length,
+          history: book.history,
+          roundTrips: this.roundTrips
+        });
+        const targetValue = this.getEquity() * weight;
+        quantity = Math.floor((targetValue - position.quantity * referencePrice) / price);
+      } else {
+        quantity = Math.floor(order.quantity);
+      }
+      quantity = Math.min(quantity, affordable);
+    } else {
+      quantity = order.quantity === 'ALL' || order.quantity === undefined
+        ? position.quantity
+        : Math.min(Math.floor(order.quantity), position.quantity);
+    }
+
+    if (!quantity || quantity <= 0) {
+      return null;
+    }
+
+    const commission = this.commission;
+    const slippageCost = Math.abs(price - referencePrice) * quantity;
+    let pnl = 0;
+    let pnlPercent = 0;
+
+    if (order.side === 'BUY') {
+      const previousQuantity = position.quantity;
+      position.avgPrice = (previousQuantity * position.avgPrice + quantity * price) / (previousQuantity + quantity);
+      position.quantity += quantity;
+      position.entryCommission += commission;
+      if (previousQuantity === 0) {
+        position.entryDate = date;
+      }
+      this.cash -= quantity * price + commission;
+    } else {
+      const closedShare = quantity / position.quantity;
+      const allocatedEntryCommission = position.entryCommission * closedShare;
+      const costBasis = position.avgPrice * quantity;
+      pnl = (price - position.avgPrice) * quantity - commission - allocatedEntryCommission;
+      pnlPercent = costBasis > 0 ? (pnl / costBasis) * 100 : 0;
+
+      this.roundTrips.push({
+        symbol: book.symbol,
+        pnl,
+        entryDate: position.entryDate,
+        exitDate: date
+      });
+
+      book.realizedPnl += pnl;
+      this.cash += quantity * price - commission;
+      position.quantity -= quantity;
+      position.entryCommission -= allocatedEntryCommission;
+
+      if (position.quantity === 0) {
+        book.position = { quantity: 0, avgPrice: 0, entryDate: null, entryCommission: 0 };
+      }
+    }
+
+    this.totalCommission += commission;
+    this.totalSlippage += slippageCost;
+
+    const fill = {
+      symbol: book.symbol,
+      side: order.side,
+      quantity,
+      price: round(price, 4),
+      commission: round(commission, 4),
+      slippage: round(slippageCost, 4),
+      pnl: round(pnl),
+      pnlPercent: round(pnlPercent, 4),
+      reason: order.reason,
+      signalDate: order.signalDate,
+      executedAt: date
+    };
+
+    this.fills.push(fill);
+    if (order.signal) {
+      recordSignalFill(order.signal, fill);
+    }
+    return fill;
+  }
+
+  // Cash plus every open position marked at its symbol's latest close
+  getEquity() {
+    return Object.values(this.books).reduce(
+      (equity, book) => equity + book.position.quantity * (book.lastClose || book.position.avgPrice),
+      this.cash
+    );
+  }
+}
+
+module.exports = PortfolioBacktestEngine;
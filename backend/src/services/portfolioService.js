@@ -0,0 +1,385 @@
+const mongoose = require('mongoose');
+const Portfolio = require('../models/Portfolio');
+const PortfolioHistory = require('../models/PortfolioHistory');
+const Position = require('../models/Position');
+const Order = require('../models/Order');
+const Trade = require('../models/Trade');
+const Activity = require('../models/Activity');
+const Strategy = require('../models/Strategy');
+const orderService = require('./orderService');
+const marginService = require('./marginService');
+
+// Active portfolios a user may hold at once
+const MAX_PORTFOLIOS = 20;
+
+// How long after a portfolio was opened its first history entry still shows its starting cash
+const OPENING_SNAPSHOT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const formatAmount = (value) => `₹${Number(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Paper portfolios of a user. A user holds several accounts, for example
+ * one per strategy plus a sandbox, and every trading request is scoped to
+ * one of them; requests that name none use the default portfolio, which is
+ * created on first use. Portfolios can be reset to their starting capital,
+ * archived once flat, and move cash between each other.
+ */
+class PortfolioService {
+  /**
+   * Portfolio a request trades in
+   * @param {string} userId - Owner
+   * @param {string} portfolioId - Requested portfolio; the default one when empty
+   * @returns {Promise<Object|null>} Active portfolio, or null when the requested one is not the user's
+   */
+  async resolve(userId, portfolioId) {
+    if (portfolioId) {
+      if (!mongoose.isValidObjectId(portfolioId)) return null;
+      return Portfolio.findOne({ _id: portfolioId, userId, isActive: true });
+    }
+
+    const portfolio = await Portfolio.findOne({ userId, isActive: true }).sort({ isDefault: -1, createdAt: 1 });
+    return portfolio || this.createPortfolio(userId, { name: 'Main Portfolio', isDefault: true });
+  }
+
+  /**
+   * Portfolios of a user, default first
+   * @param {boolean} includeArchived - Include archived portfolios
+   */
+  async getPortfolios(userId, includeArchived = false) {
+    const query = { userId };
+    if (!includeArchived) query.isActive = true;
+
+    return Portfolio.find(query)
+      .sort({ isActive: -1, isDefault: -1, createdAt: 1 })
+      .populate('activePositionsCount');
+  }
+
+  /**
+   * Open a new paper portfolio
+   * @param {Object} fields - { name, description, kind, strategyId, accountType, initialCapital, isDefault }
+   * @returns {Promise<Object>} Saved portfolio
+   */
+  async createPortfolio(userId, fields) {
+    const capital = fields.initialCapital !== undefined ? Number(fields.initialCapital) : Portfolio.defaultCapital();
+
+    const portfolio = new Portfolio({
+      userId,
+      name: fields.name,
+      description: fields.description,
+      kind: fields.kind,
+      strategyId: fields.strategyId || undefined,
+      accountType: fields.accountType,
+      initialCapital: capital,
+      cashBalance: capital,
+      totalValue: capital,
+      isDefault: Boolean(fields.isDefault),
+      isPaperTrading: true
+    });
+    await portfolio.save();
+
+    // Starting point of the performance chart
+    await PortfolioHistory.create({
+      userId,
+      portfolioId: portfolio._id,
+      date: new Date(),
+      totalValue: capital,
+      cashBalance: capital,
+      investedAmount: 0,
+      benchmarkValue: capital
+    });
+
+    return portfolio;
+  }
+
+  /**
+   * Check and open a portfolio requested by a user
+   * @returns {Promise<Object>} { success, portfolio, error }
+   */
+  async create(userId, fields) {
+    const count = await Portfolio.countDocuments({ userId, isActive: true });
+    if (count >= MAX_PORTFOLIOS) {
+      return { success: false, error: `At most ${MAX_PORTFOLIOS} portfolios can be open at once` };
+    }
+
+    const error = await this.validateFields(userId, fields);
+    if (error) {
+      return { success: false, error };
+    }
+
+    const portfolio = await this.createPortfolio(userId, { ...fields, isDefault: count === 0 || fields.isDefault });
+    if (portfolio.isDefault) {
+      await this.makeDefault(userId, portfolio);
+    }
+
+    return { success: true, portfolio };
+  }
+
+  /**
+   * Rename or describe a portfolio, or make it the default
+   * @param {Object} fields - { name, description, kind, strategyId, isDefault }
+   * @returns {Promise<Object>} { success, portfolio, error }
+   */
+  async update(userId, portfolioId, fields) {
+    const portfolio = await this.resolve(userId, portfolioId);
+    if (!portfolio) {
+      return { success: false, error: 'Portfolio not found' };
+    }
+
+    const error = await this.validateFields(userId, fields, portfolio._id);
+    if (error) {
+      return { success: false, error };
+    }
+
+    ['name', 'description', 'kind']
+      .filter(key => fields[key] !== undefined)
+      .forEach(key => portfolio.set(key, fields[key]));
+    if (fields.strategyId !== undefined) {
+      portfolio.strategyId = fields.strategyId || undefined;
+    }
+    await portfolio.save();
+
+    if (fields.isDefault) {
+      await this.makeDefault(userId, portfolio);
+    }
+
+    return { success: true, portfolio };
+  }
+
+  // Names are unique among a user's active portfolios; a linked strategy must be theirs
+  async validateFields(userId, fields, portfolioId) {
+    if (fields.name !== undefined) {
+      const name = String(fields.name || '').trim();
+      if (!name) {
+        return 'Portfolio name is required';
+      }
+
+      const taken = await Portfolio.exists({
+        userId,
+        isActive: true,
+        name,
+        ...(portfolioId ? { _id: { $ne: portfolioId } } : {})
+      });
+      if (taken) {
+        return `A portfolio named "${name}" already exists`;
+      }
+    } else if (!portfolioId) {
+      return 'Portfolio name is required';
+    }
+
+    if (fields.initialCapital !== undefined && !(Number(fields.initialCapital) > 0)) {
+      return 'Initial capital must be a positive amount';
+    }
+
+    if (fields.strategyId) {
+      const owned = mongoose.isValidObjectId(fields.strategyId)
+        && await Strategy.exists({ _id: fields.strategyId, userId });
+      if (!owned) {
+        return 'Strategy not found';
+      }
+    }
+
+    return null;
+  }
+
+  // Only one portfolio of a user is the default
+  async makeDefault(userId, portfolio) {
+    await Portfolio.updateMany({ userId, _id: { $ne: portfolio._id }, isDefault: true }, { isDefault: false });
+    if (!portfolio.isDefault) {
+      portfolio.isDefault = true;
+      await portfolio.save();
+    }
+  }
+
+  /**
+   * Start a portfolio over: open orders are cancelled, positions, orders,
+   * trades and history are removed and cash goes back to the initial capital
+   * @returns {Promise<Object>} { success, portfolio, error }
+   */
+  async reset(userId, portfolioId) {
+    const portfolio = await this.resolve(userId, portfolioId);
+    if (!portfolio) {
+      return { success: false, error: 'Portfolio not found' };
+    }
+
+    await orderService.cancelPortfolioOrders(portfolio._id);
+    await Promise.all([
+      Position.deleteMany({ portfolioId: portfolio._id }),
+      Order.deleteMany({ portfolioId: portfolio._id }),
+      Trade.deleteMany({ portfolioId: portfolio._id }),
+      PortfolioHistory.deleteMany({ portfolioId: portfolio._id })
+    ]);
+
+    portfolio.cashBalance = portfolio.initialCapital;
+    portfolio.netTransfers = 0;
+    portfolio.marginCallAt = undefined;
+    portfolio.totalReturn = 0;
+    portfolio.totalReturnPercent = 0;
+    portfolio.dayChange = 0;
+    portfolio.dayChangePercent = 0;
+    portfolio.maxDrawdown = 0;
+    await portfolio.calculateMetrics();
+
+    await PortfolioHistory.create({
+      userId,
+      portfolioId: portfolio._id,
+      date: new Date(),
+      totalValue: portfolio.initialCapital,
+      cashBalance: portfolio.initialCapital,
+      investedAmount: 0,
+      benchmarkValue: portfolio.initialCapital
+    });
+
+    await Activity.create({
+      userId,
+      portfolioId: portfolio._id,
+      type: 'system',
+      action: 'portfolio_reset',
+      title: 'Portfolio Reset',
+      description: `${portfolio.name} was reset to ${formatAmount(portfolio.initialCapital)}`,
+      status: 'info',
+      amount: portfolio.initialCapital
+    });
+
+    return { success: true, portfolio };
+  }
+
+  /**
+   * Archive a portfolio without open positions. Its history is kept; it
+   * no longer trades and another portfolio becomes the default.
+   * @returns {Promise<Object>} { success, portfolio, error }
+   */
+  async archive(userId, portfolioId) {
+    const portfolio = await this.resolve(userId, portfolioId);
+    if (!portfolio) {
+      return { success: false, error: 'Portfolio not found' };
+    }
+
+    const others = await Portfolio.find({ userId, isActive: true, _id: { $ne: portfolio._id } })
+      .sort({ createdAt: 1 });
+    if (others.length === 0) {
+      return { success: false, error: 'The last open portfolio cannot be archived' };
+    }
+
+    const open = await Position.countDocuments({ portfolioId: portfolio._id, status: 'open' });
+    if (open > 0) {
+      return { success: false, error: 'Close the open positions before archiving the portfolio' };
+    }
+
+    await orderService.cancelPortfolioOrders(portfolio._id);
+
+    portfolio.isActive = false;
+    portfolio.archivedAt = new Date();
+    const wasDefault = portfolio.isDefault;
+    portfolio.isDefault = false;
+    await portfolio.save();
+
+    if (wasDefault) {
+      await this.makeDefault(userId, others[0]);
+    }
+
+    return { success: true, portfolio };
+  }
+
+  /**
+   * Move cash between two portfolios of a user. Only cash that does not
+   * back open positions can leave a portfolio.
+   * @param {number} amount - Cash to move
+   * @returns {Promise<Object>} { success, from, to, error }
+   */
+  async transfer(userId, fromId, toId, amount) {
+    amount = Number(amount);
+    if (!(amount > 0)) {
+      return { success: false, error: 'Transfer amount must be positive' };
+    }
+    if (!fromId || !toId || String(fromId) === String(toId)) {
+      return { success: false, error: 'Choose two different portfolios' };
+    }
+
+    const [from, to] = await Promise.all([this.resolve(userId, fromId), this.resolve(userId, toId)]);
+    if (!from || !to) {
+      return { success: false, error: 'Portfolio not found' };
+    }
+
+    const { account } = await marginService.getAccount(from);
+    const available = Math.min(from.cashBalance, account.availableMargin);
+    if (amount > available) {
+      return { success: false, error: `Only ${formatAmount(Math.max(available, 0))} can be transferred out of ${from.name}` };
+    }
+
+    // The balance is checked again as it is debited so concurrent fills cannot overdraw it
+    const debited = await Portfolio.updateOne(
+      { _id: from._id, userId, isActive: true, cashBalance: { $gte: amount } },
+      { $inc: { cashBalance: -amount, netTransfers: -amount } }
+    );
+    if (debited.modifiedCount === 0) {
+      return { success: false, error: `Insufficient cash in ${from.name}` };
+    }
+    await Portfolio.updateOne({ _id: to._id }, { $inc: { cashBalance: amount, netTransfers: amount } });
+
+    const [source, target] = await Promise.all([Portfolio.findById(from._id), Portfolio.findById(to._id)]);
+    await Promise.all([source.calculateMetrics(), target.calculateMetrics()]);
+
+    await Activity.create([
+      {
+        userId,
+        portfolioId: source._id,
+        type: 'withdrawal',
+        action: 'transfer_out',
+        title: 'Transfer Out',
+        description: `${formatAmount(amount)} transferred from ${source.name} to ${target.name}`,
+        status: 'success',
+        amount: -amount,
+        metadata: { toPortfolioId: target._id }
+      },
+      {
+        userId,
+        portfolioId: target._id,
+        type: 'deposit',
+        action: 'transfer_in',
+        title: 'Transfer In',
+        description: `${formatAmount(amount)} transferred from ${source.name} to ${target.name}`,
+        status: 'success',
+        amount,
+        metadata: { fromPortfolioId: source._id }
+      }
+    ]);
+
+    return { success: true, from: source, to: target };
+  }
+
+  /**
+   * Store the starting capital of portfolios opened before it was kept on
+   * the portfolio. It is the value of the opening history entry when there
+   * is one and the default capital otherwise, so resets and total returns
+   * keep using the cash the account really started with.
+   * @returns {Promise<number>} Portfolios updated
+   */
+  async backfillInitialCapital() {
+    const portfolios = await Portfolio.find({ initialCapital: { $exists: false } })
+      .select('_id createdAt')
+      .lean();
+
+    const operations = await Promise.all(portfolios.map(async (portfolio) => {
+      const opening = await PortfolioHistory.findOne({ portfolioId: portfolio._id })
+        .sort({ date: 1 })
+        .select('date totalValue')
+        .lean();
+      const opened = opening && portfolio.createdAt
+        && opening.date - portfolio.createdAt < OPENING_SNAPSHOT_WINDOW_MS;
+
+      return {
+        updateOne: {
+          filter: { _id: portfolio._id, initialCapital: { $exists: false } },
+          update: { $set: { initialCapital: opened ? opening.totalValue : Portfolio.defaultCapital() } }
+        }
+      };
+    }));
+
+    if (operations.length > 0) {
+      await Portfolio.bulkWrite(operations);
+    }
+    return operations.length;
+  }
+}
+
+module.exports = new PortfolioService();
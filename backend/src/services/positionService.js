@@ -1,8 +1,9 @@
 const Position = require('../models/Position');
 const Portfolio = require('../models/Portfolio');
-const Trade = require('../models/Trade');
 const MarketData = require('../models/MarketData');
 const { broadcastToUser } = require('./websocketService');
+const tradingCalendarService = require('./tradingCalendarService');
+const orderService = require('./orderService');
 
 class PositionService {
   constructor() {
@@ -57,6 +58,10 @@ class PositionService {
 
   /**
    * Close position (full or partial)
+   *
+   * The close is a market order on the other side, so it goes through the
+   * session, risk and matching checks of any other order and fills from the
+   * book. Outside continuous trading it is rejected or waits for the open.
    */
   async closePosition(userId, positionId, quantity) {
     try {
@@ -77,68 +82,26 @@ class PositionService {
         return { success: false, error: 'Close quantity exceeds position size' };
       }
 
-      // Get current market price
-      const marketData = await MarketData.findOne({ symbol: position.symbol })
-        .sort({ timestamp: -1 });
-      
-      if (!marketData) {
-        return { success: false, error: 'Market data not available' };
-      }
-
-      const currentPrice = marketData.price;
-      const isFullClose = closeQuantity >= maxCloseQuantity;
-
-      // Calculate P&L for the closed portion
-      const priceDiff = position.side === 'long' 
-        ? currentPrice - position.averagePrice 
-        : position.averagePrice - currentPrice;
-      const closePnL = closeQuantity * priceDiff;
-      const commission = closeQuantity * currentPrice * 0.0001; // 0.01% commission
-
-      // Create closing trade
-      const closingTrade = new Trade({
-        userId,
-        portfolioId: position.portfolioId,
-        orderId: null, // Manual close, no order
+      const result = await orderService.placeOrder(userId, position.portfolioId, {
         symbol: position.symbol,
         side: position.side === 'long' ? 'SELL' : 'BUY',
-        quantity: closeQuantity,
-        price: currentPrice,
-        commission,
-        pnl: closePnL - commission,
-        executedAt: new Date()
+        type: 'MARKET',
+        quantity: closeQuantity
       });
 
-      await closingTrade.save();
-
-      // Update position
-      if (isFullClose) {
-        position.status = 'closed';
-        position.closedAt = new Date();
-        position.realizedPnL += closePnL - commission;
-      } else {
-        // Reduce position size
-        const newQuantity = position.side === 'long' 
-          ? position.quantity - closeQuantity 
-          : position.quantity + closeQuantity;
-        
-        position.quantity = newQuantity;
-        position.realizedPnL += closePnL - commission;
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.errors.join(', '),
+          order: result.order,
+          violations: result.violations
+        };
       }
 
-      await position.save();
-
-      // Update portfolio
-      await this.updatePortfolioMetrics(position.portfolioId);
-
-      // Broadcast updates
-      this.broadcastPositionUpdate(userId, position);
-
-      return { 
-        success: true, 
-        position, 
-        trade: closingTrade,
-        pnl: closePnL - commission
+      return {
+        success: true,
+        order: result.order,
+        position: await Position.findById(position._id)
       };
     } catch (error) {
       console.error('Error closing position:', error);
@@ -226,6 +189,7 @@ class PositionService {
   async updatePositionPnL(position) {
     try {
       const marketData = await MarketData.findOne({ symbol: position.symbol })
+        .live()
         .sort({ timestamp: -1 });
 
       if (marketData) {
@@ -290,15 +254,16 @@ class PositionService {
 
       // Get current positions
       const positions = await this.getPositions(userId, portfolioId);
-      
+
+      // Recalculate value and margin, with shorts owing their market value back
+      await portfolio.calculateMetrics();
+
       // Calculate portfolio metrics
-      let totalValue = portfolio.cashBalance;
       let totalPnL = 0;
       let dayPnL = 0;
       let totalInvested = 0;
 
       for (const position of positions) {
-        totalValue += Math.abs(position.marketValue);
         totalPnL += position.unrealizedPnL + position.realizedPnL;
         totalInvested += position.costBasis;
         
@@ -307,13 +272,10 @@ class PositionService {
       }
 
       // Update portfolio
-      portfolio.totalValue = totalValue;
       portfolio.totalReturn = totalPnL;
       portfolio.totalReturnPercent = totalInvested > 0 ? (totalPnL / totalInvested) * 100 : 0;
       portfolio.dayChange = dayPnL;
-      portfolio.dayChangePercent = totalValue > 0 ? (dayPnL / totalValue) * 100 : 0;
-      portfolio.investedAmount = totalInvested;
-      portfolio.lastUpdated = new Date();
+      portfolio.dayChangePercent = portfolio.totalValue > 0 ? (dayPnL / portfolio.totalValue) * 100 : 0;
 
       await portfolio.save();
 
@@ -411,10 +373,14 @@ class PositionService {
         }
       }
 
-      // Execute risk management action
-      if (shouldClose) {
-        await this.closePosition(position.userId, position._id);
-        
+      // Execute risk management action; the close order only fills in continuous trading
+      if (shouldClose && tradingCalendarService.isMarketOpen()) {
+        const result = await this.closePosition(position.userId, position._id);
+        if (!result.success) {
+          console.error(`Could not close position ${position._id} (${reason}): ${result.error}`);
+          return;
+        }
+
         // Send notification
         broadcastToUser(position.userId, 'riskManagementTriggered', {
           type: 'RISK_MANAGEMENT_TRIGGERED',
@@ -0,0 +1,191 @@
+const Order = require('../models/Order');
+const Trade = require('../models/Trade');
+const Position = require('../models/Position');
+const Portfolio = require('../models/Portfolio');
+const Strategy = require('../models/Strategy');
+const MarginRequirement = require('../models/MarginRequirement');
+const tradingCalendarService = require('./tradingCalendarService');
+const { DEFAULT_RISK_LIMITS, openingQuantity, netPositions, dayPnL, evaluateOrder } = require('../utils/riskRules');
+const { accountMargin, buyingPower } = require('../utils/margin');
+
+const OPEN_STATUSES = ['PENDING', 'WAITING', 'PARTIALLY_FILLED'];
+
+// Window of the order rate limit
+const RATE_WINDOW_MS = 60 * 1000;
+
+const signedQuantity = (position) => position.side === 'short' ? -Math.abs(position.quantity) : Math.abs(position.quantity);
+
+const markPrice = (position) => position.currentPrice || position.averagePrice;
+
+// An order being checked has no say in its own context
+const otherThan = (order) => order._id ? { _id: { $ne: order._id } } : {};
+
+/**
+ * Pre-trade risk engine. Every order, manual or placed by a strategy, is
+ * checked against the limits of its account and, when it carries a
+ * strategyId, the limits the strategy was deployed with. The rules
+ * themselves live in utils/riskRules.js.
+ */
+class RiskEngine {
+  /**
+   * Account limits of a portfolio: its own settings over the defaults
+   * @param {Object} portfolio - Portfolio document
+   * @returns {Object} Limits
+   */
+  accountLimits(portfolio) {
+    const stored = portfolio.toObject().riskLimits || {};
+    return {
+      ...DEFAULT_RISK_LIMITS,
+      ...Object.fromEntries(Object.entries(stored).filter(([, limit]) => limit !== undefined))
+    };
+  }
+
+  /**
+   * Check an order before it is accepted
+   * @param {Object} order - Order document or { symbol, side, type, quantity, price, stopPrice, strategyId }
+   * @param {number} marketPrice - Current price of the symbol
+   * @returns {Promise<Object>} { approved, violations }
+   */
+  async checkOrder(order, marketPrice) {
+    const now = new Date();
+    const portfolio = await Portfolio.findById(order.portfolioId);
+    if (!portfolio) {
+      throw new Error('Portfolio not found');
+    }
+
+    const positions = await Position.find({ portfolioId: portfolio._id, status: 'open' });
+    const prices = new Map(positions.map(position => [position.symbol, markPrice(position)]));
+    prices.set(order.symbol, marketPrice);
+
+    const account = await this.accountContext(portfolio, positions, prices, order, now);
+    const violations = evaluateOrder(order, account, this.accountLimits(portfolio), 'ACCOUNT');
+
+    if (order.strategyId) {
+      const strategy = await Strategy.findOne({ _id: order.strategyId, userId: portfolio.userId });
+
+      if (strategy && strategy.riskLimits) {
+        const context = await this.strategyContext(strategy, account, prices, order, now);
+        violations.push(...evaluateOrder(order, context, strategy.riskLimits.toObject(), 'STRATEGY'));
+      }
+    }
+
+    return { approved: violations.length === 0, violations };
+  }
+
+  /**
+   * Account state an order is checked against, with buying power taken
+   * from the margin the account has left
+   */
+  async accountContext(portfolio, positions, prices, order, now) {
+    const held = positions.find(position => position.symbol === order.symbol);
+    const heldQuantity = (symbol) => {
+      const position = positions.find(open => open.symbol === symbol);
+      return position ? signedQuantity(position) : 0;
+    };
+
+    // Open orders hold on to the margin of what they would open until they fill or go
+    const openOrders = await Order.find({
+      portfolioId: portfolio._id,
+      status: { $in: OPEN_STATUSES },
+      ...otherThan(order)
+    });
+
+    const requirements = await MarginRequirement.forSymbols(
+      [order.symbol, ...positions.map(position => position.symbol), ...openOrders.map(open => open.symbol)],
+      portfolio.accountType
+    );
+    const margin = accountMargin(portfolio.cashBalance, positions.map(position => ({
+      symbol: position.symbol,
+      side: position.side,
+      quantity: Math.abs(position.quantity),
+      price: prices.get(position.symbol)
+    })), requirements);
+
+    const reserved = openOrders.reduce((sum, open) => {
+      const change = open.side === 'BUY' ? open.remainingQuantity : -open.remainingQuantity;
+      const price = open.price || open.stopPrice || prices.get(open.symbol) || 0;
+      return sum + openingQuantity(heldQuantity(open.symbol), change) * price
+        * requirements.get(open.symbol).initialMarginPercent / 100;
+    }, 0);
+
+    const trades = await Trade.find({
+      portfolioId: portfolio._id,
+      executedAt: { $gte: tradingCalendarService.startOfDay(now) }
+    });
+
+    const requirement = requirements.get(order.symbol);
+
+    return {
+      marketPrice: prices.get(order.symbol),
+      position: held ? signedQuantity(held) : 0,
+      equity: margin.equity,
+      buyingPower: buyingPower(margin.availableMargin - reserved, requirement),
+      shortable: requirement.shortable,
+      exposure: margin.grossExposure,
+      dayPnL: dayPnL(trades, prices),
+      recentOrders: await this.recentOrders({ portfolioId: portfolio._id }, order, now),
+      openTrades: positions.length
+    };
+  }
+
+  /**
+   * Strategy state an order is checked against: what the strategy's own
+   * trades hold, valued against its deployed capital
+   */
+  async strategyContext(strategy, account, prices, order, now) {
+    const trades = await Trade.find({ strategyId: strategy._id });
+    const held = netPositions(trades);
+    const today = tradingCalendarService.startOfDay(now);
+
+    let exposure = 0;
+    held.forEach((quantity, symbol) => {
+      exposure += Math.abs(quantity) * (prices.get(symbol) || 0);
+    });
+
+    return {
+      marketPrice: account.marketPrice,
+      position: held.get(order.symbol) || 0,
+      equity: strategy.riskLimits.capital || account.equity,
+      exposure,
+      dayPnL: dayPnL(trades.filter(trade => trade.executedAt >= today), prices),
+      recentOrders: await this.recentOrders({ strategyId: strategy._id }, order, now),
+      openTrades: held.size
+    };
+  }
+
+  // Orders accepted in the rate window, not counting the one being checked
+  recentOrders(scope, order, now) {
+    return Order.countDocuments({
+      ...scope,
+      ...otherThan(order),
+      status: { $ne: 'REJECTED' },
+      createdAt: { $gte: new Date(now.getTime() - RATE_WINDOW_MS) }
+    });
+  }
+
+  /**
+   * Account limits in force for a portfolio
+   */
+  async getLimits(userId, portfolioId) {
+    const portfolio = await Portfolio.findOne({ _id: portfolioId, userId });
+    return portfolio ? this.accountLimits(portfolio) : null;
+  }
+
+  /**
+   * Change account limits; null switches a rule off
+   * @returns {Promise<Object|null>} Limits in force afterwards
+   */
+  async updateLimits(userId, portfolioId, updates) {
+    const portfolio = await Portfolio.findOne({ _id: portfolioId, userId });
+    if (!portfolio) return null;
+
+    Object.keys(DEFAULT_RISK_LIMITS)
+      .filter(key => updates[key] !== undefined)
+      .forEach(key => portfolio.set(`riskLimits.${key}`, updates[key]));
+
+    await portfolio.save();
+    return this.accountLimits(portfolio);
+  }
+}
+
+module.exports = new RiskEngine();
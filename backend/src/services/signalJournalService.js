@@ -0,0 +1,232 @@
+const mongoose = require('mongoose');
+const StrategySignal = require('../models/StrategySignal');
+const Strategy = require('../models/Strategy');
+const Backtest = require('../models/Backtest');
+const PaperTradingSession = require('../models/PaperTradingSession');
+const Trade = require('../models/Trade');
+const { SIGNAL_ACTIONS, SIGNAL_STATUSES } = require('../utils/signalJournal');
+const { broadcastToUser } = require('./websocketService');
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Journal entry as stored, from a signal as the engines and sessions build it
+const toRecord = (signal, fields) => ({
+  ...fields,
+  symbol: signal.symbol,
+  action: signal.action,
+  side: signal.side,
+  requestedQuantity: signal.requestedQuantity,
+  reason: signal.reason,
+  signalDate: signal.signalDate,
+  bar: signal.bar,
+  indicators: signal.indicators,
+  conditions: signal.conditions,
+  status: signal.status,
+  filledQuantity: signal.filledQuantity,
+  orderIds: signal.orderIds,
+  rejection: signal.rejection
+});
+
+/**
+ * The signal journal: every order a strategy asked for in a backtest or a
+ * paper trading session, with the indicator values and conditions behind
+ * it and the trades, orders or rejection it led to. Entries are written
+ * once the outcome of a signal is known and browsed per strategy, per
+ * backtest or per paper session.
+ */
+class SignalJournalService {
+  /**
+   * Journal the signals of a completed backtest run, replacing those of any
+   * earlier run. `trades` are the persisted fills, in the order of `fills`.
+   */
+  async recordBacktestSignals(backtest, signals, fills, trades) {
+    const tradeIds = new Map(fills.map((fill, index) => [fill, trades[index] && trades[index]._id]));
+
+    await StrategySignal.deleteMany({ backtestId: backtest._id });
+    if (signals.length === 0) return;
+
+    await StrategySignal.insertMany(signals.map(signal => ({
+      ...toRecord(signal, {
+        userId: backtest.userId,
+        strategyId: backtest.strategyId,
+        source: 'BACKTEST',
+        backtestId: backtest._id
+      }),
+      fills: signal.fills.map(fill => ({
+        quantity: fill.quantity,
+        price: fill.price,
+        executedAt: fill.executedAt,
+        tradeId: tradeIds.get(fill)
+      }))
+    })), { ordered: false });
+  }
+
+  /**
+   * Journal the signals of one bar of a paper trading session and push them
+   * to the user's open connections
+   */
+  async recordSessionSignals(session, signals) {
+    if (signals.length === 0) return [];
+
+    const records = await StrategySignal.insertMany(signals.map(signal => toRecord(signal, {
+      userId: session.userId,
+      strategyId: session.strategyId,
+      source: 'PAPER',
+      sessionId: session._id,
+      portfolioId: session.portfolioId
+    })));
+
+    records.forEach(record => {
+      broadcastToUser(session.userId, 'strategySignal', {
+        type: 'STRATEGY_SIGNAL',
+        data: record
+      });
+    });
+
+    return records;
+  }
+
+  /**
+   * Journal entries of a user matching a scope, newest first for strategies
+   * and sessions and in replay order for backtests
+   * @param {Object} options - { status, action, symbol, limit, offset }
+   */
+  async query(userId, scope, options = {}, sort = { signalDate: -1 }) {
+    const filter = { ...scope, userId: new mongoose.Types.ObjectId(userId) };
+    if (options.status && SIGNAL_STATUSES.includes(options.status)) filter.status = options.status;
+    if (options.action && SIGNAL_ACTIONS.includes(options.action)) filter.action = options.action;
+    if (options.symbol) filter.symbol = String(options.symbol).toUpperCase();
+
+    const limit = Math.min(Math.max(parseInt(options.limit, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const offset = Math.max(parseInt(options.offset, 10) || 0, 0);
+
+    const [signals, total, statusCounts] = await Promise.all([
+      StrategySignal.find(filter).sort({ ...sort, _id: 1 }).skip(offset).limit(limit).lean(),
+      StrategySignal.countDocuments(filter),
+      StrategySignal.aggregate([
+        { $match: { ...scope, userId: filter.userId } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    return {
+      signals,
+      counts: Object.fromEntries(statusCounts.map(({ _id, count }) => [_id, count])),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: total > offset + limit
+      }
+    };
+  }
+
+  /**
+   * Signals of a strategy from all its backtests and sessions
+   * @param {Object} options - query options plus { source }
+   */
+  async getStrategySignals(userId, strategyId, options = {}) {
+    if (!mongoose.isValidObjectId(strategyId)) {
+      throw new Error('Strategy not found');
+    }
+
+    const strategy = await Strategy.findOne({ _id: strategyId, userId }).select('_id');
+    if (!strategy) {
+      throw new Error('Strategy not found');
+    }
+
+    const scope = { strategyId: strategy._id };
+    if (['BACKTEST', 'PAPER'].includes(options.source)) {
+      scope.source = options.source;
+    }
+    return this.query(userId, scope, options);
+  }
+
+  async getBacktestSignals(userId, backtestId, options = {}) {
+    if (!mongoose.isValidObjectId(backtestId)) {
+      throw new Error('Backtest not found');
+    }
+
+    const backtest = await Backtest.findOne({ _id: backtestId, userId }).select('_id');
+    if (!backtest) {
+      throw new Error('Backtest not found');
+    }
+
+    return this.query(userId, { backtestId: backtest._id }, options, { signalDate: 1 });
+  }
+
+  async getSessionSignals(userId, sessionId, options = {}) {
+    if (!mongoose.isValidObjectId(sessionId)) {
+      throw new Error('Session not found');
+    }
+
+    const session = await PaperTradingSession.findOne({ _id: sessionId, userId }).select('_id');
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    return this.query(userId, { sessionId: session._id }, options);
+  }
+
+  /**
+   * One journal entry with the orders and trades it led to
+   */
+  async getSignal(userId, signalId) {
+    if (!mongoose.isValidObjectId(signalId)) {
+      throw new Error('Signal not found');
+    }
+
+    const signal = await StrategySignal.findOne({ _id: signalId, userId })
+      .populate('orderIds', 'side type quantity filledQuantity avgFillPrice status rejectionReason riskViolations createdAt')
+      .lean();
+    if (!signal) {
+      throw new Error('Signal not found');
+    }
+
+    return this.withTrades(signal);
+  }
+
+  /**
+   * The signal that produced a backtest trade
+   */
+  async getTradeSignal(userId, backtestId, tradeId) {
+    if (!mongoose.isValidObjectId(backtestId) || !mongoose.isValidObjectId(tradeId)) {
+      throw new Error('Signal not found');
+    }
+
+    const signal = await StrategySignal.findOne({
+      userId,
+      backtestId,
+      'fills.tradeId': tradeId
+    }).lean();
+    if (!signal) {
+      throw new Error('Signal not found');
+    }
+
+    return this.withTrades(signal);
+  }
+
+  // Backtest signals name their trades; paper signals reach them through their orders
+  async withTrades(signal) {
+    const tradeIds = signal.fills.map(fill => fill.tradeId).filter(Boolean);
+    const orderIds = (signal.orderIds || []).map(order => order._id || order);
+
+    const trades = tradeIds.length > 0 || orderIds.length > 0
+      ? await Trade.find({
+        userId: signal.userId,
+        $or: [
+          { _id: { $in: tradeIds } },
+          { orderId: { $in: orderIds } }
+        ]
+      })
+        .select('symbol side quantity price commission pnl pnlPercent executedAt orderId')
+        .sort({ executedAt: 1 })
+        .lean()
+      : [];
+
+    return { ...signal, trades };
+  }
+}
+
+module.exports = new SignalJournalService();
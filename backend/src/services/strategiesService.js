@@ -1,6 +1,10 @@
 const Strategy = require('../models/Strategy');
 const StrategyTemplate = require('../models/StrategyTemplate');
 const Activity = require('../models/Activity');
+const StrategyRuntime = require('./strategyRuntime');
+const strategyVersionService = require('./strategyVersionService');
+const { RULES_VERSION, compileRules } = require('../utils/strategyRules');
+const { snapshotStrategy } = require('../utils/strategyVersions');
 
 class StrategiesService {
 
@@ -104,12 +108,16 @@ class StrategiesService {
         type: strategyData.type,
         parameters: strategyData.parameters || {},
         code: strategyData.code || '',
+        rules: strategyData.rules || (strategyData.type === 'VISUAL'
+          ? { version: RULES_VERSION, entry: [], exit: [] }
+          : undefined),
         templateId: strategyData.templateId,
         tags: strategyData.tags || [],
         isTemplate: false
       });
 
       await strategy.save();
+      await strategyVersionService.recordInitialVersion(strategy, userId);
 
       // Create activity log
       await Activity.create({
@@ -134,7 +142,9 @@ class StrategiesService {
   }
 
   /**
-   * Update an existing strategy
+   * Update an existing strategy. Changes to its code, parameters or rules
+   * record a new version, bumped by `versionBump` (patch by default) and
+   * described by `versionMessage`.
    */
   async updateStrategy(userId, strategyId, updateData) {
     try {
@@ -144,14 +154,23 @@ class StrategiesService {
         throw new Error('Strategy not found');
       }
 
+      await strategyVersionService.getCurrentVersion(strategy, userId);
+      const before = snapshotStrategy(strategy);
+
       // Update allowed fields
-      const allowedFields = ['name', 'description', 'parameters', 'code', 'tags'];
+      const allowedFields = ['name', 'description', 'parameters', 'code', 'rules', 'tags'];
       allowedFields.forEach(field => {
         if (updateData[field] !== undefined) {
           strategy[field] = updateData[field];
         }
       });
 
+      const version = await strategyVersionService.recordChanges(strategy, before, {
+        authorId: userId,
+        message: updateData.versionMessage,
+        bump: updateData.versionBump
+      });
+
       await strategy.save();
 
       // Create activity log
@@ -160,9 +179,12 @@ class StrategiesService {
         type: 'strategy',
         action: 'update',
         title: 'Strategy Updated',
-        description: `Updated strategy: ${strategy.name}`,
+        description: version
+          ? `Updated strategy: ${strategy.name} (v${version.version})`
+          : `Updated strategy: ${strategy.name}`,
         status: 'success',
-        strategyId: strategy._id
+        strategyId: strategy._id,
+        ...(version && { metadata: { version: version.version } })
       });
 
       return strategy;
@@ -218,6 +240,11 @@ class StrategiesService {
       }
 
       const clonedStrategy = await originalStrategy.clone(newName, userId);
+      await strategyVersionService.recordInitialVersion(
+        clonedStrategy,
+        userId,
+        `Cloned from ${originalStrategy.name} v${originalStrategy.version}`
+      );
 
       // Create activity log
       await Activity.create({
@@ -242,9 +269,9 @@ class StrategiesService {
   }
 
   /**
-   * Deploy a strategy
+   * Deploy a strategy, optionally with the risk limits its orders are checked against
    */
-  async deployStrategy(userId, strategyId) {
+  async deployStrategy(userId, strategyId, riskLimits) {
     try {
       const strategy = await Strategy.findOne({ _id: strategyId, userId });
       
@@ -256,6 +283,10 @@ class StrategiesService {
         throw new Error('Strategy is already active');
       }
 
+      if (riskLimits) {
+        strategy.riskLimits = riskLimits;
+      }
+
       await strategy.deploy();
 
       // Create activity log
@@ -354,6 +385,8 @@ class StrategiesService {
       const {
         category,
         search,
+        source,
+        userId,
         sortBy = 'usageCount',
         sortOrder = 'desc',
         limit = 20,
@@ -363,18 +396,17 @@ class StrategiesService {
       const templates = await StrategyTemplate.getPublicTemplates({
         category,
         search,
+        source,
+        userId,
         sortBy,
         sortOrder,
         limit,
         offset
       });
 
-      const total = await StrategyTemplate.countDocuments({
-        isActive: true,
-        isPublic: true,
-        ...(category && category !== 'all' ? { category } : {}),
-        ...(search ? { $text: { $search: search } } : {})
-      });
+      const total = await StrategyTemplate.countDocuments(
+        StrategyTemplate.listingQuery({ category, search, source, userId })
+      );
 
       return {
         templates,
@@ -441,8 +473,8 @@ class StrategiesService {
    */
   async createFromTemplate(userId, templateId, strategyData) {
     try {
-      const template = await StrategyTemplate.findById(templateId);
-      
+      const template = await StrategyTemplate.findOne({ _id: templateId, ...StrategyTemplate.visibleTo(userId) });
+
       if (!template) {
         throw new Error('Template not found');
       }
@@ -463,6 +495,7 @@ class StrategiesService {
       });
 
       await strategy.save();
+      await strategyVersionService.recordInitialVersion(strategy, userId, `Created from template ${template.name}`);
 
       // Create activity log
       await Activity.create({
@@ -486,6 +519,60 @@ class StrategiesService {
     }
   }
 
+  /**
+   * Compile strategy code in the sandbox and dry-run it to collect diagnostics
+   */
+  async validateStrategyCode(code, parameters = {}) {
+    return await StrategyRuntime.validate(code, parameters);
+  }
+
+  /**
+   * Compile visual rules into the equivalent sandbox code
+   */
+  compileStrategyRules(rules) {
+    return compileRules(rules);
+  }
+
+  /**
+   * Turn a visual strategy into a code strategy running its compiled rules.
+   * The rules are kept so the conversion can be traced back.
+   */
+  async convertToCode(userId, strategyId) {
+    const strategy = await Strategy.findOne({ _id: strategyId, userId });
+
+    if (!strategy) {
+      throw new Error('Strategy not found');
+    }
+
+    if (strategy.type !== 'VISUAL') {
+      throw new Error('Only visual strategies can be converted to code');
+    }
+
+    await strategyVersionService.getCurrentVersion(strategy, userId);
+    const before = snapshotStrategy(strategy);
+
+    strategy.code = compileRules(strategy.rules);
+    strategy.type = 'CODE';
+    await strategyVersionService.recordChanges(strategy, before, {
+      authorId: userId,
+      message: 'Converted visual rules to code',
+      bump: 'minor'
+    });
+    await strategy.save();
+
+    await Activity.create({
+      userId,
+      type: 'strategy',
+      action: 'update',
+      title: 'Strategy Converted',
+      description: `Converted visual strategy to code: ${strategy.name}`,
+      status: 'success',
+      strategyId: strategy._id
+    });
+
+    return strategy;
+  }
+
   /**
    * Get strategy performance summary
    */
@@ -0,0 +1,248 @@
+const mongoose = require('mongoose');
+const Strategy = require('../models/Strategy');
+const StrategyTemplate = require('../models/StrategyTemplate');
+const StrategyVersion = require('../models/StrategyVersion');
+const Backtest = require('../models/Backtest');
+const Activity = require('../models/Activity');
+const strategyVersionService = require('./strategyVersionService');
+const { normalizeRules } = require('../utils/strategyRules');
+const { compareVersions } = require('../utils/strategyVersions');
+const { validatePackage, buildPackage, suggestName } = require('../utils/strategyPackage');
+
+/**
+ * Export and import of strategy packages; see utils/strategyPackage.js for
+ * the format. Parameter presets are kept in the browser, so the client
+ * sends them along on export and stores the imported ones itself.
+ *
+ * An import always creates a new strategy with the packaged version
+ * history. It is previewed first: the preview reports validation errors,
+ * checksum and migration results, and conflicts such as a strategy of the
+ * same name, and suggests a free name.
+ */
+class StrategyPackageService {
+  /**
+   * Package a strategy
+   * @param {Object} options - { presets, includeBacktest }
+   */
+  async exportStrategy(userId, strategyId, { presets = [], includeBacktest = false } = {}) {
+    if (!mongoose.isValidObjectId(strategyId)) {
+      throw new Error('Strategy not found');
+    }
+
+    const strategy = await Strategy.findOne({ _id: strategyId, userId, isArchived: false })
+      .populate('template', 'name category parameterSchema');
+    if (!strategy) {
+      throw new Error('Strategy not found');
+    }
+
+    await strategyVersionService.getCurrentVersion(strategy, userId);
+    const versions = await StrategyVersion.find({ strategyId: strategy._id })
+      .populate('author', 'name')
+      .lean({ virtuals: true });
+
+    let backtest = null;
+    if (includeBacktest) {
+      const latest = await Backtest.findOne({ strategyId: strategy._id, status: 'COMPLETED' })
+        .sort({ completedAt: -1 })
+        .select('name startDate endDate initialCapital strategyVersion result.summary')
+        .lean();
+
+      if (latest && latest.result && latest.result.summary) {
+        backtest = {
+          name: latest.name,
+          startDate: latest.startDate,
+          endDate: latest.endDate,
+          initialCapital: latest.initialCapital,
+          strategyVersion: latest.strategyVersion,
+          summary: latest.result.summary
+        };
+      }
+    }
+
+    const pkg = buildPackage({
+      strategy: {
+        name: strategy.name,
+        description: strategy.description,
+        type: strategy.type,
+        version: strategy.version,
+        parameters: strategy.parameters || {},
+        code: strategy.code || '',
+        rules: strategy.rules,
+        tags: strategy.tags,
+        template: strategy.template
+          ? { name: strategy.template.name, category: strategy.template.category }
+          : undefined
+      },
+      parameterSchema: (strategy.template && strategy.template.parameterSchema) || [],
+      presets: (Array.isArray(presets) ? presets : []).map(preset => ({
+        name: preset.name,
+        description: preset.description || '',
+        parameters: preset.parameters || {},
+        tags: preset.tags || []
+      })),
+      versions: versions.map(version => ({
+        version: version.version,
+        message: version.message,
+        changes: version.changes,
+        restoredFrom: version.restoredFrom,
+        type: version.type,
+        code: version.code,
+        parameters: version.parameters,
+        rules: version.rules,
+        author: version.author ? version.author.name : undefined,
+        createdAt: version.createdAt
+      })),
+      backtest
+    });
+
+    await Activity.create({
+      userId,
+      type: 'strategy',
+      action: 'export',
+      title: 'Strategy Exported',
+      description: `Exported strategy package: ${strategy.name} v${strategy.version}`,
+      status: 'info',
+      strategyId: strategy._id
+    });
+
+    return pkg;
+  }
+
+  /**
+   * Validate a package and report what importing it would do
+   */
+  async previewImport(userId, data) {
+    const result = validatePackage(data);
+    const { package: pkg, ...validation } = result;
+
+    if (!pkg || !pkg.content || !pkg.content.strategy) {
+      return { ...validation, conflicts: [], summary: null, suggestedName: null, presets: [] };
+    }
+
+    const { strategy, presets = [], versions = [], parameterSchema = [], backtest } = pkg.content;
+    const conflicts = [];
+    let suggestedName = null;
+
+    if (typeof strategy.name === 'string' && strategy.name.trim()) {
+      const existing = await Strategy.find({ userId, isArchived: false }).select('name').lean();
+      const duplicate = existing.find(item => item.name.toLowerCase() === strategy.name.trim().toLowerCase());
+      suggestedName = suggestName(strategy.name.trim(), existing.map(item => item.name));
+
+      if (duplicate) {
+        conflicts.push({
+          type: 'DUPLICATE_NAME',
+          message: `You already have a strategy named "${duplicate.name}"`,
+          strategyId: duplicate._id
+        });
+      }
+    }
+
+    if (strategy.type === 'TEMPLATE' && strategy.template && strategy.template.name) {
+      const template = await StrategyTemplate.findOne({ name: strategy.template.name }).select('_id').lean();
+      if (!template) {
+        conflicts.push({
+          type: 'MISSING_TEMPLATE',
+          message: `Template "${strategy.template.name}" is not available here; the strategy keeps its own code and parameters`
+        });
+      }
+    }
+
+    return {
+      ...validation,
+      conflicts,
+      suggestedName,
+      summary: {
+        name: strategy.name,
+        description: strategy.description,
+        type: strategy.type,
+        version: strategy.version || '1.0.0',
+        parameterCount: Object.keys(strategy.parameters || {}).length,
+        parameterSchemaCount: parameterSchema.length,
+        presetCount: presets.length,
+        versionCount: versions.length,
+        backtest: backtest || null
+      },
+      presets
+    };
+  }
+
+  /**
+   * Create a strategy from a package
+   * @param {Object} options - { name } to import under another name
+   * @returns {Object} { strategy, presets }
+   */
+  async importPackage(userId, data, { name } = {}) {
+    const { valid, errors, package: pkg } = validatePackage(data);
+    if (!valid) {
+      throw new Error(`Invalid strategy package: ${errors.join('; ')}`);
+    }
+
+    const { strategy: packaged, versions = [], presets = [] } = pkg.content;
+    const strategyName = (name || packaged.name).trim();
+
+    const duplicate = await Strategy.findOne({ userId, isArchived: false, name: strategyName })
+      .collation({ locale: 'en', strength: 2 });
+    if (duplicate) {
+      throw new Error(`A strategy named "${strategyName}" already exists`);
+    }
+
+    const template = packaged.type === 'TEMPLATE' && packaged.template && packaged.template.name
+      ? await StrategyTemplate.findOne({ name: packaged.template.name }).select('_id')
+      : null;
+
+    const history = [...versions].sort((a, b) => compareVersions(a.version, b.version));
+    const version = packaged.version || (history.length ? history[history.length - 1].version : '1.0.0');
+
+    const strategy = new Strategy({
+      userId,
+      name: strategyName,
+      description: packaged.description || `Imported from a strategy package`,
+      type: packaged.type,
+      parameters: packaged.parameters || {},
+      code: packaged.code || '',
+      rules: packaged.rules ? normalizeRules(packaged.rules) : undefined,
+      templateId: template ? template._id : undefined,
+      tags: packaged.tags || [],
+      version,
+      isTemplate: false
+    });
+    await strategy.save();
+
+    // The packaged history keeps its messages; the importer becomes the author
+    await StrategyVersion.insertMany(history.map(entry => ({
+      strategyId: strategy._id,
+      userId,
+      authorId: userId,
+      version: entry.version,
+      message: entry.message,
+      changes: entry.changes || [],
+      restoredFrom: entry.restoredFrom,
+      type: entry.type,
+      code: entry.code || '',
+      parameters: entry.parameters || {},
+      rules: entry.rules,
+      createdAt: entry.createdAt ? new Date(entry.createdAt) : undefined
+    })));
+    if (!history.some(entry => entry.version === version)) {
+      await strategyVersionService.recordInitialVersion(strategy, userId, 'Imported from a strategy package');
+    }
+
+    await Activity.create({
+      userId,
+      type: 'strategy',
+      action: 'import',
+      title: 'Strategy Imported',
+      description: `Imported strategy package: ${strategy.name} v${version}`,
+      status: 'success',
+      strategyId: strategy._id,
+      metadata: {
+        versions: history.length,
+        originalName: packaged.name
+      }
+    });
+
+    return { strategy, presets };
+  }
+}
+
+module.exports = new StrategyPackageService();
@@ -0,0 +1,275 @@
+const path = require('path');
+const { Worker } = require('worker_threads');
+
+const DEFAULT_LIMITS = {
+  initTimeoutMs: 1000,
+  onBarTimeoutMs: 100,
+  memoryLimitMb: 64
+};
+
+// Extra wall-clock allowance on top of the CPU limit before the worker is killed
+const WALL_CLOCK_GRACE_MS = 2000;
+const MAX_LOGS = 500;
+const VALIDATION_BARS = 60;
+
+/**
+ * Error raised when strategy code fails to compile, throws, or breaks a
+ * resource limit. `diagnostics` holds the structured details.
+ */
+class StrategyRuntimeError extends Error {
+  constructor(diagnostics) {
+    const [first] = diagnostics;
+    super(first && first.line ? `Line ${first.line}: ${first.message}` : (first ? first.message : 'Strategy failed'));
+    this.name = 'StrategyRuntimeError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Runs user-authored CODE strategies in an isolated worker thread.
+ *
+ * A runtime is a strategy handler with the same `onBar(bar, ctx)` shape as the
+ * built-in strategies, so the backtest engine and paper trading sessions can
+ * drive it without knowing the code is sandboxed. Orders the strategy places
+ * inside the sandbox are replayed onto the caller's ctx, with the indicators
+ * it read on the bar added to the signal context it gave.
+ */
+class StrategyRuntime {
+  /**
+   * @param {Object} options - Runtime options
+   * @param {string} options.code - Strategy source defining onBar(bar, ctx)
+   * @param {string} options.symbol - Symbol exposed as ctx.symbol
+   * @param {Object} options.parameters - Strategy parameters exposed as ctx.params
+   * @param {Object} options.limits - Overrides for DEFAULT_LIMITS
+   */
+  constructor({ code, symbol = '', parameters = {}, limits = {} }) {
+    this.code = code;
+    this.symbol = symbol;
+    this.parameters = parameters;
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+    this.worker = null;
+    this.pending = null;
+    this.nextId = 0;
+    this.logs = [];
+  }
+
+  /**
+   * Start the worker and compile the strategy
+   * @throws {StrategyRuntimeError} When the code does not compile or set up
+   */
+  async start() {
+    this.worker = new Worker(path.join(__dirname, 'strategyRuntimeWorker.js'), {
+      workerData: {
+        code: this.code,
+        symbol: this.symbol,
+        parameters: JSON.parse(JSON.stringify(this.parameters || {})),
+        limits: this.limits
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: this.limits.memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.round(this.limits.memoryLimitMb / 8)),
+        stackSizeMb: 4
+      }
+    });
+
+    this.worker.on('message', message => this.handleMessage(message));
+    this.worker.on('error', error => this.handleCrash(error));
+    this.worker.on('exit', () => this.handleCrash(null));
+
+    await this.request(null, this.limits.initTimeoutMs);
+  }
+
+  /**
+   * Strategy handler entry point: run the sandboxed onBar and apply its orders
+   */
+  async onBar(bar, ctx) {
+    const message = {
+      type: 'bar',
+      bar: {
+        date: new Date(bar.date).toISOString(),
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume
+      },
+      state: {
+        barIndex: ctx.barIndex,
+        position: ctx.position,
+        cash: ctx.cash,
+        equity: ctx.equity
+      }
+    };
+
+    const { orders } = await this.request(message, this.limits.onBarTimeoutMs, bar.date);
+
+    orders.forEach(order => {
+      const given = order.context && typeof order.context === 'object' ? order.context : {};
+      const context = {
+        ...given,
+        indicators: { ...order.indicators, ...given.indicators }
+      };
+
+      if (order.quantity === 'ALL') {
+        ctx.close(order.reason, context);
+      } else if (order.side === 'BUY') {
+        ctx.buy(order.quantity, order.reason, context);
+      } else {
+        ctx.sell(order.quantity, order.reason, context);
+      }
+    });
+  }
+
+  /**
+   * Terminate the worker
+   */
+  async stop() {
+    if (this.worker) {
+      const worker = this.worker;
+      this.worker = null;
+      await worker.terminate();
+    }
+  }
+
+  /**
+   * Send a message to the worker (or wait for startup when message is null)
+   * and resolve with its reply. The worker is killed if it does not answer
+   * within the CPU limit plus a grace period.
+   */
+  request(message, cpuLimitMs, date) {
+    if (!this.worker) {
+      return Promise.reject(new StrategyRuntimeError([{
+        severity: 'error',
+        phase: 'runtime',
+        message: 'Strategy runtime is not running'
+      }]));
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = message ? ++this.nextId : 0;
+      const timer = setTimeout(() => {
+        this.fail(new StrategyRuntimeError([{
+          severity: 'error',
+          phase: 'limits',
+          message: `Strategy did not respond within ${cpuLimitMs + WALL_CLOCK_GRACE_MS}ms`
+        }]));
+      }, cpuLimitMs + WALL_CLOCK_GRACE_MS);
+
+      this.pending = { id, date, resolve, reject, timer };
+
+      if (message) {
+        this.worker.postMessage({ ...message, id });
+      }
+    });
+  }
+
+  handleMessage(message) {
+    const pending = this.pending;
+    if (!pending) return;
+
+    if (message.logs) {
+      this.recordLogs(message.logs, pending.date);
+    }
+
+    if (message.type === 'ready') {
+      this.settle().resolve({});
+    } else if (message.type === 'failed') {
+      this.fail(new StrategyRuntimeError(message.diagnostics));
+    } else if (message.id === pending.id && message.type === 'result') {
+      this.settle().resolve({ orders: message.orders });
+    } else if (message.id === pending.id && message.type === 'error') {
+      this.fail(new StrategyRuntimeError([message.diagnostic]));
+    }
+  }
+
+  handleCrash(error) {
+    if (!this.pending) return;
+
+    const outOfMemory = error && error.code === 'ERR_WORKER_OUT_OF_MEMORY';
+    this.fail(new StrategyRuntimeError([{
+      severity: 'error',
+      phase: outOfMemory ? 'limits' : 'runtime',
+      message: outOfMemory
+        ? `Strategy exceeded the ${this.limits.memoryLimitMb}MB memory limit`
+        : `Strategy runtime stopped unexpectedly${error ? `: ${error.message}` : ''}`
+    }]));
+  }
+
+  settle() {
+    const pending = this.pending;
+    this.pending = null;
+    clearTimeout(pending.timer);
+    return pending;
+  }
+
+  fail(error) {
+    if (!this.pending) return;
+    this.settle().reject(error);
+    // A failed strategy is never reused
+    this.stop().catch(() => {});
+  }
+
+  recordLogs(logs, date) {
+    logs.forEach(message => {
+      if (this.logs.length < MAX_LOGS) {
+        this.logs.push({ date, message });
+      }
+    });
+  }
+
+  /**
+   * Compile a strategy and dry-run it over synthetic bars to surface
+   * compile errors, runtime errors and limit violations.
+   * @param {string} code - Strategy source
+   * @param {Object} parameters - Parameters exposed as ctx.params
+   * @returns {Promise<Object>} { valid, diagnostics, logs }
+   */
+  static async validate(code, parameters = {}) {
+    const runtime = new StrategyRuntime({ code, symbol: 'TEST', parameters });
+    const diagnostics = [];
+
+    try {
+      await runtime.start();
+
+      const ctx = {
+        barIndex: 0,
+        position: { quantity: 0, avgPrice: 0, side: 'FLAT' },
+        cash: 100000,
+        equity: 100000,
+        buy() {},
+        sell() {},
+        close() {}
+      };
+
+      for (let index = 0; index < VALIDATION_BARS; index++) {
+        const close = 100 + Math.sin(index / 5) * 5 + index * 0.1;
+        ctx.barIndex = index;
+        await runtime.onBar({
+          date: new Date(Date.UTC(2024, 0, 1) + index * 24 * 60 * 60 * 1000),
+          open: close - 0.5,
+          high: close + 1,
+          low: close - 1,
+          close,
+          volume: 100000 + index * 1000
+        }, ctx);
+      }
+    } catch (error) {
+      if (!(error instanceof StrategyRuntimeError)) {
+        throw error;
+      }
+      diagnostics.push(...error.diagnostics);
+    } finally {
+      await runtime.stop();
+    }
+
+    return {
+      valid: diagnostics.length === 0,
+      diagnostics,
+      logs: runtime.logs.slice(0, 50).map(entry => entry.message)
+    };
+  }
+}
+
+module.exports = StrategyRuntime;
+module.exports.StrategyRuntimeError = StrategyRuntimeError;
+module.exports.DEFAULT_LIMITS = DEFAULT_LIMITS;
@@ -0,0 +1,331 @@
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+const { parentPort, workerData } = require('worker_threads');
+
+/**
+ * Worker thread that hosts one user strategy.
+ *
+ * The strategy source runs in a fresh V8 context with no `require`, `process`
+ * or other Node globals, and with eval/Function/WebAssembly disabled. Data only
+ * crosses into the context as JSON strings and leaves it the same way, so user
+ * code never holds a reference to an object from this realm. That includes
+ * the context object itself: it has no prototype, as the global lookups of the
+ * sandbox fall through to it and `constructor` on an ordinary object would be
+ * this realm's Object, whose Function can still compile code. Heap size is
+ * capped by the worker's resourceLimits and every call into user code carries
+ * a CPU timeout.
+ */
+
+const STRATEGY_FILENAME = 'strategy.js';
+const MAX_LOGS_PER_BAR = 50;
+const MAX_ORDERS_PER_BAR = 20;
+const MAX_CONTEXT_LENGTH = 10000;
+
+// The indicator library is plain CommonJS without requires, so it can be
+// evaluated inside the sandbox and shared with native strategies
+const INDICATOR_SOURCE = fs.readFileSync(path.join(__dirname, '../utils/indicators.js'), 'utf8');
+const INDICATOR_MODULE = `(() => {
+  const module = { exports: {} };
+  ((module, exports) => {
+${INDICATOR_SOURCE}
+  })(module, module.exports);
+  return Object.freeze(module.exports);
+})()`;
+
+/**
+ * Runs inside the sandbox context (serialized with toString), so everything it
+ * creates belongs to the sandbox realm. `lib` is the indicator library,
+ * evaluated inside the same context.
+ */
+function sandboxBootstrap(global, lib, maxLogs, maxOrders, maxContextLength) {
+  const history = [];
+  let config = { symbol: '', params: {}, seed: 1 };
+  let logs = [];
+
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    try {
+      return JSON.stringify(value);
+    } catch (error) {
+      return String(value);
+    }
+  };
+
+  const log = (...args) => {
+    if (logs.length < maxLogs) {
+      logs.push(args.map(format).join(' '));
+    }
+  };
+
+  global.console = Object.freeze({ log, info: log, warn: log, error: log });
+
+  // Seeded so strategies using Math.random stay reproducible
+  let seed = 1;
+  Math.random = () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Streaming indicators are created on first use, caught up on the bars
+  // seen so far, then advanced one bar at a time (O(1) per bar)
+  const streams = new Map();
+  const stream = (key, create, input) => {
+    let entry = streams.get(key);
+    if (!entry) {
+      entry = { indicator: create(), processed: 0, value: null };
+      streams.set(key, entry);
+    }
+    while (entry.processed < history.length) {
+      entry.value = entry.indicator.update(input(history[entry.processed]));
+      entry.processed += 1;
+    }
+    return entry.value;
+  };
+
+  const field = (source) => {
+    if (!['open', 'high', 'low', 'close', 'volume'].includes(source)) {
+      throw new Error(`Unknown indicator source "${source}"`);
+    }
+    return bar => bar[source];
+  };
+  const wholeBar = bar => bar;
+
+  // Indicators the strategy read on the current bar, named like "SMA(20, close)"
+  const indicatorsRead = () => {
+    const values = {};
+    streams.forEach((entry, key) => {
+      if (entry.processed === history.length && entry.value !== null) {
+        const [name, ...args] = key.split(':');
+        values[`${name.toUpperCase()}(${args.join(', ')})`] = entry.value;
+      }
+    });
+    return values;
+  };
+
+  const indicators = Object.freeze({
+    sma: (period, source = 'close') => stream(`sma:${period}:${source}`, () => new lib.SMA(period), field(source)),
+    ema: (period, source = 'close') => stream(`ema:${period}:${source}`, () => new lib.EMA(period), field(source)),
+    wma: (period, source = 'close') => stream(`wma:${period}:${source}`, () => new lib.WMA(period), field(source)),
+    rsi: (period = 14, source = 'close') => stream(`rsi:${period}:${source}`, () => new lib.RSI(period), field(source)),
+    macd: (fast = 12, slow = 26, signal = 9) =>
+      stream(`macd:${fast}:${slow}:${signal}`, () => new lib.MACD(fast, slow, signal), field('close')),
+    bollinger: (period = 20, multiplier = 2) =>
+      stream(`bollinger:${period}:${multiplier}`, () => new lib.BollingerBands(period, multiplier), field('close')),
+    atr: (period = 14) => stream(`atr:${period}`, () => new lib.ATR(period), wholeBar),
+    stochastic: (kPeriod = 14, dPeriod = 3) =>
+      stream(`stochastic:${kPeriod}:${dPeriod}`, () => new lib.Stochastic(kPeriod, dPeriod), wholeBar),
+    vwap: (resetDaily = false) => stream(`vwap:${resetDaily}`, () => new lib.VWAP({ resetDaily }), wholeBar),
+    obv: () => stream('obv', () => new lib.OBV(), wholeBar),
+    adx: (period = 14) => stream(`adx:${period}`, () => new lib.ADX(period), wholeBar),
+    superTrend: (period = 10, multiplier = 3) =>
+      stream(`superTrend:${period}:${multiplier}`, () => new lib.SuperTrend(period, multiplier), wholeBar),
+    highest: (period, source = 'high') => stream(`highest:${period}:${source}`, () => new lib.Highest(period), field(source)),
+    lowest: (period, source = 'low') => stream(`lowest:${period}:${source}`, () => new lib.Lowest(period), field(source))
+  });
+
+  const describeError = (error) => {
+    if (error && typeof error === 'object') {
+      return {
+        name: String(error.name || 'Error'),
+        message: String(error.message || error),
+        stack: typeof error.stack === 'string' ? error.stack : ''
+      };
+    }
+    return { name: 'Error', message: String(error), stack: '' };
+  };
+
+  const configure = (json) => {
+    config = JSON.parse(json);
+    seed = config.seed | 0;
+  };
+
+  const runBar = (onBar, json) => {
+    const { bar, state } = JSON.parse(json);
+    bar.date = new Date(bar.date);
+    history.push(Object.freeze(bar));
+    logs = [];
+    const orders = [];
+
+    const order = (side, quantity, reason, context) => {
+      if (orders.length >= maxOrders) {
+        throw new Error(`No more than ${maxOrders} orders can be placed per bar`);
+      }
+      if (quantity !== undefined && quantity !== 'ALL' && !(Number(quantity) > 0)) {
+        throw new Error(`Order quantity must be a positive number, got ${format(quantity)}`);
+      }
+      const contextJson = context === undefined ? undefined : JSON.stringify(context);
+      if (contextJson !== undefined && contextJson.length > maxContextLength) {
+        throw new Error(`Signal context must be under ${maxContextLength} characters of JSON`);
+      }
+      orders.push({
+        side,
+        quantity: quantity === undefined || quantity === 'ALL' ? quantity : Number(quantity),
+        reason: reason === undefined ? undefined : String(reason),
+        context: contextJson === undefined ? undefined : JSON.parse(contextJson)
+      });
+    };
+
+    const ctx = Object.freeze({
+      symbol: config.symbol,
+      params: config.params,
+      barIndex: state.barIndex,
+      position: Object.freeze(state.position),
+      cash: state.cash,
+      equity: state.equity,
+      indicators,
+      history: (count) => (count ? history.slice(-count) : history.slice()),
+      buy: (quantity, reason, context) => order('BUY', quantity, reason, context),
+      sell: (quantity, reason, context) => order('SELL', quantity, reason, context),
+      close: (reason, context) => order('SELL', 'ALL', reason, context),
+      log
+    });
+
+    try {
+      const returned = onBar(bar, ctx);
+      if (returned && typeof returned.then === 'function') {
+        throw new Error('onBar must be synchronous; it returned a Promise');
+      }
+      const indicatorValues = orders.length > 0 ? indicatorsRead() : {};
+      orders.forEach(entry => {
+        entry.indicators = indicatorValues;
+      });
+      return JSON.stringify({ orders, logs });
+    } catch (error) {
+      return JSON.stringify({ error: describeError(error), logs });
+    }
+  };
+
+  // Locked so strategy code cannot replace the runtime entry points
+  Object.defineProperty(global, '__configure', { value: configure });
+  Object.defineProperty(global, '__runBar', { value: runBar });
+}
+
+/**
+ * Pull the strategy line/column out of an error stack
+ */
+const locate = (stack) => {
+  if (!stack) return {};
+
+  // Compile errors: "strategy.js:12\n<source line>\n    ^^^^\n"
+  const compileMatch = stack.match(new RegExp(`^${STRATEGY_FILENAME}:(\\d+)\\n.*\\n(\\s*)\\^`));
+  if (compileMatch) {
+    return { line: Number(compileMatch[1]), column: compileMatch[2].length + 1 };
+  }
+
+  // Runtime errors: first stack frame inside the strategy
+  const frameMatch = stack.match(new RegExp(`${STRATEGY_FILENAME}:(\\d+):(\\d+)`));
+  if (frameMatch) {
+    return { line: Number(frameMatch[1]), column: Number(frameMatch[2]) };
+  }
+
+  return {};
+};
+
+const diagnostic = (phase, error, fallbackMessage) => {
+  if (error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+    return {
+      severity: 'error',
+      phase: 'limits',
+      message: fallbackMessage
+    };
+  }
+
+  const name = error && error.name ? error.name : 'Error';
+  const message = error && error.message ? error.message : String(error);
+
+  return {
+    severity: 'error',
+    phase,
+    message: `${name}: ${message}`,
+    ...locate(error && error.stack)
+  };
+};
+
+const { code, symbol, parameters, limits } = workerData;
+
+const context = vm.createContext(Object.create(null), {
+  name: 'strategy-sandbox',
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: 'afterEvaluate'
+});
+
+const runBarScript = new vm.Script(
+  '__runBar(typeof onBar === "function" ? onBar : undefined, __input)',
+  { filename: 'runtime.js' }
+);
+
+const initialize = () => {
+  vm.runInContext(
+    `(${sandboxBootstrap.toString()})(globalThis, ${INDICATOR_MODULE}, ${MAX_LOGS_PER_BAR}, ${MAX_ORDERS_PER_BAR}, ${MAX_CONTEXT_LENGTH});`,
+    context,
+    { filename: 'bootstrap.js' }
+  );
+  context.__input = JSON.stringify({ symbol, params: parameters || {}, seed: 1 });
+  vm.runInContext('__configure(__input)', context);
+
+  let script;
+  try {
+    script = new vm.Script(code, { filename: STRATEGY_FILENAME });
+  } catch (error) {
+    return [diagnostic('compile', error)];
+  }
+
+  try {
+    script.runInContext(context, { timeout: limits.initTimeoutMs });
+  } catch (error) {
+    return [diagnostic('runtime', error, `Strategy setup exceeded the ${limits.initTimeoutMs}ms CPU limit`)];
+  }
+
+  const hasOnBar = vm.runInContext('typeof onBar === "function"', context);
+  if (!hasOnBar) {
+    return [{
+      severity: 'error',
+      phase: 'compile',
+      message: 'Strategy must define an onBar(bar, ctx) function',
+      line: 1,
+      column: 1
+    }];
+  }
+
+  return [];
+};
+
+const diagnostics = initialize();
+if (diagnostics.length > 0) {
+  parentPort.postMessage({ type: 'failed', diagnostics });
+} else {
+  parentPort.postMessage({ type: 'ready' });
+}
+
+parentPort.on('message', (message) => {
+  if (message.type !== 'bar') return;
+
+  let output;
+  try {
+    context.__input = JSON.stringify({ bar: message.bar, state: message.state });
+    output = JSON.parse(runBarScript.runInContext(context, { timeout: limits.onBarTimeoutMs }));
+  } catch (error) {
+    parentPort.postMessage({
+      type: 'error',
+      id: message.id,
+      diagnostic: diagnostic('runtime', error, `onBar exceeded the ${limits.onBarTimeoutMs}ms CPU limit`),
+      logs: []
+    });
+    return;
+  }
+
+  if (output.error) {
+    parentPort.postMessage({
+      type: 'error',
+      id: message.id,
+      diagnostic: diagnostic('runtime', output.error),
+      logs: output.logs
+    });
+    return;
+  }
+
+  parentPort.postMessage({ type: 'result', id: message.id, orders: output.orders, logs: output.logs });
+});
@@ -0,0 +1,190 @@
+const mongoose = require('mongoose');
+const Strategy = require('../models/Strategy');
+const StrategyVersion = require('../models/StrategyVersion');
+const Activity = require('../models/Activity');
+const {
+  bumpVersion,
+  snapshotStrategy,
+  changedFields,
+  describeChanges,
+  diffSnapshots
+} = require('../utils/strategyVersions');
+
+const VERSION_LIST_FIELDS = '-code -rules -parameters';
+
+/**
+ * Version history of strategies. Every save that changes what a strategy
+ * trades records an immutable version with its author, message and the
+ * next semver; rolling back records a new version restoring an old one.
+ *
+ * Strategies saved before versioning existed get their current state
+ * recorded as their first version when the history is first needed.
+ */
+class StrategyVersionService {
+  async findStrategy(userId, strategyId) {
+    if (!mongoose.isValidObjectId(strategyId)) {
+      throw new Error('Strategy not found');
+    }
+
+    const strategy = await Strategy.findOne({ _id: strategyId, userId, isArchived: false });
+    if (!strategy) {
+      throw new Error('Strategy not found');
+    }
+    return strategy;
+  }
+
+  async findVersion(strategyId, version) {
+    const found = await StrategyVersion.findOne({ strategyId, version })
+      .populate('author', 'name username');
+    if (!found) {
+      throw new Error(`Version ${version} not found`);
+    }
+    return found;
+  }
+
+  /**
+   * Record the current state of a new strategy as its first version
+   */
+  async recordInitialVersion(strategy, authorId, message = 'Initial version') {
+    return StrategyVersion.create({
+      strategyId: strategy._id,
+      userId: strategy.userId,
+      authorId,
+      version: strategy.version || '1.0.0',
+      message,
+      changes: [],
+      ...snapshotStrategy(strategy)
+    });
+  }
+
+  /**
+   * The version matching a strategy's current state, recorded on the spot
+   * for strategies that predate the version history
+   */
+  async getCurrentVersion(strategy, authorId) {
+    const current = await StrategyVersion.findOne({ strategyId: strategy._id, version: strategy.version });
+    return current || this.recordInitialVersion(strategy, authorId);
+  }
+
+  /**
+   * Record a version if the versioned fields of a strategy changed since
+   * `before`, and move the strategy to it. The caller saves the strategy.
+   * @param {Object} strategy - Strategy document with the changes applied
+   * @param {Object} before - Snapshot taken before the changes
+   * @param {Object} options - { authorId, message, bump, restoredFrom }
+   * @returns {Object|null} The new version, or null when nothing changed
+   */
+  async recordChanges(strategy, before, { authorId, message, bump = 'patch', restoredFrom } = {}) {
+    const snapshot = snapshotStrategy(strategy);
+    const changes = changedFields(before, snapshot);
+    if (changes.length === 0) {
+      return null;
+    }
+
+    const version = await StrategyVersion.create({
+      strategyId: strategy._id,
+      userId: strategy.userId,
+      authorId,
+      version: bumpVersion(strategy.version || '1.0.0', bump),
+      message: (message && message.trim()) || describeChanges(changes),
+      changes,
+      restoredFrom,
+      ...snapshot
+    });
+
+    strategy.version = version.version;
+    return version;
+  }
+
+  /**
+   * Versions of a strategy, newest first, without their content
+   */
+  async getVersions(userId, strategyId) {
+    const strategy = await this.findStrategy(userId, strategyId);
+    await this.getCurrentVersion(strategy, userId);
+
+    const versions = await StrategyVersion.find({ strategyId: strategy._id })
+      .select(VERSION_LIST_FIELDS)
+      .sort({ createdAt: -1, _id: -1 })
+      .populate('author', 'name username');
+
+    return {
+      currentVersion: strategy.version,
+      versions
+    };
+  }
+
+  async getVersion(userId, strategyId, version) {
+    const strategy = await this.findStrategy(userId, strategyId);
+    return this.findVersion(strategy._id, version);
+  }
+
+  /**
+   * Side-by-side diff of the code, parameters and rules of two versions
+   */
+  async diffVersions(userId, strategyId, from, to) {
+    const strategy = await this.findStrategy(userId, strategyId);
+    const [fromVersion, toVersion] = await Promise.all([
+      this.findVersion(strategy._id, from),
+      this.findVersion(strategy._id, to)
+    ]);
+
+    const summary = (version) => {
+      const { code, rules, parameters, ...meta } = version.toJSON();
+      return meta;
+    };
+
+    return {
+      from: summary(fromVersion),
+      to: summary(toVersion),
+      diff: diffSnapshots(snapshotStrategy(fromVersion), snapshotStrategy(toVersion))
+    };
+  }
+
+  /**
+   * Restore the content of an earlier version as a new version
+   */
+  async rollback(userId, strategyId, version, message) {
+    const strategy = await this.findStrategy(userId, strategyId);
+    const target = await this.findVersion(strategy._id, version);
+
+    await this.getCurrentVersion(strategy, userId);
+    const before = snapshotStrategy(strategy);
+
+    const restored = snapshotStrategy(target);
+    strategy.type = restored.type;
+    strategy.code = restored.code;
+    strategy.parameters = restored.parameters;
+    strategy.rules = restored.rules;
+
+    const created = await this.recordChanges(strategy, before, {
+      authorId: userId,
+      message: message || `Rolled back to v${target.version}`,
+      restoredFrom: target.version
+    });
+
+    if (!created) {
+      throw new Error(`Strategy already matches version ${target.version}`);
+    }
+
+    await strategy.save();
+
+    await Activity.create({
+      userId,
+      type: 'strategy',
+      action: 'update',
+      title: 'Strategy Rolled Back',
+      description: `Rolled ${strategy.name} back to v${target.version} as v${created.version}`,
+      status: 'info',
+      strategyId: strategy._id,
+      metadata: {
+        version: created.version,
+        restoredFrom: target.version
+      }
+    });
+
+    return { strategy, version: created };
+  }
+}
+
+module.exports = new StrategyVersionService();
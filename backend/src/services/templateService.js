@@ -0,0 +1,332 @@
+const mongoose = require('mongoose');
+const Strategy = require('../models/Strategy');
+const StrategyTemplate = require('../models/StrategyTemplate');
+const TemplateReview = require('../models/TemplateReview');
+const Activity = require('../models/Activity');
+const strategyVersionService = require('./strategyVersionService');
+const { compileRules, normalizeRules } = require('../utils/strategyRules');
+const { validateParameterSchema, inferParameterSchema } = require('../utils/parameterSchema');
+
+const MODERATION_STATUSES = ['VISIBLE', 'HIDDEN'];
+
+// Fields of a template its author may edit after publishing
+const EDITABLE_FIELDS = ['name', 'description', 'category', 'tags', 'parameterSchema', 'isPublic', 'documentation'];
+
+/**
+ * The template marketplace: users publish their strategies as templates,
+ * public or private, rate and review other users' templates and fork them
+ * into strategies of their own. Admins moderate by hiding templates.
+ *
+ * A fork copies the template's logic into an editable CODE or VISUAL
+ * strategy that remembers where it came from, while "using" a template
+ * (strategiesService.createFromTemplate) keeps the template's code and only
+ * lets the parameters change.
+ */
+class TemplateService {
+  /**
+   * Template a user may see
+   * @param {Object} options - { isAdmin } to see hidden and private templates too
+   */
+  async findVisibleTemplate(userId, templateId, { isAdmin = false } = {}) {
+    if (!mongoose.isValidObjectId(templateId)) {
+      throw new Error('Template not found');
+    }
+
+    const filter = isAdmin ? { _id: templateId } : { _id: templateId, ...StrategyTemplate.visibleTo(userId) };
+    const template = await StrategyTemplate.findOne(filter);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+    return template;
+  }
+
+  // Template owned by a user, hidden or not
+  async findOwnTemplate(userId, templateId) {
+    if (!mongoose.isValidObjectId(templateId)) {
+      throw new Error('Template not found');
+    }
+
+    const template = await StrategyTemplate.findOne({ _id: templateId, createdBy: userId, isActive: true });
+    if (!template) {
+      throw new Error('Template not found');
+    }
+    return template;
+  }
+
+  /**
+   * One template with its author and the user's own review
+   */
+  async getTemplate(userId, templateId, options = {}) {
+    const template = await this.findVisibleTemplate(userId, templateId, options);
+    await template.populate('createdBy', 'name username');
+    const myReview = await TemplateReview.findOne({ templateId: template._id, userId }).lean();
+
+    return {
+      ...template.toJSON(),
+      isOwner: !!template.createdBy && String(template.createdBy._id) === String(userId),
+      myReview
+    };
+  }
+
+  /**
+   * Templates published by a user, including private and hidden ones
+   */
+  async getMyTemplates(userId) {
+    return StrategyTemplate.find({ createdBy: userId, isActive: true })
+      .select('-rules')
+      .sort({ updatedAt: -1 })
+      .lean({ virtuals: true });
+  }
+
+  /**
+   * Publish a strategy as a template. Publishing the same strategy again
+   * updates its template to the strategy's current version.
+   * @param {Object} data - { name, description, category, tags, parameterSchema, isPublic, documentation }
+   */
+  async publishStrategy(userId, strategyId, data) {
+    if (!mongoose.isValidObjectId(strategyId)) {
+      throw new Error('Strategy not found');
+    }
+
+    const strategy = await Strategy.findOne({ _id: strategyId, userId, isArchived: false });
+    if (!strategy) {
+      throw new Error('Strategy not found');
+    }
+
+    if (!['CODE', 'VISUAL'].includes(strategy.type)) {
+      throw new Error('Only code and visual strategies can be published as templates');
+    }
+
+    const rules = strategy.type === 'VISUAL' ? normalizeRules(strategy.rules) : undefined;
+    const code = rules ? compileRules(rules) : strategy.code;
+    if (!code || !code.trim()) {
+      throw new Error('The strategy has no code to publish');
+    }
+
+    const parameterSchema = data.parameterSchema || inferParameterSchema(strategy.parameters);
+    const schemaErrors = validateParameterSchema(parameterSchema);
+    if (schemaErrors.length > 0) {
+      throw new Error(`Invalid parameter schema: ${schemaErrors.join('; ')}`);
+    }
+
+    await strategyVersionService.getCurrentVersion(strategy, userId);
+
+    const published = {
+      name: data.name || strategy.name,
+      description: data.description || strategy.description,
+      category: data.category || 'Custom',
+      tags: data.tags || strategy.tags,
+      defaultParameters: Object.fromEntries(parameterSchema.map(param => [param.key, param.defaultValue])),
+      parameterSchema,
+      code,
+      rules,
+      version: strategy.version,
+      documentation: data.documentation || '',
+      isPublic: data.isPublic !== false
+    };
+
+    let template = await StrategyTemplate.findOne({ createdBy: userId, sourceStrategyId: strategy._id, isActive: true });
+    const republished = !!template;
+
+    if (template) {
+      template.set(published);
+    } else {
+      template = new StrategyTemplate({
+        ...published,
+        createdBy: userId,
+        sourceStrategyId: strategy._id,
+        isBuiltIn: false
+      });
+    }
+    await template.save();
+
+    await Activity.create({
+      userId,
+      type: 'strategy',
+      action: 'publish',
+      title: republished ? 'Template Updated' : 'Strategy Published',
+      description: `Published "${strategy.name}" v${strategy.version} as ${template.isPublic ? 'public' : 'private'} template "${template.name}"`,
+      status: 'success',
+      strategyId: strategy._id,
+      metadata: {
+        templateId: template._id,
+        version: strategy.version
+      }
+    });
+
+    return template;
+  }
+
+  /**
+   * Edit the listing of an own template
+   */
+  async updateTemplate(userId, templateId, data) {
+    const template = await this.findOwnTemplate(userId, templateId);
+
+    if (data.parameterSchema !== undefined) {
+      const schemaErrors = validateParameterSchema(data.parameterSchema);
+      if (schemaErrors.length > 0) {
+        throw new Error(`Invalid parameter schema: ${schemaErrors.join('; ')}`);
+      }
+      template.defaultParameters = Object.fromEntries(
+        data.parameterSchema.map(param => [param.key, param.defaultValue])
+      );
+    }
+
+    EDITABLE_FIELDS.forEach(field => {
+      if (data[field] !== undefined) {
+        template[field] = data[field];
+      }
+    });
+    await template.save();
+
+    return template;
+  }
+
+  /**
+   * Take an own template off the marketplace. Strategies created from or
+   * forked off it keep working.
+   */
+  async unpublishTemplate(userId, templateId) {
+    const template = await this.findOwnTemplate(userId, templateId);
+    template.isActive = false;
+    await template.save();
+
+    await Activity.create({
+      userId,
+      type: 'strategy',
+      action: 'unpublish',
+      title: 'Template Unpublished',
+      description: `Unpublished template "${template.name}"`,
+      status: 'info',
+      metadata: { templateId: template._id }
+    });
+  }
+
+  /**
+   * Reviews of a template, newest first
+   */
+  async getReviews(userId, templateId, { limit = 20, offset = 0 } = {}) {
+    const template = await this.findVisibleTemplate(userId, templateId);
+
+    const [reviews, total] = await Promise.all([
+      TemplateReview.find({ templateId: template._id })
+        .populate('user', 'name username')
+        .sort({ createdAt: -1 })
+        .skip(offset)
+        .limit(limit)
+        .lean({ virtuals: true }),
+      TemplateReview.countDocuments({ templateId: template._id })
+    ]);
+
+    return {
+      reviews,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: total > offset + limit
+      }
+    };
+  }
+
+  /**
+   * Rate and review a template; reviewing again replaces the earlier review
+   * @param {Object} data - { rating, comment }
+   */
+  async reviewTemplate(userId, templateId, { rating, comment = '' }) {
+    const template = await this.findVisibleTemplate(userId, templateId);
+
+    if (template.createdBy && String(template.createdBy) === String(userId)) {
+      throw new Error('You cannot review your own template');
+    }
+
+    const review = await TemplateReview.findOneAndUpdate(
+      { templateId: template._id, userId },
+      { rating, comment },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    const { rating: average, ratingCount } = await TemplateReview.summarize(template._id);
+    await StrategyTemplate.updateOne({ _id: template._id }, { rating: average, ratingCount });
+
+    return {
+      review,
+      rating: average,
+      ratingCount
+    };
+  }
+
+  /**
+   * Copy a template into a new strategy of the user
+   * @param {Object} data - { name, description }
+   */
+  async forkTemplate(userId, templateId, { name, description } = {}) {
+    const template = await this.findVisibleTemplate(userId, templateId);
+    const rules = template.rules ? normalizeRules(template.rules) : undefined;
+
+    const strategy = new Strategy({
+      userId,
+      name: name || `${template.name} (Fork)`,
+      description: description || template.description,
+      type: rules ? 'VISUAL' : 'CODE',
+      parameters: { ...template.defaultParameters },
+      code: rules ? '' : template.code,
+      rules,
+      tags: template.tags,
+      forkedFrom: {
+        templateId: template._id,
+        templateName: template.name,
+        templateVersion: template.version,
+        authorId: template.createdBy,
+        forkedAt: new Date()
+      },
+      isTemplate: false
+    });
+    await strategy.save();
+    await strategyVersionService.recordInitialVersion(
+      strategy,
+      userId,
+      `Forked from template ${template.name} v${template.version}`
+    );
+
+    await StrategyTemplate.updateOne({ _id: template._id }, { $inc: { forkCount: 1 } });
+
+    await Activity.create({
+      userId,
+      type: 'strategy',
+      action: 'fork',
+      title: 'Template Forked',
+      description: `Forked template "${template.name}" into "${strategy.name}"`,
+      status: 'success',
+      strategyId: strategy._id,
+      metadata: {
+        templateId: template._id,
+        templateName: template.name
+      }
+    });
+
+    return strategy;
+  }
+
+  /**
+   * Hide a template from the marketplace or show it again (admins only)
+   * @param {Object} data - { status, reason }
+   */
+  async moderateTemplate(adminId, templateId, { status, reason }) {
+    if (!MODERATION_STATUSES.includes(status)) {
+      throw new Error(`Moderation status must be one of ${MODERATION_STATUSES.join(', ')}`);
+    }
+
+    const template = await this.findVisibleTemplate(adminId, templateId, { isAdmin: true });
+    template.moderationStatus = status;
+    template.moderationReason = reason || undefined;
+    template.moderatedBy = adminId;
+    template.moderatedAt = new Date();
+    await template.save();
+
+    return template;
+  }
+}
+
+module.exports = new TemplateService();
@@ -0,0 +1,209 @@
+const moment = require('moment');
+const MarketHoliday = require('../models/MarketHoliday');
+const {
+  EXCHANGES,
+  SESSIONS,
+  localTime,
+  isTradingDay,
+  getPhase,
+  nextOpen,
+  nextClose
+} = require('../utils/tradingCalendar');
+
+// Date formats accepted in holiday files; exchanges publish e.g. 26-Feb-2025
+const HOLIDAY_DATE_FORMATS = ['YYYY-MM-DD', 'DD-MMM-YYYY', 'DD-MM-YYYY', 'DD/MM/YYYY', 'MMMM D, YYYY'];
+
+/**
+ * Trading calendar of the supported exchanges. Holidays live in MongoDB
+ * and are cached in memory so the checks stay synchronous for the order
+ * engine, the price simulation, bar aggregation and backtests.
+ */
+class TradingCalendarService {
+  constructor() {
+    this.holidays = new Map(EXCHANGES.map(exchange => [exchange, new Map()]));
+  }
+
+  /**
+   * Load the holiday lists into the cache
+   */
+  async load() {
+    try {
+      const holidays = await MarketHoliday.find({}).lean();
+      this.holidays = new Map(EXCHANGES.map(exchange => [exchange, new Map()]));
+      holidays.forEach(holiday => this.cache(holiday));
+      console.log(`📅 Loaded ${holidays.length} market holiday(s)`);
+    } catch (error) {
+      console.error('Error loading market holidays:', error);
+    }
+  }
+
+  cache(holiday) {
+    const open = holiday.specialSession && holiday.specialSession.open;
+    this.holidays.get(holiday.exchange).set(new Date(holiday.date).toISOString().slice(0, 10), {
+      description: holiday.description,
+      specialSession: open ? { open, close: holiday.specialSession.close } : undefined
+    });
+  }
+
+  session(exchange = 'NSE') {
+    const session = SESSIONS[exchange];
+    if (!session) {
+      throw new Error(`Unknown exchange "${exchange}"; use one of ${EXCHANGES.join(', ')}`);
+    }
+    return session;
+  }
+
+  /**
+   * Session phase at a time
+   * @param {Date} date - Time (defaults to now)
+   * @param {string} exchange - NSE or BSE
+   * @returns {Object} { phase, acceptsOrders, matches, holiday }
+   */
+  getPhase(date = new Date(), exchange = 'NSE') {
+    return getPhase(date, this.session(exchange), this.holidays.get(exchange));
+  }
+
+  isTradingDay(date, exchange = 'NSE') {
+    return isTradingDay(date, this.session(exchange), this.holidays.get(exchange));
+  }
+
+  isMarketOpen(date = new Date(), exchange = 'NSE') {
+    return this.getPhase(date, exchange).matches;
+  }
+
+  nextOpen(date = new Date(), exchange = 'NSE') {
+    return nextOpen(date, this.session(exchange), this.holidays.get(exchange));
+  }
+
+  nextClose(date = new Date(), exchange = 'NSE') {
+    return nextClose(date, this.session(exchange), this.holidays.get(exchange));
+  }
+
+  /**
+   * Close of the session on a local date, or of the next session when the
+   * exchange does not trade that day
+   * @param {string} day - Local date YYYY-MM-DD
+   * @param {string} exchange - NSE or BSE
+   * @returns {Date|null} Session close
+   */
+  sessionCloseOn(day, exchange = 'NSE') {
+    const { utcOffsetMinutes } = this.session(exchange);
+    const midnight = new Date(Date.parse(`${day}T00:00:00Z`) - utcOffsetMinutes * 60000);
+    return this.nextClose(midnight, exchange);
+  }
+
+  /**
+   * Exchange's calendar date at a time
+   * @param {Date} date - Time (defaults to now)
+   * @param {string} exchange - NSE or BSE
+   * @returns {string} Local date (YYYY-MM-DD)
+   */
+  dateKey(date = new Date(), exchange = 'NSE') {
+    return localTime(date, this.session(exchange)).key;
+  }
+
+  /**
+   * Local midnight of the exchange's calendar date at a time
+   * @param {Date} date - Time (defaults to now)
+   * @param {string} exchange - NSE or BSE
+   * @returns {Date} Start of the local day
+   */
+  startOfDay(date = new Date(), exchange = 'NSE') {
+    const session = this.session(exchange);
+    return new Date(Date.parse(`${this.dateKey(date, exchange)}T00:00:00Z`) - session.utcOffsetMinutes * 60000);
+  }
+
+  /**
+   * Market status for clients
+   * @param {string} exchange - NSE or BSE
+   * @returns {Object} Phase, next open/close and session hours
+   */
+  getStatus(exchange = 'NSE', date = new Date()) {
+    const session = this.session(exchange);
+    const phase = this.getPhase(date, exchange);
+
+    return {
+      exchange,
+      ...phase,
+      isOpen: phase.matches,
+      tradingDay: this.isTradingDay(date, exchange),
+      nextOpen: this.nextOpen(date, exchange),
+      nextClose: this.nextClose(date, exchange),
+      timezone: session.timezone,
+      schedule: session.schedule.map(([name, start, end]) => ({ phase: name, start, end }))
+    };
+  }
+
+  /**
+   * Holidays of an exchange
+   * @param {string} exchange - NSE or BSE
+   * @param {number} year - Optional calendar year
+   * @returns {Object[]} { date, description, specialSession } in date order
+   */
+  getHolidays(exchange = 'NSE', year) {
+    this.session(exchange);
+    return Array.from(this.holidays.get(exchange).entries())
+      .filter(([date]) => !year || date.startsWith(`${year}-`))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, holiday]) => ({ date, ...holiday }));
+  }
+
+  /**
+   * Upsert holidays from parsed file records
+   * @param {Object[]} records - { date, description, exchange, open, close } with string values
+   * @param {string} defaultExchange - Exchange of records without one
+   * @returns {Promise<Object>} { imported, errors }
+   */
+  async importHolidays(records, defaultExchange = 'NSE') {
+    const errors = [];
+    const operations = [];
+
+    records.forEach((record, i) => {
+      const exchange = String(record.exchange || defaultExchange).trim().toUpperCase();
+      const date = moment.utc(String(record.date || '').trim(), HOLIDAY_DATE_FORMATS, true);
+
+      if (!EXCHANGES.includes(exchange)) {
+        errors.push(`Row ${i + 1}: unknown exchange "${exchange}"`);
+        return;
+      }
+      if (!date.isValid()) {
+        errors.push(`Row ${i + 1}: unparseable date "${record.date}"`);
+        return;
+      }
+      if ((record.open && !record.close) || (!record.open && record.close)) {
+        errors.push(`Row ${i + 1}: a special session needs both open and close times`);
+        return;
+      }
+
+      const update = { $set: { description: record.description || 'Trading holiday' } };
+      if (record.open) {
+        update.$set.specialSession = { open: record.open, close: record.close };
+      } else {
+        update.$unset = { specialSession: '' };
+      }
+
+      operations.push({
+        updateOne: { filter: { exchange, date: date.toDate() }, update, upsert: true }
+      });
+    });
+
+    if (operations.length > 0) {
+      await MarketHoliday.bulkWrite(operations);
+      await this.load();
+    }
+
+    return { imported: operations.length, errors };
+  }
+
+  /**
+   * Drop bars that fall on non-trading days
+   * @param {Object[]} bars - Bars with a date
+   * @param {string} exchange - NSE or BSE
+   * @returns {Object[]} Bars on trading days only
+   */
+  filterTradingDays(bars, exchange = 'NSE') {
+    return bars.filter(bar => this.isTradingDay(bar.date, exchange));
+  }
+}
+
+module.exports = new TradingCalendarService();
@@ -218,6 +218,48 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Broadcast in-progress bars to users subscribed to the symbol
+   */
+  broadcastMarketBars(symbol, bars) {
+    const message = JSON.stringify({
+      type: 'BAR_UPDATE',
+      data: bars,
+      timestamp: new Date().toISOString()
+    });
+
+    this.clients.forEach((connections) => {
+      connections.forEach(ws => {
+        if (ws.readyState === WebSocket.OPEN &&
+            ws.marketDataSubscriptions &&
+            ws.marketDataSubscriptions.has(symbol.toUpperCase())) {
+          ws.send(message);
+        }
+      });
+    });
+  }
+
+  /**
+   * Broadcast order book depth to users subscribed to the symbol
+   */
+  broadcastOrderBook(symbol, depth) {
+    const message = JSON.stringify({
+      type: 'ORDER_BOOK_UPDATE',
+      data: depth,
+      timestamp: new Date().toISOString()
+    });
+
+    this.clients.forEach((connections) => {
+      connections.forEach(ws => {
+        if (ws.readyState === WebSocket.OPEN &&
+            ws.marketDataSubscriptions &&
+            ws.marketDataSubscriptions.has(symbol.toUpperCase())) {
+          ws.send(message);
+        }
+      });
+    });
+  }
+
   /**
    * Broadcast to all connected users
    */
@@ -294,5 +336,7 @@ module.exports = {
   websocketService,
   broadcastToUser: (userId, type, data) => websocketService.broadcastToUser(userId, type, data),
   broadcastMarketData: (symbol, data) => websocketService.broadcastMarketData(symbol, data),
+  broadcastMarketBars: (symbol, bars) => websocketService.broadcastMarketBars(symbol, bars),
+  broadcastOrderBook: (symbol, depth) => websocketService.broadcastOrderBook(symbol, depth),
   broadcastToAll: (type, data) => websocketService.broadcastToAll(type, data)
 };
\ No newline at end of file
@@ -0,0 +1,81 @@
+const { isInSession, bucketStart, aggregateBars, sourceIntervals } = require('../barAggregation');
+
+// A UTC time from an NSE local time (IST, UTC+05:30)
+const ist = (local) => new Date(`${local}:00+05:30`);
+
+const minuteBars = (start, count, firstPrice = 100) => Array.from({ length: count }, (_, i) => ({
+  date: new Date(ist(start).getTime() + i * 60 * 1000),
+  open: firstPrice + i,
+  high: firstPrice + i + 2,
+  low: firstPrice + i - 1,
+  close: firstPrice + i + 1,
+  volume: 10
+}));
+
+describe('bar aggregation', () => {
+  it('treats the session as open from 09:15 until 15:30', () => {
+    expect(isInSession(ist('2024-03-11T09:14'))).toBe(false);
+    expect(isInSession(ist('2024-03-11T09:15'))).toBe(true);
+    expect(isInSession(ist('2024-03-11T15:29'))).toBe(true);
+    expect(isInSession(ist('2024-03-11T15:30'))).toBe(false);
+  });
+
+  it('starts intraday buckets at the session open', () => {
+    expect(bucketStart(ist('2024-03-11T10:14'), '1h')).toEqual(ist('2024-03-11T09:15'));
+    expect(bucketStart(ist('2024-03-11T10:15'), '1h')).toEqual(ist('2024-03-11T10:15'));
+    expect(bucketStart(ist('2024-03-11T09:44'), '15m')).toEqual(ist('2024-03-11T09:30'));
+    // The last hour of the day is cut short by the close
+    expect(bucketStart(ist('2024-03-11T15:29'), '1h')).toEqual(ist('2024-03-11T15:15'));
+    expect(bucketStart(ist('2024-03-11T16:00'), '5m')).toBeNull();
+  });
+
+  it('stamps daily and weekly buckets at UTC midnight of the local date', () => {
+    // 00:30 IST on Tuesday is still Monday in UTC
+    expect(bucketStart(ist('2024-03-12T00:30'), '1d')).toEqual(new Date('2024-03-12T00:00:00.000Z'));
+    expect(bucketStart(ist('2024-03-14T11:00'), '1w')).toEqual(new Date('2024-03-11T00:00:00.000Z'));
+    expect(bucketStart(ist('2024-03-17T11:00'), '1w')).toEqual(new Date('2024-03-11T00:00:00.000Z'));
+  });
+
+  it('rolls minute bars into session-aligned bars', () => {
+    const bars = aggregateBars(minuteBars('2024-03-11T09:15', 20), '15m');
+
+    expect(bars).toEqual([
+      { date: ist('2024-03-11T09:15'), open: 100, high: 116, low: 99, close: 115, volume: 150 },
+      { date: ist('2024-03-11T09:30'), open: 115, high: 121, low: 114, close: 120, volume: 50 }
+    ]);
+  });
+
+  it('leaves pre-open and after-hours bars out of every bar', () => {
+    const bars = aggregateBars([
+      ...minuteBars('2024-03-11T09:10', 5, 50),
+      ...minuteBars('2024-03-11T15:28', 4, 200)
+    ], '1d');
+
+    expect(bars).toEqual([
+      { date: new Date('2024-03-11T00:00:00.000Z'), open: 200, high: 203, low: 199, close: 202, volume: 20 }
+    ]);
+  });
+
+  it('includes every daily bar when rolling up to weeks', () => {
+    const daily = ['2024-03-08', '2024-03-11', '2024-03-15'].map((date, i) => ({
+      date: new Date(date),
+      open: 10 + i,
+      high: 20 + i,
+      low: 5 + i,
+      close: 15 + i,
+      volume: 100
+    }));
+
+    expect(aggregateBars(daily, '1w', { sourceInterval: '1d' }).map(bar => [bar.date.toISOString(), bar.open, bar.close, bar.volume]))
+      .toEqual([
+        ['2024-03-04T00:00:00.000Z', 10, 15, 100],
+        ['2024-03-11T00:00:00.000Z', 11, 17, 200]
+      ]);
+  });
+
+  it('lists the intervals that divide a timeframe, coarsest first', () => {
+    expect(sourceIntervals('1h')).toEqual(['30m', '15m', '5m', '1m']);
+    expect(sourceIntervals('1w')).toEqual(['1d', '1h', '30m', '15m', '5m', '1m']);
+    expect(sourceIntervals('1m')).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+const {
+  normalizeBenchmark,
+  benchmarkLabel,
+  buildIndexSeries,
+  symbolSeries,
+  alignSeries,
+  attachBenchmark
+} = require('../benchmark');
+
+const day = date => new Date(`2024-01-${String(date).padStart(2, '0')}T00:00:00.000Z`);
+
+const bars = (closes, firstDay = 1) => closes.map((close, i) => ({ date: day(firstDay + i), close }));
+
+describe('benchmarks', () => {
+  it('normalizes a benchmark selection', () => {
+    expect(normalizeBenchmark(undefined)).toBeNull();
+    expect(normalizeBenchmark({ type: 'NONE' })).toBeNull();
+    expect(normalizeBenchmark({ type: 'INDEX', symbol: 'TCS' })).toEqual({ type: 'INDEX' });
+    expect(normalizeBenchmark({ type: 'SYMBOL', symbol: ' nifty ' })).toEqual({ type: 'SYMBOL', symbol: 'NIFTY' });
+  });
+
+  it.each([
+    [{ type: 'SECTOR' }, 'Unknown benchmark type "SECTOR"'],
+    [{ type: 'SYMBOL', symbol: '  ' }, 'A symbol benchmark needs a symbol']
+  ])('rejects an invalid selection (%#)', (benchmark, message) => {
+    expect(() => normalizeBenchmark(benchmark)).toThrow(message);
+  });
+
+  it('labels an index and a symbol benchmark', () => {
+    expect(benchmarkLabel({ type: 'INDEX' })).toBe('Equal-weight index');
+    expect(benchmarkLabel({ type: 'SYMBOL', symbol: 'NIFTY' })).toBe('NIFTY');
+  });
+
+  it('averages the daily returns of the symbols that traded', () => {
+    const series = buildIndexSeries({
+      AAA: bars([100, 110, 121]),
+      // Starts a day late, so it adds nothing on its first day
+      BBB: bars([50, 45], 2)
+    });
+
+    expect(series.map(point => point.date)).toEqual([day(1), day(2), day(3)]);
+    expect(series[0].value).toBe(100);
+    expect(series[1].value).toBeCloseTo(110, 10);
+    // (10% - 10%) / 2
+    expect(series[2].value).toBeCloseTo(110, 10);
+  });
+
+  it('uses the closes of a single symbol and skips bars without a price', () => {
+    expect(symbolSeries(bars([100, 0, 102]))).toEqual([
+      { date: day(1), value: 100 },
+      { date: day(3), value: 102 }
+    ]);
+  });
+
+  it('carries the last level forward over dates the benchmark did not trade', () => {
+    const series = [{ date: day(2), value: 10 }, { date: day(4), value: 12 }];
+
+    expect(alignSeries(series, [day(1), day(2), day(3), day(4), day(5)])).toEqual([null, 10, 10, 12, 12]);
+  });
+
+  it('rescales the benchmark to the starting equity and adds its metrics', () => {
+    const result = {
+      equityCurve: [
+        { date: day(1), equity: 50000 },
+        { date: day(2), equity: 55000 },
+        { date: day(3), equity: 60500 }
+      ],
+      riskMetrics: { sharpeRatio: 1.2 }
+    };
+
+    attachBenchmark(result, symbolSeries(bars([200, 220, 242])), { type: 'SYMBOL', symbol: 'NIFTY' });
+
+    expect(result.equityCurve.map(point => point.benchmark)).toEqual([50000, 55000, 60500]);
+    expect(result.riskMetrics).toMatchObject({ sharpeRatio: 1.2, beta: expect.any(Number), alpha: expect.any(Number) });
+    expect(result.riskMetrics.benchmarkReturnPercent).toBeUndefined();
+    expect(result.benchmark).toEqual({ type: 'SYMBOL', symbol: 'NIFTY', label: 'NIFTY', totalReturnPercent: 21 });
+  });
+
+  it('leaves the equity curve alone when the benchmark starts after it', () => {
+    const result = { equityCurve: [{ date: day(1), equity: 100 }], riskMetrics: {} };
+
+    attachBenchmark(result, [{ date: day(5), value: 10 }], { type: 'INDEX' });
+
+    expect(result.equityCurve[0].benchmark).toBeUndefined();
+    expect(result.benchmark).toMatchObject({ label: 'Equal-weight index', totalReturnPercent: 0 });
+  });
+});
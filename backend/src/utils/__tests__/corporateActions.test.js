@@ -0,0 +1,65 @@
+const { shareFactor, priceFactor, adjustPosition, dividendAmount, adjustBars } = require('../corporateActions');
+
+const split = { type: 'SPLIT', exDate: '2024-03-13', existingShares: 1, newShares: 5 };
+const bonus = { type: 'BONUS', exDate: '2024-03-13', existingShares: 2, newShares: 1 };
+const dividend = { type: 'DIVIDEND', exDate: '2024-03-12', dividendPerShare: 10 };
+
+const bars = ['2024-03-11', '2024-03-12', '2024-03-13', '2024-03-14'].map((date, i) => ({
+  date: new Date(date),
+  open: 500,
+  high: 510,
+  low: 490,
+  close: 500,
+  volume: 1000 * (i + 1)
+}));
+
+describe('corporate actions', () => {
+  it('converts splits and bonuses to shares held per share', () => {
+    expect(shareFactor(split)).toBe(5);
+    expect(shareFactor(bonus)).toBe(1.5);
+    expect(shareFactor(dividend)).toBe(1);
+  });
+
+  it('takes the dividend out of earlier prices', () => {
+    expect(priceFactor(dividend, 200)).toBe(0.95);
+    expect(priceFactor(split, 200)).toBe(0.2);
+    // A dividend as large as the price cannot be adjusted for
+    expect(priceFactor(dividend, 10)).toBe(1);
+  });
+
+  it('keeps the value of a position through a split', () => {
+    expect(adjustPosition({ quantity: 30, averagePrice: 1000, currentPrice: 1200 }, split))
+      .toEqual({ quantity: 150, averagePrice: 200, currentPrice: 240, cashInLieu: 0 });
+  });
+
+  it('pays fractional bonus shares in cash', () => {
+    expect(adjustPosition({ quantity: 15, averagePrice: 300, currentPrice: 450 }, bonus))
+      .toEqual({ quantity: 22, averagePrice: 200, currentPrice: 300, cashInLieu: 150 });
+  });
+
+  it('credits dividends to longs and charges them to shorts', () => {
+    expect(dividendAmount({ side: 'long', quantity: 20 }, dividend)).toBe(200);
+    expect(dividendAmount({ side: 'short', quantity: 20 }, dividend)).toBe(-200);
+  });
+
+  it('back-adjusts prices and volume before each ex-date', () => {
+    const adjusted = adjustBars(bars, [split, dividend]);
+
+    expect(adjusted.map(bar => [bar.close, bar.volume, bar.adjustmentFactor])).toEqual([
+      [500 * 0.2 * 0.98, 5000, 0.2 * 0.98],
+      [100, 10000, 0.2],
+      [500, 3000, undefined],
+      [500, 4000, undefined]
+    ]);
+    expect(adjusted[0].high).toBeCloseTo(510 * 0.2 * 0.98, 10);
+    // The input is left alone
+    expect(bars[0].close).toBe(500);
+  });
+
+  it('ignores actions before the first bar', () => {
+    const adjusted = adjustBars(bars, [{ ...split, exDate: '2024-03-11' }]);
+
+    expect(adjusted).toEqual(bars);
+    expect(adjusted[0]).not.toBe(bars[0]);
+  });
+});
@@ -0,0 +1,72 @@
+const { accountMargin, buyingPower, borrowFee, liquidationPlan } = require('../margin');
+
+const requirements = new Map([
+  ['LONG', { initialMarginPercent: 20, maintenanceMarginPercent: 10, borrowRatePercent: 0, shortable: true }],
+  ['SHORT', { initialMarginPercent: 50, maintenanceMarginPercent: 25, borrowRatePercent: 5, shortable: true }]
+]);
+
+// 1000 shares bought partly on margin and 100 sold short, whose proceeds sit in cash
+const positionsAt = (longPrice) => [
+  { symbol: 'LONG', side: 'long', quantity: 1000, price: longPrice },
+  { symbol: 'SHORT', side: 'short', quantity: 100, price: 200 }
+];
+const cash = -30000;
+
+describe('margin accounting', () => {
+  it('values an account with long and short positions', () => {
+    expect(accountMargin(cash, positionsAt(100), requirements)).toEqual({
+      equity: 50000,
+      longValue: 100000,
+      shortValue: 20000,
+      grossExposure: 120000,
+      marginUsed: 30000,
+      maintenanceMargin: 15000,
+      availableMargin: 20000,
+      leverage: 2.4,
+      marginCall: false
+    });
+  });
+
+  it('is not in a margin call without positions', () => {
+    expect(accountMargin(-100, [], requirements)).toMatchObject({ equity: -100, leverage: 0, marginCall: false });
+  });
+
+  it('scales available margin by the initial margin of the symbol', () => {
+    expect(buyingPower(20000, requirements.get('LONG'))).toBe(100000);
+    expect(buyingPower(20000, requirements.get('SHORT'))).toBe(40000);
+    expect(buyingPower(-5000, requirements.get('LONG'))).toBe(0);
+  });
+
+  it('charges the borrow rate for the days a short is held', () => {
+    expect(borrowFee(20000, 5, 73)).toBeCloseTo(200, 10);
+    expect(borrowFee(20000, 5, 0)).toBe(0);
+  });
+
+  it('closes only what brings the account back above its maintenance margin', () => {
+    const positions = positionsAt(60);
+    const account = accountMargin(cash, positions, requirements);
+
+    expect(account).toMatchObject({ equity: 10000, maintenanceMargin: 11000, marginCall: true });
+    // 1000 short of maintenance at 6 per share of LONG, the largest requirement
+    expect(liquidationPlan(account, positions, requirements)).toEqual([
+      { symbol: 'LONG', side: 'SELL', quantity: 167 }
+    ]);
+  });
+
+  it('closes every position once no equity is left', () => {
+    const positions = positionsAt(40);
+    const account = accountMargin(cash, positions, requirements);
+
+    expect(account.equity).toBe(-10000);
+    expect(liquidationPlan(account, positions, requirements)).toEqual([
+      { symbol: 'SHORT', side: 'BUY', quantity: 100 },
+      { symbol: 'LONG', side: 'SELL', quantity: 1000 }
+    ]);
+  });
+
+  it('closes nothing outside a margin call', () => {
+    const positions = positionsAt(100);
+
+    expect(liquidationPlan(accountMargin(cash, positions, requirements), positions, requirements)).toEqual([]);
+  });
+});
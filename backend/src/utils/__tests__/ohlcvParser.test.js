@@ -0,0 +1,85 @@
+const { resolveColumns, parseDate, parseNumber, readCsvRecords, parseCsv, detectFormat } = require('../ohlcvParser');
+
+describe('OHLCV parser', () => {
+  it('detects columns from common header names', () => {
+    expect(resolveColumns(['Timestamp', 'O', 'High', 'low', 'Last', 'Vol', 'Adj Close'])).toEqual({
+      date: 'Timestamp',
+      open: 'O',
+      high: 'High',
+      low: 'low',
+      close: 'Last',
+      volume: 'Vol',
+      adjClose: 'Adj Close'
+    });
+  });
+
+  it('prefers an explicit mapping over detection', () => {
+    const columns = resolveColumns(['day', 'open', 'high', 'low', 'close', 'settle'], { date: 'DAY', close: 'settle' });
+
+    expect(columns).toMatchObject({ date: 'day', close: 'settle' });
+  });
+
+  it('names the required fields it could not find', () => {
+    expect(() => resolveColumns(['day', 'open', 'close'])).toThrow('Could not find column(s) for date, high, low; provide a column mapping');
+    expect(() => resolveColumns(['date', 'open', 'high', 'low', 'close'], { volume: 'qty' }))
+      .toThrow('Mapped column "qty" for volume is not in the file');
+  });
+
+  it('parses ISO dates, epochs and custom formats as UTC', () => {
+    expect(parseDate('2024-03-15')).toEqual(new Date('2024-03-15T00:00:00.000Z'));
+    expect(parseDate(1710460800)).toEqual(new Date('2024-03-15T00:00:00.000Z'));
+    expect(parseDate('1710460800000')).toEqual(new Date('2024-03-15T00:00:00.000Z'));
+    expect(parseDate('15/03/2024', 'DD/MM/YYYY')).toEqual(new Date('2024-03-15T00:00:00.000Z'));
+    expect(parseDate('15/03/2024')).toBeNull();
+    expect(parseDate('')).toBeNull();
+  });
+
+  it('parses numbers with thousands separators', () => {
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber(BigInt(42))).toBe(42);
+    expect(parseNumber('n/a')).toBeNull();
+    expect(parseNumber('')).toBeNull();
+  });
+
+  it('reads quoted cells with delimiters, quotes and newlines', () => {
+    const { headers, records } = readCsvRecords('\uFEFFname;note\r\n"A;B";"say ""hi""\nthere"\r\n\r\n');
+
+    expect(headers).toEqual(['name', 'note']);
+    expect(records).toEqual([{ name: 'A;B', note: 'say "hi"\nthere' }]);
+  });
+
+  it('needs at least one data row', () => {
+    expect(() => readCsvRecords('date,open,high,low,close\n')).toThrow('The file has no data rows');
+  });
+
+  it('turns a CSV file into rows numbered by file line', () => {
+    const csv = [
+      'Date,Open,High,Low,Close,Volume,Ticker',
+      '2024-03-14,100,105,99,104,"1,200", tcs ',
+      '2024-03-15,104,106,bad,105,900,tcs'
+    ].join('\n');
+
+    expect(parseCsv(csv)).toEqual([
+      {
+        line: 2,
+        date: new Date('2024-03-14T00:00:00.000Z'),
+        open: 100,
+        high: 105,
+        low: 99,
+        close: 104,
+        volume: 1200,
+        symbol: 'TCS',
+        adjClose: null,
+        adjustmentFactor: null
+      },
+      expect.objectContaining({ line: 3, low: null })
+    ]);
+  });
+
+  it('infers the format from the file name', () => {
+    expect(detectFormat('prices.CSV')).toBe('csv');
+    expect(detectFormat('prices.tsv')).toBe('csv');
+    expect(detectFormat('prices.parquet')).toBe('parquet');
+    expect(detectFormat('prices.xlsx')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+const { missingBars, validateBars, applyAdjustments, coverageRanges } = require('../ohlcvValidation');
+
+const row = (line, date, fields = {}) => ({
+  line,
+  date: date && new Date(date),
+  open: 100,
+  high: 105,
+  low: 95,
+  close: 102,
+  volume: 1000,
+  ...fields
+});
+
+describe('OHLCV validation', () => {
+  it('counts missing daily bars on weekdays only', () => {
+    // Friday to Monday
+    expect(missingBars(new Date('2024-03-08'), new Date('2024-03-11'), '1d')).toBe(0);
+    // Monday to Thursday
+    expect(missingBars(new Date('2024-03-11'), new Date('2024-03-14'), '1d')).toBe(2);
+    expect(missingBars(new Date('2024-03-04'), new Date('2024-03-25'), '1w')).toBe(2);
+  });
+
+  it('counts missing intraday bars within a day but not overnight', () => {
+    expect(missingBars(new Date('2024-03-11T09:15:00Z'), new Date('2024-03-11T09:35:00Z'), '5m')).toBe(3);
+    expect(missingBars(new Date('2024-03-11T15:25:00Z'), new Date('2024-03-12T09:15:00Z'), '5m')).toBe(0);
+  });
+
+  it.each([
+    [row(2, null), 'INVALID_VALUE', 'Missing or unparseable date'],
+    [row(2, '2024-03-11', { close: 0 }), 'INVALID_VALUE', 'Prices must be positive numbers'],
+    [row(2, '2024-03-11', { open: null }), 'INVALID_VALUE', 'Prices must be positive numbers'],
+    [row(2, '2024-03-11', { volume: -1 }), 'INVALID_VALUE', 'Volume cannot be negative'],
+    [row(2, '2024-03-11', { high: 101 }), 'OHLC_INCONSISTENT', 'High 101 / low 95 do not contain open 100 and close 102'],
+    [row(2, '2024-03-11', { low: 101 }), 'OHLC_INCONSISTENT', 'High 105 / low 101 do not contain open 100 and close 102']
+  ])('rejects an unusable row (%#)', (invalid, type, message) => {
+    const { bars, issues, rejected } = validateBars([invalid], '1d');
+
+    expect(bars).toEqual([]);
+    expect(rejected).toBe(1);
+    expect(issues).toEqual([expect.objectContaining({ type, severity: 'ERROR', line: 2, message })]);
+  });
+
+  it('sorts bars, keeps the later duplicate and warns about gaps', () => {
+    const { bars, issues, rejected } = validateBars([
+      row(2, '2024-03-14', { close: 103 }),
+      row(3, '2024-03-11'),
+      row(4, '2024-03-14', { close: 104 })
+    ], '1d');
+
+    expect(rejected).toBe(0);
+    expect(bars.map(bar => [bar.line, bar.close])).toEqual([[3, 102], [4, 104]]);
+    expect(issues).toEqual([
+      expect.objectContaining({ type: 'DUPLICATE', severity: 'WARNING', line: 4, message: 'Duplicate of line 2; the later row is kept' }),
+      expect.objectContaining({ type: 'GAP', severity: 'WARNING', message: '2 bar(s) missing between 2024-03-11 and 2024-03-14' })
+    ]);
+  });
+
+  it('adjusts prices and volume by the factor column or the adjusted close', () => {
+    const [byFactor, byAdjClose, unadjusted] = applyAdjustments([
+      row(2, '2024-03-11', { adjustmentFactor: 0.5 }),
+      row(3, '2024-03-12', { adjClose: 51 }),
+      row(4, '2024-03-13', { adjClose: 102.0000000001 })
+    ]);
+
+    expect(byFactor).toMatchObject({ open: 50, high: 52.5, low: 47.5, close: 51, volume: 2000, adjustmentFactor: 0.5 });
+    expect(byAdjClose).toMatchObject({ close: 51, volume: 2000, adjustmentFactor: 0.5 });
+    expect(unadjusted).toMatchObject({ close: 102, volume: 1000, adjustmentFactor: 1 });
+  });
+
+  it('splits coverage at breaks longer than a holiday', () => {
+    const dates = ['2024-03-01', '2024-03-04', '2024-03-11', '2024-03-25', '2024-03-26'].map(date => new Date(date));
+
+    expect(coverageRanges(dates, '1d')).toEqual([
+      { start: dates[0], end: dates[2], bars: 3 },
+      { start: dates[3], end: dates[4], bars: 2 }
+    ]);
+    expect(coverageRanges([], '1d')).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+const { validateParameterSchema, inferParameterSchema } = require('../parameterSchema');
+
+const period = { key: 'period', label: 'Period', type: 'number', min: 2, max: 200, step: 1, defaultValue: 20 };
+
+describe('parameter schema', () => {
+  it('accepts a well-formed schema', () => {
+    expect(validateParameterSchema([
+      period,
+      { key: 'source', label: 'Source', type: 'select', options: [{ value: 'close' }, { value: 'hl2' }], defaultValue: 'hl2' },
+      { key: 'trail', label: 'Trail', type: 'boolean' }
+    ])).toEqual([]);
+  });
+
+  it('needs a list', () => {
+    expect(validateParameterSchema({ period }, 'schema')).toEqual(['schema must be a list']);
+  });
+
+  it('reports every problem with its position', () => {
+    expect(validateParameterSchema([
+      'period',
+      { key: 'period', label: '', type: 'number', min: 10, max: 5, step: 0 },
+      { ...period },
+      { key: 'mode', label: 'Mode', type: 'list' },
+      { key: 'band', label: 'Band', type: 'range', min: '1' }
+    ])).toEqual([
+      'parameterSchema[0] must be an object',
+      'parameterSchema[1].label is required',
+      'parameterSchema[1].min must not exceed max',
+      'parameterSchema[1].step must be positive',
+      'parameterSchema[2] repeats key period',
+      'parameterSchema[3].type must be one of number, string, boolean, select, range',
+      'parameterSchema[4].min must be a number'
+    ]);
+  });
+
+  it('checks the choices of a select', () => {
+    expect(validateParameterSchema([
+      { key: 'source', label: 'Source', type: 'select', options: [] },
+      { key: 'side', label: 'Side', type: 'select', options: [{ value: 'long' }], defaultValue: 'short' }
+    ])).toEqual([
+      'parameterSchema[0].options must list the choices of a select',
+      'parameterSchema[1].defaultValue must be one of its options'
+    ]);
+  });
+
+  it('limits the number of parameters', () => {
+    const schema = Array.from({ length: 51 }, (_, i) => ({ ...period, key: `p${i}` }));
+
+    expect(validateParameterSchema(schema)).toEqual(['parameterSchema holds at most 50 parameters']);
+  });
+
+  it('infers a schema from parameter values', () => {
+    expect(inferParameterSchema({ fastPeriod: 10, multiplier: 1.5, trail: false, symbol: 'TCS', note: null })).toEqual([
+      { key: 'fastPeriod', label: 'Fast Period', type: 'number', step: 1, defaultValue: 10, required: true },
+      { key: 'multiplier', label: 'Multiplier', type: 'number', step: 0.1, defaultValue: 1.5, required: true },
+      { key: 'trail', label: 'Trail', type: 'boolean', defaultValue: false, required: true },
+      { key: 'symbol', label: 'Symbol', type: 'string', defaultValue: 'TCS', required: true },
+      { key: 'note', label: 'Note', type: 'string', defaultValue: '', required: true }
+    ]);
+    expect(validateParameterSchema(inferParameterSchema({ fastPeriod: 10 }))).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+const {
+  round,
+  percentile,
+  periodReturns,
+  periodsPerYear,
+  analyzeDrawdowns,
+  calculateMonthlyReturns,
+  calculateTradeStats,
+  calculateBenchmarkMetrics,
+  calculatePerformance
+} = require('../performanceMetrics');
+
+const day = (month, date) => new Date(Date.UTC(2024, month - 1, date));
+
+// Up 10%, down 10%, then to a new high across a month end
+const points = [
+  { date: day(1, 30), equity: 100 },
+  { date: day(1, 31), equity: 110 },
+  { date: day(2, 1), equity: 99 },
+  { date: day(2, 2), equity: 121 }
+];
+
+const roundTrips = [
+  { pnl: 30, entryDate: day(1, 1), exitDate: day(1, 4) },
+  { pnl: -10, entryDate: day(1, 2), exitDate: day(1, 3) },
+  { pnl: -5, entryDate: day(1, 5), exitDate: day(1, 7) }
+];
+
+describe('performance metrics', () => {
+  it('rounds and reports non-finite values as 0', () => {
+    expect(round(1.005 * 1000, 0)).toBe(1005);
+    expect(round(2 / 3, 4)).toBe(0.6667);
+    expect(round(Infinity)).toBe(0);
+    expect(round(NaN)).toBe(0);
+  });
+
+  it('interpolates percentiles', () => {
+    expect(percentile([4, 1, 3, 2], 0.5)).toBe(2.5);
+    expect(percentile([1, 2, 3, 4, 5], 0.25)).toBe(2);
+    expect(percentile([], 0.5)).toBe(0);
+  });
+
+  it('computes period returns and the periods in a year', () => {
+    expect(periodReturns(points).map(value => round(value, 4))).toEqual([0.1, -0.1, 0.2222]);
+    expect(periodsPerYear(points)).toBeCloseTo(365.25, 10);
+    expect(periodsPerYear(points.slice(0, 1))).toBe(252);
+  });
+
+  it('finds the deepest drawdown and how long it lasted', () => {
+    const { curve, maxDrawdown, maxDrawdownPercent, maxDrawdownDuration, episodes } = analyzeDrawdowns(points);
+
+    expect(maxDrawdown).toBe(11);
+    expect(maxDrawdownPercent).toBeCloseTo(10, 10);
+    expect(maxDrawdownDuration).toBe(1);
+    expect(episodes).toHaveLength(1);
+    expect(curve.map(point => point.isNewHigh)).toEqual([true, true, false, true]);
+  });
+
+  it('splits returns by calendar month', () => {
+    expect(calculateMonthlyReturns(points, 100)).toEqual([
+      { year: 2024, month: 1, return: 10, returnPercent: 10 },
+      { year: 2024, month: 2, return: 11, returnPercent: 10 }
+    ]);
+  });
+
+  it('summarizes closed trades', () => {
+    expect(calculateTradeStats(roundTrips)).toEqual({
+      totalTrades: 3,
+      winningTrades: 1,
+      losingTrades: 2,
+      winRate: 0.3333,
+      profitFactor: 2,
+      avgWin: 30,
+      avgLoss: 7.5,
+      largestWin: 30,
+      largestLoss: 10,
+      avgTradeDuration: 2
+    });
+    expect(calculateTradeStats([{ pnl: 5, entryDate: day(1, 1), exitDate: day(1, 2) }]).profitFactor).toBe(0);
+  });
+
+  it('measures a strategy that tracks its benchmark as beta 1 without alpha', () => {
+    const metrics = calculateBenchmarkMetrics(points, points.map(point => point.equity * 10));
+
+    expect(metrics).toEqual({
+      beta: 1,
+      alpha: 0,
+      trackingError: 0,
+      informationRatio: 0,
+      upCapture: 100,
+      downCapture: 100,
+      benchmarkReturnPercent: 21
+    });
+  });
+
+  it('skips periods without a benchmark value', () => {
+    const metrics = calculateBenchmarkMetrics(points, [null, 100, null, 120]);
+
+    expect(metrics.beta).toBe(0);
+    expect(metrics.benchmarkReturnPercent).toBe(20);
+  });
+
+  it('computes the full result from equity points and trades', () => {
+    const { summary, equityCurve, drawdownCurve, monthlyReturns, riskMetrics } = calculatePerformance({
+      points,
+      roundTrips,
+      initialCapital: 100,
+      totalCommission: 3,
+      totalSlippage: 1.234
+    });
+
+    expect(summary).toMatchObject({
+      totalReturn: 21,
+      totalReturnPercent: 21,
+      maxDrawdown: 11,
+      maxDrawdownPercent: 10,
+      maxDrawdownDuration: 1,
+      totalTrades: 3,
+      finalCapital: 121,
+      totalCommission: 3,
+      totalSlippage: 1.23
+    });
+    expect(summary.sharpeRatio).toBeGreaterThan(0);
+    expect(equityCurve.map(point => point.drawdown)).toEqual([0, 0, -10, 0]);
+    expect(drawdownCurve).toHaveLength(points.length);
+    expect(monthlyReturns).toHaveLength(2);
+    expect(riskMetrics.var95).toBeGreaterThan(0);
+    expect(riskMetrics.beta).toBe(0);
+  });
+
+  it('returns the same numbers for the same input', () => {
+    const input = { points, roundTrips, initialCapital: 100 };
+
+    expect(calculatePerformance(input)).toEqual(calculatePerformance(input));
+  });
+});
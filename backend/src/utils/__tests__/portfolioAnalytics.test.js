@@ -0,0 +1,55 @@
+const { correlation, correlationMatrix, returnSeries, buildAttribution } = require('../portfolioAnalytics');
+
+const day = date => new Date(Date.UTC(2024, 0, date));
+
+describe('portfolio analytics', () => {
+  it('correlates two series', () => {
+    expect(correlation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1, 10);
+    expect(correlation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1, 10);
+    expect(correlation([1, 2, 3], [5, 5, 5])).toBe(0);
+    expect(correlation([1], [1])).toBe(0);
+  });
+
+  it('turns closes into returns keyed by date', () => {
+    const series = returnSeries({ A: [{ date: day(1), close: 100 }, { date: day(2), close: 110 }, { date: day(3), close: 99 }] });
+
+    expect([...series.A.keys()]).toEqual([day(2).getTime(), day(3).getTime()]);
+    expect([...series.A.values()].map(value => Number(value.toFixed(10)))).toEqual([0.1, -0.1]);
+  });
+
+  it('correlates each pair over the dates both have', () => {
+    const series = {
+      A: new Map([[1, 0.01], [2, -0.02], [3, 0.03], [4, 0.01]]),
+      // Moves with A, but has no value on date 4
+      B: new Map([[1, 0.02], [2, -0.04], [3, 0.06]]),
+      C: new Map([[1, -0.01], [2, 0.02], [3, -0.03], [4, 0.5]])
+    };
+
+    expect(correlationMatrix(['A', 'B', 'C'], series)).toEqual({
+      symbols: ['A', 'B', 'C'],
+      values: [
+        [1, 1, expect.any(Number)],
+        [1, 1, -1],
+        [expect.any(Number), -1, 1]
+      ]
+    });
+  });
+
+  it('attributes the result to the symbols that earned it', () => {
+    const roundTrips = [
+      { symbol: 'A', pnl: 300 },
+      { symbol: 'A', pnl: -100 },
+      { symbol: 'B', pnl: -50 }
+    ];
+    const exposures = [
+      { bySymbol: { A: 40, B: 20 } },
+      { bySymbol: { A: 60 } }
+    ];
+
+    expect(buildAttribution(['A', 'B', 'C'], roundTrips, exposures, 10000)).toEqual([
+      { symbol: 'A', pnl: 200, returnContribution: 2, pnlShare: 1.3333, trades: 2, winRate: 0.5, avgExposurePercent: 50 },
+      { symbol: 'B', pnl: -50, returnContribution: -0.5, pnlShare: -0.3333, trades: 1, winRate: 0, avgExposurePercent: 10 },
+      { symbol: 'C', pnl: 0, returnContribution: 0, pnlShare: 0, trades: 0, winRate: 0, avgExposurePercent: 0 }
+    ]);
+  });
+});
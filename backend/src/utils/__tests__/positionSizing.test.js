@@ -0,0 +1,74 @@
+const {
+  KELLY_MIN_TRADES,
+  annualizedVolatility,
+  kellyFraction,
+  targetWeight,
+  normalizeSizing
+} = require('../positionSizing');
+
+// Closes that move 1% up and 1% down in turn
+const swinging = Array.from({ length: 40 }, (_, index) => (index % 2 === 0 ? 1.01 : 0.99))
+  .reduce((bars, factor) => [...bars, { close: bars[bars.length - 1].close * factor }], [{ close: 100 }]);
+const swingVolatility = 0.01 * Math.sqrt(20 / 19) * Math.sqrt(252);
+
+const trips = (wins, losses) => [
+  ...Array.from({ length: wins }, () => ({ pnl: 200 })),
+  ...Array.from({ length: losses }, () => ({ pnl: -100 }))
+];
+
+describe('position sizing', () => {
+  it('annualizes the volatility of the last returns', () => {
+    expect(annualizedVolatility([{ close: 100 }, { close: 110 }, { close: 99 }], 20)).toBeCloseTo(Math.sqrt(0.02) * Math.sqrt(252), 10);
+    expect(annualizedVolatility(Array.from({ length: 30 }, () => ({ close: 100 })), 20)).toBe(0);
+    expect(annualizedVolatility([{ close: 100 }], 20)).toBe(0);
+  });
+
+  it('estimates the kelly fraction from closed trades', () => {
+    // Wins 60% of the time and wins twice what it loses
+    expect(kellyFraction(trips(6, 4))).toBeCloseTo(0.4, 10);
+    expect(kellyFraction(trips(10, 0))).toBe(1);
+    expect(kellyFraction(trips(0, 10))).toBe(0);
+    expect(kellyFraction(trips(KELLY_MIN_TRADES - 1, 0))).toBeNull();
+  });
+
+  it('splits equity equally between the symbols', () => {
+    expect(targetWeight(normalizeSizing(), { symbolCount: 4, history: [], roundTrips: [] })).toBe(0.25);
+    expect(targetWeight(normalizeSizing(), { symbolCount: 0, history: [], roundTrips: [] })).toBe(1);
+  });
+
+  it('sizes a fixed fraction of equity', () => {
+    expect(targetWeight(normalizeSizing({ model: 'FIXED_FRACTIONAL', fractionPercent: 30 }), { symbolCount: 5 })).toBe(0.3);
+  });
+
+  it('gives each symbol an equal share of the volatility budget', () => {
+    const sizing = normalizeSizing({ model: 'VOLATILITY_TARGET', targetVolatility: 15, volatilityLookback: 20 });
+
+    expect(targetWeight(sizing, { symbolCount: 2, history: swinging })).toBeCloseTo(0.15 / swingVolatility / 2, 10);
+    // Without any movement to measure it falls back to equal weight
+    expect(targetWeight(sizing, { symbolCount: 2, history: [{ close: 100 }] })).toBe(0.5);
+  });
+
+  it('scales the kelly fraction and never sizes a losing edge', () => {
+    const sizing = normalizeSizing({ model: 'KELLY', kellyFraction: 0.5 });
+
+    expect(targetWeight(sizing, { symbolCount: 2, roundTrips: trips(6, 4) })).toBeCloseTo(0.2, 10);
+    expect(targetWeight(sizing, { symbolCount: 2, roundTrips: trips(2, 8) })).toBe(0);
+    expect(targetWeight(sizing, { symbolCount: 2, roundTrips: trips(3, 0) })).toBe(0.5);
+  });
+
+  it('fills in defaults and rejects settings out of range', () => {
+    expect(normalizeSizing()).toEqual({
+      model: 'EQUAL_WEIGHT',
+      fractionPercent: 10,
+      targetVolatility: 15,
+      volatilityLookback: 20,
+      kellyFraction: 0.5
+    });
+
+    expect(() => normalizeSizing({ model: 'MARTINGALE' })).toThrow('Unknown position sizing model "MARTINGALE"');
+    expect(() => normalizeSizing({ fractionPercent: 150 })).toThrow('Fixed fraction must be between 0% and 100% of equity');
+    expect(() => normalizeSizing({ targetVolatility: 250 })).toThrow('Target volatility must be between 0% and 200%');
+    expect(() => normalizeSizing({ volatilityLookback: 1 })).toThrow('Volatility lookback must be at least 2 bars');
+    expect(() => normalizeSizing({ kellyFraction: 2 })).toThrow('Kelly fraction must be between 0 and 1');
+  });
+});
@@ -0,0 +1,117 @@
+const {
+  RULES,
+  DEFAULT_RISK_LIMITS,
+  isReducing,
+  openingQuantity,
+  netPositions,
+  dayPnL,
+  evaluateOrder
+} = require('../riskRules');
+
+const rules = violations => violations.map(violation => violation.rule);
+
+// Every rule switched off, so each test only turns on the one it checks
+const noLimits = Object.fromEntries(Object.keys(DEFAULT_RISK_LIMITS).map(key => [key, null]));
+
+const buy = (quantity, price) => ({ symbol: 'TEST', side: 'BUY', type: price ? 'LIMIT' : 'MARKET', quantity, price });
+const sell = (quantity, price) => ({ symbol: 'TEST', side: 'SELL', type: price ? 'LIMIT' : 'MARKET', quantity, price });
+
+describe('risk rules', () => {
+  it('tells reducing orders from opening ones', () => {
+    expect(isReducing(100, -40)).toBe(true);
+    expect(isReducing(100, -100)).toBe(true);
+    expect(isReducing(100, -150)).toBe(false);
+    expect(isReducing(-50, 20)).toBe(true);
+    expect(isReducing(0, -10)).toBe(false);
+
+    expect(openingQuantity(100, 50)).toBe(50);
+    expect(openingQuantity(100, -40)).toBe(0);
+    expect(openingQuantity(100, -150)).toBe(50);
+    expect(openingQuantity(0, -30)).toBe(30);
+  });
+
+  it('nets trades into positions and marks what they left open', () => {
+    const trades = [
+      { symbol: 'A', side: 'BUY', quantity: 10, price: 100, commission: 1 },
+      { symbol: 'A', side: 'SELL', quantity: 10, price: 105, commission: 1 },
+      { symbol: 'B', side: 'SELL', quantity: 5, price: 200 }
+    ];
+
+    expect([...netPositions(trades)]).toEqual([['B', -5]]);
+    // 50 made on A less commission, 5 shares of B short at 200 marked at 190
+    expect(dayPnL(trades, new Map([['B', 190]]))).toBe(98);
+  });
+
+  it('passes an order within every limit', () => {
+    const context = { marketPrice: 100, equity: 100000, buyingPower: 100000 };
+
+    expect(evaluateOrder(buy(10, 100), context, DEFAULT_RISK_LIMITS)).toEqual([]);
+  });
+
+  it('holds back orders over the buying power, including commission', () => {
+    const context = { marketPrice: 100, buyingPower: 10000 };
+
+    expect(evaluateOrder(buy(100), context, noLimits)).toEqual([expect.objectContaining({
+      rule: RULES.BUYING_POWER,
+      scope: 'ACCOUNT',
+      limit: 10000,
+      value: 10001
+    })]);
+    expect(evaluateOrder(buy(99), context, noLimits)).toEqual([]);
+    // Closing a position needs no buying power
+    expect(evaluateOrder(sell(100), { ...context, position: 100, buyingPower: 0 }, noLimits)).toEqual([]);
+  });
+
+  it('checks order value, price bands and short sales', () => {
+    const limits = { ...noLimits, maxOrderValue: 5000, priceBandPercent: 10 };
+    const context = { marketPrice: 100, shortable: false };
+
+    expect(rules(evaluateOrder(buy(60, 100), context, limits))).toEqual([RULES.ORDER_VALUE]);
+    expect(rules(evaluateOrder(buy(10, 111), context, limits))).toEqual([RULES.PRICE_BAND]);
+    expect(rules(evaluateOrder({ ...buy(10), type: 'STOP', stopPrice: 85 }, context, limits))).toEqual([RULES.PRICE_BAND]);
+    expect(rules(evaluateOrder(sell(10), context, limits))).toEqual([RULES.SHORT_SALE]);
+    expect(rules(evaluateOrder(sell(10), { ...context, position: 10 }, limits))).toEqual([]);
+  });
+
+  it('limits the exposure and concentration of orders that add to positions', () => {
+    const limits = { ...noLimits, maxExposurePercent: 100, maxPositionSizePercent: 20 };
+    const context = { marketPrice: 100, equity: 10000, exposure: 9000, position: 10 };
+
+    const violations = evaluateOrder(buy(15, 100), context, limits);
+    expect(rules(violations)).toEqual([RULES.EXPOSURE, RULES.CONCENTRATION]);
+    expect(violations.map(violation => violation.value)).toEqual([105, 25]);
+
+    expect(evaluateOrder(sell(5, 100), context, limits)).toEqual([]);
+  });
+
+  it('only accepts reducing orders once the daily loss limit is reached', () => {
+    const limits = { ...noLimits, maxDailyLoss: 5000, maxDailyLossPercent: 2 };
+    const context = { marketPrice: 100, equity: 100000, dayPnL: -2000, position: 50 };
+
+    // The tighter of the amount and the percentage of equity applies
+    expect(evaluateOrder(buy(10), context, limits)).toEqual([expect.objectContaining({
+      rule: RULES.DAILY_LOSS,
+      limit: 2000,
+      value: 2000
+    })]);
+    expect(evaluateOrder(sell(10), context, limits)).toEqual([]);
+    expect(evaluateOrder(buy(10), { ...context, dayPnL: -1999 }, limits)).toEqual([]);
+  });
+
+  it('limits the order rate and the number of open trades', () => {
+    const limits = { ...noLimits, maxOrdersPerMinute: 3, maxConcurrentTrades: 2 };
+
+    expect(rules(evaluateOrder(buy(1), { marketPrice: 100, recentOrders: 3 }, limits))).toEqual([RULES.ORDER_RATE]);
+    expect(rules(evaluateOrder(buy(1), { marketPrice: 100, openTrades: 2 }, limits))).toEqual([RULES.CONCURRENT_TRADES]);
+    // Adding to a trade already open does not start a new one
+    expect(evaluateOrder(buy(1), { marketPrice: 100, openTrades: 2, position: 5 }, limits)).toEqual([]);
+  });
+
+  it('words strategy violations against the strategy capital', () => {
+    const limits = { ...noLimits, maxPositionSizePercent: 10 };
+    const [violation] = evaluateOrder(buy(20, 100), { marketPrice: 100, equity: 10000 }, limits, 'STRATEGY');
+
+    expect(violation.scope).toBe('STRATEGY');
+    expect(violation.message).toBe('TEST would make up 20.00% of strategy capital (limit 10%)');
+  });
+});
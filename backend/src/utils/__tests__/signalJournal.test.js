@@ -0,0 +1,112 @@
+const {
+  normalizeSignalContext,
+  createSignal,
+  recordSignalFill,
+  recordSignalOrder,
+  rejectSignal
+} = require('../signalJournal');
+
+const bar = { date: new Date('2024-03-11'), open: 100, high: 104, low: 99, close: 103, volume: 5000, symbol: 'TCS' };
+
+describe('signal journal', () => {
+  it('keeps numeric indicators and described conditions', () => {
+    const context = normalizeSignalContext({
+      indicators: {
+        'SMA(10)': 101.23456789,
+        MACD: { macd: 1.5, signal: NaN, label: 'x' },
+        missing: Infinity,
+        name: 'not a number'
+      },
+      conditions: [
+        { description: 'SMA(10) crosses above SMA(20)', left: 101.2, right: { value: 100.8 } },
+        { description: 'RSI below 70', passed: false, left: 'n/a' },
+        { passed: true },
+        null
+      ]
+    });
+
+    expect(context).toEqual({
+      indicators: { 'SMA(10)': 101.234568, MACD: { macd: 1.5 } },
+      conditions: [
+        { description: 'SMA(10) crosses above SMA(20)', passed: true, left: 101.2, right: { value: 100.8 } },
+        { description: 'RSI below 70', passed: false, left: null, right: null }
+      ]
+    });
+    expect(normalizeSignalContext('because')).toEqual({ indicators: {}, conditions: [] });
+  });
+
+  it('caps the size of what a strategy can store', () => {
+    const indicators = Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`i${i}`, i]));
+    const conditions = Array.from({ length: 30 }, (_, i) => ({ description: 'x'.repeat(300 + i) }));
+
+    const context = normalizeSignalContext({ indicators, conditions });
+
+    expect(Object.keys(context.indicators)).toHaveLength(25);
+    expect(context.conditions).toHaveLength(20);
+    expect(context.conditions[0].description).toHaveLength(200);
+  });
+
+  it('records the bar and request of a new signal', () => {
+    const signal = createSignal({ symbol: 'TCS', side: 'BUY', quantity: 10, reason: 'breakout', bar });
+
+    expect(signal).toEqual({
+      symbol: 'TCS',
+      action: 'BUY',
+      side: 'BUY',
+      requestedQuantity: 10,
+      reason: 'breakout',
+      signalDate: bar.date,
+      bar: { open: 100, high: 104, low: 99, close: 103, volume: 5000 },
+      indicators: {},
+      conditions: [],
+      status: 'PENDING',
+      filledQuantity: 0,
+      fills: [],
+      orderIds: []
+    });
+  });
+
+  it('journals closing everything as a CLOSE without a quantity', () => {
+    const signal = createSignal({ symbol: 'TCS', side: 'SELL', quantity: 'ALL', bar });
+
+    expect(signal).toMatchObject({ action: 'CLOSE', side: 'SELL', requestedQuantity: undefined, reason: undefined });
+  });
+
+  it('fills a signal in parts', () => {
+    const signal = createSignal({ symbol: 'TCS', side: 'BUY', quantity: 10, bar });
+
+    recordSignalFill(signal, { quantity: 4, price: 101 });
+    expect(signal).toMatchObject({ status: 'PARTIALLY_FILLED', filledQuantity: 4 });
+
+    recordSignalFill(signal, { quantity: 6, price: 102 });
+    expect(signal).toMatchObject({ status: 'FILLED', filledQuantity: 10 });
+    expect(signal.fills).toHaveLength(2);
+  });
+
+  it('counts a sized signal as filled by its first fill', () => {
+    const signal = createSignal({ symbol: 'TCS', side: 'BUY', bar });
+
+    recordSignalFill(signal, { quantity: 37, price: 101 });
+
+    expect(signal).toMatchObject({ status: 'FILLED', filledQuantity: 37 });
+  });
+
+  it('follows the order a paper trading signal was placed as', () => {
+    const signal = createSignal({ symbol: 'TCS', side: 'SELL', quantity: 10, bar });
+
+    recordSignalOrder(signal, { _id: 'order-1', status: 'PENDING' });
+    expect(signal).toMatchObject({ status: 'SUBMITTED', filledQuantity: 0, orderIds: ['order-1'] });
+
+    recordSignalOrder(signal, { _id: 'order-2', status: 'PARTIALLY_FILLED', filledQuantity: 3 });
+    expect(signal).toMatchObject({ status: 'PARTIALLY_FILLED', filledQuantity: 3, orderIds: ['order-1', 'order-2'] });
+  });
+
+  it('records why a signal produced no fill', () => {
+    const signal = createSignal({ symbol: 'TCS', side: 'BUY', quantity: 10, bar });
+    const rejection = { source: 'RISK', message: 'Order value exceeds limit', violations: [{ rule: 'ORDER_VALUE' }] };
+
+    rejectSignal(signal, 'REJECTED', rejection);
+
+    expect(signal).toMatchObject({ status: 'REJECTED', rejection });
+  });
+});
@@ -0,0 +1,128 @@
+const {
+  PACKAGE_FORMAT,
+  FORMAT_VERSION,
+  computeChecksum,
+  detectFormatVersion,
+  migratePackage,
+  validatePackage,
+  buildPackage,
+  suggestName
+} = require('../strategyPackage');
+
+const strategy = {
+  name: 'RSI Swing',
+  description: 'Buys oversold dips',
+  type: 'TEMPLATE',
+  version: '1.1.0',
+  parameters: { period: 14, oversold: 30 },
+  tags: ['rsi']
+};
+
+const versions = [
+  { version: '1.1.0', message: 'Tighter entry', type: 'TEMPLATE', parameters: { period: 14, oversold: 30 } },
+  { version: '1.0.0', message: 'First version', type: 'TEMPLATE', parameters: { period: 14, oversold: 35 } }
+];
+
+const exported = () => buildPackage({
+  strategy,
+  presets: [{ name: 'Slow', parameters: { period: 21 } }],
+  versions
+});
+
+describe('strategy packages', () => {
+  it('exports a package that validates with its checksum', () => {
+    const pkg = exported();
+
+    expect(pkg).toMatchObject({ format: PACKAGE_FORMAT, formatVersion: FORMAT_VERSION, checksum: { algorithm: 'sha256' } });
+    expect(pkg.content.versions.map(version => version.version)).toEqual(['1.0.0', '1.1.0']);
+    expect(validatePackage(pkg)).toMatchObject({ valid: true, errors: [], warnings: [], checksum: 'valid', migratedFrom: null });
+  });
+
+  it('takes the checksum independent of key order and indentation', () => {
+    const pkg = exported();
+    const reordered = JSON.parse(JSON.stringify({ ...pkg, content: { ...pkg.content } }, null, 4));
+    reordered.content = Object.fromEntries(Object.entries(reordered.content).reverse());
+    reordered.content.strategy = Object.fromEntries(Object.entries(reordered.content.strategy).reverse());
+
+    expect(computeChecksum(reordered.content)).toBe(pkg.checksum.value);
+    expect(validatePackage(reordered).checksum).toBe('valid');
+  });
+
+  it('rejects a package changed after it was exported', () => {
+    const pkg = exported();
+    pkg.content.strategy.parameters.oversold = 10;
+
+    const result = validatePackage(pkg);
+
+    expect(result.valid).toBe(false);
+    expect(result.checksum).toBe('invalid');
+    expect(result.errors).toContain('Checksum mismatch: the package was modified or corrupted after it was exported');
+  });
+
+  it('rejects unknown checksum algorithms and warns about a missing checksum', () => {
+    const pkg = exported();
+
+    expect(validatePackage({ ...pkg, checksum: { algorithm: 'md5', value: 'abc' } }).errors)
+      .toEqual(['Unsupported checksum algorithm "md5"']);
+
+    const unsigned = validatePackage({ ...pkg, checksum: undefined });
+    expect(unsigned).toMatchObject({ valid: true, checksum: 'missing' });
+    expect(unsigned.warnings).toEqual(['Package has no checksum, so its integrity cannot be verified']);
+  });
+
+  it('migrates strategies downloaded by the old builder', () => {
+    const legacy = { exportVersion: '1.0', ...strategy, version: undefined, code: '', exportedAt: '2024-01-01T00:00:00.000Z' };
+
+    expect(detectFormatVersion(legacy)).toBe(1);
+
+    const { pkg, migratedFrom } = migratePackage(legacy);
+    expect(migratedFrom).toBe(1);
+    expect(pkg).toMatchObject({ format: PACKAGE_FORMAT, formatVersion: 2, exportedAt: legacy.exportedAt });
+    expect(pkg.content).toMatchObject({
+      strategy: { name: 'RSI Swing', type: 'TEMPLATE', version: '1.0.0', parameters: strategy.parameters },
+      parameterSchema: [],
+      presets: [],
+      versions: [],
+      backtest: null
+    });
+
+    const result = validatePackage(legacy);
+    expect(result).toMatchObject({ valid: true, migratedFrom: 1, checksum: 'missing' });
+    expect(result.warnings).toEqual(['Package was migrated from format 1 to format 2']);
+  });
+
+  it('leaves packages of the current format as they are', () => {
+    const pkg = exported();
+
+    expect(migratePackage(pkg)).toEqual({ pkg, migratedFrom: null });
+  });
+
+  it('refuses files that are no package or come from a newer server', () => {
+    expect(detectFormatVersion([])).toBeNull();
+    expect(detectFormatVersion({ format: PACKAGE_FORMAT, formatVersion: '2' })).toBeNull();
+    expect(() => migratePackage({ hello: 'world' })).toThrow('This file is not a strategy package');
+    expect(() => migratePackage({ format: PACKAGE_FORMAT, formatVersion: FORMAT_VERSION + 1 }))
+      .toThrow(`Package format ${FORMAT_VERSION + 1} is newer than the supported format ${FORMAT_VERSION}`);
+    expect(validatePackage(null)).toMatchObject({ valid: false, errors: ['This file is not a strategy package'], package: null });
+  });
+
+  it('reports what is wrong with the content', () => {
+    const pkg = buildPackage({
+      strategy: { ...strategy, type: 'SCRIPT' },
+      presets: [{ parameters: {} }],
+      versions: [versions[1], versions[1]]
+    });
+
+    expect(validatePackage(pkg).errors).toEqual([
+      'strategy.type must be one of VISUAL, CODE, TEMPLATE',
+      'presets[0].name is required',
+      'versions[1] repeats version 1.0.0'
+    ]);
+  });
+
+  it('suggests a free name for an import', () => {
+    expect(suggestName('RSI Swing', ['MACD'])).toBe('RSI Swing');
+    expect(suggestName('RSI Swing', ['rsi swing'])).toBe('RSI Swing (Imported)');
+    expect(suggestName('RSI Swing', ['RSI Swing', 'RSI Swing (Imported)'])).toBe('RSI Swing (Imported 2)');
+  });
+});
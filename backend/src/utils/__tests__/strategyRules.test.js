@@ -0,0 +1,121 @@
+const BacktestEngine = require('../../services/backtestEngine');
+const StrategyRuntime = require('../../services/strategyRuntime');
+const { normalizeRules, createRulesHandler, compileRules } = require('../strategyRules');
+
+// A year of daily bars swinging around an uptrend so indicators cross both ways
+const bars = Array.from({ length: 250 }, (_, index) => {
+  const close = 80 + index * 0.1 + 15 * Math.sin(index / 9) + 5 * Math.sin(index / 3.7);
+  const open = close - Math.cos(index / 2);
+  return {
+    date: new Date(Date.UTC(2023, 0, 2) + index * 86400000),
+    open,
+    high: Math.max(open, close) + 1,
+    low: Math.min(open, close) - 1,
+    close,
+    volume: 10000 + (index % 7) * 1000
+  };
+});
+
+const indicator = (name, params, extra = {}) => ({ type: 'INDICATOR', indicator: name, params, ...extra });
+const condition = (left, comparator, right) => ({ type: 'CONDITION', left, comparator, right });
+const number = value => ({ type: 'NUMBER', value });
+
+const rules = {
+  version: 1,
+  entry: [
+    {
+      name: '',
+      when: {
+        type: 'GROUP',
+        logic: 'OR',
+        conditions: [
+          condition(indicator('SMA', { period: 5 }), 'CROSSES_ABOVE', indicator('SMA', { period: 20 })),
+          condition({ type: 'PRICE', field: 'close' }, 'GREATER_THAN', indicator('BOLLINGER', { period: 20, multiplier: 2 }, { output: 'upper' }))
+        ]
+      },
+      action: { type: 'BUY', size: { unit: 'SHARES', value: 100 } }
+    },
+    {
+      name: 'Oversold',
+      when: {
+        type: 'GROUP',
+        logic: 'AND',
+        conditions: [
+          condition(indicator('RSI', { period: 14 }), 'LESS_THAN', number(35)),
+          condition({ type: 'PRICE', field: 'close' }, 'GREATER_THAN_OR_EQUAL', indicator('EMA', { period: 100 }))
+        ]
+      },
+      action: { type: 'BUY', size: { unit: 'PERCENT_OF_EQUITY', value: 50 } }
+    }
+  ],
+  exit: [
+    {
+      name: 'Trim',
+      when: { type: 'GROUP', logic: 'AND', conditions: [condition(indicator('RSI', { period: 14 }), 'GREATER_THAN', number(60))] },
+      action: { type: 'SELL', size: { unit: 'PERCENT_OF_POSITION', value: 50 } }
+    },
+    {
+      name: 'Trend over',
+      when: { type: 'GROUP', logic: 'AND', conditions: [condition(indicator('SMA', { period: 5 }), 'CROSSES_BELOW', indicator('SMA', { period: 20 }))] },
+      action: { type: 'CLOSE' }
+    }
+  ]
+};
+
+const backtest = async (handler) => {
+  const engine = new BacktestEngine({ symbol: 'TEST', initialCapital: 100000, commission: 20, slippage: 0.1 });
+  const { fills, signals } = await engine.run(bars, handler);
+  return {
+    fills: fills.map(({ side, quantity, price, reason, signalDate, executedAt }) => ({ side, quantity, price, reason, signalDate, executedAt })),
+    requested: signals.map(signal => signal.requestedQuantity)
+  };
+};
+
+const compiledBacktest = async (compiled) => {
+  const runtime = new StrategyRuntime({ code: compileRules(compiled), symbol: 'TEST' });
+  await runtime.start();
+  try {
+    return await backtest(runtime);
+  } finally {
+    await runtime.stop();
+  }
+};
+
+describe('strategy rules', () => {
+  it('places the same orders natively and compiled', async () => {
+    const native = await backtest(createRulesHandler(rules));
+    const compiled = await compiledBacktest(rules);
+
+    expect(native.fills.length).toBeGreaterThan(4);
+    expect(new Set(native.fills.map(fill => fill.reason)).size).toBeGreaterThan(3);
+    expect(compiled).toEqual(native);
+  });
+
+  it.each([
+    ['carriage return', '\r'],
+    ['line separator', '\u2028'],
+    ['paragraph separator', '\u2029'],
+    ['line feed', '\n']
+  ])('keeps a %s in a rule name out of the compiled code', async (name, terminator) => {
+    const injected = {
+      ...rules,
+      entry: [{ ...rules.entry[0], name: `x${terminator}ctx.buy(999999,"injected");//` }]
+    };
+
+    expect(normalizeRules(injected).entry[0].name).toBe('x ctx.buy(999999,"injected");//');
+    expect(compileRules(injected).split(/[\r\n\u2028\u2029]/).some(line => line.trim().startsWith('ctx.buy(999999'))).toBe(false);
+
+    const { fills, requested } = await compiledBacktest(injected);
+    expect(fills.length).toBeGreaterThan(0);
+    expect(requested).not.toContain(999999);
+  });
+
+  it('drops control characters from rule names', () => {
+    const normalized = normalizeRules({
+      ...rules,
+      entry: [{ ...rules.entry[0], name: '\tBuy\u0000the\u0085dip\u001b ' }]
+    });
+
+    expect(normalized.entry[0].name).toBe('Buy the dip');
+  });
+});
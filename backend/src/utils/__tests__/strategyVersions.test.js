@@ -0,0 +1,94 @@
+const {
+  parseVersion,
+  bumpVersion,
+  compareVersions,
+  stableStringify,
+  snapshotStrategy,
+  changedFields,
+  describeChanges,
+  diffLines,
+  diffParameters,
+  diffSnapshots
+} = require('../strategyVersions');
+
+describe('strategy versions', () => {
+  it('parses MAJOR.MINOR.PATCH versions only', () => {
+    expect(parseVersion('1.12.0')).toEqual([1, 12, 0]);
+    expect(() => parseVersion('1.2')).toThrow('"1.2" is not a MAJOR.MINOR.PATCH version');
+    expect(() => parseVersion('v1.2.3')).toThrow('"v1.2.3" is not a MAJOR.MINOR.PATCH version');
+  });
+
+  it('resets lower parts when bumping', () => {
+    expect(bumpVersion('1.4.7')).toBe('1.4.8');
+    expect(bumpVersion('1.4.7', 'minor')).toBe('1.5.0');
+    expect(bumpVersion('1.4.7', 'major')).toBe('2.0.0');
+    expect(() => bumpVersion('1.4.7', 'build')).toThrow('Version bump must be one of major, minor, patch');
+  });
+
+  it('orders versions numerically rather than as text', () => {
+    expect(['1.10.0', '1.2.0', '0.9.9', '1.2.10'].sort(compareVersions)).toEqual(['0.9.9', '1.2.0', '1.2.10', '1.10.0']);
+    expect(compareVersions('2.0.0', '2.0.0')).toBe(0);
+  });
+
+  it('serializes objects the same way whatever their key order', () => {
+    expect(stableStringify({ b: [1, { d: 2, c: 3 }], a: 'x', skip: undefined }))
+      .toBe('{"a":"x","b":[1,{"c":3,"d":2}]}');
+  });
+
+  it('snapshots the versioned fields of a document', () => {
+    const strategy = {
+      toObject: () => ({ name: 'Breakout', type: 'CODE', code: 'return [];', parameters: { period: 20 }, status: 'ACTIVE' })
+    };
+
+    expect(snapshotStrategy(strategy)).toEqual({ type: 'CODE', code: 'return [];', parameters: { period: 20 }, rules: undefined });
+    expect(snapshotStrategy({ type: 'VISUAL' })).toEqual({ type: 'VISUAL', code: '', parameters: {}, rules: undefined });
+  });
+
+  it('names the fields that changed', () => {
+    const before = { type: 'CODE', code: 'a', parameters: { x: 1, y: 2 } };
+
+    expect(changedFields(before, { ...before, parameters: { y: 2, x: 1 } })).toEqual([]);
+    expect(changedFields(before, { ...before, type: 'TEMPLATE', code: 'b' })).toEqual(['type', 'code']);
+    expect(describeChanges([])).toBe('No changes');
+    expect(describeChanges(['code'])).toBe('Updated code');
+    expect(describeChanges(['type', 'code', 'parameters'])).toBe('Updated strategy type, code and parameters');
+  });
+
+  it('pairs replaced lines side by side', () => {
+    const { rows, added, removed } = diffLines('a\nb\nc', 'a\nB\nc\nd');
+
+    expect(rows).toEqual([
+      { type: 'equal', left: { number: 1, text: 'a' }, right: { number: 1, text: 'a' } },
+      { type: 'changed', left: { number: 2, text: 'b' }, right: { number: 2, text: 'B' } },
+      { type: 'equal', left: { number: 3, text: 'c' }, right: { number: 3, text: 'c' } },
+      { type: 'added', left: null, right: { number: 4, text: 'd' } }
+    ]);
+    expect({ added, removed }).toEqual({ added: 2, removed: 1 });
+  });
+
+  it('shows removed lines and empty code', () => {
+    expect(diffLines('a\nb', 'b').rows[0]).toEqual({ type: 'removed', left: { number: 1, text: 'a' }, right: null });
+    expect(diffLines('', '')).toEqual({ rows: [], added: 0, removed: 0 });
+  });
+
+  it('lists added, removed and changed parameters', () => {
+    expect(diffParameters({ period: 20, stop: 2, bands: [1, 2] }, { period: 30, bands: [1, 2], target: 4 })).toEqual([
+      { key: 'period', from: 20, to: 30, change: 'changed' },
+      { key: 'stop', from: 2, to: undefined, change: 'removed' },
+      { key: 'target', from: undefined, to: 4, change: 'added' }
+    ]);
+  });
+
+  it('diffs two snapshots field by field', () => {
+    const from = { type: 'CODE', code: 'x', parameters: { period: 20 } };
+    const to = { type: 'VISUAL', code: 'x', parameters: { period: 20 }, rules: { entry: [] } };
+
+    const diff = diffSnapshots(from, to);
+
+    expect(diff.type).toEqual({ from: 'CODE', to: 'VISUAL' });
+    expect(diff.code).toMatchObject({ added: 0, removed: 0 });
+    expect(diff.parameters).toEqual([]);
+    expect(diff.rules).toEqual({ from: null, to: { entry: [] } });
+    expect(diffSnapshots(from, from).rules).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+const { SESSIONS, localTime, isTradingDay, getPhase, nextOpen, nextClose } = require('../tradingCalendar');
+
+const NSE = SESSIONS.NSE;
+
+// A UTC time from an NSE local time (IST, UTC+05:30)
+const ist = (local) => new Date(`${local}:00+05:30`);
+
+const holidays = new Map([
+  ['2024-03-08', { description: 'Mahashivratri' }],
+  ['2024-03-25', { description: 'Holi' }],
+  ['2024-11-01', { description: 'Diwali Laxmi Pujan', specialSession: { open: '18:00', close: '19:00' } }]
+]);
+
+describe('trading calendar', () => {
+  it('works in the exchange local date', () => {
+    expect(localTime(ist('2024-03-11T00:30'), NSE)).toMatchObject({ key: '2024-03-11', minute: 30, weekday: 1 });
+    expect(localTime(ist('2024-03-10T23:59'), NSE)).toMatchObject({ key: '2024-03-10', weekday: 0 });
+  });
+
+  it('trades on weekdays that are not holidays', () => {
+    expect(isTradingDay(ist('2024-03-07T12:00'), NSE, holidays)).toBe(true);
+    expect(isTradingDay(ist('2024-03-08T12:00'), NSE, holidays)).toBe(false);
+    expect(isTradingDay(ist('2024-03-09T12:00'), NSE, holidays)).toBe(false);
+    expect(isTradingDay(ist('2024-03-10T12:00'), NSE, holidays)).toBe(false);
+    // A holiday with a special session still trades
+    expect(isTradingDay(ist('2024-11-01T12:00'), NSE, holidays)).toBe(true);
+  });
+
+  it.each([
+    ['2024-03-11T08:59', 'CLOSED', false, false],
+    ['2024-03-11T09:00', 'PRE_OPEN', true, false],
+    ['2024-03-11T09:10', 'PRE_OPEN_MUTED', false, false],
+    ['2024-03-11T09:15', 'OPEN', true, true],
+    ['2024-03-11T15:29', 'OPEN', true, true],
+    ['2024-03-11T15:30', 'CLOSING_MUTED', false, false],
+    ['2024-03-11T15:45', 'POST_CLOSE', true, false],
+    ['2024-03-11T16:00', 'CLOSED', false, false]
+  ])('is in the right phase at %s', (time, phase, acceptsOrders, matches) => {
+    expect(getPhase(ist(time), NSE, holidays)).toEqual({ phase, acceptsOrders, matches, holiday: undefined });
+  });
+
+  it('is closed all day on a holiday and names it', () => {
+    expect(getPhase(ist('2024-03-25T11:00'), NSE, holidays))
+      .toEqual({ phase: 'CLOSED', acceptsOrders: false, matches: false, holiday: 'Holi' });
+  });
+
+  it('only opens for the special session on a trading holiday', () => {
+    expect(getPhase(ist('2024-11-01T11:00'), NSE, holidays).phase).toBe('CLOSED');
+    expect(getPhase(ist('2024-11-01T18:30'), NSE, holidays))
+      .toEqual({ phase: 'OPEN', acceptsOrders: true, matches: true, holiday: 'Diwali Laxmi Pujan' });
+  });
+
+  it('finds the next open over weekends and holidays', () => {
+    // Thursday evening, with Friday a holiday
+    expect(nextOpen(ist('2024-03-07T16:00'), NSE, holidays)).toEqual(ist('2024-03-11T09:15'));
+    // Friday before Holi Monday
+    expect(nextOpen(ist('2024-03-22T10:00'), NSE, holidays)).toEqual(ist('2024-03-26T09:15'));
+    expect(nextOpen(ist('2024-11-01T09:00'), NSE, holidays)).toEqual(ist('2024-11-01T18:00'));
+  });
+
+  it('finds the close of the current session or the next one', () => {
+    expect(nextClose(ist('2024-03-11T10:00'), NSE, holidays)).toEqual(ist('2024-03-11T15:30'));
+    expect(nextClose(ist('2024-03-11T15:30'), NSE, holidays)).toEqual(ist('2024-03-12T15:30'));
+    expect(nextClose(ist('2024-11-01T18:30'), NSE, holidays)).toEqual(ist('2024-11-01T19:00'));
+  });
+});
@@ -0,0 +1,86 @@
+const { buildWalkForwardWindows, walkForwardEfficiency, parameterStability } = require('../walkForward');
+
+// Eight weeks of weekday bars from Monday 1 January 2024
+const bars = Array.from({ length: 56 }, (_, index) => ({ date: new Date(Date.UTC(2024, 0, 1 + index)) }))
+  .filter(bar => ![0, 6].includes(bar.date.getUTCDay()));
+
+const ranges = [
+  { key: 'fastPeriod', min: 5, max: 25 },
+  { key: 'multiplier', min: 1, max: 3 }
+];
+
+describe('walk-forward analysis', () => {
+  it('rolls train and test windows forward by calendar days', () => {
+    const windows = buildWalkForwardWindows(bars, { trainDays: 14, testDays: 7 });
+
+    // Two weeks of training, then one week of testing, a week at a time
+    expect(windows).toEqual(Array.from({ length: 6 }, (_, week) => ({
+      trainStart: 5 * week,
+      testStart: 10 + 5 * week,
+      testEnd: 15 + 5 * week
+    })));
+  });
+
+  it('keeps every train window at the first bar when anchored', () => {
+    const windows = buildWalkForwardWindows(bars, { trainDays: 14, testDays: 7, anchored: true });
+
+    expect(windows).toHaveLength(6);
+    expect(windows.every(window => window.trainStart === 0)).toBe(true);
+    expect(windows.map(window => window.testStart)).toEqual([10, 15, 20, 25, 30, 35]);
+  });
+
+  it('cuts the last test window at the last bar', () => {
+    const windows = buildWalkForwardWindows(bars.slice(0, 37), { trainDays: 14, testDays: 7 });
+
+    expect(windows[windows.length - 1]).toEqual({ trainStart: 25, testStart: 35, testEnd: 37 });
+  });
+
+  it('has no windows when the data ends inside the first train window', () => {
+    expect(buildWalkForwardWindows(bars.slice(0, 10), { trainDays: 14, testDays: 7 })).toEqual([]);
+    expect(buildWalkForwardWindows([], { trainDays: 14, testDays: 7 })).toEqual([]);
+  });
+
+  it('relates out-of-sample returns to the average in-sample return', () => {
+    expect(walkForwardEfficiency(10, [20, 30])).toBe(0.4);
+    expect(walkForwardEfficiency(-5, [10])).toBe(-0.5);
+    expect(walkForwardEfficiency(10, [-5, 5])).toBe(0);
+  });
+
+  it('scores parameters every window agreed on as stable', () => {
+    const stability = parameterStability([
+      { fastPeriod: 10, multiplier: 2 },
+      { fastPeriod: 10, multiplier: 2 }
+    ], ranges);
+
+    expect(stability.score).toBe(1);
+    expect(stability.parameters[0]).toEqual({
+      key: 'fastPeriod',
+      values: [10, 10],
+      mean: 10,
+      stdDev: 0,
+      min: 10,
+      max: 10,
+      coefficientOfVariation: 0
+    });
+  });
+
+  it('scores parameters that jump across their range as unstable', () => {
+    const stability = parameterStability([
+      { fastPeriod: 5, multiplier: 1 },
+      { fastPeriod: 25, multiplier: 3 }
+    ], ranges);
+
+    expect(stability.score).toBe(0);
+    expect(stability.parameters.map(({ key, min, max, mean }) => ({ key, min, max, mean }))).toEqual([
+      { key: 'fastPeriod', min: 5, max: 25, mean: 15 },
+      { key: 'multiplier', min: 1, max: 3, mean: 2 }
+    ]);
+  });
+
+  it('skips windows without a value for a parameter', () => {
+    const stability = parameterStability([{ fastPeriod: 10 }, {}], [ranges[0]]);
+
+    expect(stability.parameters[0].values).toEqual([10]);
+    expect(stability.score).toBe(1);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * OHLC bar aggregation aligned to exchange session boundaries. Intraday
+ * buckets start at the session open (a 1h bar covers 09:15-10:15 on NSE),
+ * daily buckets are the local trading date and weekly buckets start on
+ * Monday. Daily and weekly bars are stamped at UTC midnight of their local
+ * date, the same convention as imported daily history.
+ */
+
+const { INTERVAL_MS } = require('./ohlcvValidation');
+const { SESSIONS } = require('./tradingCalendar');
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const TIMEFRAMES = ['1m', '5m', '15m', '30m', '1h', '1d', '1w'];
+
+const INTRADAY_TIMEFRAMES = ['1m', '5m', '15m', '30m', '1h'];
+
+// NSE cash market: 09:15-15:30 IST
+const NSE_SESSION = SESSIONS.NSE;
+
+const isIntraday = (timeframe) => INTRADAY_TIMEFRAMES.includes(timeframe);
+
+// Local date (days since epoch) and minute of day of a UTC time
+const localTime = (date, session) => {
+  const local = new Date(date).getTime() + session.utcOffsetMinutes * MINUTE;
+  const day = Math.floor(local / DAY);
+  return { day, minute: Math.floor((local - day * DAY) / MINUTE) };
+};
+
+/**
+ * Whether a time falls inside the trading session
+ * @param {Date} date - Time to check
+ * @param {Object} session - Session hours
+ * @returns {boolean} True between the open (inclusive) and close (exclusive)
+ */
+const isInSession = (date, session = NSE_SESSION) => {
+  const { minute } = localTime(date, session);
+  return minute >= session.openMinute && minute < session.closeMinute;
+};
+
+/**
+ * Start of the bar a time belongs to
+ * @param {Date} date - Time of a tick or smaller bar
+ * @param {string} timeframe - Target timeframe
+ * @param {Object} session - Session hours
+ * @returns {Date|null} Bucket start, or null for intraday times outside the session
+ */
+const bucketStart = (date, timeframe, session = NSE_SESSION) => {
+  const { day, minute } = localTime(date, session);
+
+  if (timeframe === '1d') {
+    return new Date(day * DAY);
+  }
+
+  if (timeframe === '1w') {
+    // Day 0 (1970-01-01) was a Thursday
+    const daysSinceMonday = (day + 3) % 7;
+    return new Date((day - daysSinceMonday) * DAY);
+  }
+
+  if (minute < session.openMinute || minute >= session.closeMinute) {
+    return null;
+  }
+
+  const size = INTERVAL_MS[timeframe] / MINUTE;
+  const bucketMinute = session.openMinute + Math.floor((minute - session.openMinute) / size) * size;
+  return new Date(day * DAY + (bucketMinute - session.utcOffsetMinutes) * MINUTE);
+};
+
+/**
+ * Fold a price update or smaller bar into a bar
+ * @param {Object|null} bar - Bar being built, or null to start one
+ * @param {Date} date - Bucket start
+ * @param {Object} update - { open, high, low, close, volume } of the update
+ * @returns {Object} The updated bar
+ */
+const mergeBar = (bar, date, update) => {
+  if (!bar) {
+    return {
+      date,
+      open: update.open,
+      high: update.high,
+      low: update.low,
+      close: update.close,
+      volume: update.volume || 0
+    };
+  }
+
+  bar.high = Math.max(bar.high, update.high);
+  bar.low = Math.min(bar.low, update.low);
+  bar.close = update.close;
+  bar.volume += update.volume || 0;
+  return bar;
+};
+
+/**
+ * Roll bars up into a larger timeframe
+ * @param {Object[]} bars - Bars in date order ({ date, open, high, low, close, volume })
+ * @param {string} timeframe - Target timeframe
+ * @param {Object} options - { sourceInterval, session }
+ * @returns {Object[]} Aggregated bars in date order
+ */
+const aggregateBars = (bars, timeframe, { sourceInterval = '1m', session = NSE_SESSION } = {}) => {
+  const result = [];
+  let current = null;
+
+  bars.forEach(bar => {
+    // Intraday source bars outside the session (pre-open, after-hours) are not part of any bar
+    if (isIntraday(sourceInterval) && !isInSession(bar.date, session)) {
+      return;
+    }
+
+    const start = bucketStart(bar.date, timeframe, session);
+    if (!start) return;
+
+    if (current && current.date.getTime() !== start.getTime()) {
+      result.push(current);
+      current = null;
+    }
+    current = mergeBar(current, start, bar);
+  });
+
+  if (current) result.push(current);
+  return result;
+};
+
+/**
+ * Finer intervals a timeframe can be built from, coarsest first
+ * @param {string} timeframe - Target timeframe
+ * @returns {string[]} Source intervals that divide the timeframe evenly
+ */
+const sourceIntervals = (timeframe) => {
+  const size = INTERVAL_MS[timeframe];
+  return TIMEFRAMES
+    .filter(interval => INTERVAL_MS[interval] < size && size % INTERVAL_MS[interval] === 0)
+    .reverse();
+};
+
+module.exports = {
+  TIMEFRAMES,
+  INTRADAY_TIMEFRAMES,
+  NSE_SESSION,
+  isIntraday,
+  isInSession,
+  bucketStart,
+  mergeBar,
+  aggregateBars,
+  sourceIntervals
+};
@@ -0,0 +1,149 @@
+/**
+ * Benchmark series for backtests and portfolios: an equal-weighted index
+ * proxy built from local daily bars, or the closes of a single symbol.
+ */
+
+const { round, calculateBenchmarkMetrics } = require('./performanceMetrics');
+
+const BENCHMARK_TYPES = ['INDEX', 'SYMBOL'];
+
+const INDEX_BASE = 100;
+
+/**
+ * Validate a benchmark selection
+ * @param {Object} benchmark - { type, symbol }
+ * @returns {Object|null} Normalized { type, symbol } or null when no benchmark is wanted
+ */
+const normalizeBenchmark = (benchmark) => {
+  if (!benchmark || !benchmark.type || benchmark.type === 'NONE') {
+    return null;
+  }
+
+  if (!BENCHMARK_TYPES.includes(benchmark.type)) {
+    throw new Error(`Unknown benchmark type "${benchmark.type}"`);
+  }
+
+  if (benchmark.type === 'SYMBOL') {
+    const symbol = String(benchmark.symbol || '').trim().toUpperCase();
+    if (!symbol) {
+      throw new Error('A symbol benchmark needs a symbol');
+    }
+    return { type: 'SYMBOL', symbol };
+  }
+
+  return { type: 'INDEX' };
+};
+
+/**
+ * Display name of a benchmark
+ * @param {Object} benchmark - Normalized benchmark
+ * @returns {string} Label
+ */
+const benchmarkLabel = (benchmark) => {
+  return benchmark.type === 'SYMBOL' ? benchmark.symbol : 'Equal-weight index';
+};
+
+/**
+ * Equal-weighted, daily rebalanced index of several symbols. Each date's
+ * index return is the average close-to-close return of the symbols that
+ * traded on that date and the one before it.
+ * @param {Object} barsBySymbol - symbol -> bars in date order
+ * @returns {Array<{date: Date, value: number}>} Index levels starting at 100
+ */
+const buildIndexSeries = (barsBySymbol) => {
+  const returnsByTime = new Map();
+
+  Object.values(barsBySymbol).forEach(bars => {
+    bars.forEach((bar, i) => {
+      const time = new Date(bar.date).getTime();
+      if (!returnsByTime.has(time)) returnsByTime.set(time, []);
+      if (i > 0 && bars[i - 1].close > 0) {
+        returnsByTime.get(time).push(bar.close / bars[i - 1].close - 1);
+      }
+    });
+  });
+
+  let value = INDEX_BASE;
+  return [...returnsByTime.keys()].sort((a, b) => a - b).map(time => {
+    const returns = returnsByTime.get(time);
+    if (returns.length > 0) {
+      value *= 1 + returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    }
+    return { date: new Date(time), value };
+  });
+};
+
+/**
+ * Closing prices of one symbol as a benchmark series
+ * @param {Array} bars - Bars in date order
+ * @returns {Array<{date: Date, value: number}>} Close per bar
+ */
+const symbolSeries = (bars) => {
+  return bars
+    .filter(bar => bar.close > 0)
+    .map(bar => ({ date: new Date(bar.date), value: bar.close }));
+};
+
+/**
+ * Benchmark level at each date, carrying the last known value forward over
+ * dates the benchmark did not trade
+ * @param {Array<{date: Date, value: number}>} series - Benchmark series in date order
+ * @param {Date[]} dates - Dates to sample, in order
+ * @returns {Array<number|null>} Level per date (null before the series starts)
+ */
+const alignSeries = (series, dates) => {
+  let index = -1;
+
+  return dates.map(date => {
+    const time = new Date(date).getTime();
+    while (index + 1 < series.length && new Date(series[index + 1].date).getTime() <= time) {
+      index++;
+    }
+    return index >= 0 ? series[index].value : null;
+  });
+};
+
+/**
+ * Add benchmark-relative risk metrics and a benchmark equity overlay to a
+ * computed result. The overlay is the benchmark rescaled to the result's
+ * starting equity.
+ * @param {Object} result - Output of calculatePerformance
+ * @param {Array<{date: Date, value: number}>} series - Benchmark series
+ * @param {Object} benchmark - Normalized benchmark
+ * @returns {Object} The same result, with riskMetrics, equityCurve and benchmark updated
+ */
+const attachBenchmark = (result, series, benchmark) => {
+  const curve = result.equityCurve;
+  const values = alignSeries(series, curve.map(point => point.date));
+  const { benchmarkReturnPercent, ...metrics } = calculateBenchmarkMetrics(curve, values);
+
+  const baseIndex = values.findIndex(value => value > 0);
+  if (baseIndex >= 0) {
+    const scale = curve[baseIndex].equity / values[baseIndex];
+    curve.forEach((point, i) => {
+      if (values[i] > 0) {
+        point.benchmark = round(values[i] * scale);
+      }
+    });
+  }
+
+  result.riskMetrics = { ...result.riskMetrics, ...metrics };
+  result.benchmark = {
+    type: benchmark.type,
+    symbol: benchmark.symbol,
+    label: benchmarkLabel(benchmark),
+    totalReturnPercent: benchmarkReturnPercent
+  };
+
+  return result;
+};
+
+module.exports = {
+  BENCHMARK_TYPES,
+  normalizeBenchmark,
+  benchmarkLabel,
+  buildIndexSeries,
+  symbolSeries,
+  alignSeries,
+  attachBenchmark
+};
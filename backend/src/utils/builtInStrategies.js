@@ -0,0 +1,190 @@
+/**
+ * Signal logic for the built-in strategy templates.
+ *
+ * Each entry exposes `create(params)` which returns a fresh handler with an
+ * `onBar(bar, ctx)` method. Handlers keep their own rolling state, so a new
+ * handler must be created for every backtest run. The logic mirrors the
+ * template code in seedStrategyTemplates and uses the same indicator library,
+ * so running a template natively or in the sandbox gives the same signals.
+ * Signals carry the indicator values and the condition behind them for the
+ * signal journal.
+ */
+
+const { SMA, RSI, MACD, BollingerBands } = require('./indicators');
+
+const condition = (description, left, right) => ({ description, passed: true, left, right });
+
+const builtInStrategies = {
+  maCrossover: {
+    templateName: 'Moving Average Crossover',
+    parameterKeys: [['fastPeriod', 'slowPeriod'], ['shortPeriod', 'longPeriod']],
+    create(params) {
+      const fastPeriod = params.fastPeriod || params.shortPeriod || 10;
+      const slowPeriod = params.slowPeriod || params.longPeriod || 20;
+      const fast = new SMA(fastPeriod);
+      const slow = new SMA(slowPeriod);
+      let previous = null;
+
+      return {
+        onBar(bar, ctx) {
+          const current = { fast: fast.update(bar.close), slow: slow.update(bar.close) };
+          if (current.fast === null || current.slow === null) return;
+
+          const fastName = `SMA(${fastPeriod})`;
+          const slowName = `SMA(${slowPeriod})`;
+          const indicators = { [fastName]: current.fast, [slowName]: current.slow };
+
+          if (previous) {
+            if (current.fast > current.slow && previous.fast <= previous.slow) {
+              ctx.buy(undefined, 'Golden Cross', {
+                indicators,
+                conditions: [condition(`${fastName} crosses above ${slowName}`, current.fast, current.slow)]
+              });
+            } else if (current.fast < current.slow && previous.fast >= previous.slow) {
+              ctx.close('Death Cross', {
+                indicators,
+                conditions: [condition(`${fastName} crosses below ${slowName}`, current.fast, current.slow)]
+              });
+            }
+          }
+          previous = current;
+        }
+      };
+    }
+  },
+
+  rsiMeanReversion: {
+    templateName: 'RSI Mean Reversion',
+    parameterKeys: [['rsiPeriod', 'oversoldLevel', 'overboughtLevel']],
+    create(params) {
+      const period = params.rsiPeriod || 14;
+      const rsi = new RSI(period);
+      const oversold = Number(params.oversoldLevel || 30);
+      const overbought = Number(params.overboughtLevel || 70);
+
+      return {
+        onBar(bar, ctx) {
+          const value = rsi.update(bar.close);
+          if (value === null) return;
+
+          const name = `RSI(${period})`;
+          if (value < oversold && ctx.position.quantity === 0) {
+            ctx.buy(undefined, 'RSI Oversold', {
+              indicators: { [name]: value },
+              conditions: [condition(`${name} < ${oversold}`, value, oversold)]
+            });
+          } else if (value > overbought && ctx.position.quantity > 0) {
+            ctx.close('RSI Overbought', {
+              indicators: { [name]: value },
+              conditions: [condition(`${name} > ${overbought}`, value, overbought)]
+            });
+          }
+        }
+      };
+    }
+  },
+
+  bollingerBreakout: {
+    templateName: 'Bollinger Bands Breakout',
+    parameterKeys: [['bbPeriod', 'bbStdDev']],
+    create(params) {
+      const period = params.bbPeriod || 20;
+      const stdDev = params.bbStdDev || 2;
+      const bands = new BollingerBands(period, stdDev);
+      const volumeAverage = new SMA(20);
+      const volumeThreshold = Number(params.volumeThreshold || 1.5);
+
+      return {
+        onBar(bar, ctx) {
+          const band = bands.update(bar.close);
+          const avgVolume = volumeAverage.update(bar.volume || 0);
+          if (!band || avgVolume === null) return;
+
+          const name = `BB(${period}, ${stdDev})`;
+          const indicators = { [name]: band, 'Volume SMA(20)': avgVolume };
+          const volumeConfirm = bar.volume > avgVolume * volumeThreshold;
+          if (bar.close > band.upper && volumeConfirm && ctx.position.quantity === 0) {
+            ctx.buy(undefined, 'BB Upper Breakout', {
+              indicators,
+              conditions: [
+                condition(`CLOSE > ${name}.upper`, bar.close, band.upper),
+                condition(`VOLUME > ${volumeThreshold} x Volume SMA(20)`, bar.volume, avgVolume * volumeThreshold)
+              ]
+            });
+          } else if (bar.close < band.lower && ctx.position.quantity > 0) {
+            ctx.close('BB Lower Breakdown', {
+              indicators,
+              conditions: [condition(`CLOSE < ${name}.lower`, bar.close, band.lower)]
+            });
+          }
+        }
+      };
+    }
+  },
+
+  macdMomentum: {
+    templateName: 'MACD Momentum',
+    parameterKeys: [['fastEMA', 'slowEMA', 'signalEMA']],
+    create(params) {
+      const periods = [
+        params.fastEMA || params.fastPeriod || 12,
+        params.slowEMA || params.slowPeriod || 26,
+        params.signalEMA || params.signalPeriod || 9
+      ];
+      const macd = new MACD(...periods);
+      const name = `MACD(${periods.join(', ')})`;
+      let previous = null;
+
+      return {
+        onBar(bar, ctx) {
+          const current = macd.update(bar.close);
+          if (current === null) return;
+
+          if (previous) {
+            if (current.macd > current.signal && previous.macd <= previous.signal) {
+              ctx.buy(undefined, 'MACD Bullish Crossover', {
+                indicators: { [name]: current },
+                conditions: [condition(`${name} crosses above ${name}.signal`, current.macd, current.signal)]
+              });
+            } else if (current.macd < current.signal && previous.macd >= previous.signal) {
+              ctx.close('MACD Bearish Crossover', {
+                indicators: { [name]: current },
+                conditions: [condition(`${name} crosses below ${name}.signal`, current.macd, current.signal)]
+              });
+            }
+          }
+          previous = current;
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Find the built-in strategy that implements a stored strategy, by its
+ * template name, then its own name, then the parameter keys it carries.
+ * @param {Object} strategy - Strategy document (template optionally populated)
+ * @returns {Object|null} Built-in strategy definition
+ */
+const resolveBuiltInStrategy = (strategy) => {
+  const definitions = Object.values(builtInStrategies);
+  const templateName = strategy.template && strategy.template.name;
+
+  if (templateName) {
+    const byTemplate = definitions.find(d => d.templateName === templateName);
+    if (byTemplate) return byTemplate;
+  }
+
+  const byName = definitions.find(d => d.templateName === strategy.name);
+  if (byName) return byName;
+
+  const keys = Object.keys(strategy.parameters || {});
+  return definitions.find(d =>
+    d.parameterKeys.some(required => required.every(key => keys.includes(key)))
+  ) || null;
+};
+
+module.exports = {
+  builtInStrategies,
+  resolveBuiltInStrategy
+};
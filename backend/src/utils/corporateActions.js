@@ -0,0 +1,129 @@
+/**
+ * Corporate action adjustments. All functions are pure: actions are passed
+ * in as { type ('SPLIT' | 'BONUS' | 'DIVIDEND'), exDate, existingShares,
+ * newShares, dividendPerShare }.
+ *
+ * Splits and bonuses multiply the shares held by the share factor and
+ * divide their cost by it, so the value of a holding is unchanged. Price
+ * history is back-adjusted: bars before an ex-date are multiplied by the
+ * price factor of the action (1 / share factor, or (close - dividend) /
+ * close for dividends) and their volume divided by the share factor, so a
+ * series reads as if the shares had always traded in their current form.
+ */
+
+/**
+ * Shares held after the action per share held before
+ * @param {Object} action - Corporate action
+ * @returns {number} 1 for dividends
+ */
+const shareFactor = (action) => {
+  switch (action.type) {
+    case 'SPLIT':
+      return action.newShares / action.existingShares;
+    case 'BONUS':
+      return (action.existingShares + action.newShares) / action.existingShares;
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Factor that prices before the ex-date are multiplied by
+ * @param {Object} action - Corporate action
+ * @param {number} previousClose - Close of the last session before the ex-date
+ * @returns {number} Price factor
+ */
+const priceFactor = (action, previousClose) => {
+  if (action.type === 'DIVIDEND') {
+    return previousClose > action.dividendPerShare
+      ? (previousClose - action.dividendPerShare) / previousClose
+      : 1;
+  }
+  return 1 / shareFactor(action);
+};
+
+/**
+ * A position after a split or bonus. Fractional entitlements are not
+ * issued; they are paid out in cash at the adjusted price.
+ * @param {Object} position - { quantity, averagePrice, currentPrice }
+ * @param {Object} action - SPLIT or BONUS
+ * @returns {Object} { quantity, averagePrice, currentPrice, cashInLieu }
+ */
+const adjustPosition = (position, action) => {
+  const factor = shareFactor(action);
+  const entitled = position.quantity * factor;
+  const quantity = Math.floor(entitled + 1e-9);
+  const currentPrice = position.currentPrice ? position.currentPrice / factor : position.currentPrice;
+
+  return {
+    quantity,
+    averagePrice: position.averagePrice / factor,
+    currentPrice,
+    cashInLieu: (entitled - quantity) * (currentPrice || position.averagePrice / factor)
+  };
+};
+
+/**
+ * Dividend due on a position: longs receive it, shorts pay it to the lender
+ * @param {Object} position - { side ('long' | 'short'), quantity }
+ * @param {Object} action - DIVIDEND
+ * @returns {number} Signed cash amount
+ */
+const dividendAmount = (position, action) => {
+  const amount = position.quantity * action.dividendPerShare;
+  return position.side === 'short' ? -amount : amount;
+};
+
+/**
+ * Back-adjust a price series for corporate actions
+ * @param {Object[]} bars - Bars { date, open, high, low, close, volume } in date order
+ * @param {Object[]} actions - Corporate actions of the symbol
+ * @returns {Object[]} New bars with adjusted prices and their adjustmentFactor
+ */
+const adjustBars = (bars, actions) => {
+  if (bars.length === 0 || actions.length === 0) {
+    return bars;
+  }
+
+  // Latest action first: each one scales everything before its ex-date
+  const pending = [...actions]
+    .filter(action => new Date(action.exDate) > bars[0].date)
+    .sort((a, b) => new Date(b.exDate) - new Date(a.exDate));
+
+  const adjusted = new Array(bars.length);
+  let factor = 1;
+  let volumeFactor = 1;
+  let next = 0;
+
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i];
+
+    while (next < pending.length && bar.date < new Date(pending[next].exDate)) {
+      const action = pending[next++];
+      factor *= priceFactor(action, bar.close);
+      volumeFactor *= shareFactor(action);
+    }
+
+    adjusted[i] = factor === 1 && volumeFactor === 1
+      ? { ...bar }
+      : {
+        ...bar,
+        open: bar.open * factor,
+        high: bar.high * factor,
+        low: bar.low * factor,
+        close: bar.close * factor,
+        volume: Math.round(bar.volume * volumeFactor),
+        adjustmentFactor: factor
+      };
+  }
+
+  return adjusted;
+};
+
+module.exports = {
+  shareFactor,
+  priceFactor,
+  adjustPosition,
+  dividendAmount,
+  adjustBars
+};
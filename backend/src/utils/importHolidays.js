@@ -0,0 +1,142 @@
+const fs = require('fs');
+const mongoose = require('mongoose');
+require('dotenv').config();
+
+const tradingCalendarService = require('../services/tradingCalendarService');
+const { readCsvRecords } = require('./ohlcvParser');
+
+const USAGE = `Usage: npm run import:holidays -- --file <path> [options]
+
+Imports exchange holidays from a CSV or JSON file. Columns (CSV) or keys
+(JSON objects) are matched case-insensitively:
+  date          Holiday date: YYYY-MM-DD, DD-MMM-YYYY, DD-MM-YYYY or DD/MM/YYYY (required)
+  description   Holiday name
+  exchange      NSE or BSE (default: --exchange)
+  open, close   HH:MM local times of a special session such as Muhurat trading
+
+Options:
+  --file <path>         CSV or JSON file to import (required)
+  --exchange <exchange> Exchange of rows without one: NSE (default) or BSE
+  --list [year]         Print the stored holidays and exit`;
+
+// Accepted header names per field
+const FIELD_ALIASES = {
+  date: ['date', 'holiday date', 'day'],
+  description: ['description', 'holiday', 'name', 'reason'],
+  exchange: ['exchange', 'segment'],
+  open: ['open', 'session open', 'start'],
+  close: ['close', 'session close', 'end']
+};
+
+/**
+ * Parse command line arguments
+ * @param {string[]} argv - Arguments after the script name
+ * @returns {Object} Import options
+ */
+const parseArgs = (argv) => {
+  const options = { exchange: 'NSE' };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--file': options.file = next(); break;
+      case '--exchange': options.exchange = next().toUpperCase(); break;
+      case '--list': {
+        options.list = true;
+        if (/^\d{4}$/.test(argv[i + 1] || '')) options.year = Number(argv[++i]);
+        break;
+      }
+      case '--help': options.help = true; break;
+      default: throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  return options;
+};
+
+/**
+ * Read holiday records from a file
+ * @param {string} file - Path of a CSV or JSON file
+ * @returns {Object[]} Records keyed by field name
+ */
+const readHolidayFile = (file) => {
+  const contents = fs.readFileSync(file, 'utf8');
+  const records = file.toLowerCase().endsWith('.json')
+    ? JSON.parse(contents)
+    : readCsvRecords(contents).records;
+
+  if (!Array.isArray(records)) {
+    throw new Error('A JSON holiday file must hold an array of holidays');
+  }
+
+  return records.map(record => {
+    const byHeader = Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), typeof value === 'string' ? value.trim() : value])
+    );
+    return Object.fromEntries(Object.entries(FIELD_ALIASES).map(([field, aliases]) => [
+      field,
+      byHeader[aliases.find(alias => byHeader[alias] !== undefined && byHeader[alias] !== '')]
+    ]));
+  });
+};
+
+/**
+ * Import a holiday file, or list the stored holidays
+ * @param {Object} options - Output of parseArgs
+ */
+const importHolidays = async (options) => {
+  await tradingCalendarService.load();
+
+  if (options.list) {
+    const holidays = tradingCalendarService.getHolidays(options.exchange, options.year);
+    console.log(`📅 ${holidays.length} ${options.exchange} holiday(s)${options.year ? ` in ${options.year}` : ''}:`);
+    holidays.forEach(holiday => {
+      const session = holiday.specialSession ? ` (special session ${holiday.specialSession.open}-${holiday.specialSession.close})` : '';
+      console.log(`   ${holiday.date} ${holiday.description}${session}`);
+    });
+    return holidays;
+  }
+
+  const result = await tradingCalendarService.importHolidays(readHolidayFile(options.file), options.exchange);
+  console.log(`✅ Imported ${result.imported} holiday(s)`);
+  result.errors.forEach(error => console.log(`   ❌ ${error}`));
+
+  return result;
+};
+
+module.exports = { importHolidays, parseArgs, readHolidayFile };
+
+// Run directly if called from command line
+if (require.main === module) {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error.message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  if (options.help || (!options.file && !options.list)) {
+    console.log(USAGE);
+    process.exit(options.help ? 0 : 1);
+  }
+
+  mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/sharetrading')
+    .then(() => {
+      console.log('📊 Connected to MongoDB');
+      return importHolidays(options);
+    })
+    .then(() => {
+      console.log('🎉 Holiday import completed!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Import failed:', error.message);
+      process.exit(1);
+    });
+}
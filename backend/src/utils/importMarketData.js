@@ -0,0 +1,132 @@
+const fs = require('fs');
+const path = require('path');
+const mongoose = require('mongoose');
+require('dotenv').config();
+
+const marketDataImportService = require('../services/marketDataImportService');
+
+const USAGE = `Usage: npm run import:market-data -- --file <path> [options]
+
+Options:
+  --file <path>         CSV or Parquet file to import (required)
+  --symbol <symbol>     Symbol of every row, for files without a symbol column
+  --interval <interval> Bar interval: 1m, 5m, 15m, 30m, 1h, 1d (default) or 1w
+  --format <format>     csv or parquet (default: from the file extension)
+  --map <field=column>  Column for a field, e.g. --map date=Timestamp (repeatable)
+  --delimiter <char>    CSV delimiter (default: detected from the header)
+  --date-format <fmt>   Moment format of date cells, e.g. DD-MM-YYYY
+  --no-adjust           Store prices without corporate-action adjustment
+  --coverage            Print imported coverage for all symbols and exit`;
+
+/**
+ * Parse command line arguments
+ * @param {string[]} argv - Arguments after the script name
+ * @returns {Object} Import options
+ */
+const parseArgs = (argv) => {
+  const options = { mapping: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--file': options.file = next(); break;
+      case '--symbol': options.symbol = next(); break;
+      case '--interval': options.interval = next(); break;
+      case '--format': options.format = next(); break;
+      case '--delimiter': {
+        const value = next();
+        options.delimiter = value === '\\t' ? '\t' : value;
+        break;
+      }
+      case '--date-format': options.dateFormat = next(); break;
+      case '--no-adjust': options.adjust = false; break;
+      case '--coverage': options.coverage = true; break;
+      case '--map': {
+        const [field, column] = next().split('=');
+        if (!field || !column) throw new Error('--map expects field=column');
+        options.mapping[field.trim()] = column.trim();
+        break;
+      }
+      case '--help': options.help = true; break;
+      default: throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  return options;
+};
+
+const formatDate = (date) => new Date(date).toISOString().slice(0, 10);
+
+const printCoverage = (coverage) => {
+  console.log(`   ${coverage.symbol} ${coverage.interval}: ${coverage.bars} bars, ${formatDate(coverage.firstDate)} → ${formatDate(coverage.lastDate)}`);
+  coverage.ranges.forEach(range => {
+    console.log(`      ${formatDate(range.start)} → ${formatDate(range.end)} (${range.bars} bars)`);
+  });
+};
+
+/**
+ * Import a file and print a report per symbol
+ * @param {Object} options - Output of parseArgs
+ */
+const importMarketData = async (options) => {
+  if (options.coverage) {
+    const coverage = await marketDataImportService.getCoverage();
+    console.log(`📈 Imported history for ${coverage.length} symbol/interval pair(s):`);
+    coverage.forEach(printCoverage);
+    return coverage;
+  }
+
+  const buffer = fs.readFileSync(options.file);
+  const reports = await marketDataImportService.importFile(buffer, {
+    ...options,
+    filename: path.basename(options.file)
+  });
+
+  reports.forEach(report => {
+    console.log(`✅ ${report.symbol}: ${report.imported}/${report.received} bars imported ` +
+      `(${report.inserted} new, ${report.updated} updated, ${report.rejected} rejected, ${report.adjusted} adjusted)`);
+    report.issues.forEach(issue => {
+      console.log(`   ${issue.severity === 'ERROR' ? '❌' : '⚠️ '} ${issue.type}${issue.line ? ` line ${issue.line}` : ''}: ${issue.message}`);
+    });
+    if (report.coverage) printCoverage(report.coverage);
+  });
+
+  return reports;
+};
+
+module.exports = { importMarketData, parseArgs };
+
+// Run directly if called from command line
+if (require.main === module) {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error.message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  if (options.help || (!options.file && !options.coverage)) {
+    console.log(USAGE);
+    process.exit(options.help ? 0 : 1);
+  }
+
+  mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/sharetrading')
+    .then(() => {
+      console.log('📊 Connected to MongoDB');
+      return importMarketData(options);
+    })
+    .then(() => {
+      console.log('🎉 Market data import completed!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Import failed:', error.message);
+      process.exit(1);
+    });
+}
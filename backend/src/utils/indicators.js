@@ -0,0 +1,535 @@
+/**
+ * Technical indicator library.
+ *
+ * Every indicator is a class with an O(1) `update(input)` that returns the
+ * latest value (null while warming up). The batch helpers at the bottom run
+ * the same classes over a whole series, so streaming and batch results are
+ * identical. Price inputs are numbers; OHLCV inputs are bars with
+ * { high, low, close, volume } (and `date` for session-anchored VWAP).
+ *
+ * This file must stay free of `require` calls: the strategy runtime loads it
+ * into the sandbox as plain source. The frontend keeps a TypeScript port in
+ * src/lib/indicators.ts that must produce the same numbers.
+ */
+
+const toPeriod = (name, period) => {
+  const value = Number(period);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} period must be a positive integer, got ${period}`);
+  }
+  return value;
+};
+
+/**
+ * Fixed-size FIFO window backed by a ring buffer
+ */
+class RollingWindow {
+  constructor(size) {
+    this.size = size;
+    this.values = new Array(size);
+    this.start = 0;
+    this.length = 0;
+  }
+
+  /**
+   * Append a value; returns the value pushed out, or undefined
+   */
+  push(value) {
+    if (this.length < this.size) {
+      this.values[(this.start + this.length) % this.size] = value;
+      this.length += 1;
+      return undefined;
+    }
+    const removed = this.values[this.start];
+    this.values[this.start] = value;
+    this.start = (this.start + 1) % this.size;
+    return removed;
+  }
+
+  get full() {
+    return this.length === this.size;
+  }
+}
+
+/**
+ * Rolling maximum or minimum using a monotonic deque (amortized O(1))
+ */
+class RollingExtreme {
+  constructor(period, compare) {
+    this.period = period;
+    this.compare = compare;
+    this.deque = [];
+    this.head = 0;
+    this.index = 0;
+  }
+
+  update(value) {
+    while (this.deque.length > this.head && !this.compare(this.deque[this.deque.length - 1].value, value)) {
+      this.deque.pop();
+    }
+    this.deque.push({ index: this.index, value });
+    if (this.deque[this.head].index <= this.index - this.period) {
+      this.head += 1;
+    }
+    // Compact the consumed front occasionally so memory stays bounded
+    if (this.head > 1024 && this.head * 2 > this.deque.length) {
+      this.deque = this.deque.slice(this.head);
+      this.head = 0;
+    }
+    this.index += 1;
+    return this.index >= this.period ? this.deque[this.head].value : null;
+  }
+}
+
+class Highest {
+  constructor(period) {
+    this.extreme = new RollingExtreme(toPeriod('Highest', period), (kept, next) => kept > next);
+    this.value = null;
+  }
+
+  update(value) {
+    this.value = this.extreme.update(value);
+    return this.value;
+  }
+}
+
+class Lowest {
+  constructor(period) {
+    this.extreme = new RollingExtreme(toPeriod('Lowest', period), (kept, next) => kept < next);
+    this.value = null;
+  }
+
+  update(value) {
+    this.value = this.extreme.update(value);
+    return this.value;
+  }
+}
+
+/**
+ * Simple moving average
+ */
+class SMA {
+  constructor(period) {
+    this.period = toPeriod('SMA', period);
+    this.window = new RollingWindow(this.period);
+    this.sum = 0;
+    this.value = null;
+  }
+
+  update(value) {
+    const removed = this.window.push(value);
+    this.sum += value - (removed === undefined ? 0 : removed);
+    this.value = this.window.full ? this.sum / this.period : null;
+    return this.value;
+  }
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+class EMA {
+  constructor(period) {
+    this.period = toPeriod('EMA', period);
+    this.k = 2 / (this.period + 1);
+    this.count = 0;
+    this.seedSum = 0;
+    this.value = null;
+  }
+
+  update(value) {
+    if (this.value === null) {
+      this.seedSum += value;
+      this.count += 1;
+      if (this.count === this.period) {
+        this.value = this.seedSum / this.period;
+      }
+      return this.value;
+    }
+    this.value = value * this.k + this.value * (1 - this.k);
+    return this.value;
+  }
+}
+
+/**
+ * Linearly weighted moving average (newest value has weight `period`)
+ */
+class WMA {
+  constructor(period) {
+    this.period = toPeriod('WMA', period);
+    this.window = new RollingWindow(this.period);
+    this.sum = 0;
+    this.weightedSum = 0;
+    this.divisor = (this.period * (this.period + 1)) / 2;
+    this.value = null;
+  }
+
+  update(value) {
+    if (this.window.full) {
+      // Every value loses one weight step; the newest enters at full weight
+      this.weightedSum += this.period * value - this.sum;
+      this.sum += value - this.window.push(value);
+    } else {
+      this.window.push(value);
+      this.weightedSum += this.window.length * value;
+      this.sum += value;
+    }
+    this.value = this.window.full ? this.weightedSum / this.divisor : null;
+    return this.value;
+  }
+}
+
+/**
+ * Relative strength index with Wilder smoothing
+ */
+class RSI {
+  constructor(period = 14) {
+    this.period = toPeriod('RSI', period);
+    this.previous = null;
+    this.count = 0;
+    this.avgGain = 0;
+    this.avgLoss = 0;
+    this.value = null;
+  }
+
+  update(value) {
+    if (this.previous === null) {
+      this.previous = value;
+      return this.value;
+    }
+
+    const change = value - this.previous;
+    this.previous = value;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    this.count += 1;
+
+    if (this.count <= this.period) {
+      this.avgGain += gain / this.period;
+      this.avgLoss += loss / this.period;
+      if (this.count < this.period) return this.value;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    this.value = this.avgLoss === 0 ? 100 : 100 - 100 / (1 + this.avgGain / this.avgLoss);
+    return this.value;
+  }
+}
+
+/**
+ * Moving average convergence/divergence: { macd, signal, histogram }
+ */
+class MACD {
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signal = new EMA(signalPeriod);
+    this.value = null;
+  }
+
+  update(value) {
+    const fast = this.fast.update(value);
+    const slow = this.slow.update(value);
+    if (fast === null || slow === null) return this.value;
+
+    const macd = fast - slow;
+    const signal = this.signal.update(macd);
+    if (signal === null) return this.value;
+
+    this.value = { macd, signal, histogram: macd - signal };
+    return this.value;
+  }
+}
+
+/**
+ * Bollinger Bands over a population standard deviation: { upper, middle, lower }
+ */
+class BollingerBands {
+  constructor(period = 20, multiplier = 2) {
+    this.period = toPeriod('BollingerBands', period);
+    this.multiplier = Number(multiplier);
+    this.window = new RollingWindow(this.period);
+    this.sum = 0;
+    this.sumSquares = 0;
+    this.value = null;
+  }
+
+  update(value) {
+    const removed = this.window.push(value);
+    if (removed !== undefined) {
+      this.sum -= removed;
+      this.sumSquares -= removed * removed;
+    }
+    this.sum += value;
+    this.sumSquares += value * value;
+
+    if (!this.window.full) return this.value;
+
+    const middle = this.sum / this.period;
+    const variance = Math.max(0, this.sumSquares / this.period - middle * middle);
+    const deviation = Math.sqrt(variance) * this.multiplier;
+    this.value = { upper: middle + deviation, middle, lower: middle - deviation };
+    return this.value;
+  }
+}
+
+const trueRange = (bar, previousClose) => (previousClose === null
+  ? bar.high - bar.low
+  : Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose)));
+
+/**
+ * Average true range with Wilder smoothing
+ */
+class ATR {
+  constructor(period = 14) {
+    this.period = toPeriod('ATR', period);
+    this.previousClose = null;
+    this.count = 0;
+    this.sum = 0;
+    this.value = null;
+  }
+
+  update(bar) {
+    const range = trueRange(bar, this.previousClose);
+    this.previousClose = bar.close;
+
+    if (this.value === null) {
+      this.sum += range;
+      this.count += 1;
+      if (this.count === this.period) {
+        this.value = this.sum / this.period;
+      }
+      return this.value;
+    }
+
+    this.value = (this.value * (this.period - 1) + range) / this.period;
+    return this.value;
+  }
+}
+
+/**
+ * Stochastic oscillator: { k, d } where d is null until it has warmed up
+ */
+class Stochastic {
+  constructor(kPeriod = 14, dPeriod = 3) {
+    this.highest = new Highest(kPeriod);
+    this.lowest = new Lowest(kPeriod);
+    this.signal = new SMA(dPeriod);
+    this.value = null;
+  }
+
+  update(bar) {
+    const high = this.highest.update(bar.high);
+    const low = this.lowest.update(bar.low);
+    if (high === null || low === null) return this.value;
+
+    // A flat range has no position within it; report the midpoint
+    const k = high === low ? 50 : ((bar.close - low) / (high - low)) * 100;
+    this.value = { k, d: this.signal.update(k) };
+    return this.value;
+  }
+}
+
+/**
+ * Volume-weighted average price of the typical price. With `resetDaily` the
+ * average restarts at every UTC calendar day, as for intraday sessions.
+ */
+class VWAP {
+  constructor({ resetDaily = false } = {}) {
+    this.resetDaily = resetDaily;
+    this.session = null;
+    this.priceVolume = 0;
+    this.volume = 0;
+    this.value = null;
+  }
+
+  update(bar) {
+    if (this.resetDaily && bar.date) {
+      const session = new Date(bar.date).toISOString().slice(0, 10);
+      if (session !== this.session) {
+        this.session = session;
+        this.priceVolume = 0;
+        this.volume = 0;
+      }
+    }
+
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    const volume = bar.volume || 0;
+    this.priceVolume += typical * volume;
+    this.volume += volume;
+    this.value = this.volume > 0 ? this.priceVolume / this.volume : typical;
+    return this.value;
+  }
+}
+
+/**
+ * On-balance volume, starting from zero at the first bar
+ */
+class OBV {
+  constructor() {
+    this.previousClose = null;
+    this.value = null;
+  }
+
+  update(bar) {
+    if (this.previousClose === null) {
+      this.value = 0;
+    } else if (bar.close > this.previousClose) {
+      this.value += bar.volume || 0;
+    } else if (bar.close < this.previousClose) {
+      this.value -= bar.volume || 0;
+    }
+    this.previousClose = bar.close;
+    return this.value;
+  }
+}
+
+/**
+ * Average directional index: { adx, plusDI, minusDI }
+ */
+class ADX {
+  constructor(period = 14) {
+    this.period = toPeriod('ADX', period);
+    this.previous = null;
+    this.count = 0;
+    this.smoothedRange = 0;
+    this.smoothedPlusDM = 0;
+    this.smoothedMinusDM = 0;
+    this.dxCount = 0;
+    this.dxSum = 0;
+    this.adx = null;
+    this.value = null;
+  }
+
+  update(bar) {
+    if (this.previous === null) {
+      this.previous = bar;
+      return this.value;
+    }
+
+    const upMove = bar.high - this.previous.high;
+    const downMove = this.previous.low - bar.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const range = trueRange(bar, this.previous.close);
+    this.previous = bar;
+    this.count += 1;
+
+    // Wilder running sums: plain sums for the first period, then smoothed
+    if (this.count <= this.period) {
+      this.smoothedRange += range;
+      this.smoothedPlusDM += plusDM;
+      this.smoothedMinusDM += minusDM;
+      if (this.count < this.period) return this.value;
+    } else {
+      this.smoothedRange += range - this.smoothedRange / this.period;
+      this.smoothedPlusDM += plusDM - this.smoothedPlusDM / this.period;
+      this.smoothedMinusDM += minusDM - this.smoothedMinusDM / this.period;
+    }
+
+    const plusDI = this.smoothedRange > 0 ? (this.smoothedPlusDM / this.smoothedRange) * 100 : 0;
+    const minusDI = this.smoothedRange > 0 ? (this.smoothedMinusDM / this.smoothedRange) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    const dx = diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0;
+
+    if (this.adx === null) {
+      this.dxSum += dx;
+      this.dxCount += 1;
+      if (this.dxCount < this.period) return this.value;
+      this.adx = this.dxSum / this.period;
+    } else {
+      this.adx = (this.adx * (this.period - 1) + dx) / this.period;
+    }
+
+    this.value = { adx: this.adx, plusDI, minusDI };
+    return this.value;
+  }
+}
+
+/**
+ * SuperTrend: { value, direction } where direction is 1 (up) or -1 (down)
+ */
+class SuperTrend {
+  constructor(period = 10, multiplier = 3) {
+    this.atr = new ATR(period);
+    this.multiplier = Number(multiplier);
+    this.upper = null;
+    this.lower = null;
+    this.direction = 1;
+    this.previousClose = null;
+    this.value = null;
+  }
+
+  update(bar) {
+    const atr = this.atr.update(bar);
+    const previousClose = this.previousClose;
+    this.previousClose = bar.close;
+    if (atr === null) return this.value;
+
+    const middle = (bar.high + bar.low) / 2;
+    const basicUpper = middle + this.multiplier * atr;
+    const basicLower = middle - this.multiplier * atr;
+
+    if (this.upper === null) {
+      this.upper = basicUpper;
+      this.lower = basicLower;
+      this.direction = bar.close >= middle ? 1 : -1;
+    } else {
+      // Bands only tighten while price stays on their side
+      this.upper = basicUpper < this.upper || previousClose > this.upper ? basicUpper : this.upper;
+      this.lower = basicLower > this.lower || previousClose < this.lower ? basicLower : this.lower;
+
+      if (this.direction === 1 && bar.close < this.lower) {
+        this.direction = -1;
+      } else if (this.direction === -1 && bar.close > this.upper) {
+        this.direction = 1;
+      }
+    }
+
+    this.value = {
+      value: this.direction === 1 ? this.lower : this.upper,
+      direction: this.direction
+    };
+    return this.value;
+  }
+}
+
+/**
+ * Wrap an indicator class as a batch function over a whole series
+ */
+const batch = (Indicator) => (inputs, ...args) => {
+  const indicator = new Indicator(...args);
+  return inputs.map(input => indicator.update(input));
+};
+
+module.exports = {
+  SMA,
+  EMA,
+  WMA,
+  RSI,
+  MACD,
+  BollingerBands,
+  ATR,
+  Stochastic,
+  VWAP,
+  OBV,
+  ADX,
+  SuperTrend,
+  Highest,
+  Lowest,
+  sma: batch(SMA),
+  ema: batch(EMA),
+  wma: batch(WMA),
+  rsi: batch(RSI),
+  macd: batch(MACD),
+  bollinger: batch(BollingerBands),
+  atr: batch(ATR),
+  stochastic: batch(Stochastic),
+  vwap: batch(VWAP),
+  obv: batch(OBV),
+  adx: batch(ADX),
+  superTrend: batch(SuperTrend),
+  highest: batch(Highest),
+  lowest: batch(Lowest)
+};
@@ -0,0 +1,122 @@
+/**
+ * Margin accounting. All functions are pure: positions are passed in as
+ * { symbol, side ('long' | 'short'), quantity, price } and margin
+ * requirements as a Map of symbol -> { initialMarginPercent,
+ * maintenanceMarginPercent, borrowRatePercent, shortable }.
+ *
+ * Sales are credited to cash and purchases debited, so a short position
+ * holds its proceeds in cash and owes its market value back:
+ *   equity           = cash + long market value - short market value
+ *   initial margin   = sum of |market value| x initial margin %
+ *   available margin = equity - initial margin
+ *   buying power     = available margin / initial margin %
+ * An account whose equity falls below its maintenance margin is in a
+ * margin call.
+ */
+
+const DAYS_PER_YEAR = 365;
+
+const marketValue = (position) => position.quantity * position.price;
+
+/**
+ * Margin position of an account
+ * @param {number} cash - Cash balance, negative when borrowing
+ * @param {Object[]} positions - Open positions
+ * @param {Map} requirements - Symbol -> margin requirement
+ * @returns {Object} { equity, longValue, shortValue, grossExposure, marginUsed,
+ *   maintenanceMargin, availableMargin, leverage, marginCall }
+ */
+const accountMargin = (cash, positions, requirements) => {
+  let longValue = 0;
+  let shortValue = 0;
+  let marginUsed = 0;
+  let maintenanceMargin = 0;
+
+  positions.forEach(position => {
+    const value = marketValue(position);
+    const requirement = requirements.get(position.symbol);
+
+    if (position.side === 'short') {
+      shortValue += value;
+    } else {
+      longValue += value;
+    }
+    marginUsed += value * requirement.initialMarginPercent / 100;
+    maintenanceMargin += value * requirement.maintenanceMarginPercent / 100;
+  });
+
+  const equity = cash + longValue - shortValue;
+  const grossExposure = longValue + shortValue;
+
+  return {
+    equity,
+    longValue,
+    shortValue,
+    grossExposure,
+    marginUsed,
+    maintenanceMargin,
+    availableMargin: equity - marginUsed,
+    leverage: equity > 0 ? grossExposure / equity : 0,
+    marginCall: positions.length > 0 && equity < maintenanceMargin
+  };
+};
+
+/**
+ * Value of new positions that available margin can carry
+ * @param {number} availableMargin - Equity less initial margin used
+ * @param {Object} requirement - Margin requirement of the symbol
+ * @returns {number} Buying power, never negative
+ */
+const buyingPower = (availableMargin, requirement) =>
+  Math.max(availableMargin, 0) * 100 / requirement.initialMarginPercent;
+
+/**
+ * Fee for borrowing shares sold short
+ * @param {number} value - Market value of the short position
+ * @param {number} annualRatePercent - Borrow rate per year
+ * @param {number} days - Calendar days held
+ * @returns {number} Fee
+ */
+const borrowFee = (value, annualRatePercent, days) => value * annualRatePercent / 100 * days / DAYS_PER_YEAR;
+
+/**
+ * Orders that bring an account in a margin call back above its maintenance
+ * margin, closing the positions with the largest requirement first
+ * @param {Object} account - Result of accountMargin
+ * @param {Object[]} positions - Open positions
+ * @param {Map} requirements - Symbol -> margin requirement
+ * @returns {Object[]} Orders { symbol, side, quantity }
+ */
+const liquidationPlan = (account, positions, requirements) => {
+  const maintenance = (position) => marketValue(position) * requirements.get(position.symbol).maintenanceMarginPercent / 100;
+  const orders = [];
+  let deficit = account.maintenanceMargin - account.equity;
+
+  [...positions]
+    .sort((a, b) => maintenance(b) - maintenance(a))
+    .forEach(position => {
+      if (deficit <= 0) return;
+
+      // With no equity left every position goes
+      const perShare = maintenance(position) / position.quantity;
+      const quantity = account.equity <= 0 || perShare <= 0
+        ? position.quantity
+        : Math.min(position.quantity, Math.ceil(deficit / perShare));
+
+      orders.push({
+        symbol: position.symbol,
+        side: position.side === 'short' ? 'BUY' : 'SELL',
+        quantity
+      });
+      deficit -= quantity * perShare;
+    });
+
+  return orders;
+};
+
+module.exports = {
+  accountMargin,
+  buyingPower,
+  borrowFee,
+  liquidationPlan
+};
@@ -0,0 +1,260 @@
+/**
+ * Parsing of OHLCV history files (CSV and Parquet) into plain bar rows.
+ * Columns are matched through a field -> column mapping; fields without a
+ * mapping are auto-detected from common header names.
+ */
+
+const moment = require('moment');
+
+const FIELDS = ['date', 'open', 'high', 'low', 'close', 'volume', 'symbol', 'adjClose', 'adjustmentFactor'];
+
+const REQUIRED_FIELDS = ['date', 'open', 'high', 'low', 'close'];
+
+// Header names recognised for each field, compared case-insensitively
+const COLUMN_ALIASES = {
+  date: ['date', 'datetime', 'date_time', 'timestamp', 'ts', 'time', 'trade_date', 'tradedate'],
+  open: ['open', 'o', 'open_price'],
+  high: ['high', 'h', 'high_price'],
+  low: ['low', 'l', 'low_price'],
+  close: ['close', 'c', 'close_price', 'last', 'price'],
+  volume: ['volume', 'vol', 'v', 'qty', 'quantity'],
+  symbol: ['symbol', 'ticker', 'instrument', 'scrip'],
+  adjClose: ['adj close', 'adj_close', 'adjclose', 'adjusted close', 'adjusted_close'],
+  adjustmentFactor: ['adjustment factor', 'adjustment_factor', 'adj factor', 'adj_factor', 'factor']
+};
+
+const normalizeHeader = (header) => String(header).trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Resolve which column holds each field
+ * @param {string[]} headers - Column names of the file
+ * @param {Object} mapping - Optional explicit field -> column name mapping
+ * @returns {Object} field -> column name for every field found
+ */
+const resolveColumns = (headers, mapping = {}) => {
+  const byName = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const columns = {};
+
+  FIELDS.forEach(field => {
+    if (mapping[field]) {
+      const column = byName.get(normalizeHeader(mapping[field]));
+      if (!column) {
+        throw new Error(`Mapped column "${mapping[field]}" for ${field} is not in the file`);
+      }
+      columns[field] = column;
+      return;
+    }
+
+    const alias = COLUMN_ALIASES[field].find(name => byName.has(name));
+    if (alias) {
+      columns[field] = byName.get(alias);
+    }
+  });
+
+  const missing = REQUIRED_FIELDS.filter(field => !columns[field]);
+  if (missing.length > 0) {
+    throw new Error(`Could not find column(s) for ${missing.join(', ')}; provide a column mapping`);
+  }
+
+  return columns;
+};
+
+/**
+ * Parse a bar time
+ * @param {*} value - Date, epoch seconds/milliseconds or date string
+ * @param {string} dateFormat - Optional moment format for date strings
+ * @returns {Date|null} UTC date, or null when unparseable
+ */
+const parseDate = (value, dateFormat) => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  if (typeof value === 'bigint') value = Number(value);
+  if (typeof value === 'number' || /^\d{9,13}$/.test(String(value).trim())) {
+    const epoch = Number(value);
+    return new Date(epoch < 1e11 ? epoch * 1000 : epoch);
+  }
+
+  const parsed = dateFormat
+    ? moment.utc(String(value).trim(), dateFormat, true)
+    : moment.utc(String(value).trim(), moment.ISO_8601, true);
+
+  return parsed.isValid() ? parsed.toDate() : null;
+};
+
+/**
+ * Parse a numeric cell, allowing thousands separators
+ * @param {*} value - Cell value
+ * @returns {number|null} Number, or null when empty or not numeric
+ */
+const parseNumber = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+
+  const number = Number(String(value).trim().replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Convert records keyed by column name into bar rows
+ * @param {Object[]} records - One object per file row
+ * @param {Object} columns - Output of resolveColumns
+ * @param {Object} options - { dateFormat, firstLine }
+ * @returns {Object[]} Rows { line, date, open, high, low, close, volume, symbol, adjClose, adjustmentFactor }
+ */
+const toRows = (records, columns, { dateFormat, firstLine = 1 } = {}) => {
+  return records.map((record, i) => {
+    const cell = (field) => (columns[field] ? record[columns[field]] : undefined);
+    const symbol = cell('symbol');
+
+    return {
+      line: firstLine + i,
+      date: parseDate(cell('date'), dateFormat),
+      open: parseNumber(cell('open')),
+      high: parseNumber(cell('high')),
+      low: parseNumber(cell('low')),
+      close: parseNumber(cell('close')),
+      volume: parseNumber(cell('volume')),
+      symbol: symbol ? String(symbol).trim().toUpperCase() : undefined,
+      adjClose: parseNumber(cell('adjClose')),
+      adjustmentFactor: parseNumber(cell('adjustmentFactor'))
+    };
+  });
+};
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, newlines and doubled quotes.
+ * @param {string} text - File contents
+ * @param {string} delimiter - Cell delimiter
+ * @returns {string[][]} Non-empty rows
+ */
+const splitCsv = (text, delimiter) => {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Pick the most frequent candidate delimiter in the header line
+const detectDelimiter = (headerLine) => {
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+};
+
+/**
+ * Read a CSV file with a header line into records keyed by header
+ * @param {string|Buffer} input - File contents
+ * @param {string} delimiter - Cell delimiter (default: detected from the header)
+ * @returns {Object} { headers, records }
+ */
+const readCsvRecords = (input, delimiter) => {
+  const text = String(input).replace(/^\uFEFF/, '');
+  const sep = delimiter || detectDelimiter(text.split(/\r?\n/, 1)[0]);
+  const [headerCells, ...dataRows] = splitCsv(text, sep);
+
+  if (!headerCells || dataRows.length === 0) {
+    throw new Error('The file has no data rows');
+  }
+
+  const headers = headerCells.map(header => header.trim());
+  const records = dataRows.map(cells =>
+    Object.fromEntries(headers.map((header, i) => [header, cells[i]]))
+  );
+
+  return { headers, records };
+};
+
+/**
+ * Parse an OHLCV CSV file
+ * @param {string|Buffer} input - File contents
+ * @param {Object} options - { mapping, delimiter, dateFormat }
+ * @returns {Object[]} Bar rows in file order
+ */
+const parseCsv = (input, { mapping, delimiter, dateFormat } = {}) => {
+  const { headers, records } = readCsvRecords(input, delimiter);
+  const columns = resolveColumns(headers, mapping);
+
+  // Line 1 is the header
+  return toRows(records, columns, { dateFormat, firstLine: 2 });
+};
+
+/**
+ * Parse an OHLCV Parquet file
+ * @param {Buffer} buffer - File contents
+ * @param {Object} options - { mapping, dateFormat }
+ * @returns {Promise<Object[]>} Bar rows in file order
+ */
+const parseParquet = async (buffer, { mapping, dateFormat } = {}) => {
+  // hyparquet is published as an ES module only
+  const { parquetReadObjects } = await import('hyparquet');
+  const file = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  const records = await parquetReadObjects({ file });
+
+  if (records.length === 0) {
+    throw new Error('The file has no data rows');
+  }
+
+  const columns = resolveColumns(Object.keys(records[0]), mapping);
+  return toRows(records, columns, { dateFormat });
+};
+
+/**
+ * Infer the file format from its name
+ * @param {string} filename - Original file name
+ * @returns {string|null} 'csv', 'parquet' or null when unknown
+ */
+const detectFormat = (filename = '') => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (['csv', 'txt', 'tsv'].includes(extension)) return 'csv';
+  if (['parquet', 'pq'].includes(extension)) return 'parquet';
+  return null;
+};
+
+module.exports = {
+  FIELDS,
+  COLUMN_ALIASES,
+  resolveColumns,
+  parseDate,
+  parseNumber,
+  readCsvRecords,
+  parseCsv,
+  parseParquet,
+  detectFormat
+};
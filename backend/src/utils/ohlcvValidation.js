@@ -0,0 +1,198 @@
+/**
+ * Validation, corporate-action adjustment and coverage of imported OHLCV
+ * bars. Rows come from ohlcvParser; all functions are pure.
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const INTERVAL_MS = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '30m': 30 * MINUTE,
+  '1h': 60 * MINUTE,
+  '1d': DAY,
+  '1w': 7 * DAY
+};
+
+// Longest break that still counts as one backtestable range (long weekends and holidays)
+const MAX_RANGE_BREAK = {
+  intraday: 4 * DAY,
+  '1d': 7 * DAY,
+  '1w': 21 * DAY
+};
+
+/**
+ * Weekdays strictly between two dates
+ * @param {Date} from - Earlier date
+ * @param {Date} to - Later date
+ * @returns {number} Count of Monday-Friday days in between
+ */
+const weekdaysBetween = (from, to) => {
+  let count = 0;
+  for (let time = from.getTime() + DAY; time < to.getTime() - DAY / 2; time += DAY) {
+    const day = new Date(time).getUTCDay();
+    if (day !== 0 && day !== 6) count++;
+  }
+  return count;
+};
+
+/**
+ * Number of bars missing between two consecutive bars. Daily bars skip
+ * weekends; intraday bars only count gaps within the same session day.
+ * @param {Date} previous - Earlier bar time
+ * @param {Date} current - Later bar time
+ * @param {string} interval - Bar interval
+ * @returns {number} Missing bars (0 when contiguous)
+ */
+const missingBars = (previous, current, interval) => {
+  const elapsed = current.getTime() - previous.getTime();
+
+  if (interval === '1d') {
+    return weekdaysBetween(previous, current);
+  }
+
+  if (interval === '1w') {
+    return Math.max(0, Math.round(elapsed / INTERVAL_MS['1w']) - 1);
+  }
+
+  if (previous.toISOString().slice(0, 10) !== current.toISOString().slice(0, 10)) {
+    return 0;
+  }
+
+  return Math.max(0, Math.round(elapsed / INTERVAL_MS[interval]) - 1);
+};
+
+const formatDate = (date) => date.toISOString().replace('T00:00:00.000Z', '');
+
+/**
+ * Check parsed rows and keep the usable bars. Rows with missing values or
+ * inconsistent OHLC are rejected; for duplicate timestamps the last row
+ * wins. Gaps are reported but do not reject anything.
+ * @param {Object[]} rows - Parsed rows
+ * @param {string} interval - Bar interval
+ * @returns {Object} { bars (sorted by date), issues, rejected }
+ */
+const validateBars = (rows, interval) => {
+  const issues = [];
+  const byTime = new Map();
+  let rejected = 0;
+
+  const reject = (row, type, message) => {
+    rejected++;
+    issues.push({ type, severity: 'ERROR', line: row.line, date: row.date || undefined, message });
+  };
+
+  rows.forEach(row => {
+    if (!row.date) {
+      return reject(row, 'INVALID_VALUE', 'Missing or unparseable date');
+    }
+
+    const prices = [row.open, row.high, row.low, row.close];
+    if (prices.some(price => price === null || !(price > 0))) {
+      return reject(row, 'INVALID_VALUE', 'Prices must be positive numbers');
+    }
+
+    if (row.volume !== null && row.volume < 0) {
+      return reject(row, 'INVALID_VALUE', 'Volume cannot be negative');
+    }
+
+    if (row.high < Math.max(row.open, row.close, row.low) || row.low > Math.min(row.open, row.close)) {
+      return reject(row, 'OHLC_INCONSISTENT', `High ${row.high} / low ${row.low} do not contain open ${row.open} and close ${row.close}`);
+    }
+
+    const time = row.date.getTime();
+    if (byTime.has(time)) {
+      issues.push({
+        type: 'DUPLICATE',
+        severity: 'WARNING',
+        line: row.line,
+        date: row.date,
+        message: `Duplicate of line ${byTime.get(time).line}; the later row is kept`
+      });
+    }
+    byTime.set(time, row);
+  });
+
+  const bars = Array.from(byTime.values()).sort((a, b) => a.date - b.date);
+
+  for (let i = 1; i < bars.length; i++) {
+    const missing = missingBars(bars[i - 1].date, bars[i].date, interval);
+    if (missing > 0) {
+      issues.push({
+        type: 'GAP',
+        severity: 'WARNING',
+        date: bars[i].date,
+        message: `${missing} bar(s) missing between ${formatDate(bars[i - 1].date)} and ${formatDate(bars[i].date)}`
+      });
+    }
+  }
+
+  return { bars, issues, rejected };
+};
+
+/**
+ * Apply corporate-action adjustment factors. The factor is taken from an
+ * adjustment factor column, or derived from adjusted close / close. Prices
+ * are multiplied by the factor and volume divided by it, so splits keep
+ * the traded value unchanged.
+ * @param {Object[]} bars - Validated bars
+ * @returns {Object[]} New bars with adjusted prices and their adjustmentFactor
+ */
+const applyAdjustments = (bars) => {
+  return bars.map(bar => {
+    let factor = 1;
+    if (bar.adjustmentFactor > 0) {
+      factor = bar.adjustmentFactor;
+    } else if (bar.adjClose > 0) {
+      // Rounded so float noise on unadjusted rows does not count as an adjustment
+      factor = Math.round((bar.adjClose / bar.close) * 1e6) / 1e6;
+    }
+
+    if (factor === 1) {
+      return { ...bar, adjustmentFactor: 1 };
+    }
+
+    return {
+      ...bar,
+      open: bar.open * factor,
+      high: bar.high * factor,
+      low: bar.low * factor,
+      close: bar.close * factor,
+      volume: bar.volume !== null ? Math.round(bar.volume / factor) : null,
+      adjustmentFactor: factor
+    };
+  });
+};
+
+/**
+ * Contiguous date ranges covered by a series of bars
+ * @param {Date[]} dates - Bar times in ascending order
+ * @param {string} interval - Bar interval
+ * @returns {Array<{start: Date, end: Date, bars: number}>} Ranges split at breaks longer than a holiday
+ */
+const coverageRanges = (dates, interval) => {
+  const maxBreak = MAX_RANGE_BREAK[interval] || MAX_RANGE_BREAK.intraday;
+  const ranges = [];
+
+  dates.forEach(date => {
+    const current = ranges[ranges.length - 1];
+    if (current && date.getTime() - current.end.getTime() <= maxBreak) {
+      current.end = date;
+      current.bars++;
+    } else {
+      ranges.push({ start: date, end: date, bars: 1 });
+    }
+  });
+
+  return ranges;
+};
+
+module.exports = {
+  INTERVAL_MS,
+  missingBars,
+  validateBars,
+  applyAdjustments,
+  coverageRanges
+};
@@ -0,0 +1,300 @@
+/**
+ * Arithmetic of paper trading sessions: the book a session holds, its
+ * statistics and risk usage, and how large its entries may be.
+ *
+ * A session trades one symbol with a slice of a portfolio's cash (its
+ * capital), so its position and cash are replayed from its own fills rather
+ * than read from the portfolio, which other sessions and manual orders share.
+ */
+
+const { round } = require('./performanceMetrics');
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Usage of a limit, as a percent of the limit, from which a risk alert is raised
+const RISK_WARNING_PERCENT = 80;
+
+const DEFAULT_CONFIG = {
+  maxPositionSizePercent: 20,
+  riskPerTradePercent: 2,
+  maxDailyLossPercent: 5,
+  maxDrawdownPercent: 10,
+  enableStopLoss: false,
+  stopLossPercent: 2,
+  enableTakeProfit: false,
+  takeProfitPercent: 4,
+  enableTrailingStop: false,
+  trailingStopPercent: 1,
+  maxConcurrentTrades: 1,
+  tradingHours: { exchange: 'NSE', start: '09:15', end: '15:30', timezone: 'Asia/Kolkata' },
+  notifications: { onTrade: true, onProfit: true, onLoss: true, onRiskAlert: true }
+};
+
+/**
+ * Validate a deployment configuration and fill in defaults. Amount limits
+ * left out are derived from their percent of the capital.
+ * @param {Object} config - Requested configuration
+ * @returns {Object} Normalized configuration
+ * @throws {Error} When a setting is out of range
+ */
+const normalizeDeploymentConfig = (config = {}) => {
+  const capital = Number(config.capital);
+  if (!(capital > 0)) {
+    throw new Error('Capital must be a positive amount');
+  }
+
+  const normalized = {
+    ...DEFAULT_CONFIG,
+    ...config,
+    capital,
+    tradingHours: { ...DEFAULT_CONFIG.tradingHours, ...config.tradingHours },
+    notifications: { ...DEFAULT_CONFIG.notifications, ...config.notifications }
+  };
+
+  [
+    ['maxPositionSize', 'maxPositionSizePercent', 'Position size'],
+    ['riskPerTrade', 'riskPerTradePercent', 'Risk per trade'],
+    ['maxDailyLoss', 'maxDailyLossPercent', 'Daily loss limit'],
+    ['maxDrawdown', 'maxDrawdownPercent', 'Drawdown limit']
+  ].forEach(([amountKey, percentKey, label]) => {
+    const percent = Number(normalized[percentKey]);
+    if (!(percent > 0) || percent > 100) {
+      throw new Error(`${label} must be between 0% and 100% of capital`);
+    }
+    const amount = normalized[amountKey] !== undefined ? Number(normalized[amountKey]) : capital * percent / 100;
+    if (!(amount > 0)) {
+      throw new Error(`${label} must be a positive amount`);
+    }
+    normalized[percentKey] = percent;
+    normalized[amountKey] = amount;
+  });
+
+  ['stopLossPercent', 'takeProfitPercent', 'trailingStopPercent'].forEach(key => {
+    normalized[key] = Number(normalized[key]);
+    if (!(normalized[key] > 0) || normalized[key] >= 100) {
+      throw new Error('Exit distances must be between 0% and 100% of the entry price');
+    }
+  });
+
+  normalized.maxConcurrentTrades = Math.floor(Number(normalized.maxConcurrentTrades));
+  if (!(normalized.maxConcurrentTrades >= 1)) {
+    throw new Error('At least one concurrent trade must be allowed');
+  }
+
+  const { start, end } = normalized.tradingHours;
+  if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || start >= end) {
+    throw new Error('Trading hours need a start before the end, as HH:mm');
+  }
+
+  return normalized;
+};
+
+/**
+ * Whether a time falls inside the configured trading window
+ * @param {Date} date - Time
+ * @param {Object} tradingHours - { start, end, timezone } with HH:mm times
+ * @returns {boolean} True within the window, both ends included
+ */
+const withinTradingHours = (date, { start, end, timezone }) => {
+  const time = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(date);
+
+  return time >= start && time <= end;
+};
+
+/**
+ * Replay the fills of a session into its book
+ * @param {Object[]} trades - Fills in execution order ({ side, quantity, price, commission })
+ * @param {number} capital - Capital allocated to the session
+ * @returns {Object} { quantity, avgPrice, cash, roundTrips }: quantity is
+ *   negative when short and every fill that reduced the position is a
+ *   round trip ({ pnl, closedAt }) net of its commission
+ */
+const replaySessionTrades = (trades, capital) => {
+  let quantity = 0;
+  let avgPrice = 0;
+  let cash = capital;
+  const roundTrips = [];
+
+  trades.forEach(trade => {
+    const direction = trade.side === 'BUY' ? 1 : -1;
+    const commission = trade.commission || 0;
+    cash -= direction * trade.quantity * trade.price + commission;
+
+    if (quantity === 0 || Math.sign(quantity) === direction) {
+      avgPrice = (Math.abs(quantity) * avgPrice + trade.quantity * trade.price) / (Math.abs(quantity) + trade.quantity);
+      quantity += direction * trade.quantity;
+      return;
+    }
+
+    const closing = Math.min(trade.quantity, Math.abs(quantity));
+    roundTrips.push({
+      pnl: closing * (trade.price - avgPrice) * Math.sign(quantity) - commission,
+      closedAt: trade.executedAt
+    });
+
+    quantity += direction * trade.quantity;
+    if (quantity === 0) {
+      avgPrice = 0;
+    } else if (trade.quantity > closing) {
+      // The rest of the fill opened a position on the other side
+      avgPrice = trade.price;
+    }
+  });
+
+  return { quantity, avgPrice, cash, roundTrips };
+};
+
+/**
+ * Statistics of a session at a price
+ * @param {Object} book - Result of replaySessionTrades
+ * @param {Object} state - { capital, price, peakEquity, dayStartEquity, maxDrawdown,
+ *   maxDrawdownPercent, pendingOrders }: the high-water mark, equity at the
+ *   start of the day and deepest drawdown seen so far
+ * @returns {Object} { equity, peakEquity, statistics }
+ */
+const sessionStatistics = (book, state) => {
+  const { capital, price, dayStartEquity, pendingOrders = 0 } = state;
+  const marketValue = book.quantity * price;
+  const equity = book.cash + marketValue;
+  const peakEquity = Math.max(state.peakEquity || capital, equity);
+  const drawdown = peakEquity - equity;
+
+  const wins = book.roundTrips.filter(trip => trip.pnl > 0);
+  const losses = book.roundTrips.filter(trip => trip.pnl < 0);
+  const grossProfit = wins.reduce((sum, trip) => sum + trip.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, trip) => sum + trip.pnl, 0));
+  const totalPnL = equity - capital;
+  const dayPnL = equity - (dayStartEquity || capital);
+
+  return {
+    equity,
+    peakEquity,
+    statistics: {
+      totalTrades: book.roundTrips.length,
+      winningTrades: wins.length,
+      losingTrades: losses.length,
+      totalPnL: round(totalPnL),
+      totalPnLPercent: round(totalPnL / capital * 100),
+      dayPnL: round(dayPnL),
+      dayPnLPercent: round(dayPnL / (dayStartEquity || capital) * 100),
+      maxDrawdown: round(Math.max(state.maxDrawdown || 0, drawdown)),
+      maxDrawdownPercent: round(Math.max(state.maxDrawdownPercent || 0, drawdown / peakEquity * 100)),
+      winRate: book.roundTrips.length > 0 ? round(wins.length / book.roundTrips.length, 4) : 0,
+      profitFactor: grossLoss > 0 ? round(grossProfit / grossLoss) : 0,
+      avgWin: round(wins.length > 0 ? grossProfit / wins.length : 0),
+      avgLoss: round(losses.length > 0 ? grossLoss / losses.length : 0),
+      largestWin: round(wins.length > 0 ? Math.max(...wins.map(trip => trip.pnl)) : 0),
+      largestLoss: round(losses.length > 0 ? Math.abs(Math.min(...losses.map(trip => trip.pnl))) : 0),
+      currentCapital: round(equity),
+      capitalUtilization: round(Math.abs(marketValue) / capital * 100),
+      activePositions: book.quantity !== 0 ? 1 : 0,
+      pendingOrders
+    }
+  };
+};
+
+// Distance to the protective stop of an entry, as a percent of its price
+const stopDistancePercent = (config) => {
+  if (config.enableTrailingStop) return config.trailingStopPercent;
+  if (config.enableStopLoss) return config.stopLossPercent;
+  return 100;
+};
+
+/**
+ * How much of each deployment limit a session is using. Percents are of
+ * the limit, so 100 means the limit is reached.
+ * @param {Object} config - Normalized deployment configuration
+ * @param {Object} book - Result of replaySessionTrades
+ * @param {Object} state - { price, equity, peakEquity, dayStartEquity }
+ * @returns {Object} Risk metrics with the alerts for limits close to or over their value
+ */
+const sessionRiskMetrics = (config, book, { price, equity, peakEquity, dayStartEquity }) => {
+  const positionSizeUsed = Math.abs(book.quantity) * price;
+  const usage = {
+    dailyLoss: [Math.max(0, dayStartEquity - equity), config.maxDailyLoss, 'Daily loss'],
+    drawdown: [Math.max(0, peakEquity - equity), config.maxDrawdown, 'Drawdown'],
+    positionSize: [positionSizeUsed, config.maxPositionSize, 'Position size'],
+    riskPerTrade: [
+      Math.abs(book.quantity) * book.avgPrice * stopDistancePercent(config) / 100,
+      config.riskPerTrade,
+      'Risk per trade'
+    ]
+  };
+
+  const metrics = { riskAlerts: [] };
+  Object.entries(usage).forEach(([key, [used, limit, label]]) => {
+    const percent = limit > 0 ? used / limit * 100 : 0;
+    metrics[`${key}Used`] = round(used);
+    metrics[`${key}Percent`] = round(percent);
+    if (percent >= RISK_WARNING_PERCENT) {
+      metrics.riskAlerts.push(`${label} at ${round(percent, 1)}% of its ₹${round(limit).toLocaleString('en-IN')} limit`);
+    }
+  });
+
+  // Losses stop the session; the exposure limits only size new entries
+  metrics.isRiskLimitBreached = metrics.dailyLossPercent >= 100 || metrics.drawdownPercent >= 100;
+  return metrics;
+};
+
+/**
+ * Quantity of a new entry. Entries are kept inside the position size limit
+ * and the cash of the session; with a stop loss, the loss at the stop is
+ * kept inside the risk per trade as well.
+ * @param {Object} config - Normalized deployment configuration
+ * @param {Object} book - Result of replaySessionTrades
+ * @param {Object} state - { price, equity, requested }: the quantity the strategy
+ *   asked for, or undefined to size by the position size percent
+ * @returns {number} Whole shares, 0 when nothing may be bought
+ */
+const entryQuantity = (config, book, { price, equity, requested }) => {
+  if (!(price > 0)) return 0;
+
+  const held = Math.abs(book.quantity) * price;
+  const budget = Math.min(
+    config.maxPositionSize - held,
+    equity * config.maxPositionSizePercent / 100 - held,
+    book.cash
+  );
+  const riskShares = config.riskPerTrade / (price * stopDistancePercent(config) / 100);
+
+  const target = requested === undefined ? budget / price : Number(requested);
+  return Math.max(0, Math.floor(Math.min(target, budget / price, riskShares)));
+};
+
+/**
+ * Exits attached to an entry, as an order bracket
+ * @param {Object} config - Normalized deployment configuration
+ * @param {number} price - Expected entry price
+ * @returns {Object|undefined} { stopLoss, takeProfit, trailPercent }, or undefined without exits
+ */
+const entryBracket = (config, price) => {
+  const bracket = {};
+
+  // A bracket stop is either fixed or trailing; the trailing stop wins
+  if (config.enableTrailingStop) {
+    bracket.trailPercent = config.trailingStopPercent;
+  } else if (config.enableStopLoss) {
+    bracket.stopLoss = round(price * (1 - config.stopLossPercent / 100));
+  }
+  if (config.enableTakeProfit) {
+    bracket.takeProfit = round(price * (1 + config.takeProfitPercent / 100));
+  }
+
+  return Object.keys(bracket).length > 0 ? bracket : undefined;
+};
+
+module.exports = {
+  DEFAULT_CONFIG,
+  normalizeDeploymentConfig,
+  withinTradingHours,
+  replaySessionTrades,
+  sessionStatistics,
+  sessionRiskMetrics,
+  entryQuantity,
+  entryBracket
+};
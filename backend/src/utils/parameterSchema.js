@@ -0,0 +1,103 @@
+/**
+ * Parameter schemas describe the parameters of a strategy template: how each
+ * one is labelled, typed, bounded and defaulted in the parameter form of a
+ * strategy created from it.
+ */
+
+const PARAMETER_TYPES = ['number', 'string', 'boolean', 'select', 'range'];
+
+const MAX_PARAMETERS = 50;
+
+const isObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Check a parameter schema
+ * @param {Object[]} schema - Parameter definitions
+ * @param {string} [path='parameterSchema'] - Prefix of the error messages
+ * @returns {string[]} Errors, empty when the schema is valid
+ */
+const validateParameterSchema = (schema, path = 'parameterSchema') => {
+  if (!Array.isArray(schema)) {
+    return [`${path} must be a list`];
+  }
+
+  const errors = [];
+  if (schema.length > MAX_PARAMETERS) {
+    errors.push(`${path} holds at most ${MAX_PARAMETERS} parameters`);
+  }
+
+  const keys = new Set();
+  schema.forEach((param, index) => {
+    const at = `${path}[${index}]`;
+    if (!isObject(param)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+
+    if (typeof param.key !== 'string' || !param.key) {
+      errors.push(`${at}.key is required`);
+    } else if (keys.has(param.key)) {
+      errors.push(`${at} repeats key ${param.key}`);
+    } else {
+      keys.add(param.key);
+    }
+
+    if (typeof param.label !== 'string' || !param.label) errors.push(`${at}.label is required`);
+    if (!PARAMETER_TYPES.includes(param.type)) {
+      errors.push(`${at}.type must be one of ${PARAMETER_TYPES.join(', ')}`);
+      return;
+    }
+
+    const numeric = param.type === 'number' || param.type === 'range';
+    ['min', 'max', 'step'].forEach(bound => {
+      if (param[bound] !== undefined && param[bound] !== null && !Number.isFinite(param[bound])) {
+        errors.push(`${at}.${bound} must be a number`);
+      }
+    });
+    if (numeric && Number.isFinite(param.min) && Number.isFinite(param.max) && param.min > param.max) {
+      errors.push(`${at}.min must not exceed max`);
+    }
+    if (Number.isFinite(param.step) && param.step <= 0) {
+      errors.push(`${at}.step must be positive`);
+    }
+
+    if (param.type === 'select') {
+      if (!Array.isArray(param.options) || param.options.length === 0) {
+        errors.push(`${at}.options must list the choices of a select`);
+      } else if (param.defaultValue !== undefined && !param.options.some(option => option && option.value === param.defaultValue)) {
+        errors.push(`${at}.defaultValue must be one of its options`);
+      }
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Starting schema for a set of parameter values, one entry per parameter
+ * typed after its current value
+ * @param {Object} parameters - Parameter values of a strategy
+ * @returns {Object[]} Parameter schema
+ */
+const inferParameterSchema = (parameters = {}) => Object.entries(parameters).map(([key, value]) => {
+  const param = {
+    key,
+    label: key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1'),
+    defaultValue: value,
+    required: true
+  };
+
+  if (typeof value === 'number') {
+    return { ...param, type: 'number', step: Number.isInteger(value) ? 1 : 0.1 };
+  }
+  if (typeof value === 'boolean') {
+    return { ...param, type: 'boolean' };
+  }
+  return { ...param, type: 'string', defaultValue: value === null || value === undefined ? '' : String(value) };
+});
+
+module.exports = {
+  PARAMETER_TYPES,
+  validateParameterSchema,
+  inferParameterSchema
+};
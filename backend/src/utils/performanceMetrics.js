@@ -0,0 +1,378 @@
+/**
+ * Performance metric calculations shared by backtests and portfolios.
+ *
+ * Every function here is pure: the same equity points and closed trades
+ * always produce the same numbers, which keeps backtest results reproducible.
+ */
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Round a number to a fixed number of decimals
+ * @param {number} value - Value to round
+ * @param {number} decimals - Decimal places
+ * @returns {number} Rounded value (0 for non-finite input)
+ */
+const round = (value, decimals = 2) => {
+  if (!Number.isFinite(value)) return 0;
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const mean = (values) => {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+};
+
+const standardDeviation = (values) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+/**
+ * Linear-interpolated percentile of a list of numbers
+ * @param {number[]} values - Sample values
+ * @param {number} p - Percentile between 0 and 1
+ * @returns {number} Percentile value
+ */
+const percentile = (values, p) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+/**
+ * Period-over-period fractional returns of an equity series
+ * @param {Array<{equity: number}>} points - Equity points in date order
+ * @returns {number[]} Returns, one per point after the first
+ */
+const periodReturns = (points) => {
+  const returns = [];
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1].equity;
+    returns.push(previous > 0 ? (points[i].equity - previous) / previous : 0);
+  }
+  return returns;
+};
+
+/**
+ * Estimate how many bars make up a year from the dates in the series, so
+ * daily and intraday backtests are annualized with the same code path.
+ * @param {Array<{date: Date}>} points - Equity points in date order
+ * @returns {number} Periods per year
+ */
+const periodsPerYear = (points) => {
+  if (points.length < 2) return 252;
+  const days = (new Date(points[points.length - 1].date) - new Date(points[0].date)) / MS_PER_DAY;
+  if (days <= 0) return 252;
+  return (points.length - 1) / (days / 365.25);
+};
+
+/**
+ * Attach running drawdown and per-bar return percentages to raw equity points
+ * @param {Array<{date: Date, equity: number}>} points - Raw equity points
+ * @returns {Array} Equity curve in the BacktestResult shape
+ */
+const buildEquityCurve = (points) => {
+  let peak = points.length > 0 ? points[0].equity : 0;
+
+  return points.map((point, index) => {
+    peak = Math.max(peak, point.equity);
+    const previous = index > 0 ? points[index - 1].equity : point.equity;
+
+    return {
+      date: point.date,
+      equity: round(point.equity),
+      drawdown: peak > 0 ? round(((point.equity - peak) / peak) * 100, 4) : 0,
+      returns: previous > 0 ? round(((point.equity - previous) / previous) * 100, 4) : 0
+    };
+  });
+};
+
+/**
+ * Build the drawdown curve and the worst drawdown statistics
+ * @param {Array<{date: Date, equity: number}>} points - Equity points
+ * @returns {Object} { curve, maxDrawdown, maxDrawdownPercent, maxDrawdownDuration, episodes }
+ */
+const analyzeDrawdowns = (points) => {
+  const curve = [];
+  const episodes = [];
+  let peak = -Infinity;
+  let peakDate = null;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  let maxDrawdownDuration = 0;
+  let episodeDepth = 0;
+
+  points.forEach((point) => {
+    const isNewHigh = point.equity >= peak;
+
+    if (isNewHigh) {
+      if (episodeDepth > 0) {
+        episodes.push(episodeDepth);
+        episodeDepth = 0;
+      }
+      peak = point.equity;
+      peakDate = new Date(point.date);
+    }
+
+    const drawdown = peak - point.equity;
+    const drawdownPercent = peak > 0 ? (drawdown / peak) * 100 : 0;
+
+    if (drawdown > 0) {
+      episodeDepth = Math.max(episodeDepth, drawdownPercent);
+      const duration = Math.round((new Date(point.date) - peakDate) / MS_PER_DAY);
+      maxDrawdownDuration = Math.max(maxDrawdownDuration, duration);
+    }
+
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, drawdownPercent);
+
+    curve.push({
+      date: point.date,
+      drawdown: round(drawdown),
+      drawdownPercent: round(drawdownPercent, 4),
+      isNewHigh
+    });
+  });
+
+  if (episodeDepth > 0) {
+    episodes.push(episodeDepth);
+  }
+
+  return { curve, maxDrawdown, maxDrawdownPercent, maxDrawdownDuration, episodes };
+};
+
+/**
+ * Calendar month returns of an equity series
+ * @param {Array<{date: Date, equity: number}>} points - Equity points
+ * @param {number} initialCapital - Equity before the first point
+ * @returns {Array} Monthly returns in the BacktestResult shape
+ */
+const calculateMonthlyReturns = (points, initialCapital) => {
+  const months = [];
+  let startEquity = initialCapital;
+
+  points.forEach((point, index) => {
+    const date = new Date(point.date);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const next = points[index + 1];
+    const nextDate = next ? new Date(next.date) : null;
+    const isMonthEnd = !nextDate ||
+      nextDate.getUTCFullYear() !== year ||
+      nextDate.getUTCMonth() + 1 !== month;
+
+    if (isMonthEnd) {
+      const change = point.equity - startEquity;
+      months.push({
+        year,
+        month,
+        return: round(change),
+        returnPercent: startEquity > 0 ? round((change / startEquity) * 100, 4) : 0
+      });
+      startEquity = point.equity;
+    }
+  });
+
+  return months;
+};
+
+/**
+ * Aggregate statistics over closed round-trip trades
+ * @param {Array<{pnl: number, entryDate: Date, exitDate: Date}>} roundTrips - Closed trades
+ * @returns {Object} Trade statistics for the summary
+ */
+const calculateTradeStats = (roundTrips) => {
+  const wins = roundTrips.filter(t => t.pnl > 0);
+  const losses = roundTrips.filter(t => t.pnl < 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0));
+  const durations = roundTrips.map(t => (new Date(t.exitDate) - new Date(t.entryDate)) / MS_PER_DAY);
+
+  return {
+    totalTrades: roundTrips.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: roundTrips.length > 0 ? round(wins.length / roundTrips.length, 4) : 0,
+    // Undefined without losing trades; reported as 0 rather than Infinity
+    profitFactor: grossLoss > 0 ? round(grossProfit / grossLoss) : 0,
+    avgWin: round(wins.length > 0 ? grossProfit / wins.length : 0),
+    avgLoss: round(losses.length > 0 ? grossLoss / losses.length : 0),
+    largestWin: round(wins.length > 0 ? Math.max(...wins.map(t => t.pnl)) : 0),
+    largestLoss: round(losses.length > 0 ? Math.abs(Math.min(...losses.map(t => t.pnl))) : 0),
+    avgTradeDuration: round(mean(durations))
+  };
+};
+
+/**
+ * Benchmark-relative metrics of an equity series. Each period return is
+ * paired with the benchmark return over the same period; periods where the
+ * benchmark has no value on either end are skipped.
+ * @param {Array<{date: Date, equity: number}>} points - Equity points in date order
+ * @param {Array<number|null>} benchmarkValues - Benchmark level at each point's date
+ * @returns {Object} { beta, alpha, trackingError, informationRatio, upCapture,
+ *   downCapture, benchmarkReturnPercent } with alpha as an annualized fraction
+ *   and tracking error, capture ratios and benchmark return in percent
+ */
+const calculateBenchmarkMetrics = (points, benchmarkValues) => {
+  const strategy = [];
+  const benchmark = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = benchmarkValues[i - 1];
+    const current = benchmarkValues[i];
+    if (previous > 0 && current > 0 && points[i - 1].equity > 0) {
+      strategy.push(points[i].equity / points[i - 1].equity - 1);
+      benchmark.push(current / previous - 1);
+    }
+  }
+
+  const known = benchmarkValues.filter(value => value > 0);
+  const benchmarkReturnPercent = known.length > 1 ? (known[known.length - 1] / known[0] - 1) * 100 : 0;
+
+  if (strategy.length < 2) {
+    return {
+      beta: 0,
+      alpha: 0,
+      trackingError: 0,
+      informationRatio: 0,
+      upCapture: 0,
+      downCapture: 0,
+      benchmarkReturnPercent: round(benchmarkReturnPercent)
+    };
+  }
+
+  const ppy = periodsPerYear(points);
+  const strategyMean = mean(strategy);
+  const benchmarkMean = mean(benchmark);
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < strategy.length; i++) {
+    covariance += (strategy[i] - strategyMean) * (benchmark[i] - benchmarkMean);
+    variance += Math.pow(benchmark[i] - benchmarkMean, 2);
+  }
+  const beta = variance > 0 ? covariance / variance : 0;
+
+  const active = strategy.map((r, i) => r - benchmark[i]);
+  const activeDeviation = standardDeviation(active);
+
+  // Average strategy return in the periods the benchmark rose (fell), relative to the benchmark's
+  const capture = (filter) => {
+    const indexes = benchmark.map((r, i) => (filter(r) ? i : -1)).filter(i => i >= 0);
+    const benchmarkAvg = mean(indexes.map(i => benchmark[i]));
+    return benchmarkAvg !== 0 ? (mean(indexes.map(i => strategy[i])) / benchmarkAvg) * 100 : 0;
+  };
+
+  return {
+    beta: round(beta, 4),
+    alpha: round((strategyMean - beta * benchmarkMean) * ppy, 4),
+    trackingError: round(activeDeviation * Math.sqrt(ppy) * 100),
+    informationRatio: activeDeviation > 0 ? round((mean(active) / activeDeviation) * Math.sqrt(ppy)) : 0,
+    upCapture: round(capture(r => r > 0)),
+    downCapture: round(capture(r => r < 0)),
+    benchmarkReturnPercent: round(benchmarkReturnPercent)
+  };
+};
+
+/**
+ * Compute the full BacktestResult metrics from an equity series and trades
+ * @param {Object} input - Calculation input
+ * @param {Array<{date: Date, equity: number}>} input.points - Equity per bar
+ * @param {Array} input.roundTrips - Closed round-trip trades
+ * @param {number} input.initialCapital - Starting capital
+ * @param {number} input.totalCommission - Commission paid
+ * @param {number} input.totalSlippage - Slippage cost paid
+ * @returns {Object} { summary, equityCurve, drawdownCurve, monthlyReturns, riskMetrics }
+ */
+const calculatePerformance = ({ points, roundTrips, initialCapital, totalCommission = 0, totalSlippage = 0 }) => {
+  const finalCapital = points.length > 0 ? points[points.length - 1].equity : initialCapital;
+  const totalReturn = finalCapital - initialCapital;
+  const totalReturnFraction = initialCapital > 0 ? totalReturn / initialCapital : 0;
+
+  const days = points.length > 1
+    ? (new Date(points[points.length - 1].date) - new Date(points[0].date)) / MS_PER_DAY
+    : 0;
+  const years = days / 365.25;
+  const annualizedReturn = years > 0 && finalCapital > 0
+    ? (Math.pow(finalCapital / initialCapital, 1 / years) - 1) * 100
+    : 0;
+
+  const returns = periodReturns(points);
+  const ppy = periodsPerYear(points);
+  const avgReturn = mean(returns);
+  const volatility = standardDeviation(returns);
+  const downside = returns.filter(r => r < 0);
+  const downsideDeviation = downside.length > 0
+    ? Math.sqrt(downside.reduce((sum, r) => sum + r * r, 0) / returns.length)
+    : 0;
+
+  const drawdowns = analyzeDrawdowns(points);
+  const tradeStats = calculateTradeStats(roundTrips);
+
+  const var95 = -percentile(returns, 0.05);
+  const var99 = -percentile(returns, 0.01);
+  const tailMean = (cutoff) => {
+    const tail = returns.filter(r => r <= -cutoff);
+    return tail.length > 0 ? -mean(tail) : cutoff;
+  };
+  const avgEpisodeDepth = mean(drawdowns.episodes);
+
+  return {
+    summary: {
+      totalReturn: round(totalReturn),
+      totalReturnPercent: round(totalReturnFraction * 100),
+      annualizedReturn: round(annualizedReturn),
+      sharpeRatio: volatility > 0 ? round((avgReturn / volatility) * Math.sqrt(ppy)) : 0,
+      sortinoRatio: downsideDeviation > 0 ? round((avgReturn / downsideDeviation) * Math.sqrt(ppy)) : 0,
+      maxDrawdown: round(drawdowns.maxDrawdown),
+      maxDrawdownPercent: round(drawdowns.maxDrawdownPercent),
+      maxDrawdownDuration: drawdowns.maxDrawdownDuration,
+      volatility: round(volatility * Math.sqrt(ppy) * 100),
+      ...tradeStats,
+      finalCapital: round(finalCapital),
+      totalCommission: round(totalCommission),
+      totalSlippage: round(totalSlippage)
+    },
+    equityCurve: buildEquityCurve(points),
+    drawdownCurve: drawdowns.curve,
+    monthlyReturns: calculateMonthlyReturns(points, initialCapital),
+    riskMetrics: {
+      // Value at Risk is expressed in currency against the final equity
+      var95: round(Math.max(0, var95) * finalCapital),
+      var99: round(Math.max(0, var99) * finalCapital),
+      cvar95: round(Math.max(0, tailMean(var95)) * finalCapital),
+      cvar99: round(Math.max(0, tailMean(var99)) * finalCapital),
+      // Benchmark-relative metrics are filled in when a benchmark is attached
+      beta: 0,
+      alpha: 0,
+      informationRatio: 0,
+      trackingError: 0,
+      upCapture: 0,
+      downCapture: 0,
+      calmarRatio: drawdowns.maxDrawdownPercent > 0 ? round(annualizedReturn / drawdowns.maxDrawdownPercent) : 0,
+      sterlingRatio: avgEpisodeDepth > 0 ? round(annualizedReturn / avgEpisodeDepth) : 0
+    }
+  };
+};
+
+module.exports = {
+  round,
+  mean,
+  standardDeviation,
+  percentile,
+  periodReturns,
+  periodsPerYear,
+  buildEquityCurve,
+  analyzeDrawdowns,
+  calculateMonthlyReturns,
+  calculateTradeStats,
+  calculateBenchmarkMetrics,
+  calculatePerformance
+};
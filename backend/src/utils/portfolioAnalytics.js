@@ -0,0 +1,123 @@
+/**
+ * Analytics for portfolio backtests: how each symbol contributed, how much
+ * of the portfolio was invested over time and how the symbols moved together.
+ */
+
+const { round, mean } = require('./performanceMetrics');
+
+/**
+ * Pearson correlation of two equally long series
+ * @param {number[]} a - First series
+ * @param {number[]} b - Second series
+ * @returns {number} Correlation between -1 and 1 (0 when either is flat)
+ */
+const correlation = (a, b) => {
+  const length = Math.min(a.length, b.length);
+  if (length < 2) return 0;
+
+  const meanA = mean(a.slice(0, length));
+  const meanB = mean(b.slice(0, length));
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+
+  for (let i = 0; i < length; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  if (varianceA === 0 || varianceB === 0) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+/**
+ * Pairwise correlations of per-date series. Each pair is correlated over the
+ * dates both series have a value for, so symbols with gaps still line up.
+ * @param {string[]} symbols - Row/column order
+ * @param {Object} seriesBySymbol - symbol -> Map(dateKey -> value)
+ * @returns {Object} { symbols, values } where values[i][j] is the correlation
+ *   of symbols[i] and symbols[j]
+ */
+const correlationMatrix = (symbols, seriesBySymbol) => {
+  const values = symbols.map(() => symbols.map(() => 0));
+
+  symbols.forEach((rowSymbol, i) => {
+    values[i][i] = 1;
+    for (let j = i + 1; j < symbols.length; j++) {
+      const row = seriesBySymbol[rowSymbol];
+      const column = seriesBySymbol[symbols[j]];
+      const a = [];
+      const b = [];
+
+      row.forEach((value, dateKey) => {
+        if (column.has(dateKey)) {
+          a.push(value);
+          b.push(column.get(dateKey));
+        }
+      });
+
+      values[i][j] = values[j][i] = round(correlation(a, b), 4);
+    }
+  });
+
+  return { symbols, values };
+};
+
+/**
+ * Close-to-close returns of each symbol keyed by date
+ * @param {Object} barsBySymbol - symbol -> bars in date order
+ * @returns {Object} symbol -> Map(dateKey -> fractional return)
+ */
+const returnSeries = (barsBySymbol) => {
+  const series = {};
+
+  Object.entries(barsBySymbol).forEach(([symbol, bars]) => {
+    const returns = new Map();
+    for (let i = 1; i < bars.length; i++) {
+      if (bars[i - 1].close > 0) {
+        returns.set(new Date(bars[i].date).getTime(), bars[i].close / bars[i - 1].close - 1);
+      }
+    }
+    series[symbol] = returns;
+  });
+
+  return series;
+};
+
+/**
+ * Per-symbol contribution to the portfolio result
+ * @param {string[]} symbols - Symbols in the basket
+ * @param {Array} roundTrips - Closed trades ({ symbol, pnl })
+ * @param {Array} exposures - Exposure points ({ bySymbol: { symbol: percent } })
+ * @param {number} initialCapital - Starting equity
+ * @returns {Array} [{ symbol, pnl, returnContribution, pnlShare, trades, winRate, avgExposurePercent }]
+ */
+const buildAttribution = (symbols, roundTrips, exposures, initialCapital) => {
+  const totalPnl = roundTrips.reduce((sum, trip) => sum + trip.pnl, 0);
+
+  return symbols.map(symbol => {
+    const trips = roundTrips.filter(trip => trip.symbol === symbol);
+    const pnl = trips.reduce((sum, trip) => sum + trip.pnl, 0);
+    const wins = trips.filter(trip => trip.pnl > 0).length;
+
+    return {
+      symbol,
+      pnl: round(pnl),
+      returnContribution: initialCapital > 0 ? round((pnl / initialCapital) * 100, 4) : 0,
+      pnlShare: totalPnl !== 0 ? round(pnl / Math.abs(totalPnl), 4) : 0,
+      trades: trips.length,
+      winRate: trips.length > 0 ? round(wins / trips.length, 4) : 0,
+      avgExposurePercent: round(mean(exposures.map(point => point.bySymbol[symbol] || 0)), 4)
+    };
+  });
+};
+
+module.exports = {
+  correlation,
+  correlationMatrix,
+  returnSeries,
+  buildAttribution
+};
@@ -0,0 +1,131 @@
+/**
+ * Capital allocation models for portfolio backtests.
+ *
+ * A model answers one question when a strategy asks to buy without naming a
+ * quantity: how much of the portfolio's equity should this position hold?
+ * Every model is capped at the cash actually available, so none of them
+ * borrow.
+ */
+
+const { mean, standardDeviation } = require('./performanceMetrics');
+
+const SIZING_MODELS = ['EQUAL_WEIGHT', 'FIXED_FRACTIONAL', 'VOLATILITY_TARGET', 'KELLY'];
+
+// Kelly needs some trade history before its edge estimate means anything
+const KELLY_MIN_TRADES = 10;
+const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * Annualized volatility of close-to-close returns over the last bars
+ * @param {Array} bars - Bars in date order ({ close })
+ * @param {number} lookback - Number of returns to use
+ * @returns {number} Annualized volatility as a fraction (0.2 = 20%)
+ */
+const annualizedVolatility = (bars, lookback) => {
+  const recent = bars.slice(-(lookback + 1));
+  const returns = [];
+  for (let i = 1; i < recent.length; i++) {
+    if (recent[i - 1].close > 0) {
+      returns.push(recent[i].close / recent[i - 1].close - 1);
+    }
+  }
+  return standardDeviation(returns) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+};
+
+/**
+ * Kelly fraction f* = W - (1 - W) / R from closed trades, where W is the win
+ * rate and R the average win over the average loss
+ * @param {Array} roundTrips - Closed trades ({ pnl })
+ * @returns {number|null} Optimal fraction, or null without enough history
+ */
+const kellyFraction = (roundTrips) => {
+  if (roundTrips.length < KELLY_MIN_TRADES) return null;
+
+  const wins = roundTrips.filter(trip => trip.pnl > 0).map(trip => trip.pnl);
+  const losses = roundTrips.filter(trip => trip.pnl < 0).map(trip => -trip.pnl);
+  if (losses.length === 0) return 1;
+  if (wins.length === 0) return 0;
+
+  const winRate = wins.length / roundTrips.length;
+  const payoff = mean(wins) / mean(losses);
+  return winRate - (1 - winRate) / payoff;
+};
+
+/**
+ * Fraction of equity a new position should be sized to
+ * @param {Object} sizing - Portfolio sizing settings
+ *   ({ model, fractionPercent, targetVolatility, volatilityLookback, kellyFraction })
+ * @param {Object} context - { symbolCount, history, roundTrips }: the number of
+ *   symbols in the basket, the symbol's bars so far and every closed trade
+ * @returns {number} Target weight between 0 and 1
+ */
+const targetWeight = (sizing, { symbolCount, history, roundTrips }) => {
+  const equalWeight = 1 / Math.max(1, symbolCount);
+
+  switch (sizing.model) {
+    case 'FIXED_FRACTIONAL':
+      return Math.min(1, sizing.fractionPercent / 100);
+
+    case 'VOLATILITY_TARGET': {
+      // Each position gets an equal share of the portfolio's volatility budget
+      const volatility = annualizedVolatility(history, sizing.volatilityLookback);
+      if (volatility <= 0) return equalWeight;
+      return Math.min(1, (sizing.targetVolatility / 100) / volatility * equalWeight);
+    }
+
+    case 'KELLY': {
+      const kelly = kellyFraction(roundTrips);
+      if (kelly === null) return equalWeight;
+      // A non-positive edge means the strategy should not add risk
+      return Math.min(1, Math.max(0, kelly * sizing.kellyFraction));
+    }
+
+    case 'EQUAL_WEIGHT':
+    default:
+      return equalWeight;
+  }
+};
+
+/**
+ * Validate sizing settings and fill in defaults
+ * @param {Object} sizing - Requested settings
+ * @returns {Object} Normalized settings
+ * @throws {Error} When a setting is out of range
+ */
+const normalizeSizing = (sizing = {}) => {
+  const model = sizing.model || 'EQUAL_WEIGHT';
+  const normalized = {
+    model,
+    fractionPercent: Number(sizing.fractionPercent) || 10,
+    targetVolatility: Number(sizing.targetVolatility) || 15,
+    volatilityLookback: Math.floor(Number(sizing.volatilityLookback) || 20),
+    kellyFraction: Number(sizing.kellyFraction) || 0.5
+  };
+
+  if (!SIZING_MODELS.includes(model)) {
+    throw new Error(`Unknown position sizing model "${model}"`);
+  }
+  if (normalized.fractionPercent <= 0 || normalized.fractionPercent > 100) {
+    throw new Error('Fixed fraction must be between 0% and 100% of equity');
+  }
+  if (normalized.targetVolatility <= 0 || normalized.targetVolatility > 200) {
+    throw new Error('Target volatility must be between 0% and 200%');
+  }
+  if (normalized.volatilityLookback < 2) {
+    throw new Error('Volatility lookback must be at least 2 bars');
+  }
+  if (normalized.kellyFraction <= 0 || normalized.kellyFraction > 1) {
+    throw new Error('Kelly fraction must be between 0 and 1');
+  }
+
+  return normalized;
+};
+
+module.exports = {
+  SIZING_MODELS,
+  KELLY_MIN_TRADES,
+  annualizedVolatility,
+  kellyFraction,
+  targetWeight,
+  normalizeSizing
+};
@@ -0,0 +1,233 @@
+/**
+ * Pre-trade risk rules. All functions are pure: the risk engine gathers
+ * the account or strategy state into a context and every order is checked
+ * against the same rules, whether it was entered by hand or by a strategy.
+ *
+ * A limit that is null or undefined switches its rule off. Orders that only
+ * reduce a position are never held back by the exposure, concentration,
+ * daily loss or concurrent trade rules, so a breached account can always
+ * trade its way out.
+ *
+ * Buying power is margin based (see utils/margin.js): it bounds the value of
+ * the positions an order opens, long or short.
+ */
+
+const RULES = {
+  BUYING_POWER: 'BUYING_POWER',
+  SHORT_SALE: 'SHORT_SALE',
+  ORDER_VALUE: 'ORDER_VALUE',
+  PRICE_BAND: 'PRICE_BAND',
+  EXPOSURE: 'EXPOSURE',
+  CONCENTRATION: 'CONCENTRATION',
+  DAILY_LOSS: 'DAILY_LOSS',
+  ORDER_RATE: 'ORDER_RATE',
+  CONCURRENT_TRADES: 'CONCURRENT_TRADES'
+};
+
+// Account limits applied when a portfolio has not set its own
+const DEFAULT_RISK_LIMITS = {
+  maxOrderValue: 1000000,
+  priceBandPercent: 10,
+  maxExposurePercent: null,
+  maxPositionSizePercent: 50,
+  maxDailyLoss: null,
+  maxDailyLossPercent: 10,
+  maxOrdersPerMinute: 30,
+  maxConcurrentTrades: null
+};
+
+const COMMISSION_RATE = 0.0001; // 0.01% commission
+
+const isSet = (limit) => limit !== null && limit !== undefined;
+
+const formatAmount = (value) => `₹${Number(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value) => `${Number(value).toFixed(2)}%`;
+
+/**
+ * Whether an order only takes quantity off an existing position
+ * @param {number} position - Signed quantity held
+ * @param {number} change - Signed quantity of the order
+ * @returns {boolean} True when the position shrinks without flipping
+ */
+const isReducing = (position, change) => {
+  const after = position + change;
+  return position !== 0 && Math.abs(after) < Math.abs(position) && Math.sign(after) !== -Math.sign(position);
+};
+
+/**
+ * Quantity an order adds to a position, on either side
+ * @param {number} position - Signed quantity held
+ * @param {number} change - Signed quantity of the order
+ * @returns {number} Quantity opened; all of it when the order flips the position
+ */
+const openingQuantity = (position, change) => {
+  const after = position + change;
+  return Math.sign(after) === Math.sign(position)
+    ? Math.max(Math.abs(after) - Math.abs(position), 0)
+    : Math.abs(after);
+};
+
+/**
+ * Net quantity held per symbol from a list of trades
+ * @param {Object[]} trades - { symbol, side, quantity }
+ * @returns {Map} Symbol -> signed quantity, without flat symbols
+ */
+const netPositions = (trades) => {
+  const positions = new Map();
+  trades.forEach(({ symbol, side, quantity }) => {
+    positions.set(symbol, (positions.get(symbol) || 0) + (side === 'BUY' ? quantity : -quantity));
+  });
+  positions.forEach((quantity, symbol) => {
+    if (quantity === 0) positions.delete(symbol);
+  });
+  return positions;
+};
+
+/**
+ * Profit or loss of a day's trades, marking what they left open to the market
+ * @param {Object[]} trades - { symbol, side, quantity, price, commission }
+ * @param {Map} prices - Symbol -> market price
+ * @returns {number} Day P&L
+ */
+const dayPnL = (trades, prices) => {
+  const cash = trades.reduce((sum, { side, quantity, price, commission = 0 }) =>
+    sum + (side === 'SELL' ? quantity * price : -quantity * price) - commission, 0);
+
+  let marked = 0;
+  netPositions(trades).forEach((quantity, symbol) => {
+    marked += quantity * (prices.get(symbol) || 0);
+  });
+  return cash + marked;
+};
+
+/**
+ * Check an order against a set of limits
+ * @param {Object} order - { side, type, quantity, price, stopPrice }
+ * @param {Object} context - { marketPrice, position (signed quantity), equity, buyingPower,
+ *   shortable, exposure (gross market value held), dayPnL, recentOrders (in the last minute), openTrades }
+ * @param {Object} limits - Limits, see DEFAULT_RISK_LIMITS
+ * @param {string} scope - 'ACCOUNT' or 'STRATEGY'
+ * @returns {Object[]} Violations { rule, scope, message, limit, value }
+ */
+const evaluateOrder = (order, context, limits, scope = 'ACCOUNT') => {
+  const violations = [];
+  const violate = (rule, message, limit, value) => violations.push({ rule, scope, message, limit, value });
+  const subject = scope === 'STRATEGY' ? 'Strategy' : 'Account';
+  const base = scope === 'STRATEGY' ? 'strategy capital' : 'equity';
+
+  const {
+    marketPrice = 0,
+    position = 0,
+    equity = 0,
+    buyingPower,
+    shortable = true,
+    exposure = 0,
+    recentOrders = 0,
+    openTrades = 0
+  } = context;
+
+  const price = order.price || order.stopPrice || marketPrice;
+  const value = price * order.quantity;
+  const change = order.side === 'BUY' ? order.quantity : -order.quantity;
+  const after = position + change;
+  const reducing = isReducing(position, change);
+  const opening = openingQuantity(position, change);
+
+  if (isSet(limits.maxOrdersPerMinute) && recentOrders >= limits.maxOrdersPerMinute) {
+    violate(RULES.ORDER_RATE,
+      `${subject} order rate limit of ${limits.maxOrdersPerMinute} orders per minute reached`,
+      limits.maxOrdersPerMinute, recentOrders);
+  }
+
+  if (isSet(limits.maxOrderValue) && value > limits.maxOrderValue) {
+    violate(RULES.ORDER_VALUE,
+      `Order value ${formatAmount(value)} exceeds the ${formatAmount(limits.maxOrderValue)} limit per order`,
+      limits.maxOrderValue, value);
+  }
+
+  // Fat finger check: limit and stop prices far away from the market
+  if (isSet(limits.priceBandPercent) && marketPrice > 0) {
+    [['Limit', order.price], ['Stop', order.stopPrice]]
+      .filter(([, orderPrice]) => orderPrice)
+      .forEach(([label, orderPrice]) => {
+        const deviation = Math.abs(orderPrice - marketPrice) / marketPrice * 100;
+        if (deviation > limits.priceBandPercent) {
+          violate(RULES.PRICE_BAND,
+            `${label} price ${formatAmount(orderPrice)} is ${formatPercent(deviation)} away from the market price ${formatAmount(marketPrice)} (band ${limits.priceBandPercent}%)`,
+            limits.priceBandPercent, deviation);
+        }
+      });
+  }
+
+  if (!shortable && after < 0 && opening > 0) {
+    violate(RULES.SHORT_SALE,
+      `${order.symbol || 'This symbol'} cannot be sold short in this account`,
+      0, opening);
+  }
+
+  if (isSet(buyingPower) && opening > 0) {
+    const required = opening * price + value * COMMISSION_RATE;
+    if (required > buyingPower) {
+      violate(RULES.BUYING_POWER,
+        `Insufficient buying power: order needs ${formatAmount(required)}, ${formatAmount(Math.max(buyingPower, 0))} available`,
+        buyingPower, required);
+    }
+  }
+
+  if (reducing) {
+    return violations;
+  }
+
+  if (isSet(limits.maxExposurePercent) && equity > 0) {
+    const exposureAfter = exposure + (Math.abs(after) - Math.abs(position)) * price;
+    const percent = exposureAfter / equity * 100;
+    if (percent > limits.maxExposurePercent) {
+      violate(RULES.EXPOSURE,
+        `${subject} exposure would reach ${formatPercent(percent)} of ${base} (limit ${limits.maxExposurePercent}%)`,
+        limits.maxExposurePercent, percent);
+    }
+  }
+
+  if (isSet(limits.maxPositionSizePercent) && equity > 0) {
+    const percent = Math.abs(after) * price / equity * 100;
+    if (percent > limits.maxPositionSizePercent) {
+      violate(RULES.CONCENTRATION,
+        `${order.symbol || 'Position'} would make up ${formatPercent(percent)} of ${base} (limit ${limits.maxPositionSizePercent}%)`,
+        limits.maxPositionSizePercent, percent);
+    }
+  }
+
+  const loss = Math.max(-(context.dayPnL || 0), 0);
+  const lossLimits = [
+    isSet(limits.maxDailyLoss) ? limits.maxDailyLoss : null,
+    isSet(limits.maxDailyLossPercent) && equity > 0 ? equity * limits.maxDailyLossPercent / 100 : null
+  ].filter(isSet);
+  if (lossLimits.length > 0) {
+    const lossLimit = Math.min(...lossLimits);
+    if (loss >= lossLimit) {
+      violate(RULES.DAILY_LOSS,
+        `${subject} daily loss of ${formatAmount(loss)} has reached the ${formatAmount(lossLimit)} limit; only orders that reduce positions are accepted`,
+        lossLimit, loss);
+    }
+  }
+
+  if (isSet(limits.maxConcurrentTrades) && position === 0 && openTrades >= limits.maxConcurrentTrades) {
+    violate(RULES.CONCURRENT_TRADES,
+      `${subject} already has ${openTrades} open trade(s) (limit ${limits.maxConcurrentTrades})`,
+      limits.maxConcurrentTrades, openTrades);
+  }
+
+  return violations;
+};
+
+module.exports = {
+  RULES,
+  DEFAULT_RISK_LIMITS,
+  COMMISSION_RATE,
+  isReducing,
+  openingQuantity,
+  netPositions,
+  dayPnL,
+  evaluateOrder
+};
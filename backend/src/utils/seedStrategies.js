@@ -65,13 +65,14 @@ function onTick(data) {
     },
     code: `
 // RSI Mean Reversion Strategy
-function onTick(data) {
-  const rsi = calculateRSI(data.prices, params.rsiPeriod);
-  
-  if (rsi < params.oversoldLevel && !position.isLong) {
-    buy(data.symbol, 50);
-  } else if (rsi > params.overboughtLevel && position.isLong) {
-    sell(data.symbol, position.quantity);
+function onBar(bar, ctx) {
+  const rsi = ctx.indicators.rsi(ctx.params.rsiPeriod);
+  if (rsi === null) return;
+
+  if (rsi < ctx.params.oversoldLevel && ctx.position.quantity === 0) {
+    ctx.buy(50, 'RSI Oversold');
+  } else if (rsi > ctx.params.overboughtLevel && ctx.position.quantity > 0) {
+    ctx.close('RSI Overbought');
   }
 }
     `,
@@ -194,16 +195,19 @@ function onTick(data) {
     },
     code: `
 // Support & Resistance Strategy
-function onTick(data) {
-  const levels = findSupportResistance(data.prices, params.lookbackPeriod, params.minTouches);
-  const currentPrice = data.prices[data.prices.length - 1];
-  
-  const nearSupport = levels.support.find(level => 
-    Math.abs(currentPrice - level) / level < 0.01
-  );
-  
-  if (nearSupport && !position.isLong) {
-    buy(data.symbol, 40);
+function onBar(bar, ctx) {
+  // Previous bars only, so today's range does not move the levels
+  const history = ctx.history(ctx.params.lookbackPeriod + 1).slice(0, -1);
+  if (history.length < ctx.params.lookbackPeriod) return;
+
+  const support = Math.min(...history.map(b => b.low));
+  const resistance = Math.max(...history.map(b => b.high));
+  const nearSupport = Math.abs(bar.close - support) / support < ctx.params.breakoutThreshold;
+
+  if (nearSupport && bar.close >= support && ctx.position.quantity === 0) {
+    ctx.buy(40, 'Bounce off support');
+  } else if (ctx.position.quantity > 0 && (bar.close >= resistance || bar.close < support)) {
+    ctx.close(bar.close >= resistance ? 'Reached resistance' : 'Support broken');
   }
 }
     `,
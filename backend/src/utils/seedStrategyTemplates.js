@@ -62,24 +62,23 @@ const strategyTemplates = [
     ],
     code: `
 // Moving Average Crossover Strategy
-function initialize() {
-  // Set up indicators
-  this.fastMA = SMA(this.params.fastPeriod);
-  this.slowMA = SMA(this.params.slowPeriod);
-}
+let previous = null;
 
-function onTick(data) {
-  const fast = this.fastMA.update(data.close);
-  const slow = this.slowMA.update(data.close);
-  
-  // Check for crossover signals
-  if (fast > slow && this.fastMA.previous() <= this.slowMA.previous()) {
-    // Golden cross - buy signal
-    this.buy(data.close, 'Golden Cross');
-  } else if (fast < slow && this.fastMA.previous() >= this.slowMA.previous()) {
-    // Death cross - sell signal
-    this.sell(data.close, 'Death Cross');
+function onBar(bar, ctx) {
+  const fast = ctx.indicators.sma(ctx.params.fastPeriod);
+  const slow = ctx.indicators.sma(ctx.params.slowPeriod);
+  if (fast === null || slow === null) return;
+
+  if (previous) {
+    if (fast > slow && previous.fast <= previous.slow) {
+      // Golden cross - buy signal
+      ctx.buy(undefined, 'Golden Cross');
+    } else if (fast < slow && previous.fast >= previous.slow) {
+      // Death cross - exit signal
+      ctx.close('Death Cross');
+    }
   }
+  previous = { fast, slow };
 }
     `,
     isBuiltIn: true,
@@ -162,22 +161,16 @@ function onTick(data) {
     ],
     code: `
 // RSI Mean Reversion Strategy
-function initialize() {
-  this.rsi = RSI(this.params.rsiPeriod);
-  this.position = 0;
-}
+function onBar(bar, ctx) {
+  const rsi = ctx.indicators.rsi(ctx.params.rsiPeriod);
+  if (rsi === null) return;
 
-function onTick(data) {
-  const rsiValue = this.rsi.update(data.close);
-  
-  if (rsiValue < this.params.oversoldLevel && this.position <= 0) {
+  if (rsi < ctx.params.oversoldLevel && ctx.position.quantity === 0) {
     // Oversold - buy signal
-    this.buy(data.close, 'RSI Oversold');
-    this.position = 1;
-  } else if (rsiValue > this.params.overboughtLevel && this.position >= 0) {
-    // Overbought - sell signal
-    this.sell(data.close, 'RSI Overbought');
-    this.position = -1;
+    ctx.buy(undefined, 'RSI Oversold');
+  } else if (rsi > ctx.params.overboughtLevel && ctx.position.quantity > 0) {
+    // Overbought - exit signal
+    ctx.close('RSI Overbought');
   }
 }
     `,
@@ -239,23 +232,19 @@ function onTick(data) {
     ],
     code: `
 // Bollinger Bands Breakout Strategy
-function initialize() {
-  this.bb = BollingerBands(this.params.bbPeriod, this.params.bbStdDev);
-  this.volumeMA = SMA(20);
-}
+function onBar(bar, ctx) {
+  const bands = ctx.indicators.bollinger(ctx.params.bbPeriod, ctx.params.bbStdDev);
+  const avgVolume = ctx.indicators.sma(20, 'volume');
+  if (bands === null || avgVolume === null) return;
 
-function onTick(data) {
-  const bands = this.bb.update(data.close);
-  const avgVolume = this.volumeMA.update(data.volume);
-  
-  const volumeConfirm = data.volume > (avgVolume * this.params.volumeThreshold);
-  
-  if (data.close > bands.upper && volumeConfirm) {
+  const volumeConfirm = bar.volume > avgVolume * ctx.params.volumeThreshold;
+
+  if (bar.close > bands.upper && volumeConfirm && ctx.position.quantity === 0) {
     // Upper band breakout with volume
-    this.buy(data.close, 'BB Upper Breakout');
-  } else if (data.close < bands.lower && volumeConfirm) {
-    // Lower band breakdown with volume
-    this.sell(data.close, 'BB Lower Breakdown');
+    ctx.buy(undefined, 'BB Upper Breakout');
+  } else if (bar.close < bands.lower && ctx.position.quantity > 0) {
+    // Lower band breakdown
+    ctx.close('BB Lower Breakdown');
   }
 }
     `,
@@ -317,24 +306,22 @@ function onTick(data) {
     ],
     code: `
 // MACD Momentum Strategy
-function initialize() {
-  this.macd = MACD(this.params.fastEMA, this.params.slowEMA, this.params.signalEMA);
-}
+let previous = null;
 
-function onTick(data) {
-  const macdData = this.macd.update(data.close);
-  
-  // MACD line crosses above signal line
-  if (macdData.macd > macdData.signal && 
-      this.macd.previousMACD() <= this.macd.previousSignal()) {
-    this.buy(data.close, 'MACD Bullish Crossover');
-  }
-  
-  // MACD line crosses below signal line
-  if (macdData.macd < macdData.signal && 
-      this.macd.previousMACD() >= this.macd.previousSignal()) {
-    this.sell(data.close, 'MACD Bearish Crossover');
+function onBar(bar, ctx) {
+  const macd = ctx.indicators.macd(ctx.params.fastEMA, ctx.params.slowEMA, ctx.params.signalEMA);
+  if (macd === null) return;
+
+  if (previous) {
+    if (macd.macd > macd.signal && previous.macd <= previous.signal) {
+      // MACD line crosses above signal line
+      ctx.buy(undefined, 'MACD Bullish Crossover');
+    } else if (macd.macd < macd.signal && previous.macd >= previous.signal) {
+      // MACD line crosses below signal line
+      ctx.close('MACD Bearish Crossover');
+    }
   }
+  previous = macd;
 }
     `,
     isBuiltIn: true,
@@ -0,0 +1,171 @@
+/**
+ * Strategy signal journal.
+ *
+ * Every order a strategy asks for through ctx.buy, ctx.sell or ctx.close is
+ * a signal. The engines and paper trading sessions record each one with the
+ * bar it was computed on, the context the strategy gave for it and what
+ * became of it: the fills or orders it produced, or why it produced none.
+ *
+ * A strategy explains a signal by passing a context as the last argument:
+ *
+ *   ctx.buy(quantity, reason, {
+ *     indicators: { 'SMA(10)': 101.2, 'SMA(20)': 100.8 },
+ *     conditions: [{ description: 'SMA(10) crosses above SMA(20)', passed: true, left: 101.2, right: 100.8 }]
+ *   })
+ *   ctx.close(reason, context)
+ *
+ * Built-in and visual strategies always do. Sandboxed code may, and is also
+ * credited with the indicators it read through ctx.indicators on that bar.
+ */
+
+const SIGNAL_ACTIONS = ['BUY', 'SELL', 'CLOSE'];
+
+// PENDING: queued for the next bar (backtests); SUBMITTED: order placed, not
+// yet filled (paper trading); SKIPPED: nothing to do, for example no cash or
+// no position; EXPIRED: still queued when the backtest ended
+const SIGNAL_STATUSES = ['PENDING', 'SUBMITTED', 'FILLED', 'PARTIALLY_FILLED', 'REJECTED', 'SKIPPED', 'EXPIRED'];
+
+// Where a signal that produced no fill was stopped
+const REJECTION_SOURCES = ['ENGINE', 'SESSION', 'ORDER', 'RISK'];
+
+const MAX_INDICATORS = 25;
+const MAX_CONDITIONS = 20;
+const MAX_TEXT_LENGTH = 200;
+
+const roundValue = value => Math.round(value * 1e6) / 1e6;
+
+const text = value => String(value).slice(0, MAX_TEXT_LENGTH);
+
+// Numbers, and objects of numbers for indicators with several outputs (MACD, Bollinger Bands)
+const indicatorValue = (value) => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? roundValue(value) : undefined;
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value)
+      .filter(([, output]) => typeof output === 'number' && Number.isFinite(output))
+      .map(([key, output]) => [text(key), roundValue(output)]);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  return undefined;
+};
+
+const operandValue = (value) => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? roundValue(value) : null;
+  }
+  return value === undefined ? null : indicatorValue(value) || null;
+};
+
+/**
+ * Keep the parts of a strategy-supplied context the journal stores: numeric
+ * indicator values and described conditions, within size limits
+ * @param {Object} context - { indicators, conditions } as passed by the strategy
+ * @returns {Object} { indicators, conditions }
+ */
+const normalizeSignalContext = (context) => {
+  const indicators = {};
+  const conditions = [];
+
+  if (!context || typeof context !== 'object') {
+    return { indicators, conditions };
+  }
+
+  if (context.indicators && typeof context.indicators === 'object') {
+    Object.entries(context.indicators).slice(0, MAX_INDICATORS).forEach(([name, value]) => {
+      const normalized = indicatorValue(value);
+      if (normalized !== undefined) {
+        indicators[text(name)] = normalized;
+      }
+    });
+  }
+
+  if (Array.isArray(context.conditions)) {
+    context.conditions.slice(0, MAX_CONDITIONS).forEach((condition) => {
+      if (!condition || typeof condition !== 'object' || !condition.description) return;
+      conditions.push({
+        description: text(condition.description),
+        passed: condition.passed !== false,
+        left: operandValue(condition.left),
+        right: operandValue(condition.right)
+      });
+    });
+  }
+
+  return { indicators, conditions };
+};
+
+/**
+ * A new journal entry for an order a strategy asked for on a bar
+ * @param {Object} order - { symbol, side, quantity, reason, context, bar }
+ *   where quantity is a share count, undefined (sized by the engine) or 'ALL'
+ * @returns {Object} Signal in the shape of the StrategySignal model, with
+ *   `fills` holding the engine's fill objects until it is persisted
+ */
+const createSignal = ({ symbol, side, quantity, reason, context, bar }) => {
+  const { indicators, conditions } = normalizeSignalContext(context);
+
+  return {
+    symbol,
+    action: quantity === 'ALL' ? 'CLOSE' : side,
+    side,
+    requestedQuantity: typeof quantity === 'number' ? quantity : undefined,
+    reason: reason === undefined ? undefined : text(reason),
+    signalDate: bar.date,
+    bar: {
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume
+    },
+    indicators,
+    conditions,
+    status: 'PENDING',
+    filledQuantity: 0,
+    fills: [],
+    orderIds: []
+  };
+};
+
+/**
+ * Record a fill against the signal that asked for it
+ */
+const recordSignalFill = (signal, fill) => {
+  signal.fills.push(fill);
+  signal.filledQuantity += fill.quantity;
+  signal.status = signal.requestedQuantity !== undefined && signal.filledQuantity < signal.requestedQuantity
+    ? 'PARTIALLY_FILLED'
+    : 'FILLED';
+};
+
+/**
+ * Record the order a paper trading signal was placed as; its trades are
+ * found through the order
+ */
+const recordSignalOrder = (signal, order) => {
+  signal.orderIds.push(order._id);
+  signal.filledQuantity = order.filledQuantity || 0;
+  signal.status = ['FILLED', 'PARTIALLY_FILLED'].includes(order.status) ? order.status : 'SUBMITTED';
+};
+
+/**
+ * Close a signal that produced no fill
+ * @param {string} status - REJECTED, SKIPPED or EXPIRED
+ * @param {Object} rejection - { source, message, violations }
+ */
+const rejectSignal = (signal, status, rejection) => {
+  signal.status = status;
+  signal.rejection = rejection;
+};
+
+module.exports = {
+  SIGNAL_ACTIONS,
+  SIGNAL_STATUSES,
+  REJECTION_SOURCES,
+  normalizeSignalContext,
+  createSignal,
+  recordSignalFill,
+  recordSignalOrder,
+  rejectSignal
+};
@@ -0,0 +1,342 @@
+/**
+ * The strategy package: a portable JSON file bundling a strategy with its
+ * parameter schema, parameter presets, version history and optionally the
+ * summary of a sample backtest.
+ *
+ * Format 2 (current):
+ *
+ *   {
+ *     "format": "share-trading.strategy-package",
+ *     "formatVersion": 2,
+ *     "exportedAt": ISO date,
+ *     "checksum": { "algorithm": "sha256", "value": hex digest of `content` },
+ *     "content": {
+ *       "strategy": { name, description, type, version, parameters, code, rules, tags, template },
+ *       "parameterSchema": [{ key, label, type, defaultValue, ... }],
+ *       "presets": [{ name, description, parameters, tags }],
+ *       "versions": [{ version, message, changes, restoredFrom, type, code, parameters, rules, author, createdAt }],
+ *       "backtest": { name, startDate, endDate, initialCapital, strategyVersion, summary } | null
+ *     }
+ *   }
+ *
+ * The checksum is taken over `content` serialized with sorted keys, so it
+ * does not depend on how a tool re-indents or reorders the file.
+ *
+ * Format 1 is the strategy object the builder used to download as is, marked
+ * with `exportVersion: "1.0"`. Older packages are migrated one format at a
+ * time up to the current one before they are validated.
+ */
+
+const { hashString } = require('./helpers');
+const { normalizeRules } = require('./strategyRules');
+const { validateParameterSchema } = require('./parameterSchema');
+const { parseVersion, compareVersions, stableStringify } = require('./strategyVersions');
+
+const PACKAGE_FORMAT = 'share-trading.strategy-package';
+const FORMAT_VERSION = 2;
+const CHECKSUM_ALGORITHM = 'sha256';
+
+const STRATEGY_TYPES = ['VISUAL', 'CODE', 'TEMPLATE'];
+
+const MAX_VERSIONS = 200;
+const MAX_PRESETS = 50;
+const MAX_CODE_LENGTH = 200000;
+
+const isObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Digest of package content
+ * @param {Object} content - The `content` of a package
+ * @returns {string} Hex sha256 digest
+ */
+const computeChecksum = (content) => hashString(stableStringify(JSON.parse(JSON.stringify(content))));
+
+// Each migration turns a package of format N into format N + 1
+const MIGRATIONS = {
+  1: (strategy) => ({
+    format: PACKAGE_FORMAT,
+    formatVersion: 2,
+    exportedAt: strategy.exportedAt || null,
+    content: {
+      strategy: {
+        name: strategy.name,
+        description: strategy.description,
+        type: strategy.type,
+        version: strategy.version || '1.0.0',
+        parameters: strategy.parameters,
+        code: strategy.code,
+        rules: strategy.rules,
+        tags: strategy.tags
+      },
+      parameterSchema: [],
+      presets: [],
+      versions: [],
+      backtest: null
+    }
+  })
+};
+
+/**
+ * Format version of a parsed package
+ * @returns {number|null} The format, or null when the data is no strategy package
+ */
+const detectFormatVersion = (data) => {
+  if (!isObject(data)) return null;
+  if (data.format === PACKAGE_FORMAT) {
+    return Number.isInteger(data.formatVersion) ? data.formatVersion : null;
+  }
+  if (data.exportVersion === '1.0' || (typeof data.name === 'string' && typeof data.type === 'string')) {
+    return 1;
+  }
+  return null;
+};
+
+/**
+ * Bring a package up to the current format
+ * @returns {{pkg: Object, migratedFrom: number|null}} The migrated package and
+ *   the format it was migrated from, if any
+ * @throws {Error} When the format is unknown or newer than this server
+ */
+const migratePackage = (data) => {
+  const formatVersion = detectFormatVersion(data);
+  if (formatVersion === null) {
+    throw new Error('This file is not a strategy package');
+  }
+  if (formatVersion > FORMAT_VERSION) {
+    throw new Error(`Package format ${formatVersion} is newer than the supported format ${FORMAT_VERSION}`);
+  }
+
+  let pkg = data;
+  for (let version = formatVersion; version < FORMAT_VERSION; version++) {
+    pkg = MIGRATIONS[version](pkg);
+  }
+
+  return { pkg, migratedFrom: formatVersion < FORMAT_VERSION ? formatVersion : null };
+};
+
+const validateStrategy = (strategy, errors, warnings) => {
+  if (!isObject(strategy)) {
+    errors.push('strategy must be an object');
+    return;
+  }
+
+  if (typeof strategy.name !== 'string' || !strategy.name.trim()) {
+    errors.push('strategy.name is required');
+  } else if (strategy.name.length > 100) {
+    errors.push('strategy.name must be at most 100 characters');
+  }
+
+  if (strategy.description !== undefined && typeof strategy.description !== 'string') {
+    errors.push('strategy.description must be a string');
+  } else if (strategy.description && strategy.description.length > 500) {
+    errors.push('strategy.description must be at most 500 characters');
+  }
+
+  if (!STRATEGY_TYPES.includes(strategy.type)) {
+    errors.push(`strategy.type must be one of ${STRATEGY_TYPES.join(', ')}`);
+  }
+
+  if (strategy.version !== undefined) {
+    try {
+      parseVersion(strategy.version);
+    } catch (error) {
+      errors.push(`strategy.version ${error.message}`);
+    }
+  }
+
+  if (strategy.parameters !== undefined && !isObject(strategy.parameters)) {
+    errors.push('strategy.parameters must be an object');
+  }
+
+  if (strategy.code !== undefined && typeof strategy.code !== 'string') {
+    errors.push('strategy.code must be a string');
+  } else if (strategy.code && strategy.code.length > MAX_CODE_LENGTH) {
+    errors.push(`strategy.code must be at most ${MAX_CODE_LENGTH} characters`);
+  }
+
+  if (strategy.type === 'CODE' && !(strategy.code && strategy.code.trim())) {
+    warnings.push('The code strategy has no code yet');
+  }
+
+  if (strategy.type === 'VISUAL' || strategy.rules) {
+    try {
+      normalizeRules(strategy.rules || { version: 1, entry: [], exit: [] });
+    } catch (error) {
+      errors.push(`strategy.rules: ${error.message}`);
+    }
+  }
+
+  if (strategy.tags !== undefined && !(Array.isArray(strategy.tags) && strategy.tags.every(tag => typeof tag === 'string'))) {
+    errors.push('strategy.tags must be a list of strings');
+  }
+};
+
+const validatePresets = (presets, errors) => {
+  if (!Array.isArray(presets)) {
+    errors.push('presets must be a list');
+    return;
+  }
+  if (presets.length > MAX_PRESETS) {
+    errors.push(`A package holds at most ${MAX_PRESETS} presets`);
+  }
+
+  presets.forEach((preset, index) => {
+    const path = `presets[${index}]`;
+    if (!isObject(preset)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof preset.name !== 'string' || !preset.name.trim()) errors.push(`${path}.name is required`);
+    if (!isObject(preset.parameters)) errors.push(`${path}.parameters must be an object`);
+  });
+};
+
+const validateVersions = (versions, strategy, errors, warnings) => {
+  if (!Array.isArray(versions)) {
+    errors.push('versions must be a list');
+    return;
+  }
+  if (versions.length > MAX_VERSIONS) {
+    errors.push(`A package holds at most ${MAX_VERSIONS} versions`);
+  }
+
+  const seen = new Set();
+  versions.forEach((version, index) => {
+    const path = `versions[${index}]`;
+    if (!isObject(version)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    try {
+      parseVersion(version.version);
+      if (seen.has(version.version)) {
+        errors.push(`${path} repeats version ${version.version}`);
+      }
+      seen.add(version.version);
+    } catch (error) {
+      errors.push(`${path}.version ${error.message}`);
+    }
+
+    if (typeof version.message !== 'string' || !version.message.trim()) errors.push(`${path}.message is required`);
+    if (!STRATEGY_TYPES.includes(version.type)) errors.push(`${path}.type must be one of ${STRATEGY_TYPES.join(', ')}`);
+    if (version.parameters !== undefined && !isObject(version.parameters)) errors.push(`${path}.parameters must be an object`);
+    if (version.code !== undefined && typeof version.code !== 'string') errors.push(`${path}.code must be a string`);
+  });
+
+  if (versions.length > 0 && isObject(strategy) && strategy.version && !seen.has(strategy.version)) {
+    warnings.push(`The history has no entry for the current version ${strategy.version}; it will be added`);
+  }
+};
+
+/**
+ * Migrate, verify and validate a package
+ * @param {Object} data - Parsed package file
+ * @returns {Object} { valid, errors, warnings, migratedFrom, checksum, package }
+ *   where checksum is 'valid', 'invalid' or 'missing'
+ */
+const validatePackage = (data) => {
+  const errors = [];
+  const warnings = [];
+  let migrated;
+
+  try {
+    migrated = migratePackage(data);
+  } catch (error) {
+    return { valid: false, errors: [error.message], warnings, migratedFrom: null, checksum: 'missing', package: null };
+  }
+
+  const { pkg, migratedFrom } = migrated;
+  const content = pkg.content;
+
+  if (migratedFrom) {
+    warnings.push(`Package was migrated from format ${migratedFrom} to format ${FORMAT_VERSION}`);
+  }
+
+  let checksum = 'missing';
+  if (isObject(pkg.checksum) && pkg.checksum.value) {
+    if (pkg.checksum.algorithm !== CHECKSUM_ALGORITHM) {
+      errors.push(`Unsupported checksum algorithm "${pkg.checksum.algorithm}"`);
+    } else if (isObject(content)) {
+      checksum = computeChecksum(content) === pkg.checksum.value ? 'valid' : 'invalid';
+      if (checksum === 'invalid') {
+        errors.push('Checksum mismatch: the package was modified or corrupted after it was exported');
+      }
+    }
+  } else if (!migratedFrom) {
+    warnings.push('Package has no checksum, so its integrity cannot be verified');
+  }
+
+  if (!isObject(content)) {
+    errors.push('content must be an object');
+  } else {
+    validateStrategy(content.strategy, errors, warnings);
+    errors.push(...validateParameterSchema(content.parameterSchema || []));
+    validatePresets(content.presets || [], errors);
+    validateVersions(content.versions || [], content.strategy, errors, warnings);
+    if (content.backtest !== undefined && content.backtest !== null && !isObject(content.backtest)) {
+      errors.push('backtest must be an object');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    migratedFrom,
+    checksum,
+    package: pkg
+  };
+};
+
+/**
+ * Assemble a package and sign its content
+ * @param {Object} content - { strategy, parameterSchema, presets, versions, backtest }
+ * @returns {Object} Package of the current format
+ */
+const buildPackage = (content) => {
+  const normalized = JSON.parse(JSON.stringify({
+    strategy: content.strategy,
+    parameterSchema: content.parameterSchema || [],
+    presets: content.presets || [],
+    versions: [...(content.versions || [])].sort((a, b) => compareVersions(a.version, b.version)),
+    backtest: content.backtest || null
+  }));
+
+  return {
+    format: PACKAGE_FORMAT,
+    formatVersion: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: {
+      algorithm: CHECKSUM_ALGORITHM,
+      value: computeChecksum(normalized)
+    },
+    content: normalized
+  };
+};
+
+/**
+ * First free name for an import, e.g. "RSI Swing (Imported 2)"
+ * @param {string} name - Name in the package
+ * @param {string[]} taken - Names already used by the user
+ */
+const suggestName = (name, taken) => {
+  const used = new Set(taken.map(existing => existing.toLowerCase()));
+  if (!used.has(name.toLowerCase())) return name;
+
+  for (let n = 1; ; n++) {
+    const candidate = `${name} (Imported${n > 1 ? ` ${n}` : ''})`;
+    if (!used.has(candidate.toLowerCase())) return candidate.slice(0, 100);
+  }
+};
+
+module.exports = {
+  PACKAGE_FORMAT,
+  FORMAT_VERSION,
+  computeChecksum,
+  detectFormatVersion,
+  migratePackage,
+  validatePackage,
+  buildPackage,
+  suggestName
+};
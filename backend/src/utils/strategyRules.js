@@ -0,0 +1,680 @@
+/**
+ * Visual strategy rules.
+ *
+ * A VISUAL strategy stores its logic as a JSON tree instead of code:
+ *
+ *   {
+ *     version: 1,
+ *     entry: [{ name, when, action: { type: 'BUY', size } }],
+ *     exit:  [{ name, when, action: { type: 'SELL', size } | { type: 'CLOSE' } }]
+ *   }
+ *
+ * `when` is a GROUP node ({ type: 'GROUP', logic: 'AND' | 'OR', conditions })
+ * whose conditions are CONDITION nodes ({ type: 'CONDITION', left, comparator,
+ * right }) or nested groups. Operands are an INDICATOR (from the catalogue
+ * below), a PRICE field of the bar or a constant NUMBER.
+ *
+ * Entry rules are only looked at while flat and exit rules only while holding
+ * a position; the first rule whose condition holds is acted on. The native
+ * handler and the compiled code follow the same semantics and the same
+ * indicator library, so a visual strategy and its compiled code trade alike.
+ */
+
+const {
+  SMA, EMA, WMA, RSI, MACD, BollingerBands, ATR, Stochastic, VWAP, OBV, ADX, SuperTrend, Highest, Lowest
+} = require('./indicators');
+
+const RULES_VERSION = 1;
+
+const MAX_RULES = 10;
+const MAX_DEPTH = 3;
+const MAX_CONDITIONS = 10;
+
+const PRICE_FIELDS = ['open', 'high', 'low', 'close', 'volume'];
+
+// Control characters and the line terminators JavaScript knows; a rule name
+// ends up in compiled code, where any of them could end a comment
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f\u2028\u2029]+/g;
+const LINE_TERMINATORS = /[\r\n\u2028\u2029]+/g;
+
+const COMPARATORS = {
+  GREATER_THAN: '>',
+  GREATER_THAN_OR_EQUAL: '>=',
+  LESS_THAN: '<',
+  LESS_THAN_OR_EQUAL: '<=',
+  CROSSES_ABOVE: 'crosses above',
+  CROSSES_BELOW: 'crosses below'
+};
+
+const SIZE_UNITS = {
+  BUY: ['PERCENT_OF_EQUITY', 'SHARES'],
+  SELL: ['PERCENT_OF_POSITION', 'SHARES']
+};
+
+/**
+ * Indicators a rule can use. `params` are in the argument order of the
+ * sandbox's ctx.indicators function named by `method`; `source` is the
+ * default bar field of indicators that let the user pick one. Bar indicators
+ * take the whole bar and the rest read the close.
+ */
+const INDICATORS = {
+  SMA: {
+    label: 'Simple Moving Average',
+    method: 'sma',
+    params: [{ key: 'period', default: 20, integer: true }],
+    source: 'close',
+    create: ({ period }) => new SMA(period)
+  },
+  EMA: {
+    label: 'Exponential Moving Average',
+    method: 'ema',
+    params: [{ key: 'period', default: 20, integer: true }],
+    source: 'close',
+    create: ({ period }) => new EMA(period)
+  },
+  WMA: {
+    label: 'Weighted Moving Average',
+    method: 'wma',
+    params: [{ key: 'period', default: 20, integer: true }],
+    source: 'close',
+    create: ({ period }) => new WMA(period)
+  },
+  RSI: {
+    label: 'Relative Strength Index',
+    method: 'rsi',
+    params: [{ key: 'period', default: 14, integer: true }],
+    source: 'close',
+    create: ({ period }) => new RSI(period)
+  },
+  MACD: {
+    label: 'MACD',
+    method: 'macd',
+    params: [
+      { key: 'fastPeriod', default: 12, integer: true },
+      { key: 'slowPeriod', default: 26, integer: true },
+      { key: 'signalPeriod', default: 9, integer: true }
+    ],
+    outputs: ['macd', 'signal', 'histogram'],
+    create: ({ fastPeriod, slowPeriod, signalPeriod }) => new MACD(fastPeriod, slowPeriod, signalPeriod)
+  },
+  BOLLINGER: {
+    label: 'Bollinger Bands',
+    method: 'bollinger',
+    params: [
+      { key: 'period', default: 20, integer: true },
+      { key: 'multiplier', default: 2 }
+    ],
+    outputs: ['upper', 'middle', 'lower'],
+    create: ({ period, multiplier }) => new BollingerBands(period, multiplier)
+  },
+  ATR: {
+    label: 'Average True Range',
+    method: 'atr',
+    params: [{ key: 'period', default: 14, integer: true }],
+    bar: true,
+    create: ({ period }) => new ATR(period)
+  },
+  STOCHASTIC: {
+    label: 'Stochastic',
+    method: 'stochastic',
+    params: [
+      { key: 'kPeriod', default: 14, integer: true },
+      { key: 'dPeriod', default: 3, integer: true }
+    ],
+    outputs: ['k', 'd'],
+    bar: true,
+    create: ({ kPeriod, dPeriod }) => new Stochastic(kPeriod, dPeriod)
+  },
+  VWAP: {
+    label: 'VWAP (daily)',
+    method: 'vwap',
+    params: [],
+    args: ['true'],
+    bar: true,
+    create: () => new VWAP({ resetDaily: true })
+  },
+  OBV: {
+    label: 'On-Balance Volume',
+    method: 'obv',
+    params: [],
+    bar: true,
+    create: () => new OBV()
+  },
+  ADX: {
+    label: 'Average Directional Index',
+    method: 'adx',
+    params: [{ key: 'period', default: 14, integer: true }],
+    outputs: ['adx', 'plusDI', 'minusDI'],
+    bar: true,
+    create: ({ period }) => new ADX(period)
+  },
+  SUPERTREND: {
+    label: 'SuperTrend',
+    method: 'superTrend',
+    params: [
+      { key: 'period', default: 10, integer: true },
+      { key: 'multiplier', default: 3 }
+    ],
+    outputs: ['value', 'direction'],
+    bar: true,
+    create: ({ period, multiplier }) => new SuperTrend(period, multiplier)
+  },
+  HIGHEST: {
+    label: 'Highest',
+    method: 'highest',
+    params: [{ key: 'period', default: 20, integer: true }],
+    source: 'high',
+    create: ({ period }) => new Highest(period)
+  },
+  LOWEST: {
+    label: 'Lowest',
+    method: 'lowest',
+    params: [{ key: 'period', default: 20, integer: true }],
+    source: 'low',
+    create: ({ period }) => new Lowest(period)
+  }
+};
+
+const isPlainObject = value => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const normalizeOperand = (operand, path) => {
+  if (!isPlainObject(operand)) {
+    throw new Error(`${path} must be an operand`);
+  }
+
+  switch (operand.type) {
+    case 'NUMBER': {
+      const value = Number(operand.value);
+      if (operand.value === '' || operand.value === null || !Number.isFinite(value)) {
+        throw new Error(`${path} must be a number`);
+      }
+      return { type: 'NUMBER', value };
+    }
+
+    case 'PRICE':
+      if (!PRICE_FIELDS.includes(operand.field)) {
+        throw new Error(`${path} must be one of ${PRICE_FIELDS.join(', ')}`);
+      }
+      return { type: 'PRICE', field: operand.field };
+
+    case 'INDICATOR': {
+      const definition = INDICATORS[operand.indicator];
+      if (!definition) {
+        throw new Error(`${path} uses an unknown indicator "${operand.indicator}"`);
+      }
+
+      const given = isPlainObject(operand.params) ? operand.params : {};
+      const params = {};
+      definition.params.forEach(({ key, default: fallback, integer }) => {
+        const value = given[key] === undefined || given[key] === '' ? fallback : Number(given[key]);
+        if (!Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+          throw new Error(`${path} ${operand.indicator} ${key} must be a positive ${integer ? 'whole ' : ''}number`);
+        }
+        params[key] = value;
+      });
+
+      const normalized = { type: 'INDICATOR', indicator: operand.indicator, params };
+
+      if (definition.source) {
+        const source = operand.source || definition.source;
+        if (!PRICE_FIELDS.includes(source)) {
+          throw new Error(`${path} ${operand.indicator} source must be one of ${PRICE_FIELDS.join(', ')}`);
+        }
+        normalized.source = source;
+      }
+
+      if (definition.outputs) {
+        const output = operand.output || definition.outputs[0];
+        if (!definition.outputs.includes(output)) {
+          throw new Error(`${path} ${operand.indicator} output must be one of ${definition.outputs.join(', ')}`);
+        }
+        normalized.output = output;
+      }
+
+      return normalized;
+    }
+
+    default:
+      throw new Error(`${path} must be an INDICATOR, PRICE or NUMBER operand`);
+  }
+};
+
+const normalizeNode = (node, path, depth) => {
+  if (!isPlainObject(node)) {
+    throw new Error(`${path} must be a condition or group`);
+  }
+
+  if (node.type === 'CONDITION') {
+    if (!COMPARATORS[node.comparator]) {
+      throw new Error(`${path} has an unknown comparator "${node.comparator}"`);
+    }
+    return {
+      type: 'CONDITION',
+      left: normalizeOperand(node.left, `${path} left side`),
+      comparator: node.comparator,
+      right: normalizeOperand(node.right, `${path} right side`)
+    };
+  }
+
+  if (node.type === 'GROUP') {
+    if (depth > MAX_DEPTH) {
+      throw new Error(`${path} nests groups deeper than ${MAX_DEPTH} levels`);
+    }
+    if (!['AND', 'OR'].includes(node.logic)) {
+      throw new Error(`${path} must combine its conditions with AND or OR`);
+    }
+    if (!Array.isArray(node.conditions) || node.conditions.length === 0) {
+      throw new Error(`${path} needs at least one condition`);
+    }
+    if (node.conditions.length > MAX_CONDITIONS) {
+      throw new Error(`${path} has more than ${MAX_CONDITIONS} conditions`);
+    }
+    return {
+      type: 'GROUP',
+      logic: node.logic,
+      conditions: node.conditions.map((child, index) => normalizeNode(child, `${path}.${index + 1}`, depth + 1))
+    };
+  }
+
+  throw new Error(`${path} must be a CONDITION or GROUP node`);
+};
+
+const normalizeAction = (action, side, path) => {
+  if (!isPlainObject(action)) {
+    throw new Error(`${path} needs an action`);
+  }
+
+  const allowed = side === 'entry' ? ['BUY'] : ['SELL', 'CLOSE'];
+  if (!allowed.includes(action.type)) {
+    throw new Error(`${path} action must be ${allowed.join(' or ')}`);
+  }
+
+  if (action.type === 'CLOSE') {
+    return { type: 'CLOSE' };
+  }
+
+  // A BUY without a size leaves sizing to the backtest or deployment config
+  if (action.size === undefined || action.size === null) {
+    if (action.type === 'SELL') {
+      throw new Error(`${path} SELL needs a size; use CLOSE to sell everything`);
+    }
+    return { type: action.type };
+  }
+
+  const { unit } = action.size;
+  const value = Number(action.size.value);
+  if (!SIZE_UNITS[action.type].includes(unit)) {
+    throw new Error(`${path} size must be in ${SIZE_UNITS[action.type].join(' or ')}`);
+  }
+  if (!(value > 0) || (unit === 'SHARES' && !Number.isInteger(value)) || (unit !== 'SHARES' && value > 100)) {
+    throw new Error(`${path} size must be ${unit === 'SHARES' ? 'a positive whole number of shares' : 'between 0 and 100 percent'}`);
+  }
+
+  return { type: action.type, size: { unit, value } };
+};
+
+const normalizeRuleList = (rules, side) => {
+  if (rules === undefined) return [];
+  if (!Array.isArray(rules)) {
+    throw new Error(`${side === 'entry' ? 'Entry' : 'Exit'} rules must be a list`);
+  }
+  if (rules.length > MAX_RULES) {
+    throw new Error(`A strategy holds up to ${MAX_RULES} ${side} rules`);
+  }
+
+  return rules.map((rule, index) => {
+    const path = `${side === 'entry' ? 'Entry' : 'Exit'} rule ${index + 1}`;
+    if (!isPlainObject(rule)) {
+      throw new Error(`${path} must be an object`);
+    }
+    return {
+      name: typeof rule.name === 'string' ? rule.name.replace(CONTROL_CHARACTERS, ' ').trim().slice(0, 100) : '',
+      when: normalizeNode(rule.when, `${path} condition`, 1),
+      action: normalizeAction(rule.action, side, path)
+    };
+  });
+};
+
+/**
+ * Validate visual rules and fill in indicator defaults
+ * @param {Object} rules - Rules as sent by the builder
+ * @returns {Object} Normalized rules
+ * @throws {Error} Describing the first invalid node
+ */
+const normalizeRules = (rules) => {
+  if (!isPlainObject(rules)) {
+    throw new Error('Rules must be an object');
+  }
+  if (rules.version !== RULES_VERSION) {
+    throw new Error(`Rules version ${rules.version} is not supported; expected version ${RULES_VERSION}`);
+  }
+
+  return {
+    version: RULES_VERSION,
+    entry: normalizeRuleList(rules.entry, 'entry'),
+    exit: normalizeRuleList(rules.exit, 'exit')
+  };
+};
+
+// Indicators are shared by every operand with the same settings, whichever output they read
+const indicatorKey = operand => [operand.indicator, ...Object.values(operand.params), operand.source || ''].join(':');
+
+const operandKey = (operand) => {
+  switch (operand.type) {
+    case 'NUMBER': return `number:${operand.value}`;
+    case 'PRICE': return `price:${operand.field}`;
+    default: return `${indicatorKey(operand)}${operand.output ? `.${operand.output}` : ''}`;
+  }
+};
+
+const describeOperand = (operand) => {
+  switch (operand.type) {
+    case 'NUMBER': return String(operand.value);
+    case 'PRICE': return operand.field.toUpperCase();
+    default: {
+      const args = Object.values(operand.params);
+      const definition = INDICATORS[operand.indicator];
+      if (operand.source && operand.source !== definition.source) args.push(operand.source);
+      const name = args.length ? `${operand.indicator}(${args.join(', ')})` : operand.indicator;
+      return operand.output && operand.output !== definition.outputs[0] ? `${name}.${operand.output}` : name;
+    }
+  }
+};
+
+const describeNode = (node, nested = false) => {
+  if (node.type === 'CONDITION') {
+    return `${describeOperand(node.left)} ${COMPARATORS[node.comparator]} ${describeOperand(node.right)}`;
+  }
+  const text = node.conditions.map(child => describeNode(child, true)).join(` ${node.logic} `);
+  return nested && node.conditions.length > 1 ? `(${text})` : text;
+};
+
+/**
+ * Human-readable form of a rule, used as the order reason when the rule has no name
+ * @param {Object} rule - Normalized rule
+ * @returns {string} For example "SMA(20) crosses above SMA(50) AND RSI(14) < 70"
+ */
+const describeRule = rule => rule.name || describeNode(rule.when);
+
+// Every operand of the rules, once each, in the order they first appear
+const collectOperands = (rules) => {
+  const operands = new Map();
+  const visit = (node) => {
+    if (node.type === 'GROUP') {
+      node.conditions.forEach(visit);
+      return;
+    }
+    [node.left, node.right].forEach((operand) => {
+      const key = operandKey(operand);
+      if (!operands.has(key)) operands.set(key, operand);
+    });
+  };
+  [...rules.entry, ...rules.exit].forEach(rule => visit(rule.when));
+  return operands;
+};
+
+const ready = (...values) => values.every(value => value !== null && value !== undefined && Number.isFinite(value));
+
+const compare = (comparator, a, b, previousA, previousB) => {
+  switch (comparator) {
+    case 'GREATER_THAN': return ready(a, b) && a > b;
+    case 'GREATER_THAN_OR_EQUAL': return ready(a, b) && a >= b;
+    case 'LESS_THAN': return ready(a, b) && a < b;
+    case 'LESS_THAN_OR_EQUAL': return ready(a, b) && a <= b;
+    case 'CROSSES_ABOVE': return ready(a, b, previousA, previousB) && previousA <= previousB && a > b;
+    case 'CROSSES_BELOW': return ready(a, b, previousA, previousB) && previousA >= previousB && a < b;
+    default: return false;
+  }
+};
+
+/**
+ * Shares an action asks for on this bar; 0 when it cannot be filled
+ */
+const actionQuantity = (action, bar, ctx) => {
+  const { unit, value } = action.size;
+  if (unit === 'SHARES') return value;
+  if (unit === 'PERCENT_OF_POSITION') return Math.floor(ctx.position.quantity * value / 100);
+  return bar.close > 0 ? Math.floor(ctx.equity * value / 100 / bar.close) : 0;
+};
+
+// Every condition of a rule's tree, depth first
+const leafConditions = node => (node.type === 'CONDITION' ? [node] : node.conditions.flatMap(leafConditions));
+
+/**
+ * Create a bar handler running visual rules natively, with the same
+ * onBar(bar, ctx) contract as the built-in strategies. Signals carry the
+ * values of every indicator the rules use and how each condition of the
+ * triggered rule evaluated.
+ * @param {Object} rules - Rules as stored on the strategy
+ * @returns {Object} Handler with onBar(bar, ctx)
+ */
+const createRulesHandler = (rules) => {
+  const normalized = normalizeRules(rules);
+  const operands = collectOperands(normalized);
+
+  const indicators = new Map();
+  operands.forEach((operand) => {
+    if (operand.type !== 'INDICATOR') return;
+    const key = indicatorKey(operand);
+    if (!indicators.has(key)) {
+      const definition = INDICATORS[operand.indicator];
+      indicators.set(key, {
+        indicator: definition.create(operand.params),
+        input: definition.bar ? bar => bar : bar => bar[operand.source || 'close'],
+        value: null
+      });
+    }
+  });
+
+  let previous = null;
+
+  // Why a rule fired: indicator values and each of its conditions with both sides
+  const explain = (rule, current) => {
+    const indicatorValues = {};
+    operands.forEach((operand, key) => {
+      if (operand.type === 'INDICATOR') {
+        indicatorValues[describeOperand(operand)] = current.get(key);
+      }
+    });
+
+    return {
+      indicators: indicatorValues,
+      conditions: leafConditions(rule.when).map(node => ({
+        description: describeNode(node),
+        passed: evaluate(node, current),
+        left: current.get(operandKey(node.left)),
+        right: current.get(operandKey(node.right))
+      }))
+    };
+  };
+
+  const evaluate = (node, current) => {
+    if (node.type === 'GROUP') {
+      return node.logic === 'AND'
+        ? node.conditions.every(child => evaluate(child, current))
+        : node.conditions.some(child => evaluate(child, current));
+    }
+    const left = operandKey(node.left);
+    const right = operandKey(node.right);
+    return compare(
+      node.comparator,
+      current.get(left),
+      current.get(right),
+      previous && previous.get(left),
+      previous && previous.get(right)
+    );
+  };
+
+  return {
+    onBar(bar, ctx) {
+      // Every indicator sees every bar, whether or not a rule reads it this time
+      indicators.forEach((entry) => {
+        entry.value = entry.indicator.update(entry.input(bar));
+      });
+
+      const current = new Map();
+      operands.forEach((operand, key) => {
+        if (operand.type === 'NUMBER') {
+          current.set(key, operand.value);
+        } else if (operand.type === 'PRICE') {
+          current.set(key, bar[operand.field]);
+        } else {
+          const value = indicators.get(indicatorKey(operand)).value;
+          current.set(key, value !== null && operand.output ? value[operand.output] : value);
+        }
+      });
+
+      const rulesToCheck = ctx.position.quantity > 0 ? normalized.exit : normalized.entry;
+      const rule = rulesToCheck.find(candidate => evaluate(candidate.when, current));
+      if (!rule) {
+        previous = current;
+        return;
+      }
+
+      const reason = describeRule(rule);
+      const context = explain(rule, current);
+      previous = current;
+      const { action } = rule;
+
+      if (action.type === 'CLOSE') {
+        ctx.close(reason, context);
+      } else if (!action.size) {
+        ctx.buy(undefined, reason, context);
+      } else {
+        const quantity = actionQuantity(action, bar, ctx);
+        if (quantity > 0) {
+          ctx[action.type === 'BUY' ? 'buy' : 'sell'](quantity, reason, context);
+        }
+      }
+    }
+  };
+};
+
+const compileOperand = (operand) => {
+  switch (operand.type) {
+    case 'NUMBER': return String(operand.value);
+    case 'PRICE': return `bar.${operand.field}`;
+    default: {
+      const definition = INDICATORS[operand.indicator];
+      const args = [
+        ...definition.params.map(({ key }) => String(operand.params[key])),
+        ...(definition.args || []),
+        ...(operand.source ? [`'${operand.source}'`] : [])
+      ];
+      const call = `ctx.indicators.${definition.method}(${args.join(', ')})`;
+      return operand.output ? `pick(${call}, '${operand.output}')` : call;
+    }
+  }
+};
+
+const COMPILED_COMPARATORS = {
+  GREATER_THAN: 'above',
+  GREATER_THAN_OR_EQUAL: 'atOrAbove',
+  LESS_THAN: 'below',
+  LESS_THAN_OR_EQUAL: 'atOrBelow',
+  CROSSES_ABOVE: 'crossesAbove',
+  CROSSES_BELOW: 'crossesBelow'
+};
+
+const compileNode = (node, indexes, nested = false) => {
+  if (node.type === 'CONDITION') {
+    const left = indexes.get(operandKey(node.left));
+    const right = indexes.get(operandKey(node.right));
+    return `${COMPILED_COMPARATORS[node.comparator]}(${left}, ${right})`;
+  }
+  const text = node.conditions.map(child => compileNode(child, indexes, true)).join(node.logic === 'AND' ? ' && ' : ' || ');
+  return nested && node.conditions.length > 1 ? `(${text})` : text;
+};
+
+const compileAction = (action, reason, indent) => {
+  const text = JSON.stringify(reason);
+  if (action.type === 'CLOSE') {
+    return [`${indent}ctx.close(${text});`];
+  }
+  if (!action.size) {
+    return [`${indent}ctx.buy(undefined, ${text});`];
+  }
+
+  const method = action.type === 'BUY' ? 'buy' : 'sell';
+  const { unit, value } = action.size;
+  const quantity = unit === 'SHARES'
+    ? String(value)
+    : unit === 'PERCENT_OF_POSITION'
+      ? `Math.floor(ctx.position.quantity * ${value} / 100)`
+      : `bar.close > 0 ? Math.floor(ctx.equity * ${value} / 100 / bar.close) : 0`;
+
+  return [
+    `${indent}const quantity = ${quantity};`,
+    `${indent}if (quantity > 0) ctx.${method}(quantity, ${text});`
+  ];
+};
+
+const compileRuleList = (rules, indexes) => rules.flatMap((rule) => {
+  const reason = describeRule(rule);
+  return [
+    `    // ${reason.replace(LINE_TERMINATORS, ' ')}`,
+    `    if (${compileNode(rule.when, indexes)}) {`,
+    ...compileAction(rule.action, reason, '      '),
+    '      return;',
+    '    }'
+  ];
+});
+
+/**
+ * Compile visual rules into strategy code for the sandboxed runtime that
+ * places the same orders as the native rules handler
+ * @param {Object} rules - Rules as stored on the strategy
+ * @returns {string} Strategy source defining onBar(bar, ctx)
+ */
+const compileRules = (rules) => {
+  const normalized = normalizeRules(rules);
+  const operands = [...collectOperands(normalized).entries()];
+  const indexes = new Map(operands.map(([key], index) => [key, index]));
+
+  return [
+    `// Compiled from visual rules (version ${RULES_VERSION}).`,
+    '// Entry rules are checked while flat and exit rules while holding a position;',
+    '// the first rule whose condition holds is acted on.',
+    '',
+    'let previous = null;',
+    '',
+    'const pick = (value, output) => (value === null || value === undefined ? null : value[output]);',
+    'const ready = (...values) => values.every(value => value !== null && value !== undefined && Number.isFinite(value));',
+    '',
+    'function onBar(bar, ctx) {',
+    '  // Every indicator is read on every bar, whether or not a rule needs it',
+    '  const current = [',
+    ...operands.map(([key, operand], index) =>
+      `    ${compileOperand(operand)}${index < operands.length - 1 ? ',' : ''} // ${describeOperand(operand)}`),
+    '  ];',
+    '  const before = previous;',
+    '  previous = current;',
+    '',
+    '  const above = (a, b) => ready(current[a], current[b]) && current[a] > current[b];',
+    '  const atOrAbove = (a, b) => ready(current[a], current[b]) && current[a] >= current[b];',
+    '  const below = (a, b) => ready(current[a], current[b]) && current[a] < current[b];',
+    '  const atOrBelow = (a, b) => ready(current[a], current[b]) && current[a] <= current[b];',
+    '  const crossesAbove = (a, b) => before !== null && ready(current[a], current[b], before[a], before[b])',
+    '    && before[a] <= before[b] && current[a] > current[b];',
+    '  const crossesBelow = (a, b) => before !== null && ready(current[a], current[b], before[a], before[b])',
+    '    && before[a] >= before[b] && current[a] < current[b];',
+    '',
+    '  if (ctx.position.quantity > 0) {',
+    ...compileRuleList(normalized.exit, indexes),
+    '  } else {',
+    ...compileRuleList(normalized.entry, indexes),
+    '  }',
+    '}',
+    ''
+  ].join('\n');
+};
+
+module.exports = {
+  RULES_VERSION,
+  INDICATORS,
+  COMPARATORS,
+  normalizeRules,
+  describeRule,
+  createRulesHandler,
+  compileRules
+};
@@ -0,0 +1,231 @@
+/**
+ * Helpers of the strategy version history: semver numbering, the snapshot a
+ * version stores and the diff between two snapshots.
+ *
+ * A version captures everything that decides what a strategy trades (its
+ * type, code, parameters and visual rules), so a backtest that records the
+ * version it ran can always be traced back to the exact logic.
+ */
+
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+
+const BUMPS = ['major', 'minor', 'patch'];
+
+// Fields of a strategy copied into each version
+const VERSIONED_FIELDS = ['type', 'code', 'parameters', 'rules'];
+
+// Longest code, in lines, diffed line by line; longer code is shown as replaced
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Split a semver string into its numbers
+ * @param {string} version - e.g. "1.2.3"
+ * @returns {number[]} [major, minor, patch]
+ * @throws {Error} When the version is not MAJOR.MINOR.PATCH
+ */
+const parseVersion = (version) => {
+  const match = SEMVER_PATTERN.exec(String(version || ''));
+  if (!match) {
+    throw new Error(`"${version}" is not a MAJOR.MINOR.PATCH version`);
+  }
+  return match.slice(1).map(Number);
+};
+
+/**
+ * Next version after a bump; lower parts reset to zero
+ * @param {string} version - Current version
+ * @param {string} bump - major, minor or patch
+ * @returns {string} Bumped version
+ */
+const bumpVersion = (version, bump = 'patch') => {
+  if (!BUMPS.includes(bump)) {
+    throw new Error(`Version bump must be one of ${BUMPS.join(', ')}`);
+  }
+
+  const [major, minor, patch] = parseVersion(version);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+};
+
+/**
+ * Order two versions
+ * @returns {number} Negative, zero or positive like a sort comparator
+ */
+const compareVersions = (a, b) => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+};
+
+/**
+ * The versioned fields of a strategy as plain data
+ * @param {Object} strategy - Strategy document or object
+ * @returns {Object} Snapshot with type, code, parameters and rules
+ */
+const snapshotStrategy = (strategy) => {
+  const source = typeof strategy.toObject === 'function' ? strategy.toObject() : strategy;
+  return {
+    type: source.type,
+    code: source.code || '',
+    parameters: source.parameters || {},
+    rules: source.rules || undefined
+  };
+};
+
+// JSON with sorted keys, so equal objects stored in a different key order compare equal
+const stableStringify = (value) => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+};
+
+/**
+ * Versioned fields that differ between two snapshots
+ * @returns {string[]} Names of the changed fields
+ */
+const changedFields = (before, after) => VERSIONED_FIELDS.filter(field =>
+  stableStringify(before[field]) !== stableStringify(after[field])
+);
+
+/**
+ * Default message of a version that was saved without one
+ * @param {string[]} changes - Changed fields
+ */
+const describeChanges = (changes) => {
+  if (changes.length === 0) return 'No changes';
+  const names = changes.map(field => (field === 'type' ? 'strategy type' : field));
+  const list = names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : names[0];
+  return `Updated ${list}`;
+};
+
+/**
+ * Side-by-side line diff of two texts. Unchanged lines pair up; a run of
+ * removed lines pairs with the run of added lines that replaces it.
+ * @returns {{rows: Object[], added: number, removed: number}} Rows with left
+ *   and right cells ({number, text} or null) and a type of equal, changed,
+ *   added or removed
+ */
+const diffLines = (oldText = '', newText = '') => {
+  const oldLines = oldText ? oldText.split('\n') : [];
+  const newLines = newText ? newText.split('\n') : [];
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // Edit script from a longest common subsequence table, or a full
+  // replacement when the table would be too large
+  const ops = [];
+  if (n > MAX_DIFF_LINES || m > MAX_DIFF_LINES) {
+    oldLines.forEach((_, i) => ops.push(['removed', i, null]));
+    newLines.forEach((_, j) => ops.push(['added', null, j]));
+  } else {
+    const lcs = Array.from({ length: n + 1 }, () => new Uint16Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldLines[i] === newLines[j]) {
+        ops.push(['equal', i++, j++]);
+      } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        ops.push(['added', null, j++]);
+      } else {
+        ops.push(['removed', i++, null]);
+      }
+    }
+  }
+
+  const cell = (lines, index) => (index === null ? null : { number: index + 1, text: lines[index] });
+  const rows = [];
+  let added = 0;
+  let removed = 0;
+  let k = 0;
+
+  while (k < ops.length) {
+    if (ops[k][0] === 'equal') {
+      rows.push({ type: 'equal', left: cell(oldLines, ops[k][1]), right: cell(newLines, ops[k][2]) });
+      k++;
+      continue;
+    }
+
+    const removedRun = [];
+    const addedRun = [];
+    while (k < ops.length && ops[k][0] !== 'equal') {
+      if (ops[k][0] === 'removed') removedRun.push(ops[k][1]);
+      else addedRun.push(ops[k][2]);
+      k++;
+    }
+    removed += removedRun.length;
+    added += addedRun.length;
+
+    for (let r = 0; r < Math.max(removedRun.length, addedRun.length); r++) {
+      const left = r < removedRun.length ? cell(oldLines, removedRun[r]) : null;
+      const right = r < addedRun.length ? cell(newLines, addedRun[r]) : null;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return { rows, added, removed };
+};
+
+/**
+ * Parameters added, removed or changed between two parameter sets
+ * @returns {Object[]} { key, from, to, change } sorted by key
+ */
+const diffParameters = (before = {}, after = {}) => {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return keys
+    .filter(key => stableStringify(before[key]) !== stableStringify(after[key]))
+    .map(key => ({
+      key,
+      from: before[key],
+      to: after[key],
+      change: !(key in before) ? 'added' : !(key in after) ? 'removed' : 'changed'
+    }));
+};
+
+/**
+ * Everything that differs between two version snapshots
+ * @returns {Object} { type, code, parameters, rules }
+ */
+const diffSnapshots = (from, to) => ({
+  type: from.type !== to.type ? { from: from.type, to: to.type } : null,
+  code: diffLines(from.code, to.code),
+  parameters: diffParameters(from.parameters, to.parameters),
+  rules: stableStringify(from.rules) !== stableStringify(to.rules)
+    ? { from: from.rules || null, to: to.rules || null }
+    : null
+});
+
+module.exports = {
+  BUMPS,
+  VERSIONED_FIELDS,
+  parseVersion,
+  bumpVersion,
+  compareVersions,
+  stableStringify,
+  snapshotStrategy,
+  changedFields,
+  describeChanges,
+  diffLines,
+  diffParameters,
+  diffSnapshots
+};
@@ -0,0 +1,177 @@
+/**
+ * Exchange trading calendar: session phases of NSE and BSE cash markets,
+ * weekends and holidays. All functions are pure; the holiday list is
+ * passed in as a Map of local date ('YYYY-MM-DD') -> holiday.
+ *
+ * A trading day runs through these phases (IST):
+ *   PRE_OPEN        09:00-09:08  orders collected, nothing matched
+ *   PRE_OPEN_MUTED  09:08-09:15  call auction matching; no order entry
+ *   OPEN            09:15-15:30  continuous trading
+ *   CLOSING_MUTED   15:30-15:40  closing price calculation; no order entry
+ *   POST_CLOSE      15:40-16:00  orders collected for the next session
+ * and is CLOSED outside them, on weekends and on holidays.
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const EXCHANGES = ['NSE', 'BSE'];
+
+const PHASES = {
+  CLOSED: { acceptsOrders: false, matches: false },
+  PRE_OPEN: { acceptsOrders: true, matches: false },
+  PRE_OPEN_MUTED: { acceptsOrders: false, matches: false },
+  OPEN: { acceptsOrders: true, matches: true },
+  CLOSING_MUTED: { acceptsOrders: false, matches: false },
+  POST_CLOSE: { acceptsOrders: true, matches: false }
+};
+
+const toMinute = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Phase boundaries as [phase, start, end) in local time
+const STANDARD_SCHEDULE = [
+  ['PRE_OPEN', '09:00', '09:08'],
+  ['PRE_OPEN_MUTED', '09:08', '09:15'],
+  ['OPEN', '09:15', '15:30'],
+  ['CLOSING_MUTED', '15:30', '15:40'],
+  ['POST_CLOSE', '15:40', '16:00']
+];
+
+const SESSIONS = {
+  NSE: {
+    exchange: 'NSE',
+    timezone: 'Asia/Kolkata',
+    utcOffsetMinutes: 330,
+    openMinute: toMinute('09:15'),
+    closeMinute: toMinute('15:30'),
+    schedule: STANDARD_SCHEDULE
+  },
+  BSE: {
+    exchange: 'BSE',
+    timezone: 'Asia/Kolkata',
+    utcOffsetMinutes: 330,
+    openMinute: toMinute('09:15'),
+    closeMinute: toMinute('15:30'),
+    schedule: STANDARD_SCHEDULE
+  }
+};
+
+/**
+ * Local calendar date and minute of day of a time
+ * @param {Date} date - UTC time
+ * @param {Object} session - Exchange session
+ * @returns {Object} { day (days since epoch), key ('YYYY-MM-DD'), minute, weekday (0 = Sunday) }
+ */
+const localTime = (date, session) => {
+  const local = new Date(date).getTime() + session.utcOffsetMinutes * MINUTE;
+  const day = Math.floor(local / DAY);
+  return {
+    day,
+    key: new Date(day * DAY).toISOString().slice(0, 10),
+    minute: Math.floor((local - day * DAY) / MINUTE),
+    weekday: (day + 4) % 7
+  };
+};
+
+/**
+ * Whether the exchange trades on a date. Holidays with a special session
+ * (such as Muhurat trading) count as trading days.
+ * @param {Date} date - Any time on the date
+ * @param {Object} session - Exchange session
+ * @param {Map} holidays - Local date -> holiday
+ * @returns {boolean} True on trading days
+ */
+const isTradingDay = (date, session, holidays = new Map()) => {
+  const { key, weekday } = localTime(date, session);
+  const holiday = holidays.get(key);
+
+  if (holiday) {
+    return Boolean(holiday.specialSession);
+  }
+  return weekday !== 0 && weekday !== 6;
+};
+
+// Phase schedule for a date: the standard one or a holiday's special session
+const scheduleFor = (key, session, holidays) => {
+  const holiday = holidays.get(key);
+  if (holiday && holiday.specialSession) {
+    return [['OPEN', holiday.specialSession.open, holiday.specialSession.close]];
+  }
+  return session.schedule;
+};
+
+/**
+ * Session phase at a time
+ * @param {Date} date - UTC time
+ * @param {Object} session - Exchange session
+ * @param {Map} holidays - Local date -> holiday
+ * @returns {Object} { phase, acceptsOrders, matches, holiday }
+ */
+const getPhase = (date, session, holidays = new Map()) => {
+  const { key, minute } = localTime(date, session);
+  const holiday = holidays.get(key);
+
+  if (!isTradingDay(date, session, holidays)) {
+    return { phase: 'CLOSED', ...PHASES.CLOSED, holiday: holiday ? holiday.description : undefined };
+  }
+
+  const entry = scheduleFor(key, session, holidays)
+    .find(([, start, end]) => minute >= toMinute(start) && minute < toMinute(end));
+  const phase = entry ? entry[0] : 'CLOSED';
+
+  return { phase, ...PHASES[phase], holiday: holiday ? holiday.description : undefined };
+};
+
+// UTC time of a local minute on a local day
+const toUtc = (day, minute, session) => new Date(day * DAY + (minute - session.utcOffsetMinutes) * MINUTE);
+
+// First start (edge 1) or end (edge 2) of an OPEN phase after a time
+const nextOpenEdge = (date, session, holidays, edge) => {
+  const from = new Date(date).getTime();
+  const { day } = localTime(date, session);
+
+  // Long weekends and holiday clusters never span a month
+  for (let offset = 0; offset < 30; offset++) {
+    if (!isTradingDay(toUtc(day + offset, 0, session), session, holidays)) continue;
+
+    const key = new Date((day + offset) * DAY).toISOString().slice(0, 10);
+    const open = scheduleFor(key, session, holidays).find(([phase]) => phase === 'OPEN');
+    const time = toUtc(day + offset, toMinute(open[edge]), session);
+    if (time.getTime() > from) return time;
+  }
+
+  return null;
+};
+
+/**
+ * Start of the next continuous trading session
+ * @param {Date} date - UTC time to search from
+ * @param {Object} session - Exchange session
+ * @param {Map} holidays - Local date -> holiday
+ * @returns {Date|null} Next OPEN phase start after date
+ */
+const nextOpen = (date, session, holidays = new Map()) => nextOpenEdge(date, session, holidays, 1);
+
+/**
+ * End of the current or next continuous trading session
+ * @param {Date} date - UTC time to search from
+ * @param {Object} session - Exchange session
+ * @param {Map} holidays - Local date -> holiday
+ * @returns {Date|null} Next OPEN phase end after date
+ */
+const nextClose = (date, session, holidays = new Map()) => nextOpenEdge(date, session, holidays, 2);
+
+module.exports = {
+  EXCHANGES,
+  PHASES,
+  SESSIONS,
+  toMinute,
+  localTime,
+  isTradingDay,
+  getPhase,
+  nextOpen,
+  nextClose
+};
@@ -0,0 +1,102 @@
+/**
+ * Helpers for walk-forward analysis.
+ *
+ * The backtest range is cut into consecutive train/test windows. Parameters
+ * are optimized on each train window and then traded, unchanged, on the test
+ * window that follows it, so every test result is out-of-sample.
+ */
+
+const { round, mean, standardDeviation } = require('./performanceMetrics');
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Split bars into rolling (or anchored) train/test windows
+ * @param {Array} bars - Bars sorted by date
+ * @param {Object} config - { trainDays, testDays, anchored }
+ * @returns {Array} Windows as bar index ranges
+ *   { trainStart, testStart, testEnd } where train is [trainStart, testStart)
+ *   and test is [testStart, testEnd)
+ */
+const buildWalkForwardWindows = (bars, { trainDays, testDays, anchored = false }) => {
+  if (bars.length === 0) return [];
+
+  const time = index => new Date(bars[index].date).getTime();
+  const firstIndexFrom = (timestamp, from = 0) => {
+    let index = from;
+    while (index < bars.length && time(index) < timestamp) index++;
+    return index;
+  };
+
+  const windows = [];
+  const origin = time(0);
+  let testStartTime = origin + trainDays * MS_PER_DAY;
+
+  while (true) {
+    const testStart = firstIndexFrom(testStartTime);
+    if (testStart >= bars.length) break;
+
+    const testEnd = firstIndexFrom(testStartTime + testDays * MS_PER_DAY, testStart);
+    const trainStart = anchored ? 0 : firstIndexFrom(testStartTime - trainDays * MS_PER_DAY);
+
+    windows.push({ trainStart, testStart, testEnd });
+    testStartTime += testDays * MS_PER_DAY;
+  }
+
+  return windows;
+};
+
+/**
+ * Walk-forward efficiency: annualized out-of-sample return as a fraction of
+ * the average annualized in-sample return. Around 0.5 or better suggests the
+ * optimized parameters carry over to unseen data.
+ * @param {number} outOfSampleReturn - Annualized out-of-sample return (%)
+ * @param {number[]} inSampleReturns - Annualized in-sample return per window (%)
+ * @returns {number} Efficiency ratio (0 when in-sample returns are not positive)
+ */
+const walkForwardEfficiency = (outOfSampleReturn, inSampleReturns) => {
+  const inSample = mean(inSampleReturns);
+  return inSample > 0 ? round(outOfSampleReturn / inSample, 4) : 0;
+};
+
+/**
+ * How much each optimized parameter moved between windows
+ * @param {Array} parameterSets - Best parameters per window
+ * @param {Array} ranges - Optimization ranges ({ key, min, max })
+ * @returns {Object} { parameters: [{ key, values, mean, stdDev, min, max, coefficientOfVariation }], score }
+ *   where score is 1 when every window chose the same values and falls to 0
+ *   as values spread across the whole search range
+ */
+const parameterStability = (parameterSets, ranges) => {
+  const spreads = [];
+  const parameters = ranges.map(range => {
+    const values = parameterSets.map(set => set[range.key]).filter(Number.isFinite);
+    const avg = mean(values);
+    const stdDev = standardDeviation(values);
+    const width = range.max - range.min;
+
+    // Half the range width is the largest spread values inside it can have
+    spreads.push(width > 0 ? Math.min(1, stdDev / (width / 2)) : 0);
+
+    return {
+      key: range.key,
+      values,
+      mean: round(avg, 4),
+      stdDev: round(stdDev, 4),
+      min: values.length > 0 ? Math.min(...values) : 0,
+      max: values.length > 0 ? Math.max(...values) : 0,
+      coefficientOfVariation: avg !== 0 ? round(stdDev / Math.abs(avg), 4) : 0
+    };
+  });
+
+  return {
+    parameters,
+    score: spreads.length > 0 ? round(1 - mean(spreads), 4) : 1
+  };
+};
+
+module.exports = {
+  buildWalkForwardWindows,
+  walkForwardEfficiency,
+  parameterStability
+};
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, Link2 } from 'lucide-react';
+import { MainLayout } from '@/components/layout';
+import { Button, useToast } from '@/components/ui';
+import { BacktestComparison } from '@/components/features/backtesting';
+import { MAX_COMPARE_BACKTESTS } from '@/components/features/backtesting/backtest-comparison';
+import { useAuthStore } from '@/stores/auth-store';
+import { backtestingApi, Backtest } from '@/lib/api/backtesting';
+
+export default function BacktestComparePage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user } = useAuthStore();
+  const { addToast } = useToast();
+  const [backtests, setBacktests] = useState<Backtest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const idsParam = searchParams.get('ids') || '';
+  const backtestIds = useMemo(
+    () => Array.from(new Set(idsParam.split(',').filter(Boolean))).slice(0, MAX_COMPARE_BACKTESTS),
+    [idsParam]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadBacktests = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        if (backtestIds.length < 2) {
+          throw new Error('Pick at least two backtests to compare');
+        }
+
+        const loaded = await Promise.all(backtestIds.map(id => backtestingApi.getBacktest(id)));
+        const missing = loaded.filter(backtest => !backtest.result);
+        if (missing.length > 0) {
+          throw new Error(`${missing.map(backtest => backtest.name).join(', ')} has no results yet`);
+        }
+
+        if (isMounted) {
+          setBacktests(loaded);
+        }
+      } catch (err: any) {
+        if (isMounted) {
+          setError(err?.message || 'Failed to load backtests');
+        }
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadBacktests();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [backtestIds]);
+
+  const handleRemove = (backtestId: string) => {
+    const remaining = backtestIds.filter(id => id !== backtestId);
+    router.replace(`/backtesting/compare?ids=${remaining.join(',')}`);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      addToast({ type: 'success', title: 'Comparison link copied' });
+    } catch {
+      addToast({ type: 'error', title: 'Could not copy link', description: window.location.href });
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <MainLayout user={user}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/backtesting')}
+              className="flex items-center space-x-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back</span>
+            </Button>
+
+            <div>
+              <h1 className="text-3xl font-bold text-neutral-900 dark:text-white">
+                Compare Backtests
+              </h1>
+              <p className="text-neutral-600 dark:text-neutral-400">
+                {backtestIds.length} backtests side by side
+              </p>
+            </div>
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopyLink}
+            className="flex items-center space-x-2"
+          >
+            <Link2 className="h-4 w-4" />
+            <span>Copy Link</span>
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center min-h-[400px]">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <h2 className="text-2xl font-bold text-neutral-900 dark:text-white mb-4">
+              {error}
+            </h2>
+            <Button onClick={() => router.push('/backtesting')}>
+              Back to Backtesting
+            </Button>
+          </div>
+        ) : (
+          <BacktestComparison backtests={backtests} onRemove={handleRemove} />
+        )}
+      </div>
+    </MainLayout>
+  );
+}
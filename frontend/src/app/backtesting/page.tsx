@@ -93,6 +93,10 @@ export default function BacktestingPage() {
     await retryBacktest(backtestId);
   };
 
+  const handleCompareBacktests = (backtestIds: string[]) => {
+    router.push(`/backtesting/compare?ids=${backtestIds.join(',')}`);
+  };
+
   if (!user) {
     return null;
   }
@@ -215,6 +219,7 @@ export default function BacktestingPage() {
           onDelete={handleDeleteBacktest}
           onViewResults={handleViewResults}
           onRetry={handleRetryBacktest}
+          onCompare={handleCompareBacktests}
         />
 
         {/* Configuration Modal */}
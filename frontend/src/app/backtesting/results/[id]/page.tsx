@@ -10,22 +10,28 @@ import {
   BacktestDrawdownChart,
   BacktestTradeLedger,
   BacktestMetricsDashboard,
-  ExportModal
+  ExportModal,
+  OptimizationResults,
+  WalkForwardResults,
+  PortfolioAnalytics
 } from '@/components/features/backtesting';
+import { SignalDetailsModal, SignalJournal } from '@/components/features/strategies';
 import { useAuthStore } from '@/stores/auth-store';
-import { mockBacktestResults } from '@/mocks/data/backtests';
-import { mockStrategies } from '@/mocks/data/strategies';
+import { backtestingApi, Backtest } from '@/lib/api/backtesting';
+import { strategiesApi } from '@/lib/api/strategies';
 import { BacktestResult, Strategy } from '@/types/trading';
 
 export default function BacktestResultsPage() {
   const params = useParams();
   const router = useRouter();
   const { user } = useAuthStore();
+  const [backtest, setBacktest] = useState<Backtest | null>(null);
   const [result, setResult] = useState<BacktestResult | null>(null);
   const [strategy, setStrategy] = useState<Strategy | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [selectedTradeId, setSelectedTradeId] = useState<string | null>(null);
   
   // Chart refs for export functionality
   const equityCurveRef = useRef<HTMLDivElement>(null);
@@ -34,23 +40,88 @@ export default function BacktestResultsPage() {
 
   useEffect(() => {
     const backtestId = params.id as string;
-    
-    // Find the backtest result
-    const backtestResult = mockBacktestResults.find(r => r.backtestId === backtestId);
-    
-    if (!backtestResult) {
-      setError('Backtest result not found');
-      setLoading(false);
-      return;
-    }
-
-    setResult(backtestResult);
-
-    // Find the associated strategy
-    const associatedStrategy = mockStrategies.find(s => s.id === backtestResult.backtestId.replace('backtest-', 'strategy-'));
-    setStrategy(associatedStrategy || null);
-    
-    setLoading(false);
+    let isMounted = true;
+
+    const loadResult = async () => {
+      try {
+        const [apiBacktest, trades] = await Promise.all([
+          backtestingApi.getBacktest(backtestId),
+          backtestingApi.getBacktestTrades(backtestId),
+        ]);
+
+        if (!apiBacktest.result) {
+          throw new Error('This backtest has no results yet');
+        }
+
+        const apiStrategy = await strategiesApi.getStrategy(apiBacktest.strategyId).catch(() => null);
+        if (!isMounted) return;
+
+        // Convert API backtest to UI format
+        const { result: apiResult } = apiBacktest;
+        setBacktest(apiBacktest);
+        setResult({
+          id: apiBacktest._id,
+          backtestId: apiBacktest._id,
+          summary: apiResult.summary,
+          equityCurve: apiResult.equityCurve.map(point => ({ ...point, date: new Date(point.date) })),
+          drawdownCurve: apiResult.drawdownCurve.map(point => ({ ...point, date: new Date(point.date) })),
+          trades: trades.map(trade => ({
+            id: trade._id,
+            orderId: trade._id,
+            strategyId: trade.strategyId,
+            symbol: trade.symbol,
+            side: trade.side,
+            quantity: trade.quantity,
+            price: trade.price,
+            commission: trade.commission,
+            pnl: trade.pnl || 0,
+            executedAt: new Date(trade.executedAt),
+          })),
+          monthlyReturns: apiResult.monthlyReturns,
+          // Results saved before benchmark support lack the benchmark-relative fields
+          riskMetrics: {
+            ...apiResult.riskMetrics,
+            trackingError: apiResult.riskMetrics.trackingError ?? 0,
+            upCapture: apiResult.riskMetrics.upCapture ?? 0,
+            downCapture: apiResult.riskMetrics.downCapture ?? 0,
+          },
+          attribution: apiResult.attribution,
+          exposureCurve: apiResult.exposureCurve?.map(point => ({ ...point, date: new Date(point.date) })),
+          correlations: apiResult.correlations,
+          benchmark: apiResult.benchmark,
+        });
+        setStrategy(apiStrategy ? {
+          id: apiStrategy._id,
+          name: apiStrategy.name,
+          description: apiStrategy.description,
+          type: apiStrategy.type,
+          status: apiStrategy.status,
+          parameters: apiStrategy.parameters || {},
+          code: apiStrategy.code || '',
+          templateId: apiStrategy.templateId,
+          isTemplate: false,
+          tags: apiStrategy.tags || [],
+          createdAt: new Date(apiStrategy.createdAt),
+          updatedAt: new Date(apiStrategy.updatedAt),
+          deployedAt: apiStrategy.deployedAt ? new Date(apiStrategy.deployedAt) : undefined,
+          performance: apiStrategy.performance,
+        } : null);
+      } catch (err: any) {
+        if (isMounted) {
+          setError(err?.message || 'Backtest result not found');
+        }
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadResult();
+
+    return () => {
+      isMounted = false;
+    };
   }, [params.id]);
 
   const handleOpenExportModal = () => {
@@ -109,7 +180,8 @@ export default function BacktestResultsPage() {
                 Backtest Results
               </h1>
               <p className="text-neutral-600 dark:text-neutral-400">
-                {strategy?.name || 'Strategy'} • {result.summary.totalTrades} trades
+                {strategy?.name || 'Strategy'}
+                {backtest?.strategyVersion && ` v${backtest.strategyVersion}`} • {result.summary.totalTrades} trades
               </p>
             </div>
           </div>
@@ -197,10 +269,33 @@ export default function BacktestResultsPage() {
           </div>
         </div>
 
+        {/* Optimization Trials */}
+        {backtest?.type === 'OPTIMIZATION' && backtest.optimization && (
+          <OptimizationResults
+            optimization={backtest.optimization}
+            baseParameters={strategy?.parameters}
+            strategyName={strategy?.name}
+          />
+        )}
+
+        {/* Walk-Forward Analysis */}
+        {backtest?.type === 'WALK_FORWARD' && backtest.walkForward && (
+          <WalkForwardResults walkForward={backtest.walkForward} />
+        )}
+
+        {/* Portfolio Analytics */}
+        {result.attribution && result.exposureCurve && (
+          <PortfolioAnalytics
+            attribution={result.attribution}
+            exposureCurve={result.exposureCurve}
+            correlations={result.correlations}
+          />
+        )}
+
         {/* Charts Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <div ref={equityCurveRef}>
-            <BacktestEquityCurve data={result.equityCurve} />
+            <BacktestEquityCurve data={result.equityCurve} benchmarkLabel={result.benchmark?.label} />
           </div>
           <div ref={drawdownChartRef}>
             <BacktestDrawdownChart data={result.drawdownCurve} />
@@ -213,11 +308,27 @@ export default function BacktestResultsPage() {
             summary={result.summary}
             riskMetrics={result.riskMetrics}
             monthlyReturns={result.monthlyReturns}
+            trades={result.trades}
+            initialCapital={backtest?.initialCapital}
           />
         </div>
 
-        {/* Trade Ledger */}
-        <BacktestTradeLedger trades={result.trades} />
+        {/* Trade Ledger; selecting a trade shows the signal behind it */}
+        <BacktestTradeLedger
+          trades={result.trades}
+          onSelectTrade={(trade) => setSelectedTradeId(trade.id)}
+          selectedTradeId={selectedTradeId || undefined}
+        />
+
+        {/* Signal Journal */}
+        <SignalJournal scope={{ type: 'backtest', id: result.backtestId }} />
+
+        {selectedTradeId && (
+          <SignalDetailsModal
+            trade={{ backtestId: result.backtestId, tradeId: selectedTradeId }}
+            onClose={() => setSelectedTradeId(null)}
+          />
+        )}
 
         {/* Export Modal */}
         <ExportModal
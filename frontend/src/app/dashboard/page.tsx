@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import {
   DollarSign,
   TrendingUp,
@@ -15,18 +16,20 @@ import {
   KPIWidget,
   PerformanceChart,
   ActivityFeed,
-  AlertsWidget
+  AlertsWidget,
+  BenchmarkWidget
 } from '@/components/features/dashboard';
 import { GuidedTour } from '@/components/features/onboarding';
 import { useAuthStore } from '@/stores/auth-store';
 import { useOnboardingStore } from '@/stores/onboarding-store';
 import { useDashboard } from '@/lib/hooks/use-dashboard';
-import { dashboardAPI } from '@/lib/api/dashboard';
+import { dashboardAPI, BenchmarkConfig } from '@/lib/api/dashboard';
 import { Button } from '@/components/ui/button';
 
 export default function DashboardPage() {
   const { user } = useAuthStore();
   const { hasCompletedOnboarding } = useOnboardingStore();
+  const [updatingBenchmark, setUpdatingBenchmark] = useState(false);
 
   // Fetch dashboard data with auto-refresh every 5 minutes
   const {
@@ -53,6 +56,18 @@ export default function DashboardPage() {
     }
   };
 
+  const handleBenchmarkChange = async (benchmark: BenchmarkConfig) => {
+    setUpdatingBenchmark(true);
+    try {
+      await dashboardAPI.updateBenchmark(benchmark);
+      refreshDashboard();
+    } catch (error) {
+      console.error('Update benchmark error:', error);
+    } finally {
+      setUpdatingBenchmark(false);
+    }
+  };
+
   const handleDismissAlert = async (alertId: string) => {
     try {
       await dashboardAPI.dismissAlert(alertId);
@@ -114,6 +129,7 @@ export default function DashboardPage() {
       winRate: { current: 0, change: { value: 0, period: '30d avg', isPositive: true } }
     },
     performance: [{ date: new Date().toISOString().split('T')[0], value: 100000, benchmark: 100000 }],
+    benchmark: null,
     activities: [],
     alerts: []
   };
@@ -194,6 +210,7 @@ export default function DashboardPage() {
               data={data.performance}
               title="Portfolio Performance (30 days)"
               showBenchmark={true}
+              benchmarkLabel={data.benchmark?.label}
               height={350}
             />
           </div>
@@ -221,6 +238,15 @@ export default function DashboardPage() {
           </KPIWidget>
         </div>
 
+        {/* Benchmark */}
+        {data.benchmark && (
+          <BenchmarkWidget
+            analytics={data.benchmark}
+            onChange={handleBenchmarkChange}
+            updating={updatingBenchmark}
+          />
+        )}
+
         {/* Activity and Alerts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6">
           <ActivityFeed
@@ -4,10 +4,11 @@ import { useState, useMemo, useCallback, useEffect } from 'react';
 import { MainLayout } from '@/components/layout';
 import { useAuthStore } from '@/stores/auth-store';
 import { useToast, Modal, Button, Input } from '@/components/ui';
-import { OrderEntryForm, OrderBook, OrderHistory, PositionsDashboard, PositionPerformance, MarketWatchlist, PriceTicker, MarketDataChart, PriceAlerts, PaperTradingSessionsManager, PerformanceMonitor, type PaperTradingSession } from '@/components/features/paper-trading';
+import { OrderEntryForm, OrderBook, OrderHistory, PositionsDashboard, PositionPerformance, MarketWatchlist, PriceTicker, MarketDataChart, PriceAlerts, PaperTradingSessionsManager, PerformanceMonitor, PortfolioSwitcher, type PaperTradingSession } from '@/components/features/paper-trading';
 import { useTrading } from '@/hooks/use-trading';
 import { useMarketData } from '@/hooks/use-market-data';
 import { Order } from '@/types/trading';
+import { PlaceOrderRequest } from '@/lib/api/trading-api';
 
 export default function PaperTradingPage() {
   const { user } = useAuthStore();
@@ -19,19 +20,28 @@ export default function PaperTradingPage() {
 
   // Use real trading APIs - memoized to prevent unnecessary re-renders
   const {
+    portfolios,
     portfolio,
     positions,
     orders,
     activeOrders,
     loading: tradingLoading,
     placeOrder,
+    checkOrder,
+    placeOcoOrder,
     cancelOrder,
     modifyOrder,
     closePosition,
     setStopLoss,
     setTakeProfit,
     exportOrders,
-    exportPositions
+    exportPositions,
+    selectPortfolio,
+    createPortfolio,
+    updatePortfolio,
+    resetPortfolio,
+    archivePortfolio,
+    transferCash
   } = useTrading();
 
   // Use real market data - memoized symbols array
@@ -53,7 +63,7 @@ export default function PaperTradingPage() {
   );
 
   // Memoize event handlers to prevent unnecessary re-renders
-  const handlePlaceOrder = useCallback(async (orderData: Omit<Order, 'id' | 'status' | 'filledQuantity' | 'remainingQuantity' | 'commission' | 'createdAt' | 'updatedAt'>) => {
+  const handlePlaceOrder = useCallback(async (orderData: PlaceOrderRequest) => {
     try {
       await placeOrder(orderData);
     } catch (error) {
@@ -61,6 +71,14 @@ export default function PaperTradingPage() {
     }
   }, [placeOrder]);
 
+  const handlePlaceOcoOrder = useCallback(async (orders: Omit<PlaceOrderRequest, 'bracket'>[]) => {
+    try {
+      await placeOcoOrder(orders);
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  }, [placeOcoOrder]);
+
   const handleCancelOrder = useCallback(async (orderId: string) => {
     try {
       await cancelOrder(orderId);
@@ -141,6 +159,18 @@ export default function PaperTradingPage() {
           </p>
         </div>
 
+        {/* Portfolio Switcher - positions, orders and KPIs below follow the chosen portfolio */}
+        <PortfolioSwitcher
+          portfolios={portfolios}
+          current={portfolio}
+          onSelect={selectPortfolio}
+          onCreate={createPortfolio}
+          onUpdate={updatePortfolio}
+          onReset={resetPortfolio}
+          onArchive={archivePortfolio}
+          onTransfer={transferCash}
+        />
+
         {/* Price Ticker */}
         <PriceTicker
           symbols={watchlistSymbols}
@@ -259,6 +289,8 @@ export default function PaperTradingPage() {
                   symbols={symbolsForOrderForm}
                   marketData={marketData}
                   onPlaceOrder={handlePlaceOrder}
+                  onPlaceOcoOrder={handlePlaceOcoOrder}
+                  onCheckOrder={checkOrder}
                 />
               </div>
               <div className="lg:col-span-2">
@@ -290,6 +322,7 @@ export default function PaperTradingPage() {
             <PositionsDashboard
               positions={positions || []}
               marketData={marketData}
+              portfolio={portfolio}
               onClosePosition={handleClosePosition}
               onSetStopLoss={handleSetStopLoss}
               onSetTakeProfit={handleSetTakeProfit}
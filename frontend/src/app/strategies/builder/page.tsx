@@ -8,6 +8,7 @@ import { StrategyBuilder } from '@/components/features/strategies/strategy-build
 import { useAuthStore } from '@/stores/auth-store';
 import { useStrategy, useStrategies, useStrategyActions } from '@/hooks/use-strategies';
 import { Strategy } from '@/types/trading';
+import { VersionSaveOptions } from '@/components/features/strategies/strategy-version-manager';
 import { Button } from '@/components/ui';
 import { cn } from '@/lib/utils';
 
@@ -52,9 +53,17 @@ export default function StrategyBuilderPage() {
     status: apiStrategy.status,
     parameters: apiStrategy.parameters || {},
     code: apiStrategy.code || '',
+    rules: apiStrategy.rules,
     templateId: apiStrategy.templateId,
     isTemplate: false,
     tags: apiStrategy.tags || [],
+    version: apiStrategy.version,
+    forkedFrom: apiStrategy.forkedFrom ? {
+      templateId: apiStrategy.forkedFrom.templateId,
+      templateName: apiStrategy.forkedFrom.templateName,
+      templateVersion: apiStrategy.forkedFrom.templateVersion,
+      forkedAt: new Date(apiStrategy.forkedFrom.forkedAt),
+    } : undefined,
     createdAt: new Date(apiStrategy.createdAt),
     updatedAt: new Date(apiStrategy.updatedAt),
     deployedAt: apiStrategy.deployedAt ? new Date(apiStrategy.deployedAt) : undefined,
@@ -64,7 +73,7 @@ export default function StrategyBuilderPage() {
   // Strategy actions hook
   const strategyActions = useStrategyActions();
 
-  const handleSave = async (updatedStrategy: Strategy) => {
+  const handleSave = async (updatedStrategy: Strategy, version?: VersionSaveOptions) => {
     try {
       if (!strategy) return;
 
@@ -73,7 +82,10 @@ export default function StrategyBuilderPage() {
         description: updatedStrategy.description,
         parameters: updatedStrategy.parameters,
         code: updatedStrategy.code,
-        tags: updatedStrategy.tags
+        ...(updatedStrategy.type === 'VISUAL' && { rules: updatedStrategy.rules }),
+        tags: updatedStrategy.tags,
+        versionMessage: version?.message,
+        versionBump: version?.bump
       });
 
       // Refresh the strategy data
@@ -83,6 +95,17 @@ export default function StrategyBuilderPage() {
     }
   };
 
+  const handleConvertToCode = async (strategy: Strategy) => {
+    try {
+      await strategyActions.convertToCode(strategy.id);
+
+      // Reload as a CODE strategy so the code tab becomes editable
+      refetch();
+    } catch (error) {
+      console.error('Failed to convert strategy:', error);
+    }
+  };
+
   const handleRunBacktest = (strategy: Strategy) => {
     // Navigate to backtesting page with strategy pre-selected
     router.push(`/backtesting?strategyId=${strategy.id}`);
@@ -293,6 +316,8 @@ export default function StrategyBuilderPage() {
       <StrategyBuilder
         strategy={strategy}
         onSave={handleSave}
+        onConvertToCode={handleConvertToCode}
+        onVersionRestored={refetch}
         onRunBacktest={handleRunBacktest}
         onPreview={handlePreview}
         onBack={handleBack}
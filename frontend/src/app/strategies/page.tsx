@@ -66,7 +66,7 @@ export default function StrategiesPage() {
   const { strategies: apiStrategies, loading: strategiesLoading, refetch: refetchStrategies } = useStrategies(apiOptions);
 
   const { counts: statusCounts, loading: countsLoading } = useStrategyStatusCounts();
-  const { templates, loading: templatesLoading } = useStrategyTemplates({ limit: 50 });
+  const { templates, loading: templatesLoading, refetch: refetchTemplates } = useStrategyTemplates({ limit: 50 });
   const strategyActions = useStrategyActions();
   const templateActions = useTemplateActions();
 
@@ -128,6 +128,30 @@ export default function StrategiesPage() {
     }
   };
 
+  const handleForkTemplate = async (template: StrategyTemplate, name: string) => {
+    try {
+      const strategy = await templateActions.forkTemplate(template.id, name);
+
+      // Refresh strategies list and the template's fork count
+      refetchStrategies();
+      refetchTemplates();
+
+      // Navigate to builder
+      router.push(`/strategies/builder?id=${strategy._id}`);
+    } catch (error) {
+      console.error('Failed to fork template:', error);
+    }
+  };
+
+  const handleHideTemplate = async (template: StrategyTemplate) => {
+    try {
+      await templateActions.moderateTemplate(template.id, 'HIDDEN');
+      refetchTemplates();
+    } catch (error) {
+      console.error('Failed to hide template:', error);
+    }
+  };
+
   const handleCreateFromScratch = async (type: 'CODE' | 'VISUAL', name: string, description: string) => {
     try {
       const strategy = await strategyActions.createStrategy({
@@ -196,6 +220,13 @@ export default function StrategiesPage() {
       parameterSchema: apiTemplate.parameterSchema,
       code: apiTemplate.code,
       isBuiltIn: apiTemplate.isBuiltIn,
+      isPublic: apiTemplate.isPublic,
+      author: apiTemplate.createdBy?.name,
+      version: apiTemplate.version,
+      rating: apiTemplate.rating,
+      ratingCount: apiTemplate.ratingCount,
+      usageCount: apiTemplate.usageCount,
+      forkCount: apiTemplate.forkCount,
       createdAt: new Date(apiTemplate.createdAt),
     }));
   }, [templates]);
@@ -437,6 +468,8 @@ export default function StrategiesPage() {
           isOpen={showCreateModal}
           onClose={() => setShowCreateModal(false)}
           onCreateFromTemplate={handleCreateFromTemplate}
+          onForkTemplate={handleForkTemplate}
+          onHideTemplate={user.role === 'admin' ? handleHideTemplate : undefined}
           onCreateFromScratch={handleCreateFromScratch}
           templates={uiTemplates}
         />
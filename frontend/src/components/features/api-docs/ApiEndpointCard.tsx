@@ -172,15 +172,21 @@ const endpoints: ApiEndpoint[] = [
     requestBody: {
       symbol: "string (required)",
       side: "BUY | SELL (required)",
-      type: "MARKET | LIMIT | STOP | STOP_LIMIT (required)",
+      type: "MARKET | LIMIT | STOP | STOP_LIMIT | TRAILING_STOP (required)",
       quantity: "number (required)",
       price: "number (optional, required for LIMIT orders)",
       stopPrice: "number (optional, required for STOP orders)",
+      trailAmount: "number (optional, TRAILING_STOP offset in price)",
+      trailPercent: "number (optional, TRAILING_STOP offset in percent)",
+      displayQuantity: "number (optional, iceberg slice of a LIMIT order)",
+      timeInForce: "DAY | GTC | IOC | FOK | GTD (optional, default DAY)",
+      expiresAt: "string (required for GTD: ISO time or YYYY-MM-DD)",
+      bracket: "{ stopLoss, takeProfit } (optional, exits placed once the order fills)",
       strategyId: "string (optional)"
     },
     responses: [
       { status: 201, description: 'Order created successfully' },
-      { status: 400, description: 'Invalid order data' },
+      { status: 400, description: 'Invalid order data or rejected by pre-trade risk checks (violations)' },
       { status: 401, description: 'Unauthorized' }
     ],
     example: {
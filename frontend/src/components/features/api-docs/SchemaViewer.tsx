@@ -84,7 +84,7 @@ const schemas: Schema[] = [
       { name: 'strategyId', type: 'string', required: false, description: 'Associated strategy ID', example: 'strategy_ma_crossover_001' },
       { name: 'symbol', type: 'string', required: true, description: 'Trading symbol', example: 'AAPL' },
       { name: 'side', type: 'OrderSide', required: true, description: 'Order side (BUY | SELL)', example: 'BUY' },
-      { name: 'type', type: 'OrderType', required: true, description: 'Order type (MARKET | LIMIT | STOP | STOP_LIMIT)', example: 'LIMIT' },
+      { name: 'type', type: 'OrderType', required: true, description: 'Order type (MARKET | LIMIT | STOP | STOP_LIMIT | TRAILING_STOP)', example: 'LIMIT' },
       { name: 'quantity', type: 'number', required: true, description: 'Order quantity', example: 100 },
       { name: 'price', type: 'number', required: false, description: 'Order price (for LIMIT orders)', example: 150.25 },
       { name: 'stopPrice', type: 'number', required: false, description: 'Stop price (for STOP orders)', example: 145.00 },
@@ -0,0 +1,125 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { Backtest, BacktestSummary, RiskMetrics } from '@/lib/api/backtesting';
+import { BacktestComparison } from '../backtest-comparison';
+
+// Charts are covered by their own tests; only the overlaid series matter here
+jest.mock('recharts', () => {
+  const Container = ({ children }: { children?: React.ReactNode }) => <div>{children}</div>;
+  return {
+    ResponsiveContainer: Container,
+    LineChart: Container,
+    Line: ({ name }: { name: string }) => <div data-testid="line">{name}</div>,
+    XAxis: () => null,
+    YAxis: () => null,
+    CartesianGrid: () => null,
+    Tooltip: () => null,
+    Legend: () => null,
+  };
+});
+
+const createBacktest = (
+  id: string,
+  summary: Partial<BacktestSummary>,
+  monthlyReturns: { year: number; month: number; returnPercent: number }[] = []
+): Backtest => ({
+  _id: id,
+  name: `Run ${id}`,
+  startDate: '2024-01-01',
+  endDate: '2024-06-30',
+  initialCapital: 100000,
+  result: {
+    summary: summary as BacktestSummary,
+    riskMetrics: {} as RiskMetrics,
+    equityCurve: [],
+    drawdownCurve: [],
+    trades: [],
+    monthlyReturns: monthlyReturns.map(month => ({ ...month, return: month.returnPercent * 1000 })),
+  },
+} as unknown as Backtest);
+
+const cells = (label: string) => {
+  const row = screen.getByText(label).closest('tr') as HTMLElement;
+  return within(row).getAllByRole('cell').slice(1);
+};
+
+describe('BacktestComparison', () => {
+  it('highlights the best value of each metric', () => {
+    render(
+      <BacktestComparison
+        backtests={[
+          createBacktest('a', { totalReturnPercent: 12, maxDrawdownPercent: 8 }),
+          createBacktest('b', { totalReturnPercent: 20, maxDrawdownPercent: 15 }),
+        ]}
+      />
+    );
+
+    const [returnA, returnB] = cells('Total Return');
+    expect(returnB).toHaveClass('font-semibold');
+    expect(returnA).not.toHaveClass('font-semibold');
+
+    // A smaller drawdown is better
+    const [drawdownA, drawdownB] = cells('Max Drawdown');
+    expect(drawdownA).toHaveClass('font-semibold');
+    expect(drawdownB).not.toHaveClass('font-semibold');
+  });
+
+  it('shows differences against the first backtest', () => {
+    render(
+      <BacktestComparison
+        backtests={[
+          createBacktest('a', { totalReturnPercent: 12, totalTrades: 30 }),
+          createBacktest('b', { totalReturnPercent: 9.5, totalTrades: 30 }),
+        ]}
+      />
+    );
+
+    const [, returnB] = cells('Total Return');
+    expect(returnB).toHaveTextContent('9.50%−2.50%');
+    // Equal values need no difference and tie without a highlight
+    const [tradesA, tradesB] = cells('Total Trades');
+    expect(tradesB).toHaveTextContent(/^30$/);
+    expect(tradesA).not.toHaveClass('font-semibold');
+  });
+
+  it('overlays one line per backtest on both charts', () => {
+    render(<BacktestComparison backtests={[createBacktest('a', {}), createBacktest('b', {})]} />);
+
+    expect(screen.getAllByTestId('line').map(line => line.textContent)).toEqual(['Run a', 'Run b', 'Run a', 'Run b']);
+  });
+
+  it('lines up monthly returns and marks months a backtest has no data for', () => {
+    render(
+      <BacktestComparison
+        backtests={[
+          createBacktest('a', {}, [{ year: 2024, month: 1, returnPercent: 2.34 }]),
+          createBacktest('b', {}, [{ year: 2024, month: 2, returnPercent: -1.5 }]),
+        ]}
+      />
+    );
+
+    expect(screen.getByText('2024-01')).toBeInTheDocument();
+    expect(screen.getByTitle('Run a 2024-01: 2.34%')).toHaveTextContent('2.3');
+    expect(screen.getByTitle('Run b 2024-02: -1.50%')).toHaveTextContent('-1.5');
+    expect(screen.getAllByTitle('No data')).toHaveLength(2);
+  });
+
+  it('only lets a backtest be removed while more than two are compared', () => {
+    const onRemove = jest.fn();
+    const { rerender } = render(
+      <BacktestComparison backtests={[createBacktest('a', {}), createBacktest('b', {})]} onRemove={onRemove} />
+    );
+    expect(screen.queryByTitle('Remove from comparison')).not.toBeInTheDocument();
+
+    rerender(
+      <BacktestComparison
+        backtests={[createBacktest('a', {}), createBacktest('b', {}), createBacktest('c', {})]}
+        onRemove={onRemove}
+      />
+    );
+    fireEvent.click(screen.getAllByTitle('Remove from comparison')[1]);
+
+    expect(onRemove).toHaveBeenCalledWith('b');
+  });
+});
@@ -0,0 +1,371 @@
+'use client';
+
+import { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { X } from 'lucide-react';
+import { Backtest, BacktestSummary, RiskMetrics } from '@/lib/api/backtesting';
+import { cn } from '@/lib/utils';
+
+export const MAX_COMPARE_BACKTESTS = 6;
+
+export const COMPARE_COLORS = ['#2563eb', '#f59e0b', '#16a34a', '#dc2626', '#9333ea', '#0891b2'];
+
+interface BacktestComparisonProps {
+  backtests: Backtest[];
+  onRemove?: (backtestId: string) => void;
+  className?: string;
+}
+
+type Better = 'higher' | 'lower' | null;
+
+interface MetricRow {
+  label: string;
+  better: Better;
+  format: (value: number) => string;
+  value: (backtest: Backtest) => number;
+}
+
+const percent = (value: number) => `${value.toFixed(2)}%`;
+const ratio = (value: number) => value.toFixed(2);
+const currency = (value: number) => new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0,
+}).format(value);
+
+const summaryRow = (field: keyof BacktestSummary, label: string, better: Better, format: (value: number) => string): MetricRow => ({
+  label,
+  better,
+  format,
+  value: backtest => backtest.result?.summary[field] ?? 0,
+});
+
+const riskRow = (field: keyof RiskMetrics, label: string, better: Better, format: (value: number) => string): MetricRow => ({
+  label,
+  better,
+  format,
+  value: backtest => backtest.result?.riskMetrics[field] ?? 0,
+});
+
+const METRIC_SECTIONS: { title: string; rows: MetricRow[] }[] = [
+  {
+    title: 'Summary',
+    rows: [
+      summaryRow('totalReturnPercent', 'Total Return', 'higher', percent),
+      summaryRow('annualizedReturn', 'Annualized Return', 'higher', percent),
+      summaryRow('sharpeRatio', 'Sharpe Ratio', 'higher', ratio),
+      summaryRow('sortinoRatio', 'Sortino Ratio', 'higher', ratio),
+      summaryRow('maxDrawdownPercent', 'Max Drawdown', 'lower', percent),
+      summaryRow('maxDrawdownDuration', 'Max Drawdown Duration (days)', 'lower', value => value.toFixed(0)),
+      summaryRow('volatility', 'Volatility', 'lower', percent),
+      { label: 'Win Rate', better: 'higher', format: percent, value: backtest => (backtest.result?.summary.winRate ?? 0) * 100 },
+      summaryRow('profitFactor', 'Profit Factor', 'higher', ratio),
+      summaryRow('totalTrades', 'Total Trades', null, value => value.toFixed(0)),
+      summaryRow('avgWin', 'Avg Win', 'higher', currency),
+      summaryRow('avgLoss', 'Avg Loss', 'lower', currency),
+      summaryRow('largestWin', 'Largest Win', 'higher', currency),
+      summaryRow('largestLoss', 'Largest Loss', 'lower', currency),
+      summaryRow('avgTradeDuration', 'Avg Trade Duration (days)', null, value => value.toFixed(1)),
+      summaryRow('finalCapital', 'Final Capital', 'higher', currency),
+      summaryRow('totalCommission', 'Commission', 'lower', currency),
+      summaryRow('totalSlippage', 'Slippage', 'lower', currency),
+    ],
+  },
+  {
+    title: 'Risk',
+    rows: [
+      riskRow('calmarRatio', 'Calmar Ratio', 'higher', ratio),
+      riskRow('sterlingRatio', 'Sterling Ratio', 'higher', ratio),
+      riskRow('var95', 'VaR (95%)', 'lower', currency),
+      riskRow('var99', 'VaR (99%)', 'lower', currency),
+      riskRow('cvar95', 'CVaR (95%)', 'lower', currency),
+      riskRow('cvar99', 'CVaR (99%)', 'lower', currency),
+      riskRow('beta', 'Beta', null, ratio),
+      riskRow('alpha', 'Alpha', 'higher', value => `${(value * 100).toFixed(2)}%`),
+      riskRow('informationRatio', 'Information Ratio', 'higher', ratio),
+      riskRow('trackingError', 'Tracking Error', null, percent),
+      riskRow('upCapture', 'Up Capture', 'higher', percent),
+      riskRow('downCapture', 'Down Capture', 'lower', percent),
+    ],
+  },
+];
+
+const monthKey = (year: number, month: number) => `${year}-${String(month).padStart(2, '0')}`;
+
+const monthColor = (value: number, maxAbs: number) => {
+  if (maxAbs === 0) return 'transparent';
+  const hue = value >= 0 ? 142 : 0;
+  return `hsla(${hue}, 70%, 45%, ${Math.min(1, Math.abs(value) / maxAbs) * 0.85})`;
+};
+
+export function BacktestComparison({ backtests, onRemove, className }: BacktestComparisonProps) {
+  // Every equity curve is rescaled to the first backtest's starting capital
+  const baseCapital = backtests[0]?.initialCapital || 100000;
+
+  const curveData = useMemo(() => {
+    const byDate = new Map<number, Record<string, number>>();
+
+    backtests.forEach((backtest, index) => {
+      const scale = baseCapital / backtest.initialCapital;
+      (backtest.result?.equityCurve || []).forEach(point => {
+        const time = new Date(point.date).getTime();
+        const row = byDate.get(time) || { time };
+        row[`equity${index}`] = point.equity * scale;
+        row[`drawdown${index}`] = point.drawdown;
+        byDate.set(time, row);
+      });
+    });
+
+    return Array.from(byDate.values()).sort((a, b) => a.time - b.time);
+  }, [backtests, baseCapital]);
+
+  const monthly = useMemo(() => {
+    const keys = new Set<string>();
+    const values = backtests.map(backtest => {
+      const byMonth = new Map<string, number>();
+      (backtest.result?.monthlyReturns || []).forEach(mr => {
+        const key = monthKey(mr.year, mr.month);
+        keys.add(key);
+        byMonth.set(key, mr.returnPercent);
+      });
+      return byMonth;
+    });
+    const maxAbs = Math.max(0, ...values.flatMap(byMonth => Array.from(byMonth.values()).map(Math.abs)));
+
+    return { months: Array.from(keys).sort(), values, maxAbs };
+  }, [backtests]);
+
+  const formatDate = (time: number) => new Date(time).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+  const bestIndex = (row: MetricRow) => {
+    if (!row.better || backtests.length < 2) return -1;
+    const values = backtests.map(row.value);
+    const target = row.better === 'higher' ? Math.max(...values) : Math.min(...values);
+    // No highlight when every run ties
+    return values.every(value => value === target) ? -1 : values.indexOf(target);
+  };
+
+  const chart = (prefix: 'equity' | 'drawdown', formatter: (value: number) => string) => (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={curveData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid
+          strokeDasharray="3 3"
+          stroke="currentColor"
+          className="text-neutral-200 dark:text-neutral-700"
+        />
+        <XAxis
+          dataKey="time"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          scale="time"
+          tickFormatter={formatDate}
+          stroke="currentColor"
+          className="text-neutral-600 dark:text-neutral-400"
+          fontSize={12}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis
+          stroke="currentColor"
+          className="text-neutral-600 dark:text-neutral-400"
+          fontSize={12}
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={formatter}
+          width={90}
+        />
+        <Tooltip
+          labelFormatter={(time: number) => new Date(time).toLocaleDateString()}
+          formatter={(value: number, name: string) => [formatter(value), name]}
+        />
+        <Legend />
+        {backtests.map((backtest, index) => (
+          <Line
+            key={backtest._id}
+            dataKey={`${prefix}${index}`}
+            name={backtest.name}
+            stroke={COMPARE_COLORS[index % COMPARE_COLORS.length]}
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3">
+        {backtests.map((backtest, index) => (
+          <div
+            key={backtest._id}
+            className="flex items-center space-x-2 px-3 py-2 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800"
+          >
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: COMPARE_COLORS[index % COMPARE_COLORS.length] }} />
+            <span className="text-sm font-medium text-neutral-900 dark:text-white">{backtest.name}</span>
+            <span className="text-xs text-neutral-500 dark:text-neutral-400">
+              {new Date(backtest.startDate).toLocaleDateString()} – {new Date(backtest.endDate).toLocaleDateString()}
+            </span>
+            {onRemove && backtests.length > 2 && (
+              <button
+                type="button"
+                onClick={() => onRemove(backtest._id)}
+                className="text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300"
+                title="Remove from comparison"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Equity Overlay */}
+      <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-1">
+          Equity Curves
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+          Normalized to a starting capital of {currency(baseCapital)}
+        </p>
+        <div className="h-80">
+          {chart('equity', currency)}
+        </div>
+      </div>
+
+      {/* Drawdown Overlay */}
+      <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4">
+          Drawdowns
+        </h3>
+        <div className="h-64">
+          {chart('drawdown', percent)}
+        </div>
+      </div>
+
+      {/* Metrics Diff */}
+      <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-1">
+          Metrics
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+          Best value per row is highlighted; differences are against the first backtest
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Metric</th>
+                {backtests.map((backtest, index) => (
+                  <th key={backtest._id} className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                    <span className="inline-flex items-center space-x-1">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COMPARE_COLORS[index % COMPARE_COLORS.length] }} />
+                      <span className="truncate max-w-[10rem]">{backtest.name}</span>
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            {METRIC_SECTIONS.map(section => (
+              <tbody key={section.title}>
+                <tr>
+                  <td
+                    colSpan={backtests.length + 1}
+                    className="pt-4 pb-2 px-2 text-xs font-semibold uppercase tracking-wide text-neutral-500 dark:text-neutral-400"
+                  >
+                    {section.title}
+                  </td>
+                </tr>
+                {section.rows.map(row => {
+                  const best = bestIndex(row);
+                  const baseline = row.value(backtests[0]);
+
+                  return (
+                    <tr key={row.label} className="border-b border-neutral-100 dark:border-neutral-800">
+                      <td className="py-2 px-2 text-sm text-neutral-700 dark:text-neutral-300">{row.label}</td>
+                      {backtests.map((backtest, index) => {
+                        const value = row.value(backtest);
+                        const delta = value - baseline;
+
+                        return (
+                          <td
+                            key={backtest._id}
+                            className={cn(
+                              'py-2 px-2 text-sm text-right',
+                              index === best
+                                ? 'bg-green-50 dark:bg-green-900/20 font-semibold text-green-700 dark:text-green-400'
+                                : 'text-neutral-900 dark:text-white'
+                            )}
+                          >
+                            <div>{row.format(value)}</div>
+                            {index > 0 && delta !== 0 && (
+                              <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                                {delta > 0 ? '+' : '−'}{row.format(Math.abs(delta))}
+                              </div>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      </div>
+
+      {/* Monthly Returns */}
+      {monthly.months.length > 0 && (
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4">
+            Monthly Returns
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {monthly.months.map(month => (
+                    <th key={month} className="px-1 py-2 font-medium text-neutral-600 dark:text-neutral-400 whitespace-nowrap">
+                      {month}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {backtests.map((backtest, index) => (
+                  <tr key={backtest._id}>
+                    <th className="pr-3 text-left font-medium text-neutral-700 dark:text-neutral-300 whitespace-nowrap">
+                      <span className="inline-flex items-center space-x-1">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COMPARE_COLORS[index % COMPARE_COLORS.length] }} />
+                        <span className="truncate max-w-[10rem]">{backtest.name}</span>
+                      </span>
+                    </th>
+                    {monthly.months.map(month => {
+                      const value = monthly.values[index].get(month);
+                      return (
+                        <td
+                          key={month}
+                          className="w-14 h-9 text-center text-neutral-900 dark:text-white border border-white dark:border-neutral-800"
+                          style={{ backgroundColor: value === undefined ? undefined : monthColor(value, monthly.maxAbs) }}
+                          title={value === undefined ? 'No data' : `${backtest.name} ${month}: ${value.toFixed(2)}%`}
+                        >
+                          {value === undefined ? '–' : value.toFixed(1)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,8 +11,18 @@ import {
   AlertTriangle,
   Info
 } from 'lucide-react';
-import { Modal, Button, Input } from '@/components/ui';
+import { Modal, Button, Input, Select } from '@/components/ui';
 import { Strategy } from '@/lib/api/strategies';
+import { BacktestType, OptimizationConfig, WalkForwardConfig, PortfolioConfig, BenchmarkConfig } from '@/lib/api/backtesting';
+import { NSE_SYMBOLS } from '@/lib/constants';
+import {
+  OptimizationSettings,
+  DEFAULT_OPTIMIZATION,
+  MAX_OPTIMIZATION_TRIALS,
+  countCombinations,
+} from './optimization-settings';
+import { WalkForwardSettings, DEFAULT_WALK_FORWARD } from './walk-forward-settings';
+import { PortfolioSettings, DEFAULT_PORTFOLIO, MAX_PORTFOLIO_SYMBOLS } from './portfolio-settings';
 import { cn } from '@/lib/utils';
 
 interface BacktestConfigForm {
@@ -24,8 +34,19 @@ interface BacktestConfigForm {
   commission: number;
   slippage: number;
   tags?: string[];
+  type: BacktestType;
+  optimization?: OptimizationConfig;
+  walkForward?: WalkForwardConfig;
+  portfolio?: PortfolioConfig;
+  benchmark?: BenchmarkConfig;
 }
 
+const BENCHMARK_OPTIONS = [
+  { value: '', label: 'None' },
+  { value: 'INDEX', label: 'Equal-weight index of all symbols' },
+  ...NSE_SYMBOLS.map(symbol => ({ value: symbol, label: symbol })),
+];
+
 interface BacktestConfigModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -50,6 +71,11 @@ export function BacktestConfigModal({
     commission: 0.1,
     slippage: 0.05,
     tags: [],
+    type: 'SINGLE',
+    optimization: DEFAULT_OPTIMIZATION,
+    walkForward: DEFAULT_WALK_FORWARD,
+    portfolio: DEFAULT_PORTFOLIO,
+    benchmark: { type: 'INDEX' },
   });
   
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -134,6 +160,54 @@ export function BacktestConfigModal({
     if (config.slippage > 1) {
       newErrors.slippage = 'Slippage seems unusually high (>1%)';
     }
+
+    const isOptimizing = config.type === 'OPTIMIZATION' || config.type === 'WALK_FORWARD';
+
+    if (isOptimizing && config.optimization) {
+      const { ranges, method, maxTrials } = config.optimization;
+      const combinations = countCombinations(ranges);
+
+      if (ranges.length === 0) {
+        newErrors.optimization = 'Select at least one parameter to optimize';
+      } else if (combinations === 0) {
+        newErrors.optimization = 'Every range needs a positive step and a minimum no greater than its maximum';
+      } else if (method === 'GRID' && combinations > MAX_OPTIMIZATION_TRIALS) {
+        newErrors.optimization = `Grid search is limited to ${MAX_OPTIMIZATION_TRIALS} combinations; narrow the ranges or use random or Bayesian search`;
+      } else if (method !== 'GRID' && (maxTrials < 1 || maxTrials > MAX_OPTIMIZATION_TRIALS)) {
+        newErrors.optimization = `Max trials must be between 1 and ${MAX_OPTIMIZATION_TRIALS}`;
+      }
+    }
+
+    if (config.type === 'WALK_FORWARD' && config.walkForward && config.startDate && config.endDate) {
+      const { trainDays, testDays } = config.walkForward;
+      const rangeDays = (new Date(config.endDate).getTime() - new Date(config.startDate).getTime()) / (1000 * 60 * 60 * 24);
+
+      if (trainDays < 5) {
+        newErrors.walkForward = 'Train windows must be at least 5 days long';
+      } else if (testDays < 1) {
+        newErrors.walkForward = 'Test windows must be at least 1 day long';
+      } else if (rangeDays < trainDays + testDays) {
+        newErrors.walkForward = `The date range must span at least ${trainDays + testDays} days`;
+      }
+    }
+
+    if (config.type === 'PORTFOLIO' && config.portfolio) {
+      const { symbols, sizingModel, fractionPercent, targetVolatility, volatilityLookback, kellyFraction } = config.portfolio;
+
+      if (symbols.length < 2) {
+        newErrors.portfolio = 'Select at least two symbols';
+      } else if (symbols.length > MAX_PORTFOLIO_SYMBOLS) {
+        newErrors.portfolio = `A portfolio can hold at most ${MAX_PORTFOLIO_SYMBOLS} symbols`;
+      } else if (sizingModel === 'FIXED_FRACTIONAL' && !(fractionPercent > 0 && fractionPercent <= 100)) {
+        newErrors.portfolio = 'Equity per position must be between 0% and 100%';
+      } else if (sizingModel === 'VOLATILITY_TARGET' && !(targetVolatility > 0 && targetVolatility <= 200)) {
+        newErrors.portfolio = 'Target volatility must be between 0% and 200%';
+      } else if (sizingModel === 'VOLATILITY_TARGET' && volatilityLookback < 2) {
+        newErrors.portfolio = 'Volatility lookback must be at least 2 bars';
+      } else if (sizingModel === 'KELLY' && !(kellyFraction > 0 && kellyFraction <= 1)) {
+        newErrors.portfolio = 'Kelly fraction must be between 0 and 1';
+      }
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -145,7 +219,12 @@ export function BacktestConfigModal({
     setIsSubmitting(true);
     
     try {
-      await onSubmit(config);
+      await onSubmit({
+        ...config,
+        optimization: config.type === 'OPTIMIZATION' || config.type === 'WALK_FORWARD' ? config.optimization : undefined,
+        walkForward: config.type === 'WALK_FORWARD' ? config.walkForward : undefined,
+        portfolio: config.type === 'PORTFOLIO' ? config.portfolio : undefined,
+      });
       handleClose();
     } catch (error) {
       console.error('Error submitting backtest:', error);
@@ -164,12 +243,45 @@ export function BacktestConfigModal({
       commission: 0.1,
       slippage: 0.05,
       tags: [],
+      type: 'SINGLE',
+      optimization: DEFAULT_OPTIMIZATION,
+      walkForward: DEFAULT_WALK_FORWARD,
+      portfolio: DEFAULT_PORTFOLIO,
+      benchmark: { type: 'INDEX' },
     });
     setErrors({});
     setIsSubmitting(false);
     onClose();
   };
 
+  const handleOptimizationChange = (optimization: OptimizationConfig) => {
+    setConfig(prev => ({ ...prev, optimization }));
+    if (errors.optimization) {
+      setErrors(prev => ({ ...prev, optimization: '' }));
+    }
+  };
+
+  const handleBenchmarkChange = (value: string) => {
+    setConfig(prev => ({
+      ...prev,
+      benchmark: !value ? undefined : value === 'INDEX' ? { type: 'INDEX' } : { type: 'SYMBOL', symbol: value },
+    }));
+  };
+
+  const handleWalkForwardChange = (walkForward: WalkForwardConfig) => {
+    setConfig(prev => ({ ...prev, walkForward }));
+    if (errors.walkForward) {
+      setErrors(prev => ({ ...prev, walkForward: '' }));
+    }
+  };
+
+  const handlePortfolioChange = (portfolio: PortfolioConfig) => {
+    setConfig(prev => ({ ...prev, portfolio }));
+    if (errors.portfolio) {
+      setErrors(prev => ({ ...prev, portfolio: '' }));
+    }
+  };
+
   const handleInputChange = (field: keyof BacktestConfigForm, value: string | number) => {
     setConfig(prev => ({ ...prev, [field]: value }));
     
@@ -271,9 +383,60 @@ export function BacktestConfigModal({
                 error={errors.name}
                 required
               />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {([
+                  { type: 'SINGLE', label: 'Single Backtest', description: 'Run the current parameters once' },
+                  { type: 'OPTIMIZATION', label: 'Optimization', description: 'Search parameter ranges for the best set' },
+                  { type: 'WALK_FORWARD', label: 'Walk-Forward', description: 'Re-optimize on rolling windows and test out-of-sample' },
+                  { type: 'PORTFOLIO', label: 'Portfolio', description: 'Trade a basket of symbols from one account' },
+                ] as const).map(option => (
+                  <button
+                    key={option.type}
+                    type="button"
+                    onClick={() => handleInputChange('type', option.type)}
+                    className={cn(
+                      'p-3 border rounded-lg text-left transition-colors',
+                      config.type === option.type
+                        ? 'border-primary-300 bg-primary-50 dark:border-primary-600 dark:bg-primary-900/20'
+                        : 'border-neutral-200 dark:border-neutral-700 hover:border-neutral-300 dark:hover:border-neutral-600'
+                    )}
+                  >
+                    <div className="text-sm font-medium text-neutral-900 dark:text-white">{option.label}</div>
+                    <div className="text-xs text-neutral-600 dark:text-neutral-400 mt-1">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+
+              <Select
+                label="Benchmark"
+                value={config.benchmark?.type === 'SYMBOL' ? config.benchmark.symbol : config.benchmark?.type || ''}
+                onChange={(e) => handleBenchmarkChange(e.target.value)}
+                options={BENCHMARK_OPTIONS}
+                helperText="Used for beta, alpha, tracking error, capture ratios and the equity curve overlay"
+              />
             </div>
           </div>
 
+          {/* Optimization */}
+          {(config.type === 'OPTIMIZATION' || config.type === 'WALK_FORWARD') && strategy && config.optimization && (
+            <OptimizationSettings
+              strategy={strategy}
+              value={config.optimization}
+              onChange={handleOptimizationChange}
+              error={errors.optimization}
+            />
+          )}
+
+          {/* Portfolio */}
+          {config.type === 'PORTFOLIO' && config.portfolio && (
+            <PortfolioSettings
+              value={config.portfolio}
+              onChange={handlePortfolioChange}
+              error={errors.portfolio}
+            />
+          )}
+
           {/* Date Range */}
           <div>
             <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4 flex items-center">
@@ -318,6 +481,17 @@ export function BacktestConfigModal({
             )}
           </div>
 
+          {/* Walk-Forward Windows */}
+          {config.type === 'WALK_FORWARD' && config.walkForward && (
+            <WalkForwardSettings
+              value={config.walkForward}
+              onChange={handleWalkForwardChange}
+              startDate={config.startDate}
+              endDate={config.endDate}
+              error={errors.walkForward}
+            />
+          )}
+
           {/* Financial Settings */}
           <div>
             <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4 flex items-center">
@@ -419,7 +593,9 @@ export function BacktestConfigModal({
               ) : (
                 <>
                   <Play className="h-4 w-4" />
-                  <span>Start Backtest</span>
+                  <span>{config.type === 'OPTIMIZATION'
+                    ? 'Start Optimization'
+                    : config.type === 'WALK_FORWARD' ? 'Start Walk-Forward' : 'Start Backtest'}</span>
                 </>
               )}
             </Button>
@@ -10,6 +10,7 @@ interface BacktestEquityCurveProps {
   height?: number;
   className?: string;
   showReturns?: boolean;
+  benchmarkLabel?: string;
 }
 
 export function BacktestEquityCurve({
@@ -18,6 +19,7 @@ export function BacktestEquityCurve({
   height = 400,
   className,
   showReturns = false,
+  benchmarkLabel = 'Benchmark',
 }: BacktestEquityCurveProps) {
   const chartData = useMemo(() => {
     if (!data || data.length === 0) return [];
@@ -29,6 +31,7 @@ export function BacktestEquityCurve({
       value: point.equity,
       returns: point.returns,
       drawdown: point.drawdown,
+      benchmark: point.benchmark,
       // Calculate cumulative return percentage
       cumulativeReturn: ((point.equity - initialEquity) / initialEquity) * 100,
     }));
@@ -53,6 +56,12 @@ export function BacktestEquityCurve({
   const finalEquity = chartData[chartData.length - 1]?.value || 0;
   const isPositive = finalEquity >= initialEquity;
 
+  const benchmarkPoints = chartData.filter(point => point.benchmark !== undefined);
+  const hasBenchmark = benchmarkPoints.length > 0;
+  const benchmarkChange = hasBenchmark && benchmarkPoints[0].benchmark
+    ? ((benchmarkPoints[benchmarkPoints.length - 1].benchmark! - benchmarkPoints[0].benchmark) / benchmarkPoints[0].benchmark) * 100
+    : 0;
+
   if (!chartData || chartData.length === 0) {
     return (
       <LineChart
@@ -76,7 +85,7 @@ export function BacktestEquityCurve({
   };
 
   const formatTooltipValue = (value: number, name: string, props: any): [string, string] => {
-    return [formatCurrency(value), 'Equity'];
+    return [formatCurrency(value), name];
   };
 
   const actions = (
@@ -100,6 +109,8 @@ export function BacktestEquityCurve({
         data={chartData}
         title={title}
         height={height}
+        name="Equity"
+        series={hasBenchmark ? [{ dataKey: 'benchmark', name: benchmarkLabel, color: '#6b7280', strokeDasharray: '4 4' }] : []}
         color={isPositive ? '#16a34a' : '#dc2626'}
         strokeWidth={2}
         showGrid={true}
@@ -111,7 +122,7 @@ export function BacktestEquityCurve({
       />
       
       {/* Summary Stats */}
-      <div className="grid grid-cols-3 gap-4 mt-4 pt-4 border-t border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 px-6 pb-6 rounded-b-lg">
+      <div className={`grid ${hasBenchmark ? 'grid-cols-4' : 'grid-cols-3'} gap-4 mt-4 pt-4 border-t border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 px-6 pb-6 rounded-b-lg`}>
         <div className="text-center">
           <p className="text-xs text-neutral-600 dark:text-neutral-400">Start</p>
           <p className="text-sm font-medium text-neutral-900 dark:text-white">
@@ -138,6 +149,18 @@ export function BacktestEquityCurve({
             {formatPercentage(((finalEquity - initialEquity) / initialEquity) * 100)}
           </p>
         </div>
+        {hasBenchmark && (
+          <div className="text-center">
+            <p className="text-xs text-neutral-600 dark:text-neutral-400">{benchmarkLabel}</p>
+            <p className={`text-sm font-medium ${
+              benchmarkChange >= 0
+                ? 'text-green-600 dark:text-green-400'
+                : 'text-red-600 dark:text-red-400'
+            }`}>
+              {formatPercentage(benchmarkChange)}
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -3,13 +3,18 @@
 import { useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { TrendingUp, TrendingDown, Target, Shield, Clock, DollarSign } from 'lucide-react';
-import { BacktestSummary, RiskMetrics, MonthlyReturn } from '@/types/trading';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui';
+import { BacktestSummary, RiskMetrics, MonthlyReturn, Trade } from '@/types/trading';
+import { MonteCarloAnalysis } from './monte-carlo-analysis';
 import { cn } from '@/lib/utils';
 
 interface BacktestMetricsDashboardProps {
   summary: BacktestSummary;
   riskMetrics: RiskMetrics;
   monthlyReturns: MonthlyReturn[];
+  /** Enables the Monte Carlo tab */
+  trades?: Trade[];
+  initialCapital?: number;
   title?: string;
   className?: string;
 }
@@ -18,6 +23,8 @@ export function BacktestMetricsDashboard({
   summary,
   riskMetrics,
   monthlyReturns,
+  trades,
+  initialCapital,
   title = 'Performance Metrics',
   className,
 }: BacktestMetricsDashboardProps) {
@@ -126,12 +133,27 @@ export function BacktestMetricsDashboard({
       {
         label: 'Beta',
         value: riskMetrics.beta.toFixed(2),
-        description: 'Market correlation',
+        description: 'Sensitivity to the benchmark',
       },
       {
         label: 'Alpha',
         value: `${(riskMetrics.alpha * 100).toFixed(2)}%`,
-        description: 'Excess return vs market',
+        description: 'Annual excess return vs benchmark',
+      },
+      {
+        label: 'Tracking Error',
+        value: `${riskMetrics.trackingError.toFixed(2)}%`,
+        description: 'Annual volatility of active return',
+      },
+      {
+        label: 'Up Capture',
+        value: `${riskMetrics.upCapture.toFixed(1)}%`,
+        description: 'Share of benchmark gains captured',
+      },
+      {
+        label: 'Down Capture',
+        value: `${riskMetrics.downCapture.toFixed(1)}%`,
+        description: 'Share of benchmark losses taken',
       },
     ];
   }, [summary, riskMetrics]);
@@ -166,15 +188,8 @@ export function BacktestMetricsDashboard({
     return null;
   };
 
-  return (
-    <div className={cn(
-      'bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700',
-      className
-    )}>
-      <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-6">
-        {title}
-      </h3>
-
+  const overview = (
+    <>
       {/* Performance Metrics Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
         {performanceMetrics.map((metric, index) => {
@@ -336,6 +351,30 @@ export function BacktestMetricsDashboard({
           </div>
         </div>
       </div>
+    </>
+  );
+
+  return (
+    <div className={cn(
+      'bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700',
+      className
+    )}>
+      <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-6">
+        {title}
+      </h3>
+
+      {trades && initialCapital ? (
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-6">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="monte-carlo">Monte Carlo</TabsTrigger>
+          </TabsList>
+          <TabsContent value="overview">{overview}</TabsContent>
+          <TabsContent value="monte-carlo">
+            <MonteCarloAnalysis trades={trades} initialCapital={initialCapital} />
+          </TabsContent>
+        </Tabs>
+      ) : overview}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -137,6 +137,30 @@ export function BacktestProgress({
                 <span className={cn('text-sm font-medium', getStatusColor())}>
                   {backtest.status.charAt(0) + backtest.status.slice(1).toLowerCase()}
                 </span>
+                {backtest.type === 'OPTIMIZATION' && backtest.optimization && (
+                  <>
+                    <span className="text-neutral-400">•</span>
+                    <span className="text-sm text-neutral-600 dark:text-neutral-400">
+                      Optimization ({backtest.optimization.trials?.length || 0} trials)
+                    </span>
+                  </>
+                )}
+                {backtest.type === 'WALK_FORWARD' && backtest.walkForward && (
+                  <>
+                    <span className="text-neutral-400">•</span>
+                    <span className="text-sm text-neutral-600 dark:text-neutral-400">
+                      Walk-forward ({backtest.walkForward.trainDays}d / {backtest.walkForward.testDays}d)
+                    </span>
+                  </>
+                )}
+                {backtest.type === 'PORTFOLIO' && backtest.portfolio && (
+                  <>
+                    <span className="text-neutral-400">•</span>
+                    <span className="text-sm text-neutral-600 dark:text-neutral-400">
+                      Portfolio ({backtest.portfolio.symbols.length} symbols)
+                    </span>
+                  </>
+                )}
                 {formatDuration() && (
                   <>
                     <span className="text-neutral-400">•</span>
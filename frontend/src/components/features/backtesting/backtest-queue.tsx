@@ -11,10 +11,12 @@ import {
   Filter,
   Search,
   BarChart3,
-  AlertCircle
+  AlertCircle,
+  GitCompare
 } from 'lucide-react';
 import { Button, Input } from '@/components/ui';
 import { BacktestProgress } from './backtest-progress';
+import { MAX_COMPARE_BACKTESTS } from './backtest-comparison';
 import { Backtest } from '@/lib/api/backtesting';
 import { cn } from '@/lib/utils';
 
@@ -24,6 +26,7 @@ interface BacktestQueueProps {
   onDelete?: (backtestId: string) => void;
   onViewResults?: (backtestId: string) => void;
   onRetry?: (backtestId: string) => void;
+  onCompare?: (backtestIds: string[]) => void;
   className?: string;
 }
 
@@ -35,11 +38,14 @@ export function BacktestQueue({
   onDelete,
   onViewResults,
   onRetry,
+  onCompare,
   className,
 }: BacktestQueueProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [showFilters, setShowFilters] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
 
   // Filter and sort backtests
   const filteredBacktests = useMemo(() => {
@@ -127,6 +133,18 @@ export function BacktestQueue({
     }
   };
 
+  const toggleCompareMode = () => {
+    setCompareMode(!compareMode);
+    setCompareIds([]);
+  };
+
+  const toggleCompareId = (backtestId: string) => {
+    setCompareIds(ids => ids.includes(backtestId)
+      ? ids.filter(id => id !== backtestId)
+      : [...ids, backtestId]
+    );
+  };
+
   return (
     <div className={cn('space-y-6', className)}>
       {/* Header */}
@@ -141,6 +159,32 @@ export function BacktestQueue({
         </div>
         
         <div className="flex items-center space-x-2">
+          {onCompare && compareMode && (
+            <Button
+              size="sm"
+              onClick={() => onCompare(compareIds)}
+              disabled={compareIds.length < 2}
+              className="flex items-center space-x-2"
+            >
+              <GitCompare className="h-4 w-4" />
+              <span>Compare ({compareIds.length})</span>
+            </Button>
+          )}
+          {onCompare && (
+            <Button
+              variant={compareMode ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={toggleCompareMode}
+              className="flex items-center space-x-2"
+            >
+              {compareMode ? <span>Done</span> : (
+                <>
+                  <GitCompare className="h-4 w-4" />
+                  <span>Compare</span>
+                </>
+              )}
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -153,6 +197,12 @@ export function BacktestQueue({
         </div>
       </div>
 
+      {compareMode && (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Select between 2 and {MAX_COMPARE_BACKTESTS} completed backtests to compare side by side
+        </p>
+      )}
+
       {/* Status Summary */}
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         {Object.entries(statusCounts).map(([status, count]) => (
@@ -255,6 +305,19 @@ export function BacktestQueue({
                 
                 {/* Additional Actions */}
                 <div className="flex items-center justify-end space-x-2 mt-2">
+                  {compareMode && backtest.status === 'COMPLETED' && (
+                    <label className="flex items-center space-x-2 mr-auto text-sm text-neutral-700 dark:text-neutral-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(backtest._id)}
+                        onChange={() => toggleCompareId(backtest._id)}
+                        disabled={!compareIds.includes(backtest._id) && compareIds.length >= MAX_COMPARE_BACKTESTS}
+                        className="rounded border-neutral-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span>Select for comparison</span>
+                    </label>
+                  )}
+
                   {backtest.status === 'FAILED' && onRetry && (
                     <Button
                       variant="outline"
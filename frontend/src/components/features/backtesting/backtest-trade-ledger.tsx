@@ -12,6 +12,9 @@ interface BacktestTradeLedgerProps {
   title?: string;
   className?: string;
   showExportButton?: boolean;
+  // Rows become selectable, for example to show the signal behind a trade
+  onSelectTrade?: (trade: Trade) => void;
+  selectedTradeId?: string;
 }
 
 type SortField = 'executedAt' | 'symbol' | 'side' | 'quantity' | 'price' | 'pnl' | 'commission';
@@ -24,6 +27,8 @@ export function BacktestTradeLedger({
   title = 'Trade Ledger',
   className,
   showExportButton = true,
+  onSelectTrade,
+  selectedTradeId,
 }: BacktestTradeLedgerProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<SortField>('executedAt');
@@ -307,9 +312,12 @@ export function BacktestTradeLedger({
             {filteredAndSortedTrades.map((trade, index) => (
               <tr 
                 key={trade.id}
+                onClick={onSelectTrade ? () => onSelectTrade(trade) : undefined}
                 className={cn(
                   'border-b border-neutral-100 dark:border-neutral-800 hover:bg-neutral-50 dark:hover:bg-neutral-900 transition-colors',
-                  index % 2 === 0 ? 'bg-white dark:bg-neutral-800' : 'bg-neutral-50 dark:bg-neutral-900'
+                  index % 2 === 0 ? 'bg-white dark:bg-neutral-800' : 'bg-neutral-50 dark:bg-neutral-900',
+                  onSelectTrade && 'cursor-pointer',
+                  trade.id === selectedTradeId && 'bg-primary-50 dark:bg-primary-900/20'
                 )}
               >
                 <td className="py-3 px-2 text-sm text-neutral-900 dark:text-white">
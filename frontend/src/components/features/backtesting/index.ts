@@ -5,4 +5,12 @@ export { BacktestEquityCurve } from './backtest-equity-curve';
 export { BacktestDrawdownChart } from './backtest-drawdown-chart';
 export { BacktestTradeLedger } from './backtest-trade-ledger';
 export { BacktestMetricsDashboard } from './backtest-metrics-dashboard';
-export { ExportModal } from './export-modal';
\ No newline at end of file
+export { ExportModal } from './export-modal';
+export { OptimizationSettings } from './optimization-settings';
+export { OptimizationResults } from './optimization-results';
+export { WalkForwardSettings } from './walk-forward-settings';
+export { WalkForwardResults } from './walk-forward-results';
+export { MonteCarloAnalysis } from './monte-carlo-analysis';
+export { PortfolioSettings } from './portfolio-settings';
+export { PortfolioAnalytics } from './portfolio-analytics';
+export { BacktestComparison } from './backtest-comparison';
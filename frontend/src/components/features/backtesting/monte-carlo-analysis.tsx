@@ -0,0 +1,309 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { Dices, Play } from 'lucide-react';
+import { Button, Input } from '@/components/ui';
+import { Trade } from '@/types/trading';
+import {
+  runMonteCarlo,
+  MonteCarloConfig,
+  MonteCarloResult,
+  ResamplingMethod,
+  DEFAULT_MONTE_CARLO,
+  MAX_MONTE_CARLO_ITERATIONS,
+} from '@/lib/monte-carlo';
+import { cn } from '@/lib/utils';
+
+interface MonteCarloAnalysisProps {
+  trades: Trade[];
+  initialCapital: number;
+  className?: string;
+}
+
+const METHODS: { value: ResamplingMethod; label: string; description: string }[] = [
+  { value: 'SHUFFLE', label: 'Shuffle', description: 'Same trades in a random order' },
+  { value: 'BOOTSTRAP', label: 'Bootstrap', description: 'Trades drawn with replacement' },
+];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+export function MonteCarloAnalysis({ trades, initialCapital, className }: MonteCarloAnalysisProps) {
+  const [config, setConfig] = useState<MonteCarloConfig>(DEFAULT_MONTE_CARLO);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Only closing fills carry P&L; entries are recorded with zero
+  const pnls = useMemo(() => trades.filter(trade => trade.pnl !== 0).map(trade => trade.pnl), [trades]);
+
+  const configError = useMemo(() => {
+    if (!(config.iterations >= 100 && config.iterations <= MAX_MONTE_CARLO_ITERATIONS)) {
+      return `Iterations must be between 100 and ${MAX_MONTE_CARLO_ITERATIONS.toLocaleString()}`;
+    }
+    if (!(config.skipProbability >= 0 && config.skipProbability < 1)) {
+      return 'Skip probability must be between 0% and 99%';
+    }
+    if (!(config.ruinDrawdownPercent > 0 && config.ruinDrawdownPercent <= 100)) {
+      return 'Ruin threshold must be between 1% and 100%';
+    }
+    return null;
+  }, [config]);
+
+  const handleRun = () => {
+    setRunning(true);
+    // Yield a frame so the button shows its running state before the loop blocks
+    setTimeout(() => {
+      setResult(runMonteCarlo(pnls, initialCapital, config));
+      setRunning(false);
+    }, 0);
+  };
+
+  const fanData = useMemo(() => {
+    return (result?.equityBands || []).map(band => ({
+      trade: band.trade,
+      outer: [band.p5, band.p95],
+      inner: [band.p25, band.p75],
+      median: band.p50,
+      original: band.original,
+    }));
+  }, [result]);
+
+  const histogramData = useMemo(() => {
+    return (result?.drawdownHistogram || []).map(bucket => ({
+      label: `${bucket.from.toFixed(1)}–${bucket.to.toFixed(1)}%`,
+      from: bucket.from,
+      count: bucket.count,
+    }));
+  }, [result]);
+
+  if (pnls.length < 2) {
+    return (
+      <div className={cn('text-center py-12', className)}>
+        <Dices className="h-10 w-10 text-neutral-400 mx-auto mb-3" />
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          At least two closed trades are needed for a Monte Carlo simulation.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-8', className)}>
+      {/* Settings */}
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {METHODS.map(method => (
+            <button
+              key={method.value}
+              type="button"
+              onClick={() => setConfig({ ...config, method: method.value })}
+              className={cn(
+                'p-3 rounded-lg border-2 text-left transition-colors',
+                config.method === method.value
+                  ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-neutral-200 dark:border-neutral-700 hover:border-neutral-300'
+              )}
+            >
+              <div className="text-sm font-medium text-neutral-900 dark:text-white">{method.label}</div>
+              <div className="text-xs text-neutral-600 dark:text-neutral-400">{method.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Input
+            label="Iterations"
+            type="number"
+            value={config.iterations}
+            onChange={(e) => setConfig({ ...config, iterations: Number(e.target.value) })}
+            min={100}
+            max={MAX_MONTE_CARLO_ITERATIONS}
+            step={100}
+          />
+          <Input
+            label="Skip Trade Probability (%)"
+            type="number"
+            value={Math.round(config.skipProbability * 100)}
+            onChange={(e) => setConfig({ ...config, skipProbability: Number(e.target.value) / 100 })}
+            min={0}
+            max={99}
+            step={1}
+          />
+          <Input
+            label="Ruin Threshold (drawdown %)"
+            type="number"
+            value={config.ruinDrawdownPercent}
+            onChange={(e) => setConfig({ ...config, ruinDrawdownPercent: Number(e.target.value) })}
+            min={1}
+            max={100}
+            step={1}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className={cn(
+            'text-sm',
+            configError ? 'text-danger-600 dark:text-danger-400' : 'text-neutral-600 dark:text-neutral-400'
+          )}>
+            {configError || `${pnls.length} closed trades will be resampled ${config.iterations.toLocaleString()} times`}
+          </p>
+          <Button
+            onClick={handleRun}
+            disabled={running || !!configError}
+            loading={running}
+            className="flex items-center space-x-2"
+          >
+            <Play className="h-4 w-4" />
+            <span>{running ? 'Simulating...' : 'Run Simulation'}</span>
+          </Button>
+        </div>
+      </div>
+
+      {result && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              {
+                label: 'Median Final Equity',
+                value: formatCurrency(result.finalEquity.p50),
+                subValue: `5th pct ${formatCurrency(result.finalEquity.p5)}`,
+              },
+              {
+                label: 'Median Max Drawdown',
+                value: `${result.maxDrawdownPercent.p50.toFixed(2)}%`,
+                subValue: `95th pct ${result.maxDrawdownPercent.p95.toFixed(2)}% • backtest ${result.originalMaxDrawdownPercent.toFixed(2)}%`,
+              },
+              {
+                label: 'Risk of Ruin',
+                value: `${(result.riskOfRuin * 100).toFixed(1)}%`,
+                subValue: `Drawdown ≥ ${config.ruinDrawdownPercent}%`,
+              },
+              {
+                label: 'Probability of Loss',
+                value: `${(result.probabilityOfLoss * 100).toFixed(1)}%`,
+                subValue: `Ends below ${formatCurrency(initialCapital)}`,
+              },
+            ].map(metric => (
+              <div
+                key={metric.label}
+                className="p-4 rounded-lg bg-neutral-50 dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700"
+              >
+                <p className="text-xs text-neutral-600 dark:text-neutral-400 mb-1">{metric.label}</p>
+                <p className="text-lg font-semibold text-neutral-900 dark:text-white">{metric.value}</p>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">{metric.subValue}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Equity Fan Chart */}
+          <div>
+            <h4 className="text-md font-semibold text-neutral-900 dark:text-white mb-1">
+              Equity Percentiles
+            </h4>
+            <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+              Shaded bands cover the 5th–95th and 25th–75th percentiles of {result.iterations.toLocaleString()} simulated paths
+            </p>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={fanData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke="currentColor"
+                    className="text-neutral-200 dark:text-neutral-700"
+                  />
+                  <XAxis
+                    dataKey="trade"
+                    stroke="currentColor"
+                    className="text-neutral-600 dark:text-neutral-400"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    label={{ value: 'Trade #', position: 'insideBottomRight', offset: -5, fontSize: 12 }}
+                  />
+                  <YAxis
+                    stroke="currentColor"
+                    className="text-neutral-600 dark:text-neutral-400"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={formatCurrency}
+                    width={90}
+                  />
+                  <Tooltip
+                    formatter={(value: number | number[], name: string) => [
+                      Array.isArray(value) ? value.map(formatCurrency).join(' – ') : formatCurrency(value),
+                      name,
+                    ]}
+                    labelFormatter={(trade) => `After trade ${trade}`}
+                  />
+                  <ReferenceLine y={initialCapital} stroke="#6b7280" strokeDasharray="3 3" />
+                  <Area dataKey="outer" name="5th–95th" stroke="none" fill="#3b82f6" fillOpacity={0.15} isAnimationActive={false} />
+                  <Area dataKey="inner" name="25th–75th" stroke="none" fill="#3b82f6" fillOpacity={0.3} isAnimationActive={false} />
+                  <Line dataKey="median" name="Median" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line dataKey="original" name="Backtest" stroke="#f59e0b" strokeWidth={2} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Drawdown Histogram */}
+          <div>
+            <h4 className="text-md font-semibold text-neutral-900 dark:text-white mb-4">
+              Max Drawdown Distribution
+            </h4>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={histogramData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke="currentColor"
+                    className="text-neutral-200 dark:text-neutral-700"
+                  />
+                  <XAxis
+                    dataKey="label"
+                    stroke="currentColor"
+                    className="text-neutral-600 dark:text-neutral-400"
+                    fontSize={11}
+                    tickLine={false}
+                    axisLine={false}
+                    interval="preserveStartEnd"
+                  />
+                  <YAxis
+                    stroke="currentColor"
+                    className="text-neutral-600 dark:text-neutral-400"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    allowDecimals={false}
+                  />
+                  <Tooltip formatter={(value: number) => [value.toLocaleString(), 'Paths']} />
+                  <Bar dataKey="count" fill="#dc2626" radius={[2, 2, 0, 0]} isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
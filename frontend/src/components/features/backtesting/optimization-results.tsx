@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { ArrowUpDown, Save, Trophy } from 'lucide-react';
+import { Button, Select, useToast } from '@/components/ui';
+import { OptimizationResult, OptimizationTrial, OptimizationObjective } from '@/lib/api/backtesting';
+import { parameterPresetStorage } from '@/lib/parameter-presets';
+import { OPTIMIZATION_OBJECTIVES } from './optimization-settings';
+import { cn } from '@/lib/utils';
+
+interface OptimizationResultsProps {
+  optimization: OptimizationResult;
+  baseParameters?: Record<string, any>;
+  strategyName?: string;
+  className?: string;
+}
+
+type MetricField = 'objectiveValue' | 'totalReturnPercent' | 'sharpeRatio' | 'calmarRatio' | 'maxDrawdownPercent' | 'winRate' | 'totalTrades';
+type SortField = MetricField | `param:${string}`;
+type SortDirection = 'asc' | 'desc';
+
+const METRIC_COLUMNS: { field: MetricField; label: string; format: (value: number) => string }[] = [
+  { field: 'totalReturnPercent', label: 'Return', format: value => `${value.toFixed(2)}%` },
+  { field: 'sharpeRatio', label: 'Sharpe', format: value => value.toFixed(2) },
+  { field: 'calmarRatio', label: 'Calmar', format: value => value.toFixed(2) },
+  { field: 'maxDrawdownPercent', label: 'Max DD', format: value => `${value.toFixed(2)}%` },
+  { field: 'winRate', label: 'Win Rate', format: value => `${(value * 100).toFixed(1)}%` },
+  { field: 'totalTrades', label: 'Trades', format: value => value.toLocaleString() },
+];
+
+const objectiveLabel = (objective: OptimizationObjective) =>
+  OPTIMIZATION_OBJECTIVES.find(option => option.value === objective)?.label || objective;
+
+const sameParameters = (a: Record<string, number>, b?: Record<string, number>) =>
+  !!b && Object.keys(a).every(key => a[key] === b[key]);
+
+// Red (worst) through amber to green (best)
+const heatColor = (ratio: number) => {
+  const hue = Math.round(ratio * 120);
+  return `hsl(${hue}, 70%, 45%)`;
+};
+
+export function OptimizationResults({
+  optimization,
+  baseParameters = {},
+  strategyName = 'Strategy',
+  className,
+}: OptimizationResultsProps) {
+  const { ranges, trials, objective, bestParameters } = optimization;
+  const [sortField, setSortField] = useState<SortField>('objectiveValue');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [xKey, setXKey] = useState(ranges[0]?.key || '');
+  const [yKey, setYKey] = useState(ranges[1]?.key || '');
+  const [heatmapMetric, setHeatmapMetric] = useState<OptimizationObjective>(objective);
+  const { addToast } = useToast();
+
+  const sortedTrials = useMemo(() => {
+    const valueOf = (trial: OptimizationTrial) =>
+      sortField.startsWith('param:')
+        ? trial.parameters[sortField.slice('param:'.length)]
+        : trial[sortField as MetricField];
+
+    return [...trials].sort((a, b) => {
+      const difference = valueOf(a) - valueOf(b);
+      return sortDirection === 'asc' ? difference : -difference;
+    });
+  }, [trials, sortField, sortDirection]);
+
+  // Best value of the metric for every (x, y) pair; other parameters vary freely
+  const heatmap = useMemo(() => {
+    const xValues = Array.from(new Set(trials.map(trial => trial.parameters[xKey]))).sort((a, b) => a - b);
+    const yValues = yKey
+      ? Array.from(new Set(trials.map(trial => trial.parameters[yKey]))).sort((a, b) => b - a)
+      : [null];
+    const cells = new Map<string, number>();
+
+    trials.forEach(trial => {
+      const cellKey = `${trial.parameters[xKey]}|${yKey ? trial.parameters[yKey] : ''}`;
+      const value = trial[heatmapMetric];
+      const existing = cells.get(cellKey);
+      if (existing === undefined || value > existing) {
+        cells.set(cellKey, value);
+      }
+    });
+
+    const values = Array.from(cells.values());
+    return {
+      xValues,
+      yValues,
+      cells,
+      min: values.length > 0 ? Math.min(...values) : 0,
+      max: values.length > 0 ? Math.max(...values) : 0,
+    };
+  }, [trials, xKey, yKey, heatmapMetric]);
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection('desc');
+    }
+  };
+
+  const handleSavePreset = (trial: OptimizationTrial) => {
+    const summary = Object.entries(trial.parameters).map(([key, value]) => `${key}=${value}`).join(', ');
+    const preset = parameterPresetStorage.addPreset({
+      name: `${strategyName} optimized (${objectiveLabel(objective)} ${trial.objectiveValue.toFixed(2)})`,
+      description: `Found by ${optimization.method.toLowerCase()} search: ${summary}`,
+      parameters: { ...baseParameters, ...trial.parameters },
+      isDefault: false,
+      tags: ['optimized'],
+    });
+
+    addToast({
+      type: 'success',
+      title: 'Preset Saved',
+      description: `"${preset.name}" is available under Parameter Presets`,
+    });
+  };
+
+  const SortButton = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
+    <button
+      onClick={() => handleSort(field)}
+      className="flex items-center space-x-1 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+    >
+      <span>{children}</span>
+      <ArrowUpDown className="h-3 w-3" />
+    </button>
+  );
+
+  const parameterOptions = ranges.map(range => ({ value: range.key, label: range.label || range.key }));
+  const heatmapRange = heatmap.max - heatmap.min;
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Summary */}
+      <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+        <div className="flex items-start space-x-3">
+          <Trophy className="h-6 w-6 text-warning-500 mt-0.5" />
+          <div className="min-w-0 flex-1">
+            <h3 className="text-lg font-semibold text-neutral-900 dark:text-white">
+              Optimization Results
+            </h3>
+            <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+              {trials.length} trials • {optimization.method.charAt(0) + optimization.method.slice(1).toLowerCase()} search • maximizing {objectiveLabel(objective)}
+            </p>
+            {bestParameters && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {Object.entries(bestParameters).map(([key, value]) => (
+                  <span
+                    key={key}
+                    className="inline-block px-2 py-1 text-xs bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300 rounded"
+                  >
+                    {key}: <span className="font-medium">{value}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+              The charts and trades below come from re-running the best parameter set.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Heatmap */}
+      {xKey && trials.length > 0 && (
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold text-neutral-900 dark:text-white">
+              Parameter Heatmap
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:w-2/3">
+              <Select
+                label="X Axis"
+                value={xKey}
+                onChange={(e) => setXKey(e.target.value)}
+                options={parameterOptions}
+              />
+              <Select
+                label="Y Axis"
+                value={yKey}
+                onChange={(e) => setYKey(e.target.value)}
+                options={[{ value: '', label: 'None' }, ...parameterOptions.filter(option => option.value !== xKey)]}
+              />
+              <Select
+                label="Metric"
+                value={heatmapMetric}
+                onChange={(e) => setHeatmapMetric(e.target.value as OptimizationObjective)}
+                options={OPTIMIZATION_OBJECTIVES}
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="border-separate" style={{ borderSpacing: 2 }}>
+              <tbody>
+                {heatmap.yValues.map(yValue => (
+                  <tr key={String(yValue)}>
+                    <th className="pr-2 text-right text-xs font-medium text-neutral-600 dark:text-neutral-400 whitespace-nowrap">
+                      {yValue ?? ''}
+                    </th>
+                    {heatmap.xValues.map(xValue => {
+                      const value = heatmap.cells.get(`${xValue}|${yValue ?? ''}`);
+                      const ratio = value === undefined || heatmapRange === 0 ? 1 : (value - heatmap.min) / heatmapRange;
+
+                      return (
+                        <td
+                          key={xValue}
+                          title={`${xKey}=${xValue}${yKey ? `, ${yKey}=${yValue}` : ''}: ${value === undefined ? 'not tested' : value.toFixed(2)}`}
+                          className="w-10 h-8 min-w-[2.5rem] text-center text-[10px] font-medium text-white rounded"
+                          style={{ backgroundColor: value === undefined ? 'rgba(115, 115, 115, 0.2)' : heatColor(ratio) }}
+                        >
+                          {value === undefined ? '' : value.toFixed(1)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr>
+                  <th />
+                  {heatmap.xValues.map(xValue => (
+                    <th key={xValue} className="pt-1 text-xs font-medium text-neutral-600 dark:text-neutral-400">
+                      {xValue}
+                    </th>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-3">
+            {yKey ? `${yKey} (rows) vs ${xKey} (columns)` : xKey}. Each cell shows the best {objectiveLabel(heatmapMetric)} among trials with those values.
+          </p>
+        </div>
+      )}
+
+      {/* Trials Table */}
+      <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4">
+          Trials
+        </h3>
+        <div className="overflow-x-auto max-h-[32rem]">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                {ranges.map(range => (
+                  <th key={range.key} className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                    <SortButton field={`param:${range.key}`}>{range.label || range.key}</SortButton>
+                  </th>
+                ))}
+                {METRIC_COLUMNS.map(column => (
+                  <th key={column.field} className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                    <div className="flex justify-end">
+                      <SortButton field={column.field}>
+                        {column.field === objective ? `${column.label} ★` : column.label}
+                      </SortButton>
+                    </div>
+                  </th>
+                ))}
+                <th className="py-3 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedTrials.map((trial, index) => (
+                <tr
+                  key={index}
+                  className={cn(
+                    'border-b border-neutral-100 dark:border-neutral-800 hover:bg-neutral-50 dark:hover:bg-neutral-900 transition-colors',
+                    sameParameters(trial.parameters, bestParameters) && 'bg-primary-50 dark:bg-primary-900/20'
+                  )}
+                >
+                  {ranges.map(range => (
+                    <td key={range.key} className="py-2 px-2 text-sm font-medium text-neutral-900 dark:text-white">
+                      {trial.parameters[range.key]}
+                    </td>
+                  ))}
+                  {METRIC_COLUMNS.map(column => (
+                    <td
+                      key={column.field}
+                      className={cn(
+                        'py-2 px-2 text-sm text-right',
+                        column.field === 'totalReturnPercent'
+                          ? trial.totalReturnPercent >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                          : 'text-neutral-900 dark:text-white'
+                      )}
+                    >
+                      {column.format(trial[column.field])}
+                    </td>
+                  ))}
+                  <td className="py-2 px-2 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSavePreset(trial)}
+                      className="flex items-center space-x-1 ml-auto"
+                    >
+                      <Save className="h-3 w-3" />
+                      <span>Save Preset</span>
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
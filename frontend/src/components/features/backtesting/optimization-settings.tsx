@@ -0,0 +1,229 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Sliders, Info } from 'lucide-react';
+import { Input, Select } from '@/components/ui';
+import { useStrategyTemplates } from '@/hooks/use-strategy-templates';
+import { Strategy, ParameterSchema } from '@/lib/api/strategies';
+import { OptimizationConfig, OptimizationRange } from '@/lib/api/backtesting';
+import { cn } from '@/lib/utils';
+
+export const MAX_OPTIMIZATION_TRIALS = 500;
+
+export const OPTIMIZATION_OBJECTIVES = [
+  { value: 'sharpeRatio', label: 'Sharpe Ratio' },
+  { value: 'totalReturnPercent', label: 'Total Return (%)' },
+  { value: 'calmarRatio', label: 'Calmar Ratio' },
+];
+
+const OPTIMIZATION_METHODS = [
+  { value: 'GRID', label: 'Grid search (every combination)' },
+  { value: 'RANDOM', label: 'Random search' },
+  { value: 'BAYESIAN', label: 'Bayesian search' },
+];
+
+export const DEFAULT_OPTIMIZATION: OptimizationConfig = {
+  method: 'GRID',
+  objective: 'sharpeRatio',
+  ranges: [],
+  maxTrials: 50,
+};
+
+/**
+ * Number of values a range spans from min to max in steps
+ */
+export function countRangeValues(range: OptimizationRange): number {
+  if (!(range.step > 0) || range.min > range.max) return 0;
+  return Math.floor((range.max - range.min) / range.step + 1e-9) + 1;
+}
+
+export function countCombinations(ranges: OptimizationRange[]): number {
+  return ranges.reduce((total, range) => total * countRangeValues(range), ranges.length > 0 ? 1 : 0);
+}
+
+interface OptimizationSettingsProps {
+  strategy: Strategy;
+  value: OptimizationConfig;
+  onChange: (value: OptimizationConfig) => void;
+  error?: string;
+  className?: string;
+}
+
+export function OptimizationSettings({
+  strategy,
+  value,
+  onChange,
+  error,
+  className,
+}: OptimizationSettingsProps) {
+  const { templates } = useStrategyTemplates({ limit: 100 });
+
+  // Numeric parameters that can be optimized: the template schema when there is
+  // one, otherwise whatever numeric values the strategy already has
+  const candidates = useMemo((): ParameterSchema[] => {
+    const template = strategy.templateId
+      ? templates.find(t => t._id === strategy.templateId)
+      : undefined;
+
+    if (template?.parameterSchema?.length) {
+      return template.parameterSchema.filter(param => param.type === 'number' || param.type === 'range');
+    }
+
+    return Object.entries(strategy.parameters || {})
+      .filter(([, current]) => typeof current === 'number')
+      .map(([key, current]) => ({
+        key,
+        label: key,
+        type: 'number' as const,
+        defaultValue: current,
+        min: Number.isInteger(current) ? Math.max(1, Math.round(current / 2)) : current / 2,
+        max: current === 0 ? 10 : current * 2,
+        step: Number.isInteger(current) ? 1 : Math.abs(current) / 10,
+        required: false,
+      }));
+  }, [strategy, templates]);
+
+  const combinations = countCombinations(value.ranges);
+  const trialCount = value.method === 'GRID' ? combinations : Math.min(value.maxTrials, combinations);
+
+  const rangeFor = (key: string) => value.ranges.find(range => range.key === key);
+
+  const toggleParameter = (param: ParameterSchema) => {
+    if (rangeFor(param.key)) {
+      onChange({ ...value, ranges: value.ranges.filter(range => range.key !== param.key) });
+      return;
+    }
+
+    const current = Number(strategy.parameters?.[param.key] ?? param.defaultValue ?? 0);
+    onChange({
+      ...value,
+      ranges: [
+        ...value.ranges,
+        {
+          key: param.key,
+          label: param.label,
+          min: param.min ?? current,
+          max: param.max ?? current,
+          step: param.step ?? 1,
+        },
+      ],
+    });
+  };
+
+  const updateRange = (key: string, field: 'min' | 'max' | 'step', fieldValue: number) => {
+    onChange({
+      ...value,
+      ranges: value.ranges.map(range => (range.key === key ? { ...range, [field]: fieldValue } : range)),
+    });
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <h3 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center">
+        <Sliders className="h-5 w-5 mr-2" />
+        Optimization
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Select
+          label="Search Method"
+          value={value.method}
+          onChange={(e) => onChange({ ...value, method: e.target.value as OptimizationConfig['method'] })}
+          options={OPTIMIZATION_METHODS}
+        />
+        <Select
+          label="Objective"
+          value={value.objective}
+          onChange={(e) => onChange({ ...value, objective: e.target.value as OptimizationConfig['objective'] })}
+          options={OPTIMIZATION_OBJECTIVES}
+        />
+        <Input
+          label="Max Trials"
+          type="number"
+          value={value.maxTrials}
+          onChange={(e) => onChange({ ...value, maxTrials: Number(e.target.value) })}
+          min={1}
+          max={MAX_OPTIMIZATION_TRIALS}
+          disabled={value.method === 'GRID'}
+        />
+      </div>
+
+      {candidates.length > 0 ? (
+        <div className="space-y-2">
+          {candidates.map(param => {
+            const range = rangeFor(param.key);
+
+            return (
+              <div
+                key={param.key}
+                className={cn(
+                  'border rounded-lg p-3',
+                  range
+                    ? 'border-primary-300 bg-primary-50 dark:border-primary-600 dark:bg-primary-900/20'
+                    : 'border-neutral-200 dark:border-neutral-700'
+                )}
+              >
+                <label className="flex items-center space-x-2 text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                  <input
+                    type="checkbox"
+                    checked={!!range}
+                    onChange={() => toggleParameter(param)}
+                    className="rounded border-neutral-300"
+                  />
+                  <span>{param.label}</span>
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                    (current: {String(strategy.parameters?.[param.key] ?? param.defaultValue)})
+                  </span>
+                </label>
+
+                {range && (
+                  <div className="grid grid-cols-3 gap-3 mt-3">
+                    <Input
+                      label="Min"
+                      type="number"
+                      value={range.min}
+                      onChange={(e) => updateRange(param.key, 'min', Number(e.target.value))}
+                      step={range.step}
+                    />
+                    <Input
+                      label="Max"
+                      type="number"
+                      value={range.max}
+                      onChange={(e) => updateRange(param.key, 'max', Number(e.target.value))}
+                      step={range.step}
+                    />
+                    <Input
+                      label="Step"
+                      type="number"
+                      value={range.step}
+                      onChange={(e) => updateRange(param.key, 'step', Number(e.target.value))}
+                      min={0}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          This strategy has no numeric parameters to optimize.
+        </p>
+      )}
+
+      <div className="p-3 bg-neutral-50 dark:bg-neutral-800 rounded-lg">
+        <div className="flex items-center space-x-2 text-sm">
+          <Info className="h-4 w-4 text-primary-500" />
+          <span className="text-neutral-700 dark:text-neutral-300">
+            {value.ranges.length === 0
+              ? 'Select the parameters to optimize'
+              : `${combinations.toLocaleString()} combinations • ${trialCount.toLocaleString()} backtests will run`}
+          </span>
+        </div>
+        {error && (
+          <p className="mt-2 text-sm text-danger-600 dark:text-danger-400">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
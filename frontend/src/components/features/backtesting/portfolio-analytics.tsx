@@ -0,0 +1,235 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SymbolAttribution, ExposurePoint, CorrelationMatrices } from '@/types/trading';
+import { cn } from '@/lib/utils';
+
+interface PortfolioAnalyticsProps {
+  attribution: SymbolAttribution[];
+  exposureCurve: ExposurePoint[];
+  correlations?: CorrelationMatrices;
+  className?: string;
+}
+
+type CorrelationView = 'returns' | 'pnl';
+
+const symbolColor = (index: number, count: number) => `hsl(${Math.round((index * 360) / Math.max(1, count))}, 65%, 50%)`;
+
+// Blue for negative, red for positive correlation
+const correlationColor = (value: number) => {
+  const hue = value >= 0 ? 0 : 220;
+  return `hsla(${hue}, 75%, 50%, ${Math.min(1, Math.abs(value)) * 0.8})`;
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+export function PortfolioAnalytics({ attribution, exposureCurve, correlations, className }: PortfolioAnalyticsProps) {
+  const [correlationView, setCorrelationView] = useState<CorrelationView>('returns');
+
+  const symbols = useMemo(() => attribution.map(item => item.symbol), [attribution]);
+
+  const sortedAttribution = useMemo(
+    () => [...attribution].sort((a, b) => b.pnl - a.pnl),
+    [attribution]
+  );
+
+  const exposureData = useMemo(() => {
+    return exposureCurve.map(point => ({
+      date: point.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' }),
+      ...Object.fromEntries(symbols.map(symbol => [symbol, point.bySymbol?.[symbol] || 0])),
+    }));
+  }, [exposureCurve, symbols]);
+
+  const averageExposure = useMemo(() => {
+    if (exposureCurve.length === 0) return 0;
+    return exposureCurve.reduce((sum, point) => sum + point.exposurePercent, 0) / exposureCurve.length;
+  }, [exposureCurve]);
+
+  const matrix = correlations ? correlations[correlationView] : [];
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Attribution */}
+      <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4">
+          Symbol Attribution
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Symbol</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">P&L</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Return Contribution</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Share of P&L</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Trades</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Win Rate</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Avg Exposure</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedAttribution.map(item => (
+                <tr key={item.symbol} className="border-b border-neutral-100 dark:border-neutral-800">
+                  <td className="py-2 px-2 text-sm font-medium text-neutral-900 dark:text-white">{item.symbol}</td>
+                  <td className={cn(
+                    'py-2 px-2 text-sm text-right font-medium',
+                    item.pnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                  )}>
+                    {formatCurrency(item.pnl)}
+                  </td>
+                  <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">
+                    {item.returnContribution.toFixed(2)}%
+                  </td>
+                  <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">
+                    {(item.pnlShare * 100).toFixed(1)}%
+                  </td>
+                  <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">{item.trades}</td>
+                  <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">
+                    {(item.winRate * 100).toFixed(1)}%
+                  </td>
+                  <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">
+                    {item.avgExposurePercent.toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Exposure */}
+      {exposureData.length > 0 && (
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-neutral-900 dark:text-white">
+              Exposure Over Time
+            </h3>
+            <span className="text-sm text-neutral-600 dark:text-neutral-400">
+              Average invested: {averageExposure.toFixed(1)}% of equity
+            </span>
+          </div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={exposureData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid
+                  strokeDasharray="3 3"
+                  stroke="currentColor"
+                  className="text-neutral-200 dark:text-neutral-700"
+                />
+                <XAxis
+                  dataKey="date"
+                  stroke="currentColor"
+                  className="text-neutral-600 dark:text-neutral-400"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={40}
+                />
+                <YAxis
+                  stroke="currentColor"
+                  className="text-neutral-600 dark:text-neutral-400"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  domain={[0, 100]}
+                  tickFormatter={(value) => `${value}%`}
+                />
+                <Tooltip formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]} />
+                {symbols.map((symbol, index) => (
+                  <Area
+                    key={symbol}
+                    type="stepAfter"
+                    dataKey={symbol}
+                    stackId="exposure"
+                    stroke={symbolColor(index, symbols.length)}
+                    fill={symbolColor(index, symbols.length)}
+                    fillOpacity={0.6}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Correlations */}
+      {correlations && correlations.symbols.length > 1 && (
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-neutral-900 dark:text-white">
+              Correlation Matrix
+            </h3>
+            <div className="inline-flex rounded-md bg-neutral-100 dark:bg-neutral-900 p-1">
+              {([
+                { value: 'returns', label: 'Price Returns' },
+                { value: 'pnl', label: 'Strategy P&L' },
+              ] as const).map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setCorrelationView(option.value)}
+                  className={cn(
+                    'px-3 py-1 text-sm rounded',
+                    correlationView === option.value
+                      ? 'bg-white text-neutral-900 shadow-sm dark:bg-neutral-700 dark:text-white'
+                      : 'text-neutral-600 dark:text-neutral-400'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {correlations.symbols.map(symbol => (
+                    <th key={symbol} className="px-1 py-2 font-medium text-neutral-600 dark:text-neutral-400">
+                      {symbol}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {correlations.symbols.map((rowSymbol, i) => (
+                  <tr key={rowSymbol}>
+                    <th className="pr-2 text-right font-medium text-neutral-600 dark:text-neutral-400">{rowSymbol}</th>
+                    {correlations.symbols.map((columnSymbol, j) => {
+                      const value = matrix[i]?.[j] ?? 0;
+                      return (
+                        <td
+                          key={columnSymbol}
+                          className="w-14 h-10 text-center text-neutral-900 dark:text-white border border-white dark:border-neutral-800"
+                          style={{ backgroundColor: correlationColor(value) }}
+                          title={`${rowSymbol} / ${columnSymbol}: ${value.toFixed(2)}`}
+                        >
+                          {value.toFixed(2)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-3">
+            {correlationView === 'returns'
+              ? 'Correlation of daily close-to-close returns of the symbols themselves'
+              : 'Correlation of the strategy\'s daily mark-to-market P&L in each symbol'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
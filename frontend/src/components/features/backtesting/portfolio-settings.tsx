@@ -0,0 +1,168 @@
+'use client';
+
+import { Briefcase } from 'lucide-react';
+import { Input } from '@/components/ui';
+import { PortfolioConfig, SizingModel } from '@/lib/api/backtesting';
+import { NSE_SYMBOLS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+
+export const MAX_PORTFOLIO_SYMBOLS = 30;
+
+export const DEFAULT_PORTFOLIO: PortfolioConfig = {
+  symbols: [...NSE_SYMBOLS],
+  sizingModel: 'EQUAL_WEIGHT',
+  fractionPercent: 10,
+  targetVolatility: 15,
+  volatilityLookback: 20,
+  kellyFraction: 0.5,
+};
+
+const SIZING_MODELS: { value: SizingModel; label: string; description: string }[] = [
+  { value: 'EQUAL_WEIGHT', label: 'Equal Weight', description: 'Each symbol gets the same share of equity' },
+  { value: 'FIXED_FRACTIONAL', label: 'Fixed Fractional', description: 'Every position is a fixed percent of equity' },
+  { value: 'VOLATILITY_TARGET', label: 'Volatility Target', description: 'Size positions inversely to recent volatility' },
+  { value: 'KELLY', label: 'Kelly', description: 'Size by the edge of closed trades (fractional Kelly)' },
+];
+
+interface PortfolioSettingsProps {
+  value: PortfolioConfig;
+  onChange: (value: PortfolioConfig) => void;
+  error?: string;
+  className?: string;
+}
+
+export function PortfolioSettings({ value, onChange, error, className }: PortfolioSettingsProps) {
+  const toggleSymbol = (symbol: string) => {
+    onChange({
+      ...value,
+      symbols: value.symbols.includes(symbol)
+        ? value.symbols.filter(s => s !== symbol)
+        : [...value.symbols, symbol],
+    });
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center">
+          <Briefcase className="h-5 w-5 mr-2" />
+          Portfolio
+        </h3>
+        <div className="flex items-center space-x-3 text-sm">
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, symbols: [...NSE_SYMBOLS] })}
+            className="text-primary-600 hover:text-primary-700 dark:text-primary-400"
+          >
+            Select all
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, symbols: [] })}
+            className="text-neutral-600 hover:text-neutral-700 dark:text-neutral-400"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">
+          The strategy runs on every selected symbol from one shared cash pool ({value.symbols.length} selected)
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {NSE_SYMBOLS.map(symbol => (
+            <button
+              key={symbol}
+              type="button"
+              onClick={() => toggleSymbol(symbol)}
+              className={cn(
+                'px-3 py-1 rounded-full text-xs font-medium border transition-colors',
+                value.symbols.includes(symbol)
+                  ? 'border-primary-300 bg-primary-50 text-primary-700 dark:border-primary-600 dark:bg-primary-900/20 dark:text-primary-300'
+                  : 'border-neutral-200 text-neutral-600 hover:border-neutral-300 dark:border-neutral-700 dark:text-neutral-400'
+              )}
+            >
+              {symbol}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+          Position Sizing
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {SIZING_MODELS.map(model => (
+            <button
+              key={model.value}
+              type="button"
+              onClick={() => onChange({ ...value, sizingModel: model.value })}
+              className={cn(
+                'p-3 border rounded-lg text-left transition-colors',
+                value.sizingModel === model.value
+                  ? 'border-primary-300 bg-primary-50 dark:border-primary-600 dark:bg-primary-900/20'
+                  : 'border-neutral-200 dark:border-neutral-700 hover:border-neutral-300 dark:hover:border-neutral-600'
+              )}
+            >
+              <div className="text-sm font-medium text-neutral-900 dark:text-white">{model.label}</div>
+              <div className="text-xs text-neutral-600 dark:text-neutral-400 mt-1">{model.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {value.sizingModel === 'FIXED_FRACTIONAL' && (
+        <Input
+          label="Equity per Position (%)"
+          type="number"
+          value={value.fractionPercent}
+          onChange={(e) => onChange({ ...value, fractionPercent: Number(e.target.value) })}
+          min={0.1}
+          max={100}
+          step={0.5}
+        />
+      )}
+
+      {value.sizingModel === 'VOLATILITY_TARGET' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Target Volatility (% annual)"
+            type="number"
+            value={value.targetVolatility}
+            onChange={(e) => onChange({ ...value, targetVolatility: Number(e.target.value) })}
+            min={1}
+            max={200}
+            step={1}
+          />
+          <Input
+            label="Volatility Lookback (bars)"
+            type="number"
+            value={value.volatilityLookback}
+            onChange={(e) => onChange({ ...value, volatilityLookback: Number(e.target.value) })}
+            min={2}
+            step={1}
+          />
+        </div>
+      )}
+
+      {value.sizingModel === 'KELLY' && (
+        <Input
+          label="Kelly Fraction"
+          type="number"
+          value={value.kellyFraction}
+          onChange={(e) => onChange({ ...value, kellyFraction: Number(e.target.value) })}
+          min={0.05}
+          max={1}
+          step={0.05}
+          helperText="Share of the full Kelly bet; equal weight is used until 10 trades have closed"
+        />
+      )}
+
+      {error && (
+        <p className="text-sm text-danger-600 dark:text-danger-400">{error}</p>
+      )}
+    </div>
+  );
+}
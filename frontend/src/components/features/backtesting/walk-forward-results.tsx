@@ -0,0 +1,220 @@
+'use client';
+
+import { Repeat, Gauge, Anchor } from 'lucide-react';
+import { WalkForwardResult, WalkForwardMetrics } from '@/lib/api/backtesting';
+import { cn } from '@/lib/utils';
+
+interface WalkForwardResultsProps {
+  walkForward: WalkForwardResult;
+  className?: string;
+}
+
+const METRIC_ROWS: { field: keyof WalkForwardMetrics; label: string; format: (value: number) => string }[] = [
+  { field: 'totalReturnPercent', label: 'Total Return', format: value => `${value.toFixed(2)}%` },
+  { field: 'annualizedReturn', label: 'Annualized Return', format: value => `${value.toFixed(2)}%` },
+  { field: 'sharpeRatio', label: 'Sharpe Ratio', format: value => value.toFixed(2) },
+  { field: 'calmarRatio', label: 'Calmar Ratio', format: value => value.toFixed(2) },
+  { field: 'maxDrawdownPercent', label: 'Max Drawdown', format: value => `${value.toFixed(2)}%` },
+  { field: 'winRate', label: 'Win Rate', format: value => `${(value * 100).toFixed(1)}%` },
+  { field: 'totalTrades', label: 'Trades', format: value => value.toLocaleString() },
+];
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+// Pardo's rule of thumb: 50% or better means the optimization generalizes
+const efficiencyColor = (efficiency: number) => {
+  if (efficiency >= 0.5) return 'text-green-600 dark:text-green-400';
+  if (efficiency > 0) return 'text-warning-600 dark:text-warning-400';
+  return 'text-red-600 dark:text-red-400';
+};
+
+export function WalkForwardResults({ walkForward, className }: WalkForwardResultsProps) {
+  const { windows, inSample, outOfSample, efficiency, stabilityScore, parameterStability } = walkForward;
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                Walk-Forward Efficiency
+              </p>
+              <p className={cn('text-2xl font-bold', efficiencyColor(efficiency))}>
+                {(efficiency * 100).toFixed(1)}%
+              </p>
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                Out-of-sample vs in-sample annualized return
+              </p>
+            </div>
+            <Gauge className="h-8 w-8 text-neutral-400" />
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                Parameter Stability
+              </p>
+              <p className="text-2xl font-bold text-neutral-900 dark:text-white">
+                {(stabilityScore * 100).toFixed(1)}%
+              </p>
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                100% means every window chose the same values
+              </p>
+            </div>
+            <Anchor className="h-8 w-8 text-neutral-400" />
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                Windows
+              </p>
+              <p className="text-2xl font-bold text-neutral-900 dark:text-white">
+                {windows.length}
+              </p>
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                {walkForward.anchored ? 'Anchored' : 'Rolling'} • {walkForward.trainDays}d train / {walkForward.testDays}d test
+              </p>
+            </div>
+            <Repeat className="h-8 w-8 text-neutral-400" />
+          </div>
+        </div>
+      </div>
+
+      {/* In-Sample vs Out-of-Sample */}
+      {inSample && outOfSample && (
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-1">
+            In-Sample vs Out-of-Sample
+          </h3>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+            In-sample figures average the optimized train windows; out-of-sample figures come from the stitched test windows shown in the charts below.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                  <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Metric</th>
+                  <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">In-Sample</th>
+                  <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Out-of-Sample</th>
+                </tr>
+              </thead>
+              <tbody>
+                {METRIC_ROWS.map(row => (
+                  <tr key={row.field} className="border-b border-neutral-100 dark:border-neutral-800">
+                    <td className="py-2 px-2 text-sm text-neutral-700 dark:text-neutral-300">{row.label}</td>
+                    <td className="py-2 px-2 text-sm text-right font-medium text-neutral-900 dark:text-white">
+                      {row.format(inSample[row.field])}
+                    </td>
+                    <td className="py-2 px-2 text-sm text-right font-medium text-neutral-900 dark:text-white">
+                      {row.format(outOfSample[row.field])}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Windows */}
+      <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4">
+          Windows
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">#</th>
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Train</th>
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Test</th>
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Parameters</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">IS Return</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">OOS Return</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">IS Sharpe</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">OOS Sharpe</th>
+              </tr>
+            </thead>
+            <tbody>
+              {windows.map((window, index) => (
+                <tr key={index} className="border-b border-neutral-100 dark:border-neutral-800">
+                  <td className="py-2 px-2 text-sm text-neutral-600 dark:text-neutral-400">{index + 1}</td>
+                  <td className="py-2 px-2 text-sm text-neutral-900 dark:text-white whitespace-nowrap">
+                    {formatDate(window.trainStart)} – {formatDate(window.trainEnd)}
+                  </td>
+                  <td className="py-2 px-2 text-sm text-neutral-900 dark:text-white whitespace-nowrap">
+                    {formatDate(window.testStart)} – {formatDate(window.testEnd)}
+                  </td>
+                  <td className="py-2 px-2 text-xs text-neutral-700 dark:text-neutral-300">
+                    {Object.entries(window.parameters).map(([key, value]) => `${key}=${value}`).join(', ')}
+                  </td>
+                  {(['inSample', 'outOfSample'] as const).map(sample => (
+                    <td
+                      key={sample}
+                      className={cn(
+                        'py-2 px-2 text-sm text-right font-medium',
+                        window[sample].totalReturnPercent >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                      )}
+                    >
+                      {window[sample].totalReturnPercent.toFixed(2)}%
+                    </td>
+                  ))}
+                  <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">
+                    {window.inSample.sharpeRatio.toFixed(2)}
+                  </td>
+                  <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">
+                    {window.outOfSample.sharpeRatio.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Parameter Stability */}
+      {parameterStability.length > 0 && (
+        <div className="bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700">
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4">
+            Parameter Stability
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                  <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Parameter</th>
+                  <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Chosen Values</th>
+                  <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Mean</th>
+                  <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Std Dev</th>
+                  <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Range</th>
+                  <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Coeff. of Variation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parameterStability.map(param => (
+                  <tr key={param.key} className="border-b border-neutral-100 dark:border-neutral-800">
+                    <td className="py-2 px-2 text-sm font-medium text-neutral-900 dark:text-white">{param.key}</td>
+                    <td className="py-2 px-2 text-xs text-neutral-700 dark:text-neutral-300">{param.values.join(' → ')}</td>
+                    <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">{param.mean.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">{param.stdDev.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">{param.min} – {param.max}</td>
+                    <td className="py-2 px-2 text-sm text-right text-neutral-900 dark:text-white">
+                      {(param.coefficientOfVariation * 100).toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { Repeat, Info } from 'lucide-react';
+import { Input } from '@/components/ui';
+import { WalkForwardConfig } from '@/lib/api/backtesting';
+import { cn } from '@/lib/utils';
+
+export const DEFAULT_WALK_FORWARD: WalkForwardConfig = {
+  trainDays: 180,
+  testDays: 60,
+  anchored: false,
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Number of train/test windows that fit between two dates
+ */
+export function countWalkForwardWindows(config: WalkForwardConfig, startDate: string, endDate: string): number {
+  if (!startDate || !endDate || !(config.trainDays > 0) || !(config.testDays > 0)) return 0;
+
+  const rangeDays = (new Date(endDate).getTime() - new Date(startDate).getTime()) / MS_PER_DAY;
+  if (rangeDays < config.trainDays + config.testDays) return 0;
+
+  return Math.ceil((rangeDays - config.trainDays) / config.testDays);
+}
+
+interface WalkForwardSettingsProps {
+  value: WalkForwardConfig;
+  onChange: (value: WalkForwardConfig) => void;
+  startDate: string;
+  endDate: string;
+  error?: string;
+  className?: string;
+}
+
+export function WalkForwardSettings({
+  value,
+  onChange,
+  startDate,
+  endDate,
+  error,
+  className,
+}: WalkForwardSettingsProps) {
+  const windowCount = countWalkForwardWindows(value, startDate, endDate);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <h3 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center">
+        <Repeat className="h-5 w-5 mr-2" />
+        Walk-Forward Windows
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Train Window (days)"
+          type="number"
+          value={value.trainDays}
+          onChange={(e) => onChange({ ...value, trainDays: Number(e.target.value) })}
+          min={5}
+          step={1}
+        />
+        <Input
+          label="Test Window (days)"
+          type="number"
+          value={value.testDays}
+          onChange={(e) => onChange({ ...value, testDays: Number(e.target.value) })}
+          min={1}
+          step={1}
+        />
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-neutral-700 dark:text-neutral-300">
+        <input
+          type="checkbox"
+          checked={value.anchored}
+          onChange={(e) => onChange({ ...value, anchored: e.target.checked })}
+          className="rounded border-neutral-300"
+        />
+        <span>Anchored (every train window starts at the beginning of the range)</span>
+      </label>
+
+      <div className="p-3 bg-neutral-50 dark:bg-neutral-800 rounded-lg">
+        <div className="flex items-center space-x-2 text-sm">
+          <Info className="h-4 w-4 text-primary-500" />
+          <span className="text-neutral-700 dark:text-neutral-300">
+            {windowCount > 0
+              ? `${windowCount} windows: parameters are re-optimized on each train window and traded unchanged on the next ${value.testDays} days`
+              : 'The date range must cover at least one train and one test window'}
+          </span>
+        </div>
+        {error && (
+          <p className="mt-2 text-sm text-danger-600 dark:text-danger-400">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
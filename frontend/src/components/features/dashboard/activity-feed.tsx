@@ -16,7 +16,7 @@ import { cn } from '@/lib/utils';
 export interface ActivityItem {
   _id?: string; // API format
   id?: string; // Legacy format
-  type: 'trade' | 'strategy' | 'alert' | 'system' | 'deposit' | 'withdrawal';
+  type: 'trade' | 'strategy' | 'alert' | 'system' | 'deposit' | 'withdrawal' | 'corporate_action';
   title: string;
   description: string;
   timestamp: Date | string;
@@ -67,6 +67,8 @@ export function ActivityFeed({
         return TrendingUp;
       case 'withdrawal':
         return TrendingDown;
+      case 'corporate_action':
+        return DollarSign;
       default:
         return Clock;
     }
@@ -0,0 +1,90 @@
+'use client';
+
+import { Scale } from 'lucide-react';
+import { Select } from '@/components/ui';
+import { BenchmarkAnalytics, BenchmarkConfig } from '@/lib/api/dashboard';
+import { NSE_SYMBOLS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+
+interface BenchmarkWidgetProps {
+  analytics: BenchmarkAnalytics;
+  onChange?: (benchmark: BenchmarkConfig) => void;
+  updating?: boolean;
+  className?: string;
+}
+
+const BENCHMARK_OPTIONS = [
+  { value: 'INDEX', label: 'Equal-weight index' },
+  ...NSE_SYMBOLS.map(symbol => ({ value: symbol, label: symbol })),
+];
+
+export function BenchmarkWidget({
+  analytics,
+  onChange,
+  updating = false,
+  className,
+}: BenchmarkWidgetProps) {
+  const { metrics } = analytics;
+
+  const items = [
+    { label: 'Beta', value: metrics.beta.toFixed(2), description: 'Sensitivity to the benchmark' },
+    { label: 'Alpha', value: `${(metrics.alpha * 100).toFixed(2)}%`, description: 'Annual excess return' },
+    { label: 'Tracking Error', value: `${metrics.trackingError.toFixed(2)}%`, description: 'Annual active volatility' },
+    { label: 'Information Ratio', value: metrics.informationRatio.toFixed(2), description: 'Active return / tracking error' },
+    { label: 'Up Capture', value: `${metrics.upCapture.toFixed(1)}%`, description: 'Share of benchmark gains' },
+    { label: 'Down Capture', value: `${metrics.downCapture.toFixed(1)}%`, description: 'Share of benchmark losses' },
+  ];
+
+  const handleChange = (value: string) => {
+    onChange?.(value === 'INDEX' ? { type: 'INDEX' } : { type: 'SYMBOL', symbol: value });
+  };
+
+  return (
+    <div
+      className={cn(
+        'bg-white dark:bg-neutral-800 p-4 sm:p-6 rounded-lg shadow-sm border border-neutral-200 dark:border-neutral-700',
+        className
+      )}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="w-8 h-8 bg-primary-100 dark:bg-primary-900 rounded-lg flex items-center justify-center">
+            <Scale className="h-4 w-4 text-primary-600 dark:text-primary-400" />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-neutral-500 dark:text-neutral-400">
+              Versus {analytics.label}
+            </h3>
+            <p className={cn(
+              'text-sm font-medium',
+              analytics.totalReturnPercent >= 0 ? 'text-success-600' : 'text-danger-600'
+            )}>
+              Benchmark {analytics.totalReturnPercent > 0 ? '+' : ''}{analytics.totalReturnPercent.toFixed(2)}% over the period
+            </p>
+          </div>
+        </div>
+
+        {onChange && (
+          <Select
+            size="sm"
+            value={analytics.type === 'SYMBOL' ? analytics.symbol : 'INDEX'}
+            onChange={(e) => handleChange(e.target.value)}
+            options={BENCHMARK_OPTIONS}
+            disabled={updating}
+            className="sm:w-56"
+          />
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+        {items.map(item => (
+          <div key={item.label}>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">{item.label}</p>
+            <p className="text-lg font-semibold text-neutral-900 dark:text-white">{item.value}</p>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">{item.description}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,5 +2,6 @@ export { KPIWidget } from './kpi-widget';
 export { PerformanceChart } from './performance-chart';
 export { ActivityFeed } from './activity-feed';
 export { AlertsWidget } from './alerts-widget';
+export { BenchmarkWidget } from './benchmark-widget';
 export type { ActivityItem } from './activity-feed';
 export type { Alert } from './alerts-widget';
\ No newline at end of file
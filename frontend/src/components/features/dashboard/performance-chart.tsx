@@ -6,7 +6,7 @@ import { LineChart } from '@/components/ui/charts';
 interface PerformanceDataPoint {
   date: string;
   value: number;
-  benchmark?: number;
+  benchmark?: number | null;
 }
 
 interface PerformanceChartProps {
@@ -14,6 +14,7 @@ interface PerformanceChartProps {
   title?: string;
   height?: number;
   showBenchmark?: boolean;
+  benchmarkLabel?: string;
   className?: string;
 }
 
@@ -22,13 +23,14 @@ export function PerformanceChart({
   title = 'Portfolio Performance',
   height = 300,
   showBenchmark = false,
+  benchmarkLabel = 'Benchmark',
   className,
 }: PerformanceChartProps) {
   const chartData = useMemo(() => {
     return data.map(point => ({
       timestamp: new Date(point.date),
       value: point.value,
-      benchmark: point.benchmark,
+      benchmark: point.benchmark ?? undefined,
     }));
   }, [data]);
 
@@ -37,7 +39,7 @@ export function PerformanceChart({
   };
 
   const formatTooltip = (value: number, name: string, props: any): [string, string] => {
-    return [`$${value.toLocaleString()}`, 'Portfolio Value'];
+    return [`$${value.toLocaleString()}`, name];
   };
 
   return (
@@ -46,6 +48,8 @@ export function PerformanceChart({
       title={title}
       height={height}
       className={className}
+      name="Portfolio Value"
+      series={showBenchmark ? [{ dataKey: 'benchmark', name: benchmarkLabel, color: '#6b7280', strokeDasharray: '4 4' }] : []}
       color="#0ea5e9"
       strokeWidth={2}
       showGrid={true}
@@ -10,4 +10,5 @@ export { PriceAlerts } from './price-alerts';
 export { StrategyDeploymentModal } from './strategy-deployment-modal';
 export { PaperTradingSessionComponent, type PaperTradingSession } from './paper-trading-session';
 export { PaperTradingSessionsManager } from './paper-trading-sessions-manager';
-export { PerformanceMonitor } from './performance-monitor';
\ No newline at end of file
+export { PerformanceMonitor } from './performance-monitor';
+export { PortfolioSwitcher } from './portfolio-switcher';
\ No newline at end of file
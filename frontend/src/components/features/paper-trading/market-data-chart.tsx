@@ -1,10 +1,13 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { TrendingUp, TrendingDown, BarChart3, Activity } from 'lucide-react';
 import { useMarketData } from '@/lib/hooks/use-mock-socket';
+import { useBars } from '@/hooks/use-market-data';
 import { mockSymbols } from '@/mocks/data/symbols';
+import { sma, rsi, macd, bollinger } from '@/lib/indicators';
+import { OHLCBar, Timeframe } from '@/types/trading';
 
 interface MarketDataChartProps {
   symbol: string;
@@ -23,8 +26,22 @@ interface ChartDataPoint {
   macd?: number;
   signal?: number;
   histogram?: number;
+  bbUpper?: number;
+  bbMiddle?: number;
+  bbLower?: number;
 }
 
+const TIMEFRAME_OPTIONS: Timeframe[] = ['1m', '5m', '15m', '1h', '1d', '1w'];
+
+// Intraday bars are labelled by time, daily and weekly bars by date
+const formatBarTime = (bar: OHLCBar, timeframe: Timeframe) => {
+  const date = new Date(bar.date);
+  if (timeframe === '1d' || timeframe === '1w') {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+};
+
 interface TechnicalIndicators {
   sma20: boolean;
   sma50: boolean;
@@ -38,7 +55,7 @@ export function MarketDataChart({
   height = 400, 
   showControls = true 
 }: MarketDataChartProps) {
-  const [timeframe, setTimeframe] = useState<'1m' | '5m' | '15m' | '1h' | '1d'>('5m');
+  const [timeframe, setTimeframe] = useState<Timeframe>('5m');
   const [chartType, setChartType] = useState<'line' | 'area' | 'candlestick'>('line');
   const [activeTab, setActiveTab] = useState<'price' | 'volume' | 'indicators'>('price');
   const [indicators, setIndicators] = useState<TechnicalIndicators>({
@@ -49,138 +66,45 @@ export function MarketDataChart({
     bollinger: false,
   });
   
-  const [historicalData, setHistoricalData] = useState<ChartDataPoint[]>([]);
+  const { bars, loading, error } = useBars(symbol, timeframe, 100);
   const { marketDataMap } = useMarketData([symbol]);
   
   const symbolInfo = mockSymbols.find(s => s.symbol === symbol);
   const currentMarketData = marketDataMap.get(symbol);
 
-  // Generate historical data with technical indicators
-  useEffect(() => {
-    const generateHistoricalData = () => {
-      const now = new Date();
-      const dataPoints: ChartDataPoint[] = [];
-      const basePrice = currentMarketData?.price || 1000;
-      
-      // Generate 100 data points
-      for (let i = 99; i >= 0; i--) {
-        const timestamp = new Date(now.getTime() - i * getTimeframeMs(timeframe));
-        
-        // Generate realistic price movement
-        const volatility = 0.02; // 2% volatility
-        const trend = Math.sin(i * 0.1) * 0.001; // Small trend component
-        const randomWalk = (Math.random() - 0.5) * volatility;
-        const priceMultiplier = 1 + trend + randomWalk;
-        
-        const price = basePrice * Math.pow(priceMultiplier, i / 10);
-        const volume = Math.floor(Math.random() * 100000) + 10000;
-        
-        dataPoints.push({
-          timestamp: timestamp.toLocaleTimeString('en-US', { 
-            hour: '2-digit', 
-            minute: '2-digit' 
-          }),
-          time: timestamp.getTime(),
-          price: Math.round(price * 100) / 100,
-          volume,
-        });
-      }
-      
-      // Calculate technical indicators
-      return calculateTechnicalIndicators(dataPoints);
-    };
-
-    setHistoricalData(generateHistoricalData());
-  }, [symbol, timeframe, currentMarketData?.price]);
-
-  // Update latest data point with real-time data
-  useEffect(() => {
-    if (currentMarketData && historicalData.length > 0) {
-      setHistoricalData(prev => {
-        const updated = [...prev];
-        const latest = updated[updated.length - 1];
-        
-        if (latest) {
-          updated[updated.length - 1] = {
-            ...latest,
-            price: currentMarketData.price,
-            volume: currentMarketData.volume,
-          };
-        }
-        
-        return updated;
-      });
-    }
-  }, [currentMarketData, historicalData.length]);
-
-  const getTimeframeMs = (tf: string) => {
-    const timeframes = {
-      '1m': 60 * 1000,
-      '5m': 5 * 60 * 1000,
-      '15m': 15 * 60 * 1000,
-      '1h': 60 * 60 * 1000,
-      '1d': 24 * 60 * 60 * 1000,
-    };
-    return timeframes[tf as keyof typeof timeframes] || timeframes['5m'];
-  };
-
   const calculateTechnicalIndicators = (data: ChartDataPoint[]): ChartDataPoint[] => {
-    return data.map((point, index) => {
-      const result = { ...point };
-      
-      // Simple Moving Averages
-      if (index >= 19) {
-        const sma20Sum = data.slice(index - 19, index + 1).reduce((sum, p) => sum + p.price, 0);
-        result.sma20 = sma20Sum / 20;
-      }
-      
-      if (index >= 49) {
-        const sma50Sum = data.slice(index - 49, index + 1).reduce((sum, p) => sum + p.price, 0);
-        result.sma50 = sma50Sum / 50;
-      }
-      
-      // RSI (simplified)
-      if (index >= 14) {
-        const period = 14;
-        const changes = data.slice(index - period + 1, index + 1).map((p, i, arr) => 
-          i > 0 ? p.price - arr[i - 1].price : 0
-        );
-        
-        const gains = changes.filter(c => c > 0).reduce((sum, c) => sum + c, 0) / period;
-        const losses = Math.abs(changes.filter(c => c < 0).reduce((sum, c) => sum + c, 0)) / period;
-        
-        const rs = gains / (losses || 1);
-        result.rsi = 100 - (100 / (1 + rs));
-      }
-      
-      // MACD (simplified)
-      if (index >= 25) {
-        const ema12 = calculateEMA(data.slice(0, index + 1).map(p => p.price), 12);
-        const ema26 = calculateEMA(data.slice(0, index + 1).map(p => p.price), 26);
-        result.macd = ema12 - ema26;
-        
-        if (index >= 33) {
-          const macdLine = data.slice(index - 8, index + 1).map(p => p.macd || 0);
-          result.signal = calculateEMA(macdLine, 9);
-          result.histogram = (result.macd || 0) - (result.signal || 0);
-        }
-      }
-      
-      return result;
-    });
-  };
+    const prices = data.map(point => point.price);
+    const sma20 = sma(prices, 20);
+    const sma50 = sma(prices, 50);
+    const rsi14 = rsi(prices, 14);
+    const macdSeries = macd(prices, 12, 26, 9);
+    const bands = bollinger(prices, 20, 2);
 
-  const calculateEMA = (prices: number[], period: number): number => {
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-    
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-    
-    return ema;
+    return data.map((point, index) => ({
+      ...point,
+      sma20: sma20[index] ?? undefined,
+      sma50: sma50[index] ?? undefined,
+      rsi: rsi14[index] ?? undefined,
+      macd: macdSeries[index]?.macd,
+      signal: macdSeries[index]?.signal,
+      histogram: macdSeries[index]?.histogram,
+      bbUpper: bands[index]?.upper,
+      bbMiddle: bands[index]?.middle,
+      bbLower: bands[index]?.lower,
+    }));
   };
 
+  // Bars from the bar service with technical indicators
+  const historicalData = useMemo(() => {
+    const dataPoints: ChartDataPoint[] = bars.map(bar => ({
+      timestamp: formatBarTime(bar, timeframe),
+      time: new Date(bar.date).getTime(),
+      price: bar.close,
+      volume: bar.volume,
+    }));
+    return calculateTechnicalIndicators(dataPoints);
+  }, [bars, timeframe]);
+
   const priceChange = useMemo(() => {
     if (historicalData.length < 2) return { change: 0, changePercent: 0 };
     
@@ -214,6 +138,8 @@ export function MarketDataChart({
                   ? formatVolume(entry.value)
                   : entry.name.includes('RSI')
                   ? `${entry.value.toFixed(1)}`
+                  : ['MACD', 'Signal', 'Histogram'].includes(entry.name)
+                  ? `${entry.value.toFixed(2)}`
                   : formatPrice(entry.value)
               }
             </p>
@@ -269,14 +195,12 @@ export function MarketDataChart({
               {/* Timeframe Selector */}
               <select
                 value={timeframe}
-                onChange={(e) => setTimeframe(e.target.value as any)}
+                onChange={(e) => setTimeframe(e.target.value as Timeframe)}
                 className="px-3 py-1 border border-neutral-200 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-800 text-sm"
               >
-                <option value="1m">1m</option>
-                <option value="5m">5m</option>
-                <option value="15m">15m</option>
-                <option value="1h">1h</option>
-                <option value="1d">1d</option>
+                {TIMEFRAME_OPTIONS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
               </select>
               
               {/* Chart Type Selector */}
@@ -331,7 +255,13 @@ export function MarketDataChart({
       {/* Chart Content */}
       <div className="p-4">
         <div style={{ height }}>
-          {activeTab === 'price' && (
+          {historicalData.length === 0 && (
+            <div className="flex items-center justify-center h-full text-sm text-neutral-500 dark:text-neutral-400">
+              {loading ? 'Loading bars...' : error || `No ${timeframe} bars for ${symbol} yet`}
+            </div>
+          )}
+
+          {historicalData.length > 0 && activeTab === 'price' && (
             <ResponsiveContainer width="100%" height="100%">
               {chartType === 'line' ? (
                 <LineChart data={historicalData}>
@@ -381,6 +311,36 @@ export function MarketDataChart({
                       name="SMA 50"
                     />
                   )}
+
+                  {indicators.bollinger && (
+                    <>
+                      <Line
+                        type="monotone"
+                        dataKey="bbUpper"
+                        stroke="#06B6D4"
+                        strokeWidth={1}
+                        dot={false}
+                        name="BB Upper"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="bbMiddle"
+                        stroke="#06B6D4"
+                        strokeWidth={1}
+                        strokeDasharray="2 2"
+                        dot={false}
+                        name="BB Middle"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="bbLower"
+                        stroke="#06B6D4"
+                        strokeWidth={1}
+                        dot={false}
+                        name="BB Lower"
+                      />
+                    </>
+                  )}
                 </LineChart>
               ) : (
                 <AreaChart data={historicalData}>
@@ -412,7 +372,7 @@ export function MarketDataChart({
             </ResponsiveContainer>
           )}
 
-          {activeTab === 'volume' && (
+          {historicalData.length > 0 && activeTab === 'volume' && (
             <ResponsiveContainer width="100%" height="100%">
               <AreaChart data={historicalData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
@@ -441,59 +401,88 @@ export function MarketDataChart({
             </ResponsiveContainer>
           )}
 
-          {activeTab === 'indicators' && (
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={historicalData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
-                <XAxis 
-                  dataKey="timestamp" 
-                  stroke="#6B7280"
-                  fontSize={12}
-                />
-                <YAxis 
-                  stroke="#6B7280"
-                  fontSize={12}
-                  domain={[0, 100]}
-                />
-                <Tooltip content={<CustomTooltip />} />
-                
-                {indicators.rsi && (
-                  <>
-                    <Line
-                      type="monotone"
-                      dataKey="rsi"
-                      stroke="#8B5CF6"
-                      strokeWidth={2}
-                      dot={false}
-                      name="RSI"
-                    />
-                    <ReferenceLine y={70} stroke="#EF4444" strokeDasharray="2 2" />
-                    <ReferenceLine y={30} stroke="#10B981" strokeDasharray="2 2" />
-                  </>
-                )}
-                
-                {indicators.macd && (
-                  <>
-                    <Line
-                      type="monotone"
-                      dataKey="macd"
-                      stroke="#F59E0B"
-                      strokeWidth={1}
-                      dot={false}
-                      name="MACD"
-                    />
-                    <Line
-                      type="monotone"
-                      dataKey="signal"
-                      stroke="#EF4444"
-                      strokeWidth={1}
-                      dot={false}
-                      name="Signal"
-                    />
-                  </>
-                )}
-              </LineChart>
-            </ResponsiveContainer>
+          {historicalData.length > 0 && activeTab === 'indicators' && (
+            <div className="flex flex-col h-full">
+              {indicators.rsi && (
+                <div className="flex-1 min-h-0">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={historicalData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+                      <XAxis 
+                        dataKey="timestamp" 
+                        stroke="#6B7280"
+                        fontSize={12}
+                      />
+                      <YAxis 
+                        stroke="#6B7280"
+                        fontSize={12}
+                        domain={[0, 100]}
+                      />
+                      <Tooltip content={<CustomTooltip />} />
+                      
+                      <Line
+                        type="monotone"
+                        dataKey="rsi"
+                        stroke="#8B5CF6"
+                        strokeWidth={2}
+                        dot={false}
+                        name="RSI"
+                      />
+                      <ReferenceLine y={70} stroke="#EF4444" strokeDasharray="2 2" />
+                      <ReferenceLine y={30} stroke="#10B981" strokeDasharray="2 2" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              {/* MACD has its own scale, so it gets a separate panel */}
+              {indicators.macd && (
+                <div className="flex-1 min-h-0">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={historicalData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+                      <XAxis 
+                        dataKey="timestamp" 
+                        stroke="#6B7280"
+                        fontSize={12}
+                      />
+                      <YAxis 
+                        stroke="#6B7280"
+                        fontSize={12}
+                        tickFormatter={(value: number) => value.toFixed(2)}
+                      />
+                      <Tooltip content={<CustomTooltip />} />
+                      <ReferenceLine y={0} stroke="#6B7280" />
+                      
+                      <Line
+                        type="monotone"
+                        dataKey="macd"
+                        stroke="#F59E0B"
+                        strokeWidth={1}
+                        dot={false}
+                        name="MACD"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="signal"
+                        stroke="#EF4444"
+                        strokeWidth={1}
+                        dot={false}
+                        name="Signal"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="histogram"
+                        stroke="#10B981"
+                        strokeWidth={1}
+                        dot={false}
+                        name="Histogram"
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
           )}
         </div>
 
@@ -520,6 +509,16 @@ export function MarketDataChart({
             >
               SMA 50
             </button>
+            <button
+              onClick={() => setIndicators(prev => ({ ...prev, bollinger: !prev.bollinger }))}
+              className={`px-3 py-1 rounded-md text-sm ${
+                indicators.bollinger
+                  ? 'bg-cyan-100 text-cyan-700 dark:bg-cyan-900 dark:text-cyan-300'
+                  : 'bg-neutral-100 text-neutral-600 dark:bg-neutral-700 dark:text-neutral-400'
+              }`}
+            >
+              Bollinger
+            </button>
           </div>
         )}
 
@@ -3,9 +3,10 @@
 import { useState, useMemo, memo, useRef, useEffect } from 'react';
 import { TrendingUp, TrendingDown, Clock, MoreHorizontal, Copy, FileText, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui';
-import { Order, OrderStatus } from '@/types/trading';
+import { Order, OrderStatus, OrderBookLevel } from '@/types/trading';
 import { cn } from '@/lib/utils';
 import { formatSafeDate } from '@/lib/utils/date-transform';
+import { useOrderBook } from '@/hooks/use-market-data';
 
 interface OrderBookProps {
   orders: Order[];
@@ -14,13 +15,6 @@ interface OrderBookProps {
   className?: string;
 }
 
-interface OrderBookEntry {
-  price: number;
-  quantity: number;
-  side: 'BUY' | 'SELL';
-  orders: Order[];
-}
-
 const OrderBookComponent = function OrderBook({ orders, onCancelOrder, onModifyOrder, className }: OrderBookProps) {
   const [selectedSymbol, setSelectedSymbol] = useState<string>('');
   const [showAllOrders, setShowAllOrders] = useState(false);
@@ -58,39 +52,26 @@ const OrderBookComponent = function OrderBook({ orders, onCancelOrder, onModifyO
     return filtered;
   }, [orders, selectedSymbol]);
 
-  // Group orders by price level for order book view
-  const orderBookData = useMemo(() => {
-    if (!selectedSymbol) return { buyOrders: [], sellOrders: [] };
-
-    const symbolOrders = filteredOrders.filter(order => order.symbol === selectedSymbol);
-    
-    const buyOrdersMap = new Map<number, OrderBookEntry>();
-    const sellOrdersMap = new Map<number, OrderBookEntry>();
-
-    symbolOrders.forEach(order => {
-      const price = order.price || 0;
-      const map = order.side === 'BUY' ? buyOrdersMap : sellOrdersMap;
-      
-      if (map.has(price)) {
-        const entry = map.get(price)!;
-        entry.quantity += order.remainingQuantity;
-        entry.orders.push(order);
-      } else {
-        map.set(price, {
-          price,
-          quantity: order.remainingQuantity,
-          side: order.side,
-          orders: [order]
-        });
-      }
-    });
-
-    const buyOrders = Array.from(buyOrdersMap.values()).sort((a, b) => b.price - a.price);
-    const sellOrders = Array.from(sellOrdersMap.values()).sort((a, b) => a.price - b.price);
+  // Level-2 depth of the selected symbol, streamed from the matching engine
+  const { depth, loading: depthLoading, error: depthError } = useOrderBook(showAllOrders ? '' : selectedSymbol);
 
-    return { buyOrders, sellOrders };
+  // The user's own resting quantity per side and price, to mark their levels
+  const ownQuantity = useMemo(() => {
+    const quantities = { BUY: new Map<number, number>(), SELL: new Map<number, number>() };
+    filteredOrders
+      .filter(order => order.symbol === selectedSymbol && order.type === 'LIMIT' && order.price)
+      .forEach(order => {
+        const map = quantities[order.side];
+        map.set(order.price!, (map.get(order.price!) || 0) + order.remainingQuantity);
+      });
+    return quantities;
   }, [filteredOrders, selectedSymbol]);
 
+  const maxLevelQuantity = useMemo(() => {
+    if (!depth) return 0;
+    return Math.max(0, ...depth.bids.map(level => level.quantity), ...depth.asks.map(level => level.quantity));
+  }, [depth]);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -113,6 +94,8 @@ const OrderBookComponent = function OrderBook({ orders, onCancelOrder, onModifyO
         return 'text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900';
       case 'PARTIALLY_FILLED':
         return 'text-orange-600 dark:text-orange-400 bg-orange-100 dark:bg-orange-900';
+      case 'WAITING':
+        return 'text-amber-600 dark:text-amber-400 bg-amber-100 dark:bg-amber-900';
       case 'FILLED':
         return 'text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900';
       case 'CANCELLED':
@@ -124,35 +107,53 @@ const OrderBookComponent = function OrderBook({ orders, onCancelOrder, onModifyO
     }
   };
 
-  const OrderBookTable = ({ entries, side }: { entries: OrderBookEntry[], side: 'BUY' | 'SELL' }) => (
+  const OrderBookTable = ({ levels, side }: { levels: OrderBookLevel[], side: 'BUY' | 'SELL' }) => (
     <div className="space-y-1">
       <div className="flex items-center justify-between text-xs font-medium text-neutral-600 dark:text-neutral-400 px-2 py-1">
         <span>Price</span>
         <span>Quantity</span>
         <span>Orders</span>
       </div>
-      {entries.slice(0, 10).map((entry, index) => (
-        <div
-          key={`${entry.price}-${index}`}
-          className={cn(
-            'flex items-center justify-between px-2 py-1 rounded text-sm hover:bg-neutral-50 dark:hover:bg-neutral-800 cursor-pointer',
-            side === 'BUY' ? 'border-l-2 border-green-500' : 'border-l-2 border-red-500'
-          )}
-        >
-          <span className={cn(
-            'font-medium',
-            side === 'BUY' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
-          )}>
-            ₹{entry.price.toFixed(2)}
-          </span>
-          <span className="text-neutral-900 dark:text-white">
-            {entry.quantity.toLocaleString()}
-          </span>
-          <span className="text-neutral-600 dark:text-neutral-400">
-            {entry.orders.length}
-          </span>
+      {levels.length === 0 && (
+        <div className="px-2 py-4 text-center text-sm text-neutral-500 dark:text-neutral-400">
+          No depth
         </div>
-      ))}
+      )}
+      {levels.map((level) => {
+        const own = ownQuantity[side].get(level.price);
+
+        return (
+          <div
+            key={level.price}
+            className={cn(
+              'relative flex items-center justify-between px-2 py-1 rounded text-sm overflow-hidden',
+              side === 'BUY' ? 'border-l-2 border-green-500' : 'border-l-2 border-red-500',
+              own && 'ring-1 ring-primary-500'
+            )}
+            title={own ? `Your orders: ${own.toLocaleString()} shares` : undefined}
+          >
+            <div
+              className={cn(
+                'absolute inset-y-0 right-0 opacity-10',
+                side === 'BUY' ? 'bg-green-500' : 'bg-red-500'
+              )}
+              style={{ width: `${maxLevelQuantity > 0 ? (level.quantity / maxLevelQuantity) * 100 : 0}%` }}
+            />
+            <span className={cn(
+              'relative font-medium',
+              side === 'BUY' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+            )}>
+              ₹{level.price.toFixed(2)}
+            </span>
+            <span className="relative text-neutral-900 dark:text-white">
+              {level.quantity.toLocaleString()}
+            </span>
+            <span className="relative text-neutral-600 dark:text-neutral-400">
+              {level.orders}
+            </span>
+          </div>
+        );
+      })}
     </div>
   );
 
@@ -195,26 +196,52 @@ const OrderBookComponent = function OrderBook({ orders, onCancelOrder, onModifyO
 
       <div className="p-4">
         {!showAllOrders && selectedSymbol ? (
-          // Order Book View (grouped by price levels)
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Sell Orders */}
-            <div>
-              <div className="flex items-center space-x-2 mb-3">
-                <TrendingDown className="h-4 w-4 text-red-600 dark:text-red-400" />
-                <h4 className="font-medium text-neutral-900 dark:text-white">Sell Orders</h4>
-              </div>
-              <OrderBookTable entries={orderBookData.sellOrders} side="SELL" />
+          // Order Book View (level-2 depth of the simulated book)
+          depthError && !depth ? (
+            <div className="text-center py-8 text-neutral-500 dark:text-neutral-400">
+              <AlertCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>Order book unavailable</p>
+              <p className="text-sm">{depthError}</p>
             </div>
+          ) : !depth ? (
+            <div className="text-center py-8 text-neutral-500 dark:text-neutral-400">
+              <Clock className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>{depthLoading ? 'Loading order book...' : 'No depth yet'}</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between text-sm text-neutral-600 dark:text-neutral-400">
+                <span>
+                  Last: <span className="font-medium text-neutral-900 dark:text-white">{formatCurrency(depth.lastPrice)}</span>
+                </span>
+                <span>
+                  Spread: <span className="font-medium text-neutral-900 dark:text-white">
+                    {depth.spread !== null ? `₹${depth.spread.toFixed(2)}` : '—'}
+                  </span>
+                </span>
+              </div>
 
-            {/* Buy Orders */}
-            <div>
-              <div className="flex items-center space-x-2 mb-3">
-                <TrendingUp className="h-4 w-4 text-green-600 dark:text-green-400" />
-                <h4 className="font-medium text-neutral-900 dark:text-white">Buy Orders</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Sell Orders */}
+                <div>
+                  <div className="flex items-center space-x-2 mb-3">
+                    <TrendingDown className="h-4 w-4 text-red-600 dark:text-red-400" />
+                    <h4 className="font-medium text-neutral-900 dark:text-white">Asks</h4>
+                  </div>
+                  <OrderBookTable levels={depth.asks} side="SELL" />
+                </div>
+
+                {/* Buy Orders */}
+                <div>
+                  <div className="flex items-center space-x-2 mb-3">
+                    <TrendingUp className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    <h4 className="font-medium text-neutral-900 dark:text-white">Bids</h4>
+                  </div>
+                  <OrderBookTable levels={depth.bids} side="BUY" />
+                </div>
               </div>
-              <OrderBookTable entries={orderBookData.buyOrders} side="BUY" />
             </div>
-          </div>
+          )
         ) : (
           // All Orders View (individual orders)
           <div className="space-y-3">
@@ -371,6 +398,15 @@ Created: ${formatSafeDate(order.createdAt)}`;
                       </div>
                     )}
                     
+                    {order.queuePosition !== undefined && (
+                      <div>
+                        <span className="text-neutral-600 dark:text-neutral-400">Queue Ahead:</span>
+                        <div className="font-medium text-neutral-900 dark:text-white">
+                          {order.queuePosition.toLocaleString()} shares
+                        </div>
+                      </div>
+                    )}
+                    
                     <div>
                       <span className="text-neutral-600 dark:text-neutral-400">Value:</span>
                       <div className="font-medium text-neutral-900 dark:text-white">
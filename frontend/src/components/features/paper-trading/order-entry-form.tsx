@@ -6,17 +6,24 @@ import {
   TrendingDown, 
   DollarSign, 
   AlertCircle,
-  Calculator
+  Calculator,
+  Link2
 } from 'lucide-react';
 import { Button, Input, Select, Modal } from '@/components/ui';
 import { useToast } from '@/components/ui';
-import { Order, OrderSide, OrderType, Symbol, MarketData } from '@/types/trading';
+import { OrderSide, OrderType, Symbol, MarketData, TimeInForce, RiskCheckResult } from '@/types/trading';
+import { BracketRequest, PlaceOrderRequest } from '@/lib/api/trading-api';
+import { exchangeTime } from '@/lib/trading-calendar';
 import { cn } from '@/lib/utils';
 
+type OrderDraft = Omit<PlaceOrderRequest, 'bracket'> & { tags?: string[] };
+
 interface OrderEntryFormProps {
   symbols: Symbol[];
   marketData: MarketData[];
-  onPlaceOrder: (order: Omit<Order, 'id' | 'status' | 'filledQuantity' | 'remainingQuantity' | 'commission' | 'createdAt' | 'updatedAt'>) => void;
+  onPlaceOrder: (order: OrderDraft & { bracket?: BracketRequest }) => void;
+  onPlaceOcoOrder?: (orders: OrderDraft[]) => void;
+  onCheckOrder?: (order: OrderDraft) => Promise<RiskCheckResult | null>;
   className?: string;
 }
 
@@ -27,6 +34,16 @@ interface OrderFormData {
   quantity: number;
   price?: number;
   stopPrice?: number;
+  timeInForce: TimeInForce;
+  expiresOn?: string; // GTD date, YYYY-MM-DD
+  trailMode: 'AMOUNT' | 'PERCENT';
+  trailOffset?: number;
+  displayQuantity?: number; // iceberg slice of a limit order
+  linked: 'NONE' | 'BRACKET' | 'OCO';
+  stopLoss?: number; // bracket exits
+  takeProfit?: number;
+  ocoType: 'LIMIT' | 'STOP'; // second order of an OCO pair
+  ocoPrice?: number;
 }
 
 const initialFormData: OrderFormData = {
@@ -34,11 +51,17 @@ const initialFormData: OrderFormData = {
   side: 'BUY',
   type: 'MARKET',
   quantity: 0,
+  timeInForce: 'DAY',
+  trailMode: 'AMOUNT',
+  linked: 'NONE',
+  ocoType: 'STOP',
 };
 
-const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, onPlaceOrder, className }: OrderEntryFormProps) {
+const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, onPlaceOrder, onPlaceOcoOrder, onCheckOrder, className }: OrderEntryFormProps) {
   const [formData, setFormData] = useState<OrderFormData>(initialFormData);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [riskCheck, setRiskCheck] = useState<RiskCheckResult | null>(null);
+  const [checkingRisk, setCheckingRisk] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [estimatedValue, setEstimatedValue] = useState<number>(0);
   const { addToast } = useToast();
@@ -91,16 +114,47 @@ const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, o
       }
     }
 
-    // Validate price ranges if market data is available
-    if (currentMarketData && formData.price) {
-      const currentPrice = currentMarketData.price;
-      const priceDeviation = Math.abs(formData.price - currentPrice) / currentPrice;
-      
-      if (priceDeviation > 0.1) { // 10% deviation warning
-        newErrors.price = `Price deviates significantly from market price (₹${currentPrice.toFixed(2)})`;
+    if (formData.type === 'TRAILING_STOP') {
+      if (!formData.trailOffset || formData.trailOffset <= 0) {
+        newErrors.trailOffset = 'Trail offset is required for trailing stop orders';
+      } else if (formData.trailMode === 'PERCENT' && formData.trailOffset >= 100) {
+        newErrors.trailOffset = 'Trail percent must be less than 100';
+      }
+    }
+
+    if ((formData.timeInForce === 'IOC' || formData.timeInForce === 'FOK') &&
+      formData.type !== 'MARKET' && formData.type !== 'LIMIT') {
+      newErrors.timeInForce = `${formData.timeInForce} is only available for market and limit orders`;
+    }
+
+    if (formData.timeInForce === 'GTD' && (!formData.expiresOn || formData.expiresOn < exchangeTime(new Date()).key)) {
+      newErrors.expiresOn = 'Choose an expiry date from today onwards';
+    }
+
+    if (formData.type === 'LIMIT' && formData.displayQuantity &&
+      (formData.displayQuantity < 1 || formData.displayQuantity >= formData.quantity)) {
+      newErrors.displayQuantity = 'Display quantity must be less than the order quantity';
+    }
+
+    if (formData.linked === 'BRACKET') {
+      const entryPrice = formData.price || formData.stopPrice || currentMarketData?.price;
+      const long = formData.side === 'BUY';
+
+      if (!formData.stopLoss && !formData.takeProfit) {
+        newErrors.stopLoss = 'Enter a stop loss, a take profit or both';
+      }
+      if (entryPrice && formData.stopLoss && (long ? formData.stopLoss >= entryPrice : formData.stopLoss <= entryPrice)) {
+        newErrors.stopLoss = `Stop loss must be ${long ? 'below' : 'above'} the entry price`;
+      }
+      if (entryPrice && formData.takeProfit && (long ? formData.takeProfit <= entryPrice : formData.takeProfit >= entryPrice)) {
+        newErrors.takeProfit = `Take profit must be ${long ? 'above' : 'below'} the entry price`;
       }
     }
 
+    if (formData.linked === 'OCO' && (!formData.ocoPrice || formData.ocoPrice <= 0)) {
+      newErrors.ocoPrice = 'Price is required for the linked order';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -121,28 +175,71 @@ const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, o
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const buildOrder = (): OrderDraft => {
+    const trailing = formData.type === 'TRAILING_STOP';
+    return {
+      symbol: formData.symbol,
+      side: formData.side,
+      type: formData.type,
+      quantity: formData.quantity,
+      timeInForce: formData.timeInForce,
+      expiresAt: formData.timeInForce === 'GTD' ? formData.expiresOn : undefined,
+      price: trailing ? undefined : formData.price,
+      stopPrice: trailing ? undefined : formData.stopPrice,
+      trailAmount: trailing && formData.trailMode === 'AMOUNT' ? formData.trailOffset : undefined,
+      trailPercent: trailing && formData.trailMode === 'PERCENT' ? formData.trailOffset : undefined,
+      displayQuantity: formData.type === 'LIMIT' && formData.displayQuantity ? formData.displayQuantity : undefined,
+      tags: ['manual'],
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) {
       return;
     }
 
+    setRiskCheck(null);
     setShowConfirmation(true);
+
+    // Pre-trade risk checks (buying power, exposure, price bands, ...) run on the server
+    if (onCheckOrder) {
+      setCheckingRisk(true);
+      try {
+        setRiskCheck(await onCheckOrder(buildOrder()));
+      } finally {
+        setCheckingRisk(false);
+      }
+    }
   };
 
   const handleConfirmOrder = () => {
-    const order: Omit<Order, 'id' | 'status' | 'filledQuantity' | 'remainingQuantity' | 'commission' | 'createdAt' | 'updatedAt'> = {
-      symbol: formData.symbol,
-      side: formData.side,
-      type: formData.type,
-      quantity: formData.quantity,
-      price: formData.price,
-      stopPrice: formData.stopPrice,
-      tags: ['manual'],
-    };
-
-    onPlaceOrder(order);
+    const order = buildOrder();
+
+    if (formData.linked === 'OCO' && onPlaceOcoOrder) {
+      onPlaceOcoOrder([
+        order,
+        {
+          symbol: formData.symbol,
+          side: formData.side,
+          type: formData.ocoType,
+          quantity: formData.quantity,
+          timeInForce: order.timeInForce,
+          expiresAt: order.expiresAt,
+          price: formData.ocoType === 'LIMIT' ? formData.ocoPrice : undefined,
+          stopPrice: formData.ocoType === 'STOP' ? formData.ocoPrice : undefined,
+          tags: ['manual'],
+        },
+      ]);
+    } else if (formData.linked === 'BRACKET') {
+      onPlaceOrder({
+        ...order,
+        bracket: { stopLoss: formData.stopLoss || undefined, takeProfit: formData.takeProfit || undefined },
+      });
+    } else {
+      onPlaceOrder(order);
+    }
     setShowConfirmation(false);
     setFormData(initialFormData);
     
@@ -174,8 +271,27 @@ const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, o
     { value: 'LIMIT', label: 'Limit' },
     { value: 'STOP', label: 'Stop' },
     { value: 'STOP_LIMIT', label: 'Stop Limit' },
+    { value: 'TRAILING_STOP', label: 'Trailing Stop' },
+  ];
+
+  const timeInForceOptions = [
+    { value: 'DAY', label: 'Day' },
+    { value: 'GTC', label: 'Good till cancelled' },
+    { value: 'GTD', label: 'Good till date' },
+    { value: 'IOC', label: 'Immediate or cancel' },
+    { value: 'FOK', label: 'Fill or kill' },
   ];
 
+  const linkedOptions = [
+    { value: 'NONE', label: 'None' },
+    { value: 'BRACKET', label: 'Bracket (stop loss / take profit)' },
+    ...(onPlaceOcoOrder ? [{ value: 'OCO', label: 'One cancels other' }] : []),
+  ];
+
+  const trailLabel = formData.trailMode === 'PERCENT'
+    ? `${formData.trailOffset}%`
+    : `₹${formData.trailOffset?.toFixed(2)}`;
+
   const symbolOptions = symbols.map(symbol => ({
     value: symbol.symbol,
     label: `${symbol.symbol} - ${symbol.name}`,
@@ -351,6 +467,161 @@ const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, o
             </div>
           )}
 
+          {/* Trail Offset (for TRAILING_STOP orders) */}
+          {formData.type === 'TRAILING_STOP' && (
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                Trail Offset
+              </label>
+              <div className="flex space-x-2">
+                <Select
+                  value={formData.trailMode}
+                  onChange={(e) => handleInputChange('trailMode', e.target.value)}
+                  options={[
+                    { value: 'AMOUNT', label: '₹' },
+                    { value: 'PERCENT', label: '%' },
+                  ]}
+                  className="w-20"
+                />
+                <Input
+                  type="number"
+                  value={formData.trailOffset || ''}
+                  onChange={(e) => handleInputChange('trailOffset', Number(e.target.value))}
+                  placeholder={formData.trailMode === 'PERCENT' ? 'Percent below the best price' : 'Amount below the best price'}
+                  min="0"
+                  step={formData.trailMode === 'PERCENT' ? '0.1' : '0.05'}
+                  error={errors.trailOffset}
+                />
+              </div>
+              <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                The stop follows the best price since the order was placed and never moves back.
+              </p>
+            </div>
+          )}
+
+          {/* Display Quantity (iceberg LIMIT orders) */}
+          {formData.type === 'LIMIT' && (
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                Display Quantity <span className="font-normal text-neutral-500">(optional, iceberg)</span>
+              </label>
+              <Input
+                type="number"
+                value={formData.displayQuantity || ''}
+                onChange={(e) => handleInputChange('displayQuantity', Number(e.target.value) || undefined)}
+                placeholder="Show the full quantity"
+                min="1"
+                step="1"
+                error={errors.displayQuantity}
+              />
+            </div>
+          )}
+
+          {/* Time in Force */}
+          <div className={cn(formData.timeInForce === 'GTD' && 'grid grid-cols-2 gap-3')}>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                Time in Force
+              </label>
+              <Select
+                value={formData.timeInForce}
+                onChange={(e) => handleInputChange('timeInForce', e.target.value as TimeInForce)}
+                options={timeInForceOptions}
+                error={errors.timeInForce}
+              />
+            </div>
+            {formData.timeInForce === 'GTD' && (
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                  Good Till
+                </label>
+                <Input
+                  type="date"
+                  value={formData.expiresOn || ''}
+                  onChange={(e) => handleInputChange('expiresOn', e.target.value)}
+                  min={exchangeTime(new Date()).key}
+                  error={errors.expiresOn}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Linked Orders */}
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+              Linked Orders
+            </label>
+            <Select
+              value={formData.linked}
+              onChange={(e) => handleInputChange('linked', e.target.value)}
+              options={linkedOptions}
+            />
+          </div>
+
+          {formData.linked === 'BRACKET' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                  Stop Loss
+                </label>
+                <Input
+                  type="number"
+                  value={formData.stopLoss || ''}
+                  onChange={(e) => handleInputChange('stopLoss', Number(e.target.value))}
+                  placeholder="Exit price"
+                  min="0"
+                  step="0.05"
+                  error={errors.stopLoss}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                  Take Profit
+                </label>
+                <Input
+                  type="number"
+                  value={formData.takeProfit || ''}
+                  onChange={(e) => handleInputChange('takeProfit', Number(e.target.value))}
+                  placeholder="Exit price"
+                  min="0"
+                  step="0.05"
+                  error={errors.takeProfit}
+                />
+              </div>
+            </div>
+          )}
+
+          {formData.linked === 'OCO' && (
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                Other Order
+              </label>
+              <div className="flex space-x-2">
+                <Select
+                  value={formData.ocoType}
+                  onChange={(e) => handleInputChange('ocoType', e.target.value)}
+                  options={[
+                    { value: 'STOP', label: 'Stop' },
+                    { value: 'LIMIT', label: 'Limit' },
+                  ]}
+                  className="w-28"
+                />
+                <Input
+                  type="number"
+                  value={formData.ocoPrice || ''}
+                  onChange={(e) => handleInputChange('ocoPrice', Number(e.target.value))}
+                  placeholder={formData.ocoType === 'STOP' ? 'Stop price' : 'Limit price'}
+                  min="0"
+                  step="0.05"
+                  error={errors.ocoPrice}
+                />
+              </div>
+              <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                A {formData.side} {formData.ocoType.toLowerCase()} order for the same quantity; the first to fill cancels the other.
+              </p>
+            </div>
+          )}
+
           {/* Order Summary */}
           {estimatedValue > 0 && (
             <div className="p-4 bg-neutral-50 dark:bg-neutral-900 rounded-lg">
@@ -458,12 +729,52 @@ const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, o
                 <span className="font-medium text-neutral-900 dark:text-white">₹{formData.price.toFixed(2)}</span>
               </div>
             )}
-            {formData.stopPrice && (
+            {formData.stopPrice && formData.type !== 'TRAILING_STOP' && (
               <div className="flex justify-between">
                 <span className="text-neutral-600 dark:text-neutral-400">Stop Price:</span>
                 <span className="font-medium text-neutral-900 dark:text-white">₹{formData.stopPrice.toFixed(2)}</span>
               </div>
             )}
+            <div className="flex justify-between">
+              <span className="text-neutral-600 dark:text-neutral-400">Time in Force:</span>
+              <span className="font-medium text-neutral-900 dark:text-white">
+                {formData.timeInForce === 'GTD' ? `GTD ${formData.expiresOn}` : formData.timeInForce}
+              </span>
+            </div>
+            {formData.type === 'TRAILING_STOP' && (
+              <div className="flex justify-between">
+                <span className="text-neutral-600 dark:text-neutral-400">Trail Offset:</span>
+                <span className="font-medium text-neutral-900 dark:text-white">{trailLabel}</span>
+              </div>
+            )}
+            {formData.type === 'LIMIT' && formData.displayQuantity && (
+              <div className="flex justify-between">
+                <span className="text-neutral-600 dark:text-neutral-400">Display Quantity:</span>
+                <span className="font-medium text-neutral-900 dark:text-white">{formData.displayQuantity}</span>
+              </div>
+            )}
+            {formData.linked === 'BRACKET' && (
+              <div className="flex justify-between">
+                <span className="flex items-center text-neutral-600 dark:text-neutral-400">
+                  <Link2 className="h-4 w-4 mr-1" />
+                  Bracket:
+                </span>
+                <span className="font-medium text-neutral-900 dark:text-white">
+                  SL {formData.stopLoss ? `₹${formData.stopLoss.toFixed(2)}` : '—'} / TP {formData.takeProfit ? `₹${formData.takeProfit.toFixed(2)}` : '—'}
+                </span>
+              </div>
+            )}
+            {formData.linked === 'OCO' && formData.ocoPrice && (
+              <div className="flex justify-between">
+                <span className="flex items-center text-neutral-600 dark:text-neutral-400">
+                  <Link2 className="h-4 w-4 mr-1" />
+                  OCO With:
+                </span>
+                <span className="font-medium text-neutral-900 dark:text-white">
+                  {formData.ocoType} @ ₹{formData.ocoPrice.toFixed(2)}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between border-t border-neutral-200 dark:border-neutral-700 pt-3">
               <span className="text-neutral-600 dark:text-neutral-400">Estimated Value:</span>
               <span className="font-semibold text-neutral-900 dark:text-white">
@@ -472,6 +783,25 @@ const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, o
             </div>
           </div>
 
+          {checkingRisk && (
+            <p className="mb-4 text-sm text-neutral-600 dark:text-neutral-400">Running risk checks...</p>
+          )}
+          {riskCheck && !riskCheck.approved && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+              <p className="text-sm font-medium text-red-800 dark:text-red-200 mb-2">
+                This order would be rejected by risk checks:
+              </p>
+              <ul className="space-y-1">
+                {riskCheck.violations.map((violation, index) => (
+                  <li key={`${violation.rule}-${index}`} className="flex items-start text-sm text-red-700 dark:text-red-300">
+                    <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <span>{violation.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="flex items-center space-x-2 mb-6 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
             <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
             <p className="text-sm text-amber-800 dark:text-amber-200">
@@ -489,6 +819,7 @@ const OrderEntryFormComponent = function OrderEntryForm({ symbols, marketData, o
             </Button>
             <Button
               onClick={handleConfirmOrder}
+              disabled={checkingRisk || riskCheck?.approved === false}
               className={cn(
                 'flex-1',
                 formData.side === 'BUY' 
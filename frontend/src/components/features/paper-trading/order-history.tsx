@@ -11,10 +11,13 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
-  ArrowUpDown
+  ArrowUpDown,
+  CornerDownRight,
+  PauseCircle,
+  Timer
 } from 'lucide-react';
 import { Input, Select, Button } from '@/components/ui';
-import { Order, OrderStatus, OrderSide, OrderType } from '@/types/trading';
+import { Order, OrderStatus, OrderSide, OrderType, OrderRole } from '@/types/trading';
 import { cn } from '@/lib/utils';
 import { formatSafeDate } from '@/lib/utils/date-transform';
 
@@ -27,6 +30,12 @@ interface OrderHistoryProps {
 type SortField = 'createdAt' | 'symbol' | 'side' | 'type' | 'quantity' | 'price' | 'status';
 type SortDirection = 'asc' | 'desc';
 
+const ROLE_LABELS: Record<OrderRole, string> = {
+  ENTRY: 'Entry',
+  STOP_LOSS: 'Stop Loss',
+  TAKE_PROFIT: 'Take Profit',
+};
+
 export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<OrderStatus | 'ALL'>('ALL');
@@ -78,14 +87,34 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
       }
     });
 
-    return filtered;
+    // Bracket exits follow their entry when both are listed
+    const listed = new Set(filtered.map(order => order.id));
+    const exitsByParent = new Map<string, Order[]>();
+    filtered.forEach(order => {
+      if (order.parentOrderId && listed.has(order.parentOrderId)) {
+        exitsByParent.set(order.parentOrderId, [...(exitsByParent.get(order.parentOrderId) || []), order]);
+      }
+    });
+
+    return filtered
+      .filter(order => !order.parentOrderId || !listed.has(order.parentOrderId))
+      .flatMap(order => [order, ...(exitsByParent.get(order.id) || [])]);
   }, [orders, searchTerm, statusFilter, sideFilter, typeFilter, sortField, sortDirection]);
 
+  // Exits listed under their entry
+  const exitIds = useMemo(() => {
+    const listed = new Set(filteredAndSortedOrders.map(order => order.id));
+    return new Set(filteredAndSortedOrders
+      .filter(order => order.parentOrderId && listed.has(order.parentOrderId))
+      .map(order => order.id));
+  }, [filteredAndSortedOrders]);
+
   const orderStats = useMemo(() => {
     const total = orders.length;
     const filled = orders.filter(o => o.status === 'FILLED').length;
     const pending = orders.filter(o => o.status === 'PENDING').length;
     const cancelled = orders.filter(o => o.status === 'CANCELLED').length;
+    const expired = orders.filter(o => o.status === 'EXPIRED').length;
     const rejected = orders.filter(o => o.status === 'REJECTED').length;
     const partiallyFilled = orders.filter(o => o.status === 'PARTIALLY_FILLED').length;
 
@@ -96,6 +125,7 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
       filled,
       pending,
       cancelled,
+      expired,
       rejected,
       partiallyFilled,
       fillRate,
@@ -141,6 +171,10 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
         return <Clock className="h-4 w-4 text-blue-600 dark:text-blue-400" />;
       case 'PARTIALLY_FILLED':
         return <AlertCircle className="h-4 w-4 text-orange-600 dark:text-orange-400" />;
+      case 'WAITING':
+        return <PauseCircle className="h-4 w-4 text-amber-600 dark:text-amber-400" />;
+      case 'EXPIRED':
+        return <Timer className="h-4 w-4 text-neutral-500 dark:text-neutral-400" />;
       default:
         return <Clock className="h-4 w-4 text-neutral-600 dark:text-neutral-400" />;
     }
@@ -158,11 +192,29 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
         return 'text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900';
       case 'PARTIALLY_FILLED':
         return 'text-orange-600 dark:text-orange-400 bg-orange-100 dark:bg-orange-900';
+      case 'WAITING':
+        return 'text-amber-600 dark:text-amber-400 bg-amber-100 dark:bg-amber-900';
       default:
         return 'text-neutral-600 dark:text-neutral-400 bg-neutral-100 dark:bg-neutral-900';
     }
   };
 
+  // Linked order and advanced type details shown under the order type
+  const getOrderBadges = (order: Order): string[] => {
+    const badges: string[] = [];
+    if (order.timeInForce && order.timeInForce !== 'DAY') {
+      badges.push(order.timeInForce === 'GTD' && order.expiresAt
+        ? `GTD ${formatSafeDate(order.expiresAt, { month: 'short', day: 'numeric' })}`
+        : order.timeInForce);
+    }
+    if (order.role) badges.push(ROLE_LABELS[order.role]);
+    if (order.ocoGroupId) badges.push('OCO');
+    if (order.trailAmount) badges.push(`Trail ${formatCurrency(order.trailAmount)}`);
+    if (order.trailPercent) badges.push(`Trail ${order.trailPercent}%`);
+    if (order.displayQuantity) badges.push(`Iceberg ${order.displayQuantity.toLocaleString()}`);
+    return badges;
+  };
+
   const SortButton = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
     <button
       onClick={() => handleSort(field)}
@@ -241,9 +293,9 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
             </p>
           </div>
           <div className="text-center">
-            <p className="text-xs text-neutral-600 dark:text-neutral-400">Cancelled</p>
+            <p className="text-xs text-neutral-600 dark:text-neutral-400">Cancelled / Expired</p>
             <p className="text-lg font-semibold text-neutral-600 dark:text-neutral-400">
-              {orderStats.cancelled}
+              {orderStats.cancelled} / {orderStats.expired}
             </p>
           </div>
           <div className="text-center">
@@ -273,10 +325,12 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
               options={[
                 { value: 'ALL', label: 'All Status' },
                 { value: 'PENDING', label: 'Pending' },
+                { value: 'WAITING', label: 'Waiting' },
                 { value: 'FILLED', label: 'Filled' },
                 { value: 'PARTIALLY_FILLED', label: 'Partially Filled' },
                 { value: 'CANCELLED', label: 'Cancelled' },
                 { value: 'REJECTED', label: 'Rejected' },
+                { value: 'EXPIRED', label: 'Expired' },
               ]}
             />
             
@@ -299,6 +353,7 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
                 { value: 'LIMIT', label: 'Limit' },
                 { value: 'STOP', label: 'Stop' },
                 { value: 'STOP_LIMIT', label: 'Stop Limit' },
+                { value: 'TRAILING_STOP', label: 'Trailing Stop' },
               ]}
             />
           </div>
@@ -349,7 +404,12 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
                   {formatDateTime(order.createdAt)}
                 </td>
                 <td className="py-3 px-4 text-sm font-medium text-neutral-900 dark:text-white">
-                  {order.symbol}
+                  <div className="flex items-center space-x-1">
+                    {exitIds.has(order.id) && (
+                      <CornerDownRight className="h-4 w-4 text-neutral-400" />
+                    )}
+                    <span>{order.symbol}</span>
+                  </div>
                 </td>
                 <td className="py-3 px-4">
                   <div className="flex items-center space-x-2">
@@ -367,7 +427,19 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
                   </div>
                 </td>
                 <td className="py-3 px-4 text-sm text-neutral-900 dark:text-white">
-                  {order.type}
+                  <div>{order.type.replace('_', ' ')}</div>
+                  {getOrderBadges(order).length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {getOrderBadges(order).map(badge => (
+                        <span
+                          key={badge}
+                          className="px-1.5 py-0.5 rounded text-xs text-primary-700 dark:text-primary-300 bg-primary-50 dark:bg-primary-900/30"
+                        >
+                          {badge}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </td>
                 <td className="py-3 px-4 text-sm text-right text-neutral-900 dark:text-white">
                   <div>
@@ -385,7 +457,9 @@ export function OrderHistory({ orders, onExportCSV, className }: OrderHistoryPro
                 </td>
                 <td className="py-3 px-4 text-sm text-right text-neutral-900 dark:text-white">
                   <div>
-                    {order.price ? formatCurrency(order.price) : 'Market'}
+                    {order.price
+                      ? formatCurrency(order.price)
+                      : order.stopPrice ? `Stop ${formatCurrency(order.stopPrice)}` : 'Market'}
                     {order.avgFillPrice && order.avgFillPrice !== order.price && (
                       <div className="text-xs text-neutral-600 dark:text-neutral-400">
                         Avg: {formatCurrency(order.avgFillPrice)}
@@ -1,355 +1,45 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Strategy, Alert } from '@/types/trading';
-import { DeploymentConfig } from './strategy-deployment-modal';
-import { Button, Badge, useToast } from '@/components/ui';
-import { Play, Pause, Square, TrendingUp, AlertTriangle } from 'lucide-react';
-import { mockOrderService } from '@/mocks/services/order-service';
-import { mockPositionService } from '@/mocks/services/position-service';
+import { useState } from 'react';
+import { PaperTradingSession } from '@/types/trading';
+import { Button, Badge } from '@/components/ui';
+import { Play, Pause, Square, TrendingUp, AlertTriangle, Activity } from 'lucide-react';
 import { formatSafeDate } from '@/lib/utils/date-transform';
 
-export interface PaperTradingSession {
-  id: string;
-  strategyId: string;
-  strategy: Strategy;
-  config: DeploymentConfig;
-  status: 'RUNNING' | 'PAUSED' | 'STOPPED';
-  startedAt: Date;
-  pausedAt?: Date;
-  stoppedAt?: Date;
-  statistics: SessionStatistics;
-  riskMetrics: RiskMetrics;
-  alerts: Alert[];
-}
-
-interface SessionStatistics {
-  totalTrades: number;
-  winningTrades: number;
-  losingTrades: number;
-  totalPnL: number;
-  totalPnLPercent: number;
-  dayPnL: number;
-  dayPnLPercent: number;
-  maxDrawdown: number;
-  maxDrawdownPercent: number;
-  winRate: number;
-  profitFactor: number;
-  avgWin: number;
-  avgLoss: number;
-  largestWin: number;
-  largestLoss: number;
-  currentCapital: number;
-  capitalUtilization: number;
-  activePositions: number;
-  pendingOrders: number;
-}
-
-interface RiskMetrics {
-  dailyLossUsed: number;
-  dailyLossPercent: number;
-  drawdownUsed: number;
-  drawdownPercent: number;
-  positionSizeUsed: number;
-  positionSizePercent: number;
-  riskPerTradeUsed: number;
-  riskPerTradePercent: number;
-  isRiskLimitBreached: boolean;
-  riskAlerts: string[];
-}
+export type { PaperTradingSession } from '@/types/trading';
 
 interface PaperTradingSessionProps {
   session: PaperTradingSession;
-  onUpdateSession: (session: PaperTradingSession) => void;
-  onStopSession: (sessionId: string) => void;
+  onPauseSession: (sessionId: string) => Promise<unknown>;
+  onResumeSession: (sessionId: string) => Promise<unknown>;
+  onStopSession: (sessionId: string) => Promise<unknown>;
+  onViewSignals?: (sessionId: string) => void;
 }
 
+// The session trades on the server; this card shows its state and sends pause, resume and stop
 export function PaperTradingSessionComponent({
   session,
-  onUpdateSession,
+  onPauseSession,
+  onResumeSession,
   onStopSession,
+  onViewSignals,
 }: PaperTradingSessionProps) {
-  const { addToast } = useToast();
   const [isProcessing, setIsProcessing] = useState(false);
-  const [lastSignalTime, setLastSignalTime] = useState<Date | null>(null);
-  const [nextSignalCountdown, setNextSignalCountdown] = useState<number>(0);
-
-  // Simulate strategy signal generation
-  const generateStrategySignal = useCallback(() => {
-    if (session.status !== 'RUNNING') return;
 
-    // Check if within trading hours
-    const now = new Date();
-    const currentTime = now.toTimeString().slice(0, 5);
-    const { start, end } = session.config.tradingHours;
-    
-    if (currentTime < start || currentTime > end) {
-      return; // Outside trading hours
-    }
-
-    // Check risk limits
-    if (session.riskMetrics.isRiskLimitBreached) {
-      handleRiskLimitBreach();
-      return;
-    }
-
-    // Simulate strategy logic based on type
-    const shouldTrade = Math.random() < getSignalProbability(session.strategy);
-    
-    if (shouldTrade) {
-      const signal = generateTradeSignal(session.strategy, session.config);
-      if (signal) {
-        executeTradeSignal(signal);
-        setLastSignalTime(new Date());
-      }
-    }
-  }, [session]);
-
-  // Start/pause/stop session controls
-  const handleStartPause = async () => {
+  const run = async (action: (sessionId: string) => Promise<unknown>) => {
     setIsProcessing(true);
-    
     try {
-      const updatedSession = { ...session };
-      
-      if (session.status === 'RUNNING') {
-        updatedSession.status = 'PAUSED';
-        updatedSession.pausedAt = new Date();
-        
-        addToast({
-          type: 'info',
-          title: 'Session Paused',
-          description: `${session.strategy.name} paper trading has been paused.`,
-        });
-      } else {
-        updatedSession.status = 'RUNNING';
-        updatedSession.pausedAt = undefined;
-        
-        addToast({
-          type: 'success',
-          title: 'Session Resumed',
-          description: `${session.strategy.name} paper trading has been resumed.`,
-        });
-      }
-      
-      onUpdateSession(updatedSession);
+      await action(session.id);
+    } catch (error) {
+      // Error handling is done by the manager
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleStop = async () => {
-    setIsProcessing(true);
-    
-    try {
-      // Close all open positions
-      const positions = mockPositionService.getPositions();
-      const strategyPositions = positions.filter(p => 
-        // In a real implementation, positions would have strategyId
-        true // For now, close all positions when stopping
-      );
-      
-      for (const position of strategyPositions) {
-        mockPositionService.closePosition(position.id);
-      }
-      
-      // Cancel all pending orders
-      const orders = mockOrderService.getOrders();
-      const strategyOrders = orders.filter(o => 
-        o.strategyId === session.strategyId && 
-        (o.status === 'PENDING' || o.status === 'PARTIALLY_FILLED')
-      );
-      
-      for (const order of strategyOrders) {
-        mockOrderService.cancelOrder(order.id);
-      }
-      
-      onStopSession(session.id);
-      
-      addToast({
-        type: 'success',
-        title: 'Session Stopped',
-        description: `${session.strategy.name} paper trading has been stopped and all positions closed.`,
-      });
-    } finally {
-      setIsProcessing(false);
-    }
-  };
+  const handleStartPause = () => run(session.status === 'RUNNING' ? onPauseSession : onResumeSession);
 
-  // Risk management
-  const handleRiskLimitBreach = () => {
-    const updatedSession = { ...session };
-    updatedSession.status = 'PAUSED';
-    updatedSession.pausedAt = new Date();
-    
-    // Add risk alert
-    const alert: Alert = {
-      id: `alert-${Date.now()}`,
-      type: 'ERROR',
-      title: 'Risk Limit Breached',
-      message: `Strategy ${session.strategy.name} has been paused due to risk limit breach.`,
-      strategyId: session.strategyId,
-      isRead: false,
-      createdAt: new Date(),
-    };
-    
-    updatedSession.alerts.unshift(alert);
-    onUpdateSession(updatedSession);
-    
-    addToast({
-      type: 'error',
-      title: 'Risk Limit Breached',
-      description: 'Paper trading session has been paused due to risk management rules.',
-    });
-  };
-
-  // Signal generation logic
-  const getSignalProbability = (strategy: Strategy): number => {
-    // Base probability varies by strategy type
-    const baseProbability = {
-      'TEMPLATE': 0.02, // 2% chance per check
-      'CODE': 0.015,    // 1.5% chance per check
-      'VISUAL': 0.025,  // 2.5% chance per check
-    }[strategy.type] || 0.02;
-    
-    // Adjust based on market conditions (simulated)
-    const marketVolatility = Math.random();
-    const adjustedProbability = baseProbability * (1 + marketVolatility);
-    
-    return Math.min(adjustedProbability, 0.1); // Cap at 10%
-  };
-
-  const generateTradeSignal = (strategy: Strategy, config: DeploymentConfig) => {
-    // Check if we can place more trades
-    if (session.statistics.activePositions >= config.maxConcurrentTrades) {
-      return null;
-    }
-    
-    // Simulate signal generation based on strategy parameters
-    const side = Math.random() > 0.5 ? 'BUY' : 'SELL';
-    const symbol = strategy.parameters?.symbol || 'RELIANCE';
-    const baseQuantity = strategy.parameters?.quantity || 100;
-    
-    // Adjust quantity based on position sizing rules
-    const maxQuantity = Math.floor(config.maxPositionSize / 1000); // Assuming ₹1000 per share
-    const quantity = Math.min(baseQuantity, maxQuantity);
-    
-    return {
-      symbol,
-      side,
-      type: 'MARKET' as const,
-      quantity,
-      strategyId: strategy.id,
-      tags: ['paper-trading', 'auto-generated'],
-    };
-  };
-
-  const executeTradeSignal = (signal: any) => {
-    try {
-      const order = mockOrderService.placeOrder(signal);
-      
-      if (order.status === 'REJECTED') {
-        addToast({
-          type: 'warning',
-          title: 'Signal Rejected',
-          description: `Trade signal for ${signal.symbol} was rejected: ${order.rejectionReason}`,
-        });
-      } else {
-        addToast({
-          type: 'info',
-          title: 'Trade Signal Executed',
-          description: `${signal.side} ${signal.quantity} ${signal.symbol} - Order placed`,
-        });
-      }
-    } catch (error) {
-      addToast({
-        type: 'error',
-        title: 'Signal Execution Failed',
-        description: 'Failed to execute trade signal',
-      });
-    }
-  };
-
-  // Update session statistics periodically
-  useEffect(() => {
-    if (session.status !== 'RUNNING') return;
-
-    const interval = setInterval(() => {
-      // Update statistics from current positions and orders
-      const positions = mockPositionService.getPositions();
-      const orders = mockOrderService.getOrders();
-      const portfolio = mockPositionService.getPortfolio();
-      
-      // Calculate updated statistics
-      const updatedStatistics: SessionStatistics = {
-        ...session.statistics,
-        activePositions: positions.length,
-        pendingOrders: orders.filter(o => o.status === 'PENDING' || o.status === 'PARTIALLY_FILLED').length,
-        totalPnL: portfolio.totalPnL,
-        totalPnLPercent: (portfolio.totalPnL / session.config.capital) * 100,
-        dayPnL: portfolio.dayPnL,
-        dayPnLPercent: (portfolio.dayPnL / session.config.capital) * 100,
-        currentCapital: session.config.capital + portfolio.totalPnL,
-        capitalUtilization: (portfolio.totalValue / session.config.capital) * 100,
-      };
-      
-      // Calculate risk metrics
-      const updatedRiskMetrics: RiskMetrics = {
-        ...session.riskMetrics,
-        dailyLossUsed: Math.abs(Math.min(portfolio.dayPnL, 0)),
-        dailyLossPercent: (Math.abs(Math.min(portfolio.dayPnL, 0)) / session.config.capital) * 100,
-        drawdownUsed: Math.abs(Math.min(portfolio.totalPnL, 0)),
-        drawdownPercent: (Math.abs(Math.min(portfolio.totalPnL, 0)) / session.config.capital) * 100,
-        positionSizeUsed: portfolio.totalValue,
-        positionSizePercent: (portfolio.totalValue / session.config.capital) * 100,
-      };
-      
-      // Check risk limits
-      updatedRiskMetrics.isRiskLimitBreached = 
-        updatedRiskMetrics.dailyLossUsed >= session.config.maxDailyLoss ||
-        updatedRiskMetrics.drawdownUsed >= session.config.maxDrawdown;
-      
-      const updatedSession = {
-        ...session,
-        statistics: updatedStatistics,
-        riskMetrics: updatedRiskMetrics,
-      };
-      
-      onUpdateSession(updatedSession);
-    }, 5000); // Update every 5 seconds
-
-    return () => clearInterval(interval);
-  }, [session, onUpdateSession]);
-
-  // Strategy signal generation timer
-  useEffect(() => {
-    if (session.status !== 'RUNNING') return;
-
-    const interval = setInterval(() => {
-      generateStrategySignal();
-    }, 10000); // Check for signals every 10 seconds
-
-    return () => clearInterval(interval);
-  }, [generateStrategySignal]);
-
-  // Countdown timer for next signal check
-  useEffect(() => {
-    if (session.status !== 'RUNNING') return;
-
-    const interval = setInterval(() => {
-      setNextSignalCountdown(prev => Math.max(0, prev - 1));
-    }, 1000);
-
-    // Reset countdown every 10 seconds
-    const resetInterval = setInterval(() => {
-      setNextSignalCountdown(10);
-    }, 10000);
-
-    return () => {
-      clearInterval(interval);
-      clearInterval(resetInterval);
-    };
-  }, [session.status]);
+  const handleStop = () => run(onStopSession);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -387,12 +77,30 @@ export function PaperTradingSessionComponent({
                 {session.status}
               </Badge>
               <span>•</span>
+              <span>{session.symbol} {session.timeframe}</span>
+              <span>•</span>
               <span>Running for {formatDuration(session.startedAt, session.stoppedAt)}</span>
             </div>
+            {session.status === 'PAUSED' && session.pauseReason && (
+              <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-1">
+                {session.pauseReason}
+              </p>
+            )}
           </div>
         </div>
         
         <div className="flex items-center gap-2">
+          {onViewSignals && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onViewSignals(session.id)}
+            >
+              <Activity className="w-4 h-4 mr-2" />
+              Signals
+            </Button>
+          )}
+
           <Button
             variant="outline"
             size="sm"
@@ -486,12 +194,12 @@ export function PaperTradingSessionComponent({
         </div>
         
         <div className="text-center p-3 bg-neutral-50 dark:bg-neutral-900 rounded-lg">
-          <p className="text-xs text-neutral-600 dark:text-neutral-400">Next Signal</p>
+          <p className="text-xs text-neutral-600 dark:text-neutral-400">Last Signal</p>
           <p className="text-lg font-bold text-neutral-600 dark:text-neutral-400">
-            {session.status === 'RUNNING' ? `${nextSignalCountdown}s` : '--'}
+            {session.lastSignalAt ? formatSafeDate(session.lastSignalAt, { hour: '2-digit', minute: '2-digit' }) : '--'}
           </p>
           <p className="text-xs text-neutral-500">
-            {lastSignalTime ? formatSafeDate(lastSignalTime, { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : 'None'}
+            Bar {session.lastBarAt ? formatSafeDate(session.lastBarAt, { hour: '2-digit', minute: '2-digit' }) : 'pending'}
           </p>
         </div>
       </div>
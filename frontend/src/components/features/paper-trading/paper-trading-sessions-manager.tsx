@@ -1,63 +1,90 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Strategy } from '@/types/trading';
+import { useState, useEffect, useCallback } from 'react';
 import { PaperTradingSession, PaperTradingSessionComponent } from './paper-trading-session';
-import { StrategyDeploymentModal, DeploymentConfig } from './strategy-deployment-modal';
-import { Button, Badge, useToast } from '@/components/ui';
-import { Plus, Play, Square, TrendingUp } from 'lucide-react';
-import { mockStrategies } from '@/mocks/data/strategies';
+import { StrategyDeploymentModal } from './strategy-deployment-modal';
+import { Button, Badge, Modal, useToast } from '@/components/ui';
+import { SignalJournal } from '@/components/features/strategies';
+import { Plus, Play, Square, TrendingUp, Activity } from 'lucide-react';
+import { Strategy } from '@/lib/api/strategies';
+import { useStrategies } from '@/hooks/use-strategies';
+import { tradingAPI, DeploySessionRequest } from '@/lib/api/trading-api';
+import { tradingWebSocket } from '@/lib/websocket/trading-websocket';
+import { transformDates } from '@/lib/utils/date-transform';
+import { EXCHANGES, setHolidays } from '@/lib/trading-calendar';
 
 interface PaperTradingSessionsManagerProps {
   onSessionUpdate?: (sessions: PaperTradingSession[]) => void;
 }
 
+// Sessions refresh over the websocket; polling picks up anything missed while disconnected
+const SESSION_REFRESH_INTERVAL = 30000;
+
 export function PaperTradingSessionsManager({
   onSessionUpdate,
 }: PaperTradingSessionsManagerProps) {
   const { addToast } = useToast();
   const [sessions, setSessions] = useState<PaperTradingSession[]>([]);
-  const [strategies] = useState<Strategy[]>(mockStrategies.filter(s => s.status === 'ACTIVE'));
+  const { strategies } = useStrategies();
   const [selectedStrategy, setSelectedStrategy] = useState<Strategy | null>(null);
   const [isDeploymentModalOpen, setIsDeploymentModalOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [journalSessionId, setJournalSessionId] = useState<string | null>(null);
+
+  const upsertSession = useCallback((session: PaperTradingSession) => {
+    setSessions(prev => prev.some(s => s.id === session.id)
+      ? prev.map(s => s.id === session.id ? session : s)
+      : [session, ...prev]);
+  }, []);
 
-  // Load existing sessions from localStorage on mount
+  // Sessions live on the server, so they survive reloads and keep trading while the page is closed
   useEffect(() => {
-    const savedSessions = localStorage.getItem('paperTradingSessions');
-    if (savedSessions) {
+    const loadSessions = async () => {
       try {
-        const parsedSessions = JSON.parse(savedSessions).map((session: any) => ({
-          ...session,
-          startedAt: new Date(session.startedAt),
-          pausedAt: session.pausedAt ? new Date(session.pausedAt) : undefined,
-          stoppedAt: session.stoppedAt ? new Date(session.stoppedAt) : undefined,
-          alerts: session.alerts.map((alert: any) => ({
-            ...alert,
-            createdAt: new Date(alert.createdAt),
-            expiresAt: alert.expiresAt ? new Date(alert.expiresAt) : undefined,
-          })),
-        }));
-        setSessions(parsedSessions);
+        setSessions(await tradingAPI.getSessions());
       } catch (error) {
-        console.error('Failed to load saved sessions:', error);
+        console.error('Failed to load paper trading sessions:', error);
       }
-    }
+    };
+
+    loadSessions();
+    const interval = setInterval(loadSessions, SESSION_REFRESH_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const handleSessionUpdate = (session: PaperTradingSession) => {
+      upsertSession(transformDates(session));
+    };
+
+    tradingWebSocket.on('paperSessionUpdate', handleSessionUpdate);
+
+    return () => {
+      tradingWebSocket.off('paperSessionUpdate', handleSessionUpdate);
+    };
+  }, [upsertSession]);
+
+  // Load exchange holidays so sessions skip them; weekends are known without the API
+  useEffect(() => {
+    EXCHANGES.forEach(exchange => {
+      tradingAPI.getHolidays(exchange)
+        .then(holidays => setHolidays(exchange, holidays))
+        .catch(error => console.warn(`Failed to load ${exchange} holidays:`, error));
+    });
   }, []);
 
-  // Save sessions to localStorage whenever they change
   useEffect(() => {
-    localStorage.setItem('paperTradingSessions', JSON.stringify(sessions));
     onSessionUpdate?.(sessions);
   }, [sessions, onSessionUpdate]);
 
+  const isDeployed = (strategy: Strategy) => sessions.some(s =>
+    s.strategyId === strategy._id && s.status !== 'STOPPED'
+  );
+
   const handleDeployStrategy = (strategy: Strategy) => {
     // Check if strategy is already deployed
-    const existingSession = sessions.find(s => 
-      s.strategyId === strategy.id && s.status !== 'STOPPED'
-    );
-    
-    if (existingSession) {
+    if (isDeployed(strategy)) {
       addToast({
         type: 'warning',
         title: 'Strategy Already Deployed',
@@ -70,102 +97,48 @@ export function PaperTradingSessionsManager({
     setIsDeploymentModalOpen(true);
   };
 
-  const handleConfirmDeployment = async (config: DeploymentConfig) => {
-    if (!selectedStrategy) return;
-    
+  // The modal reports the outcome; failures are rethrown for it
+  const handleConfirmDeployment = async (request: DeploySessionRequest) => {
     setIsLoading(true);
     
     try {
-      // Create new session
-      const newSession: PaperTradingSession = {
-        id: `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        strategyId: selectedStrategy.id,
-        strategy: selectedStrategy,
-        config,
-        status: 'RUNNING',
-        startedAt: new Date(),
-        statistics: {
-          totalTrades: 0,
-          winningTrades: 0,
-          losingTrades: 0,
-          totalPnL: 0,
-          totalPnLPercent: 0,
-          dayPnL: 0,
-          dayPnLPercent: 0,
-          maxDrawdown: 0,
-          maxDrawdownPercent: 0,
-          winRate: 0,
-          profitFactor: 0,
-          avgWin: 0,
-          avgLoss: 0,
-          largestWin: 0,
-          largestLoss: 0,
-          currentCapital: config.capital,
-          capitalUtilization: 0,
-          activePositions: 0,
-          pendingOrders: 0,
-        },
-        riskMetrics: {
-          dailyLossUsed: 0,
-          dailyLossPercent: 0,
-          drawdownUsed: 0,
-          drawdownPercent: 0,
-          positionSizeUsed: 0,
-          positionSizePercent: 0,
-          riskPerTradeUsed: 0,
-          riskPerTradePercent: 0,
-          isRiskLimitBreached: false,
-          riskAlerts: [],
-        },
-        alerts: [],
-      };
-      
-      setSessions(prev => [newSession, ...prev]);
-      
+      upsertSession(await tradingAPI.deploySession(request));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runSessionAction = async (
+    action: (sessionId: string) => Promise<PaperTradingSession>,
+    sessionId: string,
+    title: string,
+  ) => {
+    try {
+      upsertSession(await action(sessionId));
       addToast({
-        type: 'success',
-        title: 'Strategy Deployed',
-        description: `${selectedStrategy.name} has been deployed to paper trading.`,
+        type: 'info',
+        title,
       });
-      
-      setIsDeploymentModalOpen(false);
-      setSelectedStrategy(null);
     } catch (error) {
       addToast({
         type: 'error',
-        title: 'Deployment Failed',
-        description: 'Failed to deploy strategy. Please try again.',
+        title: 'Session Update Failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
       });
-    } finally {
-      setIsLoading(false);
+      throw error;
     }
   };
 
-  const handleUpdateSession = (updatedSession: PaperTradingSession) => {
-    setSessions(prev => 
-      prev.map(session => 
-        session.id === updatedSession.id ? updatedSession : session
-      )
-    );
-  };
+  const handlePauseSession = (sessionId: string) =>
+    runSessionAction(id => tradingAPI.pauseSession(id), sessionId, 'Session Paused');
 
-  const handleStopSession = (sessionId: string) => {
-    setSessions(prev => 
-      prev.map(session => 
-        session.id === sessionId 
-          ? { ...session, status: 'STOPPED' as const, stoppedAt: new Date() }
-          : session
-      )
-    );
-    
-    addToast({
-      type: 'info',
-      title: 'Session Stopped',
-      description: 'Paper trading session has been stopped.',
-    });
-  };
+  const handleResumeSession = (sessionId: string) =>
+    runSessionAction(id => tradingAPI.resumeSession(id), sessionId, 'Session Resumed');
+
+  const handleStopSession = (sessionId: string) =>
+    runSessionAction(id => tradingAPI.stopSession(id), sessionId, 'Session Stopped');
 
-  const handleStopAllSessions = () => {
+  const handleStopAllSessions = async () => {
     const runningSessions = sessions.filter(s => s.status === 'RUNNING' || s.status === 'PAUSED');
     
     if (runningSessions.length === 0) {
@@ -177,18 +150,18 @@ export function PaperTradingSessionsManager({
       return;
     }
     
-    setSessions(prev => 
-      prev.map(session => 
-        session.status !== 'STOPPED' 
-          ? { ...session, status: 'STOPPED' as const, stoppedAt: new Date() }
-          : session
-      )
-    );
-    
+    const results = await Promise.allSettled(runningSessions.map(s => tradingAPI.stopSession(s.id)));
+    results.forEach(result => {
+      if (result.status === 'fulfilled') {
+        upsertSession(result.value);
+      }
+    });
+
+    const stopped = results.filter(result => result.status === 'fulfilled').length;
     addToast({
-      type: 'success',
+      type: stopped === runningSessions.length ? 'success' : 'warning',
       title: 'All Sessions Stopped',
-      description: `Stopped ${runningSessions.length} active sessions.`,
+      description: `Stopped ${stopped} of ${runningSessions.length} active sessions.`,
     });
   };
 
@@ -286,13 +259,11 @@ export function PaperTradingSessionsManager({
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {strategies.map((strategy) => {
-              const isDeployed = sessions.some(s => 
-                s.strategyId === strategy.id && s.status !== 'STOPPED'
-              );
+              const deployed = isDeployed(strategy);
               
               return (
                 <div
-                  key={strategy.id}
+                  key={strategy._id}
                   className="p-4 border border-neutral-200 dark:border-neutral-700 rounded-lg hover:border-primary-300 dark:hover:border-primary-600 transition-colors"
                 >
                   <div className="flex items-start justify-between mb-3">
@@ -305,11 +276,11 @@ export function PaperTradingSessionsManager({
                       </p>
                     </div>
                     <Badge className={`${
-                      isDeployed 
+                      deployed 
                         ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                         : 'bg-neutral-100 text-neutral-800 dark:bg-neutral-900 dark:text-neutral-200'
                     }`}>
-                      {isDeployed ? 'Deployed' : 'Available'}
+                      {deployed ? 'Deployed' : 'Available'}
                     </Badge>
                   </div>
                   
@@ -336,12 +307,12 @@ export function PaperTradingSessionsManager({
                   
                   <Button
                     size="sm"
-                    variant={isDeployed ? "outline" : "primary"}
+                    variant={deployed ? "outline" : "primary"}
                     onClick={() => handleDeployStrategy(strategy)}
-                    disabled={isDeployed || isLoading}
+                    disabled={deployed || isLoading}
                     className="w-full"
                   >
-                    {isDeployed ? (
+                    {deployed ? (
                       <>
                         <Play className="w-4 h-4 mr-2" />
                         Already Deployed
@@ -370,8 +341,10 @@ export function PaperTradingSessionsManager({
             <PaperTradingSessionComponent
               key={session.id}
               session={session}
-              onUpdateSession={handleUpdateSession}
+              onPauseSession={handlePauseSession}
+              onResumeSession={handleResumeSession}
               onStopSession={handleStopSession}
+              onViewSignals={setJournalSessionId}
             />
           ))}
         </div>
@@ -393,9 +366,15 @@ export function PaperTradingSessionsManager({
                   <h4 className="font-medium text-neutral-900 dark:text-white">
                     {session.strategy.name}
                   </h4>
-                  <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
-                    STOPPED
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setJournalSessionId(session.id)}>
+                      <Activity className="w-4 h-4 mr-1" />
+                      Signals
+                    </Button>
+                    <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                      STOPPED
+                    </Badge>
+                  </div>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4 text-sm">
@@ -454,6 +433,18 @@ export function PaperTradingSessionsManager({
         </div>
       )}
 
+      {/* Signal Journal of a session */}
+      {journalSessionId && (
+        <Modal
+          isOpen
+          onClose={() => setJournalSessionId(null)}
+          title={`Signals • ${sessions.find(s => s.id === journalSessionId)?.strategy.name || 'Session'}`}
+          size="xl"
+        >
+          <SignalJournal scope={{ type: 'session', id: journalSessionId }} title="Session Signals" />
+        </Modal>
+      )}
+
       {/* Deployment Modal */}
       {selectedStrategy && (
         <StrategyDeploymentModal
@@ -477,21 +468,19 @@ export function PaperTradingSessionsManager({
             
             <div className="space-y-3 mb-6">
               {strategies.map((strategy) => {
-                const isDeployed = sessions.some(s => 
-                  s.strategyId === strategy.id && s.status !== 'STOPPED'
-                );
+                const deployed = isDeployed(strategy);
                 
                 return (
                   <button
-                    key={strategy.id}
+                    key={strategy._id}
                     onClick={() => {
-                      if (!isDeployed) {
+                      if (!deployed) {
                         setSelectedStrategy(strategy);
                       }
                     }}
-                    disabled={isDeployed}
+                    disabled={deployed}
                     className={`w-full p-4 text-left border rounded-lg transition-colors ${
-                      isDeployed
+                      deployed
                         ? 'border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-900 cursor-not-allowed'
                         : 'border-neutral-200 dark:border-neutral-700 hover:border-primary-300 dark:hover:border-primary-600'
                     }`}
@@ -501,11 +490,11 @@ export function PaperTradingSessionsManager({
                         {strategy.name}
                       </h3>
                       <Badge className={`${
-                        isDeployed 
+                        deployed 
                           ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                           : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
                       }`}>
-                        {isDeployed ? 'Already Deployed' : strategy.type}
+                        {deployed ? 'Already Deployed' : strategy.type}
                       </Badge>
                     </div>
                     
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Pencil, ArrowLeftRight, RotateCcw, Archive, Wallet } from 'lucide-react';
+import { Button, Input, Modal, Badge } from '@/components/ui';
+import { Portfolio, PortfolioKind } from '@/types/trading';
+import { CreatePortfolioRequest, UpdatePortfolioRequest } from '@/lib/api/trading-api';
+
+type Dialog = 'create' | 'rename' | 'transfer' | 'reset' | 'archive' | null;
+
+const KIND_LABELS: Record<PortfolioKind, string> = {
+  GENERAL: 'General',
+  STRATEGY: 'Strategy',
+  SANDBOX: 'Sandbox',
+  COMPETITION: 'Competition'
+};
+
+const selectClassName = 'w-full px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-md bg-white dark:bg-neutral-700 text-sm';
+
+const formatCash = (value?: number) => `₹${(value ?? 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+interface PortfolioSwitcherProps {
+  portfolios: Portfolio[];
+  current: Portfolio | null;
+  onSelect: (portfolioId: string) => void;
+  onCreate: (data: CreatePortfolioRequest) => Promise<unknown>;
+  onUpdate: (portfolioId: string, data: UpdatePortfolioRequest) => Promise<unknown>;
+  onReset: (portfolioId: string) => Promise<unknown>;
+  onArchive: (portfolioId: string) => Promise<unknown>;
+  onTransfer: (fromPortfolioId: string, toPortfolioId: string, amount: number) => Promise<unknown>;
+}
+
+export function PortfolioSwitcher({
+  portfolios,
+  current,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onReset,
+  onArchive,
+  onTransfer
+}: PortfolioSwitcherProps) {
+  const [dialog, setDialog] = useState<Dialog>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<PortfolioKind>('GENERAL');
+  const [initialCapital, setInitialCapital] = useState('1000000');
+  const [targetId, setTargetId] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const others = portfolios.filter(item => item.id !== current?.id);
+
+  const open = (next: Dialog) => {
+    setName(next === 'rename' ? current?.name ?? '' : '');
+    setKind(next === 'rename' ? current?.kind ?? 'GENERAL' : 'GENERAL');
+    setInitialCapital('1000000');
+    setTargetId(others[0]?.id ?? '');
+    setAmount('');
+    setDialog(next);
+  };
+
+  // Errors are reported by the caller; the dialog stays open to correct them
+  const submit = async (action: () => Promise<unknown>) => {
+    setSubmitting(true);
+    try {
+      await action();
+      setDialog(null);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!current) return null;
+
+  return (
+    <div className="flex flex-col gap-3 p-4 bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 md:flex-row md:items-center md:justify-between">
+      <div className="flex items-center gap-3">
+        <Wallet className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+        <select
+          value={current.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className={`${selectClassName} md:w-64`}
+          aria-label="Portfolio"
+        >
+          {portfolios.map(item => (
+            <option key={item.id} value={item.id}>
+              {item.name}{item.isDefault ? ' (default)' : ''}
+            </option>
+          ))}
+        </select>
+        <Badge variant="secondary">{KIND_LABELS[current.kind ?? 'GENERAL']}</Badge>
+        <span className="text-sm text-neutral-600 dark:text-neutral-400 whitespace-nowrap">
+          Cash {formatCash(current.cashBalance ?? current.cash)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => open('create')}>
+          <Plus className="h-4 w-4 mr-1" />
+          New
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => open('rename')}>
+          <Pencil className="h-4 w-4 mr-1" />
+          Rename
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => open('transfer')} disabled={others.length === 0}>
+          <ArrowLeftRight className="h-4 w-4 mr-1" />
+          Transfer
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => open('reset')}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => open('archive')} disabled={others.length === 0}>
+          <Archive className="h-4 w-4 mr-1" />
+          Archive
+        </Button>
+      </div>
+
+      {/* Create / Rename Modal */}
+      <Modal
+        isOpen={dialog === 'create' || dialog === 'rename'}
+        onClose={() => setDialog(null)}
+        title={dialog === 'create' ? 'New Portfolio' : 'Rename Portfolio'}
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+              Name
+            </label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Momentum Strategy"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+              Purpose
+            </label>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as PortfolioKind)}
+              className={selectClassName}
+            >
+              {Object.entries(KIND_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {dialog === 'create' && (
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                Starting Cash (₹)
+              </label>
+              <Input
+                type="number"
+                value={initialCapital}
+                onChange={(e) => setInitialCapital(e.target.value)}
+                min="1"
+                step="1000"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              loading={submitting}
+              disabled={!name.trim() || (dialog === 'create' && !(parseFloat(initialCapital) > 0))}
+              onClick={() => submit(() => dialog === 'create'
+                ? onCreate({ name: name.trim(), kind, initialCapital: parseFloat(initialCapital) })
+                : onUpdate(current.id, { name: name.trim(), kind }))}
+            >
+              {dialog === 'create' ? 'Create Portfolio' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Transfer Modal */}
+      <Modal
+        isOpen={dialog === 'transfer'}
+        onClose={() => setDialog(null)}
+        title="Transfer Cash"
+        description={`Move cash from ${current.name} to another portfolio. Cash backing open positions stays put.`}
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+              To Portfolio
+            </label>
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className={selectClassName}
+            >
+              {others.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+              Amount (₹)
+            </label>
+            <Input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              min="1"
+              step="0.01"
+            />
+            <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+              Available: {formatCash(Math.min(current.cashBalance ?? current.cash, current.availableMargin ?? Infinity))}
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              loading={submitting}
+              disabled={!targetId || !(parseFloat(amount) > 0)}
+              onClick={() => submit(() => onTransfer(current.id, targetId, parseFloat(amount)))}
+            >
+              Transfer
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Reset / Archive Confirmation */}
+      <Modal
+        isOpen={dialog === 'reset' || dialog === 'archive'}
+        onClose={() => setDialog(null)}
+        title={dialog === 'reset' ? `Reset ${current.name}?` : `Archive ${current.name}?`}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            {dialog === 'reset'
+              ? `Open orders are cancelled, positions, orders and trades are deleted and cash goes back to ${formatCash(current.initialCapital)}.`
+              : 'Open orders are cancelled and the portfolio stops trading. Positions must be closed first; its history is kept.'}
+          </p>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              loading={submitting}
+              onClick={() => submit(() => dialog === 'reset' ? onReset(current.id) : onArchive(current.id))}
+            >
+              {dialog === 'reset' ? 'Reset Portfolio' : 'Archive Portfolio'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
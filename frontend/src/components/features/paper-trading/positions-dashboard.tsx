@@ -12,13 +12,14 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui';
 import { useToast } from '@/components/ui';
-import { Position, MarketData } from '@/types/trading';
+import { Position, MarketData, Portfolio } from '@/types/trading';
 import { formatSafeNumber, formatSafeCurrency } from '@/lib/utils/date-transform';
 import { cn } from '@/lib/utils';
 
 interface PositionsDashboardProps {
   positions: Position[];
   marketData: MarketData[];
+  portfolio?: Portfolio | null;
   onClosePosition: (positionId: string, quantity?: number) => void;
   onSetStopLoss: (positionId: string, stopPrice: number) => void;
   onSetTakeProfit: (positionId: string, targetPrice: number) => void;
@@ -28,6 +29,7 @@ interface PositionsDashboardProps {
 const PositionsDashboardComponent = function PositionsDashboard({ 
   positions, 
   marketData, 
+  portfolio,
   onClosePosition, 
   onSetStopLoss, 
   onSetTakeProfit,
@@ -71,8 +73,10 @@ const PositionsDashboardComponent = function PositionsDashboard({
   // Calculate position metrics with current market data
   const getPositionMetrics = (position: Position) => {
     const currentPrice = getCurrentPrice(position.symbol);
-    const priceDiff = currentPrice - position.avgPrice;
-    const unrealizedPnL = position.quantity * priceDiff;
+    // Shorts gain when the price falls
+    const direction = position.side === 'SHORT' ? -1 : 1;
+    const priceDiff = (currentPrice - position.avgPrice) * direction;
+    const unrealizedPnL = Math.abs(position.quantity) * priceDiff;
     const unrealizedPnLPercent = position.avgPrice > 0 ? (priceDiff / position.avgPrice) * 100 : 0;
     
     return {
@@ -236,6 +240,53 @@ const PositionsDashboardComponent = function PositionsDashboard({
             </p>
           </div>
         </div>
+
+        {/* Margin */}
+        {portfolio?.marginUsed !== undefined && (
+          <div className="mt-4 pt-4 border-t border-neutral-200 dark:border-neutral-700">
+            {portfolio.marginCallAt && (
+              <div className="flex items-center space-x-2 mb-4 p-3 rounded-lg bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span className="text-sm">
+                  Margin call: equity is below the maintenance margin of {formatCurrency(portfolio.maintenanceMargin)}. Positions are liquidated while the market is open.
+                </span>
+              </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center">
+                <p className="text-xs text-neutral-600 dark:text-neutral-400">Margin Used</p>
+                <p className="text-lg font-semibold text-neutral-900 dark:text-white">
+                  {formatCurrency(portfolio.marginUsed)}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-xs text-neutral-600 dark:text-neutral-400">Available Margin</p>
+                <p className={cn(
+                  'text-lg font-semibold',
+                  (portfolio.availableMargin || 0) >= 0
+                    ? 'text-neutral-900 dark:text-white'
+                    : 'text-red-600 dark:text-red-400'
+                )}>
+                  {formatCurrency(portfolio.availableMargin)}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-xs text-neutral-600 dark:text-neutral-400">Leverage</p>
+                <p className="text-lg font-semibold text-neutral-900 dark:text-white">
+                  {formatSafeNumber(portfolio.leverage, 2)}x
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-xs text-neutral-600 dark:text-neutral-400">
+                  Buying Power{portfolio.accountType === 'CASH' ? ' (Cash)' : ''}
+                </p>
+                <p className="text-lg font-semibold text-neutral-900 dark:text-white">
+                  {formatCurrency(portfolio.buyingPower)}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Positions List */}
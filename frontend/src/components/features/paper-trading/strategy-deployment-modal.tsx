@@ -1,7 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { Strategy } from '@/types/trading';
+import { DeploymentConfig, Timeframe } from '@/types/trading';
+import { Strategy } from '@/lib/api/strategies';
+import { DeploySessionRequest } from '@/lib/api/trading-api';
+import { EXCHANGES } from '@/lib/trading-calendar';
 import { Button, Modal, Input, Select, Label, useToast } from '@/components/ui';
 import { AlertTriangle, TrendingUp, DollarSign, Settings } from 'lucide-react';
 
@@ -9,39 +12,11 @@ interface StrategyDeploymentModalProps {
   isOpen: boolean;
   onClose: () => void;
   strategy: Strategy;
-  onDeploy: (deploymentConfig: DeploymentConfig) => void;
+  onDeploy: (request: DeploySessionRequest) => Promise<unknown>;
 }
 
-export interface DeploymentConfig {
-  strategyId: string;
-  capital: number;
-  maxPositionSize: number;
-  maxPositionSizePercent: number;
-  riskPerTrade: number;
-  riskPerTradePercent: number;
-  maxDailyLoss: number;
-  maxDailyLossPercent: number;
-  maxDrawdown: number;
-  maxDrawdownPercent: number;
-  enableStopLoss: boolean;
-  stopLossPercent: number;
-  enableTakeProfit: boolean;
-  takeProfitPercent: number;
-  enableTrailingStop: boolean;
-  trailingStopPercent: number;
-  maxConcurrentTrades: number;
-  tradingHours: {
-    start: string;
-    end: string;
-    timezone: string;
-  };
-  notifications: {
-    onTrade: boolean;
-    onProfit: boolean;
-    onLoss: boolean;
-    onRiskAlert: boolean;
-  };
-}
+// Bar sizes the paper trading worker can follow live
+const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '1d'];
 
 export function StrategyDeploymentModal({
   isOpen,
@@ -51,7 +26,7 @@ export function StrategyDeploymentModal({
 }: StrategyDeploymentModalProps) {
   const { addToast } = useToast();
   const [config, setConfig] = useState<DeploymentConfig>({
-    strategyId: strategy.id,
+    strategyId: strategy._id,
     capital: 100000, // Default 1 lakh
     maxPositionSize: 20000, // Default 20k per position
     maxPositionSizePercent: 20, // 20% of capital
@@ -69,6 +44,7 @@ export function StrategyDeploymentModal({
     trailingStopPercent: 1,
     maxConcurrentTrades: 3,
     tradingHours: {
+      exchange: 'NSE',
       start: '09:15',
       end: '15:30',
       timezone: 'Asia/Kolkata',
@@ -81,6 +57,10 @@ export function StrategyDeploymentModal({
     },
   });
 
+  const [symbol, setSymbol] = useState<string>(strategy.parameters?.symbol || '');
+  const [timeframe, setTimeframe] = useState<Timeframe>(
+    TIMEFRAMES.includes(strategy.parameters?.timeframe) ? strategy.parameters.timeframe : '5m'
+  );
   const [activeTab, setActiveTab] = useState<'sizing' | 'risk' | 'execution' | 'notifications'>('sizing');
   const [isDeploying, setIsDeploying] = useState(false);
 
@@ -99,10 +79,20 @@ export function StrategyDeploymentModal({
     setIsDeploying(true);
     
     try {
-      // Simulate deployment delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      onDeploy(config);
+      const { positionSizePercent, riskPercent, dailyLossPercent, drawdownPercent } = calculateRiskMetrics();
+
+      await onDeploy({
+        strategyId: strategy._id,
+        symbol: symbol.trim().toUpperCase(),
+        timeframe,
+        config: {
+          ...config,
+          maxPositionSizePercent: positionSizePercent,
+          riskPerTradePercent: riskPercent,
+          maxDailyLossPercent: dailyLossPercent,
+          maxDrawdownPercent: drawdownPercent,
+        },
+      });
       
       addToast({
         type: 'success',
@@ -115,7 +105,7 @@ export function StrategyDeploymentModal({
       addToast({
         type: 'error',
         title: 'Deployment Failed',
-        description: 'Failed to deploy strategy. Please try again.',
+        description: error instanceof Error ? error.message : 'Failed to deploy strategy. Please try again.',
       });
     } finally {
       setIsDeploying(false);
@@ -127,6 +117,10 @@ export function StrategyDeploymentModal({
       return { isValid: false, message: 'Capital must be greater than 0' };
     }
     
+    if (!symbol.trim()) {
+      return { isValid: false, message: 'Choose the symbol the strategy trades' };
+    }
+    
     if (config.maxPositionSize > config.capital) {
       return { isValid: false, message: 'Max position size cannot exceed capital' };
     }
@@ -415,6 +409,42 @@ export function StrategyDeploymentModal({
 
           {activeTab === 'execution' && (
             <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <Label htmlFor="symbol">Symbol</Label>
+                  <Input
+                    id="symbol"
+                    value={symbol}
+                    onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                    placeholder="RELIANCE"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="timeframe">Timeframe</Label>
+                  <Select
+                    value={timeframe}
+                    onChange={(e) => setTimeframe(e.target.value as Timeframe)}
+                    options={TIMEFRAMES.map(value => ({ value, label: value }))}
+                  />
+                  <p className="text-xs text-neutral-600 dark:text-neutral-400 mt-1">
+                    The strategy is evaluated on every closed bar
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="exchange">Exchange</Label>
+                <Select
+                  value={config.tradingHours.exchange}
+                  onChange={(e) => updateNestedConfig('tradingHours', 'exchange', e.target.value)}
+                  options={EXCHANGES.map(exchange => ({ value: exchange, label: exchange }))}
+                />
+                <p className="text-xs text-neutral-600 dark:text-neutral-400 mt-1">
+                  Signals are only generated during continuous trading on this exchange, never on holidays
+                </p>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <Label htmlFor="tradingStart">Trading Start Time</Label>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Code, 
@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui';
 import { cn } from '@/lib/utils';
+import { strategiesApi, StrategyDiagnostic } from '@/lib/api/strategies';
 import dynamic from 'next/dynamic';
 
 // Dynamically import Monaco Editor to avoid SSR issues
@@ -30,8 +31,15 @@ const MonacoEditor = dynamic(() => import('@monaco-editor/react'), {
   ),
 });
 
+// Delay before sending edited code to the sandbox for validation
+const VALIDATION_DEBOUNCE_MS = 600;
+
+const formatDiagnostic = (diagnostic: StrategyDiagnostic) =>
+  diagnostic.line ? `Line ${diagnostic.line}: ${diagnostic.message}` : diagnostic.message;
+
 interface CodeEditorProps {
   code: string;
+  parameters?: Record<string, any>;
   onChange: (code: string) => void;
   onValidationChange?: (isValid: boolean, errors: string[]) => void;
   className?: string;
@@ -40,26 +48,86 @@ interface CodeEditorProps {
 
 export function CodeEditor({
   code,
+  parameters,
   onChange,
   onValidationChange,
   className,
   readOnly = false,
 }: CodeEditorProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [errors, setErrors] = useState<string[]>([]);
-  const [isValid, setIsValid] = useState(true);
+  const [diagnostics, setDiagnostics] = useState<StrategyDiagnostic[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [currentCode, setCurrentCode] = useState(code);
+  const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
+  const validationRequestRef = useRef(0);
+  const parametersRef = useRef(parameters);
+  parametersRef.current = parameters;
 
   // Track changes
   useEffect(() => {
     setHasUnsavedChanges(currentCode !== code);
   }, [currentCode, code]);
 
+  const validateCode = useCallback(async (codeToValidate: string) => {
+    const requestId = ++validationRequestRef.current;
+    setIsValidating(true);
+
+    let newDiagnostics: StrategyDiagnostic[];
+    try {
+      const result = await strategiesApi.validateCode(codeToValidate, parametersRef.current || {});
+      newDiagnostics = result.diagnostics;
+    } catch (error) {
+      // Sandbox unreachable: fall back to a local syntax check
+      newDiagnostics = [];
+      try {
+        new Function(codeToValidate);
+      } catch (syntaxError) {
+        if (syntaxError instanceof Error) {
+          newDiagnostics.push({ severity: 'error', phase: 'compile', message: `Syntax error: ${syntaxError.message}` });
+        }
+      }
+    }
+
+    // Ignore results from edits that have since been superseded
+    if (requestId !== validationRequestRef.current) return;
+
+    const newErrors = newDiagnostics.map(formatDiagnostic);
+    setDiagnostics(newDiagnostics);
+    setIsValidating(false);
+    onValidationChange?.(newErrors.length === 0, newErrors);
+  }, []); // Removed onValidationChange from dependencies
+
   // Separate effect for validation to avoid infinite loops
   useEffect(() => {
-    validateCode(currentCode);
-  }, [currentCode]);
+    if (readOnly) return;
+
+    const timer = setTimeout(() => validateCode(currentCode), VALIDATION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [currentCode, readOnly, validateCode]);
+
+  // Show diagnostics inline in the editor
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editor?.getModel();
+    if (!monaco || !model) return;
+
+    monaco.editor.setModelMarkers(model, 'strategy-runtime', diagnostics.map((diagnostic) => {
+      const line = Math.min(diagnostic.line || 1, model.getLineCount());
+      return {
+        startLineNumber: line,
+        startColumn: diagnostic.column || 1,
+        endLineNumber: line,
+        endColumn: model.getLineMaxColumn(line),
+        message: diagnostic.message,
+        severity: diagnostic.severity === 'warning'
+          ? monaco.MarkerSeverity.Warning
+          : monaco.MarkerSeverity.Error,
+      };
+    }));
+  }, [diagnostics]);
 
   const handleEditorChange = (value: string | undefined) => {
     const newCode = value || '';
@@ -68,6 +136,9 @@ export function CodeEditor({
   };
 
   const handleEditorDidMount = (editor: any, monaco: any) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+
     // Configure Monaco for JavaScript
     monaco.languages.typescript.javascriptDefaults.setCompilerOptions({
       target: monaco.languages.typescript.ScriptTarget.ES2020,
@@ -85,46 +156,56 @@ export function CodeEditor({
     // Add trading API type definitions
     const tradingApiTypes = `
       declare global {
-        interface TradingParams {
-          [key: string]: any;
+        interface Bar {
+          date: Date;
+          open: number;
+          high: number;
+          low: number;
+          close: number;
+          volume: number;
         }
-        
-        interface Position {
-          isLong: boolean;
-          isShort: boolean;
+
+        interface StrategyPosition {
           quantity: number;
           avgPrice: number;
-          unrealizedPnL: number;
+          side: 'LONG' | 'FLAT';
         }
-        
-        interface MarketData {
-          symbol: string;
-          price: number;
-          prices: number[];
-          volume: number;
-          timestamp: Date;
+
+        type BarField = 'open' | 'high' | 'low' | 'close' | 'volume';
+
+        interface Indicators {
+          sma(period: number, source?: BarField): number | null;
+          ema(period: number, source?: BarField): number | null;
+          wma(period: number, source?: BarField): number | null;
+          rsi(period?: number, source?: BarField): number | null;
+          macd(fast?: number, slow?: number, signal?: number): { macd: number; signal: number; histogram: number } | null;
+          bollinger(period?: number, multiplier?: number): { upper: number; middle: number; lower: number } | null;
+          atr(period?: number): number | null;
+          stochastic(kPeriod?: number, dPeriod?: number): { k: number; d: number | null } | null;
+          vwap(resetDaily?: boolean): number | null;
+          obv(): number | null;
+          adx(period?: number): { adx: number; plusDI: number; minusDI: number } | null;
+          superTrend(period?: number, multiplier?: number): { value: number; direction: 1 | -1 } | null;
+          highest(period: number, source?: BarField): number | null;
+          lowest(period: number, source?: BarField): number | null;
         }
-        
-        interface OrderOptions {
-          stopLoss?: number;
-          takeProfit?: number;
-          orderType?: 'MARKET' | 'LIMIT';
-          timeInForce?: 'GTC' | 'IOC' | 'FOK';
+
+        interface StrategyContext {
+          readonly symbol: string;
+          readonly params: { [key: string]: any };
+          readonly barIndex: number;
+          readonly position: StrategyPosition;
+          readonly cash: number;
+          readonly equity: number;
+          readonly indicators: Indicators;
+          history(count?: number): Bar[];
+          buy(quantity?: number, reason?: string): void;
+          sell(quantity?: number, reason?: string): void;
+          close(reason?: string): void;
+          log(...values: any[]): void;
         }
-        
-        const params: TradingParams;
-        const position: Position;
-        
-        function buy(quantity: number, options?: OrderOptions): void;
-        function sell(quantity: number, options?: OrderOptions): void;
-        function calculateMA(prices: number[], period: number): number;
-        function calculateRSI(prices: number[], period: number): number;
-        function calculateBollingerBands(prices: number[], period: number, stdDev: number): { upper: number; middle: number; lower: number };
-        function log(message: string): void;
-        
-        function onTick(data: MarketData): void;
-        function onOrderFilled(order: any): void;
-        function onPositionChanged(position: Position): void;
+
+        function onBar(bar: Bar, ctx: StrategyContext): void;
       }
     `;
 
@@ -134,35 +215,6 @@ export function CodeEditor({
     );
   };
 
-  const validateCode = useCallback((codeToValidate: string) => {
-    const newErrors: string[] = [];
-    
-    // Basic syntax validation
-    try {
-      // Check for required onTick function
-      if (!codeToValidate.includes('function onTick')) {
-        newErrors.push('Strategy must include an onTick function');
-      }
-      
-      // Check for basic JavaScript syntax errors
-      new Function(codeToValidate);
-    } catch (error) {
-      if (error instanceof Error) {
-        newErrors.push(`Syntax error: ${error.message}`);
-      }
-    }
-    
-    // Check for common issues
-    if (codeToValidate.includes('console.log')) {
-      newErrors.push('Use log() instead of console.log() for strategy logging');
-    }
-    
-    const newIsValid = newErrors.length === 0;
-    setErrors(newErrors);
-    setIsValid(newIsValid);
-    onValidationChange?.(newIsValid, newErrors);
-  }, []); // Removed onValidationChange from dependencies
-
   const handleSave = () => {
     // In a real implementation, this would save to backend
     setHasUnsavedChanges(false);
@@ -176,8 +228,7 @@ export function CodeEditor({
   };
 
   const handleTest = () => {
-    // In a real implementation, this would run a quick test
-    console.log('Testing strategy code...');
+    validateCode(currentCode);
   };
 
   const toggleFullscreen = () => {
@@ -186,44 +237,26 @@ export function CodeEditor({
 
   const getDefaultCode = () => {
     return `// Trading Strategy Template
-function onTick(data) {
-  // Access current market data
-  const currentPrice = data.price;
-  const prices = data.prices; // Historical prices array
-  
-  // Access strategy parameters
-  const quantity = params.quantity || 100;
-  
-  // Example: Simple moving average crossover
-  if (prices.length >= 20) {
-    const fastMA = calculateMA(prices, 10);
-    const slowMA = calculateMA(prices, 20);
-    
-    // Buy signal: fast MA crosses above slow MA
-    if (fastMA > slowMA && !position.isLong) {
-      buy(quantity, {
-        stopLoss: params.stopLoss,
-        takeProfit: params.takeProfit
-      });
-      log('Buy signal triggered at ' + currentPrice);
-    }
-    
-    // Sell signal: fast MA crosses below slow MA
-    if (fastMA < slowMA && position.isLong) {
-      sell(position.quantity);
-      log('Sell signal triggered at ' + currentPrice);
-    }
-  }
-}
+// onBar runs once per completed bar. Orders fill at the next bar's open.
+function onBar(bar, ctx) {
+  const fastPeriod = ctx.params.fastPeriod || 10;
+  const slowPeriod = ctx.params.slowPeriod || 20;
 
-// Optional: Handle order fills
-function onOrderFilled(order) {
-  log('Order filled: ' + order.side + ' ' + order.quantity + ' at ' + order.price);
-}
+  const fastMA = ctx.indicators.sma(fastPeriod);
+  const slowMA = ctx.indicators.sma(slowPeriod);
+  if (fastMA === null || slowMA === null) return;
 
-// Optional: Handle position changes
-function onPositionChanged(position) {
-  log('Position changed: ' + position.quantity + ' shares, P&L: ' + position.unrealizedPnL);
+  // Buy signal: fast MA above slow MA while flat
+  if (fastMA > slowMA && ctx.position.quantity === 0) {
+    ctx.buy(undefined, 'Fast MA above slow MA');
+    ctx.log('Buy signal at ' + bar.close);
+  }
+
+  // Exit signal: fast MA below slow MA while long
+  if (fastMA < slowMA && ctx.position.quantity > 0) {
+    ctx.close('Fast MA below slow MA');
+    ctx.log('Exit signal at ' + bar.close);
+  }
 }`;
   };
 
@@ -296,7 +329,7 @@ function onPositionChanged(position) {
       </div>
 
       {/* Validation Status */}
-      {errors.length > 0 ? (
+      {readOnly ? null : diagnostics.length > 0 ? (
         <div className="bg-danger-50 dark:bg-danger-900/20 border border-danger-200 dark:border-danger-800 rounded-lg p-4">
           <div className="flex items-center space-x-2 mb-2">
             <AlertCircle className="h-5 w-5 text-danger-600" />
@@ -305,10 +338,10 @@ function onPositionChanged(position) {
             </h4>
           </div>
           <ul className="text-sm text-danger-700 dark:text-danger-300 space-y-1">
-            {errors.map((error, index) => (
+            {diagnostics.map((diagnostic, index) => (
               <li key={index} className="flex items-center space-x-2">
                 <span className="w-1 h-1 bg-danger-500 rounded-full"></span>
-                <span>{error}</span>
+                <span>{formatDiagnostic(diagnostic)}</span>
               </li>
             ))}
           </ul>
@@ -318,7 +351,7 @@ function onPositionChanged(position) {
           <div className="flex items-center space-x-2">
             <CheckCircle className="h-4 w-4 text-success-600" />
             <span className="text-sm text-success-700 dark:text-success-300">
-              Code is valid and ready to use
+              {isValidating ? 'Checking code in the sandbox...' : 'Code is valid and ready to use'}
             </span>
           </div>
         </div>
@@ -364,11 +397,11 @@ function onPositionChanged(position) {
           <div className="text-sm text-neutral-600 dark:text-neutral-400">
             <p className="font-medium mb-1">Available Functions:</p>
             <ul className="space-y-1 text-xs">
-              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">buy(quantity, options)</code> - Place a buy order</li>
-              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">sell(quantity)</code> - Place a sell order</li>
-              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">calculateMA(prices, period)</code> - Calculate moving average</li>
-              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">calculateRSI(prices, period)</code> - Calculate RSI</li>
-              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">log(message)</code> - Log messages for debugging</li>
+              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">onBar(bar, ctx)</code> - Called once per completed bar</li>
+              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">ctx.buy(quantity, reason)</code> - Buy at the next open (omit quantity to size by equity)</li>
+              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">ctx.sell(quantity, reason)</code> / <code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">ctx.close(reason)</code> - Reduce or exit the position</li>
+              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">ctx.indicators.sma(period)</code> - Indicators over the bars seen so far</li>
+              <li><code className="bg-neutral-200 dark:bg-neutral-700 px-1 rounded">ctx.log(message)</code> - Log messages for debugging</li>
             </ul>
           </div>
         </div>
@@ -13,6 +13,8 @@ interface CreateStrategyModalProps {
   isOpen: boolean;
   onClose: () => void;
   onCreateFromTemplate: (template: StrategyTemplate, name: string) => void;
+  onForkTemplate?: (template: StrategyTemplate, name: string) => void;
+  onHideTemplate?: (template: StrategyTemplate) => void;
   onCreateFromScratch: (type: 'CODE' | 'VISUAL', name: string, description: string) => void;
   templates: StrategyTemplate[];
 }
@@ -24,11 +26,15 @@ export function CreateStrategyModal({
   isOpen,
   onClose,
   onCreateFromTemplate,
+  onForkTemplate,
+  onHideTemplate,
   onCreateFromScratch,
   templates,
 }: CreateStrategyModalProps) {
   const [mode, setMode] = useState<CreationMode>('select');
   const [selectedTemplate, setSelectedTemplate] = useState<StrategyTemplate | null>(null);
+  // A fork copies the template's logic into an editable strategy
+  const [isFork, setIsFork] = useState(false);
   const [strategyType, setStrategyType] = useState<StrategyType>('CODE');
   const [showTemplatePreview, setShowTemplatePreview] = useState(false);
   const [previewTemplate, setPreviewTemplate] = useState<StrategyTemplate | null>(null);
@@ -40,6 +46,7 @@ export function CreateStrategyModal({
   const handleClose = () => {
     setMode('select');
     setSelectedTemplate(null);
+    setIsFork(false);
     setShowTemplatePreview(false);
     setPreviewTemplate(null);
     setFormData({ name: '', description: '' });
@@ -51,18 +58,25 @@ export function CreateStrategyModal({
     setShowTemplatePreview(true);
   };
 
-  const handleCloneTemplate = (template: StrategyTemplate) => {
+  const handleForkTemplate = (template: StrategyTemplate) => {
     setSelectedTemplate(template);
+    setIsFork(!!onForkTemplate);
     setFormData({
-      name: `${template.name} (Copy)`,
+      name: `${template.name} (Fork)`,
       description: template.description,
     });
     setMode('template');
     setShowTemplatePreview(false);
   };
 
+  const handleSelectTemplate = (template: StrategyTemplate) => {
+    setSelectedTemplate(template);
+    setIsFork(false);
+  };
+
   const handleUseTemplateFromPreview = (template: StrategyTemplate) => {
     setSelectedTemplate(template);
+    setIsFork(false);
     setFormData({
       name: template.name,
       description: template.description,
@@ -71,9 +85,21 @@ export function CreateStrategyModal({
     setShowTemplatePreview(false);
   };
 
+  const handleHideTemplate = (template: StrategyTemplate) => {
+    onHideTemplate?.(template);
+    setShowTemplatePreview(false);
+    if (selectedTemplate?.id === template.id) {
+      setSelectedTemplate(null);
+    }
+  };
+
   const handleCreateFromTemplate = () => {
     if (selectedTemplate && formData.name.trim()) {
-      onCreateFromTemplate(selectedTemplate, formData.name.trim());
+      if (isFork && onForkTemplate) {
+        onForkTemplate(selectedTemplate, formData.name.trim());
+      } else {
+        onCreateFromTemplate(selectedTemplate, formData.name.trim());
+      }
       handleClose();
     }
   };
@@ -179,11 +205,16 @@ export function CreateStrategyModal({
         <div className="space-y-4">
           <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4 border border-neutral-200 dark:border-neutral-700">
             <h3 className="font-semibold text-neutral-900 dark:text-white mb-2">
-              Selected Template: {selectedTemplate.name}
+              {isFork ? 'Forking' : 'Selected'} Template: {selectedTemplate.name}
             </h3>
             <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
               {selectedTemplate.description}
             </p>
+            {isFork && (
+              <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-3">
+                The fork gets its own copy of the template&apos;s logic to edit freely and remembers which template it came from.
+              </p>
+            )}
             <div className="flex items-center space-x-2">
               <Button
                 variant="outline"
@@ -230,15 +261,15 @@ export function CreateStrategyModal({
               onClick={handleCreateFromTemplate}
               disabled={!formData.name.trim()}
             >
-              Create Strategy
+              {isFork ? 'Fork Strategy' : 'Create Strategy'}
             </Button>
           </div>
         </div>
       ) : (
         <TemplateSelector
           templates={templates}
-          onSelectTemplate={setSelectedTemplate}
-          onCloneTemplate={handleCloneTemplate}
+          onSelectTemplate={handleSelectTemplate}
+          onForkTemplate={handleForkTemplate}
           onPreviewTemplate={handlePreviewTemplate}
         />
       )}
@@ -363,7 +394,8 @@ export function CreateStrategyModal({
         isOpen={showTemplatePreview}
         onClose={() => setShowTemplatePreview(false)}
         onUseTemplate={handleUseTemplateFromPreview}
-        onCloneTemplate={handleCloneTemplate}
+        onForkTemplate={handleForkTemplate}
+        onHideTemplate={onHideTemplate && handleHideTemplate}
       />
     </Modal>
   );
@@ -2,11 +2,17 @@ export { StrategyCard } from './strategy-card';
 export { CreateStrategyModal } from './create-strategy-modal';
 export { StrategyBuilder } from './strategy-builder';
 export { ParameterBuilder } from './parameter-builder';
+export { RuleBuilder } from './rule-builder';
 export { CodeEditor } from './code-editor';
 export { StrategyPreview } from './strategy-preview';
 export { StrategyVersionManager } from './strategy-version-manager';
+export { StrategyVersionDiff } from './strategy-version-diff';
 export { StrategyTemplates } from './strategy-templates';
 export { ParameterPresets } from './parameter-presets';
 export { StrategyImportExport } from './strategy-import-export';
 export { TemplatePreview } from './template-preview';
-export { TemplateSelector } from './template-selector';
\ No newline at end of file
+export { TemplateSelector } from './template-selector';
+export { ParameterSchemaEditor } from './parameter-schema-editor';
+export { PublishTemplateModal } from './publish-template-modal';
+export { SignalDetails, SignalDetailsModal } from './signal-details';
+export { SignalJournal } from './signal-journal';
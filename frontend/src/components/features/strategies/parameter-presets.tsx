@@ -17,18 +17,9 @@ import {
 import { Button, Input, Modal } from '@/components/ui';
 import { ParameterSchema } from '@/types/trading';
 import { useToast } from '@/components/ui/toast';
+import { ParameterPreset, parameterPresetStorage } from '@/lib/parameter-presets';
 import { cn } from '@/lib/utils';
 
-interface ParameterPreset {
-  id: string;
-  name: string;
-  description: string;
-  parameters: Record<string, any>;
-  isDefault: boolean;
-  createdAt: Date;
-  tags: string[];
-}
-
 interface ParameterPresetsProps {
   schema: ParameterSchema[];
   currentParameters: Record<string, any>;
@@ -58,23 +49,12 @@ export function ParameterPresets({
 
   // Load presets from localStorage on mount
   useEffect(() => {
-    const savedPresets = localStorage.getItem('strategy-parameter-presets');
-    if (savedPresets) {
-      try {
-        const parsed = JSON.parse(savedPresets);
-        setPresets(parsed.map((p: any) => ({
-          ...p,
-          createdAt: new Date(p.createdAt),
-        })));
-      } catch (error) {
-        console.error('Failed to load parameter presets:', error);
-      }
-    }
+    setPresets(parameterPresetStorage.getPresets());
   }, []);
 
   // Save presets to localStorage whenever they change
   useEffect(() => {
-    localStorage.setItem('strategy-parameter-presets', JSON.stringify(presets));
+    parameterPresetStorage.savePresets(presets);
   }, [presets]);
 
   const validateParameters = (parameters: Record<string, any>): { isValid: boolean; errors: string[] } => {
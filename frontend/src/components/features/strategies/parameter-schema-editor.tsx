@@ -0,0 +1,265 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Button, Input, Select } from '@/components/ui';
+import { ParameterSchema } from '@/types/trading';
+import { cn } from '@/lib/utils';
+
+interface ParameterSchemaEditorProps {
+  schema: ParameterSchema[];
+  onChange: (schema: ParameterSchema[]) => void;
+  className?: string;
+}
+
+type ParameterType = ParameterSchema['type'];
+
+const TYPE_OPTIONS: { value: ParameterType; label: string }[] = [
+  { value: 'number', label: 'Number' },
+  { value: 'range', label: 'Range' },
+  { value: 'string', label: 'Text' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'select', label: 'Choice' },
+];
+
+const isNumeric = (type: ParameterType) => type === 'number' || type === 'range';
+
+const toLabel = (key: string) => key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1');
+
+/**
+ * Starting schema for a strategy's parameters, typed after their values
+ */
+export const inferParameterSchema = (parameters: Record<string, any>): ParameterSchema[] =>
+  Object.entries(parameters).map(([key, value]) => {
+    const base = { key, label: toLabel(key), required: true };
+    if (typeof value === 'number') {
+      return { ...base, type: 'number', defaultValue: value, step: Number.isInteger(value) ? 1 : 0.1 };
+    }
+    if (typeof value === 'boolean') {
+      return { ...base, type: 'boolean', defaultValue: value };
+    }
+    return { ...base, type: 'string', defaultValue: value === null || value === undefined ? '' : String(value) };
+  });
+
+/**
+ * Problems that keep a schema from being published, mirroring the backend
+ * check in utils/parameterSchema.js
+ */
+export const validateParameterSchema = (schema: ParameterSchema[]): string[] => {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  schema.forEach((param, index) => {
+    const name = param.key || `Parameter ${index + 1}`;
+    if (!param.key) {
+      errors.push(`${name} needs a key`);
+    } else if (keys.has(param.key)) {
+      errors.push(`Key ${param.key} is used twice`);
+    }
+    keys.add(param.key);
+
+    if (!param.label) errors.push(`${name} needs a label`);
+    if (isNumeric(param.type) && param.min !== undefined && param.max !== undefined && param.min > param.max) {
+      errors.push(`${name}: minimum exceeds maximum`);
+    }
+    if (param.type === 'select') {
+      if (!param.options || param.options.length === 0) {
+        errors.push(`${name} needs at least one choice`);
+      } else if (!param.options.some(option => option.value === param.defaultValue)) {
+        errors.push(`${name}: the default must be one of the choices`);
+      }
+    }
+  });
+
+  return errors;
+};
+
+const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Choices are edited as one comma-separated list of values
+const parseOptions = (value: string) =>
+  value.split(',').map(item => item.trim()).filter(Boolean).map(item => ({ label: item, value: item }));
+
+function DefaultValueInput({ param, onChange }: { param: ParameterSchema; onChange: (value: any) => void }) {
+  if (param.type === 'boolean') {
+    return (
+      <Select
+        size="sm"
+        label="Default"
+        value={String(Boolean(param.defaultValue))}
+        onChange={(e) => onChange(e.target.value === 'true')}
+        options={[{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]}
+      />
+    );
+  }
+
+  if (param.type === 'select') {
+    return (
+      <Select
+        size="sm"
+        label="Default"
+        value={param.defaultValue === undefined ? '' : String(param.defaultValue)}
+        onChange={(e) => onChange(e.target.value)}
+        options={(param.options || []).map(option => ({ value: String(option.value), label: option.label }))}
+        placeholder="Choose..."
+      />
+    );
+  }
+
+  return (
+    <Input
+      size="sm"
+      label="Default"
+      type={isNumeric(param.type) ? 'number' : 'text'}
+      value={param.defaultValue === undefined ? '' : String(param.defaultValue)}
+      onChange={(e) => onChange(isNumeric(param.type) ? parseNumber(e.target.value) : e.target.value)}
+    />
+  );
+}
+
+export function ParameterSchemaEditor({ schema, onChange, className }: ParameterSchemaEditorProps) {
+  const updateParam = (index: number, changes: Partial<ParameterSchema>) => {
+    onChange(schema.map((param, i) => (i === index ? { ...param, ...changes } : param)));
+  };
+
+  const changeType = (index: number, type: ParameterType) => {
+    const param = schema[index];
+    const defaultValue = type === 'boolean'
+      ? Boolean(param.defaultValue)
+      : isNumeric(type)
+        ? (Number.isFinite(Number(param.defaultValue)) ? Number(param.defaultValue) : 0)
+        : String(param.defaultValue ?? '');
+
+    updateParam(index, {
+      type,
+      defaultValue,
+      ...(!isNumeric(type) && { min: undefined, max: undefined, step: undefined }),
+      ...(type !== 'select' && { options: undefined }),
+      ...(type === 'select' && { options: defaultValue ? [{ label: String(defaultValue), value: defaultValue }] : [] }),
+    });
+  };
+
+  const addParam = () => {
+    onChange([...schema, { key: '', label: '', type: 'number', defaultValue: 0, required: false }]);
+  };
+
+  const removeParam = (index: number) => {
+    onChange(schema.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {schema.length === 0 && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          This template has no parameters.
+        </p>
+      )}
+
+      {schema.map((param, index) => (
+        <div
+          key={index}
+          className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-3 space-y-3"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <Input
+              size="sm"
+              label="Key"
+              value={param.key}
+              onChange={(e) => updateParam(index, { key: e.target.value.trim() })}
+              className="font-mono"
+            />
+            <Input
+              size="sm"
+              label="Label"
+              value={param.label}
+              onChange={(e) => updateParam(index, { label: e.target.value })}
+            />
+            <Select
+              size="sm"
+              label="Type"
+              value={param.type}
+              onChange={(e) => changeType(index, e.target.value as ParameterType)}
+              options={TYPE_OPTIONS}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <DefaultValueInput param={param} onChange={(defaultValue) => updateParam(index, { defaultValue })} />
+            {isNumeric(param.type) && (
+              <>
+                <Input
+                  size="sm"
+                  label="Min"
+                  type="number"
+                  value={param.min ?? ''}
+                  onChange={(e) => updateParam(index, { min: parseNumber(e.target.value) })}
+                />
+                <Input
+                  size="sm"
+                  label="Max"
+                  type="number"
+                  value={param.max ?? ''}
+                  onChange={(e) => updateParam(index, { max: parseNumber(e.target.value) })}
+                />
+                <Input
+                  size="sm"
+                  label="Step"
+                  type="number"
+                  value={param.step ?? ''}
+                  onChange={(e) => updateParam(index, { step: parseNumber(e.target.value) })}
+                />
+              </>
+            )}
+            {param.type === 'select' && (
+              <div className="md:col-span-3">
+                <Input
+                  size="sm"
+                  label="Choices (comma separated)"
+                  value={(param.options || []).map(option => String(option.value)).join(', ')}
+                  onChange={(e) => updateParam(index, { options: parseOptions(e.target.value) })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <Input
+                size="sm"
+                label="Description"
+                value={param.description || ''}
+                onChange={(e) => updateParam(index, { description: e.target.value })}
+              />
+            </div>
+            <label className="flex items-center space-x-2 h-8 text-sm text-neutral-700 dark:text-neutral-300">
+              <input
+                type="checkbox"
+                checked={param.required}
+                onChange={(e) => updateParam(index, { required: e.target.checked })}
+                className="w-4 h-4 text-primary-600 bg-white border-neutral-300 rounded focus:ring-primary-500 focus:ring-2"
+              />
+              <span>Required</span>
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => removeParam(index)}
+              title="Remove parameter"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addParam}
+        className="flex items-center space-x-2"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add Parameter</span>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Globe, Lock, Store } from 'lucide-react';
+import { Button, Input, Modal, Select, useToast } from '@/components/ui';
+import { strategiesApi, StrategyTemplate as ApiTemplate } from '@/lib/api/strategies';
+import { ParameterSchema, Strategy } from '@/types/trading';
+import { ParameterSchemaEditor, inferParameterSchema, validateParameterSchema } from './parameter-schema-editor';
+
+interface PublishTemplateModalProps {
+  strategy: Strategy;
+  isOpen: boolean;
+  onClose: () => void;
+  onPublished?: (template: ApiTemplate) => void;
+}
+
+const CATEGORIES = ['Trend Following', 'Mean Reversion', 'Momentum', 'Volatility', 'Custom'];
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
+
+// Render it only while open, so the form starts from the strategy each time
+export function PublishTemplateModal({ strategy, isOpen, onClose, onPublished }: PublishTemplateModalProps) {
+  const { addToast } = useToast();
+  const [existing, setExisting] = useState<ApiTemplate | null>(null);
+  const [name, setName] = useState(strategy.name);
+  const [description, setDescription] = useState(strategy.description);
+  const [category, setCategory] = useState('Custom');
+  const [tags, setTags] = useState(strategy.tags.join(', '));
+  const [documentation, setDocumentation] = useState('');
+  const [isPublic, setIsPublic] = useState(true);
+  const [schema, setSchema] = useState<ParameterSchema[]>(() => inferParameterSchema(strategy.parameters));
+  const [publishing, setPublishing] = useState(false);
+
+  // Republishing starts from the listing of the strategy's existing template
+  useEffect(() => {
+    strategiesApi.getMyTemplates()
+      .then(templates => {
+        const template = templates.find(item => item.sourceStrategyId === strategy.id);
+        if (!template) return;
+
+        setExisting(template);
+        setName(template.name);
+        setDescription(template.description);
+        setCategory(template.category);
+        setTags(template.tags.join(', '));
+        setDocumentation(template.documentation || '');
+        setIsPublic(template.isPublic);
+        setSchema(template.parameterSchema);
+      })
+      .catch(err => console.error('Failed to load published templates:', err));
+  }, [strategy.id]);
+
+  const schemaErrors = useMemo(() => validateParameterSchema(schema), [schema]);
+  const canPublish = name.trim() && description.trim() && schemaErrors.length === 0;
+
+  const categoryOptions = useMemo(() => {
+    const categories = CATEGORIES.includes(category) ? CATEGORIES : [...CATEGORIES, category];
+    return categories.map(value => ({ value, label: value }));
+  }, [category]);
+
+  const handlePublish = async () => {
+    if (!canPublish) return;
+
+    try {
+      setPublishing(true);
+      const template = await strategiesApi.publishStrategy(strategy.id, {
+        name: name.trim(),
+        description: description.trim(),
+        category,
+        tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        parameterSchema: schema,
+        isPublic,
+        documentation,
+      });
+
+      addToast({
+        type: 'success',
+        title: existing ? 'Template Updated' : 'Template Published',
+        description: template.isPublic
+          ? `${template.name} v${template.version} is listed in the marketplace`
+          : `${template.name} v${template.version} is saved as a private template`,
+      });
+      onPublished?.(template);
+      onClose();
+    } catch (err) {
+      addToast({
+        type: 'error',
+        title: 'Publish Failed',
+        description: errorMessage(err, 'Failed to publish template'),
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={existing ? 'Update Published Template' : 'Publish as Template'}
+      size="xl"
+    >
+      <div className="space-y-6">
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          {existing
+            ? `The template will be updated to v${strategy.version || '1.0.0'} of this strategy. Its ratings and forks are kept.`
+            : `Others can use or fork v${strategy.version || '1.0.0'} of this strategy. Later changes are only shared when you publish again.`}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input label="Template Name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Select
+            label="Category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            options={categoryOptions}
+          />
+          <div className="md:col-span-2">
+            <Input label="Description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <Input label="Tags (comma separated)" value={tags} onChange={(e) => setTags(e.target.value)} />
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+              Visibility
+            </label>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant={isPublic ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setIsPublic(true)}
+                className="flex items-center space-x-1"
+              >
+                <Globe className="h-4 w-4" />
+                <span>Public</span>
+              </Button>
+              <Button
+                variant={!isPublic ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setIsPublic(false)}
+                className="flex items-center space-x-1"
+              >
+                <Lock className="h-4 w-4" />
+                <span>Private</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+            Documentation
+          </label>
+          <textarea
+            value={documentation}
+            onChange={(e) => setDocumentation(e.target.value)}
+            placeholder="How the strategy works and how to tune it..."
+            className="w-full h-24 px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white placeholder-neutral-500 dark:placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+          />
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-900 dark:text-white mb-3">
+            Parameter Schema
+          </h3>
+          <div className="max-h-80 overflow-y-auto pr-1">
+            <ParameterSchemaEditor schema={schema} onChange={setSchema} />
+          </div>
+          {schemaErrors.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm text-danger-600 dark:text-danger-400">
+              {schemaErrors.map((error, index) => (
+                <li key={index} className="flex items-center space-x-2">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  <span>{error}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handlePublish}
+            loading={publishing}
+            disabled={!canPublish}
+            className="flex items-center space-x-2"
+          >
+            <Store className="h-4 w-4" />
+            <span>{existing ? 'Update Template' : 'Publish'}</span>
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
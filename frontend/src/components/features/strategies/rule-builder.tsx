@@ -0,0 +1,472 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { Plus, Trash2, LogIn, LogOut } from 'lucide-react';
+import { Button, Input, Select } from '@/components/ui';
+import {
+  PriceField,
+  RuleAction,
+  RuleComparator,
+  RuleCondition,
+  RuleGroup,
+  RuleIndicator,
+  RuleOperand,
+  StrategyRule,
+  StrategyRules,
+} from '@/types/trading';
+import {
+  COMPARATOR_LABELS,
+  MAX_CONDITIONS,
+  MAX_DEPTH,
+  MAX_RULES,
+  PRICE_FIELDS,
+  RULE_INDICATORS,
+  RuleSide,
+  createCondition,
+  createGroup,
+  createIndicatorOperand,
+  createRule,
+  describeRule,
+  validateRules,
+} from '@/lib/strategy-rules';
+import { cn } from '@/lib/utils';
+
+interface RuleBuilderProps {
+  rules: StrategyRules;
+  onChange: (rules: StrategyRules) => void;
+  onValidationChange?: (isValid: boolean, errors: string[]) => void;
+  className?: string;
+}
+
+const indicatorOptions = Object.entries(RULE_INDICATORS).map(([value, definition]) => ({
+  value,
+  label: definition.label,
+}));
+
+const priceOptions = PRICE_FIELDS.map(field => ({ value: field, label: field.toUpperCase() }));
+
+const comparatorOptions = Object.entries(COMPARATOR_LABELS).map(([value, label]) => ({ value, label }));
+
+function OperandEditor({
+  operand,
+  onChange,
+}: {
+  operand: RuleOperand;
+  onChange: (operand: RuleOperand) => void;
+}) {
+  const changeType = (type: RuleOperand['type']) => {
+    if (type === 'INDICATOR') onChange(createIndicatorOperand('SMA'));
+    if (type === 'PRICE') onChange({ type: 'PRICE', field: 'close' });
+    if (type === 'NUMBER') onChange({ type: 'NUMBER', value: 0 });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="w-28">
+        <Select
+          size="sm"
+          value={operand.type}
+          onChange={(e) => changeType(e.target.value as RuleOperand['type'])}
+          options={[
+            { value: 'INDICATOR', label: 'Indicator' },
+            { value: 'PRICE', label: 'Price' },
+            { value: 'NUMBER', label: 'Number' },
+          ]}
+        />
+      </div>
+
+      {operand.type === 'INDICATOR' && (
+        <>
+          <div className="w-48">
+            <Select
+              size="sm"
+              value={operand.indicator}
+              onChange={(e) => onChange(createIndicatorOperand(e.target.value as RuleIndicator))}
+              options={indicatorOptions}
+            />
+          </div>
+          {RULE_INDICATORS[operand.indicator].params.map(param => (
+            <div key={param.key} className="w-20" title={param.label}>
+              <Input
+                size="sm"
+                type="number"
+                aria-label={param.label}
+                value={operand.params[param.key] ?? ''}
+                min={0}
+                step={param.integer ? 1 : 0.1}
+                onChange={(e) => onChange({
+                  ...operand,
+                  params: { ...operand.params, [param.key]: Number(e.target.value) },
+                })}
+              />
+            </div>
+          ))}
+          {RULE_INDICATORS[operand.indicator].source && (
+            <div className="w-24">
+              <Select
+                size="sm"
+                value={operand.source}
+                onChange={(e) => onChange({ ...operand, source: e.target.value as PriceField })}
+                options={priceOptions}
+              />
+            </div>
+          )}
+          {RULE_INDICATORS[operand.indicator].outputs && (
+            <div className="w-28">
+              <Select
+                size="sm"
+                value={operand.output}
+                onChange={(e) => onChange({ ...operand, output: e.target.value })}
+                options={RULE_INDICATORS[operand.indicator].outputs!.map(output => ({ value: output, label: output }))}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {operand.type === 'PRICE' && (
+        <div className="w-28">
+          <Select
+            size="sm"
+            value={operand.field}
+            onChange={(e) => onChange({ type: 'PRICE', field: e.target.value as PriceField })}
+            options={priceOptions}
+          />
+        </div>
+      )}
+
+      {operand.type === 'NUMBER' && (
+        <div className="w-28">
+          <Input
+            size="sm"
+            type="number"
+            aria-label="Value"
+            value={operand.value}
+            onChange={(e) => onChange({ type: 'NUMBER', value: Number(e.target.value) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ConditionEditor({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+      <OperandEditor operand={condition.left} onChange={(left) => onChange({ ...condition, left })} />
+      <div className="w-36">
+        <Select
+          size="sm"
+          value={condition.comparator}
+          onChange={(e) => onChange({ ...condition, comparator: e.target.value as RuleComparator })}
+          options={comparatorOptions}
+        />
+      </div>
+      <OperandEditor operand={condition.right} onChange={(right) => onChange({ ...condition, right })} />
+      {onRemove && (
+        <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove condition" className="ml-auto">
+          <Trash2 className="h-4 w-4 text-danger-500" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function GroupEditor({
+  group,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: RuleGroup;
+  depth: number;
+  onChange: (group: RuleGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateChild = (index: number, child: RuleCondition | RuleGroup) => {
+    onChange({ ...group, conditions: group.conditions.map((current, i) => (i === index ? child : current)) });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const isFull = group.conditions.length >= MAX_CONDITIONS;
+
+  return (
+    <div className={cn(
+      'space-y-2',
+      depth > 1 && 'p-3 border-l-4 border-primary-200 dark:border-primary-800 bg-neutral-50 dark:bg-neutral-800/50 rounded-r-lg'
+    )}>
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium text-neutral-600 dark:text-neutral-400">Match</span>
+        <div className="w-24">
+          <Select
+            size="sm"
+            value={group.logic}
+            onChange={(e) => onChange({ ...group, logic: e.target.value as RuleGroup['logic'] })}
+            options={[
+              { value: 'AND', label: 'ALL (AND)' },
+              { value: 'OR', label: 'ANY (OR)' },
+            ]}
+          />
+        </div>
+        <span className="text-xs text-neutral-600 dark:text-neutral-400">of these conditions</span>
+        {onRemove && (
+          <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove group" className="ml-auto">
+            <Trash2 className="h-4 w-4 text-danger-500" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) => (
+        child.type === 'GROUP' ? (
+          <GroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionEditor
+            key={index}
+            condition={child}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={group.conditions.length > 1 ? () => removeChild(index) : undefined}
+          />
+        )
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, createCondition()] })}
+          disabled={isFull}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Condition
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, createGroup()] })}
+          disabled={isFull || depth >= MAX_DEPTH}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ActionEditor({
+  side,
+  action,
+  onChange,
+}: {
+  side: RuleSide;
+  action: RuleAction;
+  onChange: (action: RuleAction) => void;
+}) {
+  if (side === 'entry') {
+    const size = action.type === 'BUY' ? action.size : undefined;
+
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-success-700 dark:text-success-300">BUY</span>
+        <div className="w-44">
+          <Select
+            size="sm"
+            value={size ? size.unit : 'DEFAULT'}
+            onChange={(e) => onChange(e.target.value === 'DEFAULT'
+              ? { type: 'BUY' }
+              : { type: 'BUY', size: { unit: e.target.value as 'PERCENT_OF_EQUITY' | 'SHARES', value: size?.value || 10 } })}
+            options={[
+              { value: 'PERCENT_OF_EQUITY', label: '% of equity' },
+              { value: 'SHARES', label: 'Shares' },
+              { value: 'DEFAULT', label: 'Default sizing' },
+            ]}
+          />
+        </div>
+        {size && (
+          <div className="w-24">
+            <Input
+              size="sm"
+              type="number"
+              aria-label="Size"
+              value={size.value}
+              min={0}
+              onChange={(e) => onChange({ type: 'BUY', size: { ...size, value: Number(e.target.value) } })}
+            />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const size = action.type === 'SELL' ? action.size : undefined;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="w-36">
+        <Select
+          size="sm"
+          value={action.type}
+          onChange={(e) => onChange(e.target.value === 'CLOSE'
+            ? { type: 'CLOSE' }
+            : { type: 'SELL', size: { unit: 'PERCENT_OF_POSITION', value: 50 } })}
+          options={[
+            { value: 'CLOSE', label: 'Close position' },
+            { value: 'SELL', label: 'Sell part' },
+          ]}
+        />
+      </div>
+      {size && (
+        <>
+          <div className="w-24">
+            <Input
+              size="sm"
+              type="number"
+              aria-label="Size"
+              value={size.value}
+              min={0}
+              onChange={(e) => onChange({ type: 'SELL', size: { ...size, value: Number(e.target.value) } })}
+            />
+          </div>
+          <div className="w-40">
+            <Select
+              size="sm"
+              value={size.unit}
+              onChange={(e) => onChange({
+                type: 'SELL',
+                size: { ...size, unit: e.target.value as 'PERCENT_OF_POSITION' | 'SHARES' },
+              })}
+              options={[
+                { value: 'PERCENT_OF_POSITION', label: '% of position' },
+                { value: 'SHARES', label: 'Shares' },
+              ]}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function RuleList({
+  side,
+  rules,
+  onChange,
+}: {
+  side: RuleSide;
+  rules: StrategyRule[];
+  onChange: (rules: StrategyRule[]) => void;
+}) {
+  const updateRule = (index: number, rule: StrategyRule) => {
+    onChange(rules.map((current, i) => (i === index ? rule : current)));
+  };
+
+  const Icon = side === 'entry' ? LogIn : LogOut;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Icon className="h-5 w-5 text-primary-500" />
+          <div>
+            <h3 className="text-lg font-semibold text-neutral-900 dark:text-white">
+              {side === 'entry' ? 'Entry Rules' : 'Exit Rules'}
+            </h3>
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              {side === 'entry'
+                ? 'Checked on every bar while flat; the first rule that matches buys'
+                : 'Checked on every bar while holding a position; the first rule that matches sells'}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rules, createRule(side)])}
+          disabled={rules.length >= MAX_RULES}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Rule
+        </Button>
+      </div>
+
+      {rules.length === 0 && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400 py-4 text-center border border-dashed border-neutral-300 dark:border-neutral-600 rounded-lg">
+          {side === 'entry' ? 'No entry rules yet' : 'No exit rules; positions are only closed by stops or by hand'}
+        </p>
+      )}
+
+      {rules.map((rule, index) => (
+        <div
+          key={index}
+          className="p-4 space-y-4 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg"
+        >
+          <div className="flex items-start gap-3">
+            <div className="flex-1">
+              <Input
+                size="sm"
+                placeholder={`Rule ${index + 1} name (optional)`}
+                value={rule.name || ''}
+                onChange={(e) => updateRule(index, { ...rule, name: e.target.value })}
+              />
+              <p className="mt-1 text-xs font-mono text-neutral-500 dark:text-neutral-400 truncate">
+                {describeRule({ ...rule, name: '' })}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              aria-label="Remove rule"
+            >
+              <Trash2 className="h-4 w-4 text-danger-500" />
+            </Button>
+          </div>
+
+          <GroupEditor group={rule.when} depth={1} onChange={(when) => updateRule(index, { ...rule, when })} />
+
+          <div className="flex items-center gap-3 pt-3 border-t border-neutral-200 dark:border-neutral-700">
+            <span className="text-sm font-medium text-neutral-700 dark:text-neutral-300">Then</span>
+            <ActionEditor side={side} action={rule.action} onChange={(action) => updateRule(index, { ...rule, action })} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function RuleBuilder({
+  rules,
+  onChange,
+  onValidationChange,
+  className,
+}: RuleBuilderProps) {
+  const errors = useMemo(() => validateRules(rules), [rules]);
+
+  useEffect(() => {
+    onValidationChange?.(errors.length === 0, errors);
+  }, [errors, onValidationChange]);
+
+  return (
+    <div className={cn('space-y-8', className)}>
+      <RuleList side="entry" rules={rules.entry} onChange={(entry) => onChange({ ...rules, entry })} />
+      <RuleList side="exit" rules={rules.exit} onChange={(exit) => onChange({ ...rules, exit })} />
+    </div>
+  );
+}
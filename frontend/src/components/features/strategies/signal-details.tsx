@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { Modal } from '@/components/ui';
+import { backtestingApi } from '@/lib/api/backtesting';
+import {
+  strategiesApi,
+  SignalIndicatorValue,
+  SignalStatus,
+  StrategySignal,
+  StrategySignalDetails,
+} from '@/lib/api/strategies';
+import { cn } from '@/lib/utils';
+
+interface SignalDetailsProps {
+  signal: StrategySignal | StrategySignalDetails;
+  className?: string;
+}
+
+// Either a journal entry by id or the entry behind a backtest trade
+interface SignalDetailsModalProps {
+  signalId?: string;
+  trade?: { backtestId: string; tradeId: string };
+  onClose: () => void;
+}
+
+export const SIGNAL_STATUS_LABELS: Record<SignalStatus, string> = {
+  PENDING: 'Pending',
+  SUBMITTED: 'Submitted',
+  FILLED: 'Filled',
+  PARTIALLY_FILLED: 'Partially Filled',
+  REJECTED: 'Rejected',
+  SKIPPED: 'Skipped',
+  EXPIRED: 'Expired',
+};
+
+export const signalStatusColor = (status: SignalStatus) => {
+  switch (status) {
+    case 'FILLED':
+      return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+    case 'PARTIALLY_FILLED':
+    case 'SUBMITTED':
+    case 'PENDING':
+      return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+    case 'REJECTED':
+      return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+    default:
+      return 'bg-neutral-100 text-neutral-800 dark:bg-neutral-900 dark:text-neutral-200';
+  }
+};
+
+export const formatSignalValue = (value: SignalIndicatorValue | null) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  }
+  return Object.entries(value)
+    .map(([key, output]) => `${key}: ${output.toLocaleString(undefined, { maximumFractionDigits: 4 })}`)
+    .join(', ');
+};
+
+const formatDateTime = (date: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(date));
+
+const formatPrice = (value?: number) =>
+  value === undefined || value === null ? '—' : value.toFixed(2);
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-neutral-900 dark:text-white mb-2">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+// Why a strategy signalled and what became of the signal
+export function SignalDetails({ signal, className }: SignalDetailsProps) {
+  const indicators = Object.entries(signal.indicators || {});
+  const orders = signal.orderIds.filter(
+    (order): order is Exclude<StrategySignal['orderIds'][number], string> => typeof order !== 'string'
+  );
+  const trades = 'trades' in signal ? signal.trades : [];
+
+  return (
+    <div className={cn('space-y-5', className)}>
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center space-x-2">
+            <span className={cn(
+              'px-2 py-0.5 rounded-full text-xs font-medium',
+              signal.side === 'BUY'
+                ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+            )}>
+              {signal.action}
+            </span>
+            <span className="text-lg font-semibold text-neutral-900 dark:text-white">{signal.symbol}</span>
+            {signal.requestedQuantity !== undefined && (
+              <span className="text-sm text-neutral-600 dark:text-neutral-400">
+                × {signal.requestedQuantity.toLocaleString()}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+            {signal.reason || 'No reason given'} • {formatDateTime(signal.signalDate)} • {signal.source === 'BACKTEST' ? 'Backtest' : 'Paper trading'}
+          </p>
+        </div>
+        <span className={cn('px-2 py-1 rounded-full text-xs font-medium', signalStatusColor(signal.status))}>
+          {SIGNAL_STATUS_LABELS[signal.status]}
+        </span>
+      </div>
+
+      <Section title="Signal Bar">
+        <div className="grid grid-cols-5 gap-2 text-sm">
+          {(['open', 'high', 'low', 'close', 'volume'] as const).map(field => (
+            <div key={field} className="bg-neutral-50 dark:bg-neutral-900 rounded p-2">
+              <p className="text-xs text-neutral-500 dark:text-neutral-400 capitalize">{field}</p>
+              <p className="font-medium text-neutral-900 dark:text-white">
+                {field === 'volume' ? (signal.bar?.volume ?? 0).toLocaleString() : formatPrice(signal.bar?.[field])}
+              </p>
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      <Section title="Indicators">
+        {indicators.length === 0 ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">No indicator values were recorded</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {indicators.map(([name, value]) => (
+                <tr key={name} className="border-b border-neutral-100 dark:border-neutral-800">
+                  <td className="py-1.5 text-neutral-600 dark:text-neutral-400">{name}</td>
+                  <td className="py-1.5 text-right font-mono text-neutral-900 dark:text-white">
+                    {formatSignalValue(value)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Section>
+
+      <Section title="Conditions">
+        {signal.conditions.length === 0 ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">The strategy did not describe its conditions</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {signal.conditions.map((condition, index) => (
+              <li key={index} className="flex items-start space-x-2 text-sm">
+                {condition.passed ? (
+                  <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />
+                ) : (
+                  <XCircle className="h-4 w-4 mt-0.5 text-neutral-400 flex-shrink-0" />
+                )}
+                <div>
+                  <p className="text-neutral-900 dark:text-white">{condition.description}</p>
+                  {(condition.left !== null || condition.right !== null) && (
+                    <p className="text-xs font-mono text-neutral-500 dark:text-neutral-400">
+                      {formatSignalValue(condition.left)} vs {formatSignalValue(condition.right)}
+                    </p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      {signal.rejection && (
+        <div className="bg-danger-50 dark:bg-danger-900/20 border border-danger-200 dark:border-danger-800 rounded-lg p-3">
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4 text-danger-600" />
+            <span className="text-sm font-medium text-danger-800 dark:text-danger-200">
+              {signal.rejection.source === 'RISK' ? 'Rejected by pre-trade risk checks' : SIGNAL_STATUS_LABELS[signal.status]}
+            </span>
+          </div>
+          <p className="text-sm text-danger-700 dark:text-danger-300 mt-1">{signal.rejection.message}</p>
+          {signal.rejection.violations?.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-danger-700 dark:text-danger-300">
+              {signal.rejection.violations.map((violation, index) => (
+                <li key={index}>
+                  {violation.scope === 'STRATEGY' ? 'Strategy' : 'Account'} {violation.rule}: {violation.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <Section title="Outcome">
+        <div className="space-y-2 text-sm">
+          <p className="text-neutral-600 dark:text-neutral-400">
+            Filled {signal.filledQuantity.toLocaleString()}
+            {signal.requestedQuantity !== undefined && ` of ${signal.requestedQuantity.toLocaleString()}`} shares
+          </p>
+
+          {orders.map(order => (
+            <div key={order._id} className="flex justify-between bg-neutral-50 dark:bg-neutral-900 rounded p-2">
+              <span className="text-neutral-900 dark:text-white">
+                Order {order._id.slice(-8)} • {order.type} {order.side} {order.quantity.toLocaleString()}
+              </span>
+              <span className="text-neutral-600 dark:text-neutral-400">
+                {order.status}{order.avgFillPrice ? ` @ ${formatPrice(order.avgFillPrice)}` : ''}
+              </span>
+            </div>
+          ))}
+
+          {trades.map(trade => (
+            <div key={trade._id} className="flex justify-between bg-neutral-50 dark:bg-neutral-900 rounded p-2">
+              <span className="text-neutral-900 dark:text-white">
+                {trade.side} {trade.quantity.toLocaleString()} @ {formatPrice(trade.price)}
+              </span>
+              <span className="text-neutral-600 dark:text-neutral-400">
+                {formatDateTime(trade.executedAt)}
+                {trade.pnl !== undefined && trade.pnl !== null && (
+                  <span className={cn('ml-2 font-medium', trade.pnl >= 0 ? 'text-green-600' : 'text-red-600')}>
+                    {trade.pnl >= 0 ? '+' : ''}{formatPrice(trade.pnl)}
+                  </span>
+                )}
+              </span>
+            </div>
+          ))}
+
+          {orders.length === 0 && trades.length === 0 && signal.fills.map((fill, index) => (
+            <div key={index} className="flex justify-between bg-neutral-50 dark:bg-neutral-900 rounded p-2">
+              <span className="text-neutral-900 dark:text-white">
+                {fill.quantity.toLocaleString()} @ {formatPrice(fill.price)}
+              </span>
+              <span className="text-neutral-600 dark:text-neutral-400">{formatDateTime(fill.executedAt)}</span>
+            </div>
+          ))}
+        </div>
+      </Section>
+    </div>
+  );
+}
+
+// Render it only while open; it loads the signal with its orders and trades
+export function SignalDetailsModal({ signalId, trade, onClose }: SignalDetailsModalProps) {
+  const [signal, setSignal] = useState<StrategySignalDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const backtestId = trade?.backtestId;
+  const tradeId = trade?.tradeId;
+
+  useEffect(() => {
+    const request = backtestId && tradeId
+      ? backtestingApi.getTradeSignal(backtestId, tradeId)
+      : strategiesApi.getSignal(signalId as string);
+
+    request
+      .then(setSignal)
+      .catch(err => setError(errorMessage(err, 'Failed to load the signal')));
+  }, [signalId, backtestId, tradeId]);
+
+  return (
+    <Modal isOpen onClose={onClose} title="Signal Context" size="lg">
+      {signal ? (
+        <SignalDetails signal={signal} />
+      ) : (
+        <div className="text-center py-8 text-sm text-neutral-500 dark:text-neutral-400">
+          {error
+            ? trade && /not found/i.test(error)
+              ? 'No signal was journaled for this trade. Backtests run before the signal journal have none.'
+              : error
+            : 'Loading signal...'}
+        </div>
+      )}
+    </Modal>
+  );
+}
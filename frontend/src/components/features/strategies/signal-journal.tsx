@@ -0,0 +1,225 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { Button, Select } from '@/components/ui';
+import { backtestingApi } from '@/lib/api/backtesting';
+import { strategiesApi, SignalJournalResult, SignalStatus, StrategySignal } from '@/lib/api/strategies';
+import { tradingAPI } from '@/lib/api/trading-api';
+import { tradingWebSocket } from '@/lib/websocket/trading-websocket';
+import { cn } from '@/lib/utils';
+import { SIGNAL_STATUS_LABELS, SignalDetailsModal, signalStatusColor } from './signal-details';
+
+type SignalScope =
+  | { type: 'strategy'; id: string }
+  | { type: 'backtest'; id: string }
+  | { type: 'session'; id: string };
+
+interface SignalJournalProps {
+  scope: SignalScope;
+  title?: string;
+  className?: string;
+}
+
+type SourceFilter = 'all' | 'BACKTEST' | 'PAPER';
+
+const PAGE_SIZE = 50;
+
+const STATUSES = Object.keys(SIGNAL_STATUS_LABELS) as SignalStatus[];
+
+const formatDateTime = (date: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(date));
+
+/**
+ * Browsable signal journal of a strategy, a backtest or a paper session.
+ * Session journals also take new signals live from the websocket.
+ */
+export function SignalJournal({ scope, title = 'Signal Journal', className }: SignalJournalProps) {
+  const [signals, setSignals] = useState<StrategySignal[]>([]);
+  const [counts, setCounts] = useState<SignalJournalResult['counts']>({});
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [status, setStatus] = useState<SignalStatus | ''>('');
+  const [source, setSource] = useState<SourceFilter>('all');
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { type, id } = scope;
+
+  const load = useCallback((offset: number) => {
+    const options = { status: status || undefined, limit: PAGE_SIZE, offset };
+
+    switch (type) {
+      case 'backtest':
+        return backtestingApi.getBacktestSignals(id, options);
+      case 'session':
+        return tradingAPI.getSessionSignals(id, options);
+      default:
+        return strategiesApi.getStrategySignals(id, {
+          ...options,
+          source: source === 'all' ? undefined : source,
+        });
+    }
+  }, [type, id, status, source]);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    load(0)
+      .then(result => {
+        if (!isMounted) return;
+        setSignals(result.signals);
+        setCounts(result.counts);
+        setTotal(result.pagination.total);
+        setHasMore(result.pagination.hasMore);
+      })
+      .catch(err => console.error('Failed to load signal journal:', err))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [load]);
+
+  // Paper sessions journal each bar's signals as they happen
+  useEffect(() => {
+    if (type !== 'session') return;
+
+    const handleSignal = (signal: StrategySignal) => {
+      if (signal.sessionId !== id) return;
+
+      setCounts(prev => ({ ...prev, [signal.status]: (prev[signal.status] || 0) + 1 }));
+      if (status && signal.status !== status) return;
+      setSignals(prev => [signal, ...prev]);
+      setTotal(prev => prev + 1);
+    };
+
+    tradingWebSocket.on('strategySignal', handleSignal);
+
+    return () => {
+      tradingWebSocket.off('strategySignal', handleSignal);
+    };
+  }, [type, id, status]);
+
+  const loadMore = async () => {
+    try {
+      const result = await load(signals.length);
+      setSignals(prev => [...prev, ...result.signals]);
+      setHasMore(result.pagination.hasMore);
+    } catch (err) {
+      console.error('Failed to load signal journal:', err);
+    }
+  };
+
+  const statusOptions = useMemo(() => [
+    { value: '', label: 'All Statuses' },
+    ...STATUSES
+      .filter(value => counts[value] || value === status)
+      .map(value => ({ value, label: `${SIGNAL_STATUS_LABELS[value]} (${counts[value] || 0})` })),
+  ], [counts, status]);
+
+  return (
+    <div className={cn(
+      'bg-white dark:bg-neutral-800 p-6 rounded-lg border border-neutral-200 dark:border-neutral-700',
+      className
+    )}>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white">{title}</h3>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            {total} signal{total === 1 ? '' : 's'} • select one to see why it fired
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {type === 'strategy' && (
+            <Select
+              size="sm"
+              value={source}
+              onChange={(e) => setSource(e.target.value as SourceFilter)}
+              options={[
+                { value: 'all', label: 'All Sources' },
+                { value: 'BACKTEST', label: 'Backtests' },
+                { value: 'PAPER', label: 'Paper Trading' },
+              ]}
+            />
+          )}
+          <Select
+            size="sm"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as SignalStatus | '')}
+            options={statusOptions}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-sm text-neutral-500 dark:text-neutral-400">
+          Loading signals...
+        </div>
+      ) : signals.length === 0 ? (
+        <div className="text-center py-8">
+          <Activity className="h-10 w-10 text-neutral-400 mx-auto mb-2" />
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">No signals journaled yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400">
+                <th className="text-left py-2 px-2 font-medium">Date</th>
+                <th className="text-left py-2 px-2 font-medium">Symbol</th>
+                <th className="text-left py-2 px-2 font-medium">Action</th>
+                <th className="text-left py-2 px-2 font-medium">Reason</th>
+                <th className="text-right py-2 px-2 font-medium">Filled</th>
+                <th className="text-right py-2 px-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {signals.map(signal => (
+                <tr
+                  key={signal._id}
+                  onClick={() => setSelectedId(signal._id)}
+                  className="border-b border-neutral-100 dark:border-neutral-800 hover:bg-neutral-50 dark:hover:bg-neutral-900 cursor-pointer transition-colors"
+                >
+                  <td className="py-2 px-2 text-neutral-900 dark:text-white">{formatDateTime(signal.signalDate)}</td>
+                  <td className="py-2 px-2 font-medium text-neutral-900 dark:text-white">{signal.symbol}</td>
+                  <td className={cn('py-2 px-2 font-medium', signal.side === 'BUY' ? 'text-green-600' : 'text-red-600')}>
+                    {signal.action}
+                  </td>
+                  <td className="py-2 px-2 text-neutral-600 dark:text-neutral-400 truncate max-w-xs">
+                    {signal.reason || '—'}
+                  </td>
+                  <td className="py-2 px-2 text-right text-neutral-900 dark:text-white">
+                    {signal.filledQuantity.toLocaleString()}
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', signalStatusColor(signal.status))}>
+                      {SIGNAL_STATUS_LABELS[signal.status]}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {hasMore && (
+            <Button variant="ghost" size="sm" onClick={loadMore} className="mt-3">
+              Show more signals
+            </Button>
+          )}
+        </div>
+      )}
+
+      {selectedId && (
+        <SignalDetailsModal signalId={selectedId} onClose={() => setSelectedId(null)} />
+      )}
+    </div>
+  );
+}
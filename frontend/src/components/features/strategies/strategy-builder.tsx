@@ -13,23 +13,34 @@ import {
   Clock,
   ArrowLeft,
   FileText,
-  Loader2
+  Loader2,
+  Workflow,
+  Store,
+  GitFork,
+  Activity
 } from 'lucide-react';
 import { Button, Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui';
 import { ParameterBuilder } from './parameter-builder';
+import { RuleBuilder } from './rule-builder';
 import { CodeEditor } from './code-editor';
 import { StrategyPreview } from './strategy-preview';
-import { StrategyVersionManager } from './strategy-version-manager';
+import { StrategyVersionManager, VersionSaveOptions } from './strategy-version-manager';
 import { ParameterPresets } from './parameter-presets';
 import { StrategyImportExport } from './strategy-import-export';
+import { PublishTemplateModal } from './publish-template-modal';
+import { SignalJournal } from './signal-journal';
 import { useStrategyTemplates } from '@/hooks/use-strategy-templates';
-import { Strategy, ParameterSchema } from '@/types/trading';
+import { strategiesApi } from '@/lib/api/strategies';
+import { createEmptyRules } from '@/lib/strategy-rules';
+import { Strategy, ParameterSchema, StrategyRules } from '@/types/trading';
 import { cn } from '@/lib/utils';
 
 interface StrategyBuilderProps {
   strategy: Strategy;
-  onSave: (strategy: Strategy) => void;
+  onSave: (strategy: Strategy, version?: VersionSaveOptions) => void | Promise<void>;
   onRunBacktest?: (strategy: Strategy) => void;
+  onConvertToCode?: (strategy: Strategy) => void;
+  onVersionRestored?: () => void;
   onPreview?: (strategy: Strategy) => void;
   onBack?: () => void;
   className?: string;
@@ -39,15 +50,18 @@ export function StrategyBuilder({
   strategy,
   onSave,
   onRunBacktest,
+  onConvertToCode,
+  onVersionRestored,
   onPreview,
   onBack,
   className,
 }: StrategyBuilderProps) {
-  const [activeTab, setActiveTab] = useState<string>('parameters');
+  const [activeTab, setActiveTab] = useState<string>(strategy.type === 'VISUAL' ? 'rules' : 'parameters');
   const [localStrategy, setLocalStrategy] = useState<Strategy>({
     ...strategy,
     parameters: strategy.parameters || {},
     code: strategy.code || '',
+    ...(strategy.type === 'VISUAL' && { rules: strategy.rules || createEmptyRules() }),
     tags: strategy.tags || []
   });
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -55,8 +69,13 @@ export function StrategyBuilder({
   const [codeErrors, setCodeErrors] = useState<string[]>([]);
   const [isParametersValid, setIsParametersValid] = useState(true);
   const [isCodeValid, setIsCodeValid] = useState(true);
+  const [ruleErrors, setRuleErrors] = useState<string[]>([]);
+  const [isRulesValid, setIsRulesValid] = useState(true);
+  const [compiledCode, setCompiledCode] = useState('');
+  const [compileError, setCompileError] = useState<string | null>(null);
   const [lastSaved, setLastSaved] = useState<Date>(strategy.updatedAt);
   const [showPreview, setShowPreview] = useState(false);
+  const [showPublish, setShowPublish] = useState(false);
 
   // Fetch templates to get parameter schema for template-based strategies
   const { templates, loading: templatesLoading } = useStrategyTemplates({ limit: 100 });
@@ -108,8 +127,8 @@ export function StrategyBuilder({
 
   // Check if strategy is valid
   const isStrategyValid = useMemo(() => {
-    return isParametersValid && (strategy.type === 'VISUAL' || isCodeValid);
-  }, [isParametersValid, isCodeValid, strategy.type]);
+    return isParametersValid && (strategy.type === 'VISUAL' ? isRulesValid : isCodeValid);
+  }, [isParametersValid, isCodeValid, isRulesValid, strategy.type]);
 
   // Update local strategy when prop changes
   useEffect(() => {
@@ -117,11 +136,37 @@ export function StrategyBuilder({
       ...strategy,
       parameters: strategy.parameters || {},
       code: strategy.code || '',
+      ...(strategy.type === 'VISUAL' && { rules: strategy.rules || createEmptyRules() }),
       tags: strategy.tags || []
     });
     setHasUnsavedChanges(false);
   }, [strategy]);
 
+  // Compile the rules for the read-only code view of visual strategies
+  useEffect(() => {
+    if (activeTab !== 'code' || localStrategy.type !== 'VISUAL' || !localStrategy.rules || !isRulesValid) {
+      return;
+    }
+
+    let cancelled = false;
+    strategiesApi.compileRules(localStrategy.rules)
+      .then(code => {
+        if (!cancelled) {
+          setCompiledCode(code);
+          setCompileError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setCompileError(err instanceof Error ? err.message : 'Failed to compile rules');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, localStrategy.type, localStrategy.rules, isRulesValid]);
+
   // Track changes
   useEffect(() => {
     const hasChanges = JSON.stringify(localStrategy) !== JSON.stringify(strategy);
@@ -144,6 +189,14 @@ export function StrategyBuilder({
     }));
   };
 
+  const handleRulesChange = (rules: StrategyRules) => {
+    setLocalStrategy(prev => ({
+      ...prev,
+      rules,
+      updatedAt: new Date(),
+    }));
+  };
+
   const handleParameterValidation = useCallback((isValid: boolean, errors: Record<string, string>) => {
     setIsParametersValid(isValid);
     setParameterErrors(errors);
@@ -154,6 +207,11 @@ export function StrategyBuilder({
     setCodeErrors(errors);
   }, []);
 
+  const handleRulesValidation = useCallback((isValid: boolean, errors: string[]) => {
+    setIsRulesValid(isValid);
+    setRuleErrors(errors);
+  }, []);
+
   const handleSave = () => {
     if (isStrategyValid) {
       const updatedStrategy = {
@@ -172,6 +230,12 @@ export function StrategyBuilder({
     }
   };
 
+  const handleConvertToCode = () => {
+    if (isStrategyValid && !hasUnsavedChanges && onConvertToCode) {
+      onConvertToCode(localStrategy);
+    }
+  };
+
   const handlePreview = () => {
     setShowPreview(true);
     if (onPreview) {
@@ -179,10 +243,12 @@ export function StrategyBuilder({
     }
   };
 
-  const handleVersionSave = (strategy: Strategy, version: any) => {
-    // In a real implementation, this would save the version to backend
-    console.log('Saving version:', version, 'for strategy:', strategy);
-    onSave(strategy);
+  const handleVersionSave = async (strategy: Strategy, version: VersionSaveOptions) => {
+    if (isStrategyValid) {
+      await onSave({ ...strategy, updatedAt: new Date() }, version);
+      setLastSaved(new Date());
+      setHasUnsavedChanges(false);
+    }
   };
 
   const getStatusIcon = () => {
@@ -231,6 +297,14 @@ export function StrategyBuilder({
               <span className="text-sm text-neutral-600 dark:text-neutral-400">
                 {getStatusText()}
               </span>
+              {strategy.forkedFrom && (
+                <span className="flex items-center space-x-1 text-sm text-neutral-500 dark:text-neutral-400">
+                  <GitFork className="h-4 w-4" />
+                  <span>
+                    Forked from {strategy.forkedFrom.templateName} v{strategy.forkedFrom.templateVersion}
+                  </span>
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -259,6 +333,19 @@ export function StrategyBuilder({
             </Button>
           )}
           
+          {strategy.id && strategy.type !== 'TEMPLATE' && (
+            <Button
+              variant="outline"
+              onClick={() => setShowPublish(true)}
+              disabled={hasUnsavedChanges || !isStrategyValid}
+              title={hasUnsavedChanges ? 'Save your changes before publishing' : undefined}
+              className="flex items-center space-x-2"
+            >
+              <Store className="h-4 w-4" />
+              <span>Publish</span>
+            </Button>
+          )}
+
           <Button
             onClick={handleSave}
             disabled={!hasUnsavedChanges || !isStrategyValid}
@@ -270,6 +357,14 @@ export function StrategyBuilder({
         </div>
       </div>
 
+      {showPublish && (
+        <PublishTemplateModal
+          strategy={localStrategy}
+          isOpen={showPublish}
+          onClose={() => setShowPublish(false)}
+        />
+      )}
+
       {/* Strategy Info */}
       <div className="bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-4">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -361,7 +456,13 @@ export function StrategyBuilder({
       <div className={cn('flex', showPreview && 'mr-0')}>
         <div className="flex-1">
           <Tabs defaultValue="parameters" value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className={cn('grid w-full', localStrategy.type === 'VISUAL' ? 'grid-cols-7' : 'grid-cols-6')}>
+              {localStrategy.type === 'VISUAL' && (
+                <TabsTrigger value="rules" className="flex items-center space-x-2">
+                  <Workflow className="h-4 w-4" />
+                  <span>Rules</span>
+                </TabsTrigger>
+              )}
               <TabsTrigger value="parameters" className="flex items-center space-x-2">
                 <Settings className="h-4 w-4" />
                 <span>Parameters</span>
@@ -370,11 +471,7 @@ export function StrategyBuilder({
                 <Save className="h-4 w-4" />
                 <span>Presets</span>
               </TabsTrigger>
-              <TabsTrigger 
-                value="code" 
-                className="flex items-center space-x-2"
-                disabled={localStrategy.type === 'VISUAL'}
-              >
+              <TabsTrigger value="code" className="flex items-center space-x-2">
                 <Code className="h-4 w-4" />
                 <span>Code</span>
               </TabsTrigger>
@@ -386,8 +483,22 @@ export function StrategyBuilder({
                 <FileText className="h-4 w-4" />
                 <span>Versions</span>
               </TabsTrigger>
+              <TabsTrigger value="signals" className="flex items-center space-x-2">
+                <Activity className="h-4 w-4" />
+                <span>Signals</span>
+              </TabsTrigger>
             </TabsList>
 
+        {localStrategy.type === 'VISUAL' && (
+          <TabsContent value="rules" className="mt-6">
+            <RuleBuilder
+              rules={localStrategy.rules || createEmptyRules()}
+              onChange={handleRulesChange}
+              onValidationChange={handleRulesValidation}
+            />
+          </TabsContent>
+        )}
+
         <TabsContent value="parameters" className="mt-6">
           <ParameterBuilder
             parameters={localStrategy.parameters}
@@ -409,6 +520,7 @@ export function StrategyBuilder({
               {localStrategy.type === 'CODE' ? (
                 <CodeEditor
                   code={localStrategy.code || ''}
+                  parameters={localStrategy.parameters}
                   onChange={handleCodeChange}
                   onValidationChange={handleCodeValidation}
                 />
@@ -432,6 +544,49 @@ export function StrategyBuilder({
                     readOnly={true}
                   />
                 </div>
+              ) : localStrategy.type === 'VISUAL' ? (
+                <div className="space-y-4">
+                  <div className="flex items-start justify-between gap-4 bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-800 rounded-lg p-4">
+                    <div>
+                      <div className="flex items-center space-x-2 mb-2">
+                        <Workflow className="h-5 w-5 text-primary-600" />
+                        <h4 className="text-sm font-medium text-primary-800 dark:text-primary-200">
+                          Compiled Rules (Read-Only)
+                        </h4>
+                      </div>
+                      <p className="text-sm text-primary-700 dark:text-primary-300">
+                        This is the code equivalent of the visual rules. Convert the strategy to edit it by hand; the rules are kept for reference but no longer run.
+                      </p>
+                    </div>
+                    {onConvertToCode && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleConvertToCode}
+                        disabled={!isStrategyValid || hasUnsavedChanges}
+                        title={hasUnsavedChanges ? 'Save your changes before converting' : undefined}
+                        className="flex-shrink-0 flex items-center space-x-2"
+                      >
+                        <Code className="h-4 w-4" />
+                        <span>Convert to Code Strategy</span>
+                      </Button>
+                    )}
+                  </div>
+                  {!isRulesValid ? (
+                    <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                      Fix the rule issues below to see the compiled code.
+                    </p>
+                  ) : compileError ? (
+                    <p className="text-sm text-danger-600 dark:text-danger-400">{compileError}</p>
+                  ) : (
+                    <CodeEditor
+                      code={compiledCode || '// Compiling rules...'}
+                      onChange={() => {}} // Read-only
+                      onValidationChange={() => {}}
+                      readOnly={true}
+                    />
+                  )}
+                </div>
               ) : (
                 <div className="text-center py-12">
                   <FileText className="h-12 w-12 text-neutral-400 mx-auto mb-4" />
@@ -439,41 +594,40 @@ export function StrategyBuilder({
                     Code Editor Not Available
                   </h3>
                   <p className="text-neutral-600 dark:text-neutral-400">
-                    {localStrategy.type === 'VISUAL' 
-                      ? 'This strategy uses the visual builder. Switch to a code-based strategy to edit code.'
-                      : 'Code not available for this strategy type.'
-                    }
+                    Code not available for this strategy type.
                   </p>
                 </div>
               )}
             </TabsContent>
 
             <TabsContent value="import-export" className="mt-6">
-              <StrategyImportExport
-                strategy={localStrategy}
-                onImportStrategy={(importedStrategy) => {
-                  setLocalStrategy(prev => ({
-                    ...prev,
-                    ...importedStrategy,
-                    id: prev.id, // Keep original ID
-                    updatedAt: new Date(),
-                  }));
-                }}
-              />
+              <StrategyImportExport strategy={localStrategy} />
             </TabsContent>
 
             <TabsContent value="versions" className="mt-6">
               <StrategyVersionManager
                 strategy={localStrategy}
+                hasUnsavedChanges={hasUnsavedChanges && isStrategyValid}
                 onSave={handleVersionSave}
+                onRollback={onVersionRestored}
               />
             </TabsContent>
+
+            <TabsContent value="signals" className="mt-6">
+              {localStrategy.id ? (
+                <SignalJournal scope={{ type: 'strategy', id: localStrategy.id }} />
+              ) : (
+                <div className="text-center py-8 text-sm text-neutral-500 dark:text-neutral-400">
+                  Save the strategy and run it to journal its signals
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         </div>
       </div>
 
       {/* Validation Summary */}
-      {(!isParametersValid || !isCodeValid) && (
+      {(!isParametersValid || !isCodeValid || !isRulesValid) && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -503,6 +657,22 @@ export function StrategyBuilder({
               </div>
             )}
             
+            {!isRulesValid && ruleErrors.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-danger-700 dark:text-danger-300 mb-1">
+                  Rule Issues:
+                </p>
+                <ul className="text-sm text-danger-600 dark:text-danger-400 space-y-1">
+                  {ruleErrors.map((error, index) => (
+                    <li key={index} className="flex items-center space-x-2">
+                      <span className="w-1 h-1 bg-danger-500 rounded-full"></span>
+                      <span>{error}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {!isCodeValid && codeErrors.length > 0 && (
               <div>
                 <p className="text-sm font-medium text-danger-700 dark:text-danger-300 mb-1">
@@ -1,272 +1,201 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { 
-  Download, 
-  Upload, 
-  FileText, 
-  Check, 
+import {
+  Download,
+  Upload,
+  FileText,
+  Check,
   AlertTriangle,
   X,
   Copy,
-  Share2
+  Share2,
+  ShieldCheck,
+  ShieldAlert
 } from 'lucide-react';
-import { Button, Modal, Input } from '@/components/ui';
-import { Strategy, StrategyTemplate } from '@/types/trading';
+import { Button, Modal, Input, useToast } from '@/components/ui';
+import {
+  strategiesApi,
+  ImportPreview,
+  Strategy as ApiStrategy,
+  StrategyPackagePreset,
+} from '@/lib/api/strategies';
+import { parameterPresetStorage } from '@/lib/parameter-presets';
+import { Strategy } from '@/types/trading';
 import { cn } from '@/lib/utils';
 
 interface StrategyImportExportProps {
   strategy?: Strategy;
-  onImportStrategy?: (strategy: Partial<Strategy>) => void;
-  onImportTemplate?: (template: StrategyTemplate) => void;
+  onImported?: (strategy: ApiStrategy) => void; // defaults to opening the imported strategy
   className?: string;
 }
 
-interface ImportResult {
-  success: boolean;
-  data?: any;
-  errors: string[];
-  warnings: string[];
-}
+const errorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
+
+// Saved presets that only set parameters this strategy has
+const presetsFor = (parameters: Record<string, any>): StrategyPackagePreset[] => {
+  const keys = Object.keys(parameters);
+  return parameterPresetStorage.getPresets()
+    .filter(preset => {
+      const presetKeys = Object.keys(preset.parameters);
+      return presetKeys.length > 0 && presetKeys.every(key => keys.includes(key));
+    })
+    .map(({ name, description, parameters: values, tags }) => ({ name, description, parameters: values, tags }));
+};
 
 export function StrategyImportExport({
   strategy,
-  onImportStrategy,
-  onImportTemplate,
+  onImported,
   className,
 }: StrategyImportExportProps) {
+  const router = useRouter();
+  const { addToast } = useToast();
   const [showExportModal, setShowExportModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
-  const [exportFormat, setExportFormat] = useState<'json' | 'template'>('json');
-  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [includePresets, setIncludePresets] = useState(true);
+  const [includeBacktest, setIncludeBacktest] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [importData, setImportData] = useState('');
+  const [importPackage, setImportPackage] = useState<unknown>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importName, setImportName] = useState('');
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
   const [shareableLink, setShareableLink] = useState('');
 
-  const validateStrategyData = (data: any): ImportResult => {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+  const exportablePresets = strategy ? presetsFor(strategy.parameters) : [];
 
-    // Check required fields for strategy
-    if (data.type === undefined) {
-      errors.push('Strategy type is required');
-    }
-    
-    if (!data.name || typeof data.name !== 'string') {
-      errors.push('Strategy name is required and must be a string');
-    }
-    
-    if (!data.parameters || typeof data.parameters !== 'object') {
-      errors.push('Strategy parameters are required and must be an object');
-    }
-    
-    // Check for code if it's a code-based strategy
-    if (data.type === 'CODE' && !data.code) {
-      warnings.push('Code-based strategy is missing code implementation');
-    }
-    
-    // Validate parameter types
-    if (data.parameters) {
-      Object.entries(data.parameters).forEach(([key, value]) => {
-        if (value === null || value === undefined) {
-          warnings.push(`Parameter '${key}' has null/undefined value`);
-        }
+  const exportStrategy = async () => {
+    if (!strategy) return;
+
+    try {
+      setExporting(true);
+      const pkg = await strategiesApi.exportPackage(strategy.id, {
+        presets: includePresets ? exportablePresets : [],
+        includeBacktest,
       });
-    }
-    
-    // Check for template-specific fields
-    if (data.templateId && !data.type) {
-      warnings.push('Template ID provided but strategy type not specified');
-    }
 
-    return {
-      success: errors.length === 0,
-      data,
-      errors,
-      warnings,
-    };
+      const dataStr = JSON.stringify(pkg, null, 2);
+      const dataBlob = new Blob([dataStr], { type: 'application/json' });
+      const url = URL.createObjectURL(dataBlob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `strategy-${strategy.name.toLowerCase().replace(/\s+/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setShowExportModal(false);
+    } catch (err) {
+      addToast({
+        type: 'error',
+        title: 'Export Failed',
+        description: errorMessage(err, 'Failed to export strategy'),
+      });
+    } finally {
+      setExporting(false);
+    }
   };
 
-  const validateTemplateData = (data: any): ImportResult => {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+  const resetImport = () => {
+    setImportData('');
+    setImportPackage(null);
+    setPreview(null);
+    setParseError(null);
+    setImportName('');
+  };
 
-    // Check required fields for template
-    if (!data.name || typeof data.name !== 'string') {
-      errors.push('Template name is required and must be a string');
-    }
-    
-    if (!data.description || typeof data.description !== 'string') {
-      errors.push('Template description is required and must be a string');
-    }
-    
-    if (!data.category || typeof data.category !== 'string') {
-      errors.push('Template category is required and must be a string');
-    }
-    
-    if (!data.defaultParameters || typeof data.defaultParameters !== 'object') {
-      errors.push('Template default parameters are required and must be an object');
-    }
-    
-    if (!data.parameterSchema || !Array.isArray(data.parameterSchema)) {
-      errors.push('Template parameter schema is required and must be an array');
-    } else {
-      // Validate parameter schema
-      data.parameterSchema.forEach((param: any, index: number) => {
-        if (!param.key || typeof param.key !== 'string') {
-          errors.push(`Parameter schema item ${index} is missing 'key' field`);
-        }
-        if (!param.label || typeof param.label !== 'string') {
-          errors.push(`Parameter schema item ${index} is missing 'label' field`);
-        }
-        if (!param.type || !['number', 'string', 'boolean', 'select', 'range'].includes(param.type)) {
-          errors.push(`Parameter schema item ${index} has invalid 'type' field`);
-        }
-      });
-    }
+  const closeImportModal = () => {
+    setShowImportModal(false);
+    resetImport();
+  };
 
-    return {
-      success: errors.length === 0,
-      data,
-      errors,
-      warnings,
-    };
+  const handleImportDataChange = (value: string) => {
+    setImportData(value);
+    setImportPackage(null);
+    setPreview(null);
+    setParseError(null);
   };
 
-  const exportStrategy = () => {
-    if (!strategy) return;
+  const handlePreview = async () => {
+    if (!importData.trim()) return;
 
-    let exportData: any;
-    let filename: string;
-
-    if (exportFormat === 'json') {
-      exportData = {
-        ...strategy,
-        exportedAt: new Date().toISOString(),
-        exportVersion: '1.0',
-      };
-      filename = `strategy-${strategy.name.toLowerCase().replace(/\s+/g, '-')}.json`;
-    } else {
-      // Export as template
-      exportData = {
-        id: `template-${Date.now()}`,
-        name: `${strategy.name} Template`,
-        description: strategy.description || `Template based on ${strategy.name}`,
-        category: 'Custom',
-        defaultParameters: strategy.parameters,
-        parameterSchema: generateParameterSchema(strategy.parameters),
-        code: strategy.code,
-        isBuiltIn: false,
-        createdAt: new Date().toISOString(),
-        exportedAt: new Date().toISOString(),
-        exportVersion: '1.0',
-      };
-      filename = `template-${strategy.name.toLowerCase().replace(/\s+/g, '-')}.json`;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(importData);
+    } catch {
+      setParseError('Invalid JSON format. Please check your data and try again.');
+      return;
     }
 
-    const dataStr = JSON.stringify(exportData, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    link.click();
-    URL.revokeObjectURL(url);
-    
-    setShowExportModal(false);
+    try {
+      setPreviewing(true);
+      const result = await strategiesApi.previewImport(parsed);
+      setImportPackage(parsed);
+      setPreview(result);
+      setImportName(result.suggestedName || '');
+    } catch (err) {
+      setParseError(errorMessage(err, 'Failed to read the strategy package'));
+    } finally {
+      setPreviewing(false);
+    }
   };
 
-  const generateParameterSchema = (parameters: Record<string, any>) => {
-    return Object.entries(parameters).map(([key, value]) => {
-      const baseSchema = {
-        key,
-        label: key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1'),
-        required: true,
-        description: `Parameter for ${key}`,
-      };
-
-      if (typeof value === 'number') {
-        return {
-          ...baseSchema,
-          type: 'number',
-          defaultValue: value,
-          min: 0,
-          max: value * 10,
-          step: value < 1 ? 0.1 : 1,
-        };
-      } else if (typeof value === 'boolean') {
-        return {
-          ...baseSchema,
-          type: 'boolean',
-          defaultValue: value,
-        };
-      } else if (typeof value === 'string') {
-        // Check if it looks like a symbol
-        if (['RELIANCE', 'TCS', 'HDFCBANK', 'INFY'].includes(value)) {
-          return {
-            ...baseSchema,
-            type: 'select',
-            defaultValue: value,
-            options: [
-              { label: 'Reliance', value: 'RELIANCE' },
-              { label: 'TCS', value: 'TCS' },
-              { label: 'HDFC Bank', value: 'HDFCBANK' },
-              { label: 'Infosys', value: 'INFY' },
-            ],
-          };
-        }
-        return {
-          ...baseSchema,
-          type: 'string',
-          defaultValue: value,
-        };
-      }
-
-      return {
-        ...baseSchema,
-        type: 'string',
-        defaultValue: String(value),
-      };
-    });
+  // Presets are kept in the browser, so the imported ones are added here
+  const savePresets = (presets: StrategyPackagePreset[]) => {
+    const existing = parameterPresetStorage.getPresets();
+    const names = new Set(existing.map(preset => preset.name.toLowerCase()));
+    const added = presets
+      .filter(preset => !names.has(preset.name.toLowerCase()))
+      .map((preset, index) => ({
+        id: `preset-${Date.now()}-${index}`,
+        name: preset.name,
+        description: preset.description || '',
+        parameters: preset.parameters,
+        isDefault: false,
+        createdAt: new Date(),
+        tags: preset.tags || [],
+      }));
+
+    if (added.length > 0) {
+      parameterPresetStorage.savePresets([...existing, ...added]);
+    }
+    return added.length;
   };
 
-  const handleImport = () => {
-    if (!importData.trim()) return;
+  const handleImport = async () => {
+    if (!preview?.valid || !importPackage) return;
 
     try {
-      const parsed = JSON.parse(importData);
-      
-      // Determine if it's a strategy or template
-      const isTemplate = parsed.parameterSchema && parsed.defaultParameters && parsed.category;
-      
-      let result: ImportResult;
-      if (isTemplate) {
-        result = validateTemplateData(parsed);
-        if (result.success && onImportTemplate) {
-          onImportTemplate(parsed as StrategyTemplate);
-        }
+      setImporting(true);
+      const { strategy: imported, presets } = await strategiesApi.importPackage(importPackage, importName.trim() || undefined);
+      const presetCount = savePresets(presets);
+
+      addToast({
+        type: 'success',
+        title: 'Strategy Imported',
+        description: presetCount > 0
+          ? `${imported.name} was imported with ${presetCount} preset${presetCount === 1 ? '' : 's'}`
+          : `${imported.name} was imported as a draft`,
+      });
+      closeImportModal();
+
+      if (onImported) {
+        onImported(imported);
       } else {
-        result = validateStrategyData(parsed);
-        if (result.success && onImportStrategy) {
-          onImportStrategy(parsed as Partial<Strategy>);
-        }
-      }
-      
-      setImportResult(result);
-      
-      if (result.success) {
-        setTimeout(() => {
-          setShowImportModal(false);
-          setImportData('');
-          setImportResult(null);
-        }, 2000);
+        router.push(`/strategies/builder?id=${imported._id}`);
       }
-    } catch (error) {
-      setImportResult({
-        success: false,
-        errors: ['Invalid JSON format. Please check your data and try again.'],
-        warnings: [],
+    } catch (err) {
+      addToast({
+        type: 'error',
+        title: 'Import Failed',
+        description: errorMessage(err, 'Failed to import strategy'),
       });
+    } finally {
+      setImporting(false);
     }
   };
 
@@ -277,7 +206,7 @@ export function StrategyImportExport({
     const reader = new FileReader();
     reader.onload = (e) => {
       const content = e.target?.result as string;
-      setImportData(content);
+      handleImportDataChange(content);
     };
     reader.readAsText(file);
     event.target.value = '';
@@ -303,6 +232,9 @@ export function StrategyImportExport({
     navigator.clipboard.writeText(shareableLink);
   };
 
+  const nameTaken = preview?.conflicts.some(conflict => conflict.type === 'DUPLICATE_NAME')
+    && importName.trim().toLowerCase() === preview.summary?.name.trim().toLowerCase();
+
   return (
     <div className={cn('space-y-4', className)}>
       <div className="flex items-center justify-between">
@@ -318,18 +250,20 @@ export function StrategyImportExport({
             <Upload className="h-4 w-4" />
             <span>Import</span>
           </Button>
-          
+
           {strategy && (
             <>
-              <Button
-                variant="outline"
-                onClick={() => setShowExportModal(true)}
-                className="flex items-center space-x-2"
-              >
-                <Download className="h-4 w-4" />
-                <span>Export</span>
-              </Button>
-              
+              {strategy.id && (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowExportModal(true)}
+                  className="flex items-center space-x-2"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Export</span>
+                </Button>
+              )}
+
               <Button
                 variant="outline"
                 onClick={generateShareableLink}
@@ -363,47 +297,48 @@ export function StrategyImportExport({
           </div>
 
           <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-3">
-                Export Format
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              The strategy package contains the strategy, its parameter schema and its full
+              version history, signed with a checksum so the import can detect changes to the file.
+            </p>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includePresets}
+                  onChange={(e) => setIncludePresets(e.target.checked)}
+                  disabled={exportablePresets.length === 0}
+                  className="w-4 h-4 text-primary-600 bg-white border-neutral-300 rounded focus:ring-primary-500 focus:ring-2"
+                />
+                <div>
+                  <div className="font-medium text-neutral-900 dark:text-white">
+                    Parameter presets
+                  </div>
+                  <div className="text-sm text-neutral-600 dark:text-neutral-400">
+                    {exportablePresets.length > 0
+                      ? `${exportablePresets.length} saved preset${exportablePresets.length === 1 ? '' : 's'} match this strategy`
+                      : 'No saved presets match this strategy'}
+                  </div>
+                </div>
               </label>
-              <div className="space-y-2">
-                <label className="flex items-center space-x-3 cursor-pointer">
-                  <input
-                    type="radio"
-                    value="json"
-                    checked={exportFormat === 'json'}
-                    onChange={(e) => setExportFormat(e.target.value as 'json' | 'template')}
-                    className="w-4 h-4 text-primary-600"
-                  />
-                  <div>
-                    <div className="font-medium text-neutral-900 dark:text-white">
-                      Strategy JSON
-                    </div>
-                    <div className="text-sm text-neutral-600 dark:text-neutral-400">
-                      Export as a complete strategy that can be imported and used directly
-                    </div>
+
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeBacktest}
+                  onChange={(e) => setIncludeBacktest(e.target.checked)}
+                  className="w-4 h-4 text-primary-600 bg-white border-neutral-300 rounded focus:ring-primary-500 focus:ring-2"
+                />
+                <div>
+                  <div className="font-medium text-neutral-900 dark:text-white">
+                    Sample backtest
                   </div>
-                </label>
-                
-                <label className="flex items-center space-x-3 cursor-pointer">
-                  <input
-                    type="radio"
-                    value="template"
-                    checked={exportFormat === 'template'}
-                    onChange={(e) => setExportFormat(e.target.value as 'json' | 'template')}
-                    className="w-4 h-4 text-primary-600"
-                  />
-                  <div>
-                    <div className="font-medium text-neutral-900 dark:text-white">
-                      Strategy Template
-                    </div>
-                    <div className="text-sm text-neutral-600 dark:text-neutral-400">
-                      Export as a reusable template with parameter schema
-                    </div>
+                  <div className="text-sm text-neutral-600 dark:text-neutral-400">
+                    Summary of the latest completed backtest of this strategy
                   </div>
-                </label>
-              </div>
+                </div>
+              </label>
             </div>
 
             {strategy && (
@@ -414,6 +349,7 @@ export function StrategyImportExport({
                 <div className="space-y-1 text-sm">
                   <div><span className="text-neutral-500">Name:</span> {strategy.name}</div>
                   <div><span className="text-neutral-500">Type:</span> {strategy.type}</div>
+                  {strategy.version && <div><span className="text-neutral-500">Version:</span> v{strategy.version}</div>}
                   <div><span className="text-neutral-500">Parameters:</span> {Object.keys(strategy.parameters).length}</div>
                   {strategy.code && <div><span className="text-neutral-500">Has Code:</span> Yes</div>}
                 </div>
@@ -425,7 +361,7 @@ export function StrategyImportExport({
             <Button variant="outline" onClick={() => setShowExportModal(false)}>
               Cancel
             </Button>
-            <Button onClick={exportStrategy}>
+            <Button onClick={exportStrategy} loading={exporting}>
               Export Strategy
             </Button>
           </div>
@@ -435,16 +371,16 @@ export function StrategyImportExport({
       {/* Import Modal */}
       <Modal
         isOpen={showImportModal}
-        onClose={() => setShowImportModal(false)}
+        onClose={closeImportModal}
         size="lg"
       >
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-bold text-neutral-900 dark:text-white">
-              Import Strategy or Template
+              Import Strategy Package
             </h2>
             <button
-              onClick={() => setShowImportModal(false)}
+              onClick={closeImportModal}
               className="text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300"
             >
               <X className="h-5 w-5" />
@@ -475,50 +411,96 @@ export function StrategyImportExport({
 
             <div>
               <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
-                Strategy/Template JSON Data
+                Strategy Package JSON
               </label>
               <textarea
                 value={importData}
-                onChange={(e) => setImportData(e.target.value)}
-                placeholder="Paste your strategy or template JSON data here..."
-                className="w-full h-64 px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white placeholder-neutral-500 dark:placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono text-sm"
+                onChange={(e) => handleImportDataChange(e.target.value)}
+                placeholder="Paste an exported strategy package here..."
+                className="w-full h-48 px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white placeholder-neutral-500 dark:placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono text-sm"
               />
             </div>
 
-            {importResult && (
+            {parseError && (
+              <div className="flex items-center space-x-2 rounded-lg p-3 border bg-danger-50 dark:bg-danger-900/20 border-danger-200 dark:border-danger-800 text-sm text-danger-700 dark:text-danger-300">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span>{parseError}</span>
+              </div>
+            )}
+
+            {preview && (
               <motion.div
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
-                className={cn(
+                className="space-y-3"
+              >
+                <div className={cn(
                   'rounded-lg p-4 border',
-                  importResult.success
+                  preview.valid
                     ? 'bg-success-50 dark:bg-success-900/20 border-success-200 dark:border-success-800'
                     : 'bg-danger-50 dark:bg-danger-900/20 border-danger-200 dark:border-danger-800'
-                )}
-              >
-                <div className="flex items-center space-x-2 mb-2">
-                  {importResult.success ? (
-                    <Check className="h-5 w-5 text-success-600" />
-                  ) : (
-                    <AlertTriangle className="h-5 w-5 text-danger-600" />
+                )}>
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center space-x-2">
+                      {preview.valid ? (
+                        <Check className="h-5 w-5 text-success-600" />
+                      ) : (
+                        <AlertTriangle className="h-5 w-5 text-danger-600" />
+                      )}
+                      <h4 className={cn(
+                        'font-medium',
+                        preview.valid
+                          ? 'text-success-800 dark:text-success-200'
+                          : 'text-danger-800 dark:text-danger-200'
+                      )}>
+                        {preview.valid ? 'Package is valid' : 'Package cannot be imported'}
+                      </h4>
+                    </div>
+                    <span className={cn(
+                      'flex items-center space-x-1 text-xs',
+                      preview.checksum === 'valid' && 'text-success-700 dark:text-success-300',
+                      preview.checksum === 'invalid' && 'text-danger-700 dark:text-danger-300',
+                      preview.checksum === 'missing' && 'text-neutral-500 dark:text-neutral-400'
+                    )}>
+                      {preview.checksum === 'valid'
+                        ? <ShieldCheck className="h-4 w-4" />
+                        : <ShieldAlert className="h-4 w-4" />}
+                      <span>
+                        {preview.checksum === 'valid' && 'Checksum verified'}
+                        {preview.checksum === 'invalid' && 'Checksum mismatch'}
+                        {preview.checksum === 'missing' && 'No checksum'}
+                      </span>
+                    </span>
+                  </div>
+
+                  {preview.summary && (
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-neutral-700 dark:text-neutral-300">
+                      <div><span className="text-neutral-500">Name:</span> {preview.summary.name}</div>
+                      <div><span className="text-neutral-500">Type:</span> {preview.summary.type}</div>
+                      <div><span className="text-neutral-500">Version:</span> v{preview.summary.version}</div>
+                      <div><span className="text-neutral-500">Parameters:</span> {preview.summary.parameterCount}</div>
+                      <div><span className="text-neutral-500">History:</span> {preview.summary.versionCount} versions</div>
+                      <div><span className="text-neutral-500">Presets:</span> {preview.summary.presetCount}</div>
+                      {preview.summary.backtest && (
+                        <div className="col-span-2">
+                          <span className="text-neutral-500">Sample backtest:</span>{' '}
+                          {preview.summary.backtest.name}
+                          {typeof preview.summary.backtest.summary.totalReturnPercent === 'number' && (
+                            <> ({preview.summary.backtest.summary.totalReturnPercent.toFixed(2)}% return)</>
+                          )}
+                        </div>
+                      )}
+                    </div>
                   )}
-                  <h4 className={cn(
-                    'font-medium',
-                    importResult.success
-                      ? 'text-success-800 dark:text-success-200'
-                      : 'text-danger-800 dark:text-danger-200'
-                  )}>
-                    {importResult.success ? 'Import Successful' : 'Import Failed'}
-                  </h4>
                 </div>
 
-                {importResult.errors.length > 0 && (
-                  <div className="mb-2">
+                {preview.errors.length > 0 && (
+                  <div>
                     <p className="text-sm font-medium text-danger-700 dark:text-danger-300 mb-1">
                       Errors:
                     </p>
                     <ul className="text-sm text-danger-600 dark:text-danger-400 space-y-1">
-                      {importResult.errors.map((error, index) => (
+                      {preview.errors.map((error, index) => (
                         <li key={index} className="flex items-start space-x-2">
                           <span className="w-1 h-1 bg-danger-500 rounded-full mt-2"></span>
                           <span>{error}</span>
@@ -528,13 +510,13 @@ export function StrategyImportExport({
                   </div>
                 )}
 
-                {importResult.warnings.length > 0 && (
+                {(preview.warnings.length > 0 || preview.conflicts.length > 0) && (
                   <div>
                     <p className="text-sm font-medium text-warning-700 dark:text-warning-300 mb-1">
                       Warnings:
                     </p>
                     <ul className="text-sm text-warning-600 dark:text-warning-400 space-y-1">
-                      {importResult.warnings.map((warning, index) => (
+                      {[...preview.conflicts.map(conflict => conflict.message), ...preview.warnings].map((warning, index) => (
                         <li key={index} className="flex items-start space-x-2">
                           <span className="w-1 h-1 bg-warning-500 rounded-full mt-2"></span>
                           <span>{warning}</span>
@@ -543,20 +525,40 @@ export function StrategyImportExport({
                     </ul>
                   </div>
                 )}
+
+                {preview.valid && (
+                  <Input
+                    label="Import as"
+                    value={importName}
+                    onChange={(e) => setImportName(e.target.value)}
+                    error={nameTaken ? 'A strategy with this name already exists' : undefined}
+                  />
+                )}
               </motion.div>
             )}
           </div>
 
           <div className="flex justify-end space-x-3">
-            <Button variant="outline" onClick={() => setShowImportModal(false)}>
+            <Button variant="outline" onClick={closeImportModal}>
               Cancel
             </Button>
-            <Button 
-              onClick={handleImport}
-              disabled={!importData.trim()}
-            >
-              Import
-            </Button>
+            {preview?.valid ? (
+              <Button
+                onClick={handleImport}
+                loading={importing}
+                disabled={!importName.trim() || nameTaken}
+              >
+                Apply Import
+              </Button>
+            ) : (
+              <Button
+                onClick={handlePreview}
+                loading={previewing}
+                disabled={!importData.trim()}
+              >
+                Preview Import
+              </Button>
+            )}
           </div>
         </div>
       </Modal>
@@ -585,7 +587,7 @@ export function StrategyImportExport({
               <p className="text-neutral-600 dark:text-neutral-400">
                 Share this link to allow others to import your strategy:
               </p>
-              
+
               <div className="flex items-center space-x-2">
                 <Input
                   value={shareableLink}
@@ -601,7 +603,7 @@ export function StrategyImportExport({
                   <span>Copy</span>
                 </Button>
               </div>
-              
+
               <p className="text-sm text-neutral-500 dark:text-neutral-400">
                 Note: This link contains your strategy data and will work as long as the URL remains accessible.
               </p>
@@ -617,4 +619,4 @@ export function StrategyImportExport({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
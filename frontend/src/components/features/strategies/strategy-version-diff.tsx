@@ -0,0 +1,167 @@
+'use client';
+
+import { ArrowRight, Code, Settings, Workflow } from 'lucide-react';
+import { DiffCell, DiffRow, StrategyVersionDiff as VersionDiff } from '@/lib/api/strategies';
+import { describeRule } from '@/lib/strategy-rules';
+import { StrategyRules } from '@/types/trading';
+import { cn } from '@/lib/utils';
+
+interface StrategyVersionDiffProps {
+  comparison: VersionDiff;
+  className?: string;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+function CodeCell({ cell, tone }: { cell: DiffCell | null; tone?: 'added' | 'removed' }) {
+  return (
+    <div className={cn(
+      'flex min-w-0',
+      !cell && 'bg-neutral-100 dark:bg-neutral-800',
+      cell && tone === 'removed' && 'bg-danger-50 dark:bg-danger-900/20',
+      cell && tone === 'added' && 'bg-success-50 dark:bg-success-900/20'
+    )}>
+      <span className="w-10 flex-shrink-0 pr-2 text-right text-neutral-400 select-none">
+        {cell?.number ?? ''}
+      </span>
+      <span className="whitespace-pre overflow-hidden text-ellipsis text-neutral-800 dark:text-neutral-200">
+        {cell?.text ?? ''}
+      </span>
+    </div>
+  );
+}
+
+function RuleList({ rules }: { rules: StrategyRules | null }) {
+  if (!rules) {
+    return <p className="text-neutral-500 dark:text-neutral-400">No rules</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {(['entry', 'exit'] as const).map(side => (
+        <div key={side}>
+          <p className="text-xs font-medium uppercase text-neutral-500 dark:text-neutral-400">{side}</p>
+          {rules[side].length === 0 ? (
+            <p className="text-neutral-500 dark:text-neutral-400">None</p>
+          ) : (
+            <ul className="space-y-1">
+              {rules[side].map((rule, index) => (
+                <li key={index} className="font-mono text-xs text-neutral-800 dark:text-neutral-200">
+                  {describeRule(rule)} → {rule.action.type}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function StrategyVersionDiff({ comparison, className }: StrategyVersionDiffProps) {
+  const { from, to, diff } = comparison;
+  const codeChanged = diff.code.added > 0 || diff.code.removed > 0;
+  const unchanged = !diff.type && !codeChanged && diff.parameters.length === 0 && !diff.rules;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex items-center space-x-2 text-sm font-semibold text-neutral-900 dark:text-white">
+        <span>v{from.version}</span>
+        <ArrowRight className="h-4 w-4 text-neutral-500" />
+        <span>v{to.version}</span>
+        {diff.type && (
+          <span className="ml-2 text-xs font-normal text-warning-700 dark:text-warning-300">
+            Type changed from {diff.type.from} to {diff.type.to}
+          </span>
+        )}
+      </div>
+
+      {unchanged && (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          These versions have the same code, parameters and rules.
+        </p>
+      )}
+
+      {diff.parameters.length > 0 && (
+        <div className="border border-neutral-200 dark:border-neutral-700 rounded-lg overflow-hidden">
+          <div className="flex items-center space-x-2 px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border-b border-neutral-200 dark:border-neutral-700">
+            <Settings className="h-4 w-4 text-neutral-500" />
+            <span className="text-sm font-medium text-neutral-900 dark:text-white">Parameters</span>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500 dark:text-neutral-400">
+                <th className="px-3 py-2 font-medium">Parameter</th>
+                <th className="px-3 py-2 font-medium">v{from.version}</th>
+                <th className="px-3 py-2 font-medium">v{to.version}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.parameters.map(change => (
+                <tr key={change.key} className="border-t border-neutral-100 dark:border-neutral-700">
+                  <td className="px-3 py-2 font-mono text-neutral-900 dark:text-white">{change.key}</td>
+                  <td className={cn(
+                    'px-3 py-2 font-mono',
+                    change.change !== 'added' && 'text-danger-700 dark:text-danger-300'
+                  )}>
+                    {formatValue(change.from)}
+                  </td>
+                  <td className={cn(
+                    'px-3 py-2 font-mono',
+                    change.change !== 'removed' && 'text-success-700 dark:text-success-300'
+                  )}>
+                    {formatValue(change.to)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diff.rules && (
+        <div className="border border-neutral-200 dark:border-neutral-700 rounded-lg overflow-hidden">
+          <div className="flex items-center space-x-2 px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border-b border-neutral-200 dark:border-neutral-700">
+            <Workflow className="h-4 w-4 text-neutral-500" />
+            <span className="text-sm font-medium text-neutral-900 dark:text-white">Rules</span>
+          </div>
+          <div className="grid grid-cols-2 divide-x divide-neutral-200 dark:divide-neutral-700 text-sm">
+            <div className="p-3">
+              <RuleList rules={diff.rules.from} />
+            </div>
+            <div className="p-3">
+              <RuleList rules={diff.rules.to} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {codeChanged && (
+        <div className="border border-neutral-200 dark:border-neutral-700 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border-b border-neutral-200 dark:border-neutral-700">
+            <div className="flex items-center space-x-2">
+              <Code className="h-4 w-4 text-neutral-500" />
+              <span className="text-sm font-medium text-neutral-900 dark:text-white">Code</span>
+            </div>
+            <span className="text-xs">
+              <span className="text-success-600">+{diff.code.added}</span>
+              {' '}
+              <span className="text-danger-600">−{diff.code.removed}</span>
+            </span>
+          </div>
+          <div className="max-h-[480px] overflow-auto font-mono text-xs">
+            {diff.code.rows.map((row: DiffRow, index) => (
+              <div key={index} className="grid grid-cols-2 divide-x divide-neutral-200 dark:divide-neutral-700">
+                <CodeCell cell={row.left} tone={row.type === 'equal' ? undefined : 'removed'} />
+                <CodeCell cell={row.right} tone={row.type === 'equal' ? undefined : 'added'} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,93 +1,161 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { 
-  Save, 
-  GitBranch, 
-  Clock, 
-  Tag, 
-  MessageSquare,
+import {
+  Save,
+  GitBranch,
+  GitCompare,
+  Clock,
+  Tag,
+  User,
+  RotateCcw,
   CheckCircle,
-  AlertCircle
+  Loader2
 } from 'lucide-react';
-import { Button, Input, Modal } from '@/components/ui';
+import { Button, Modal, Select, useToast } from '@/components/ui';
+import {
+  strategiesApi,
+  StrategyVersion,
+  StrategyVersionDiff as VersionDiff,
+  VersionBump,
+} from '@/lib/api/strategies';
 import { Strategy } from '@/types/trading';
 import { cn } from '@/lib/utils';
+import { StrategyVersionDiff } from './strategy-version-diff';
 
-interface StrategyVersion {
-  id: string;
-  version: string;
-  description: string;
-  createdAt: Date;
-  isActive: boolean;
-  changes: string[];
+export interface VersionSaveOptions {
+  message: string;
+  bump: VersionBump;
 }
 
 interface StrategyVersionManagerProps {
   strategy: Strategy;
-  onSave: (strategy: Strategy, version: StrategyVersion) => void;
+  hasUnsavedChanges?: boolean;
+  onSave: (strategy: Strategy, version: VersionSaveOptions) => void | Promise<void>;
+  onRollback?: () => void;
   className?: string;
 }
 
+const CHANGE_LABELS: Record<string, string> = {
+  type: 'Type',
+  code: 'Code',
+  parameters: 'Parameters',
+  rules: 'Rules',
+};
+
+const bumpVersion = (version: string, bump: VersionBump) => {
+  const [major, minor, patch] = version.split('.').map(Number);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
+
 export function StrategyVersionManager({
   strategy,
+  hasUnsavedChanges = false,
   onSave,
+  onRollback,
   className,
 }: StrategyVersionManagerProps) {
+  const { addToast } = useToast();
+  const [versions, setVersions] = useState<StrategyVersion[]>([]);
+  const [currentVersion, setCurrentVersion] = useState(strategy.version || '1.0.0');
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [showSaveModal, setShowSaveModal] = useState(false);
-  const [versionData, setVersionData] = useState({
-    version: '',
-    description: '',
-  });
-  const [versions] = useState<StrategyVersion[]>([
-    {
-      id: 'v1',
-      version: '1.0.0',
-      description: 'Initial version with basic MA crossover logic',
-      createdAt: new Date('2024-01-15T10:30:00Z'),
-      isActive: false,
-      changes: ['Added onTick function', 'Implemented MA crossover logic', 'Added stop loss and take profit'],
-    },
-    {
-      id: 'v2',
-      version: '1.1.0',
-      description: 'Improved risk management and added RSI filter',
-      createdAt: new Date('2024-01-20T14:45:00Z'),
-      isActive: true,
-      changes: ['Added RSI filter', 'Improved position sizing', 'Enhanced error handling'],
-    },
-  ]);
-
-  const handleSave = () => {
-    if (!versionData.version.trim() || !versionData.description.trim()) {
+  const [versionData, setVersionData] = useState<VersionSaveOptions>({ message: '', bump: 'patch' });
+  const [saving, setSaving] = useState(false);
+  const [compare, setCompare] = useState({ from: '', to: '' });
+  const [comparison, setComparison] = useState<VersionDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [rollbackTarget, setRollbackTarget] = useState<StrategyVersion | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setLoadError(null);
+      const history = await strategiesApi.getVersions(strategy.id);
+      setVersions(history.versions);
+      setCurrentVersion(history.currentVersion);
+      setCompare({
+        from: history.versions[1]?.version || history.currentVersion,
+        to: history.currentVersion,
+      });
+    } catch (err) {
+      console.error('Failed to load version history:', err);
+      setLoadError(errorMessage(err, 'Failed to load version history'));
+    } finally {
+      setLoading(false);
+    }
+  }, [strategy.id]);
+
+  // Reload whenever a save or rollback moves the strategy to a new version
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, strategy.version]);
+
+  const handleSave = async () => {
+    if (!versionData.message.trim()) {
       return;
     }
 
-    const newVersion: StrategyVersion = {
-      id: `v${Date.now()}`,
-      version: versionData.version.trim(),
-      description: versionData.description.trim(),
-      createdAt: new Date(),
-      isActive: true,
-      changes: [], // In real implementation, this would be calculated
-    };
-
-    onSave(strategy, newVersion);
-    setShowSaveModal(false);
-    setVersionData({ version: '', description: '' });
+    try {
+      setSaving(true);
+      await onSave(strategy, { message: versionData.message.trim(), bump: versionData.bump });
+      setShowSaveModal(false);
+      setVersionData({ message: '', bump: 'patch' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCompare = async (from: string, to: string) => {
+    try {
+      setComparing(true);
+      setComparison(await strategiesApi.diffVersions(strategy.id, from, to));
+    } catch (err) {
+      addToast({
+        type: 'error',
+        title: 'Error',
+        description: errorMessage(err, 'Failed to compare versions'),
+      });
+    } finally {
+      setComparing(false);
+    }
   };
 
-  const getNextVersion = () => {
-    if (versions.length === 0) return '1.0.0';
-    
-    const latestVersion = versions
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
-    
-    const [major, minor, patch] = latestVersion.version.split('.').map(Number);
-    return `${major}.${minor}.${patch + 1}`;
+  const handleRollback = async () => {
+    if (!rollbackTarget) return;
+
+    try {
+      setRollingBack(true);
+      const { version } = await strategiesApi.rollbackVersion(strategy.id, rollbackTarget.version);
+      addToast({
+        type: 'success',
+        title: 'Rolled Back',
+        description: `Restored v${rollbackTarget.version} as v${version.version}`,
+      });
+      setRollbackTarget(null);
+      await loadVersions();
+      onRollback?.();
+    } catch (err) {
+      addToast({
+        type: 'error',
+        title: 'Error',
+        description: errorMessage(err, 'Failed to roll back strategy'),
+      });
+    } finally {
+      setRollingBack(false);
+    }
   };
 
+  const versionOptions = versions.map(version => ({ value: version.version, label: `v${version.version}` }));
+
   return (
     <div className={cn('space-y-4', className)}>
       {/* Save Button */}
@@ -98,12 +166,14 @@ export function StrategyVersionManager({
             Version Management
           </h3>
         </div>
-        
+
         <Button
           onClick={() => {
-            setVersionData({ version: getNextVersion(), description: '' });
+            setVersionData({ message: '', bump: 'patch' });
             setShowSaveModal(true);
           }}
+          disabled={!hasUnsavedChanges}
+          title={hasUnsavedChanges ? undefined : 'Change the code, parameters or rules to save a new version'}
           className="flex items-center space-x-2"
         >
           <Save className="h-4 w-4" />
@@ -111,74 +181,150 @@ export function StrategyVersionManager({
         </Button>
       </div>
 
-      {/* Version History */}
-      <div className="space-y-3">
-        {versions.map((version) => (
-          <motion.div
-            key={version.id}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className={cn(
-              'border rounded-lg p-4 transition-colors',
-              version.isActive
-                ? 'border-primary-200 bg-primary-50 dark:border-primary-800 dark:bg-primary-900/20'
-                : 'border-neutral-200 bg-white dark:border-neutral-700 dark:bg-neutral-800'
-            )}
+      <p className="text-sm text-neutral-600 dark:text-neutral-400">
+        Every save that changes the code, parameters or rules records a version. Backtests
+        remember the version they ran.
+      </p>
+
+      {/* Compare */}
+      {versions.length > 1 && (
+        <div className="flex flex-wrap items-end gap-3 p-3 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+          <div className="w-32">
+            <Select
+              size="sm"
+              label="From"
+              value={compare.from}
+              onChange={(e) => setCompare(prev => ({ ...prev, from: e.target.value }))}
+              options={versionOptions}
+            />
+          </div>
+          <div className="w-32">
+            <Select
+              size="sm"
+              label="To"
+              value={compare.to}
+              onChange={(e) => setCompare(prev => ({ ...prev, to: e.target.value }))}
+              options={versionOptions}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleCompare(compare.from, compare.to)}
+            disabled={comparing || compare.from === compare.to}
+            className="flex items-center space-x-2"
           >
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <div className="flex items-center space-x-2 mb-2">
-                  <Tag className="h-4 w-4 text-neutral-500" />
-                  <span className="font-semibold text-neutral-900 dark:text-white">
-                    v{version.version}
-                  </span>
-                  {version.isActive && (
-                    <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-success-100 text-success-800 dark:bg-success-900/20 dark:text-success-300 rounded">
-                      <CheckCircle className="h-3 w-3 mr-1" />
-                      Active
-                    </span>
-                  )}
-                </div>
-                
-                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">
-                  {version.description}
-                </p>
-                
-                <div className="flex items-center space-x-4 text-xs text-neutral-500 dark:text-neutral-400">
-                  <div className="flex items-center space-x-1">
-                    <Clock className="h-3 w-3" />
-                    <span>{version.createdAt.toLocaleDateString()}</span>
+            {comparing ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitCompare className="h-4 w-4" />}
+            <span>Compare</span>
+          </Button>
+        </div>
+      )}
+
+      {/* Version History */}
+      {loading && versions.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+          <span className="ml-2 text-neutral-600 dark:text-neutral-400">Loading versions...</span>
+        </div>
+      ) : loadError ? (
+        <div className="text-center py-8">
+          <p className="text-sm text-danger-600 dark:text-danger-400 mb-3">{loadError}</p>
+          <Button variant="outline" size="sm" onClick={loadVersions}>
+            Retry
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {versions.map((version) => {
+            const isCurrent = version.version === currentVersion;
+
+            return (
+              <motion.div
+                key={version._id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={cn(
+                  'border rounded-lg p-4 transition-colors',
+                  isCurrent
+                    ? 'border-primary-200 bg-primary-50 dark:border-primary-800 dark:bg-primary-900/20'
+                    : 'border-neutral-200 bg-white dark:border-neutral-700 dark:bg-neutral-800'
+                )}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Tag className="h-4 w-4 text-neutral-500" />
+                      <span className="font-semibold text-neutral-900 dark:text-white">
+                        v{version.version}
+                      </span>
+                      {isCurrent && (
+                        <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-success-100 text-success-800 dark:bg-success-900/20 dark:text-success-300 rounded">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Current
+                        </span>
+                      )}
+                      {version.changes.map(change => (
+                        <span
+                          key={change}
+                          className="px-2 py-0.5 text-xs bg-neutral-100 text-neutral-700 dark:bg-neutral-700 dark:text-neutral-300 rounded"
+                        >
+                          {CHANGE_LABELS[change] || change}
+                        </span>
+                      ))}
+                    </div>
+
+                    <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2">
+                      {version.message}
+                      {version.restoredFrom && (
+                        <span className="ml-1 text-neutral-500">(restores v{version.restoredFrom})</span>
+                      )}
+                    </p>
+
+                    <div className="flex items-center space-x-4 text-xs text-neutral-500 dark:text-neutral-400">
+                      <div className="flex items-center space-x-1">
+                        <Clock className="h-3 w-3" />
+                        <span>{new Date(version.createdAt).toLocaleString()}</span>
+                      </div>
+                      {version.author && (
+                        <div className="flex items-center space-x-1">
+                          <User className="h-3 w-3" />
+                          <span>{version.author.name}</span>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                  {version.changes.length > 0 && (
-                    <div className="flex items-center space-x-1">
-                      <MessageSquare className="h-3 w-3" />
-                      <span>{version.changes.length} changes</span>
+
+                  {!isCurrent && (
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCompare(version.version, currentVersion)}
+                        disabled={comparing}
+                        className="flex items-center space-x-1"
+                      >
+                        <GitCompare className="h-4 w-4" />
+                        <span>Diff</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRollbackTarget(version)}
+                        disabled={hasUnsavedChanges}
+                        title={hasUnsavedChanges ? 'Save or discard your changes before rolling back' : undefined}
+                        className="flex items-center space-x-1"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        <span>Roll Back</span>
+                      </Button>
                     </div>
                   )}
                 </div>
-                
-                {version.changes.length > 0 && (
-                  <div className="mt-2">
-                    <details className="text-sm">
-                      <summary className="cursor-pointer text-neutral-600 dark:text-neutral-400 hover:text-neutral-800 dark:hover:text-neutral-200">
-                        View changes
-                      </summary>
-                      <ul className="mt-2 space-y-1 text-neutral-600 dark:text-neutral-400">
-                        {version.changes.map((change, index) => (
-                          <li key={index} className="flex items-center space-x-2">
-                            <span className="w-1 h-1 bg-neutral-400 rounded-full"></span>
-                            <span>{change}</span>
-                          </li>
-                        ))}
-                      </ul>
-                    </details>
-                  </div>
-                )}
-              </div>
-            </div>
-          </motion.div>
-        ))}
-      </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
 
       {/* Save Version Modal */}
       <Modal
@@ -192,17 +338,20 @@ export function StrategyVersionManager({
               Save New Version
             </h2>
             <p className="text-neutral-600 dark:text-neutral-400">
-              Create a new version of your strategy with a description of changes.
+              Save your changes as a new version with a description of what changed.
             </p>
           </div>
 
           <div className="space-y-4">
-            <Input
+            <Select
               label="Version Number"
-              value={versionData.version}
-              onChange={(e) => setVersionData(prev => ({ ...prev, version: e.target.value }))}
-              placeholder="e.g., 1.2.0"
-              required
+              value={versionData.bump}
+              onChange={(e) => setVersionData(prev => ({ ...prev, bump: e.target.value as VersionBump }))}
+              options={[
+                { value: 'patch', label: `v${bumpVersion(currentVersion, 'patch')} (patch: fixes and tweaks)` },
+                { value: 'minor', label: `v${bumpVersion(currentVersion, 'minor')} (minor: new behaviour)` },
+                { value: 'major', label: `v${bumpVersion(currentVersion, 'major')} (major: reworked logic)` },
+              ]}
             />
 
             <div>
@@ -210,11 +359,12 @@ export function StrategyVersionManager({
                 Description
               </label>
               <textarea
-                value={versionData.description}
-                onChange={(e) => setVersionData(prev => ({ ...prev, description: e.target.value }))}
+                value={versionData.message}
+                onChange={(e) => setVersionData(prev => ({ ...prev, message: e.target.value }))}
                 placeholder="Describe the changes in this version..."
                 className="w-full px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white placeholder-neutral-500 dark:placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                 rows={4}
+                maxLength={500}
                 required
               />
             </div>
@@ -229,13 +379,49 @@ export function StrategyVersionManager({
             </Button>
             <Button
               onClick={handleSave}
-              disabled={!versionData.version.trim() || !versionData.description.trim()}
+              disabled={saving || !versionData.message.trim()}
             >
               Save Version
             </Button>
           </div>
         </div>
       </Modal>
+
+      {/* Diff Modal */}
+      <Modal
+        isOpen={!!comparison}
+        onClose={() => setComparison(null)}
+        title="Compare Versions"
+        size="xl"
+      >
+        {comparison && <StrategyVersionDiff comparison={comparison} />}
+      </Modal>
+
+      {/* Rollback Modal */}
+      <Modal
+        isOpen={!!rollbackTarget}
+        onClose={() => setRollbackTarget(null)}
+        title={rollbackTarget ? `Roll back to v${rollbackTarget.version}?` : undefined}
+        size="sm"
+      >
+        {rollbackTarget && (
+          <div className="space-y-6">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              The code, parameters and rules of v{rollbackTarget.version} are restored as
+              v{bumpVersion(currentVersion, 'patch')}. Later versions stay in the history.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => setRollbackTarget(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleRollback} disabled={rollingBack}>
+                {rollingBack && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Roll Back
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </div>
   );
-}
\ No newline at end of file
+}
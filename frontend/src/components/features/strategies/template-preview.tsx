@@ -7,8 +7,10 @@ import {
     Code,
     Settings,
     Play,
-    Copy,
+    GitFork,
     Star,
+    EyeOff,
+    MessageSquare,
     TrendingUp,
     BarChart3,
     Activity
@@ -16,13 +18,15 @@ import {
 import { Button, Modal, Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui';
 import { StrategyTemplate, ParameterSchema } from '@/types/trading';
 import { cn } from '@/lib/utils';
+import { TemplateReviews } from './template-reviews';
 
 interface TemplatePreviewProps {
     template: StrategyTemplate | null;
     isOpen: boolean;
     onClose: () => void;
     onUseTemplate: (template: StrategyTemplate) => void;
-    onCloneTemplate: (template: StrategyTemplate) => void;
+    onForkTemplate: (template: StrategyTemplate) => void;
+    onHideTemplate?: (template: StrategyTemplate) => void; // admins only
     className?: string;
 }
 
@@ -38,7 +42,8 @@ export function TemplatePreview({
     isOpen,
     onClose,
     onUseTemplate,
-    onCloneTemplate,
+    onForkTemplate,
+    onHideTemplate,
     className,
 }: TemplatePreviewProps) {
     const [activeTab, setActiveTab] = useState('overview');
@@ -195,6 +200,26 @@ export function TemplatePreview({
                                 <span className="text-sm text-neutral-500 dark:text-neutral-400">
                                     Created {template.createdAt.toLocaleDateString()}
                                 </span>
+                                {!template.isBuiltIn && (
+                                    <span className="text-sm text-neutral-500 dark:text-neutral-400">
+                                        by {template.author || 'Unknown'}{template.version && ` · v${template.version}`}
+                                    </span>
+                                )}
+                            </div>
+                            <div className="flex items-center space-x-4 mt-2 text-sm text-neutral-600 dark:text-neutral-400">
+                                <span className="flex items-center space-x-1">
+                                    <Star className="h-4 w-4 text-warning-500" />
+                                    <span>
+                                        {template.ratingCount
+                                            ? `${template.rating?.toFixed(1)} (${template.ratingCount} reviews)`
+                                            : 'No reviews'}
+                                    </span>
+                                </span>
+                                <span className="flex items-center space-x-1">
+                                    <GitFork className="h-4 w-4" />
+                                    <span>{template.forkCount || 0} forks</span>
+                                </span>
+                                <span>{template.usageCount || 0} uses</span>
                             </div>
                         </div>
                     </div>
@@ -216,7 +241,7 @@ export function TemplatePreview({
 
                 {/* Tabs */}
                 <Tabs defaultValue="overview" value={activeTab} onValueChange={setActiveTab}>
-                    <TabsList className="grid w-full grid-cols-3">
+                    <TabsList className="grid w-full grid-cols-4">
                         <TabsTrigger value="overview" className="flex items-center space-x-2">
                             <Settings className="h-4 w-4" />
                             <span>Overview</span>
@@ -229,6 +254,10 @@ export function TemplatePreview({
                             <Code className="h-4 w-4" />
                             <span>Code</span>
                         </TabsTrigger>
+                        <TabsTrigger value="reviews" className="flex items-center space-x-2">
+                            <MessageSquare className="h-4 w-4" />
+                            <span>Reviews</span>
+                        </TabsTrigger>
                     </TabsList>
 
                     <TabsContent value="overview" className="mt-6 overflow-y-auto max-h-72">
@@ -318,6 +347,10 @@ export function TemplatePreview({
                             {renderCode()}
                         </div>
                     </TabsContent>
+
+                    <TabsContent value="reviews" className="mt-6 overflow-y-auto max-h-72">
+                        {activeTab === 'reviews' && <TemplateReviews templateId={template.id} />}
+                    </TabsContent>
                 </Tabs>
 
                 {/* Actions */}
@@ -325,12 +358,22 @@ export function TemplatePreview({
                     <div className="flex items-center space-x-3">
                         <Button
                             variant="outline"
-                            onClick={() => onCloneTemplate(template)}
+                            onClick={() => onForkTemplate(template)}
                             className="flex items-center space-x-2"
                         >
-                            <Copy className="h-4 w-4" />
-                            <span>Clone Template</span>
+                            <GitFork className="h-4 w-4" />
+                            <span>Fork Template</span>
                         </Button>
+                        {onHideTemplate && !template.isBuiltIn && (
+                            <Button
+                                variant="danger"
+                                onClick={() => onHideTemplate(template)}
+                                className="flex items-center space-x-2"
+                            >
+                                <EyeOff className="h-4 w-4" />
+                                <span>Hide Template</span>
+                            </Button>
+                        )}
                     </div>
 
                     <div className="flex items-center space-x-3">
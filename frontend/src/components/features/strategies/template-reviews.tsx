@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MessageSquare, Star } from 'lucide-react';
+import { Button, useToast } from '@/components/ui';
+import { strategiesApi, TemplateReview } from '@/lib/api/strategies';
+import { cn } from '@/lib/utils';
+
+interface TemplateReviewsProps {
+  templateId: string;
+  className?: string;
+}
+
+const PAGE_SIZE = 10;
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
+
+function StarRating({
+  value,
+  onChange,
+  size = 'sm',
+}: {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'md';
+}) {
+  return (
+    <div className="flex items-center space-x-0.5">
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star
+            className={cn(
+              size === 'md' ? 'h-5 w-5' : 'h-3.5 w-3.5',
+              star <= Math.round(value)
+                ? 'text-warning-500 fill-warning-500'
+                : 'text-neutral-300 dark:text-neutral-600'
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button key={star} type="button" onClick={() => onChange(star)} title={`${star} of 5`}>
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+export function TemplateReviews({ templateId, className }: TemplateReviewsProps) {
+  const { addToast } = useToast();
+  const [reviews, setReviews] = useState<TemplateReview[]>([]);
+  const [summary, setSummary] = useState({ rating: 0, ratingCount: 0 });
+  const [hasMore, setHasMore] = useState(false);
+  const [isOwner, setIsOwner] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([
+      strategiesApi.getTemplate(templateId),
+      strategiesApi.getTemplateReviews(templateId, PAGE_SIZE, 0),
+    ])
+      .then(([template, result]) => {
+        setSummary({ rating: template.rating, ratingCount: template.ratingCount });
+        setIsOwner(template.isOwner);
+        setRating(template.myReview?.rating || 0);
+        setComment(template.myReview?.comment || '');
+        setReviews(result.reviews);
+        setHasMore(result.pagination.hasMore);
+      })
+      .catch(err => console.error('Failed to load template reviews:', err))
+      .finally(() => setLoading(false));
+  }, [templateId]);
+
+  const loadMore = async () => {
+    try {
+      const result = await strategiesApi.getTemplateReviews(templateId, PAGE_SIZE, reviews.length);
+      setReviews(prev => [...prev, ...result.reviews]);
+      setHasMore(result.pagination.hasMore);
+    } catch (err) {
+      console.error('Failed to load template reviews:', err);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (rating < 1) return;
+
+    try {
+      setSubmitting(true);
+      const result = await strategiesApi.reviewTemplate(templateId, rating, comment.trim());
+      setSummary({ rating: result.rating, ratingCount: result.ratingCount });
+
+      // Show the user's review first, replacing an earlier one
+      const latest = await strategiesApi.getTemplateReviews(templateId, PAGE_SIZE, 0);
+      setReviews(latest.reviews);
+      setHasMore(latest.pagination.hasMore);
+
+      addToast({
+        type: 'success',
+        title: 'Review Saved',
+        description: 'Thanks for rating this template',
+      });
+    } catch (err) {
+      addToast({
+        type: 'error',
+        title: 'Review Failed',
+        description: errorMessage(err, 'Failed to save review'),
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-sm text-neutral-500 dark:text-neutral-400">
+        Loading reviews...
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="flex items-center space-x-3">
+        <StarRating value={summary.rating} size="md" />
+        <span className="text-sm text-neutral-700 dark:text-neutral-300">
+          {summary.ratingCount > 0
+            ? `${summary.rating.toFixed(1)} out of 5 from ${summary.ratingCount} review${summary.ratingCount === 1 ? '' : 's'}`
+            : 'No reviews yet'}
+        </span>
+      </div>
+
+      {!isOwner && (
+        <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4 border border-neutral-200 dark:border-neutral-700 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+              Your Rating
+            </span>
+            <StarRating value={rating} onChange={setRating} size="md" />
+          </div>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={1000}
+            placeholder="What worked for you, and what didn't? (optional)"
+            className="w-full h-20 px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white placeholder-neutral-500 dark:placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSubmit} loading={submitting} disabled={rating < 1}>
+              Submit Review
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {reviews.length === 0 ? (
+        <div className="text-center py-6">
+          <MessageSquare className="h-10 w-10 text-neutral-400 mx-auto mb-2" />
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Be the first to review this template
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map(review => (
+            <div
+              key={review._id}
+              className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-3"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-neutral-900 dark:text-white">
+                  {review.user?.name || 'Anonymous'}
+                </span>
+                <div className="flex items-center space-x-2">
+                  <StarRating value={review.rating} />
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {new Date(review.updatedAt).toLocaleDateString()}
+                  </span>
+                </div>
+              </div>
+              {review.comment && (
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  {review.comment}
+                </p>
+              )}
+            </div>
+          ))}
+          {hasMore && (
+            <Button variant="ghost" size="sm" onClick={loadMore}>
+              Show more reviews
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
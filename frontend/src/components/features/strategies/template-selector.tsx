@@ -5,8 +5,9 @@ import { motion } from 'framer-motion';
 import { 
   Search, 
   Filter, 
-  Copy, 
+  GitFork, 
   Star, 
+  Lock, 
   TrendingUp, 
   BarChart3, 
   Activity,
@@ -20,12 +21,13 @@ import { cn } from '@/lib/utils';
 interface TemplateSelectorProps {
   templates: StrategyTemplate[];
   onSelectTemplate: (template: StrategyTemplate) => void;
-  onCloneTemplate: (template: StrategyTemplate) => void;
+  onForkTemplate: (template: StrategyTemplate) => void;
   onPreviewTemplate: (template: StrategyTemplate) => void;
   className?: string;
 }
 
 type TemplateCategory = 'All' | 'Trend Following' | 'Mean Reversion' | 'Volatility' | 'Momentum' | 'Custom';
+type TemplateSource = 'all' | 'builtin' | 'community';
 
 const categoryIcons: Record<string, React.ComponentType<any>> = {
   'Trend Following': TrendingUp,
@@ -38,12 +40,13 @@ const categoryIcons: Record<string, React.ComponentType<any>> = {
 export function TemplateSelector({
   templates,
   onSelectTemplate,
-  onCloneTemplate,
+  onForkTemplate,
   onPreviewTemplate,
   className,
 }: TemplateSelectorProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<TemplateCategory>('All');
+  const [selectedSource, setSelectedSource] = useState<TemplateSource>('all');
 
   // Get unique categories from templates
   const categories = useMemo(() => {
@@ -57,13 +60,15 @@ export function TemplateSelector({
       const matchesSearch = template.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                           template.description.toLowerCase().includes(searchQuery.toLowerCase());
       const matchesCategory = selectedCategory === 'All' || template.category === selectedCategory;
-      return matchesSearch && matchesCategory;
+      const matchesSource = selectedSource === 'all' ||
+                          (selectedSource === 'builtin') === template.isBuiltIn;
+      return matchesSearch && matchesCategory && matchesSource;
     });
 
     // Sort by name
     filtered.sort((a, b) => a.name.localeCompare(b.name));
     return filtered;
-  }, [templates, searchQuery, selectedCategory]);
+  }, [templates, searchQuery, selectedCategory, selectedSource]);
 
   const getCategoryIcon = (category: string) => {
     const Icon = categoryIcons[category] || Plus;
@@ -99,11 +104,35 @@ export function TemplateSelector({
                     <Star className="h-3 w-3 text-warning-500" />
                   </div>
                 )}
+                {template.isPublic === false && (
+                  <span className="flex items-center space-x-1 text-xs text-neutral-500 dark:text-neutral-400">
+                    <Lock className="h-3 w-3" />
+                    <span>Private</span>
+                  </span>
+                )}
               </div>
             </div>
           </div>
         </div>
 
+        {!template.isBuiltIn && (
+          <div className="flex items-center justify-between mb-3 text-xs text-neutral-500 dark:text-neutral-400">
+            <span className="truncate">by {template.author || 'Unknown'}</span>
+            <div className="flex items-center space-x-3 flex-shrink-0">
+              <span className="flex items-center space-x-1" title={`${template.ratingCount || 0} reviews`}>
+                <Star className="h-3 w-3 text-warning-500" />
+                <span>
+                  {template.ratingCount ? `${template.rating?.toFixed(1)} (${template.ratingCount})` : 'No reviews'}
+                </span>
+              </span>
+              <span className="flex items-center space-x-1" title="Forks">
+                <GitFork className="h-3 w-3" />
+                <span>{template.forkCount || 0}</span>
+              </span>
+            </div>
+          </div>
+        )}
+
         <p className="text-xs text-neutral-600 dark:text-neutral-400 mb-3 line-clamp-2">
           {template.description}
         </p>
@@ -143,11 +172,11 @@ export function TemplateSelector({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => onCloneTemplate(template)}
+              onClick={() => onForkTemplate(template)}
               className="flex items-center space-x-1 text-xs px-2 py-1 h-7"
             >
-              <Copy className="h-3 w-3" />
-              <span>Clone</span>
+              <GitFork className="h-3 w-3" />
+              <span>Fork</span>
             </Button>
           </div>
           <Button
@@ -192,6 +221,15 @@ export function TemplateSelector({
               </option>
             ))}
           </select>
+          <select
+            value={selectedSource}
+            onChange={(e) => setSelectedSource(e.target.value as TemplateSource)}
+            className="px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 h-9"
+          >
+            <option value="all">All Sources</option>
+            <option value="builtin">Built-in</option>
+            <option value="community">Community</option>
+          </select>
         </div>
       </div>
 
@@ -2,7 +2,7 @@ export { BaseChart } from './base-chart';
 export type { BaseChartProps } from './base-chart';
 
 export { LineChart } from './line-chart';
-export type { LineChartProps, LineChartDataPoint } from './line-chart';
+export type { LineChartProps, LineChartDataPoint, LineChartSeries } from './line-chart';
 
 export { AreaChart } from './area-chart';
 export type { AreaChartProps, AreaChartDataPoint } from './area-chart';
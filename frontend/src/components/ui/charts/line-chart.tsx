@@ -11,9 +11,18 @@ export interface LineChartDataPoint {
   [key: string]: any;
 }
 
+export interface LineChartSeries {
+  dataKey: string;
+  name: string;
+  color: string;
+  strokeDasharray?: string;
+}
+
 export interface LineChartProps extends Omit<BaseChartProps, 'children'> {
   data: LineChartDataPoint[];
   dataKey?: string;
+  name?: string;
+  series?: LineChartSeries[];
   xAxisKey?: string;
   color?: string;
   strokeWidth?: number;
@@ -30,6 +39,8 @@ export interface LineChartProps extends Omit<BaseChartProps, 'children'> {
 export function LineChart({
   data,
   dataKey = 'value',
+  name,
+  series = [],
   xAxisKey = 'timestamp',
   color = '#0ea5e9',
   strokeWidth = 2,
@@ -163,6 +174,7 @@ export function LineChart({
         <Line
           type="monotone"
           dataKey={dataKey}
+          name={name}
           stroke={color}
           strokeWidth={strokeWidth}
           dot={showDots}
@@ -173,6 +185,20 @@ export function LineChart({
             stroke: '#ffffff'
           }}
         />
+
+        {series.map(line => (
+          <Line
+            key={line.dataKey}
+            type="monotone"
+            dataKey={line.dataKey}
+            name={line.name}
+            stroke={line.color}
+            strokeWidth={1.5}
+            strokeDasharray={line.strokeDasharray}
+            dot={false}
+            connectNulls
+          />
+        ))}
         
         {showBrush && (
           <Brush 
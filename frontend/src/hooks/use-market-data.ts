@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { tradingAPI } from '@/lib/api/trading-api';
 import { tradingWebSocket } from '@/lib/websocket/trading-websocket';
-import { MarketData } from '@/types/trading';
+import { MarketData, OHLCBar, Timeframe, BarUpdate, OrderBookDepth } from '@/types/trading';
 
 export function useMarketData(symbols?: string[]) {
   const [marketData, setMarketData] = useState<MarketData[]>([]);
@@ -96,14 +96,7 @@ export function useMarketData(symbols?: string[]) {
 
 export function useSymbolData(symbol: string) {
   const [symbolData, setSymbolData] = useState<MarketData | null>(null);
-  const [ohlcData, setOhlcData] = useState<Array<{
-    date: string;
-    open: number;
-    high: number;
-    low: number;
-    close: number;
-    volume: number;
-  }>>([]);
+  const [ohlcData, setOhlcData] = useState<OHLCBar[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -157,4 +150,114 @@ export function useSymbolData(symbol: string) {
     error,
     loadSymbolData
   };
-}
\ No newline at end of file
+}
+
+export function useBars(symbol: string, timeframe: Timeframe, count = 100) {
+  const [bars, setBars] = useState<OHLCBar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBars = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setBars(await tradingAPI.getOHLCData(symbol, timeframe, count));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load bars';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol, timeframe, count]);
+
+  // Apply streamed in-progress bars: update the last bar or start a new one
+  useEffect(() => {
+    const handleBarUpdate = (data: BarUpdate) => {
+      const bar = data.bars[timeframe];
+      if (data.symbol !== symbol.toUpperCase() || !bar) return;
+
+      setBars(prev => {
+        const last = prev[prev.length - 1];
+        if (last && last.date === bar.date) {
+          return [...prev.slice(0, -1), bar];
+        }
+        if (!last || new Date(bar.date) > new Date(last.date)) {
+          return [...prev, bar].slice(-count);
+        }
+        return prev;
+      });
+    };
+
+    tradingWebSocket.on('barUpdate', handleBarUpdate);
+    tradingWebSocket.subscribeToMarketData([symbol]);
+
+    return () => {
+      tradingWebSocket.off('barUpdate', handleBarUpdate);
+      tradingWebSocket.unsubscribeFromMarketData([symbol]);
+    };
+  }, [symbol, timeframe, count]);
+
+  useEffect(() => {
+    loadBars();
+  }, [loadBars]);
+
+  return {
+    bars,
+    loading,
+    error,
+    loadBars
+  };
+}
+
+export function useOrderBook(symbol: string, levels = 10) {
+  const [depth, setDepth] = useState<OrderBookDepth | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDepth = useCallback(async () => {
+    if (!symbol) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      setDepth(await tradingAPI.getOrderBook(symbol, levels));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load order book';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol, levels]);
+
+  // Replace the depth with each streamed snapshot of the book
+  useEffect(() => {
+    if (!symbol) return;
+
+    const handleOrderBookUpdate = (data: OrderBookDepth) => {
+      if (data.symbol !== symbol.toUpperCase()) return;
+      setDepth({ ...data, bids: data.bids.slice(0, levels), asks: data.asks.slice(0, levels) });
+    };
+
+    tradingWebSocket.on('orderBookUpdate', handleOrderBookUpdate);
+    tradingWebSocket.subscribeToMarketData([symbol]);
+
+    return () => {
+      tradingWebSocket.off('orderBookUpdate', handleOrderBookUpdate);
+      tradingWebSocket.unsubscribeFromMarketData([symbol]);
+    };
+  }, [symbol, levels]);
+
+  useEffect(() => {
+    setDepth(null);
+    loadDepth();
+  }, [loadDepth]);
+
+  return {
+    depth,
+    loading,
+    error,
+    loadDepth
+  };
+}
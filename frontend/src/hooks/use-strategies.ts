@@ -334,6 +334,26 @@ export function useStrategyActions() {
     }
   });
 
+  const convertToCode = useStableCallback(async (id: string) => {
+    try {
+      const strategy = await strategiesApi.convertToCode(id);
+      addToast({
+        type: 'success',
+        title: 'Success',
+        description: 'Strategy converted to code successfully'
+      });
+      return strategy;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to convert strategy';
+      addToast({
+        type: 'error',
+        title: 'Error',
+        description: errorMessage
+      });
+      throw err;
+    }
+  });
+
   return {
     createStrategy,
     updateStrategy,
@@ -341,6 +361,7 @@ export function useStrategyActions() {
     cloneStrategy,
     deployStrategy,
     pauseStrategy,
-    stopStrategy
+    stopStrategy,
+    convertToCode
   };
 }
\ No newline at end of file
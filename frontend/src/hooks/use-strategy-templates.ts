@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { strategiesApi, StrategyTemplate, GetTemplatesOptions } from '@/lib/api/strategies';
+import { strategiesApi, StrategyTemplate, GetTemplatesOptions, ModerationStatus } from '@/lib/api/strategies';
 import { useToast } from '@/components/ui/toast';
 
 // Custom hook to prevent infinite loops with stable references
@@ -28,6 +28,7 @@ export function useStrategyTemplates(options: GetTemplatesOptions = {}) {
     return JSON.stringify({
       category: options.category,
       search: options.search,
+      source: options.source,
       sortBy: options.sortBy,
       sortOrder: options.sortOrder,
       limit: options.limit,
@@ -36,6 +37,7 @@ export function useStrategyTemplates(options: GetTemplatesOptions = {}) {
   }, [
     options.category,
     options.search,
+    options.source,
     options.sortBy,
     options.sortOrder,
     options.limit,
@@ -165,7 +167,49 @@ export function useTemplateActions() {
     }
   });
 
+  const forkTemplate = useStableCallback(async (templateId: string, name?: string) => {
+    try {
+      const strategy = await strategiesApi.forkTemplate(templateId, name);
+      addToast({
+        type: 'success',
+        title: 'Success',
+        description: 'Template forked into a new strategy'
+      });
+      return strategy;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fork template';
+      addToast({
+        type: 'error',
+        title: 'Error',
+        description: errorMessage
+      });
+      throw err;
+    }
+  });
+
+  const moderateTemplate = useStableCallback(async (templateId: string, status: ModerationStatus, reason?: string) => {
+    try {
+      const template = await strategiesApi.moderateTemplate(templateId, status, reason);
+      addToast({
+        type: 'success',
+        title: 'Success',
+        description: status === 'HIDDEN' ? 'Template hidden from the marketplace' : 'Template visible again'
+      });
+      return template;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to moderate template';
+      addToast({
+        type: 'error',
+        title: 'Error',
+        description: errorMessage
+      });
+      throw err;
+    }
+  });
+
   return {
-    createFromTemplate
+    createFromTemplate,
+    forkTemplate,
+    moderateTemplate
   };
 }
\ No newline at end of file
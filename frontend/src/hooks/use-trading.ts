@@ -1,10 +1,19 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { tradingAPI, PlaceOrderRequest } from '@/lib/api/trading-api';
+import { tradingAPI, PlaceOrderRequest, CreatePortfolioRequest, UpdatePortfolioRequest, SELECTED_PORTFOLIO_KEY } from '@/lib/api/trading-api';
 import { tradingWebSocket } from '@/lib/websocket/trading-websocket';
-import { Order, Position, Portfolio } from '@/types/trading';
+import { Order, Position, Portfolio, MarginCall } from '@/types/trading';
 import { useToast } from '@/components/ui';
 
+const readSelectedPortfolio = () =>
+  typeof window === 'undefined' ? null : localStorage.getItem(SELECTED_PORTFOLIO_KEY);
+
+// Live updates of the user's other portfolios are ignored
+const isOtherPortfolio = (portfolioId: string | undefined, currentId: string | null) =>
+  Boolean(portfolioId && currentId && portfolioId !== currentId);
+
 export function useTrading() {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string | null>(readSelectedPortfolio);
   const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
   const [positions, setPositions] = useState<Position[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
@@ -18,12 +27,33 @@ export function useTrading() {
   const addToastRef = useRef(addToast);
   addToastRef.current = addToast;
 
+  const portfolioIdRef = useRef<string | null>(null);
+  portfolioIdRef.current = portfolio?.id ?? null;
+
+  const selectPortfolio = useCallback((portfolioId: string | null) => {
+    if (portfolioId) {
+      localStorage.setItem(SELECTED_PORTFOLIO_KEY, portfolioId);
+    } else {
+      localStorage.removeItem(SELECTED_PORTFOLIO_KEY);
+    }
+    setSelectedPortfolioId(portfolioId);
+  }, []);
+
   // Load initial data - memoized to prevent unnecessary re-renders
   const loadData = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
+      // A remembered portfolio that was archived falls back to the default one
+      const portfoliosData = await tradingAPI.getPortfolios();
+      const scopedId = portfoliosData.some(item => item.id === selectedPortfolioId) ? selectedPortfolioId : null;
+      if (scopedId !== selectedPortfolioId) {
+        localStorage.removeItem(SELECTED_PORTFOLIO_KEY);
+      }
+      tradingAPI.setPortfolio(scopedId);
+      setPortfolios(portfoliosData);
+
       const [portfolioData, positionsData, activeOrdersData, ordersData] = await Promise.all([
         tradingAPI.getPortfolio(),
         tradingAPI.getPositions(),
@@ -50,7 +80,7 @@ export function useTrading() {
     } finally {
       setLoading(false);
     }
-  }, []); // Remove addToast dependency to prevent recreation
+  }, [selectedPortfolioId]); // Remove addToast dependency to prevent recreation
 
   // Refresh only order data without triggering loading state
   const refreshOrderData = useCallback(async () => {
@@ -72,6 +102,8 @@ export function useTrading() {
 
   // WebSocket event handlers - memoized to prevent recreation
   const handleOrderUpdate = useCallback((order: Order) => {
+    if (isOtherPortfolio(order.portfolioId, portfolioIdRef.current)) return;
+
     setOrders(prev => {
       const prevArray = prev || [];
       const index = prevArray.findIndex(o => o.id === order.id);
@@ -103,6 +135,8 @@ export function useTrading() {
   }, []);
 
   const handlePositionUpdate = useCallback((position: Position) => {
+    if (isOtherPortfolio(position.portfolioId, portfolioIdRef.current)) return;
+
     setPositions(prev => {
       const prevArray = prev || [];
       const index = prevArray.findIndex(p => p.id === position.id);
@@ -117,6 +151,8 @@ export function useTrading() {
   }, []);
 
   const handlePortfolioUpdate = useCallback((portfolioData: Portfolio) => {
+    if (isOtherPortfolio(portfolioData.id, portfolioIdRef.current)) return;
+
     setPortfolio(prev => {
       // Only update if there's a significant change to prevent micro-updates
       if (!prev) return portfolioData;
@@ -124,8 +160,8 @@ export function useTrading() {
       const pnlChange = Math.abs((prev.totalPnL || 0) - (portfolioData.totalPnL || 0));
       const valueChange = Math.abs((prev.totalValue || 0) - (portfolioData.totalValue || 0));
 
-      // Only update for changes > ₹1
-      if (pnlChange > 1 || valueChange > 1) {
+      // Only update for changes > ₹1 or a margin call starting or ending
+      if (pnlChange > 1 || valueChange > 1 || Boolean(prev.marginCallAt) !== Boolean(portfolioData.marginCallAt)) {
         return portfolioData;
       }
 
@@ -141,6 +177,14 @@ export function useTrading() {
     });
   }, []);
 
+  const handleMarginCall = useCallback((data: MarginCall) => {
+    addToastRef.current({
+      type: 'error',
+      title: 'Margin Call',
+      description: `Equity is ₹${data.deficit.toFixed(2)} below the maintenance margin; positions are being liquidated`
+    });
+  }, []);
+
   // WebSocket event subscription
   useEffect(() => {
     // Subscribe to WebSocket events
@@ -148,14 +192,16 @@ export function useTrading() {
     tradingWebSocket.on('positionUpdate', handlePositionUpdate);
     tradingWebSocket.on('portfolioUpdate', handlePortfolioUpdate);
     tradingWebSocket.on('riskManagementTriggered', handleRiskManagementTriggered);
+    tradingWebSocket.on('marginCall', handleMarginCall);
 
     return () => {
       tradingWebSocket.off('orderUpdate', handleOrderUpdate);
       tradingWebSocket.off('positionUpdate', handlePositionUpdate);
       tradingWebSocket.off('portfolioUpdate', handlePortfolioUpdate);
       tradingWebSocket.off('riskManagementTriggered', handleRiskManagementTriggered);
+      tradingWebSocket.off('marginCall', handleMarginCall);
     };
-  }, [handleOrderUpdate, handlePositionUpdate, handlePortfolioUpdate, handleRiskManagementTriggered]);
+  }, [handleOrderUpdate, handlePositionUpdate, handlePortfolioUpdate, handleRiskManagementTriggered, handleMarginCall]);
 
   // Load data on mount
   useEffect(() => {
@@ -196,6 +242,41 @@ export function useTrading() {
     }
   }, [refreshOrderData]);
 
+  // Pre-trade risk check; the order is placed regardless when the check itself fails
+  const checkOrder = useCallback(async (order: Omit<PlaceOrderRequest, 'bracket'>) => {
+    try {
+      return await tradingAPI.checkOrder(order);
+    } catch (error) {
+      console.error('Failed to check order:', error);
+      return null;
+    }
+  }, []);
+
+  const placeOcoOrder = useCallback(async (legs: Omit<PlaceOrderRequest, 'bracket'>[]) => {
+    try {
+      const placedOrders = await tradingAPI.placeOcoOrder(legs);
+
+      // Refresh only order data after successful order placement
+      await refreshOrderData();
+
+      addToastRef.current({
+        type: 'success',
+        title: 'OCO Order Placed',
+        description: `${placedOrders.length} linked orders for ${legs[0].symbol} have been submitted.`
+      });
+
+      return placedOrders;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to place OCO order';
+      addToastRef.current({
+        type: 'error',
+        title: 'Order Failed',
+        description: errorMessage
+      });
+      throw error;
+    }
+  }, [refreshOrderData]);
+
   const cancelOrder = useCallback(async (orderId: string) => {
     try {
       const cancelledOrder = await tradingAPI.cancelOrder(orderId);
@@ -271,10 +352,12 @@ export function useTrading() {
 
       addToastRef.current({
         type: 'success',
-        title: 'Position Closed',
-        description: quantity
-          ? `Partially closed ${quantity} shares`
-          : 'Position has been fully closed.'
+        title: result.order.status === 'FILLED' ? 'Position Closed' : 'Close Order Placed',
+        description: result.order.status !== 'FILLED'
+          ? 'The market order will close the position once it fills.'
+          : quantity
+            ? `Partially closed ${quantity} shares`
+            : 'Position has been fully closed.'
       });
 
       return result;
@@ -394,6 +477,92 @@ export function useTrading() {
     }
   }, []);
 
+  // Portfolio management
+  const loadPortfolios = useCallback(async () => {
+    try {
+      setPortfolios(await tradingAPI.getPortfolios());
+    } catch (err) {
+      console.error('Failed to load portfolios:', err);
+    }
+  }, []);
+
+  const runPortfolioAction = useCallback(async <T>(
+    action: () => Promise<T>,
+    success: { title: string; description: string },
+    failureTitle: string
+  ) => {
+    try {
+      const result = await action();
+      addToastRef.current({ type: 'success', ...success });
+      return result;
+    } catch (error) {
+      addToastRef.current({
+        type: 'error',
+        title: failureTitle,
+        description: error instanceof Error ? error.message : failureTitle
+      });
+      throw error;
+    }
+  }, []);
+
+  const createPortfolio = useCallback(async (data: CreatePortfolioRequest) => {
+    const created = await runPortfolioAction(
+      () => tradingAPI.createPortfolio(data),
+      { title: 'Portfolio Created', description: `${data.name} is ready to trade.` },
+      'Failed to Create Portfolio'
+    );
+    // Switching reloads the console for the new portfolio
+    selectPortfolio(created.id);
+    return created;
+  }, [runPortfolioAction, selectPortfolio]);
+
+  const updatePortfolio = useCallback(async (portfolioId: string, data: UpdatePortfolioRequest) => {
+    const updated = await runPortfolioAction(
+      () => tradingAPI.updatePortfolio(portfolioId, data),
+      { title: 'Portfolio Updated', description: 'Portfolio details have been saved.' },
+      'Failed to Update Portfolio'
+    );
+    await loadPortfolios();
+    if (portfolioId === portfolioIdRef.current) {
+      setPortfolio(prev => prev ? { ...prev, name: updated.name, description: updated.description } : prev);
+    }
+    return updated;
+  }, [runPortfolioAction, loadPortfolios]);
+
+  const resetPortfolio = useCallback(async (portfolioId: string) => {
+    const reset = await runPortfolioAction(
+      () => tradingAPI.resetPortfolio(portfolioId),
+      { title: 'Portfolio Reset', description: 'Positions and orders were cleared and cash restored.' },
+      'Failed to Reset Portfolio'
+    );
+    await loadData();
+    return reset;
+  }, [runPortfolioAction, loadData]);
+
+  const archivePortfolio = useCallback(async (portfolioId: string) => {
+    const archived = await runPortfolioAction(
+      () => tradingAPI.archivePortfolio(portfolioId),
+      { title: 'Portfolio Archived', description: 'The portfolio no longer trades; its history is kept.' },
+      'Failed to Archive Portfolio'
+    );
+    if (portfolioId === portfolioIdRef.current) {
+      selectPortfolio(null);
+    } else {
+      await loadPortfolios();
+    }
+    return archived;
+  }, [runPortfolioAction, selectPortfolio, loadPortfolios]);
+
+  const transferCash = useCallback(async (fromPortfolioId: string, toPortfolioId: string, amount: number) => {
+    const result = await runPortfolioAction(
+      () => tradingAPI.transferCash({ fromPortfolioId, toPortfolioId, amount }),
+      { title: 'Transfer Complete', description: `₹${amount.toLocaleString('en-IN')} moved between portfolios.` },
+      'Transfer Failed'
+    );
+    await loadData();
+    return result;
+  }, [runPortfolioAction, loadData]);
+
   // Memoize computed values to prevent unnecessary re-renders
   const computedValues = useMemo(() => ({
     totalPositions: positions.length,
@@ -405,6 +574,7 @@ export function useTrading() {
 
   return {
     // State
+    portfolios,
     portfolio,
     positions,
     orders,
@@ -417,6 +587,8 @@ export function useTrading() {
     refreshOrderData,
     refreshPositionData,
     placeOrder,
+    checkOrder,
+    placeOcoOrder,
     cancelOrder,
     modifyOrder,
     closePosition,
@@ -424,6 +596,12 @@ export function useTrading() {
     setTakeProfit,
     exportOrders,
     exportPositions,
+    selectPortfolio,
+    createPortfolio,
+    updatePortfolio,
+    resetPortfolio,
+    archivePortfolio,
+    transferCash,
 
     // Computed values (memoized)
     ...computedValues
@@ -0,0 +1,67 @@
+import * as frontend from '../indicators';
+import * as backend from '../../../../backend/src/utils/indicators';
+
+// Three days of five-minute bars: a trend, a swing and a gap between sessions
+const bars: frontend.OHLCVBar[] = Array.from({ length: 3 * 75 }, (_, index) => {
+  const session = Math.floor(index / 75);
+  const close = 500 + index * 0.2 + 12 * Math.sin(index / 11) + 4 * Math.sin(index / 2.9) + session * 6;
+  const open = close - 1.5 * Math.cos(index / 3.1);
+  return {
+    date: new Date(Date.UTC(2024, 2, 4 + session, 3, 45) + (index % 75) * 5 * 60000),
+    open,
+    high: Math.max(open, close) + 1 + Math.abs(Math.sin(index)),
+    low: Math.min(open, close) - 1 - Math.abs(Math.cos(index)),
+    close,
+    volume: 1000 + (index % 13) * 150 + (index % 7 === 0 ? 4000 : 0),
+  };
+});
+
+const closes = bars.map(bar => bar.close);
+
+type Case = [name: keyof typeof frontend & keyof typeof backend, args: unknown[], input: 'close' | 'bar'];
+
+const cases: Case[] = [
+  ['SMA', [20], 'close'],
+  ['EMA', [12], 'close'],
+  ['WMA', [10], 'close'],
+  ['RSI', [14], 'close'],
+  ['MACD', [12, 26, 9], 'close'],
+  ['BollingerBands', [20, 2.5], 'close'],
+  ['Highest', [15], 'close'],
+  ['Lowest', [15], 'close'],
+  ['ATR', [14], 'bar'],
+  ['Stochastic', [14, 3], 'bar'],
+  ['VWAP', [{}], 'bar'],
+  ['VWAP', [{ resetDaily: true }], 'bar'],
+  ['OBV', [], 'bar'],
+  ['ADX', [14], 'bar'],
+  ['SuperTrend', [10, 3], 'bar'],
+];
+
+const run = (library: Record<string, unknown>, name: string, args: unknown[], input: Case[2]) => {
+  const indicator: frontend.Indicator<unknown, unknown> = Reflect.construct(library[name] as typeof frontend.OBV, args);
+  return (input === 'bar' ? bars : closes).map(value => indicator.update(value));
+};
+
+describe('indicator parity with the backend', () => {
+  it.each(cases)('%s(%j) gives the numbers strategies trade on', (name, args, input) => {
+    const expected = run(backend, name, args, input);
+    const actual = run(frontend, name, args, input);
+
+    expect(expected.some(value => value !== null)).toBe(true);
+    expect(actual).toEqual(expected);
+  });
+
+  it('batch helpers match streaming updates', () => {
+    expect(frontend.sma(closes, 20)).toEqual(backend.sma(closes, 20));
+    expect(frontend.macd(closes)).toEqual(backend.macd(closes));
+    expect(frontend.superTrend(bars)).toEqual(backend.superTrend(bars));
+  });
+
+  it('rejects the same invalid periods', () => {
+    expect(() => new backend.SMA(0)).toThrow();
+    expect(() => new frontend.SMA(0)).toThrow();
+    expect(() => new backend.RSI(2.5)).toThrow();
+    expect(() => new frontend.RSI(2.5)).toThrow();
+  });
+});
@@ -0,0 +1,77 @@
+import { DEFAULT_MONTE_CARLO, MAX_MONTE_CARLO_ITERATIONS, percentile, runMonteCarlo } from '../monte-carlo';
+
+// 250 trades: mostly small wins with a few larger losses
+const pnls = Array.from({ length: 250 }, (_, index) => (index % 7 === 0 ? -900 : 250) + (index % 3) * 20);
+const total = pnls.reduce((sum, pnl) => sum + pnl, 0);
+
+describe('monte carlo simulation', () => {
+  it('interpolates percentiles of sorted values', () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([10, 20, 30, 40, 50], 25)).toBe(20);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it('ends every shuffled path at the same equity', () => {
+    const result = runMonteCarlo(pnls, 100000, { ...DEFAULT_MONTE_CARLO, iterations: 200 });
+
+    expect(result.finalEquity.p5).toBeCloseTo(100000 + total, 6);
+    expect(result.finalEquity.p95).toBeCloseTo(100000 + total, 6);
+    expect(result.probabilityOfLoss).toBe(0);
+    // Reordering changes the path, so drawdowns spread out
+    expect(result.maxDrawdownPercent.p95).toBeGreaterThan(result.maxDrawdownPercent.p5);
+  });
+
+  it('draws a different mix of trades when bootstrapping', () => {
+    const result = runMonteCarlo(pnls, 100000, { ...DEFAULT_MONTE_CARLO, method: 'BOOTSTRAP', iterations: 200 });
+
+    expect(result.finalEquity.p95).toBeGreaterThan(result.finalEquity.p5);
+    expect(result.finalEquity.p50).toBeGreaterThan(100000);
+  });
+
+  it('gives the same result for the same seed', () => {
+    const config = { ...DEFAULT_MONTE_CARLO, method: 'BOOTSTRAP' as const, iterations: 100, seed: 7 };
+
+    expect(runMonteCarlo(pnls, 100000, config)).toEqual(runMonteCarlo(pnls, 100000, config));
+    expect(runMonteCarlo(pnls, 100000, { ...config, seed: 8 }).finalEquity)
+      .not.toEqual(runMonteCarlo(pnls, 100000, config).finalEquity);
+  });
+
+  it('samples the fan chart and follows the original order alongside it', () => {
+    const result = runMonteCarlo(pnls, 100000, { ...DEFAULT_MONTE_CARLO, iterations: 50 });
+    const first = result.equityBands[0];
+    const last = result.equityBands[result.equityBands.length - 1];
+
+    // Every third trade plus the end of the list
+    expect(result.equityBands).toHaveLength(85);
+    expect(first).toEqual({ trade: 0, p5: 100000, p25: 100000, p50: 100000, p75: 100000, p95: 100000, original: 100000 });
+    expect(last.trade).toBe(250);
+    expect(last.original).toBe(100000 + total);
+  });
+
+  it('measures the drawdown of the original order', () => {
+    const result = runMonteCarlo([100, -330, 200], 1000, { ...DEFAULT_MONTE_CARLO, iterations: 10 });
+
+    expect(result.originalMaxDrawdownPercent).toBeCloseTo(30, 10);
+    expect(result.drawdownHistogram.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(10);
+  });
+
+  it('counts paths that reach the ruin drawdown or lose money', () => {
+    const result = runMonteCarlo([-300, -300, 100], 1000, { ...DEFAULT_MONTE_CARLO, iterations: 20, ruinDrawdownPercent: 40 });
+
+    expect(result.riskOfRuin).toBe(1);
+    expect(result.probabilityOfLoss).toBe(1);
+  });
+
+  it('leaves every path flat when each trade is skipped', () => {
+    const result = runMonteCarlo(pnls, 100000, { ...DEFAULT_MONTE_CARLO, iterations: 20, skipProbability: 1 });
+
+    expect(result.finalEquity.mean).toBe(100000);
+    expect(result.maxDrawdownPercent.p95).toBe(0);
+    expect(result.riskOfRuin).toBe(0);
+  });
+
+  it('keeps the number of iterations within bounds', () => {
+    expect(runMonteCarlo([10], 100, { ...DEFAULT_MONTE_CARLO, iterations: 0 }).iterations).toBe(1);
+    expect(runMonteCarlo([10], 100, { ...DEFAULT_MONTE_CARLO, iterations: 1e9 }).iterations).toBe(MAX_MONTE_CARLO_ITERATIONS);
+  });
+});
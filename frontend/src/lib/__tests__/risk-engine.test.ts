@@ -0,0 +1,76 @@
+import { RiskLimits } from '@/types/trading';
+import * as frontend from '../risk-engine';
+import * as backend from '../../../../backend/src/utils/riskRules';
+
+const orders: frontend.RiskOrder[] = [
+  { symbol: 'TCS', side: 'BUY', quantity: 10 },
+  { symbol: 'TCS', side: 'BUY', quantity: 400, price: 101 },
+  { symbol: 'TCS', side: 'SELL', quantity: 50, price: 88 },
+  { symbol: 'TCS', side: 'SELL', quantity: 250, stopPrice: 95 },
+  { side: 'BUY', quantity: 12000, price: 130 },
+  { side: 'SELL', quantity: 5, stopPrice: 99.5 },
+];
+
+const contexts: frontend.RiskContext[] = [
+  {},
+  { marketPrice: 100, equity: 100000, buyingPower: 100000, openTrades: 3 },
+  { marketPrice: 100, position: 200, equity: 50000, buyingPower: 2000, exposure: 20000, dayPnL: -6000 },
+  { marketPrice: 100, position: -100, equity: 80000, shortable: false, exposure: 60000, recentOrders: 30, openTrades: 4 },
+  { marketPrice: 100, equity: -5000, buyingPower: -100, dayPnL: 2500, openTrades: 2 },
+];
+
+const limitSets: Partial<RiskLimits>[] = [
+  frontend.DEFAULT_RISK_LIMITS,
+  {},
+  {
+    maxOrderValue: 25000,
+    priceBandPercent: 5,
+    maxExposurePercent: 75,
+    maxPositionSizePercent: 20,
+    maxDailyLoss: 3000,
+    maxDailyLossPercent: 5,
+    maxOrdersPerMinute: 10,
+    maxConcurrentTrades: 3,
+  },
+];
+
+const cases = orders.flatMap(order => contexts.flatMap(context => limitSets.flatMap(limits =>
+  (['ACCOUNT', 'STRATEGY'] as const).map(scope => [order, context, limits, scope] as const)
+)));
+
+const trades: frontend.RiskTrade[] = [
+  { symbol: 'TCS', side: 'BUY', quantity: 10, price: 100, commission: 1 },
+  { symbol: 'TCS', side: 'SELL', quantity: 4, price: 104 },
+  { symbol: 'INFY', side: 'SELL', quantity: 5, price: 200, commission: 0.5 },
+  { symbol: 'INFY', side: 'BUY', quantity: 5, price: 190 },
+];
+
+describe('risk rule parity with the backend', () => {
+  it('uses the same limits and commission', () => {
+    expect(frontend.DEFAULT_RISK_LIMITS).toEqual(backend.DEFAULT_RISK_LIMITS);
+    expect(frontend.COMMISSION_RATE).toBe(backend.COMMISSION_RATE);
+  });
+
+  it('finds the same violations for every order, context and set of limits', () => {
+    const violations = cases.map(([order, context, limits, scope]) => frontend.evaluateOrder(order, context, limits, scope));
+
+    expect(violations.some(found => found.length > 1)).toBe(true);
+    expect(new Set(violations.flat().map(violation => violation.rule)).size).toBe(Object.keys(backend.RULES).length);
+    expect(violations).toEqual(cases.map(([order, context, limits, scope]) => backend.evaluateOrder(order, context, limits, scope)));
+  });
+
+  it('nets positions and values the day the same way', () => {
+    const prices = new Map([['TCS', 103]]);
+
+    expect(frontend.netPositions(trades)).toEqual(backend.netPositions(trades));
+    expect(frontend.dayPnL(trades, prices)).toBe(backend.dayPnL(trades, prices));
+  });
+
+  it.each([[100, -40], [100, -150], [-50, 20], [0, -10], [30, 30]])(
+    'treats a change of %i by %i the same way',
+    (position, change) => {
+      expect(frontend.isReducing(position, change)).toBe(backend.isReducing(position, change));
+      expect(frontend.openingQuantity(position, change)).toBe(backend.openingQuantity(position, change));
+    }
+  );
+});
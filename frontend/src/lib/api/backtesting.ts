@@ -2,9 +2,103 @@
  * Backtesting API service
  */
 
+import { GetSignalsOptions, SignalJournalResult, StrategySignal, StrategySignalDetails } from './strategies';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api/v1';
 
 // Types
+export type BacktestType = 'SINGLE' | 'OPTIMIZATION' | 'WALK_FORWARD' | 'PORTFOLIO';
+export type SizingModel = 'EQUAL_WEIGHT' | 'FIXED_FRACTIONAL' | 'VOLATILITY_TARGET' | 'KELLY';
+export type OptimizationMethod = 'GRID' | 'RANDOM' | 'BAYESIAN';
+export type OptimizationObjective = 'sharpeRatio' | 'totalReturnPercent' | 'calmarRatio';
+
+export interface OptimizationRange {
+  key: string;
+  label?: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface OptimizationConfig {
+  method: OptimizationMethod;
+  objective: OptimizationObjective;
+  ranges: OptimizationRange[];
+  maxTrials: number;
+  seed?: number;
+}
+
+export interface OptimizationTrial {
+  parameters: Record<string, number>;
+  objectiveValue: number;
+  totalReturnPercent: number;
+  annualizedReturn: number;
+  sharpeRatio: number;
+  calmarRatio: number;
+  maxDrawdownPercent: number;
+  winRate: number;
+  totalTrades: number;
+}
+
+export interface OptimizationResult extends OptimizationConfig {
+  trials: OptimizationTrial[];
+  bestParameters?: Record<string, number>;
+}
+
+export interface WalkForwardConfig {
+  trainDays: number;
+  testDays: number;
+  anchored: boolean;
+}
+
+export interface WalkForwardMetrics {
+  totalReturnPercent: number;
+  annualizedReturn: number;
+  sharpeRatio: number;
+  calmarRatio: number;
+  maxDrawdownPercent: number;
+  winRate: number;
+  totalTrades: number;
+}
+
+export interface WalkForwardWindow {
+  trainStart: string;
+  trainEnd: string;
+  testStart: string;
+  testEnd: string;
+  parameters: Record<string, number>;
+  inSample: WalkForwardMetrics;
+  outOfSample: WalkForwardMetrics;
+}
+
+export interface ParameterStability {
+  key: string;
+  values: number[];
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  coefficientOfVariation: number;
+}
+
+export interface WalkForwardResult extends WalkForwardConfig {
+  windows: WalkForwardWindow[];
+  inSample?: WalkForwardMetrics;
+  outOfSample?: WalkForwardMetrics;
+  efficiency: number;
+  stabilityScore: number;
+  parameterStability: ParameterStability[];
+}
+
+export interface PortfolioConfig {
+  symbols: string[];
+  sizingModel: SizingModel;
+  fractionPercent: number;
+  targetVolatility: number;
+  volatilityLookback: number;
+  kellyFraction: number;
+}
+
 export interface BacktestConfig {
   name: string;
   description?: string;
@@ -15,6 +109,26 @@ export interface BacktestConfig {
   commission: number;
   slippage: number;
   tags?: string[];
+  type?: BacktestType;
+  optimization?: OptimizationConfig;
+  walkForward?: WalkForwardConfig;
+  portfolio?: PortfolioConfig;
+  benchmark?: BenchmarkConfig;
+}
+
+export type BenchmarkType = 'INDEX' | 'SYMBOL';
+
+// INDEX is an equal-weight proxy over every symbol with local history
+export interface BenchmarkConfig {
+  type: BenchmarkType;
+  symbol?: string;
+}
+
+export interface BenchmarkSummary {
+  type: BenchmarkType;
+  symbol?: string;
+  label: string;
+  totalReturnPercent: number;
 }
 
 export interface BacktestSummary {
@@ -47,6 +161,7 @@ export interface EquityPoint {
   equity: number;
   drawdown: number;
   returns: number;
+  benchmark?: number;
 }
 
 export interface DrawdownPoint {
@@ -71,10 +186,35 @@ export interface RiskMetrics {
   beta: number;
   alpha: number;
   informationRatio: number;
+  trackingError: number;
+  upCapture: number;
+  downCapture: number;
   calmarRatio: number;
   sterlingRatio: number;
 }
 
+export interface SymbolAttribution {
+  symbol: string;
+  pnl: number;
+  returnContribution: number;
+  pnlShare: number;
+  trades: number;
+  winRate: number;
+  avgExposurePercent: number;
+}
+
+export interface ExposurePoint {
+  date: string;
+  exposurePercent: number;
+  bySymbol: Record<string, number>;
+}
+
+export interface CorrelationMatrices {
+  symbols: string[];
+  returns: number[][];
+  pnl: number[][];
+}
+
 export interface BacktestResult {
   summary: BacktestSummary;
   equityCurve: EquityPoint[];
@@ -82,14 +222,41 @@ export interface BacktestResult {
   trades: string[]; // Trade IDs
   monthlyReturns: MonthlyReturn[];
   riskMetrics: RiskMetrics;
+  // Portfolio backtests only
+  attribution?: SymbolAttribution[];
+  exposureCurve?: ExposurePoint[];
+  correlations?: CorrelationMatrices;
+  benchmark?: BenchmarkSummary;
+}
+
+export interface BacktestTrade {
+  _id: string;
+  backtestId: string;
+  strategyId?: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  commission: number;
+  pnl?: number;
+  pnlPercent?: number;
+  notes?: string;
+  executedAt: string;
 }
 
 export interface Backtest {
   _id: string;
   userId: string;
   strategyId: string;
+  strategyVersionId?: string;
+  strategyVersion?: string; // strategy version the backtest ran
   name: string;
   description?: string;
+  type?: BacktestType;
+  optimization?: OptimizationResult;
+  walkForward?: WalkForwardResult;
+  portfolio?: PortfolioConfig;
+  benchmark?: BenchmarkConfig;
   status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   progress: number;
   startDate: string;
@@ -258,6 +425,48 @@ class BacktestingAPI {
     return response.data;
   }
 
+  // Get simulated trades of a completed backtest
+  async getBacktestTrades(id: string): Promise<BacktestTrade[]> {
+    const response = await this.makeRequest<{ 
+      success: boolean; 
+      data: BacktestTrade[] 
+    }>(`/${id}/trades`);
+    return response.data;
+  }
+
+  // Get the signals of a backtest in replay order
+  async getBacktestSignals(id: string, options: Omit<GetSignalsOptions, 'source'> = {}): Promise<SignalJournalResult> {
+    const params = new URLSearchParams();
+
+    if (options.status) params.append('status', options.status);
+    if (options.action) params.append('action', options.action);
+    if (options.symbol) params.append('symbol', options.symbol);
+    if (options.limit) params.append('limit', options.limit.toString());
+    if (options.offset) params.append('offset', options.offset.toString());
+
+    const response = await this.makeRequest<{
+      success: boolean;
+      data: StrategySignal[];
+      counts: SignalJournalResult['counts'];
+      pagination: SignalJournalResult['pagination'];
+    }>(`/${id}/signals?${params.toString()}`);
+
+    return {
+      signals: response.data,
+      counts: response.counts,
+      pagination: response.pagination
+    };
+  }
+
+  // Get the signal behind a backtest trade
+  async getTradeSignal(id: string, tradeId: string): Promise<StrategySignalDetails> {
+    const response = await this.makeRequest<{
+      success: boolean;
+      data: StrategySignalDetails
+    }>(`/${id}/trades/${tradeId}/signal`);
+    return response.data;
+  }
+
   // Delete backtest
   async deleteBacktest(id: string): Promise<void> {
     await this.makeRequest<{ 
@@ -2,6 +2,8 @@
  * Dashboard API service
  */
 
+import { SELECTED_PORTFOLIO_KEY } from '@/lib/api/trading-api';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api/v1';
 
 export interface KPIMetric {
@@ -37,12 +39,32 @@ export interface KPIData {
 export interface PerformanceData {
   date: string;
   value: number;
-  benchmark: number;
+  benchmark: number | null;
+}
+
+export interface BenchmarkConfig {
+  type: 'INDEX' | 'SYMBOL';
+  symbol?: string;
+}
+
+export interface BenchmarkMetrics {
+  beta: number;
+  alpha: number; // annualized fraction
+  trackingError: number; // annualized %
+  informationRatio: number;
+  upCapture: number; // %
+  downCapture: number; // %
+}
+
+export interface BenchmarkAnalytics extends BenchmarkConfig {
+  label: string;
+  totalReturnPercent: number;
+  metrics: BenchmarkMetrics;
 }
 
 export interface Activity {
   _id: string;
-  type: 'trade' | 'strategy' | 'alert' | 'system' | 'deposit' | 'withdrawal';
+  type: 'trade' | 'strategy' | 'alert' | 'system' | 'deposit' | 'withdrawal' | 'corporate_action';
   action: string;
   title: string;
   description: string;
@@ -81,6 +103,7 @@ export interface DashboardData {
   portfolio: Portfolio;
   kpi: KPIData;
   performance: PerformanceData[];
+  benchmark?: BenchmarkAnalytics | null;
   activities: Activity[];
   alerts: Alert[];
 }
@@ -139,6 +162,15 @@ class DashboardAPI {
           Authorization: `Bearer ${token}`,
         };
       }
+
+      // Dashboard figures follow the portfolio chosen in paper trading
+      const portfolioId = localStorage.getItem(SELECTED_PORTFOLIO_KEY);
+      if (portfolioId) {
+        defaultOptions.headers = {
+          ...defaultOptions.headers,
+          'X-Portfolio-Id': portfolioId,
+        };
+      }
     }
 
     const config = {
@@ -215,6 +247,23 @@ class DashboardAPI {
     return this.makeRequest<{ success: boolean; data: PerformanceData[] }>(`/performance?days=${days}`);
   }
 
+  /**
+   * Get benchmark-relative analytics of the portfolio
+   */
+  async getBenchmark(days: number = 30): Promise<{ success: boolean; data: BenchmarkAnalytics }> {
+    return this.makeRequest<{ success: boolean; data: BenchmarkAnalytics }>(`/benchmark?days=${days}`);
+  }
+
+  /**
+   * Change the benchmark the portfolio is compared against
+   */
+  async updateBenchmark(benchmark: BenchmarkConfig, days: number = 30): Promise<{ success: boolean; data: BenchmarkAnalytics }> {
+    return this.makeRequest<{ success: boolean; data: BenchmarkAnalytics }>(`/benchmark?days=${days}`, {
+      method: 'PUT',
+      body: JSON.stringify(benchmark),
+    });
+  }
+
   /**
    * Get recent activities
    */
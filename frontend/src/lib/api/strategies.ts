@@ -2,6 +2,8 @@
  * Strategies API service
  */
 
+import { StrategyRules } from '@/types/trading';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api/v1';
 
 // Types
@@ -14,6 +16,7 @@ export interface Strategy {
   status: 'DRAFT' | 'ACTIVE' | 'PAUSED' | 'STOPPED';
   parameters: Record<string, any>;
   code?: string;
+  rules?: StrategyRules;
   templateId?: string;
   template?: {
     _id: string;
@@ -38,6 +41,8 @@ export interface Strategy {
     largestLoss: number;
   };
   version: string;
+  parentStrategyId?: string;
+  forkedFrom?: StrategyLineage;
   isPublic: boolean;
   isArchived: boolean;
   views: number;
@@ -49,6 +54,17 @@ export interface Strategy {
   updatedAt: string;
 }
 
+// Template a strategy was forked from, as it was when it was forked
+export interface StrategyLineage {
+  templateId: string;
+  templateName: string;
+  templateVersion: string;
+  authorId?: string;
+  forkedAt: string;
+}
+
+export type ModerationStatus = 'VISIBLE' | 'HIDDEN';
+
 export interface StrategyTemplate {
   _id: string;
   name: string;
@@ -69,6 +85,11 @@ export interface StrategyTemplate {
   usageCount: number;
   rating: number;
   ratingCount: number;
+  forkCount: number;
+  moderationStatus: ModerationStatus;
+  moderationReason?: string;
+  sourceStrategyId?: string;
+  rules?: StrategyRules;
   version: string;
   documentation: string;
   examples?: {
@@ -125,6 +146,7 @@ export interface GetStrategiesOptions {
 export interface GetTemplatesOptions {
   category?: string;
   search?: string;
+  source?: 'builtin' | 'community';
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   limit?: number;
@@ -137,6 +159,7 @@ export interface CreateStrategyData {
   type: 'VISUAL' | 'CODE' | 'TEMPLATE';
   parameters?: Record<string, any>;
   code?: string;
+  rules?: StrategyRules;
   templateId?: string;
   tags?: string[];
 }
@@ -146,7 +169,10 @@ export interface UpdateStrategyData {
   description?: string;
   parameters?: Record<string, any>;
   code?: string;
+  rules?: StrategyRules;
   tags?: string[];
+  versionMessage?: string;
+  versionBump?: VersionBump;
 }
 
 export interface CreateFromTemplateData {
@@ -156,6 +182,288 @@ export interface CreateFromTemplateData {
   tags?: string[];
 }
 
+export interface TemplateReview {
+  _id: string;
+  templateId: string;
+  userId: string;
+  user?: {
+    _id: string;
+    name: string;
+    username?: string;
+  } | null;
+  rating: number;
+  comment: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A template as shown on its own page
+export interface TemplateDetails extends StrategyTemplate {
+  isOwner: boolean;
+  myReview: TemplateReview | null;
+}
+
+export interface PublishTemplateData {
+  name: string;
+  description: string;
+  category: string;
+  tags?: string[];
+  parameterSchema: ParameterSchema[];
+  isPublic: boolean;
+  documentation?: string;
+}
+
+export interface StrategyDiagnostic {
+  severity: 'error' | 'warning';
+  phase: 'compile' | 'runtime' | 'limits';
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface CodeValidationResult {
+  valid: boolean;
+  diagnostics: StrategyDiagnostic[];
+  logs: string[];
+}
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export type VersionedField = 'type' | 'code' | 'parameters' | 'rules';
+
+// An immutable snapshot saved on every change to a strategy's logic
+export interface StrategyVersion {
+  _id: string;
+  strategyId: string;
+  version: string;
+  message: string;
+  changes: VersionedField[];
+  restoredFrom?: string;
+  author?: {
+    _id: string;
+    name: string;
+    username?: string;
+  } | null;
+  type: 'VISUAL' | 'CODE' | 'TEMPLATE';
+  code?: string; // content fields are left out of the history list
+  parameters?: Record<string, any>;
+  rules?: StrategyRules;
+  createdAt: string;
+}
+
+export interface StrategyVersionHistory {
+  currentVersion: string;
+  versions: StrategyVersion[];
+}
+
+export interface DiffCell {
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  type: 'equal' | 'changed' | 'added' | 'removed';
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+export interface ParameterChange {
+  key: string;
+  from?: any;
+  to?: any;
+  change: 'added' | 'removed' | 'changed';
+}
+
+export interface StrategyVersionDiff {
+  from: StrategyVersion;
+  to: StrategyVersion;
+  diff: {
+    type: { from: string; to: string } | null;
+    code: { rows: DiffRow[]; added: number; removed: number };
+    parameters: ParameterChange[];
+    rules: { from: StrategyRules | null; to: StrategyRules | null } | null;
+  };
+}
+
+// Portable strategy file, documented in backend/src/utils/strategyPackage.js
+export interface StrategyPackagePreset {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+  tags?: string[];
+}
+
+export interface StrategyPackageBacktest {
+  name: string;
+  startDate: string;
+  endDate: string;
+  initialCapital: number;
+  strategyVersion?: string;
+  summary: Record<string, any>;
+}
+
+export interface StrategyPackage {
+  format: 'share-trading.strategy-package';
+  formatVersion: number;
+  exportedAt: string;
+  checksum: { algorithm: 'sha256'; value: string };
+  content: {
+    strategy: {
+      name: string;
+      description?: string;
+      type: 'VISUAL' | 'CODE' | 'TEMPLATE';
+      version?: string;
+      parameters: Record<string, any>;
+      code?: string;
+      rules?: StrategyRules;
+      tags?: string[];
+      template?: { name: string; category: string };
+    };
+    parameterSchema: ParameterSchema[];
+    presets: StrategyPackagePreset[];
+    versions: Array<Omit<StrategyVersion, '_id' | 'strategyId' | 'author'> & { author?: string }>;
+    backtest: StrategyPackageBacktest | null;
+  };
+}
+
+export interface ImportConflict {
+  type: 'DUPLICATE_NAME' | 'MISSING_TEMPLATE';
+  message: string;
+  strategyId?: string;
+}
+
+export interface ImportPreview {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  migratedFrom: number | null;
+  checksum: 'valid' | 'invalid' | 'missing';
+  conflicts: ImportConflict[];
+  suggestedName: string | null;
+  summary: {
+    name: string;
+    description?: string;
+    type: 'VISUAL' | 'CODE' | 'TEMPLATE';
+    version: string;
+    parameterCount: number;
+    parameterSchemaCount: number;
+    presetCount: number;
+    versionCount: number;
+    backtest: StrategyPackageBacktest | null;
+  } | null;
+  presets: StrategyPackagePreset[];
+}
+
+export interface ExportPackageOptions {
+  presets?: StrategyPackagePreset[];
+  includeBacktest?: boolean;
+}
+
+export type SignalStatus = 'PENDING' | 'SUBMITTED' | 'FILLED' | 'PARTIALLY_FILLED' | 'REJECTED' | 'SKIPPED' | 'EXPIRED';
+
+export type SignalIndicatorValue = number | Record<string, number>;
+
+export interface SignalCondition {
+  description: string;
+  passed: boolean;
+  left: SignalIndicatorValue | null;
+  right: SignalIndicatorValue | null;
+}
+
+export interface SignalRiskViolation {
+  rule: string;
+  scope: 'ACCOUNT' | 'STRATEGY';
+  message: string;
+  limit?: number;
+  value?: number;
+}
+
+// An order a strategy asked for in a backtest or paper session, and what became of it
+export interface StrategySignal {
+  _id: string;
+  userId: string;
+  strategyId: string;
+  source: 'BACKTEST' | 'PAPER';
+  backtestId?: string;
+  sessionId?: string;
+  symbol: string;
+  action: 'BUY' | 'SELL' | 'CLOSE';
+  side: 'BUY' | 'SELL';
+  requestedQuantity?: number;
+  reason?: string;
+  signalDate: string;
+  bar: {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+  };
+  indicators: Record<string, SignalIndicatorValue>;
+  conditions: SignalCondition[];
+  status: SignalStatus;
+  filledQuantity: number;
+  fills: Array<{
+    quantity: number;
+    price: number;
+    executedAt: string;
+    tradeId?: string;
+  }>;
+  // Populated with the orders when one signal is fetched
+  orderIds: Array<string | {
+    _id: string;
+    side: 'BUY' | 'SELL';
+    type: string;
+    quantity: number;
+    filledQuantity: number;
+    avgFillPrice?: number;
+    status: string;
+    rejectionReason?: string;
+    createdAt: string;
+  }>;
+  rejection?: {
+    source: 'ENGINE' | 'SESSION' | 'ORDER' | 'RISK';
+    message: string;
+    violations: SignalRiskViolation[];
+  };
+  createdAt: string;
+}
+
+// One signal with the trades it led to
+export interface StrategySignalDetails extends StrategySignal {
+  trades: Array<{
+    _id: string;
+    symbol: string;
+    side: 'BUY' | 'SELL';
+    quantity: number;
+    price: number;
+    commission: number;
+    pnl?: number;
+    pnlPercent?: number;
+    executedAt: string;
+  }>;
+}
+
+export interface SignalJournalResult {
+  signals: StrategySignal[];
+  counts: Partial<Record<SignalStatus, number>>;
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface GetSignalsOptions {
+  source?: 'BACKTEST' | 'PAPER';
+  status?: SignalStatus;
+  action?: 'BUY' | 'SELL' | 'CLOSE';
+  symbol?: string;
+  limit?: number;
+  offset?: number;
+}
+
 class StrategiesAPI {
   private baseURL: string;
 
@@ -315,6 +623,7 @@ class StrategiesAPI {
     
     if (options.category) params.append('category', options.category);
     if (options.search) params.append('search', options.search);
+    if (options.source) params.append('source', options.source);
     if (options.sortBy) params.append('sortBy', options.sortBy);
     if (options.sortOrder) params.append('sortOrder', options.sortOrder);
     if (options.limit) params.append('limit', options.limit.toString());
@@ -351,6 +660,200 @@ class StrategiesAPI {
     return response.data;
   }
 
+  // Get the templates published by the current user, including private and hidden ones
+  async getMyTemplates(): Promise<StrategyTemplate[]> {
+    const response = await this.makeRequest<{ success: boolean; data: StrategyTemplate[] }>('/templates/mine');
+    return response.data;
+  }
+
+  // Get one template with its author and the current user's review
+  async getTemplate(templateId: string): Promise<TemplateDetails> {
+    const response = await this.makeRequest<{ success: boolean; data: TemplateDetails }>(`/templates/${templateId}`);
+    return response.data;
+  }
+
+  // Publish a strategy as a template; publishing again updates the template
+  async publishStrategy(id: string, data: PublishTemplateData): Promise<StrategyTemplate> {
+    const response = await this.makeRequest<{ success: boolean; data: StrategyTemplate }>(`/${id}/publish`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return response.data;
+  }
+
+  // Edit the listing of an own template
+  async updateTemplate(templateId: string, data: Partial<PublishTemplateData>): Promise<StrategyTemplate> {
+    const response = await this.makeRequest<{ success: boolean; data: StrategyTemplate }>(`/templates/${templateId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+    return response.data;
+  }
+
+  // Take an own template off the marketplace
+  async unpublishTemplate(templateId: string): Promise<void> {
+    await this.makeRequest(`/templates/${templateId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Get the reviews of a template, newest first
+  async getTemplateReviews(templateId: string, limit = 20, offset = 0) {
+    const params = new URLSearchParams({ limit: limit.toString(), offset: offset.toString() });
+    const response = await this.makeRequest<{ success: boolean; data: TemplateReview[]; pagination: any }>(
+      `/templates/${templateId}/reviews?${params.toString()}`
+    );
+    return {
+      reviews: response.data,
+      pagination: response.pagination
+    };
+  }
+
+  // Rate and review a template; a second review replaces the first
+  async reviewTemplate(templateId: string, rating: number, comment = ''): Promise<{ review: TemplateReview; rating: number; ratingCount: number }> {
+    const response = await this.makeRequest<{ success: boolean; data: { review: TemplateReview; rating: number; ratingCount: number } }>(
+      `/templates/${templateId}/reviews`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ rating, comment }),
+      }
+    );
+    return response.data;
+  }
+
+  // Copy a template into a new, editable strategy
+  async forkTemplate(templateId: string, name?: string): Promise<Strategy> {
+    const response = await this.makeRequest<{ success: boolean; data: Strategy }>(`/templates/${templateId}/fork`, {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+    return response.data;
+  }
+
+  // Hide a template from the marketplace or show it again (admins only)
+  async moderateTemplate(templateId: string, status: ModerationStatus, reason?: string): Promise<StrategyTemplate> {
+    const response = await this.makeRequest<{ success: boolean; data: StrategyTemplate }>(`/templates/${templateId}/moderation`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, reason }),
+    });
+    return response.data;
+  }
+
+  // Compile and dry-run strategy code in the sandboxed runtime
+  async validateCode(code: string, parameters: Record<string, any> = {}): Promise<CodeValidationResult> {
+    const response = await this.makeRequest<{ success: boolean; data: CodeValidationResult }>('/validate-code', {
+      method: 'POST',
+      body: JSON.stringify({ code, parameters }),
+    });
+    return response.data;
+  }
+
+  // Compile visual rules into the equivalent strategy code
+  async compileRules(rules: StrategyRules): Promise<string> {
+    const response = await this.makeRequest<{ success: boolean; data: { code: string } }>('/compile-rules', {
+      method: 'POST',
+      body: JSON.stringify({ rules }),
+    });
+    return response.data.code;
+  }
+
+  // Turn a visual strategy into a code strategy running its compiled rules
+  async convertToCode(id: string): Promise<Strategy> {
+    const response = await this.makeRequest<{ success: boolean; data: Strategy }>(`/${id}/convert-to-code`, {
+      method: 'POST',
+    });
+    return response.data;
+  }
+
+  // Get the version history of a strategy, newest first
+  async getVersions(id: string): Promise<StrategyVersionHistory> {
+    const response = await this.makeRequest<{ success: boolean; data: StrategyVersionHistory }>(`/${id}/versions`);
+    return response.data;
+  }
+
+  // Get one version with its code, parameters and rules
+  async getVersion(id: string, version: string): Promise<StrategyVersion> {
+    const response = await this.makeRequest<{ success: boolean; data: StrategyVersion }>(
+      `/${id}/versions/${encodeURIComponent(version)}`
+    );
+    return response.data;
+  }
+
+  // Compare two versions of a strategy
+  async diffVersions(id: string, from: string, to: string): Promise<StrategyVersionDiff> {
+    const params = new URLSearchParams({ from, to });
+    const response = await this.makeRequest<{ success: boolean; data: StrategyVersionDiff }>(
+      `/${id}/versions/diff?${params.toString()}`
+    );
+    return response.data;
+  }
+
+  // Restore an earlier version; the restore is recorded as a new version
+  async rollbackVersion(id: string, version: string, message?: string): Promise<{ strategy: Strategy; version: StrategyVersion }> {
+    const response = await this.makeRequest<{ success: boolean; data: { strategy: Strategy; version: StrategyVersion } }>(
+      `/${id}/versions/${encodeURIComponent(version)}/rollback`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ message }),
+      }
+    );
+    return response.data;
+  }
+
+  // Package a strategy with its presets, history and optionally its latest backtest
+  async exportPackage(id: string, options: ExportPackageOptions = {}): Promise<StrategyPackage> {
+    const response = await this.makeRequest<{ success: boolean; data: StrategyPackage }>(`/${id}/export`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+    return response.data;
+  }
+
+  // Validate a package and list what importing it would conflict with
+  async previewImport(pkg: unknown): Promise<ImportPreview> {
+    const response = await this.makeRequest<{ success: boolean; data: ImportPreview }>('/import/preview', {
+      method: 'POST',
+      body: JSON.stringify({ package: pkg }),
+    });
+    return response.data;
+  }
+
+  // Import a package as a new draft strategy
+  async importPackage(pkg: unknown, name?: string): Promise<{ strategy: Strategy; presets: StrategyPackagePreset[] }> {
+    const response = await this.makeRequest<{ success: boolean; data: { strategy: Strategy; presets: StrategyPackagePreset[] } }>('/import', {
+      method: 'POST',
+      body: JSON.stringify({ package: pkg, name }),
+    });
+    return response.data;
+  }
+
+  // Get the signal journal of a strategy across its backtests and paper sessions
+  async getStrategySignals(id: string, options: GetSignalsOptions = {}): Promise<SignalJournalResult> {
+    const params = new URLSearchParams();
+
+    if (options.source) params.append('source', options.source);
+    if (options.status) params.append('status', options.status);
+    if (options.action) params.append('action', options.action);
+    if (options.symbol) params.append('symbol', options.symbol);
+    if (options.limit) params.append('limit', options.limit.toString());
+    if (options.offset) params.append('offset', options.offset.toString());
+
+    const response = await this.makeRequest<{ success: boolean; data: StrategySignal[]; counts: SignalJournalResult['counts']; pagination: SignalJournalResult['pagination'] }>(
+      `/${id}/signals?${params.toString()}`
+    );
+    return {
+      signals: response.data,
+      counts: response.counts,
+      pagination: response.pagination
+    };
+  }
+
+  // Get one signal with the orders and trades it led to
+  async getSignal(signalId: string): Promise<StrategySignalDetails> {
+    const response = await this.makeRequest<{ success: boolean; data: StrategySignalDetails }>(`/signals/${signalId}`);
+    return response.data;
+  }
+
   // Get performance summary
   async getPerformanceSummary(): Promise<PerformanceSummary> {
     const response = await this.makeRequest<{ success: boolean; data: PerformanceSummary }>('/performance/summary');
@@ -1,15 +1,49 @@
 import { apiClient } from '@/lib/api/client';
-import { Order, Position, Portfolio, MarketData } from '@/types/trading';
+import {
+    Order,
+    Position,
+    Portfolio,
+    PortfolioKind,
+    AccountType,
+    MarketData,
+    OHLCBar,
+    Timeframe,
+    TimeInForce,
+    OrderBookDepth,
+    Exchange,
+    MarketStatus,
+    MarketHoliday,
+    RiskCheckResult,
+    RiskLimits,
+    DeploymentConfig,
+    PaperTradingSession,
+    PaperSessionStatus
+} from '@/types/trading';
 import { transformDates } from '@/lib/utils/date-transform';
+import { GetSignalsOptions, SignalJournalResult } from '@/lib/api/strategies';
 
 export interface PlaceOrderRequest {
     symbol: string;
     side: 'BUY' | 'SELL';
-    type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+    type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP';
     quantity: number;
     price?: number;
     stopPrice?: number;
     strategyId?: string;
+    timeInForce?: TimeInForce;
+    expiresAt?: string; // GTD: ISO time, or YYYY-MM-DD for that day's session close
+    trailAmount?: number;
+    trailPercent?: number;
+    displayQuantity?: number;
+    bracket?: BracketRequest;
+}
+
+// Exits of a bracket entry; a trail offset replaces a fixed stop loss
+export interface BracketRequest {
+    stopLoss?: number;
+    takeProfit?: number;
+    trailAmount?: number;
+    trailPercent?: number;
 }
 
 export interface OrdersResponse {
@@ -40,23 +74,103 @@ export interface ModifyOrderRequest {
     stopPrice?: number;
 }
 
+// localStorage key of the portfolio chosen in the paper-trading switcher
+export const SELECTED_PORTFOLIO_KEY = 'selectedPortfolioId';
+
+export interface CreatePortfolioRequest {
+    name: string;
+    description?: string;
+    kind?: PortfolioKind;
+    strategyId?: string;
+    accountType?: AccountType;
+    initialCapital?: number;
+    isDefault?: boolean;
+}
+
+export interface UpdatePortfolioRequest {
+    name?: string;
+    description?: string;
+    kind?: PortfolioKind;
+    strategyId?: string | null;
+    isDefault?: boolean;
+}
+
+export interface PortfolioTransferRequest {
+    fromPortfolioId: string;
+    toPortfolioId: string;
+    amount: number;
+}
+
+export interface DeploySessionRequest {
+    strategyId: string;
+    config: DeploymentConfig;
+    // Default to the strategy's parameters
+    symbol?: string;
+    timeframe?: Timeframe;
+    // Default to the selected portfolio
+    portfolioId?: string;
+}
+
 class TradingAPI {
+    // Portfolio the account endpoints are scoped to; the default portfolio when unset
+    private portfolioId: string | null = null;
+
+    setPortfolio(portfolioId: string | null) {
+        this.portfolioId = portfolioId;
+    }
+
+    private scoped<T extends object>(config?: T) {
+        return this.portfolioId
+            ? { ...config, headers: { 'X-Portfolio-Id': this.portfolioId } }
+            : config;
+    }
+
     // Portfolio endpoints
     async getPortfolio(): Promise<Portfolio> {
-        const response = await apiClient.get('/trading/portfolio');
+        const response = await apiClient.get('/trading/portfolio', this.scoped());
+        return transformDates(response.data);
+    }
+
+    async getPortfolios(includeArchived = false): Promise<Portfolio[]> {
+        const response = await apiClient.get('/trading/portfolios', { params: { includeArchived } });
+        return transformDates(response.data);
+    }
+
+    async createPortfolio(data: CreatePortfolioRequest): Promise<Portfolio> {
+        const response = await apiClient.post('/trading/portfolios', data);
+        return transformDates(response.data);
+    }
+
+    async updatePortfolio(portfolioId: string, data: UpdatePortfolioRequest): Promise<Portfolio> {
+        const response = await apiClient.put(`/trading/portfolios/${portfolioId}`, data);
+        return transformDates(response.data);
+    }
+
+    async resetPortfolio(portfolioId: string): Promise<Portfolio> {
+        const response = await apiClient.post(`/trading/portfolios/${portfolioId}/reset`);
+        return transformDates(response.data);
+    }
+
+    async archivePortfolio(portfolioId: string): Promise<Portfolio> {
+        const response = await apiClient.post(`/trading/portfolios/${portfolioId}/archive`);
+        return transformDates(response.data);
+    }
+
+    async transferCash(data: PortfolioTransferRequest): Promise<{ from: Portfolio; to: Portfolio }> {
+        const response = await apiClient.post('/trading/portfolios/transfers', data);
         return transformDates(response.data);
     }
 
     // Position endpoints
     async getPositions(): Promise<Position[]> {
-        const response = await apiClient.get('/trading/positions');
+        const response = await apiClient.get('/trading/positions', this.scoped());
         return transformDates(response.data);
     }
 
+    // Closes through a market order on the other side, under the session and risk checks of any order
     async closePosition(positionId: string, data: ClosePositionRequest): Promise<{
+        order: Order;
         position: Position;
-        trade: any;
-        pnl: number;
     }> {
         const response = await apiClient.post(`/trading/positions/${positionId}/close`, data);
         return response.data;
@@ -73,15 +187,25 @@ class TradingAPI {
     }
 
     async exportPositions(): Promise<Blob> {
-        const response = await apiClient.get('/trading/positions/export', {
-            responseType: 'blob'
-        });
+        const response = await apiClient.get('/trading/positions/export', this.scoped({
+            responseType: 'blob' as const
+        }));
         return response.data;
     }
 
     // Order endpoints
     async placeOrder(data: PlaceOrderRequest): Promise<Order> {
-        const response = await apiClient.post('/trading/orders', data);
+        const response = await apiClient.post('/trading/orders', data, this.scoped());
+        return transformDates(response.data);
+    }
+
+    async checkOrder(data: Omit<PlaceOrderRequest, 'bracket'>): Promise<RiskCheckResult> {
+        const response = await apiClient.post('/trading/orders/check', data, this.scoped());
+        return response.data;
+    }
+
+    async placeOcoOrder(orders: Omit<PlaceOrderRequest, 'bracket'>[]): Promise<Order[]> {
+        const response = await apiClient.post('/trading/orders/oco', { orders }, this.scoped());
         return transformDates(response.data);
     }
 
@@ -90,7 +214,7 @@ class TradingAPI {
         page?: number;
         limit?: number;
     }): Promise<OrdersResponse> {
-        const response = await apiClient.get('/trading/orders', { params });
+        const response = await apiClient.get('/trading/orders', this.scoped({ params }));
         const data = response.data;
         return {
             ...data,
@@ -99,7 +223,7 @@ class TradingAPI {
     }
 
     async getActiveOrders(): Promise<Order[]> {
-        const response = await apiClient.get('/trading/orders/active');
+        const response = await apiClient.get('/trading/orders/active', this.scoped());
         return transformDates(response.data);
     }
 
@@ -114,9 +238,9 @@ class TradingAPI {
     }
 
     async exportOrders(): Promise<Blob> {
-        const response = await apiClient.get('/trading/orders/export', {
-            responseType: 'blob'
-        });
+        const response = await apiClient.get('/trading/orders/export', this.scoped({
+            responseType: 'blob' as const
+        }));
         return response.data;
     }
 
@@ -145,20 +269,72 @@ class TradingAPI {
 
     async getOHLCData(
         symbol: string,
-        period?: string,
+        timeframe?: Timeframe,
         count?: number
-    ): Promise<Array<{
-        date: string;
-        open: number;
-        high: number;
-        low: number;
-        close: number;
-        volume: number;
-    }>> {
-        const params = { period, count };
+    ): Promise<OHLCBar[]> {
+        const params = { timeframe, count };
         const response = await apiClient.get(`/trading/market-data/${symbol}/ohlc`, { params });
         return response.data;
     }
+
+    async getOrderBook(symbol: string, levels?: number): Promise<OrderBookDepth> {
+        const response = await apiClient.get(`/trading/market-data/${symbol}/book`, { params: { levels } });
+        return response.data;
+    }
+
+    // Risk limits
+    async getRiskLimits(): Promise<RiskLimits> {
+        const response = await apiClient.get('/trading/risk-limits', this.scoped());
+        return response.data;
+    }
+
+    async updateRiskLimits(limits: Partial<RiskLimits>): Promise<RiskLimits> {
+        const response = await apiClient.put('/trading/risk-limits', limits, this.scoped());
+        return response.data;
+    }
+
+    // Paper trading session endpoints
+    async getSessions(status?: PaperSessionStatus): Promise<PaperTradingSession[]> {
+        const response = await apiClient.get('/paper-trading/sessions', { params: { status } });
+        return transformDates(response.data);
+    }
+
+    async deploySession(data: DeploySessionRequest): Promise<PaperTradingSession> {
+        const response = await apiClient.post('/paper-trading/sessions', data, this.scoped());
+        return transformDates(response.data);
+    }
+
+    async pauseSession(sessionId: string): Promise<PaperTradingSession> {
+        const response = await apiClient.post(`/paper-trading/sessions/${sessionId}/pause`);
+        return transformDates(response.data);
+    }
+
+    async resumeSession(sessionId: string): Promise<PaperTradingSession> {
+        const response = await apiClient.post(`/paper-trading/sessions/${sessionId}/resume`);
+        return transformDates(response.data);
+    }
+
+    async stopSession(sessionId: string): Promise<PaperTradingSession> {
+        const response = await apiClient.post(`/paper-trading/sessions/${sessionId}/stop`);
+        return transformDates(response.data);
+    }
+
+    // Signal journal of a session, newest first; dates stay ISO strings as in the strategies API
+    async getSessionSignals(sessionId: string, options: Omit<GetSignalsOptions, 'source'> = {}): Promise<SignalJournalResult> {
+        const response = await apiClient.get(`/paper-trading/sessions/${sessionId}/signals`, { params: options });
+        return response.data;
+    }
+
+    // Trading calendar
+    async getMarketStatus(exchange: Exchange = 'NSE'): Promise<MarketStatus> {
+        const response = await apiClient.get('/trading/market-status', { params: { exchange } });
+        return response.data;
+    }
+
+    async getHolidays(exchange: Exchange = 'NSE', year?: number): Promise<MarketHoliday[]> {
+        const response = await apiClient.get('/trading/calendar/holidays', { params: { exchange, year } });
+        return response.data;
+    }
 }
 
 export const tradingAPI = new TradingAPI();
\ No newline at end of file
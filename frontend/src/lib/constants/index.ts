@@ -30,6 +30,7 @@ export const ORDER_TYPES = {
   LIMIT: 'Limit',
   STOP: 'Stop',
   STOP_LIMIT: 'Stop Limit',
+  TRAILING_STOP: 'Trailing Stop',
 } as const;
 
 // Order Sides
@@ -105,6 +106,13 @@ export const MOCK_SYMBOLS = [
   'META', 'NVDA', 'NFLX', 'ADBE', 'CRM',
 ] as const;
 
+// NSE symbols the backend seeds market data for (MarketDataService.symbols)
+export const NSE_SYMBOLS = [
+  'RELIANCE', 'TCS', 'HDFCBANK', 'INFY', 'ICICIBANK',
+  'HINDUNILVR', 'ITC', 'SBIN', 'BHARTIARTL', 'KOTAKBANK',
+  'LT', 'ASIANPAINT', 'MARUTI', 'AXISBANK', 'NESTLEIND',
+] as const;
+
 export const MOCK_TIMEFRAMES = [
   '1m', '5m', '15m', '30m', '1h', '4h', '1d', '1w', '1M'
 ] as const;
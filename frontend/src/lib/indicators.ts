@@ -0,0 +1,603 @@
+/**
+ * Technical indicator library.
+ *
+ * Every indicator is a class with an O(1) `update(input)` that returns the
+ * latest value (null while warming up). The batch helpers at the bottom run
+ * the same classes over a whole series, so streaming and batch results are
+ * identical. This is a port of backend/src/utils/indicators.js, which the
+ * backtest engine and strategy runtime use; keep the two in step so charts
+ * show the same numbers strategies trade on.
+ */
+
+export interface OHLCVBar {
+  date?: string | number | Date;
+  open?: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number | null;
+}
+
+export interface ADXValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface SuperTrendValue {
+  value: number;
+  direction: 1 | -1;
+}
+
+export interface Indicator<TInput, TValue> {
+  value: TValue | null;
+  update(input: TInput): TValue | null;
+}
+
+const toPeriod = (name: string, period: number): number => {
+  const value = Number(period);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} period must be a positive integer, got ${period}`);
+  }
+  return value;
+};
+
+/**
+ * Fixed-size FIFO window backed by a ring buffer
+ */
+class RollingWindow {
+  private size: number;
+  private values: number[];
+  private start = 0;
+  length = 0;
+
+  constructor(size: number) {
+    this.size = size;
+    this.values = new Array(size);
+  }
+
+  /**
+   * Append a value; returns the value pushed out, or undefined
+   */
+  push(value: number): number | undefined {
+    if (this.length < this.size) {
+      this.values[(this.start + this.length) % this.size] = value;
+      this.length += 1;
+      return undefined;
+    }
+    const removed = this.values[this.start];
+    this.values[this.start] = value;
+    this.start = (this.start + 1) % this.size;
+    return removed;
+  }
+
+  get full(): boolean {
+    return this.length === this.size;
+  }
+}
+
+type Comparator = (kept: number, next: number) => boolean;
+
+/**
+ * Rolling maximum or minimum using a monotonic deque (amortized O(1))
+ */
+class RollingExtreme {
+  private period: number;
+  private compare: Comparator;
+  private deque: { index: number; value: number }[] = [];
+  private head = 0;
+  private index = 0;
+
+  constructor(period: number, compare: Comparator) {
+    this.period = period;
+    this.compare = compare;
+  }
+
+  update(value: number): number | null {
+    while (this.deque.length > this.head && !this.compare(this.deque[this.deque.length - 1].value, value)) {
+      this.deque.pop();
+    }
+    this.deque.push({ index: this.index, value });
+    if (this.deque[this.head].index <= this.index - this.period) {
+      this.head += 1;
+    }
+    // Compact the consumed front occasionally so memory stays bounded
+    if (this.head > 1024 && this.head * 2 > this.deque.length) {
+      this.deque = this.deque.slice(this.head);
+      this.head = 0;
+    }
+    this.index += 1;
+    return this.index >= this.period ? this.deque[this.head].value : null;
+  }
+}
+
+export class Highest implements Indicator<number, number> {
+  private extreme: RollingExtreme;
+  value: number | null = null;
+
+  constructor(period: number) {
+    this.extreme = new RollingExtreme(toPeriod('Highest', period), (kept, next) => kept > next);
+  }
+
+  update(value: number): number | null {
+    this.value = this.extreme.update(value);
+    return this.value;
+  }
+}
+
+export class Lowest implements Indicator<number, number> {
+  private extreme: RollingExtreme;
+  value: number | null = null;
+
+  constructor(period: number) {
+    this.extreme = new RollingExtreme(toPeriod('Lowest', period), (kept, next) => kept < next);
+  }
+
+  update(value: number): number | null {
+    this.value = this.extreme.update(value);
+    return this.value;
+  }
+}
+
+/**
+ * Simple moving average
+ */
+export class SMA implements Indicator<number, number> {
+  private period: number;
+  private window: RollingWindow;
+  private sum = 0;
+  value: number | null = null;
+
+  constructor(period: number) {
+    this.period = toPeriod('SMA', period);
+    this.window = new RollingWindow(this.period);
+  }
+
+  update(value: number): number | null {
+    const removed = this.window.push(value);
+    this.sum += value - (removed === undefined ? 0 : removed);
+    this.value = this.window.full ? this.sum / this.period : null;
+    return this.value;
+  }
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export class EMA implements Indicator<number, number> {
+  private period: number;
+  private k: number;
+  private count = 0;
+  private seedSum = 0;
+  value: number | null = null;
+
+  constructor(period: number) {
+    this.period = toPeriod('EMA', period);
+    this.k = 2 / (this.period + 1);
+  }
+
+  update(value: number): number | null {
+    if (this.value === null) {
+      this.seedSum += value;
+      this.count += 1;
+      if (this.count === this.period) {
+        this.value = this.seedSum / this.period;
+      }
+      return this.value;
+    }
+    this.value = value * this.k + this.value * (1 - this.k);
+    return this.value;
+  }
+}
+
+/**
+ * Linearly weighted moving average (newest value has weight `period`)
+ */
+export class WMA implements Indicator<number, number> {
+  private period: number;
+  private window: RollingWindow;
+  private sum = 0;
+  private weightedSum = 0;
+  private divisor: number;
+  value: number | null = null;
+
+  constructor(period: number) {
+    this.period = toPeriod('WMA', period);
+    this.window = new RollingWindow(this.period);
+    this.divisor = (this.period * (this.period + 1)) / 2;
+  }
+
+  update(value: number): number | null {
+    if (this.window.full) {
+      // Every value loses one weight step; the newest enters at full weight
+      this.weightedSum += this.period * value - this.sum;
+      this.sum += value - (this.window.push(value) as number);
+    } else {
+      this.window.push(value);
+      this.weightedSum += this.window.length * value;
+      this.sum += value;
+    }
+    this.value = this.window.full ? this.weightedSum / this.divisor : null;
+    return this.value;
+  }
+}
+
+/**
+ * Relative strength index with Wilder smoothing
+ */
+export class RSI implements Indicator<number, number> {
+  private period: number;
+  private previous: number | null = null;
+  private count = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+  value: number | null = null;
+
+  constructor(period = 14) {
+    this.period = toPeriod('RSI', period);
+  }
+
+  update(value: number): number | null {
+    if (this.previous === null) {
+      this.previous = value;
+      return this.value;
+    }
+
+    const change = value - this.previous;
+    this.previous = value;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    this.count += 1;
+
+    if (this.count <= this.period) {
+      this.avgGain += gain / this.period;
+      this.avgLoss += loss / this.period;
+      if (this.count < this.period) return this.value;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    this.value = this.avgLoss === 0 ? 100 : 100 - 100 / (1 + this.avgGain / this.avgLoss);
+    return this.value;
+  }
+}
+
+/**
+ * Moving average convergence/divergence
+ */
+export class MACD implements Indicator<number, MACDValue> {
+  private fast: EMA;
+  private slow: EMA;
+  private signal: EMA;
+  value: MACDValue | null = null;
+
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signal = new EMA(signalPeriod);
+  }
+
+  update(value: number): MACDValue | null {
+    const fast = this.fast.update(value);
+    const slow = this.slow.update(value);
+    if (fast === null || slow === null) return this.value;
+
+    const macd = fast - slow;
+    const signal = this.signal.update(macd);
+    if (signal === null) return this.value;
+
+    this.value = { macd, signal, histogram: macd - signal };
+    return this.value;
+  }
+}
+
+/**
+ * Bollinger Bands over a population standard deviation
+ */
+export class BollingerBands implements Indicator<number, BollingerValue> {
+  private period: number;
+  private multiplier: number;
+  private window: RollingWindow;
+  private sum = 0;
+  private sumSquares = 0;
+  value: BollingerValue | null = null;
+
+  constructor(period = 20, multiplier = 2) {
+    this.period = toPeriod('BollingerBands', period);
+    this.multiplier = Number(multiplier);
+    this.window = new RollingWindow(this.period);
+  }
+
+  update(value: number): BollingerValue | null {
+    const removed = this.window.push(value);
+    if (removed !== undefined) {
+      this.sum -= removed;
+      this.sumSquares -= removed * removed;
+    }
+    this.sum += value;
+    this.sumSquares += value * value;
+
+    if (!this.window.full) return this.value;
+
+    const middle = this.sum / this.period;
+    const variance = Math.max(0, this.sumSquares / this.period - middle * middle);
+    const deviation = Math.sqrt(variance) * this.multiplier;
+    this.value = { upper: middle + deviation, middle, lower: middle - deviation };
+    return this.value;
+  }
+}
+
+const trueRange = (bar: OHLCVBar, previousClose: number | null): number => (previousClose === null
+  ? bar.high - bar.low
+  : Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose)));
+
+/**
+ * Average true range with Wilder smoothing
+ */
+export class ATR implements Indicator<OHLCVBar, number> {
+  private period: number;
+  private previousClose: number | null = null;
+  private count = 0;
+  private sum = 0;
+  value: number | null = null;
+
+  constructor(period = 14) {
+    this.period = toPeriod('ATR', period);
+  }
+
+  update(bar: OHLCVBar): number | null {
+    const range = trueRange(bar, this.previousClose);
+    this.previousClose = bar.close;
+
+    if (this.value === null) {
+      this.sum += range;
+      this.count += 1;
+      if (this.count === this.period) {
+        this.value = this.sum / this.period;
+      }
+      return this.value;
+    }
+
+    this.value = (this.value * (this.period - 1) + range) / this.period;
+    return this.value;
+  }
+}
+
+/**
+ * Stochastic oscillator; %D is null until it has warmed up
+ */
+export class Stochastic implements Indicator<OHLCVBar, StochasticValue> {
+  private highest: Highest;
+  private lowest: Lowest;
+  private signal: SMA;
+  value: StochasticValue | null = null;
+
+  constructor(kPeriod = 14, dPeriod = 3) {
+    this.highest = new Highest(kPeriod);
+    this.lowest = new Lowest(kPeriod);
+    this.signal = new SMA(dPeriod);
+  }
+
+  update(bar: OHLCVBar): StochasticValue | null {
+    const high = this.highest.update(bar.high);
+    const low = this.lowest.update(bar.low);
+    if (high === null || low === null) return this.value;
+
+    // A flat range has no position within it; report the midpoint
+    const k = high === low ? 50 : ((bar.close - low) / (high - low)) * 100;
+    this.value = { k, d: this.signal.update(k) };
+    return this.value;
+  }
+}
+
+/**
+ * Volume-weighted average price of the typical price. With `resetDaily` the
+ * average restarts at every UTC calendar day, as for intraday sessions.
+ */
+export class VWAP implements Indicator<OHLCVBar, number> {
+  private resetDaily: boolean;
+  private session: string | null = null;
+  private priceVolume = 0;
+  private volume = 0;
+  value: number | null = null;
+
+  constructor({ resetDaily = false }: { resetDaily?: boolean } = {}) {
+    this.resetDaily = resetDaily;
+  }
+
+  update(bar: OHLCVBar): number | null {
+    if (this.resetDaily && bar.date !== undefined) {
+      const session = new Date(bar.date).toISOString().slice(0, 10);
+      if (session !== this.session) {
+        this.session = session;
+        this.priceVolume = 0;
+        this.volume = 0;
+      }
+    }
+
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    const volume = bar.volume || 0;
+    this.priceVolume += typical * volume;
+    this.volume += volume;
+    this.value = this.volume > 0 ? this.priceVolume / this.volume : typical;
+    return this.value;
+  }
+}
+
+/**
+ * On-balance volume, starting from zero at the first bar
+ */
+export class OBV implements Indicator<OHLCVBar, number> {
+  private previousClose: number | null = null;
+  value: number | null = null;
+
+  update(bar: OHLCVBar): number | null {
+    if (this.previousClose === null || this.value === null) {
+      this.value = 0;
+    } else if (bar.close > this.previousClose) {
+      this.value += bar.volume || 0;
+    } else if (bar.close < this.previousClose) {
+      this.value -= bar.volume || 0;
+    }
+    this.previousClose = bar.close;
+    return this.value;
+  }
+}
+
+/**
+ * Average directional index
+ */
+export class ADX implements Indicator<OHLCVBar, ADXValue> {
+  private period: number;
+  private previous: OHLCVBar | null = null;
+  private count = 0;
+  private smoothedRange = 0;
+  private smoothedPlusDM = 0;
+  private smoothedMinusDM = 0;
+  private dxCount = 0;
+  private dxSum = 0;
+  private adx: number | null = null;
+  value: ADXValue | null = null;
+
+  constructor(period = 14) {
+    this.period = toPeriod('ADX', period);
+  }
+
+  update(bar: OHLCVBar): ADXValue | null {
+    if (this.previous === null) {
+      this.previous = bar;
+      return this.value;
+    }
+
+    const upMove = bar.high - this.previous.high;
+    const downMove = this.previous.low - bar.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const range = trueRange(bar, this.previous.close);
+    this.previous = bar;
+    this.count += 1;
+
+    // Wilder running sums: plain sums for the first period, then smoothed
+    if (this.count <= this.period) {
+      this.smoothedRange += range;
+      this.smoothedPlusDM += plusDM;
+      this.smoothedMinusDM += minusDM;
+      if (this.count < this.period) return this.value;
+    } else {
+      this.smoothedRange += range - this.smoothedRange / this.period;
+      this.smoothedPlusDM += plusDM - this.smoothedPlusDM / this.period;
+      this.smoothedMinusDM += minusDM - this.smoothedMinusDM / this.period;
+    }
+
+    const plusDI = this.smoothedRange > 0 ? (this.smoothedPlusDM / this.smoothedRange) * 100 : 0;
+    const minusDI = this.smoothedRange > 0 ? (this.smoothedMinusDM / this.smoothedRange) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    const dx = diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0;
+
+    if (this.adx === null) {
+      this.dxSum += dx;
+      this.dxCount += 1;
+      if (this.dxCount < this.period) return this.value;
+      this.adx = this.dxSum / this.period;
+    } else {
+      this.adx = (this.adx * (this.period - 1) + dx) / this.period;
+    }
+
+    this.value = { adx: this.adx, plusDI, minusDI };
+    return this.value;
+  }
+}
+
+/**
+ * SuperTrend; direction is 1 in an uptrend and -1 in a downtrend
+ */
+export class SuperTrend implements Indicator<OHLCVBar, SuperTrendValue> {
+  private atr: ATR;
+  private multiplier: number;
+  private upper: number | null = null;
+  private lower: number | null = null;
+  private direction: 1 | -1 = 1;
+  private previousClose: number | null = null;
+  value: SuperTrendValue | null = null;
+
+  constructor(period = 10, multiplier = 3) {
+    this.atr = new ATR(period);
+    this.multiplier = Number(multiplier);
+  }
+
+  update(bar: OHLCVBar): SuperTrendValue | null {
+    const atr = this.atr.update(bar);
+    const previousClose = this.previousClose;
+    this.previousClose = bar.close;
+    if (atr === null) return this.value;
+
+    const middle = (bar.high + bar.low) / 2;
+    const basicUpper = middle + this.multiplier * atr;
+    const basicLower = middle - this.multiplier * atr;
+
+    if (this.upper === null || this.lower === null || previousClose === null) {
+      this.upper = basicUpper;
+      this.lower = basicLower;
+      this.direction = bar.close >= middle ? 1 : -1;
+    } else {
+      // Bands only tighten while price stays on their side
+      this.upper = basicUpper < this.upper || previousClose > this.upper ? basicUpper : this.upper;
+      this.lower = basicLower > this.lower || previousClose < this.lower ? basicLower : this.lower;
+
+      if (this.direction === 1 && bar.close < this.lower) {
+        this.direction = -1;
+      } else if (this.direction === -1 && bar.close > this.upper) {
+        this.direction = 1;
+      }
+    }
+
+    this.value = {
+      value: this.direction === 1 ? this.lower : this.upper,
+      direction: this.direction,
+    };
+    return this.value;
+  }
+}
+
+/**
+ * Run an indicator over a whole series
+ */
+const run = <TInput, TValue>(indicator: Indicator<TInput, TValue>, inputs: TInput[]): (TValue | null)[] =>
+  inputs.map((input) => indicator.update(input));
+
+export const sma = (values: number[], period: number) => run(new SMA(period), values);
+export const ema = (values: number[], period: number) => run(new EMA(period), values);
+export const wma = (values: number[], period: number) => run(new WMA(period), values);
+export const rsi = (values: number[], period = 14) => run(new RSI(period), values);
+export const macd = (values: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) =>
+  run(new MACD(fastPeriod, slowPeriod, signalPeriod), values);
+export const bollinger = (values: number[], period = 20, multiplier = 2) =>
+  run(new BollingerBands(period, multiplier), values);
+export const atr = (bars: OHLCVBar[], period = 14) => run(new ATR(period), bars);
+export const stochastic = (bars: OHLCVBar[], kPeriod = 14, dPeriod = 3) =>
+  run(new Stochastic(kPeriod, dPeriod), bars);
+export const vwap = (bars: OHLCVBar[], options: { resetDaily?: boolean } = {}) => run(new VWAP(options), bars);
+export const obv = (bars: OHLCVBar[]) => run(new OBV(), bars);
+export const adx = (bars: OHLCVBar[], period = 14) => run(new ADX(period), bars);
+export const superTrend = (bars: OHLCVBar[], period = 10, multiplier = 3) =>
+  run(new SuperTrend(period, multiplier), bars);
+export const highest = (values: number[], period: number) => run(new Highest(period), values);
+export const lowest = (values: number[], period: number) => run(new Lowest(period), values);
@@ -0,0 +1,208 @@
+/**
+ * Monte Carlo robustness simulation over a backtest's closed trades.
+ *
+ * Each iteration rebuilds an equity path from the trade P&L list, either by
+ * reordering it (shuffle: same trades, different sequence) or by drawing
+ * trades with replacement (bootstrap: different mix of the same kind of
+ * trades). Skipped trades model missed fills. A robust strategy keeps a
+ * tight distribution; a lucky one only looks good in the original order.
+ */
+
+export type ResamplingMethod = 'SHUFFLE' | 'BOOTSTRAP';
+
+export interface MonteCarloConfig {
+  iterations: number;
+  method: ResamplingMethod;
+  /** Chance (0-1) that any single trade is not taken */
+  skipProbability: number;
+  /** Drawdown (%) from peak that counts as ruin */
+  ruinDrawdownPercent: number;
+  seed?: number;
+}
+
+export interface Percentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+export interface EquityBand extends Omit<Percentiles, 'mean'> {
+  trade: number;
+  original: number;
+}
+
+export interface DrawdownBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  tradeCount: number;
+  equityBands: EquityBand[];
+  finalEquity: Percentiles;
+  maxDrawdownPercent: Percentiles;
+  drawdownHistogram: DrawdownBucket[];
+  originalMaxDrawdownPercent: number;
+  /** Fraction of paths whose drawdown reached the ruin threshold */
+  riskOfRuin: number;
+  /** Fraction of paths that ended below the initial capital */
+  probabilityOfLoss: number;
+}
+
+export const MAX_MONTE_CARLO_ITERATIONS = 10000;
+
+export const DEFAULT_MONTE_CARLO: MonteCarloConfig = {
+  iterations: 1000,
+  method: 'SHUFFLE',
+  skipProbability: 0,
+  ruinDrawdownPercent: 50,
+};
+
+// Fan chart resolution; paths are sampled at most this many times
+const MAX_BAND_POINTS = 100;
+const HISTOGRAM_BUCKETS = 20;
+
+// Same generator the backend optimizer uses, so runs are reproducible
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Linear-interpolated percentile of an ascending sorted array
+ */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+const summarize = (values: Float64Array): Percentiles => {
+  const sorted = Float64Array.from(values).sort();
+  let total = 0;
+  for (let i = 0; i < sorted.length; i++) total += sorted[i];
+
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    mean: sorted.length > 0 ? total / sorted.length : 0,
+  };
+};
+
+const maxDrawdownOf = (pnls: number[], initialCapital: number) => {
+  let equity = initialCapital;
+  let peak = initialCapital;
+  let maxDrawdown = 0;
+  for (const pnl of pnls) {
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+  }
+  return maxDrawdown;
+};
+
+/**
+ * Run the simulation
+ * @param pnls - Net P&L of each closed trade, in original order
+ * @param initialCapital - Starting equity for every path
+ */
+export function runMonteCarlo(pnls: number[], initialCapital: number, config: MonteCarloConfig): MonteCarloResult {
+  const iterations = Math.max(1, Math.min(MAX_MONTE_CARLO_ITERATIONS, Math.floor(config.iterations)));
+  const tradeCount = pnls.length;
+  const random = mulberry32(config.seed ?? 42);
+
+  // Trade indices at which every path is sampled for the fan chart
+  const step = Math.max(1, Math.ceil(tradeCount / MAX_BAND_POINTS));
+  const checkpoints: number[] = [];
+  for (let trade = 0; trade < tradeCount; trade += step) checkpoints.push(trade);
+  checkpoints.push(tradeCount);
+
+  const sampled = checkpoints.map(() => new Float64Array(iterations));
+  const finalEquity = new Float64Array(iterations);
+  const maxDrawdowns = new Float64Array(iterations);
+  const order = pnls.slice();
+  let ruined = 0;
+  let losing = 0;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    if (config.method === 'SHUFFLE') {
+      // Fisher-Yates
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+    } else {
+      for (let i = 0; i < tradeCount; i++) {
+        order[i] = pnls[Math.floor(random() * tradeCount)];
+      }
+    }
+
+    let equity = initialCapital;
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    let checkpoint = 0;
+
+    for (let trade = 0; trade <= tradeCount; trade++) {
+      if (checkpoints[checkpoint] === trade) {
+        sampled[checkpoint][iteration] = equity;
+        checkpoint++;
+      }
+      if (trade === tradeCount) break;
+      if (config.skipProbability > 0 && random() < config.skipProbability) continue;
+
+      equity += order[trade];
+      peak = Math.max(peak, equity);
+      if (peak > 0) maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+    }
+
+    finalEquity[iteration] = equity;
+    maxDrawdowns[iteration] = maxDrawdown;
+    if (maxDrawdown >= config.ruinDrawdownPercent || equity <= 0) ruined++;
+    if (equity < initialCapital) losing++;
+  }
+
+  let originalEquity = initialCapital;
+  let originalTrade = 0;
+  const equityBands = checkpoints.map((trade, index) => {
+    while (originalTrade < trade) originalEquity += pnls[originalTrade++];
+    const { p5, p25, p50, p75, p95 } = summarize(sampled[index]);
+    return { trade, p5, p25, p50, p75, p95, original: originalEquity };
+  });
+
+  const drawdownStats = summarize(maxDrawdowns);
+  const widest = maxDrawdowns.reduce((max, value) => Math.max(max, value), 0);
+  const bucketWidth = widest > 0 ? widest / HISTOGRAM_BUCKETS : 1;
+  const drawdownHistogram: DrawdownBucket[] = Array.from({ length: HISTOGRAM_BUCKETS }, (_, index) => ({
+    from: index * bucketWidth,
+    to: (index + 1) * bucketWidth,
+    count: 0,
+  }));
+  maxDrawdowns.forEach(value => {
+    drawdownHistogram[Math.min(HISTOGRAM_BUCKETS - 1, Math.floor(value / bucketWidth))].count++;
+  });
+
+  return {
+    iterations,
+    tradeCount,
+    equityBands,
+    finalEquity: summarize(finalEquity),
+    maxDrawdownPercent: drawdownStats,
+    drawdownHistogram,
+    originalMaxDrawdownPercent: maxDrawdownOf(pnls, initialCapital),
+    riskOfRuin: ruined / iterations,
+    probabilityOfLoss: losing / iterations,
+  };
+}
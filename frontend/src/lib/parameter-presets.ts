@@ -0,0 +1,56 @@
+/**
+ * Parameter Preset Storage
+ * Persists strategy parameter presets in localStorage
+ */
+
+const PRESETS_STORAGE_KEY = 'strategy-parameter-presets';
+
+export interface ParameterPreset {
+  id: string;
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+  isDefault: boolean;
+  createdAt: Date;
+  tags: string[];
+}
+
+export const parameterPresetStorage = {
+  /**
+   * Get all saved presets
+   */
+  getPresets: (): ParameterPreset[] => {
+    try {
+      const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+      if (!stored) return [];
+
+      return JSON.parse(stored).map((preset: any) => ({
+        ...preset,
+        createdAt: new Date(preset.createdAt),
+      }));
+    } catch (error) {
+      console.error('Failed to load parameter presets:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Replace all saved presets
+   */
+  savePresets: (presets: ParameterPreset[]): void => {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  },
+
+  /**
+   * Append a new preset and return it
+   */
+  addPreset: (preset: Omit<ParameterPreset, 'id' | 'createdAt'>): ParameterPreset => {
+    const saved: ParameterPreset = {
+      ...preset,
+      id: `preset-${Date.now()}`,
+      createdAt: new Date(),
+    };
+    parameterPresetStorage.savePresets([...parameterPresetStorage.getPresets(), saved]);
+    return saved;
+  },
+};
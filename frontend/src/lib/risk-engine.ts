@@ -0,0 +1,229 @@
+/**
+ * Pre-trade risk rules.
+ *
+ * A port of backend/src/utils/riskRules.js so the demo order service checks
+ * manual and strategy orders against the same rules as the backend risk
+ * engine; keep the two files in step (__tests__/risk-engine.test.ts runs the
+ * same orders through both). A limit that is null or undefined
+ * switches its rule off, and orders that only reduce a position skip the
+ * exposure, concentration, daily loss and concurrent trade rules. Buying
+ * power bounds the value of the positions an order opens, long or short.
+ */
+
+import { OrderSide, RiskLimits, RiskViolation } from '@/types/trading';
+
+export interface RiskOrder {
+  symbol?: string;
+  side: OrderSide;
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+}
+
+export interface RiskContext {
+  marketPrice?: number;
+  position?: number; // signed quantity held
+  equity?: number;
+  buyingPower?: number;
+  shortable?: boolean;
+  exposure?: number; // gross market value held
+  dayPnL?: number;
+  recentOrders?: number; // orders in the last minute
+  openTrades?: number;
+}
+
+export interface RiskTrade {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission?: number;
+}
+
+// Account limits applied when none are set
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxOrderValue: 1000000,
+  priceBandPercent: 10,
+  maxExposurePercent: null,
+  maxPositionSizePercent: 50,
+  maxDailyLoss: null,
+  maxDailyLossPercent: 10,
+  maxOrdersPerMinute: 30,
+  maxConcurrentTrades: null,
+};
+
+export const COMMISSION_RATE = 0.0001; // 0.01% commission
+
+const isSet = (limit: number | null | undefined): limit is number => limit !== null && limit !== undefined;
+
+const formatAmount = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+/**
+ * Whether an order only takes quantity off an existing position
+ */
+export function isReducing(position: number, change: number): boolean {
+  const after = position + change;
+  return position !== 0 && Math.abs(after) < Math.abs(position) && Math.sign(after) !== -Math.sign(position);
+}
+
+/**
+ * Quantity an order adds to a position, on either side; all of it when the
+ * order flips the position
+ */
+export function openingQuantity(position: number, change: number): number {
+  const after = position + change;
+  return Math.sign(after) === Math.sign(position)
+    ? Math.max(Math.abs(after) - Math.abs(position), 0)
+    : Math.abs(after);
+}
+
+/**
+ * Net quantity held per symbol from a list of trades, without flat symbols
+ */
+export function netPositions(trades: Pick<RiskTrade, 'symbol' | 'side' | 'quantity'>[]): Map<string, number> {
+  const positions = new Map<string, number>();
+  trades.forEach(({ symbol, side, quantity }) => {
+    positions.set(symbol, (positions.get(symbol) || 0) + (side === 'BUY' ? quantity : -quantity));
+  });
+  positions.forEach((quantity, symbol) => {
+    if (quantity === 0) positions.delete(symbol);
+  });
+  return positions;
+}
+
+/**
+ * Profit or loss of a day's trades, marking what they left open to the market
+ */
+export function dayPnL(trades: RiskTrade[], prices: Map<string, number>): number {
+  const cash = trades.reduce((sum, { side, quantity, price, commission = 0 }) =>
+    sum + (side === 'SELL' ? quantity * price : -quantity * price) - commission, 0);
+
+  let marked = 0;
+  netPositions(trades).forEach((quantity, symbol) => {
+    marked += quantity * (prices.get(symbol) || 0);
+  });
+  return cash + marked;
+}
+
+/**
+ * Check an order against a set of limits
+ */
+export function evaluateOrder(
+  order: RiskOrder,
+  context: RiskContext,
+  limits: Partial<RiskLimits>,
+  scope: RiskViolation['scope'] = 'ACCOUNT'
+): RiskViolation[] {
+  const violations: RiskViolation[] = [];
+  const violate = (rule: RiskViolation['rule'], message: string, limit: number, value: number) =>
+    violations.push({ rule, scope, message, limit, value });
+  const subject = scope === 'STRATEGY' ? 'Strategy' : 'Account';
+  const base = scope === 'STRATEGY' ? 'strategy capital' : 'equity';
+
+  const {
+    marketPrice = 0,
+    position = 0,
+    equity = 0,
+    buyingPower,
+    shortable = true,
+    exposure = 0,
+    recentOrders = 0,
+    openTrades = 0,
+  } = context;
+
+  const price = order.price || order.stopPrice || marketPrice;
+  const value = price * order.quantity;
+  const change = order.side === 'BUY' ? order.quantity : -order.quantity;
+  const after = position + change;
+  const reducing = isReducing(position, change);
+  const opening = openingQuantity(position, change);
+
+  if (isSet(limits.maxOrdersPerMinute) && recentOrders >= limits.maxOrdersPerMinute) {
+    violate('ORDER_RATE',
+      `${subject} order rate limit of ${limits.maxOrdersPerMinute} orders per minute reached`,
+      limits.maxOrdersPerMinute, recentOrders);
+  }
+
+  if (isSet(limits.maxOrderValue) && value > limits.maxOrderValue) {
+    violate('ORDER_VALUE',
+      `Order value ${formatAmount(value)} exceeds the ${formatAmount(limits.maxOrderValue)} limit per order`,
+      limits.maxOrderValue, value);
+  }
+
+  // Fat finger check: limit and stop prices far away from the market
+  const band = limits.priceBandPercent;
+  if (isSet(band) && marketPrice > 0) {
+    ([['Limit', order.price], ['Stop', order.stopPrice]] as [string, number | undefined][])
+      .forEach(([label, orderPrice]) => {
+        if (!orderPrice) return;
+        const deviation = Math.abs(orderPrice - marketPrice) / marketPrice * 100;
+        if (deviation > band) {
+          violate('PRICE_BAND',
+            `${label} price ${formatAmount(orderPrice)} is ${formatPercent(deviation)} away from the market price ${formatAmount(marketPrice)} (band ${band}%)`,
+            band, deviation);
+        }
+      });
+  }
+
+  if (!shortable && after < 0 && opening > 0) {
+    violate('SHORT_SALE',
+      `${order.symbol || 'This symbol'} cannot be sold short in this account`,
+      0, opening);
+  }
+
+  if (isSet(buyingPower) && opening > 0) {
+    const required = opening * price + value * COMMISSION_RATE;
+    if (required > buyingPower) {
+      violate('BUYING_POWER',
+        `Insufficient buying power: order needs ${formatAmount(required)}, ${formatAmount(Math.max(buyingPower, 0))} available`,
+        buyingPower, required);
+    }
+  }
+
+  if (reducing) {
+    return violations;
+  }
+
+  if (isSet(limits.maxExposurePercent) && equity > 0) {
+    const exposureAfter = exposure + (Math.abs(after) - Math.abs(position)) * price;
+    const percent = exposureAfter / equity * 100;
+    if (percent > limits.maxExposurePercent) {
+      violate('EXPOSURE',
+        `${subject} exposure would reach ${formatPercent(percent)} of ${base} (limit ${limits.maxExposurePercent}%)`,
+        limits.maxExposurePercent, percent);
+    }
+  }
+
+  if (isSet(limits.maxPositionSizePercent) && equity > 0) {
+    const percent = Math.abs(after) * price / equity * 100;
+    if (percent > limits.maxPositionSizePercent) {
+      violate('CONCENTRATION',
+        `${order.symbol || 'Position'} would make up ${formatPercent(percent)} of ${base} (limit ${limits.maxPositionSizePercent}%)`,
+        limits.maxPositionSizePercent, percent);
+    }
+  }
+
+  const loss = Math.max(-(context.dayPnL || 0), 0);
+  const lossLimits = [
+    isSet(limits.maxDailyLoss) ? limits.maxDailyLoss : null,
+    isSet(limits.maxDailyLossPercent) && equity > 0 ? equity * limits.maxDailyLossPercent / 100 : null,
+  ].filter(isSet);
+  if (lossLimits.length > 0) {
+    const lossLimit = Math.min(...lossLimits);
+    if (loss >= lossLimit) {
+      violate('DAILY_LOSS',
+        `${subject} daily loss of ${formatAmount(loss)} has reached the ${formatAmount(lossLimit)} limit; only orders that reduce positions are accepted`,
+        lossLimit, loss);
+    }
+  }
+
+  if (isSet(limits.maxConcurrentTrades) && position === 0 && openTrades >= limits.maxConcurrentTrades) {
+    violate('CONCURRENT_TRADES',
+      `${subject} already has ${openTrades} open trade(s) (limit ${limits.maxConcurrentTrades})`,
+      limits.maxConcurrentTrades, openTrades);
+  }
+
+  return violations;
+}
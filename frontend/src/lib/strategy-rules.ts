@@ -0,0 +1,235 @@
+/**
+ * Building blocks of the visual strategy builder.
+ *
+ * Mirrors the indicator catalogue and limits of backend/src/utils/strategyRules.js,
+ * which validates and runs the rules; keep the two in step. The backend stays
+ * the source of truth, so the checks here only catch what the builder can
+ * point at before saving.
+ */
+
+import {
+  PriceField,
+  RuleAction,
+  RuleComparator,
+  RuleCondition,
+  RuleGroup,
+  RuleIndicator,
+  RuleOperand,
+  StrategyRule,
+  StrategyRules,
+} from '@/types/trading';
+
+export const RULES_VERSION = 1;
+
+export const MAX_RULES = 10;
+export const MAX_DEPTH = 3;
+export const MAX_CONDITIONS = 10;
+
+export type RuleSide = 'entry' | 'exit';
+
+interface IndicatorParam {
+  key: string;
+  label: string;
+  default: number;
+  integer?: boolean;
+}
+
+interface IndicatorDefinition {
+  label: string;
+  params: IndicatorParam[];
+  source?: PriceField; // default field of indicators that let the user pick one
+  outputs?: string[]; // first output is the default
+}
+
+export const RULE_INDICATORS: Record<RuleIndicator, IndicatorDefinition> = {
+  SMA: { label: 'Simple Moving Average', params: [{ key: 'period', label: 'Period', default: 20, integer: true }], source: 'close' },
+  EMA: { label: 'Exponential Moving Average', params: [{ key: 'period', label: 'Period', default: 20, integer: true }], source: 'close' },
+  WMA: { label: 'Weighted Moving Average', params: [{ key: 'period', label: 'Period', default: 20, integer: true }], source: 'close' },
+  RSI: { label: 'Relative Strength Index', params: [{ key: 'period', label: 'Period', default: 14, integer: true }], source: 'close' },
+  MACD: {
+    label: 'MACD',
+    params: [
+      { key: 'fastPeriod', label: 'Fast', default: 12, integer: true },
+      { key: 'slowPeriod', label: 'Slow', default: 26, integer: true },
+      { key: 'signalPeriod', label: 'Signal', default: 9, integer: true },
+    ],
+    outputs: ['macd', 'signal', 'histogram'],
+  },
+  BOLLINGER: {
+    label: 'Bollinger Bands',
+    params: [
+      { key: 'period', label: 'Period', default: 20, integer: true },
+      { key: 'multiplier', label: 'Std Dev', default: 2 },
+    ],
+    outputs: ['upper', 'middle', 'lower'],
+  },
+  ATR: { label: 'Average True Range', params: [{ key: 'period', label: 'Period', default: 14, integer: true }] },
+  STOCHASTIC: {
+    label: 'Stochastic',
+    params: [
+      { key: 'kPeriod', label: '%K', default: 14, integer: true },
+      { key: 'dPeriod', label: '%D', default: 3, integer: true },
+    ],
+    outputs: ['k', 'd'],
+  },
+  VWAP: { label: 'VWAP (daily)', params: [] },
+  OBV: { label: 'On-Balance Volume', params: [] },
+  ADX: {
+    label: 'Average Directional Index',
+    params: [{ key: 'period', label: 'Period', default: 14, integer: true }],
+    outputs: ['adx', 'plusDI', 'minusDI'],
+  },
+  SUPERTREND: {
+    label: 'SuperTrend',
+    params: [
+      { key: 'period', label: 'Period', default: 10, integer: true },
+      { key: 'multiplier', label: 'Multiplier', default: 3 },
+    ],
+    outputs: ['value', 'direction'],
+  },
+  HIGHEST: { label: 'Highest', params: [{ key: 'period', label: 'Period', default: 20, integer: true }], source: 'high' },
+  LOWEST: { label: 'Lowest', params: [{ key: 'period', label: 'Period', default: 20, integer: true }], source: 'low' },
+};
+
+export const PRICE_FIELDS: PriceField[] = ['open', 'high', 'low', 'close', 'volume'];
+
+export const COMPARATOR_LABELS: Record<RuleComparator, string> = {
+  GREATER_THAN: '>',
+  GREATER_THAN_OR_EQUAL: '>=',
+  LESS_THAN: '<',
+  LESS_THAN_OR_EQUAL: '<=',
+  CROSSES_ABOVE: 'crosses above',
+  CROSSES_BELOW: 'crosses below',
+};
+
+export function createIndicatorOperand(indicator: RuleIndicator): RuleOperand {
+  const definition = RULE_INDICATORS[indicator];
+  return {
+    type: 'INDICATOR',
+    indicator,
+    params: Object.fromEntries(definition.params.map(param => [param.key, param.default])),
+    ...(definition.source && { source: definition.source }),
+    ...(definition.outputs && { output: definition.outputs[0] }),
+  };
+}
+
+export function createCondition(): RuleCondition {
+  return {
+    type: 'CONDITION',
+    left: createIndicatorOperand('SMA'),
+    comparator: 'GREATER_THAN',
+    right: { type: 'PRICE', field: 'close' },
+  };
+}
+
+export function createGroup(): RuleGroup {
+  return { type: 'GROUP', logic: 'AND', conditions: [createCondition()] };
+}
+
+export function createRule(side: RuleSide): StrategyRule {
+  const action: RuleAction = side === 'entry'
+    ? { type: 'BUY', size: { unit: 'PERCENT_OF_EQUITY', value: 10 } }
+    : { type: 'CLOSE' };
+  return { name: '', when: createGroup(), action };
+}
+
+export function createEmptyRules(): StrategyRules {
+  return { version: RULES_VERSION, entry: [], exit: [] };
+}
+
+export function describeOperand(operand: RuleOperand): string {
+  switch (operand.type) {
+    case 'NUMBER':
+      return String(operand.value);
+    case 'PRICE':
+      return operand.field.toUpperCase();
+    default: {
+      const definition = RULE_INDICATORS[operand.indicator];
+      const args: (string | number)[] = definition.params.map(param => operand.params[param.key] ?? param.default);
+      if (operand.source && operand.source !== definition.source) args.push(operand.source);
+      const name = args.length ? `${operand.indicator}(${args.join(', ')})` : operand.indicator;
+      return operand.output && definition.outputs && operand.output !== definition.outputs[0]
+        ? `${name}.${operand.output}`
+        : name;
+    }
+  }
+}
+
+function describeNode(node: RuleCondition | RuleGroup, nested = false): string {
+  if (node.type === 'CONDITION') {
+    return `${describeOperand(node.left)} ${COMPARATOR_LABELS[node.comparator]} ${describeOperand(node.right)}`;
+  }
+  const text = node.conditions.map(child => describeNode(child, true)).join(` ${node.logic} `);
+  return nested && node.conditions.length > 1 ? `(${text})` : text;
+}
+
+// The same text the backend uses as the order reason of an unnamed rule
+export function describeRule(rule: StrategyRule): string {
+  return rule.name || describeNode(rule.when);
+}
+
+function operandErrors(operand: RuleOperand, path: string): string[] {
+  if (operand.type === 'NUMBER') {
+    return Number.isFinite(operand.value) ? [] : [`${path} must be a number`];
+  }
+  if (operand.type === 'PRICE') {
+    return [];
+  }
+  return RULE_INDICATORS[operand.indicator].params
+    .filter(({ key, integer }) => {
+      const value = operand.params[key];
+      return !(Number.isFinite(value) && value > 0) || (integer && !Number.isInteger(value));
+    })
+    .map(({ label, integer }) => `${path} ${operand.indicator} ${label.toLowerCase()} must be a positive ${integer ? 'whole ' : ''}number`);
+}
+
+function nodeErrors(node: RuleCondition | RuleGroup, path: string, depth: number): string[] {
+  if (node.type === 'CONDITION') {
+    return [...operandErrors(node.left, `${path} left side`), ...operandErrors(node.right, `${path} right side`)];
+  }
+  if (depth > MAX_DEPTH) {
+    return [`${path} nests groups deeper than ${MAX_DEPTH} levels`];
+  }
+  if (node.conditions.length === 0) {
+    return [`${path} needs at least one condition`];
+  }
+  if (node.conditions.length > MAX_CONDITIONS) {
+    return [`${path} has more than ${MAX_CONDITIONS} conditions`];
+  }
+  return node.conditions.flatMap((child, index) => nodeErrors(child, `${path}.${index + 1}`, depth + 1));
+}
+
+function actionErrors(action: RuleAction, path: string): string[] {
+  if (action.type === 'CLOSE' || !action.size) {
+    return [];
+  }
+  const { unit, value } = action.size;
+  if (unit === 'SHARES') {
+    return Number.isInteger(value) && value > 0 ? [] : [`${path} size must be a positive whole number of shares`];
+  }
+  return value > 0 && value <= 100 ? [] : [`${path} size must be between 0 and 100 percent`];
+}
+
+/**
+ * Problems the builder can show next to the rules, worded like the backend's
+ */
+export function validateRules(rules: StrategyRules): string[] {
+  const errors: string[] = [];
+
+  if (rules.entry.length === 0) {
+    errors.push('Add at least one entry rule');
+  }
+
+  (['entry', 'exit'] as RuleSide[]).forEach(side => {
+    const label = side === 'entry' ? 'Entry' : 'Exit';
+    if (rules[side].length > MAX_RULES) {
+      errors.push(`A strategy holds up to ${MAX_RULES} ${side} rules`);
+    }
+    rules[side].forEach((rule, index) => {
+      const path = `${label} rule ${index + 1}`;
+      errors.push(...nodeErrors(rule.when, `${path} condition`, 1), ...actionErrors(rule.action, path));
+    });
+  });
+
+  return errors;
+}
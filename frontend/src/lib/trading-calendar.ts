@@ -0,0 +1,115 @@
+/**
+ * Exchange trading calendar.
+ *
+ * A port of backend/src/utils/tradingCalendar.js so the demo order service
+ * and paper trading sessions gate on the same session phases the backend
+ * order engine uses. Holidays are empty until `setHolidays` is called with
+ * the list from `tradingAPI.getHolidays`; keep the two files in step.
+ */
+
+import { Exchange, MarketHoliday, MarketPhase } from '@/types/trading';
+
+export interface PhaseInfo {
+  phase: MarketPhase;
+  acceptsOrders: boolean;
+  matches: boolean;
+  holiday?: string;
+}
+
+export const EXCHANGES: Exchange[] = ['NSE', 'BSE'];
+
+const PHASES: Record<MarketPhase, { acceptsOrders: boolean; matches: boolean }> = {
+  CLOSED: { acceptsOrders: false, matches: false },
+  PRE_OPEN: { acceptsOrders: true, matches: false },
+  PRE_OPEN_MUTED: { acceptsOrders: false, matches: false },
+  OPEN: { acceptsOrders: true, matches: true },
+  CLOSING_MUTED: { acceptsOrders: false, matches: false },
+  POST_CLOSE: { acceptsOrders: true, matches: false },
+};
+
+// Phase boundaries as [phase, start, end) in exchange local time
+const STANDARD_SCHEDULE: [MarketPhase, string, string][] = [
+  ['PRE_OPEN', '09:00', '09:08'],
+  ['PRE_OPEN_MUTED', '09:08', '09:15'],
+  ['OPEN', '09:15', '15:30'],
+  ['CLOSING_MUTED', '15:30', '15:40'],
+  ['POST_CLOSE', '15:40', '16:00'],
+];
+
+export const SESSIONS: Record<Exchange, { timezone: string; utcOffsetMinutes: number }> = {
+  NSE: { timezone: 'Asia/Kolkata', utcOffsetMinutes: 330 },
+  BSE: { timezone: 'Asia/Kolkata', utcOffsetMinutes: 330 },
+};
+
+const holidays: Record<Exchange, Map<string, MarketHoliday>> = {
+  NSE: new Map(),
+  BSE: new Map(),
+};
+
+const toMinute = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Replace the holiday list of an exchange
+ */
+export function setHolidays(exchange: Exchange, list: MarketHoliday[]): void {
+  holidays[exchange] = new Map(list.map(holiday => [holiday.date, holiday]));
+}
+
+/**
+ * Local date, minute of day and weekday of a time on an exchange
+ */
+export function exchangeTime(date: Date, exchange: Exchange = 'NSE'): { key: string; minute: number; weekday: number } {
+  const local = new Date(date.getTime() + SESSIONS[exchange].utcOffsetMinutes * 60000);
+  return {
+    key: local.toISOString().slice(0, 10),
+    minute: local.getUTCHours() * 60 + local.getUTCMinutes(),
+    weekday: local.getUTCDay(),
+  };
+}
+
+/**
+ * Whether the exchange trades on a date; holidays with a special session count
+ */
+export function isTradingDay(date: Date, exchange: Exchange = 'NSE'): boolean {
+  const { key, weekday } = exchangeTime(date, exchange);
+  const holiday = holidays[exchange].get(key);
+
+  if (holiday) {
+    return Boolean(holiday.specialSession);
+  }
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * Session phase of an exchange at a time
+ */
+export function getMarketPhase(date: Date = new Date(), exchange: Exchange = 'NSE'): PhaseInfo {
+  const { key, minute } = exchangeTime(date, exchange);
+  const holiday = holidays[exchange].get(key);
+
+  if (!isTradingDay(date, exchange)) {
+    return { phase: 'CLOSED', ...PHASES.CLOSED, holiday: holiday?.description };
+  }
+
+  const schedule: [MarketPhase, string, string][] = holiday?.specialSession
+    ? [['OPEN', holiday.specialSession.open, holiday.specialSession.close]]
+    : STANDARD_SCHEDULE;
+  const entry = schedule.find(([, start, end]) => minute >= toMinute(start) && minute < toMinute(end));
+  const phase = entry ? entry[0] : 'CLOSED';
+
+  return { phase, ...PHASES[phase], holiday: holiday?.description };
+}
+
+/**
+ * Rejection reason for an order entered at a time, or null when accepted
+ */
+export function orderEntryRejection(date: Date = new Date(), exchange: Exchange = 'NSE'): string | null {
+  const { phase, acceptsOrders, holiday } = getMarketPhase(date, exchange);
+
+  if (acceptsOrders) return null;
+  if (phase === 'CLOSED') return holiday ? `Market closed (${holiday})` : 'Market closed';
+  return `Order entry is not allowed during ${phase.replace(/_/g, ' ').toLowerCase()}`;
+}
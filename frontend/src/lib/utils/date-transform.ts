@@ -53,7 +53,13 @@ function isDateField(key: string): boolean {
         'timestamp',
         'lastTradeTime',
         'triggeredAt',
-        'expiresAt'
+        'expiresAt',
+        'expiredAt',
+        'startedAt',
+        'pausedAt',
+        'stoppedAt',
+        'lastBarAt',
+        'lastSignalAt'
     ];
 
     return dateFields.includes(key) || key.toLowerCase().includes('date') || key.toLowerCase().includes('time');
@@ -29,7 +29,7 @@ export const validateOrder = (order: Partial<Order>): ValidationError[] => {
     errors.push(new ValidationError('Valid side (BUY/SELL) is required', 'side'));
   }
 
-  if (!order.type || !['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'].includes(order.type)) {
+  if (!order.type || !['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TRAILING_STOP'].includes(order.type)) {
     errors.push(new ValidationError('Valid order type is required', 'type'));
   }
 
@@ -45,6 +45,18 @@ export const validateOrder = (order: Partial<Order>): ValidationError[] => {
     errors.push(new ValidationError('Stop price is required for stop orders', 'stopPrice'));
   }
 
+  if (order.type === 'TRAILING_STOP' && !order.trailAmount === !order.trailPercent) {
+    errors.push(new ValidationError('Trailing stop orders need either a trail amount or a trail percent', 'trailAmount'));
+  }
+
+  if (order.timeInForce === 'GTD' && !order.expiresAt) {
+    errors.push(new ValidationError('Expiry date is required for good-till-date orders', 'expiresAt'));
+  }
+
+  if (order.displayQuantity && order.quantity && order.displayQuantity >= order.quantity) {
+    errors.push(new ValidationError('Display quantity must be less than the order quantity', 'displayQuantity'));
+  }
+
   if (order.filledQuantity && order.filledQuantity < 0) {
     errors.push(new ValidationError('Filled quantity cannot be negative', 'filledQuantity'));
   }
@@ -141,6 +141,14 @@ class TradingWebSocket {
         this.emit('marketDataUpdate', message.data);
         break;
 
+      case 'BAR_UPDATE':
+        this.emit('barUpdate', message.data);
+        break;
+
+      case 'ORDER_BOOK_UPDATE':
+        this.emit('orderBookUpdate', message.data);
+        break;
+
       case 'ORDER_UPDATE':
         this.emit('orderUpdate', message.data);
         break;
@@ -161,6 +169,18 @@ class TradingWebSocket {
         this.emit('riskManagementTriggered', message.data);
         break;
 
+      case 'MARGIN_CALL':
+        this.emit('marginCall', message.data);
+        break;
+
+      case 'PAPER_SESSION_UPDATE':
+        this.emit('paperSessionUpdate', message.data);
+        break;
+
+      case 'STRATEGY_SIGNAL':
+        this.emit('strategySignal', message.data);
+        break;
+
       case 'PONG':
         // Handle ping/pong for connection health
         break;
@@ -229,6 +229,9 @@ export const mockBacktestResults: BacktestResult[] = [
       beta: 0.85,
       alpha: 0.12,
       informationRatio: 1.23,
+      trackingError: 9.8,
+      upCapture: 112.4,
+      downCapture: 81.7,
       calmarRatio: 3.76,
       sterlingRatio: 2.89,
     },
@@ -279,6 +282,9 @@ export const mockBacktestResults: BacktestResult[] = [
       beta: 1.15,
       alpha: -0.08,
       informationRatio: -0.73,
+      trackingError: 14.2,
+      upCapture: 96.1,
+      downCapture: 121.5,
       calmarRatio: -0.66,
       sterlingRatio: -0.52,
     },
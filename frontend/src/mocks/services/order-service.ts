@@ -1,10 +1,22 @@
-import { Order, OrderStatus, Trade } from '@/types/trading';
+import { Order, OrderStatus, RiskCheckResult, RiskLimits, RiskViolation, Trade } from '@/types/trading';
 import { mockOrders, mockTrades } from '@/mocks/data/orders';
+import { mockPositionService } from '@/mocks/services/position-service';
+import { exchangeTime, getMarketPhase, orderEntryRejection } from '@/lib/trading-calendar';
+import { DEFAULT_RISK_LIMITS, dayPnL, evaluateOrder, netPositions } from '@/lib/risk-engine';
+
+// Limits a strategy was deployed with; capital is the base of its percentage limits
+export type StrategyRiskLimits = Partial<RiskLimits> & { capital?: number };
+
+type OrderInput = Pick<Order, 'symbol' | 'side' | 'quantity' | 'price' | 'stopPrice' | 'strategyId'> & { id?: string };
+
+// Window of the order rate limit
+const RATE_WINDOW_MS = 60 * 1000;
 
 export class MockOrderService {
   private orders: Order[] = [...mockOrders];
   private trades: Trade[] = [...mockTrades];
   private listeners: ((orders: Order[]) => void)[] = [];
+  private strategyLimits = new Map<string, StrategyRiskLimits>();
 
   constructor() {
     // Simulate order processing in the background
@@ -69,6 +81,7 @@ export class MockOrderService {
     if (!validation.isValid) {
       order.status = 'REJECTED';
       order.rejectionReason = validation.reason;
+      order.riskViolations = validation.violations;
     }
 
     this.orders.unshift(order);
@@ -152,17 +165,85 @@ export class MockOrderService {
   }
 
   /**
-   * Validate order before placement
+   * Set the risk limits of a deployed strategy, or clear them with null
    */
-  private validateOrder(order: Order): { isValid: boolean; reason?: string } {
-    // Simulate various rejection scenarios
-    
-    // Check for insufficient funds (simplified)
-    const orderValue = (order.price || 1000) * order.quantity;
-    if (orderValue > 1000000) { // Mock limit of 10 lakh
-      return { isValid: false, reason: 'Insufficient funds' };
+  setStrategyLimits(strategyId: string, limits: StrategyRiskLimits | null): void {
+    if (limits) {
+      this.strategyLimits.set(strategyId, limits);
+    } else {
+      this.strategyLimits.delete(strategyId);
     }
+  }
+
+  /**
+   * Run the pre-trade risk checks on an order against the account and,
+   * for strategy orders, the limits the strategy was deployed with
+   */
+  checkOrder(order: OrderInput): RiskCheckResult {
+    const now = new Date();
+    const portfolio = mockPositionService.getPortfolio();
+    const positions = mockPositionService.getPositions();
+    const prices = new Map(mockPositionService.getMarketData().map(data => [data.symbol, data.price]));
+    const marketPrice = prices.get(order.symbol) || 1000;
+    prices.set(order.symbol, marketPrice);
+
+    const held = positions.find(position => position.symbol === order.symbol);
+    const reserved = this.getActiveOrders()
+      .filter(open => open.side === 'BUY' && open.id !== order.id)
+      .reduce((sum, open) => sum + open.remainingQuantity * (open.price || open.stopPrice || prices.get(open.symbol) || 0), 0);
+    const equity = portfolio.cash + positions.reduce((sum, position) => sum + position.unrealizedPnL, 0);
+
+    const violations = evaluateOrder(order, {
+      marketPrice,
+      position: held ? (held.side === 'SHORT' ? -Math.abs(held.quantity) : Math.abs(held.quantity)) : 0,
+      equity,
+      buyingPower: portfolio.cash - reserved,
+      exposure: positions.reduce((sum, position) => sum + Math.abs(position.quantity) * position.currentPrice, 0),
+      dayPnL: portfolio.dayPnL,
+      recentOrders: this.recentOrders(order, now),
+      openTrades: positions.length,
+    }, DEFAULT_RISK_LIMITS, 'ACCOUNT');
+
+    const limits = order.strategyId ? this.strategyLimits.get(order.strategyId) : undefined;
+    if (order.strategyId && limits) {
+      const strategyId = order.strategyId;
+      const trades = this.trades.filter(trade => trade.strategyId === strategyId);
+      const strategyHeld = netPositions(trades);
+      const today = exchangeTime(now).key;
+
+      let exposure = 0;
+      strategyHeld.forEach((quantity, symbol) => {
+        exposure += Math.abs(quantity) * (prices.get(symbol) || 0);
+      });
 
+      violations.push(...evaluateOrder(order, {
+        marketPrice,
+        position: strategyHeld.get(order.symbol) || 0,
+        equity: limits.capital || equity,
+        exposure,
+        dayPnL: dayPnL(trades.filter(trade => exchangeTime(trade.executedAt).key === today), prices),
+        recentOrders: this.recentOrders(order, now, strategyId),
+        openTrades: strategyHeld.size,
+      }, limits, 'STRATEGY'));
+    }
+
+    return { approved: violations.length === 0, violations };
+  }
+
+  // Orders accepted in the rate window, not counting the one being checked
+  private recentOrders(order: OrderInput, now: Date, strategyId?: string): number {
+    return this.orders.filter(placed =>
+      placed.id !== order.id &&
+      placed.status !== 'REJECTED' &&
+      (!strategyId || placed.strategyId === strategyId) &&
+      now.getTime() - placed.createdAt.getTime() < RATE_WINDOW_MS
+    ).length;
+  }
+
+  /**
+   * Validate order before placement
+   */
+  private validateOrder(order: Order): { isValid: boolean; reason?: string; violations?: RiskViolation[] } {
     // Check for invalid price ranges
     if (order.price && order.price <= 0) {
       return { isValid: false, reason: 'Invalid price' };
@@ -173,17 +254,19 @@ export class MockOrderService {
       return { isValid: false, reason: 'Invalid quantity' };
     }
 
-    // Random rejection for demo purposes (5% chance)
-    if (Math.random() < 0.05) {
-      const reasons = [
-        'Market closed',
-        'Symbol not tradeable',
-        'Price limit exceeded',
-        'Risk management rejection'
-      ];
-      return { 
-        isValid: false, 
-        reason: reasons[Math.floor(Math.random() * reasons.length)]
+    // Orders are only accepted in the order entry phases of the session
+    const rejection = orderEntryRejection();
+    if (rejection) {
+      return { isValid: false, reason: rejection };
+    }
+
+    // Pre-trade risk checks shared with manual orders
+    const { approved, violations } = this.checkOrder(order);
+    if (!approved) {
+      return {
+        isValid: false,
+        reason: violations.map(violation => violation.message).join(', '),
+        violations,
       };
     }
 
@@ -213,6 +296,10 @@ export class MockOrderService {
     const order = this.orders.find(o => o.id === orderId);
     if (!order || order.status !== 'PENDING') return;
 
+    // Orders accepted outside continuous trading wait for the market to open;
+    // the background processor picks them up again
+    if (!getMarketPhase().matches) return;
+
     // Simulate different fill scenarios
     const fillScenario = Math.random();
     
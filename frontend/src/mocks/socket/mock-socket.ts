@@ -59,6 +59,10 @@ export interface StrategySignal {
   signal: 'BUY' | 'SELL' | 'HOLD';
   symbol: string;
   confidence: number;
+  // Why the strategy signalled, as journaled by the server
+  reason: string;
+  indicators: Record<string, number>;
+  conditions: Array<{ description: string; passed: boolean; left: number; right: number }>;
   timestamp: Date;
 }
 
@@ -293,12 +297,19 @@ export class MockSocket {
     const signals: StrategySignal['signal'][] = ['BUY', 'SELL', 'HOLD'];
     const signal = signals[Math.floor(Math.random() * signals.length)];
     const confidence = Math.random() * 0.4 + 0.6; // 60-100% confidence
+    const rsi = Math.round((signal === 'BUY' ? 20 + Math.random() * 10 : signal === 'SELL' ? 70 + Math.random() * 10 : 40 + Math.random() * 20) * 100) / 100;
 
     const strategySignal: StrategySignal = {
       strategyId: `strategy_${Math.floor(Math.random() * 4) + 1}`,
       signal,
       symbol,
       confidence: Math.round(confidence * 100) / 100,
+      reason: signal === 'BUY' ? 'RSI Oversold' : signal === 'SELL' ? 'RSI Overbought' : 'No entry or exit',
+      indicators: { 'RSI(14)': rsi },
+      conditions: [
+        { description: 'RSI(14) < 30', passed: rsi < 30, left: rsi, right: 30 },
+        { description: 'RSI(14) > 70', passed: rsi > 70, left: rsi, right: 70 },
+      ],
       timestamp: new Date(),
     };
 
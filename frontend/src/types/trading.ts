@@ -1,8 +1,12 @@
 // Core trading entity types for the shareTrading UI MVP
 
 export type OrderSide = 'BUY' | 'SELL';
-export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
-export type OrderStatus = 'PENDING' | 'FILLED' | 'PARTIALLY_FILLED' | 'CANCELLED' | 'REJECTED';
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP';
+// WAITING: a bracket exit held until its entry fills
+export type OrderStatus = 'PENDING' | 'WAITING' | 'FILLED' | 'PARTIALLY_FILLED' | 'CANCELLED' | 'REJECTED' | 'EXPIRED';
+export type OrderRole = 'ENTRY' | 'STOP_LOSS' | 'TAKE_PROFIT';
+// DAY: until the session close, GTD: until expiresAt, IOC/FOK: on arrival only
+export type TimeInForce = 'DAY' | 'GTC' | 'IOC' | 'FOK' | 'GTD';
 export type PositionSide = 'LONG' | 'SHORT';
 export type StrategyType = 'VISUAL' | 'CODE' | 'TEMPLATE';
 export type StrategyStatus = 'DRAFT' | 'ACTIVE' | 'PAUSED' | 'STOPPED';
@@ -36,8 +40,72 @@ export interface MarketData {
   askSize?: number;
 }
 
+export type Timeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '1d' | '1w';
+
+export interface OHLCBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// In-progress bars of every live timeframe after a tick
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+  orders: number; // paper orders resting at the level
+}
+
+export interface OrderBookDepth {
+  symbol: string;
+  lastPrice: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  spread: number | null;
+  timestamp: string;
+}
+
+export interface BarUpdate {
+  symbol: string;
+  bars: Partial<Record<Timeframe, OHLCBar | null>>;
+  closed: Timeframe[];
+}
+
+export type Exchange = 'NSE' | 'BSE';
+
+export type MarketPhase =
+  | 'CLOSED'
+  | 'PRE_OPEN'
+  | 'PRE_OPEN_MUTED'
+  | 'OPEN'
+  | 'CLOSING_MUTED'
+  | 'POST_CLOSE';
+
+export interface MarketHoliday {
+  date: string; // YYYY-MM-DD in exchange local time
+  description: string;
+  specialSession?: { open: string; close: string };
+}
+
+export interface MarketStatus {
+  exchange: Exchange;
+  phase: MarketPhase;
+  acceptsOrders: boolean;
+  matches: boolean;
+  isOpen: boolean;
+  tradingDay: boolean;
+  holiday?: string;
+  nextOpen: string | null;
+  nextClose: string | null;
+  timezone: string;
+  schedule: { phase: MarketPhase; start: string; end: string }[];
+}
+
 export interface Order {
   id: string;
+  portfolioId?: string;
   strategyId?: string;
   symbol: string;
   side: OrderSide;
@@ -45,20 +113,68 @@ export interface Order {
   quantity: number;
   price?: number;
   stopPrice?: number;
+  trailAmount?: number; // trailing stop offset in price
+  trailPercent?: number; // trailing stop offset in percent
+  displayQuantity?: number; // iceberg slice shown in the book
+  parentOrderId?: string; // bracket entry of an exit
+  role?: OrderRole;
+  ocoGroupId?: string; // orders that cancel each other
   status: OrderStatus;
+  timeInForce?: TimeInForce;
+  expiresAt?: Date;
   filledQuantity: number;
   avgFillPrice?: number;
   remainingQuantity: number;
   commission: number;
+  queuePosition?: number; // shares ahead of a resting limit order
   rejectionReason?: string;
+  riskViolations?: RiskViolation[]; // pre-trade rules a rejected order broke
   createdAt: Date;
   updatedAt: Date;
   filledAt?: Date;
+  expiredAt?: Date;
   tags?: string[];
 }
 
+export type RiskRule =
+  | 'BUYING_POWER'
+  | 'SHORT_SALE'
+  | 'ORDER_VALUE'
+  | 'PRICE_BAND'
+  | 'EXPOSURE'
+  | 'CONCENTRATION'
+  | 'DAILY_LOSS'
+  | 'ORDER_RATE'
+  | 'CONCURRENT_TRADES';
+
+export interface RiskViolation {
+  rule: RiskRule;
+  scope: 'ACCOUNT' | 'STRATEGY';
+  message: string;
+  limit: number;
+  value: number;
+}
+
+export interface RiskCheckResult {
+  approved: boolean;
+  violations: RiskViolation[];
+}
+
+// Pre-trade limits; null switches a rule off
+export interface RiskLimits {
+  maxOrderValue: number | null;
+  priceBandPercent: number | null;
+  maxExposurePercent: number | null;
+  maxPositionSizePercent: number | null;
+  maxDailyLoss: number | null;
+  maxDailyLossPercent: number | null;
+  maxOrdersPerMinute: number | null;
+  maxConcurrentTrades: number | null;
+}
+
 export interface Position {
   id: string;
+  portfolioId?: string;
   symbol: string;
   side: PositionSide;
   quantity: number;
@@ -97,9 +213,17 @@ export interface Strategy {
   status: StrategyStatus;
   parameters: Record<string, any>;
   code?: string;
+  rules?: StrategyRules; // logic of a VISUAL strategy
   templateId?: string;
   isTemplate: boolean;
   tags: string[];
+  version?: string; // semver of the latest saved version
+  forkedFrom?: {
+    templateId: string;
+    templateName: string;
+    templateVersion: string;
+    forkedAt: Date;
+  };
   createdAt: Date;
   updatedAt: Date;
   lastBacktestId?: string;
@@ -107,6 +231,56 @@ export interface Strategy {
   performance?: StrategyPerformance;
 }
 
+// Visual strategy rules, stored as a versioned tree; see backend utils/strategyRules.js
+export type RuleIndicator =
+  | 'SMA' | 'EMA' | 'WMA' | 'RSI' | 'MACD' | 'BOLLINGER' | 'ATR'
+  | 'STOCHASTIC' | 'VWAP' | 'OBV' | 'ADX' | 'SUPERTREND' | 'HIGHEST' | 'LOWEST';
+export type PriceField = 'open' | 'high' | 'low' | 'close' | 'volume';
+export type RuleComparator =
+  | 'GREATER_THAN' | 'GREATER_THAN_OR_EQUAL' | 'LESS_THAN' | 'LESS_THAN_OR_EQUAL'
+  | 'CROSSES_ABOVE' | 'CROSSES_BELOW';
+
+export type RuleOperand =
+  | { type: 'INDICATOR'; indicator: RuleIndicator; params: Record<string, number>; source?: PriceField; output?: string }
+  | { type: 'PRICE'; field: PriceField }
+  | { type: 'NUMBER'; value: number };
+
+export interface RuleCondition {
+  type: 'CONDITION';
+  left: RuleOperand;
+  comparator: RuleComparator;
+  right: RuleOperand;
+}
+
+export interface RuleGroup {
+  type: 'GROUP';
+  logic: 'AND' | 'OR';
+  conditions: (RuleCondition | RuleGroup)[];
+}
+
+export interface RuleSize {
+  unit: 'PERCENT_OF_EQUITY' | 'PERCENT_OF_POSITION' | 'SHARES';
+  value: number;
+}
+
+// A BUY without a size is sized by the backtest or deployment settings
+export type RuleAction =
+  | { type: 'BUY'; size?: RuleSize }
+  | { type: 'SELL'; size: RuleSize }
+  | { type: 'CLOSE' };
+
+export interface StrategyRule {
+  name?: string;
+  when: RuleGroup;
+  action: RuleAction;
+}
+
+export interface StrategyRules {
+  version: number;
+  entry: StrategyRule[];
+  exit: StrategyRule[];
+}
+
 export interface StrategyPerformance {
   totalReturn: number;
   totalReturnPercent: number;
@@ -133,6 +307,13 @@ export interface StrategyTemplate {
   parameterSchema: ParameterSchema[];
   code?: string;
   isBuiltIn: boolean;
+  isPublic?: boolean;
+  author?: string; // name of the user who published it
+  version?: string;
+  rating?: number; // average of its reviews
+  ratingCount?: number;
+  usageCount?: number;
+  forkCount?: number;
   createdAt: Date;
 }
 
@@ -176,6 +357,40 @@ export interface BacktestResult {
   trades: Trade[];
   monthlyReturns: MonthlyReturn[];
   riskMetrics: RiskMetrics;
+  // Portfolio backtests only
+  attribution?: SymbolAttribution[];
+  exposureCurve?: ExposurePoint[];
+  correlations?: CorrelationMatrices;
+  benchmark?: BenchmarkSummary;
+}
+
+export interface BenchmarkSummary {
+  type: 'INDEX' | 'SYMBOL';
+  symbol?: string;
+  label: string;
+  totalReturnPercent: number;
+}
+
+export interface SymbolAttribution {
+  symbol: string;
+  pnl: number;
+  returnContribution: number; // % of initial capital
+  pnlShare: number; // fraction of total P&L
+  trades: number;
+  winRate: number;
+  avgExposurePercent: number;
+}
+
+export interface ExposurePoint {
+  date: Date;
+  exposurePercent: number;
+  bySymbol: Record<string, number>;
+}
+
+export interface CorrelationMatrices {
+  symbols: string[];
+  returns: number[][];
+  pnl: number[][];
 }
 
 export interface BacktestSummary {
@@ -208,6 +423,7 @@ export interface EquityPoint {
   equity: number;
   drawdown: number;
   returns: number;
+  benchmark?: number; // benchmark rescaled to the starting equity
 }
 
 export interface DrawdownPoint {
@@ -232,6 +448,9 @@ export interface RiskMetrics {
   beta: number;
   alpha: number;
   informationRatio: number;
+  trackingError: number; // annualized, %
+  upCapture: number; // %
+  downCapture: number; // %
   calmarRatio: number;
   sterlingRatio: number;
 }
@@ -248,6 +467,37 @@ export interface Portfolio {
   positions: Position[];
   orders: Order[];
   updatedAt: Date;
+  // Margin account; CASH accounts pay in full and cannot sell short
+  accountType?: AccountType;
+  marginUsed?: number;
+  maintenanceMargin?: number;
+  availableMargin?: number;
+  buyingPower?: number;
+  leverage?: number;
+  marginCallAt?: Date | null;
+  // Paper account details; a user holds several portfolios and trades in one at a time
+  description?: string;
+  kind?: PortfolioKind;
+  strategyId?: string;
+  initialCapital?: number;
+  netTransfers?: number;
+  cashBalance?: number;
+  isDefault?: boolean;
+  isActive?: boolean;
+  archivedAt?: Date | null;
+  activePositionsCount?: number;
+}
+
+export type AccountType = 'CASH' | 'MARGIN';
+
+export type PortfolioKind = 'GENERAL' | 'STRATEGY' | 'SANDBOX' | 'COMPETITION';
+
+export interface MarginCall {
+  portfolioId: string;
+  equity: number;
+  maintenanceMargin: number;
+  deficit: number;
+  since: Date;
 }
 
 export interface Alert {
@@ -263,6 +513,98 @@ export interface Alert {
   expiresAt?: Date;
 }
 
+// Limits and exits a strategy is deployed to paper trading with
+export interface DeploymentConfig {
+  strategyId: string;
+  capital: number;
+  maxPositionSize: number;
+  maxPositionSizePercent: number;
+  riskPerTrade: number;
+  riskPerTradePercent: number;
+  maxDailyLoss: number;
+  maxDailyLossPercent: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  enableStopLoss: boolean;
+  stopLossPercent: number;
+  enableTakeProfit: boolean;
+  takeProfitPercent: number;
+  enableTrailingStop: boolean;
+  trailingStopPercent: number;
+  maxConcurrentTrades: number;
+  tradingHours: {
+    exchange: Exchange;
+    start: string;
+    end: string;
+    timezone: string;
+  };
+  notifications: {
+    onTrade: boolean;
+    onProfit: boolean;
+    onLoss: boolean;
+    onRiskAlert: boolean;
+  };
+}
+
+export type PaperSessionStatus = 'RUNNING' | 'PAUSED' | 'STOPPED';
+
+export interface SessionStatistics {
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  totalPnL: number;
+  totalPnLPercent: number;
+  dayPnL: number;
+  dayPnLPercent: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  winRate: number;
+  profitFactor: number;
+  avgWin: number;
+  avgLoss: number;
+  largestWin: number;
+  largestLoss: number;
+  currentCapital: number;
+  capitalUtilization: number;
+  activePositions: number;
+  pendingOrders: number;
+}
+
+// Usage of each deployment limit; the percents are of the limit, not of capital
+export interface SessionRiskMetrics {
+  dailyLossUsed: number;
+  dailyLossPercent: number;
+  drawdownUsed: number;
+  drawdownPercent: number;
+  positionSizeUsed: number;
+  positionSizePercent: number;
+  riskPerTradeUsed: number;
+  riskPerTradePercent: number;
+  isRiskLimitBreached: boolean;
+  riskAlerts: string[];
+}
+
+// A strategy trading live bars on the server with a slice of a portfolio's cash
+export interface PaperTradingSession {
+  id: string;
+  strategyId: string;
+  strategy: Pick<Strategy, 'id' | 'name' | 'description' | 'type' | 'status' | 'parameters' | 'performance'>;
+  portfolioId: string;
+  symbol: string;
+  timeframe: Timeframe;
+  config: DeploymentConfig;
+  status: PaperSessionStatus;
+  startedAt: Date;
+  pausedAt?: Date;
+  pauseReason?: string;
+  stoppedAt?: Date;
+  lastBarAt?: Date;
+  lastSignalAt?: Date;
+  statistics: SessionStatistics;
+  riskMetrics: SessionRiskMetrics;
+  alerts: Alert[];
+}
+
 export interface Watchlist {
   id: string;
   name: string;